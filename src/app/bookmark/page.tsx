@@ -3,9 +3,10 @@
 
 import * as React from 'react';
 import Link from 'next/link';
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { FAVORITES_STORAGE_KEY, CALCULATORS, APP_NAME } from '@/lib/constants';
-import type { FavoriteCalculators, CalculatorInfo } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage } from '@/lib/stored-data';
+import { CALCULATORS, APP_NAME } from '@/lib/constants';
+import type { CalculatorInfo } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'; // Removed CardDescription
 import { Button } from '@/components/ui/button';
 import { Bookmark, Star, Trash2 } from 'lucide-react';
@@ -26,7 +27,7 @@ import { JsonLd } from '@/components/seo/json-ld'; // Import JsonLd component
 
 
 export default function BookmarkPage() {
-  const [favorites, setFavorites] = useLocalStorage<FavoriteCalculators>(FAVORITES_STORAGE_KEY, []);
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage);
   const [mounted, setMounted] = React.useState(false);
 
   React.useEffect(() => {
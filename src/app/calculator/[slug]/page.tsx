@@ -134,14 +134,14 @@ export default function CalculatorPage({ params }: CalculatorPageProps) {
   };
 
   return (
-    <div className="p-4 md:p-8">
+    <div className="p-4 md:p-8 print:p-0">
       {/* Add JSON-LD Schema */}
        <JsonLd data={breadcrumbSchema} />
        <JsonLd data={howToToolSchema} />
 
        {/* Add H1 and Description */}
-       <h1 className="text-3xl font-bold mb-2">{calculatorInfo.name}</h1>
-       <p className="text-muted-foreground mb-6">{calculatorInfo.description}</p>
+       <h1 className="text-3xl font-bold mb-2 print:hidden">{calculatorInfo.name}</h1>
+       <p className="text-muted-foreground mb-6 print:hidden">{calculatorInfo.description}</p>
 
        {/* Wrap CalculatorContainer in Suspense */}
        <Suspense fallback={<CalculatorLoadingSkeleton />}>
@@ -2,14 +2,34 @@
 'use client';
 
 import * as React from 'react';
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { HISTORY_STORAGE_KEY, CALCULATORS, APP_NAME } from '@/lib/constants';
-import type { HistoryEntry } from '@/lib/types';
+import Link from 'next/link';
+import { useHistory } from '@/hooks/use-history';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage, profileStorage } from '@/lib/stored-data';
+import { APP_NAME, CATEGORIES } from '@/lib/constants';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  EMPTY_HISTORY_FILTER,
+  filterHistory,
+  getCalculatorName,
+  groupHistory,
+  isFilterActive,
+  isReplayable,
+  replayHref,
+  type HistoryFilter,
+  type HistoryGrouping,
+} from '@/lib/history';
+import type { CalculatorCategory } from '@/lib/types';
+import { planImport, type ConfirmedImport } from '@/lib/user-data';
 import { Card, CardContent } from '@/components/ui/card'; // Removed CardHeader, CardTitle, CardDescription
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { format } from 'date-fns';
-import { Trash2, History } from 'lucide-react';
+import { Trash2, History, RotateCcw, Pin, PinOff, Search, X } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,27 +43,65 @@ import {
 } from "@/components/ui/alert-dialog"
 import { Skeleton } from '@/components/ui/skeleton';
 import { JsonLd } from '@/components/seo/json-ld'; // Import JsonLd component
+import { UserDataTransfer } from '@/components/user-data/user-data-transfer';
+
+const ALL = 'all';
+
+const GROUPINGS: { value: HistoryGrouping; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'day', label: 'Group by day' },
+  { value: 'calculator', label: 'Group by calculator' },
+];
 
 export default function HistoryPage() {
-  const [history, setHistory] = useLocalStorage<HistoryEntry[]>(HISTORY_STORAGE_KEY, []);
+  const [history, setHistory] = useHistory();
+  const [profile] = useStoredValue(profileStorage);
+  const [favorites] = useStoredValue(favoritesStorage);
+  const [filter, setFilter] = React.useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [grouping, setGrouping] = React.useState<HistoryGrouping>('none');
   const [mounted, setMounted] = React.useState(false);
 
   React.useEffect(() => {
     setMounted(true);
   }, []);
 
-  const getCalculatorName = (slug: string) => {
-    return CALCULATORS.find(calc => calc.slug === slug)?.name || 'Unknown Calculator';
+  const updateFilter = (changes: Partial<HistoryFilter>) => {
+    setFilter(prevFilter => ({ ...prevFilter, ...changes }));
   };
 
+  const filteredHistory = React.useMemo(() => filterHistory(history, filter), [history, filter]);
+  const groups = React.useMemo(() => groupHistory(filteredHistory, grouping), [filteredHistory, grouping]);
+
+  // Only offer calculators that appear in the history
+  const usedCalculators = React.useMemo(
+    () =>
+      Array.from(new Set(history.map(entry => entry.calculatorSlug)))
+        .map(slug => ({ slug, name: getCalculatorName(slug) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [history]
+  );
+
+  const pinnedCount = history.filter(entry => entry.pinned).length;
+  const historyLimit = profile.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+
+  // Pinned entries survive a clear; unpin them first to remove them
   const clearHistory = () => {
-    setHistory([]);
+    setHistory(prevHistory => prevHistory.filter(entry => entry.pinned));
   };
 
   const deleteEntry = (id: string) => {
     setHistory(prevHistory => prevHistory.filter(entry => entry.id !== id));
   };
 
+  const togglePinned = (id: string) => {
+    setHistory(prevHistory => prevHistory.map(entry => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry)));
+  };
+
+  // Planned against the history as stored when written, so the history limit applies to the result
+  const handleImport = ({ parsed, mode }: ConfirmedImport) => {
+    setHistory(prevHistory => planImport(parsed, { history: prevHistory, favorites, profile }, mode, ['history']).data.history ?? prevHistory);
+  };
+
   // Define CollectionPage schema for history
    const historyPageSchema = {
     "@context": "https://schema.org",
@@ -106,7 +164,7 @@ export default function HistoryPage() {
           <History className="h-8 w-8 text-primary" />
           Calculation History
         </h1>
-        {history.length > 0 && (
+        {history.length > pinnedCount && (
            <AlertDialog>
             <AlertDialogTrigger asChild>
                 <Button variant="destructive" size="sm">
@@ -118,7 +176,7 @@ export default function HistoryPage() {
                 <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                 <AlertDialogDescription>
                   This action cannot be undone. This will permanently delete all
-                  your calculation history.
+                  your calculation history{pinnedCount > 0 ? ` except ${pinnedCount} pinned ${pinnedCount === 1 ? 'entry' : 'entries'}` : ''}.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -132,47 +190,180 @@ export default function HistoryPage() {
         )}
       </div>
       <p className="text-muted-foreground mb-6 text-sm">
-         Review your recent calculations. History is stored locally in your browser.
+         Review your recent calculations. History is stored locally in your browser and keeps the
+         latest {historyLimit} entries (change this on your <Link href="/profile" className="underline">profile</Link>). Pin an entry to keep it permanently.
       </p>
 
+      {history.length > 0 && (
+        <div className="mb-4 space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search inputs and results"
+              value={filter.query}
+              onChange={event => updateFilter({ query: event.target.value })}
+              className="pl-9"
+              aria-label="Search history"
+            />
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <Select value={filter.calculatorSlug ?? ALL} onValueChange={value => updateFilter({ calculatorSlug: value === ALL ? null : value })}>
+              <SelectTrigger className="h-9 w-48" aria-label="Filter by calculator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All calculators</SelectItem>
+                {usedCalculators.map(calc => (
+                  <SelectItem key={calc.slug} value={calc.slug}>{calc.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filter.category ?? ALL}
+              onValueChange={value => updateFilter({ category: value === ALL ? null : (value as CalculatorCategory) })}
+            >
+              <SelectTrigger className="h-9 w-44" aria-label="Filter by category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {CATEGORIES.map(category => (
+                  <SelectItem key={category.name} value={category.name}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="space-y-1">
+              <Label htmlFor="history-from" className="text-xs text-muted-foreground">From</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={filter.from ?? ''}
+                max={filter.to ?? undefined}
+                onChange={event => updateFilter({ from: event.target.value || null })}
+                className="h-9 w-40"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to" className="text-xs text-muted-foreground">To</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={filter.to ?? ''}
+                min={filter.from ?? undefined}
+                onChange={event => updateFilter({ to: event.target.value || null })}
+                className="h-9 w-40"
+              />
+            </div>
+            <Select value={grouping} onValueChange={value => setGrouping(value as HistoryGrouping)}>
+              <SelectTrigger className="h-9 w-48" aria-label="Group entries">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUPINGS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex h-9 items-center gap-2">
+              <Switch id="history-pinned" checked={filter.pinnedOnly} onCheckedChange={checked => updateFilter({ pinnedOnly: checked })} />
+              <Label htmlFor="history-pinned" className="text-sm font-normal">Pinned only</Label>
+            </div>
+            {isFilterActive(filter) && (
+              <Button variant="ghost" size="sm" className="h-9" onClick={() => setFilter(EMPTY_HISTORY_FILTER)}>
+                <X className="mr-1 h-4 w-4" /> Clear filters
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Showing {filteredHistory.length} of {history.length} {history.length === 1 ? 'entry' : 'entries'}
+            {pinnedCount > 0 && ` (${pinnedCount} pinned)`}.
+          </p>
+        </div>
+      )}
+
       <Card>
         <CardContent className="p-0">
           {history.length === 0 ? (
             <div className="p-6 text-center text-muted-foreground">
               No calculation history yet. Start calculating!
             </div>
+          ) : filteredHistory.length === 0 ? (
+            <div className="p-6 text-center text-muted-foreground">
+              No entries match your filters.
+            </div>
           ) : (
             <ScrollArea className="h-[calc(100vh-12rem)] md:h-[calc(100vh-10rem)]">
-              <div className="divide-y divide-border">
-                {history.map((entry) => (
-                  <div key={entry.id} className="p-4 flex justify-between items-start gap-4 hover:bg-muted/50 transition-colors">
-                    <div className="flex-grow">
-                      <p className="font-semibold text-sm mb-1">
-                        {getCalculatorName(entry.calculatorSlug)}
-                      </p>
-                      <p className="text-xs text-muted-foreground mb-1">
-                         {format(new Date(entry.timestamp), "PPpp")}
-                      </p>
-                       <p className="text-xs break-all"><strong>Input:</strong> {entry.input}</p>
-                       <p className="text-xs break-all"><strong>Result:</strong> {entry.result}</p>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-muted-foreground hover:text-destructive h-7 w-7 mt-1 flex-shrink-0"
-                      onClick={() => deleteEntry(entry.id)}
-                      aria-label={`Delete history entry from ${format(new Date(entry.timestamp), "PPp")}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                      <span className="sr-only">Delete entry</span>
-                    </Button>
+              {groups.map(group => (
+                <section key={group.key} aria-label={group.label || undefined}>
+                  {group.label && (
+                    <h2 className="sticky top-0 z-10 flex justify-between bg-muted px-4 py-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      <span>{group.label}</span>
+                      <span>{group.entries.length}</span>
+                    </h2>
+                  )}
+                  <div className="divide-y divide-border">
+                    {group.entries.map((entry) => (
+                      <div key={entry.id} className="p-4 flex justify-between items-start gap-4 hover:bg-muted/50 transition-colors">
+                        <div className="flex-grow">
+                          <p className="font-semibold text-sm mb-1 flex items-center gap-1">
+                            {entry.pinned && <Pin className="h-3 w-3 text-primary" aria-label="Pinned" />}
+                            {getCalculatorName(entry.calculatorSlug)}
+                          </p>
+                          <p className="text-xs text-muted-foreground mb-1">
+                             {format(new Date(entry.timestamp), "PPpp")}
+                          </p>
+                           <p className="text-xs break-all"><strong>Input:</strong> {entry.input}</p>
+                           <p className="text-xs break-all"><strong>Result:</strong> {entry.result}</p>
+                        </div>
+                        <div className="flex flex-shrink-0 gap-1 mt-1">
+                          {isReplayable(entry) && (
+                            <Button
+                              asChild
+                              variant="ghost"
+                              size="icon"
+                              className="text-muted-foreground hover:text-primary h-7 w-7"
+                            >
+                              <Link href={replayHref(entry)} aria-label={`Re-open ${getCalculatorName(entry.calculatorSlug)} with these inputs`} title="Re-open in calculator">
+                                <RotateCcw className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-primary h-7 w-7"
+                            onClick={() => togglePinned(entry.id)}
+                            aria-pressed={!!entry.pinned}
+                            title={entry.pinned ? 'Unpin entry' : 'Pin entry'}
+                          >
+                            {entry.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                            <span className="sr-only">{entry.pinned ? 'Unpin entry' : 'Pin entry'}</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-destructive h-7 w-7"
+                            onClick={() => deleteEntry(entry.id)}
+                            aria-label={`Delete history entry from ${format(new Date(entry.timestamp), "PPp")}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete entry</span>
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
+                </section>
+              ))}
             </ScrollArea>
           )}
         </CardContent>
       </Card>
+
+      <div className="mt-6">
+        <UserDataTransfer sections={['history']} data={{ history, favorites, profile }} onImport={handleImport} />
+      </div>
     </div>
   );
 }
@@ -8,6 +8,8 @@ import { Toaster } from "@/components/ui/toaster";
 import { APP_NAME, APP_DESCRIPTION } from '@/lib/constants';
 import { JsonLd } from '@/components/seo/json-ld';
 import { ThemeProvider } from "@/components/theme-provider"; 
+import { AccountSyncProvider } from '@/components/account/account-sync-provider';
+import { StorageErrorNotifier } from '@/components/layout/storage-error-notifier';
 export const metadata: Metadata = {
   metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'),
   title: {
@@ -90,22 +92,25 @@ export default function RootLayout({
             enableSystem
             disableTransitionOnChange
            >
-              <div className="relative flex flex-col h-screen bg-background overflow-hidden"> {/* Make parent screen height and hide overflow */}
+             <AccountSyncProvider>
+              <div className="relative flex flex-col h-screen bg-background overflow-hidden print:h-auto print:overflow-visible"> {/* Make parent screen height and hide overflow */}
                   <Header />
                   {/* Main layout container: Flex row, take remaining height, prevent parent scroll */}
-                  <div className="flex flex-1 h-[calc(100vh-theme(spacing.14))] overflow-hidden"> {/* Fixed height based on viewport minus header */}
+                  <div className="flex flex-1 h-[calc(100vh-theme(spacing.14))] overflow-hidden print:block print:h-auto print:overflow-visible"> {/* Fixed height based on viewport minus header */}
                      {/* Sidebar: Fixed width, full fixed height, internal scroll handled by SidebarNav */}
-                     <aside className="hidden md:flex md:w-60 lg:w-64 flex-col border-r border-border bg-sidebar flex-shrink-0 h-full overflow-hidden"> {/* Remove overflow-y-auto here, SidebarNav handles it */}
+                     <aside className="hidden md:flex md:w-60 lg:w-64 flex-col border-r border-border bg-sidebar flex-shrink-0 h-full overflow-hidden print:!hidden"> {/* Remove overflow-y-auto here, SidebarNav handles it */}
                        <SidebarNav />
                      </aside>
                      {/* Main content area: Takes remaining space, scrolls independently */}
-                     <main className="flex-1 overflow-y-auto pb-14 md:pb-0"> {/* Main area scrolls */}
+                     <main className="flex-1 overflow-y-auto pb-14 md:pb-0 print:overflow-visible print:pb-0"> {/* Main area scrolls */}
                         {children}
                      </main>
                   </div>
                   <BottomNav /> {/* BottomNav will overlay content on mobile */}
               </div>
               <Toaster />
+              <StorageErrorNotifier />
+             </AccountSyncProvider>
             </ThemeProvider>
       </body>
     </html>
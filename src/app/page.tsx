@@ -7,16 +7,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { ArrowRight, Star } from 'lucide-react';
-import { CATEGORIES, CALCULATORS, FAVORITES_STORAGE_KEY, APP_NAME, APP_DESCRIPTION } from '@/lib/constants';
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import type { FavoriteCalculators } from '@/lib/types';
+import { CATEGORIES, CALCULATORS, APP_NAME, APP_DESCRIPTION } from '@/lib/constants';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage } from '@/lib/stored-data';
 import { cn } from '@/lib/utils';
 import { Skeleton } from '@/components/ui/skeleton';
 import { JsonLd } from '@/components/seo/json-ld';
 
 export default function Home() {
   const [mounted, setMounted] = React.useState(false);
-  const [favorites, setFavorites] = useLocalStorage<FavoriteCalculators>(FAVORITES_STORAGE_KEY, []);
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage);
 
   React.useEffect(() => {
     setMounted(true);
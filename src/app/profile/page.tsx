@@ -12,13 +12,19 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { PROFILE_STORAGE_KEY, CURRENCIES, APP_NAME } from '@/lib/constants'; // Import CURRENCIES & APP_NAME
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage, profileStorage } from '@/lib/stored-data';
+import { useHistory } from '@/hooks/use-history';
+import { applyRetention, DEFAULT_HISTORY_LIMIT, HISTORY_LIMIT_OPTIONS } from '@/lib/history';
+import { CURRENCIES, APP_NAME } from '@/lib/constants'; // Import CURRENCIES & APP_NAME
 import type { UserProfile } from '@/lib/types';
+import { planImport, type ConfirmedImport } from '@/lib/user-data';
 import { useToast } from "@/hooks/use-toast";
 import { User, Save } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { JsonLd } from '@/components/seo/json-ld'; // Import JsonLd component
+import { UserDataTransfer } from '@/components/user-data/user-data-transfer';
+import { AccountSyncCard } from '@/components/account/account-sync-card';
 
 // Define a basic profile schema
 const profileSchema = z.object({
@@ -26,12 +32,16 @@ const profileSchema = z.object({
   preferredUnits: z.enum(['metric', 'imperial']).optional().default('metric'),
   // Ensure currency is a valid 3-char code from our list
   preferredCurrency: z.string().length(3, { message: "Invalid currency code" }).default('USD'),
+  // Kept as a string for the Select; converted to a number when saved
+  historyLimit: z.enum(HISTORY_LIMIT_OPTIONS.map(String) as [string, ...string[]]).default(String(DEFAULT_HISTORY_LIMIT)),
 });
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
 export default function ProfilePage() {
-  const [profile, setProfile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' });
+  const [profile, setProfile] = useStoredValue(profileStorage);
+  const [history, setHistory] = useHistory();
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage);
   const { toast } = useToast();
   const [mounted, setMounted] = React.useState(false);
 
@@ -44,7 +54,8 @@ export default function ProfilePage() {
     defaultValues: {
         name: profile.name || '',
         preferredUnits: profile.preferredUnits || 'metric',
-        preferredCurrency: profile.preferredCurrency || 'USD'
+        preferredCurrency: profile.preferredCurrency || 'USD',
+        historyLimit: String(profile.historyLimit ?? DEFAULT_HISTORY_LIMIT)
     }
   });
 
@@ -53,7 +64,8 @@ export default function ProfilePage() {
           form.reset({
             name: profile.name || '',
             preferredUnits: profile.preferredUnits || 'metric',
-            preferredCurrency: profile.preferredCurrency || 'USD'
+            preferredCurrency: profile.preferredCurrency || 'USD',
+            historyLimit: String(profile.historyLimit ?? DEFAULT_HISTORY_LIMIT)
         });
       }
    // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -65,14 +77,25 @@ export default function ProfilePage() {
         name: data.name || undefined,
         preferredUnits: data.preferredUnits,
         preferredCurrency: data.preferredCurrency,
+        historyLimit: Number(data.historyLimit),
      };
     setProfile(profileToSave);
+    // Apply a lowered limit right away rather than on the next calculation
+    setHistory(prevHistory => applyRetention(prevHistory, Number(data.historyLimit)));
     toast({
       title: "Profile Saved",
       description: "Your preferences have been updated.",
     });
   };
 
+  const handleImport = ({ parsed, mode, sections }: ConfirmedImport) => {
+    const { data } = planImport(parsed, { history, favorites, profile }, mode, sections);
+    if (data.profile) setProfile(data.profile);
+    if (data.favorites) setFavorites(data.favorites);
+    // History is planned again against what is stored when written, so the history limit applies to the result
+    setHistory(prevHistory => planImport(parsed, { history: prevHistory, favorites, profile }, mode, sections).data.history ?? prevHistory);
+  };
+
   // Define ProfilePage schema
   const profilePageSchema = {
     "@context": "https://schema.org",
@@ -123,6 +146,12 @@ export default function ProfilePage() {
                        <Skeleton className="h-10 w-full" /> {/* Select Trigger - Removed rounded-md */}
                        <Skeleton className="h-3 w-1/2" /> {/* Description - Removed rounded-md */}
                     </div>
+                    {/* Skeleton for History Size */}
+                    <div className="space-y-2">
+                       <Skeleton className="h-4 w-1/4" />
+                       <Skeleton className="h-10 w-full" />
+                       <Skeleton className="h-3 w-1/2" />
+                    </div>
                     {/* Skeleton for Save Button */}
                     <Skeleton className="h-10 w-32" /> {/* Removed rounded-md */}
                   </CardContent>
@@ -232,6 +261,34 @@ export default function ProfilePage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="historyLimit"
+                render={({ field }) => (
+                   <FormItem>
+                    <FormLabel>History Size</FormLabel>
+                     <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a limit" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {HISTORY_LIMIT_OPTIONS.map(limit => (
+                            <SelectItem key={limit} value={String(limit)}>
+                               {limit} entries
+                            </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                     <FormDescription>
+                        How many calculations to keep in your history. Older entries are removed first; pinned entries are always kept.
+                     </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <Button type="submit" className="w-full sm:w-auto transition-subtle">
                 <Save className="mr-2 h-4 w-4" /> Save Preferences
               </Button>
@@ -239,6 +296,11 @@ export default function ProfilePage() {
           </Form>
         </CardContent>
       </Card>
+
+      <div className="mt-6 space-y-6">
+        <AccountSyncCard />
+        <UserDataTransfer sections={['history', 'favorites', 'profile']} data={{ history, favorites, profile }} onImport={handleImport} />
+      </div>
     </div>
   );
 }
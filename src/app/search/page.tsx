@@ -4,21 +4,21 @@
 import * as React from 'react';
 import Link from 'next/link';
 import { Input } from '@/components/ui/input';
-import { CALCULATORS, FAVORITES_STORAGE_KEY, APP_NAME } from '@/lib/constants';
+import { CALCULATORS, APP_NAME } from '@/lib/constants';
 import { Search, Calculator, Star } from 'lucide-react'; // Added Star
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'; // Removed CardDescription
 import { Button } from '@/components/ui/button'; // Added Button
 import { cn } from '@/lib/utils';
 import { Skeleton } from '@/components/ui/skeleton';
-import { useLocalStorage } from '@/hooks/use-local-storage'; // Added useLocalStorage
-import type { FavoriteCalculators } from '@/lib/types'; // Added FavoriteCalculators type
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage } from '@/lib/stored-data';
 import { JsonLd } from '@/components/seo/json-ld'; // Import JsonLd component
 
 
 export default function SearchPage() {
   const [searchTerm, setSearchTerm] = React.useState('');
   const [mounted, setMounted] = React.useState(false);
-  const [favorites, setFavorites] = useLocalStorage<FavoriteCalculators>(FAVORITES_STORAGE_KEY, []); // Added favorites state
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage); // Added favorites state
 
   React.useEffect(() => {
     setMounted(true);
@@ -0,0 +1,79 @@
+'use client';
+
+import * as React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Cloud, CloudOff, LogIn, LogOut, RefreshCw } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAccountSync, type AccountSyncStatus } from '@/hooks/use-account-sync';
+
+const STATUS_LABELS: Record<AccountSyncStatus, string> = {
+    unavailable: 'Unavailable',
+    'signed-out': 'Signed out',
+    syncing: 'Syncing…',
+    synced: 'Synced',
+    offline: 'Offline — changes will sync later',
+    error: 'Sync error',
+};
+
+/** Sign-in and sync status for the optional account. Hidden when sync is not configured. */
+export function AccountSyncCard() {
+    const { status, user, lastSyncedAt, conflicts, error, signIn, signOut, syncNow } = useAccountSync();
+
+    if (status === 'unavailable') return null;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                    {status === 'offline' || status === 'error' ? <CloudOff className="h-5 w-5" /> : <Cloud className="h-5 w-5" />}
+                    Account Sync
+                </CardTitle>
+                <CardDescription>
+                    {user
+                        ? 'Your history, favorites and preferences are kept in sync across devices signed in to this account. Signing out removes them from this browser.'
+                        : 'Sign in to sync your history, favorites and preferences across devices. Without an account everything stays in this browser.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {user ? (
+                    <>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="font-medium">{user.displayName || user.email || 'Signed in'}</span>
+                            {user.displayName && user.email && <span className="text-muted-foreground">{user.email}</span>}
+                            <Badge variant={status === 'error' ? 'destructive' : 'secondary'}>{STATUS_LABELS[status]}</Badge>
+                        </div>
+                        {lastSyncedAt && (
+                            <p className="text-xs text-muted-foreground">Last synced {formatDistanceToNow(lastSyncedAt, { addSuffix: true })}.</p>
+                        )}
+                        {conflicts.length > 0 && (
+                            <Alert>
+                                <AlertTitle>Resolved {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}</AlertTitle>
+                                <AlertDescription>
+                                    <ul className="list-disc pl-5 text-xs">
+                                        {conflicts.map((conflict, index) => <li key={index}>{conflict}</li>)}
+                                    </ul>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                            <Button type="button" variant="outline" size="sm" onClick={syncNow} disabled={status === 'syncing'}>
+                                <RefreshCw className={`mr-2 h-4 w-4 ${status === 'syncing' ? 'animate-spin' : ''}`} /> Sync Now
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => void signOut()}>
+                                <LogOut className="mr-2 h-4 w-4" /> Sign Out
+                            </Button>
+                        </div>
+                    </>
+                ) : (
+                    <Button type="button" size="sm" onClick={() => void signIn()}>
+                        <LogIn className="mr-2 h-4 w-4" /> Sign in with Google
+                    </Button>
+                )}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import * as React from 'react';
+import { GoogleAuthProvider, onAuthStateChanged, signInWithPopup, signOut as firebaseSignOut } from 'firebase/auth';
+import { AccountSyncContext, type AccountSyncState, type AccountSyncStatus, type AccountUser } from '@/hooks/use-account-sync';
+import { getStore } from '@/lib/storage';
+import { clearLocalAccountData, getLastSyncedAt, SYNCED_STORAGE, syncAccount, watchAccount } from '@/services/account-sync';
+import { getFirebase, isFirebaseConfigured } from '@/services/firebase';
+
+/** Local and remote changes are batched for this long before syncing. */
+const SYNC_DELAY_MS = 1500;
+
+/**
+ * Signs users in with Firebase Auth and keeps their data in sync while they
+ * are signed in. Renders children unchanged when Firebase is not configured.
+ */
+export function AccountSyncProvider({ children }: { children: React.ReactNode }) {
+    if (!isFirebaseConfigured()) return <>{children}</>;
+    return <FirebaseAccountSync>{children}</FirebaseAccountSync>;
+}
+
+function FirebaseAccountSync({ children }: { children: React.ReactNode }) {
+    const [user, setUser] = React.useState<AccountUser | null>(null);
+    const [status, setStatus] = React.useState<AccountSyncStatus>('signed-out');
+    const [lastSyncedAt, setLastSyncedAt] = React.useState<Date | null>(null);
+    const [conflicts, setConflicts] = React.useState<string[]>([]);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const runningRef = React.useRef(false);
+    const queuedRef = React.useRef(false);
+    const timerRef = React.useRef<ReturnType<typeof setTimeout>>();
+
+    React.useEffect(() => {
+        return onAuthStateChanged(getFirebase().auth, firebaseUser => {
+            setUser(firebaseUser ? { uid: firebaseUser.uid, email: firebaseUser.email, displayName: firebaseUser.displayName } : null);
+            setLastSyncedAt(firebaseUser ? getLastSyncedAt(firebaseUser.uid) : null);
+            setConflicts([]);
+            setError(null);
+            setStatus(firebaseUser ? 'syncing' : 'signed-out');
+        });
+    }, []);
+
+    const runSync = React.useCallback(async (uid: string) => {
+        // One sync at a time; changes that arrive meanwhile trigger one more
+        if (runningRef.current) {
+            queuedRef.current = true;
+            return;
+        }
+        runningRef.current = true;
+        setStatus('syncing');
+        try {
+            const result = await syncAccount(uid);
+            setLastSyncedAt(result.syncedAt);
+            setConflicts(result.conflicts);
+            setError(null);
+            setStatus(navigator.onLine ? 'synced' : 'offline');
+            result.committed.catch(commitError => {
+                console.error('Account sync write error:', commitError);
+                setError('Some changes could not be saved to your account.');
+                setStatus('error');
+            });
+        } catch (syncError) {
+            console.error('Account sync error:', syncError);
+            setError(syncError instanceof Error ? syncError.message : 'Sync failed.');
+            setStatus('error');
+        } finally {
+            runningRef.current = false;
+            if (queuedRef.current) {
+                queuedRef.current = false;
+                void runSync(uid);
+            }
+        }
+    }, []);
+
+    React.useEffect(() => {
+        if (!user) return;
+        const scheduleSync = () => {
+            clearTimeout(timerRef.current);
+            timerRef.current = setTimeout(() => void runSync(user.uid), SYNC_DELAY_MS);
+        };
+        const handleOffline = () => setStatus('offline');
+
+        void runSync(user.uid);
+        const unwatch = watchAccount(user.uid, scheduleSync, watchError => {
+            console.error('Account watch error:', watchError);
+            setError(watchError.message);
+            setStatus('error');
+        });
+        // Local changes, including ones made in other tabs
+        const unsubscribeStores = SYNCED_STORAGE.map(definition => getStore<unknown>(definition).subscribe(scheduleSync));
+        window.addEventListener('online', scheduleSync);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            clearTimeout(timerRef.current);
+            unwatch();
+            unsubscribeStores.forEach(unsubscribe => unsubscribe());
+            window.removeEventListener('online', scheduleSync);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [user, runSync]);
+
+    const value = React.useMemo<AccountSyncState>(
+        () => ({
+            status,
+            user,
+            lastSyncedAt,
+            conflicts,
+            error,
+            signIn: async () => {
+                setError(null);
+                try {
+                    await signInWithPopup(getFirebase().auth, new GoogleAuthProvider());
+                } catch (signInError) {
+                    console.error('Sign-in error:', signInError);
+                    setError('Sign-in failed. Please try again.');
+                }
+            },
+            signOut: async () => {
+                // The account's data leaves with it, so the next account to sign in here cannot merge it
+                await firebaseSignOut(getFirebase().auth);
+                clearLocalAccountData();
+            },
+            syncNow: () => {
+                if (user) void runSync(user.uid);
+            },
+        }),
+        [status, user, lastSyncedAt, conflicts, error, runSync]
+    );
+
+    return <AccountSyncContext.Provider value={value}>{children}</AccountSyncContext.Provider>;
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import * as React from 'react';
+import { ListChecks } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { AmortizationEntry } from '@/lib/finance';
+import type { ScheduleExport } from '@/lib/schedule-export';
+import { ScheduleExportButtons } from './schedule-export-buttons';
+
+interface AmortizationTableProps {
+    title: string;
+    schedule: AmortizationEntry[];
+    formatCurrency: (value: number) => string;
+    /** Builds the CSV/Excel export on click. */
+    buildExport: () => ScheduleExport;
+}
+
+/** Monthly amortization schedule with export buttons; adds an Extra column when any extra principal was paid. */
+export function AmortizationTable({ title, schedule, formatCurrency, buildExport }: AmortizationTableProps) {
+    const hasExtras = schedule.some(entry => entry.extraPaid > 0);
+
+    return (
+        <div className="mt-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h3 className="text-lg font-semibold flex items-center gap-2"><ListChecks className="h-5 w-5 text-primary" />{title}</h3>
+                <ScheduleExportButtons build={buildExport} />
+            </div>
+            <ScrollArea className="h-[300px] w-full border">
+                <Table className="min-w-[600px]">
+                    <TableHeader className="sticky top-0 bg-muted z-10">
+                        <TableRow>
+                            <TableHead className="w-[80px]">Month</TableHead>
+                            <TableHead>Principal</TableHead><TableHead>Interest</TableHead>
+                            {hasExtras && <TableHead>Extra</TableHead>}
+                            <TableHead>P&I Payment</TableHead><TableHead className="text-right">Balance</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {schedule.map(entry => (
+                            <TableRow key={entry.period}>
+                                <TableCell className="font-medium">{entry.period}</TableCell>
+                                <TableCell>{formatCurrency(entry.principalPaid)}</TableCell>
+                                <TableCell>{formatCurrency(entry.interestPaid)}</TableCell>
+                                {hasExtras && <TableCell>{formatCurrency(entry.extraPaid)}</TableCell>}
+                                <TableCell>{formatCurrency(entry.payment)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(entry.endingBalance)}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </ScrollArea>
+        </div>
+    );
+}
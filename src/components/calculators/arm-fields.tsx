@@ -0,0 +1,217 @@
+'use client';
+
+import * as React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { amortizeArm, armAdjustmentCount, scenarioIndexPath, worstCaseArm, type ArmResult, type ArmTerms } from '@/lib/finance';
+
+const RATE_PATHS = {
+    flat: 'Index stays the same',
+    rising: 'Index rises 0.5% per reset',
+    falling: 'Index falls 0.5% per reset',
+    custom: 'Enter index rates',
+} as const;
+
+const percent = z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), { message: 'Must be zero or positive.' });
+
+/** Form fields for an adjustable rate, spread into a mortgage calculator's schema. */
+export const armSchemaShape = {
+    rateType: z.enum(['fixed', 'arm']).default('fixed'),
+    armFixedYears: z.string().default('5'),
+    armAdjustmentMonths: z.enum(['6', '12']).default('12'),
+    armIndexRate: percent.default(''),
+    armMargin: percent.default('2.75'),
+    armInitialCap: percent.default('2'),
+    armPeriodicCap: percent.default('1'),
+    armLifetimeCap: percent.default('5'),
+    armRatePath: z.enum(['flat', 'rising', 'falling', 'custom']).default('flat'),
+    armCustomPath: z.string().default(''),
+};
+
+const armSchema = z.object(armSchemaShape);
+
+export type ArmFormValues = z.infer<typeof armSchema>;
+
+export const ARM_DEFAULTS: ArmFormValues = {
+    rateType: 'fixed',
+    armFixedYears: '5',
+    armAdjustmentMonths: '12',
+    armIndexRate: '',
+    armMargin: '2.75',
+    armInitialCap: '2',
+    armPeriodicCap: '1',
+    armLifetimeCap: '5',
+    armRatePath: 'flat',
+    armCustomPath: '',
+};
+
+/** Index rates (%) typed as a comma- or space-separated list; null if any entry is not a number. */
+function parseCustomPath(text: string): number[] | null {
+    const entries = text.split(/[\s,;]+/).filter(Boolean);
+    const rates = entries.map(Number);
+    return rates.some(rate => isNaN(rate) || rate < 0) ? null : rates.map(rate => rate / 100);
+}
+
+/** Cross-field checks for the ARM fields; call from the host schema's `.superRefine`. */
+export function refineArm(values: Partial<ArmFormValues>, ctx: z.RefinementCtx, termYears: number) {
+    if (values.rateType !== 'arm') return;
+    const fixedYears = Number(values.armFixedYears);
+    if (!Number.isInteger(fixedYears) || fixedYears < 1 || fixedYears >= termYears) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['armFixedYears'], message: 'Fixed period must be at least 1 year and shorter than the term.' });
+    }
+    if (values.armRatePath === 'custom') {
+        const path = parseCustomPath(values.armCustomPath ?? '');
+        if (!path || path.length === 0) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['armCustomPath'], message: 'Enter index rates as numbers, e.g. 4.5, 5, 5.5.' });
+        }
+    } else if (!values.armIndexRate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['armIndexRate'], message: 'Enter the current index rate.' });
+    }
+}
+
+/** ARM terms from the form, or null for a fixed rate. `initialRate` is the calculator's interest rate (decimal). */
+export function armTerms(values: Partial<ArmFormValues>, initialRate: number): ArmTerms | null {
+    if (values.rateType !== 'arm') return null;
+    const rate = (value: string | undefined) => parseFloat(value || '0') / 100;
+    return {
+        initialRate,
+        fixedMonths: parseInt(values.armFixedYears || '5') * 12,
+        adjustmentMonths: parseInt(values.armAdjustmentMonths || '12'),
+        margin: rate(values.armMargin),
+        initialCap: rate(values.armInitialCap),
+        periodicCap: rate(values.armPeriodicCap),
+        lifetimeCap: rate(values.armLifetimeCap),
+    };
+}
+
+export interface ArmProjection {
+    /** The loan along the chosen rate path. */
+    result: ArmResult;
+    /** The loan if every reset rises by the full cap. */
+    worstCase: ArmResult;
+}
+
+/** Runs the ARM along the form's rate path and in the worst case. */
+export function projectArm(values: Partial<ArmFormValues>, terms: ArmTerms, principal: number, years: number, extraPayment?: (month: number) => number): ArmProjection {
+    const scenario = values.armRatePath ?? 'flat';
+    const indexPath = scenario === 'custom'
+        ? parseCustomPath(values.armCustomPath ?? '') ?? []
+        : scenarioIndexPath(scenario, parseFloat(values.armIndexRate || '0') / 100, armAdjustmentCount(terms, years));
+    return {
+        result: amortizeArm({ principal, years, terms, indexPath, extraPayment }),
+        worstCase: worstCaseArm(principal, years, terms),
+    };
+}
+
+/** E.g. `5/1 ARM, index 4.3% + 2.75%, caps 2/1/5, index stays the same`; empty for a fixed rate. */
+export function describeArm(values: Partial<ArmFormValues>): string {
+    if (values.rateType !== 'arm') return '';
+    const adjustment = values.armAdjustmentMonths === '6' ? '6' : '1';
+    const index = values.armRatePath === 'custom' ? `index path ${values.armCustomPath}` : `index ${values.armIndexRate}%`;
+    const path = values.armRatePath && values.armRatePath !== 'custom' ? `, ${RATE_PATHS[values.armRatePath].toLowerCase()}` : '';
+    return `${values.armFixedYears}/${adjustment} ARM, ${index} + ${values.armMargin}%, caps ${values.armInitialCap}/${values.armPeriodicCap}/${values.armLifetimeCap}${path}`;
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(3).replace(/\.?0+$/, '')}%`;
+
+/** Fixed vs. adjustable rate, and the ARM terms when adjustable. Render inside the calculator's `<Form>`. */
+export function ArmFields() {
+    const form = useFormContext<ArmFormValues>();
+    const isArm = form.watch('rateType') === 'arm';
+    const isCustomPath = form.watch('armRatePath') === 'custom';
+
+    return (
+        <div className="space-y-4 border-t pt-4">
+            <FormField
+                control={form.control}
+                name="rateType"
+                render={({ field }) => (
+                    <FormItem className="space-y-3">
+                        <FormLabel>Rate Type</FormLabel>
+                        <FormControl>
+                            <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-4">
+                                <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="fixed" /></FormControl><FormLabel className="font-normal cursor-pointer">Fixed</FormLabel></FormItem>
+                                <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="arm" /></FormControl><FormLabel className="font-normal cursor-pointer">Adjustable (ARM)</FormLabel></FormItem>
+                            </RadioGroup>
+                        </FormControl>
+                        {isArm && <FormDescription>The interest rate above is the initial rate for the fixed period.</FormDescription>}
+                        <FormMessage />
+                    </FormItem>
+                )}
+            />
+            {isArm && (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField control={form.control} name="armFixedYears" render={({ field }) => (<FormItem><FormLabel>Fixed Period (Years)</FormLabel><FormControl><Input type="number" placeholder="e.g., 5" {...field} step="1" min="1" /></FormControl><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name="armAdjustmentMonths" render={({ field }) => (<FormItem><FormLabel>Adjusts Every</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="12">12 Months</SelectItem><SelectItem value="6">6 Months</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name="armMargin" render={({ field }) => (<FormItem><FormLabel>Margin (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 2.75" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name="armInitialCap" render={({ field }) => (<FormItem><FormLabel>First Reset Cap (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 2" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name="armPeriodicCap" render={({ field }) => (<FormItem><FormLabel>Periodic Cap (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 1" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name="armLifetimeCap" render={({ field }) => (<FormItem><FormLabel>Lifetime Cap (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 5" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField control={form.control} name="armRatePath" render={({ field }) => (<FormItem><FormLabel>Rate Path</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(RATE_PATHS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                        {isCustomPath ? (
+                            <FormField control={form.control} name="armCustomPath" render={({ field }) => (<FormItem><FormLabel>Index at Each Reset (%)</FormLabel><FormControl><Input placeholder="e.g., 4.5, 5, 5.5" {...field} /></FormControl><FormDescription>The last rate holds for later resets.</FormDescription><FormMessage /></FormItem>)} />
+                        ) : (
+                            <FormField control={form.control} name="armIndexRate" render={({ field }) => (<FormItem><FormLabel>Current Index (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 4.3 (SOFR)" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
+
+interface ArmResultsProps {
+    projection: ArmProjection;
+    formatCurrency: (value: number) => string;
+}
+
+/** Payment after the first reset, highest and worst-case payments, and the rate at each reset. */
+export function ArmResults({ projection, formatCurrency }: ArmResultsProps) {
+    const { result, worstCase } = projection;
+    // Only resets that change the rate are worth a row
+    const changes = result.adjustments.filter((adjustment, index) => index === 0 || adjustment.rate !== result.adjustments[index - 1].rate);
+    const firstReset = result.adjustments[1];
+
+    return (
+        <div className="mt-4 space-y-3">
+            <div className="space-y-1 text-sm">
+                <p>Initial Payment (P&I): <strong>{formatCurrency(result.payment)}</strong> at {formatRate(result.adjustments[0].rate)}</p>
+                {firstReset && <p>After First Reset (Month {firstReset.month}): <strong>{formatCurrency(firstReset.payment)}</strong> at {formatRate(firstReset.rate)}</p>}
+                <p>Highest Payment on This Path: <strong>{formatCurrency(result.maxPayment)}</strong></p>
+                <p>Worst-Case Payment: <strong className="text-destructive">{formatCurrency(worstCase.maxPayment)}</strong> at {formatRate(worstCase.maxRate)} <span className="text-xs">(every reset at its cap)</span></p>
+                <p>Total Interest on This Path: <strong>{formatCurrency(result.totalInterest)}</strong></p>
+            </div>
+            <ScrollArea className="h-[200px] w-full border">
+                <Table>
+                    <TableHeader className="sticky top-0 bg-muted z-10">
+                        <TableRow>
+                            <TableHead>From Month</TableHead>
+                            <TableHead>Index</TableHead>
+                            <TableHead>Rate</TableHead>
+                            <TableHead className="text-right">P&I Payment</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {changes.map(adjustment => (
+                            <TableRow key={adjustment.month}>
+                                <TableCell className="font-medium">{adjustment.month}</TableCell>
+                                <TableCell>{adjustment.index === null ? 'Fixed' : formatRate(adjustment.index)}</TableCell>
+                                <TableCell>{formatRate(adjustment.rate)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(adjustment.payment)}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </ScrollArea>
+        </div>
+    );
+}
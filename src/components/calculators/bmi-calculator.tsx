@@ -29,10 +29,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, BarChart, Star, Weight as WeightIcon } from 'lucide-react'; // Removed Scale, using icon from props, Import WeightIcon
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { PROFILE_STORAGE_KEY, type CalculatorInfo } from '@/lib/constants'; // Import CALCULATORS to get info and CalculatorInfo type
-import type { UserProfile } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
+import { type CalculatorInfo } from '@/lib/constants'; // Import CALCULATORS to get info and CalculatorInfo type
 import { cn } from '@/lib/utils';
+import { CopyLinkButton } from './copy-link-button';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
 import type { CurrencyData } from '@/lib/constants'; // Import CurrencyData type
 
@@ -121,7 +123,7 @@ interface BmiCalculatorProps {
 }
 
 export function BmiCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: BmiCalculatorProps) {
-  const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' }); // Default preferredCurrency added
+  const [profile] = useStoredValue(profileStorage); // Default preferredCurrency added
   const [bmiResult, setBmiResult] = React.useState<number | null>(null);
   const [bmiCategory, setBmiCategory] = React.useState<string | null>(null);
   const [mounted, setMounted] = React.useState(false); // Added mounted state
@@ -161,6 +163,7 @@ export function BmiCalculator({ slug, calculatorInfo, onCalculation, favorites,
       form.reset({ ...form.getValues(), unit: profile?.preferredUnits || 'metric' });
    // eslint-disable-next-line react-hooks/exhaustive-deps
    }, [profile?.preferredUnits]);
+   useFormPrefill(form, mounted);
 
     // Reset results if unit preference changes via form
    React.useEffect(() => {
@@ -238,6 +241,9 @@ export function BmiCalculator({ slug, calculatorInfo, onCalculation, favorites,
          id: Date.now().toString(),
          calculatorSlug: slug, // Use the slug passed via props
          timestamp: new Date(),
+         values: data,
+         calculatorVersion: 1,
+         outputs: { bmi: roundedResult, category },
          input: inputString,
          result: resultString,
        };
@@ -305,7 +311,7 @@ export function BmiCalculator({ slug, calculatorInfo, onCalculation, favorites,
             variant="ghost"
             size="icon"
             className={cn(
-              "absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10",
+              "absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden",
               isFavorite && "text-primary"
             )}
             onClick={toggleFavorite}
@@ -313,7 +319,8 @@ export function BmiCalculator({ slug, calculatorInfo, onCalculation, favorites,
           >
             <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
           </Button>
-        <CardTitle className="flex items-center gap-2 pr-10">
+         <CopyLinkButton />
+        <CardTitle className="flex items-center gap-2 pr-20">
           <Icon className="h-6 w-6 text-primary" /> {/* Use Icon from props */}
           {name} {/* Use name from props */}
         </CardTitle>
@@ -59,7 +59,6 @@ import { AutoLeaseCalculator } from './financial/auto-lease-calculator';
 import { DepreciationCalculator } from './financial/depreciation-calculator';
 import { AverageReturnCalculator } from './financial/average-return-calculator';
 import { MarginCalculator } from './financial/margin-calculator';
-import { DiscountCalculator } from './financial/discount-calculator';
 import { BusinessLoanCalculator } from './financial/business-loan-calculator';
 import { DebtToIncomeRatioCalculator } from './financial/debt-to-income-ratio';
 import { RealEstateCalculator } from './financial/real-estate-calculator';
@@ -81,7 +80,6 @@ import { CommissionCalculator } from './financial/commission-calculator';
 import { MortgageCalculatorUK } from './financial/mortgage-calculator-uk';
 import { CanadianMortgageCalculator } from './financial/canadian-mortgage-calculator';
 import { MortgageAmortizationCalculator } from './financial/mortgage-amortization-calculator';
-import { PercentOffCalculator } from './financial/percent-off-calculator';
 import { ConfidenceIntervalCalculator } from './financial/confidence-interval'; // Moved from math
 
 // Fitness & Health
@@ -115,111 +113,32 @@ import { BacCalculator } from './fitness-health/bac-calculator';
 import { WeightWatcherPointsCalculator } from './fitness-health/weight-watcher-points';
 // import { OverweightCalculator } from './fitness-health/overweight-calculator'; // BMI covers this
 
-// Math
-import { ScientificCalculator } from './math/scientific-calculator';
-import { FractionCalculator } from './math/fraction-calculator';
-import { PercentageCalculator } from './math/percentage-calculator';
-import { TriangleCalculator } from './math/triangle-calculator';
-import { VolumeCalculator } from './math/volume-calculator';
-import { StandardDeviationCalculator } from './math/standard-deviation';
-import { RandomNumberGenerator } from './math/random-number-generator';
-import { NumberSequenceCalculator } from './math/number-sequence';
-import { PercentErrorCalculator } from './math/percent-error-calculator';
-import { ExponentCalculator } from './math/exponent-calculator';
-import { BinaryCalculator } from './math/binary-calculator';
-import { HexCalculator } from './math/hex-calculator';
-import { HalfLifeCalculator } from './math/half-life-calculator';
-import { QuadraticFormulaCalculator } from './math/quadratic-formula';
-import { SlopeCalculator } from './math/slope-calculator';
-import { LogCalculator } from './math/log-calculator';
-import { AreaCalculator } from './math/area-calculator';
-import { SampleSizeCalculator } from './math/sample-size-calculator';
-import { ProbabilityCalculator } from './math/probability-calculator';
-import { StatisticsCalculator } from './math/statistics-calculator';
-import { MeanMedianModeRangeCalculator } from './math/mean-median-mode-range';
-import { PermutationCombinationCalculator } from './math/permutation-combination';
-import { ZScoreCalculator } from './math/z-score-calculator';
-// ConfidenceIntervalCalculator moved to Financial imports as it was in the financial folder
-import { RatioCalculator } from './math/ratio-calculator';
-import { DistanceCalculator } from './math/distance-calculator';
-import { CircleCalculator } from './math/circle-calculator';
-import { SurfaceAreaCalculator } from './math/surface-area-calculator';
-import { PythagoreanTheoremCalculator } from './math/pythagorean-theorem';
-import { RightTriangleCalculator } from './math/right-triangle-calculator';
-import { RootCalculator } from './math/root-calculator';
-import { LeastCommonMultipleCalculator } from './math/least-common-multiple';
-import { GreatestCommonFactorCalculator } from './math/greatest-common-factor';
-import { FactorCalculator } from './math/factor-calculator';
-import { RoundingCalculator } from './math/rounding-calculator';
-import { MatrixCalculator } from './math/matrix-calculator';
-import { ScientificNotationCalculator } from './math/scientific-notation';
-import { BigNumberCalculator } from './math/big-number-calculator';
-import { PrimeFactorizationCalculator } from './math/prime-factorization';
-import { CommonFactorCalculator } from './math/common-factor-calculator';
-import { BasicCalculator } from './math/basic-calculator';
-import { LongDivisionCalculator } from './math/long-division-calculator';
-import { AverageCalculator } from './math/average-calculator';
-import { PValueCalculator } from './math/p-value-calculator';
-
-// Other
-import { AgeCalculator } from './other/age-calculator';
-import { DateCalculator } from './other/date-calculator';
-import { TimeCalculator } from './other/time-calculator';
-import { HoursCalculator } from './other/hours-calculator';
-import { GpaCalculator } from './other/gpa-calculator';
-import { GradeCalculator } from './other/grade-calculator';
-import { HeightCalculator } from './other/height-calculator';
-import { ConcreteCalculator } from './other/concrete-calculator';
-import { IpSubnetCalculator } from './other/ip-subnet-calculator';
-import { BraSizeCalculator } from './other/bra-size-calculator';
-import { PasswordGenerator } from './other/password-generator';
-import { DiceRoller } from './other/dice-roller';
-import { ConversionCalculator } from './other/conversion-calculator';
-import { FuelCostCalculator } from './other/fuel-cost-calculator';
-import { VoltageDropCalculator } from './other/voltage-drop-calculator';
-import { BtuCalculator } from './other/btu-calculator';
-import { SquareFootageCalculator } from './other/square-footage-calculator';
-import { TimeCardCalculator } from './other/time-card-calculator';
-import { TimeZoneCalculator } from './other/time-zone-calculator';
-import { LoveCalculator } from './other/love-calculator'; // Placeholder/Fun
-import { GdpCalculator } from './other/gdp-calculator';
-import { GasMileageCalculator } from './other/gas-mileage-calculator';
-import { HorsepowerCalculator } from './other/horsepower-calculator';
-import { EngineHorsepowerCalculator } from './other/engine-horsepower-calculator';
-import { StairCalculator } from './other/stair-calculator';
-import { ResistorCalculator } from './other/resistor-calculator';
-import { OhmsLawCalculator } from './other/ohms-law-calculator';
-import { ElectricityCalculator } from './other/electricity-calculator';
-import { TipCalculator } from './other/tip-calculator';
-import { MileageCalculator } from './other/mileage-calculator';
-import { DensityCalculator } from './other/density-calculator';
-import { MassCalculator } from './other/mass-calculator';
-import { WeightCalculator } from './other/weight-calculator';
-import { SpeedCalculator } from './other/speed-calculator';
-import { MolarityCalculator } from './other/molarity-calculator';
-import { MolecularWeightCalculator } from './other/molecular-weight-calculator';
-import { RomanNumeralConverter } from './other/roman-numeral-converter';
-import { GolfHandicapCalculator } from './other/golf-handicap-calculator';
-import { SleepCalculator } from './other/sleep-calculator';
-import { TireSizeCalculator } from './other/tire-size-calculator';
-import { RoofingCalculator } from './other/roofing-calculator';
-import { TileCalculator } from './other/tile-calculator';
-import { MulchCalculator } from './other/mulch-calculator';
-import { GravelCalculator } from './other/gravel-calculator';
-import { WindChillCalculator } from './other/wind-chill-calculator';
-import { HeatIndexCalculator } from './other/heat-index-calculator';
-import { DewPointCalculator } from './other/dew-point-calculator';
-import { BandwidthCalculator } from './other/bandwidth-calculator';
-import { TimeDurationCalculator } from './other/time-duration-calculator';
-import { DayCounter } from './other/day-counter';
-import { DayOfTheWeekCalculator } from './other/day-of-the-week-calculator';
+// Math calculators are declarative (see ./math); ConfidenceIntervalCalculator is imported with Financial
+
+// Other calculators are declarative (see ./other)
+
+// Declarative calculators
+import { DefinedCalculator } from './defined-calculator';
+import { CALCULATOR_DEFINITIONS } from './definitions';
+import { ReportFooter, ReportHeader } from './print-report';
+import { ShareLinkContext, type ShareLink } from './copy-link-button';
 
 // General Imports
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { HISTORY_STORAGE_KEY, FAVORITES_STORAGE_KEY, CALCULATORS, PROFILE_STORAGE_KEY, CURRENCIES } from '@/lib/constants';
-import type { HistoryEntry, FavoriteCalculators, UserProfile } from '@/lib/types';
-import { notFound } from 'next/navigation';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage, profileStorage } from '@/lib/stored-data';
+import { useHistory } from '@/hooks/use-history';
+import { FormPrefillContext, FormValuesRegistryContext, type FormPrefill, type FormValuesReader } from '@/hooks/use-form-prefill';
+import { usePrintedAt } from '@/hooks/use-printed-at';
+import { useToast } from '@/hooks/use-toast';
+import { addToHistory, DEFAULT_HISTORY_LIMIT, isReplayable, RESTORE_PARAM } from '@/lib/history';
+import { decodeFormValues, PermalinkError, permalinkHref, SHARE_PARAM } from '@/lib/permalink';
+import { CALCULATORS, CURRENCIES } from '@/lib/constants';
+import type { HistoryEntry, Scenario } from '@/lib/types';
+import { notFound, useSearchParams } from 'next/navigation';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ScenarioPanel } from '@/components/scenarios/scenario-panel';
 import type { CurrencyData } from '@/lib/constants';
 
 interface CalculatorContainerProps {
@@ -238,16 +157,63 @@ function CalculatorContainerSkeleton() {
 
 
 export function CalculatorContainer({ slug }: CalculatorContainerProps) {
-  const [history, setHistory] = useLocalStorage<HistoryEntry[]>(HISTORY_STORAGE_KEY, []);
-  const [favorites, setFavorites] = useLocalStorage<FavoriteCalculators>(FAVORITES_STORAGE_KEY, []);
-  const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredCurrency: 'USD', preferredUnits: 'metric' });
+  const [history, setHistory] = useHistory();
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage);
+  const [profile] = useStoredValue(profileStorage);
   const [mounted, setMounted] = React.useState(false);
+  const [lastEntry, setLastEntry] = React.useState<HistoryEntry | null>(null);
+  const [loadedScenario, setLoadedScenario] = React.useState<{ scenario: Scenario; loadedAt: number } | null>(null);
+  const [linkCopied, setLinkCopied] = React.useState(false);
+  const calculatorRef = React.useRef<HTMLDivElement>(null);
+  const readFormValues = React.useRef<FormValuesReader>(null);
+  const registerForm = React.useCallback((read: FormValuesReader) => {
+      readFormValues.current = read;
+  }, []);
+  const printedAt = usePrintedAt();
+  const { toast } = useToast();
 
   React.useEffect(() => {
       setMounted(true);
   }, []);
 
 
+  // `?restore=<id>` re-opens a history entry with its form values filled in
+  const searchParams = useSearchParams();
+  const restoreId = searchParams.get(RESTORE_PARAM);
+  const restoreEntry = React.useMemo(
+      () => history.find(entry => entry.id === restoreId && entry.calculatorSlug === slug && isReplayable(entry)) ?? null,
+      [history, restoreId, slug]
+  );
+
+  // `?i=<values>` is a shared link: fill in the form and calculate straight away
+  const shared = searchParams.get(SHARE_PARAM);
+  const sharedValues = React.useMemo(() => {
+      if (!shared) return { values: null, error: null };
+      try {
+          return { values: decodeFormValues(shared), error: null };
+      } catch (error) {
+          return { values: null, error: error instanceof PermalinkError ? error.message : 'The link could not be read.' };
+      }
+  }, [shared]);
+
+  React.useEffect(() => {
+      if (sharedValues.error) {
+          toast({ title: 'Invalid Link', description: sharedValues.error, variant: 'destructive' });
+      }
+  }, [sharedValues.error, toast]);
+
+  const prefill = React.useMemo<FormPrefill | null>(() => {
+      // Submit once the form has re-rendered with the new values
+      const calculate = () => requestAnimationFrame(() => calculatorRef.current?.querySelector('form')?.requestSubmit());
+      if (loadedScenario) {
+          const { scenario, loadedAt } = loadedScenario;
+          return { id: `scenario-${scenario.id}-${loadedAt}`, values: scenario.values, onApplied: calculate };
+      }
+      if (restoreEntry) return { id: restoreEntry.id, values: restoreEntry.values };
+      if (shared && sharedValues.values) return { id: shared, values: sharedValues.values, onApplied: calculate };
+      return null;
+  }, [loadedScenario, restoreEntry, shared, sharedValues.values]);
+
   const calculatorInfo = CALCULATORS.find((calc) => calc.slug === slug);
   const currency = React.useMemo(() => {
       return CURRENCIES.find(c => c.code === (profile?.preferredCurrency || 'USD')) || CURRENCIES.find(c => c.code === 'USD')!;
@@ -266,9 +232,44 @@ export function CalculatorContainer({ slug }: CalculatorContainerProps) {
   }
 
   const handleCalculation = (entry: HistoryEntry) => {
-    setHistory(prevHistory => [entry, ...prevHistory].slice(0, 50));
+    setHistory(prevHistory => addToHistory(prevHistory, entry, profile.historyLimit ?? DEFAULT_HISTORY_LIMIT));
+    setLastEntry(entry);
+    setLinkCopied(false);
   };
 
+  const loadScenario = (scenario: Scenario) => {
+    setLoadedScenario({ scenario, loadedAt: Date.now() });
+    calculatorRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Declarative calculators label their fields; the scenario panel humanizes other names
+  const declaredFields = CALCULATOR_DEFINITIONS[calculatorInfo.slug];
+  const fieldLabels = declaredFields
+      ? Object.fromEntries([...declaredFields.inputs, ...declaredFields.outputs].map(field => [field.name, field.label]))
+      : undefined;
+
+  // Links the inputs as they are now, calculated or not
+  const copyLink = async () => {
+    const values = readFormValues.current?.() ?? lastEntry?.values;
+    if (!values) return;
+    let url: string;
+    try {
+        url = `${window.location.origin}${permalinkHref(slug, values)}`;
+    } catch (error) {
+        toast({ title: 'Link Not Created', description: error instanceof PermalinkError ? error.message : 'The inputs could not be linked.', variant: 'destructive' });
+        return;
+    }
+    try {
+        await navigator.clipboard.writeText(url);
+        setLinkCopied(true);
+        toast({ title: 'Link Copied', description: 'Anyone with the link opens this calculator with these inputs.' });
+    } catch (error) {
+        console.error('Clipboard error:', error);
+        toast({ title: 'Copy Failed', description: 'Your browser blocked clipboard access.', variant: 'destructive' });
+    }
+  };
+  const shareLink: ShareLink = { copy: copyLink, copied: linkCopied };
+
   const renderCalculator = () => {
     // Pass all necessary props down, including the resolved currency object
     const commonProps = {
@@ -280,6 +281,12 @@ export function CalculatorContainer({ slug }: CalculatorContainerProps) {
       currency: currency, // Pass the resolved currency object
     };
 
+    // Declarative definitions are rendered by the generic renderer
+    const definition = CALCULATOR_DEFINITIONS[calculatorInfo.slug];
+    if (definition) {
+        return <DefinedCalculator {...commonProps} units={profile?.preferredUnits || 'metric'} definition={definition} />;
+    }
+
     // Map slugs to components
     const calculatorComponents: { [key: string]: React.ComponentType<any> } = {
         // Financial
@@ -338,7 +345,6 @@ export function CalculatorContainer({ slug }: CalculatorContainerProps) {
         'depreciation-calculator': DepreciationCalculator,
         'average-return-calculator': AverageReturnCalculator,
         'margin-calculator': MarginCalculator,
-        'discount-calculator': DiscountCalculator,
         'business-loan-calculator': BusinessLoanCalculator,
         'debt-to-income-ratio': DebtToIncomeRatioCalculator,
         'real-estate-calculator': RealEstateCalculator,
@@ -359,7 +365,6 @@ export function CalculatorContainer({ slug }: CalculatorContainerProps) {
         'mortgage-calculator-uk': MortgageCalculatorUK,
         'canadian-mortgage-calculator': CanadianMortgageCalculator,
         'mortgage-amortization-calculator': MortgageAmortizationCalculator,
-        'percent-off-calculator': PercentOffCalculator,
         'confidence-interval': ConfidenceIntervalCalculator,
 
         // Fitness & Health
@@ -391,104 +396,6 @@ export function CalculatorContainer({ slug }: CalculatorContainerProps) {
         'body-surface-area': BodySurfaceAreaCalculator,
         'bac-calculator': BacCalculator,
         'weight-watcher-points': WeightWatcherPointsCalculator,
-
-        // Math
-        'scientific-calculator': ScientificCalculator,
-        'fraction-calculator': FractionCalculator,
-        'percentage-calculator': PercentageCalculator,
-        'triangle-calculator': TriangleCalculator,
-        'volume-calculator': VolumeCalculator,
-        'standard-deviation': StandardDeviationCalculator,
-        'random-number-generator': RandomNumberGenerator,
-        'number-sequence': NumberSequenceCalculator,
-        'percent-error-calculator': PercentErrorCalculator,
-        'exponent-calculator': ExponentCalculator,
-        'binary-calculator': BinaryCalculator,
-        'hex-calculator': HexCalculator,
-        'half-life-calculator': HalfLifeCalculator,
-        'quadratic-formula': QuadraticFormulaCalculator,
-        'slope-calculator': SlopeCalculator,
-        'log-calculator': LogCalculator,
-        'area-calculator': AreaCalculator,
-        'sample-size-calculator': SampleSizeCalculator,
-        'probability-calculator': ProbabilityCalculator,
-        'statistics-calculator': StatisticsCalculator,
-        'mean-median-mode-range': MeanMedianModeRangeCalculator,
-        'permutation-combination': PermutationCombinationCalculator,
-        'z-score-calculator': ZScoreCalculator,
-        'ratio-calculator': RatioCalculator,
-        'distance-calculator': DistanceCalculator,
-        'circle-calculator': CircleCalculator,
-        'surface-area-calculator': SurfaceAreaCalculator,
-        'pythagorean-theorem': PythagoreanTheoremCalculator,
-        'right-triangle-calculator': RightTriangleCalculator,
-        'root-calculator': RootCalculator,
-        'least-common-multiple': LeastCommonMultipleCalculator,
-        'greatest-common-factor': GreatestCommonFactorCalculator,
-        'factor-calculator': FactorCalculator,
-        'rounding-calculator': RoundingCalculator,
-        'matrix-calculator': MatrixCalculator,
-        'scientific-notation': ScientificNotationCalculator,
-        'big-number-calculator': BigNumberCalculator,
-        'prime-factorization': PrimeFactorizationCalculator,
-        'common-factor-calculator': CommonFactorCalculator,
-        'basic-calculator': BasicCalculator,
-        'long-division-calculator': LongDivisionCalculator,
-        'average-calculator': AverageCalculator,
-        'p-value-calculator': PValueCalculator,
-
-        // Other
-        'age-calculator': AgeCalculator,
-        'date-calculator': DateCalculator,
-        'time-calculator': TimeCalculator,
-        'hours-calculator': HoursCalculator,
-        'gpa-calculator': GpaCalculator,
-        'grade-calculator': GradeCalculator,
-        'height-calculator': HeightCalculator,
-        'concrete-calculator': ConcreteCalculator,
-        'ip-subnet-calculator': IpSubnetCalculator,
-        'bra-size-calculator': BraSizeCalculator,
-        'password-generator': PasswordGenerator,
-        'dice-roller': DiceRoller,
-        'conversion-calculator': ConversionCalculator,
-        'fuel-cost-calculator': FuelCostCalculator,
-        'voltage-drop-calculator': VoltageDropCalculator,
-        'btu-calculator': BtuCalculator,
-        'square-footage-calculator': SquareFootageCalculator,
-        'time-card-calculator': TimeCardCalculator,
-        'time-zone-calculator': TimeZoneCalculator,
-        'love-calculator': LoveCalculator,
-        'gdp-calculator': GdpCalculator,
-        'gas-mileage-calculator': GasMileageCalculator,
-        'horsepower-calculator': HorsepowerCalculator,
-        'engine-horsepower-calculator': EngineHorsepowerCalculator,
-        'stair-calculator': StairCalculator,
-        'resistor-calculator': ResistorCalculator,
-        'ohms-law-calculator': OhmsLawCalculator,
-        'electricity-calculator': ElectricityCalculator,
-        'tip-calculator': TipCalculator,
-        'mileage-calculator': MileageCalculator,
-        'density-calculator': DensityCalculator,
-        'mass-calculator': MassCalculator,
-        'weight-calculator': WeightCalculator,
-        'speed-calculator': SpeedCalculator,
-        'molarity-calculator': MolarityCalculator,
-        'molecular-weight-calculator': MolecularWeightCalculator,
-        'roman-numeral-converter': RomanNumeralConverter,
-        'golf-handicap-calculator': GolfHandicapCalculator,
-        'sleep-calculator': SleepCalculator,
-        'tire-size-calculator': TireSizeCalculator,
-        'roofing-calculator': RoofingCalculator,
-        'tile-calculator': TileCalculator,
-        'mulch-calculator': MulchCalculator,
-        'gravel-calculator': GravelCalculator,
-        'wind-chill-calculator': WindChillCalculator,
-        'heat-index-calculator': HeatIndexCalculator,
-        'dew-point-calculator': DewPointCalculator,
-        'bandwidth-calculator': BandwidthCalculator,
-        'time-duration-calculator': TimeDurationCalculator,
-        'day-counter': DayCounter,
-        'day-of-the-week-calculator': DayOfTheWeekCalculator,
          // Add other implemented calculators here
          // 'rent-vs-buy-calculator': RentVsBuyCalculator, // Add if implemented
     };
@@ -509,9 +416,32 @@ export function CalculatorContainer({ slug }: CalculatorContainerProps) {
   };
 
   return (
-    <>
-      {renderCalculator()}
-    </>
+    <FormPrefillContext.Provider value={prefill}>
+      <FormValuesRegistryContext.Provider value={registerForm}>
+        <ShareLinkContext.Provider value={shareLink}>
+          {/* Printing keeps only the report: header, the calculator card with its charts and schedules, and the footer */}
+          <ReportHeader calculatorInfo={calculatorInfo} entry={lastEntry} currency={currency} printedAt={printedAt} />
+          <div ref={calculatorRef}>
+            {renderCalculator()}
+          </div>
+          <ReportFooter category={calculatorInfo.category} />
+          <div className="mt-3 flex justify-center gap-2 print:hidden">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => window.print()}
+              disabled={!lastEntry}
+              title={lastEntry ? 'Print this calculation or save it as a PDF' : 'Calculate first to print a report'}
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Print / PDF
+            </Button>
+          </div>
+          <ScenarioPanel slug={calculatorInfo.slug} lastEntry={lastEntry} labels={fieldLabels} onLoad={loadScenario} />
+        </ShareLinkContext.Provider>
+      </FormValuesRegistryContext.Provider>
+    </FormPrefillContext.Provider>
   );
 }
 
@@ -0,0 +1,35 @@
+'use client';
+
+import * as React from 'react';
+import { Check, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export interface ShareLink {
+    /** Copies a link that opens the calculator with the current form inputs. */
+    copy: () => void;
+    /** True once the link has been copied, until the inputs are calculated again. */
+    copied: boolean;
+}
+
+/** Provided by `CalculatorContainer`; calculators rendered elsewhere show no button. */
+export const ShareLinkContext = React.createContext<ShareLink | null>(null);
+
+/** "Copy link" icon button for a calculator card header, left of the bookmark star. */
+export function CopyLinkButton() {
+    const shareLink = React.useContext(ShareLinkContext);
+    if (!shareLink) return null;
+
+    return (
+        <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="absolute top-3 right-11 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden"
+            onClick={shareLink.copy}
+            title="Copy a link to these inputs"
+            aria-label="Copy a link to these inputs"
+        >
+            {shareLink.copied ? <Check className="h-5 w-5" /> : <Link2 className="h-5 w-5" />}
+        </Button>
+    );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+// Generic renderer for declarative calculator definitions (see '@/lib/calculator-definition').
+import * as React from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Calculator, Star, ListChecks, CheckCircle2 } from 'lucide-react';
+import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
+import { cn } from '@/lib/utils';
+import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  CalculationError,
+  buildFormSchema,
+  createInputReader,
+  formatInputValue,
+  formatOutputValue,
+  getDefaultValues,
+  isInputVisible,
+  resolveText,
+  type CalculationContext,
+  type CalculationResult,
+  type CalculatorDefinition,
+  type ChartDefinition,
+  type FormValues,
+  type InputDefinition,
+  type Units,
+} from '@/lib/calculator-definition';
+import { CopyLinkButton } from './copy-link-button';
+
+interface DefinedCalculatorProps {
+  slug: string;
+  calculatorInfo: CalculatorInfo;
+  onCalculation: (entry: HistoryEntry) => void;
+  favorites: FavoriteCalculators;
+  setFavorites: (value: FavoriteCalculators | ((val: FavoriteCalculators) => FavoriteCalculators)) => void;
+  currency: CurrencyData;
+  units?: Units;
+  definition: CalculatorDefinition;
+}
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const GRID_COLUMNS = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-3',
+} as const;
+
+function inputLabel(input: InputDefinition, context: CalculationContext): string {
+  const unit = resolveText(input.unit, context);
+  // Currency units read as a rate, e.g. "Price ($ per L)"
+  if (input.kind === 'currency') return `${input.label} (${context.currency.symbol}${unit ? ` ${unit}` : ''})`;
+  if (input.kind === 'percent') return `${input.label} (%)`;
+  return unit ? `${input.label} (${unit})` : input.label;
+}
+
+function DefinedChart({ chart, data, context }: { chart: ChartDefinition; data: Array<Record<string, number | string>>; context: CalculationContext }) {
+  const config = Object.fromEntries(
+    chart.series.map((series, index) => [series.key, { label: series.label, color: CHART_COLORS[index % CHART_COLORS.length] }])
+  ) satisfies ChartConfig;
+  const ChartComponent = chart.type === 'bar' ? BarChart : LineChart;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold mb-3">{resolveText(chart.title, context)}</h3>
+      <ChartContainer config={config} className="w-full">
+        <ChartComponent data={data} margin={{ left: 12, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey={chart.xKey} tickLine={false} axisLine={false} />
+          <YAxis tickLine={false} axisLine={false} width={72} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {chart.series.map(series =>
+            chart.type === 'bar'
+              ? <Bar key={series.key} dataKey={series.key} fill={`var(--color-${series.key})`} radius={2} />
+              : <Line key={series.key} dataKey={series.key} type="monotone" stroke={`var(--color-${series.key})`} strokeWidth={2} dot={false} />
+          )}
+        </ChartComponent>
+      </ChartContainer>
+    </div>
+  );
+}
+
+export function DefinedCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency, units = 'metric', definition }: DefinedCalculatorProps) {
+  const [result, setResult] = React.useState<CalculationResult | null>(null);
+  const [mounted, setMounted] = React.useState(false);
+
+  const { name, description, icon: Icon } = calculatorInfo;
+  const isFavorite = favorites.includes(slug);
+  const context = React.useMemo<CalculationContext>(() => ({ currency, units }), [currency, units]);
+  const schema = React.useMemo(() => buildFormSchema(definition), [definition]);
+  const defaultValues = React.useMemo(() => getDefaultValues(definition), [definition]);
+
+  React.useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const toggleFavorite = (event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setFavorites(prevFavorites =>
+      prevFavorites.includes(slug)
+        ? prevFavorites.filter(fav => fav !== slug)
+        : [...prevFavorites, slug]
+    );
+  };
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues,
+  });
+  const values = form.watch();
+
+  // Reset results when the currency or unit system changes, like the hand-written calculators
+  React.useEffect(() => {
+    if (mounted) {
+      form.reset(defaultValues);
+      setResult(null);
+      form.clearErrors();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency.code, units, mounted]);
+  useFormPrefill(form, mounted);
+
+  const onSubmit: SubmitHandler<FormValues> = (data) => {
+    let calculation: CalculationResult;
+    try {
+      calculation = definition.compute(createInputReader(data), context);
+    } catch (error) {
+      setResult(null);
+      if (error instanceof CalculationError) {
+        form.setError(error.field ?? 'root', { message: error.message });
+        return;
+      }
+      console.error("Calculation failed. Check inputs.", error);
+      form.setError('root', { message: "Calculation failed. Check inputs." });
+      return;
+    }
+
+    setResult(calculation);
+
+    const inputString = definition.inputs
+      .filter(input => isInputVisible(input, data) && (data[input.name] ?? '').trim() !== '')
+      .map(input => `${input.label}: ${formatInputValue(input, data[input.name], context)}`)
+      .join(', ');
+    const loggedOutputs = definition.outputs.filter(output => !output.secret);
+    const resultString = loggedOutputs
+      .filter(output => calculation.outputs[output.name] !== undefined && calculation.outputs[output.name] !== null)
+      .map(output => {
+        const unit = resolveText(output.unit, context);
+        const formatted = formatOutputValue(calculation.outputs[output.name], output.format, context, output.precision);
+        return `${output.label}: ${formatted}${unit ? ` ${unit}` : ''}`;
+      })
+      .join(', ');
+
+    const historyEntry: HistoryEntry = {
+      id: Date.now().toString(),
+      calculatorSlug: slug,
+      timestamp: new Date(),
+      values: data,
+      calculatorVersion: definition.version,
+      outputs: Object.fromEntries(loggedOutputs.filter(output => output.name in calculation.outputs).map(output => [output.name, calculation.outputs[output.name]])),
+      input: inputString,
+      result: resultString,
+    };
+    onCalculation(historyEntry);
+  };
+
+  // Skeleton Loader
+  if (!mounted) {
+    return (
+      <Card className="w-full max-w-2xl mx-auto">
+        <CardHeader className="relative">
+          <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
+          <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
+          <Skeleton className="h-4 w-full" />
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {definition.inputs.slice(0, 4).map(input => <Skeleton key={input.name} className="h-10 w-full" />)}
+          <Skeleton className="h-10 w-full" /> {/* Button Skeleton */}
+          <Skeleton className="mt-6 h-20 w-full" /> {/* Result Skeleton */}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const visibleOutputs = result
+    ? definition.outputs.filter(output => result.outputs[output.name] !== undefined && result.outputs[output.name] !== null)
+    : [];
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader className="relative">
+        <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+        <CopyLinkButton />
+        <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className={cn("grid gap-4", GRID_COLUMNS[definition.columns ?? 1])}>
+            {definition.inputs.filter(input => isInputVisible(input, values)).map(input => (
+              <FormField
+                key={input.name}
+                control={form.control}
+                name={input.name}
+                render={({ field }) => (
+                  <FormItem className={cn(input.kind === 'textarea' && 'md:col-span-full')}>
+                    <FormLabel>{inputLabel(input, context)}</FormLabel>
+                    {input.kind === 'select' ? (
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue placeholder={input.placeholder ?? `Select ${input.label.toLowerCase()}`} /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {input.options?.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    ) : input.kind === 'textarea' ? (
+                      <FormControl><Textarea placeholder={input.placeholder} {...field} rows={4} /></FormControl>
+                    ) : (
+                      <FormControl>
+                        <Input
+                          type={input.kind === 'text' ? 'text' : input.kind === 'date' ? 'date' : input.kind === 'time' ? 'time' : 'number'}
+                          placeholder={input.placeholder}
+                          {...field}
+                          step={input.step ?? (input.kind === 'integer' ? '1' : input.kind === 'time' ? '60' : 'any')}
+                          min={input.min ?? input.greaterThan}
+                          max={input.max}
+                        />
+                      </FormControl>
+                    )}
+                    {input.description && <FormDescription>{resolveText(input.description, context)}</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <div className="md:col-span-full">
+              <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> {definition.submitLabel ?? 'Calculate'}</Button>
+            </div>
+            {form.formState.errors.root && (
+              <FormMessage className="md:col-span-full text-destructive">{form.formState.errors.root.message}</FormMessage>
+            )}
+          </form>
+        </Form>
+
+        {result && (visibleOutputs.length > 0 || (result.notes?.length ?? 0) > 0) && (
+          <Alert className="mt-6">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertTitle>{resolveText(definition.resultTitle, context) ?? 'Result'}</AlertTitle>
+            <AlertDescription>
+              {visibleOutputs.map(output => {
+                const unit = resolveText(output.unit, context);
+                return (
+                  <p key={output.name} className={cn(output.primary && "text-base")}>
+                    {output.label}: <strong className="break-all">{formatOutputValue(result.outputs[output.name], output.format, context, output.precision)}{unit ? ` ${unit}` : ''}</strong>
+                  </p>
+                );
+              })}
+              {result.notes?.map((note, index) => <p key={index} className="text-xs mt-1 text-muted-foreground">{note}</p>)}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result && definition.charts?.map(chart => {
+          const data = result.charts?.[chart.name];
+          return data && data.length > 0 ? <DefinedChart key={chart.name} chart={chart} data={data} context={context} /> : null;
+        })}
+
+        {result && definition.tables?.map(table => {
+          const rows = result.tables?.[table.name];
+          if (!rows || rows.length === 0) return null;
+          // Columns that no row provides are omitted, so variable-width results can declare a maximum
+          const columns = table.columns.filter(column => rows.some(row => column.key in row));
+          return (
+            <div key={table.name} className="mt-6">
+              <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <ListChecks className="h-5 w-5 text-primary" />
+                {resolveText(table.title, context)}
+              </h3>
+              <ScrollArea className="h-[300px] w-full border">
+                <Table>
+                  <TableHeader className="sticky top-0 bg-muted z-10">
+                    <TableRow>
+                      {columns.map(column => <TableHead key={column.key}>{resolveText(column.label, context)}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={index}>
+                        {columns.map(column => (
+                          <TableCell key={column.key}>{formatOutputValue(row[column.key] ?? null, column.format, context, column.precision)}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          );
+        })}
+
+        {result && definition.disclaimer && (
+          <p className="text-xs text-muted-foreground mt-4">{definition.disclaimer}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
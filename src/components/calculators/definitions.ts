@@ -0,0 +1,15 @@
+import type { CalculatorDefinition } from '@/lib/calculator-definition';
+import { discountCalculator } from './financial/discount-calculator';
+import { MATH_CALCULATORS } from './math';
+import { OTHER_CALCULATORS } from './other';
+
+/**
+ * Calculators described declaratively and rendered by `DefinedCalculator`,
+ * keyed by slug. A slug listed here takes precedence over a hand-written component.
+ */
+export const CALCULATOR_DEFINITIONS: Record<string, CalculatorDefinition> = {
+  'discount-calculator': discountCalculator,
+  'percent-off-calculator': discountCalculator,
+  ...MATH_CALCULATORS,
+  ...OTHER_CALCULATORS,
+};
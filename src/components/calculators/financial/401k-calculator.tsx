@@ -12,9 +12,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, LineChart as LineChartIcon } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { growthPoint, type GrowthPoint } from '@/lib/finance';
+import { GrowthChart } from '../projection-charts';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for 401k Calculator
 const k401Schema = z.object({
@@ -94,6 +98,8 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
     const [retirementBalance, setRetirementBalance] = React.useState<number | null>(null);
     const [totalContributions, setTotalContributions] = React.useState<number | null>(null);
     const [totalGrowth, setTotalGrowth] = React.useState<number | null>(null);
+    const [growthPoints, setGrowthPoints] = React.useState<GrowthPoint[]>([]);
+    const [startAge, setStartAge] = React.useState(0);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -133,17 +139,19 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
             setRetirementBalance(null);
             setTotalContributions(null);
             setTotalGrowth(null);
+            setGrowthPoints([]);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    const calculate401k = (values: K401FormValues): { balance: number; contributions: number; growth: number } | null => {
+    const calculate401k = (values: K401FormValues): { balance: number; contributions: number; growth: number; points: GrowthPoint[] } | null => {
         const currentAge = parseInt(values.currentAge);
         const retirementAge = parseInt(values.retirementAge);
         let currentBalance = parseFloat(values.currentBalance);
@@ -164,10 +172,12 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
         const totalAnnualContribution = annualContribution + employerMatchAmount;
         let totalContributionsMade = 0;
         let futureValue = currentBalance;
+        const points: GrowthPoint[] = [growthPoint(0, currentBalance, currentBalance)];
 
         for (let i = 0; i < yearsToRetirement; i++) {
             futureValue = (futureValue + totalAnnualContribution) * (1 + annualReturnRate);
             totalContributionsMade += totalAnnualContribution;
+            points.push(growthPoint(i + 1, futureValue, currentBalance + totalContributionsMade));
         }
 
          const totalGrowthCalc = futureValue - currentBalance - totalContributionsMade;
@@ -178,7 +188,8 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
         return {
              balance: futureValue,
              contributions: totalContributionsIncludingInitial, // Return total contributions + initial balance
-             growth: totalGrowthCalc
+             growth: totalGrowthCalc,
+             points
          };
     };
 
@@ -188,6 +199,8 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
             setRetirementBalance(result.balance);
             setTotalContributions(result.contributions);
             setTotalGrowth(result.growth);
+            setGrowthPoints(result.points);
+            setStartAge(parseInt(data.currentAge));
 
             const inputString = `Current Age: ${data.currentAge}, Retirement Age: ${data.retirementAge}, Current Balance: ${formatCurrency(parseFloat(data.currentBalance))}, Annual Contribution: ${formatCurrency(parseFloat(data.annualContribution))}, Employer Match: ${data.employerMatchPercent || '0'}% up to ${data.matchUpToPercent || '0'}% (Salary: ${data.annualSalary ? formatCurrency(parseFloat(data.annualSalary)) : 'N/A'}), Rate: ${data.annualReturnRate}%`;
             const resultString = `Est. Balance at Retirement: ${formatCurrency(result.balance)}, Total Contributions: ${formatCurrency(result.contributions)}, Total Growth: ${formatCurrency(result.growth)}`;
@@ -196,6 +209,9 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { retirementBalance: result.balance, totalContributions: result.contributions, totalGrowth: result.growth },
                 input: inputString,
                 result: resultString,
             };
@@ -204,6 +220,7 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
             setRetirementBalance(null);
              setTotalContributions(null);
              setTotalGrowth(null);
+             setGrowthPoints([]);
             console.error("Calculation failed. Check inputs.");
         }
     };
@@ -244,13 +261,14 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -383,6 +401,8 @@ export function K401Calculator({ slug, calculatorInfo, onCalculation, favorites,
                         </AlertDescription>
                     </Alert>
                 )}
+
+                <GrowthChart points={growthPoints} formatCurrency={formatCurrency} startAge={startAge} />
             </CardContent>
         </Card>
     );
@@ -12,21 +12,17 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, ListChecks, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
-
-// Amortization Schedule Type
-interface AmortizationEntry {
-    month: number;
-    startingBalance: number;
-    payment: number;
-    principalPaid: number;
-    interestPaid: number;
-    endingBalance: number;
-}
+import { amortize, type AmortizationEntry } from '@/lib/finance';
+import { amortizationExport } from '@/lib/schedule-export';
+import { AmortizationCharts } from '../projection-charts';
+import { ScheduleExportButtons } from '../schedule-export-buttons';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Amortization Calculator (similar to Loan Payment)
 const amortizationSchema = z.object({
@@ -96,6 +92,7 @@ export function AmortizationCalculator({ slug, calculatorInfo, onCalculation, fa
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -112,62 +109,19 @@ export function AmortizationCalculator({ slug, calculatorInfo, onCalculation, fa
             return null;
         }
 
-        const monthlyInterestRate = annualInterestRate / 12;
-        const numberOfPayments = years * 12;
-        let monthlyPaymentCalc = 0;
-        const schedule: AmortizationEntry[] = [];
-        let totalInterestPaid = 0;
-        let remainingBalance = principal;
-
-        if (monthlyInterestRate === 0) {
-            monthlyPaymentCalc = principal / numberOfPayments;
-        } else {
-            monthlyPaymentCalc = principal * (monthlyInterestRate * Math.pow(1 + monthlyInterestRate, numberOfPayments)) / (Math.pow(1 + monthlyInterestRate, numberOfPayments) - 1);
-        }
-
-        for (let month = 1; month <= numberOfPayments; month++) {
-            const interestForMonth = remainingBalance * monthlyInterestRate;
-            let principalForMonth = monthlyPaymentCalc - interestForMonth;
-            let currentPayment = monthlyPaymentCalc;
-
-            if (month === numberOfPayments) {
-                 principalForMonth = remainingBalance; // Ensure final payment clears balance
-                 currentPayment = principalForMonth + interestForMonth;
-             }
-
-            const endingBalance = remainingBalance - principalForMonth;
-
-            schedule.push({
-                month: month,
-                startingBalance: remainingBalance,
-                payment: currentPayment,
-                principalPaid: principalForMonth,
-                interestPaid: interestForMonth,
-                endingBalance: endingBalance < 0.005 ? 0 : endingBalance // Handle floating point inaccuracies
-            });
-
-            totalInterestPaid += interestForMonth;
-            remainingBalance = endingBalance;
-
-             if (remainingBalance <= 0.005 && month < numberOfPayments) {
-                 const lastEntry = schedule[schedule.length - 1];
-                 if(lastEntry) {
-                    lastEntry.endingBalance = 0;
-                    totalInterestPaid = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
-                 }
-                 break;
-             }
-        }
-
-         const actualTotalPayment = schedule.reduce((sum, entry) => sum + entry.payment, 0);
-         const actualTotalInterest = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
+        const { payment, schedule, totalInterest: totalInterestPaid, totalPaid } = amortize({
+            principal,
+            ratePerPeriod: annualInterestRate / 12,
+            periods: years * 12,
+            exact: true, // The full schedule is shown, so keep it to the cent
+        });
 
         return {
-             payment: monthlyPaymentCalc,
-             totalInterest: actualTotalInterest,
-             totalPayment: actualTotalPayment,
-             schedule: schedule
-         };
+            payment,
+            totalInterest: totalInterestPaid,
+            totalPayment: totalPaid,
+            schedule
+        };
     };
 
     const onSubmit: SubmitHandler<AmortizationFormValues> = (data) => {
@@ -185,6 +139,9 @@ export function AmortizationCalculator({ slug, calculatorInfo, onCalculation, fa
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { monthlyPayment: result.payment, totalInterest: result.totalInterest, totalPayment: result.totalPayment },
                 input: inputString,
                 result: resultString, // Store summary as result
             };
@@ -241,13 +198,14 @@ export function AmortizationCalculator({ slug, calculatorInfo, onCalculation, fa
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -316,13 +274,29 @@ export function AmortizationCalculator({ slug, calculatorInfo, onCalculation, fa
                      </Alert>
                  )}
 
+                <AmortizationCharts schedule={amortizationSchedule} periodsPerYear={12} formatCurrency={formatCurrency} />
 
                 {amortizationSchedule.length > 0 && (
                     <div className="mt-6">
-                         <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
-                            <ListChecks className="h-5 w-5 text-primary" />
-                            Amortization Schedule ({currency.code})
-                        </h3>
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                            <h3 className="text-lg font-semibold flex items-center gap-2">
+                                <ListChecks className="h-5 w-5 text-primary" />
+                                Amortization Schedule ({currency.code})
+                            </h3>
+                            <ScheduleExportButtons
+                                build={() => amortizationExport({
+                                    title: 'Amortization Schedule',
+                                    currency,
+                                    schedule: amortizationSchedule,
+                                    summary: [
+                                        { label: 'Loan Amount', value: parseFloat(form.getValues('loanAmount') || '0'), format: 'currency' },
+                                        { label: 'Monthly Payment', value: monthlyPayment ?? 0, format: 'currency' },
+                                        { label: 'Total Interest', value: totalInterest ?? 0, format: 'currency' },
+                                        { label: 'Total Cost of Loan', value: totalPayment ?? 0, format: 'currency' },
+                                    ],
+                                })}
+                            />
+                        </div>
                         <ScrollArea className="h-[400px] w-full border">
                             <Table className="min-w-[600px]">
                                 <TableHeader className="sticky top-0 bg-muted z-10">
@@ -336,8 +310,8 @@ export function AmortizationCalculator({ slug, calculatorInfo, onCalculation, fa
                                 </TableHeader>
                                 <TableBody>
                                     {amortizationSchedule.map((entry) => (
-                                        <TableRow key={entry.month}>
-                                            <TableCell className="font-medium">{entry.month}</TableCell>
+                                        <TableRow key={entry.period}>
+                                            <TableCell className="font-medium">{entry.period}</TableCell>
                                             <TableCell>{formatCurrency(entry.principalPaid)}</TableCell>
                                             <TableCell>{formatCurrency(entry.interestPaid)}</TableCell>
                                             <TableCell>{formatCurrency(entry.payment)}</TableCell>
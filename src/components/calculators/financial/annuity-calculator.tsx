@@ -13,9 +13,12 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Repeat, LineChart } from 'lucide-react';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { fv, pv } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Annuity Calculator
 const annuitySchema = z.object({
@@ -83,6 +86,7 @@ export function AnnuityCalculator({ slug, calculatorInfo, onCalculation, favorit
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
      // Reset results when annuity type changes
      React.useEffect(() => {
@@ -125,21 +129,12 @@ export function AnnuityCalculator({ slug, calculatorInfo, onCalculation, favorit
             return null;
         }
 
-        if (ratePerPeriod === 0) {
-            if (values.type === 'future_value') {
-                return pmt * totalPeriods;
-            } else { // present_value
-                 // Present value of 0% annuity is just sum of payments
-                 return pmt * totalPeriods;
-            }
-        }
-
         if (values.type === 'future_value') {
             // Future Value of an Ordinary Annuity Formula: FV = P * [((1 + r)^n - 1) / r]
-            return pmt * ((Math.pow(1 + ratePerPeriod, totalPeriods) - 1) / ratePerPeriod);
+            return fv(ratePerPeriod, totalPeriods, -pmt);
         } else { // present_value
             // Present Value of an Ordinary Annuity Formula: PV = P * [(1 - (1 + r)^-n) / r]
-            return pmt * ((1 - Math.pow(1 + ratePerPeriod, -totalPeriods)) / ratePerPeriod);
+            return pv(ratePerPeriod, totalPeriods, -pmt);
         }
     };
 
@@ -159,6 +154,9 @@ export function AnnuityCalculator({ slug, calculatorInfo, onCalculation, favorit
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { annuityValue: result },
                 input: inputString,
                 result: resultString,
             };
@@ -216,13 +214,14 @@ export function AnnuityCalculator({ slug, calculatorInfo, onCalculation, favorit
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -13,9 +13,12 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Repeat, HandCoins } from 'lucide-react';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Annuity Payout Calculator
 const annuityPayoutSchema = z.object({
@@ -81,6 +84,7 @@ export function AnnuityPayoutCalculator({ slug, calculatorInfo, onCalculation, f
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -113,7 +117,7 @@ export function AnnuityPayoutCalculator({ slug, calculatorInfo, onCalculation, f
         }
 
         // Annuity Payment Formula (based on Present Value): P = PV * [r(1+r)^n] / [(1+r)^n - 1]
-        const payment = pv * (ratePerPeriod * Math.pow(1 + ratePerPeriod, totalPeriods)) / (Math.pow(1 + ratePerPeriod, totalPeriods) - 1);
+        const payment = loanPayment(pv, ratePerPeriod, totalPeriods);
 
         return payment;
     };
@@ -132,6 +136,9 @@ export function AnnuityPayoutCalculator({ slug, calculatorInfo, onCalculation, f
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { payoutAmount: result },
                 input: inputString,
                 result: resultString,
             };
@@ -181,13 +188,14 @@ export function AnnuityPayoutCalculator({ slug, calculatorInfo, onCalculation, f
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
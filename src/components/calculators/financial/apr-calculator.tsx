@@ -12,13 +12,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, BadgePercent, Percent } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { loanPayment, rate } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for APR Calculator
-// Note: Exact APR calculation can be complex. This is a simplified version based on nominal rate and fees.
-// A more accurate calculation might involve iterative methods or specific loan structures.
 const aprSchema = z.object({
     loanAmount: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, {
         message: "Loan amount must be a positive number.",
@@ -84,17 +85,15 @@ export function AprCalculator({ slug, calculatorInfo, onCalculation, favorites,
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]); // Reset on currency change although currency isn't directly used in APR calc itself
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    // Simplified APR Calculation (approximation)
-    // Formula: APR ≈ ( (Fees / Loan Amount) / Loan Term Years ) * 12 + Nominal Rate
-    // This is a very rough estimate and doesn't account for compounding or payment frequency.
-    // A precise APR calculation requires solving for the rate in the loan payment formula
-    // where the principal is the net amount received (Loan Amount - Fees).
+    // APR: the monthly rate that makes the loan's payments worth the net amount received
+    // (Loan Amount - Fees), solved with the finance engine's RATE and annualized.
     const calculateApr = (values: AprFormValues): number | null => {
         const P = parseFloat(values.loanAmount);
         const nominalRate = parseFloat(values.nominalInterestRate) / 100;
@@ -105,23 +104,11 @@ export function AprCalculator({ slug, calculatorInfo, onCalculation, favorites,
             return null;
         }
 
-        // Calculate monthly payment based on nominal rate and original loan amount
-        const r_monthly_nominal = nominalRate / 12;
+        // Monthly payment on the full loan at the nominal rate
         const n = T * 12;
-        let M = 0;
-        if (r_monthly_nominal === 0) {
-            M = P / n;
-        } else {
-            M = P * (r_monthly_nominal * Math.pow(1 + r_monthly_nominal, n)) / (Math.pow(1 + r_monthly_nominal, n) - 1);
-        }
-
+        const M = loanPayment(P, nominalRate / 12, n);
 
-        // Now, try to find the rate (APR/12) that makes the PV of payments equal to (P - F)
-        // This requires an iterative approach (like Newton-Raphson) or a financial function.
-        // For simplification in this example, we'll use the rough approximation.
-        // **WARNING: THIS IS NOT ACCURATE FOR MOST CASES**
-        // const roughApr = ((F / P) / T) + nominalRate; // Simplified annual fee impact + nominal rate
-        // A slightly better approximation:
+        // APR is the rate at which those payments repay only what the borrower receives, P - F
         const netLoanAmount = P - F;
         if (netLoanAmount <=0) {
              // Cannot calculate APR if fees exceed loan amount
@@ -129,54 +116,13 @@ export function AprCalculator({ slug, calculatorInfo, onCalculation, favorites,
              return null; // Or handle as an error state
         }
 
-        // Use an iterative approach (Goal Seek / Root Finding) to find the actual monthly rate for APR
-        let guessRate = nominalRate / 12; // Start guess near nominal rate
-        let calculatedPV;
-        const tolerance = 0.00001; // Tolerance for accuracy
-        let iterations = 0;
-        const maxIterations = 100;
-
-        do {
-            if (guessRate <= -1) { // Avoid Math.pow with negative base if rate is -100% or less
-                console.error("Cannot calculate APR with extremely low or negative effective rates.");
-                return null;
-            }
-            // Calculate PV based on current guess rate
-             if (guessRate === 0) {
-                 calculatedPV = M * n;
-             } else {
-                 calculatedPV = M * (1 - Math.pow(1 + guessRate, -n)) / guessRate;
-             }
-
-            // Adjust guess rate based on difference
-            const diff = calculatedPV - netLoanAmount;
-            if (Math.abs(diff) < tolerance) {
-                break; // Found a suitable rate
-            }
-
-            // Simple adjustment (could use Newton-Raphson for faster convergence)
-            // Increase rate if PV is too high, decrease if too low
-             if (diff > 0) {
-                guessRate += tolerance; // Needs refinement - adjustment step size matters
-             } else {
-                guessRate -= tolerance;
-             }
-            // Simplified adjustment step - lacks precision
-            // guessRate = guessRate * (1 + diff / netLoanAmount * 0.1); // Very basic adjustment
-
-
-             iterations++;
-        } while (iterations < maxIterations);
-
-
-        if (iterations >= maxIterations) {
-             console.warn("APR calculation did not converge. Result might be inaccurate.");
-             // Return the nominal rate as a fallback, maybe? Or null/error.
-              // For this example, let's return the nominal rate + basic fee spread as a rough fallback
-              return nominalRate + (F / P / T); // Fallback to very rough estimate
+        const monthlyRate = rate(n, -M, netLoanAmount, 0, 0, nominalRate / 12);
+        if (monthlyRate === null) {
+             console.warn("APR calculation did not converge.");
+             return null;
         }
 
-        const apr = guessRate * 12 * 100; // Annualize and convert to percentage
+        const apr = monthlyRate * 12 * 100; // Annualize and convert to percentage
 
         return apr;
     };
@@ -193,6 +139,9 @@ export function AprCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { apr: result },
                 input: inputString,
                 result: resultString,
             };
@@ -235,13 +184,14 @@ export function AprCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -12,9 +12,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Car, FileText } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Auto Lease Calculator
 const autoLeaseSchema = z.object({
@@ -98,6 +100,7 @@ export function AutoLeaseCalculator({ slug, calculatorInfo, onCalculation, favor
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -152,6 +155,9 @@ export function AutoLeaseCalculator({ slug, calculatorInfo, onCalculation, favor
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { monthlyPayment: result.monthly, monthlyPaymentAfterTax: result.monthlyAfterTax, totalLeaseCost: result.total },
                 input: inputString,
                 result: resultString,
             };
@@ -200,13 +206,14 @@ export function AutoLeaseCalculator({ slug, calculatorInfo, onCalculation, favor
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
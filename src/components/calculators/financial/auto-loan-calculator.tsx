@@ -13,11 +13,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Car, HandCoins, ListChecks } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { amortizeWithPrepayments, hasPrepayments, type AmortizationEntry, type PrepaymentResult } from '@/lib/finance';
+import { PREPAYMENT_DEFAULTS, PrepaymentFields, PrepaymentSummary, describePrepaymentPlan, prepaymentPlan, prepaymentSchemaShape } from '../prepayment-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Schema (same as Loan Payment)
 const autoLoanSchema = z.object({
@@ -34,6 +38,7 @@ const autoLoanSchema = z.object({
   vehiclePrice: z.string().optional(),
   downPayment: z.string().optional(),
   tradeInValue: z.string().optional(),
+  ...prepaymentSchemaShape,
 });
 
 type AutoLoanFormValues = z.infer<typeof autoLoanSchema>;
@@ -47,22 +52,13 @@ interface AutoLoanCalculatorProps {
     currency: CurrencyData;
 }
 
-// Amortization Schedule Type
-interface AmortizationEntry {
-    month: number;
-    startingBalance: number;
-    payment: number;
-    principalPaid: number;
-    interestPaid: number;
-    endingBalance: number;
-}
-
 
 export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: AutoLoanCalculatorProps) {
     const [monthlyPayment, setMonthlyPayment] = React.useState<number | null>(null);
     const [totalInterest, setTotalInterest] = React.useState<number | null>(null);
     const [totalPayment, setTotalPayment] = React.useState<number | null>(null);
     const [amortizationSchedule, setAmortizationSchedule] = React.useState<AmortizationEntry[]>([]);
+    const [prepayment, setPrepayment] = React.useState<PrepaymentResult | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -91,6 +87,7 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
             vehiclePrice: '',
             downPayment: '',
             tradeInValue: '',
+            ...PREPAYMENT_DEFAULTS,
         },
     });
 
@@ -101,10 +98,12 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
             setTotalInterest(null);
             setTotalPayment(null);
             setAmortizationSchedule([]);
+            setPrepayment(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     // Recalculate loanAmount when price/down/trade changes
     React.useEffect(() => {
@@ -124,71 +123,27 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
     }, [currency.symbol]);
 
     // Calculation logic (identical to Loan Payment)
-     const calculateLoanPayment = (values: AutoLoanFormValues): { payment: number; totalInterest: number; totalPayment: number; schedule: AmortizationEntry[] } | null => {
+     const calculateLoanPayment = (values: AutoLoanFormValues): { payment: number; totalInterest: number; totalPayment: number; schedule: AmortizationEntry[]; prepayment: PrepaymentResult | null } | null => {
          const principal = parseFloat(values.loanAmount);
          const annualInterestRate = parseFloat(values.interestRate) / 100;
          const years = parseInt(values.loanTerm);
 
          if (isNaN(principal) || principal <= 0 || isNaN(annualInterestRate) || annualInterestRate < 0 || isNaN(years) || years <= 0) {
               // Allow calculation even if principal is 0 (fully paid by down/trade)
-             if (principal === 0) return { payment: 0, totalInterest: 0, totalPayment: 0, schedule: [] };
+             if (principal === 0) return { payment: 0, totalInterest: 0, totalPayment: 0, schedule: [], prepayment: null };
              return null;
          }
 
 
-         const monthlyInterestRate = annualInterestRate / 12;
-         const numberOfPayments = years * 12;
-         let monthlyPaymentCalc = 0;
-         const schedule: AmortizationEntry[] = [];
-         let totalInterestPaid = 0;
-         let remainingBalance = principal;
-
-         if (monthlyInterestRate === 0) {
-            monthlyPaymentCalc = principal / numberOfPayments;
-         } else {
-            monthlyPaymentCalc = principal * (monthlyInterestRate * Math.pow(1 + monthlyInterestRate, numberOfPayments)) / (Math.pow(1 + monthlyInterestRate, numberOfPayments) - 1);
-         }
-
-         // Generate Amortization Schedule
-         for (let month = 1; month <= numberOfPayments; month++) {
-             const interestForMonth = remainingBalance * monthlyInterestRate;
-             let principalForMonth = monthlyPaymentCalc - interestForMonth;
-             let currentPayment = monthlyPaymentCalc;
-             if (month === numberOfPayments) {
-                 principalForMonth = remainingBalance;
-                 currentPayment = principalForMonth + interestForMonth;
-             }
-
-             const endingBalance = remainingBalance - principalForMonth;
-             schedule.push({
-                 month: month,
-                 startingBalance: remainingBalance,
-                 payment: currentPayment,
-                 principalPaid: principalForMonth,
-                 interestPaid: interestForMonth,
-                 endingBalance: endingBalance < 0.005 ? 0 : endingBalance
-             });
-
-             totalInterestPaid += interestForMonth;
-             remainingBalance = endingBalance;
-              if (remainingBalance <= 0.005 && month < numberOfPayments) {
-                 const lastEntry = schedule[schedule.length - 1];
-                 if(lastEntry) {
-                     lastEntry.endingBalance = 0;
-                     totalInterestPaid = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
-                 }
-                 break;
-             }
-         }
-
-          const actualTotalPayment = schedule.reduce((sum, entry) => sum + entry.payment, 0);
-         const actualTotalInterest = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
+         const plan = prepaymentPlan(values);
+         const result = amortizeWithPrepayments({ principal, annualRate: annualInterestRate, years, plan });
 
          return {
-             payment: monthlyPaymentCalc,
-             totalInterest: actualTotalInterest,
-             totalPayment: actualTotalPayment,
-             schedule: schedule
+             payment: result.scheduled.payment,
+             totalInterest: result.accelerated.totalInterest,
+             totalPayment: result.accelerated.totalPaid,
+             schedule: result.accelerated.schedule,
+             prepayment: hasPrepayments(plan) ? result : null,
          };
       };
 
@@ -199,14 +154,26 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
             setTotalInterest(result.totalInterest);
             setTotalPayment(result.totalPayment);
             setAmortizationSchedule(result.schedule);
+            setPrepayment(result.prepayment);
 
-            const inputString = `Loan Amount: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} years. (Price: ${formatCurrency(parseFloat(data.vehiclePrice || '0'))}, Down: ${formatCurrency(parseFloat(data.downPayment || '0'))}, Trade: ${formatCurrency(parseFloat(data.tradeInValue || '0'))})`;
-            const resultString = `Monthly Payment: ${formatCurrency(result.payment)}, Total Interest: ${formatCurrency(result.totalInterest)}, Total Payment: ${formatCurrency(result.totalPayment)}`;
+            const extras = describePrepaymentPlan(prepaymentPlan(data), formatCurrency);
+            const inputString = `Loan Amount: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} years${extras ? `, ${extras}` : ''}. (Price: ${formatCurrency(parseFloat(data.vehiclePrice || '0'))}, Down: ${formatCurrency(parseFloat(data.downPayment || '0'))}, Trade: ${formatCurrency(parseFloat(data.tradeInValue || '0'))})`;
+            const saved = result.prepayment ? `, Interest Saved: ${formatCurrency(result.prepayment.interestSaved)}, Months Saved: ${result.prepayment.monthsSaved}` : '';
+            const resultString = `Monthly Payment: ${formatCurrency(result.payment)}, Total Interest: ${formatCurrency(result.totalInterest)}, Total Payment: ${formatCurrency(result.totalPayment)}${saved}`;
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: {
+                    monthlyPayment: result.payment,
+                    totalInterest: result.totalInterest,
+                    totalPayment: result.totalPayment,
+                    interestSaved: result.prepayment?.interestSaved ?? 0,
+                    monthsSaved: result.prepayment?.monthsSaved ?? 0,
+                },
                 input: inputString,
                 result: resultString,
             };
@@ -216,6 +183,7 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
             setTotalInterest(null);
             setTotalPayment(null);
             setAmortizationSchedule([]);
+            setPrepayment(null);
             console.error("Calculation failed. Check inputs.");
         }
     };
@@ -259,13 +227,14 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -360,6 +329,9 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
                                 </FormItem>
                             )}
                         />
+                        <div className="md:col-span-3">
+                            <PrepaymentFields currency={currency} />
+                        </div>
                         <div className="md:col-span-3">
                             <Button type="submit" className="w-full">
                                 <Calculator className="mr-2 h-4 w-4" /> Calculate Auto Loan
@@ -377,6 +349,7 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
                             <p>Total Principal Paid: <strong>{formatCurrency(parseFloat(form.getValues('loanAmount') || '0'))}</strong></p>
                             <p>Total Interest Paid: <strong>{formatCurrency(totalInterest)}</strong></p>
                             <p>Total Cost of Loan: <strong>{formatCurrency(totalPayment)}</strong></p>
+                            {prepayment && <PrepaymentSummary result={prepayment} formatCurrency={formatCurrency} />}
                         </AlertDescription>
                     </Alert>
                  )}
@@ -391,19 +364,21 @@ export function AutoLoanCalculator({ slug, calculatorInfo, onCalculation, favori
                             <Table className="min-w-[600px]">
                                 <TableHeader className="sticky top-0 bg-muted z-10">
                                     <TableRow>
-                                        <TableHead className="w-[80px]">Month</TableHead>
+                                        <TableHead className="w-[80px]">{prepayment?.periodsPerYear === 26 ? 'Payment #' : 'Month'}</TableHead>
                                         <TableHead>Principal</TableHead>
                                         <TableHead>Interest</TableHead>
+                                        {prepayment && <TableHead>Extra</TableHead>}
                                         <TableHead>Payment</TableHead>
                                         <TableHead className="text-right">Balance</TableHead>
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
                                     {amortizationSchedule.map((entry) => (
-                                        <TableRow key={entry.month}>
-                                            <TableCell className="font-medium">{entry.month}</TableCell>
+                                        <TableRow key={entry.period}>
+                                            <TableCell className="font-medium">{entry.period}</TableCell>
                                             <TableCell>{formatCurrency(entry.principalPaid)}</TableCell>
                                             <TableCell>{formatCurrency(entry.interestPaid)}</TableCell>
+                                            {prepayment && <TableCell>{formatCurrency(entry.extraPaid)}</TableCell>}
                                             <TableCell>{formatCurrency(entry.payment)}</TableCell>
                                             <TableCell className="text-right">{formatCurrency(entry.endingBalance)}</TableCell>
                                         </TableRow>
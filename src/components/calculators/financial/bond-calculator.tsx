@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, FileText, Sigma } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { pv } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Bond Price Calculator (Yield to Maturity - YTM approximation)
 const bondSchema = z.object({
@@ -84,6 +87,7 @@ export function BondCalculator({ slug, calculatorInfo, onCalculation, favorites,
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -116,15 +120,7 @@ export function BondCalculator({ slug, calculatorInfo, onCalculation, favorites,
 
         // Bond Price Formula: PV(Coupons) + PV(Face Value)
         // PV = C * [1 - (1 + Y)^-N] / Y   +   F / (1 + Y)^N
-
-         if (Y === 0) { // Handle zero yield case
-            // Price is sum of coupons + face value
-             return (C * N) + F;
-         }
-
-        const pvCoupons = C * (1 - Math.pow(1 + Y, -N)) / Y;
-        const pvFaceValue = F / Math.pow(1 + Y, N);
-        const bondPriceCalc = pvCoupons + pvFaceValue;
+        const bondPriceCalc = -pv(Y, N, C, F);
 
         return bondPriceCalc;
     };
@@ -141,6 +137,9 @@ export function BondCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { bondPrice: result },
                 input: inputString,
                 result: resultString,
             };
@@ -193,13 +192,14 @@ export function BondCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, FileText, Percent } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { rate } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Bond Yield (YTM) Calculator
 const bondYieldSchema = z.object({
@@ -87,6 +90,7 @@ export function BondYieldCalculator({ slug, calculatorInfo, onCalculation, favor
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]); // Reset on currency change
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -116,66 +120,17 @@ export function BondYieldCalculator({ slug, calculatorInfo, onCalculation, favor
             return null;
         }
 
-        // YTM calculation requires solving the bond pricing formula for the yield (Y).
-        // This usually requires an iterative numerical method (like Newton-Raphson or bisection).
+        // YTM is the yield per period at which the coupons and face value are worth the price paid
+        const periodYield = rate(N, C, -P, F, 0, 0.05 / periodsPerYear);
 
-        // Define the bond pricing function based on yield (y_period)
-        const bondPriceFunc = (y_period: number): number => {
-             if (y_period === 0) return (C * N) + F; // Handle zero yield
-             if (y_period <= -1) return Infinity; // Avoid issues with negative base in pow
-
-            const pvCoupons = C * (1 - Math.pow(1 + y_period, -N)) / y_period;
-            const pvFaceValue = F / Math.pow(1 + y_period, N);
-            return pvCoupons + pvFaceValue;
-        };
-
-        // Iterative approach (simplified bisection method)
-        let lowRate = 0.0; // Lower bound for yield period rate
-        let highRate = 1.0; // Upper bound (100% per period, adjust if needed)
-        let guessRate = 0.05 / periodsPerYear; // Initial guess (e.g., 5% annual / periods)
-        const tolerance = 0.00001; // Accuracy tolerance
-        let iterations = 0;
-        const maxIterations = 100;
-
-        while (iterations < maxIterations) {
-            const calculatedPrice = bondPriceFunc(guessRate);
-            const diff = calculatedPrice - P;
-
-            if (Math.abs(diff) < tolerance) {
-                break; // Found a suitable rate
-            }
-
-            if (diff > 0) {
-                // Price is too high, yield must be higher
-                lowRate = guessRate;
-            } else {
-                // Price is too low, yield must be lower
-                highRate = guessRate;
-            }
-
-            // Update guess (midpoint)
-             guessRate = (lowRate + highRate) / 2;
-
-             // Check for problematic bounds or slow convergence
-             if (highRate <= lowRate || highRate > 1.5 || lowRate < -0.5 ) {
-                 console.warn("YTM calculation bounds issue or potential non-convergence.");
-                  // Provide a rough fallback estimate based on current yield
-                 const currentYield = (C_annual * F) / P;
-                 return currentYield * 100; // Return current yield as fallback
-             }
-
-
-            iterations++;
-        }
-
-        if (iterations >= maxIterations) {
-            console.warn("YTM calculation did not converge within max iterations. Result might be inaccurate.");
+        if (periodYield === null) {
+            console.warn("YTM calculation did not converge. Result might be inaccurate.");
             // Fallback: Approximate YTM = (Annual Interest + ((FV - Price) / T)) / ((FV + Price) / 2)
             const approxYtm = ((C_annual * F) + ((F - P) / T)) / ((F + P) / 2);
              return isNaN(approxYtm) ? null : approxYtm * 100; // Return approximation or null
         }
 
-        const ytm = guessRate * periodsPerYear * 100; // Annualize and convert to percentage
+        const ytm = periodYield * periodsPerYear * 100; // Annualize and convert to percentage
         return ytm;
     };
 
@@ -195,6 +150,9 @@ export function BondYieldCalculator({ slug, calculatorInfo, onCalculation, favor
                      id: Date.now().toString(),
                      calculatorSlug: slug,
                      timestamp: new Date(),
+                     values: data,
+                     calculatorVersion: 1,
+                     outputs: { yieldToMaturity: result },
                      input: inputString,
                      result: resultString,
                  };
@@ -252,13 +210,14 @@ export function BondYieldCalculator({ slug, calculatorInfo, onCalculation, favor
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -12,8 +12,10 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Scale as ScaleIcon, Target } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
+import { CopyLinkButton } from '../copy-link-button';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
 
 // Zod Schema for Breakeven Point Calculator
@@ -91,6 +93,7 @@ export function BreakevenPointCalculator({ slug, calculatorInfo, onCalculation,
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -133,6 +136,9 @@ export function BreakevenPointCalculator({ slug, calculatorInfo, onCalculation,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { breakevenUnits: result.units, breakevenRevenue: result.revenue },
                 input: inputString,
                 result: resultString,
             };
@@ -174,13 +180,14 @@ export function BreakevenPointCalculator({ slug, calculatorInfo, onCalculation,
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -13,11 +13,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Building, HandCoins, ListChecks } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Schema (similar to Loan Payment, maybe adjust term label/units)
 const businessLoanSchema = z.object({
@@ -99,6 +102,7 @@ export function BusinessLoanCalculator({ slug, calculatorInfo, onCalculation, fa
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -122,11 +126,7 @@ export function BusinessLoanCalculator({ slug, calculatorInfo, onCalculation, fa
          let totalInterestPaid = 0;
          let remainingBalance = principal;
 
-         if (monthlyInterestRate === 0) {
-            monthlyPaymentCalc = principal / numberOfPayments;
-         } else {
-            monthlyPaymentCalc = principal * (monthlyInterestRate * Math.pow(1 + monthlyInterestRate, numberOfPayments)) / (Math.pow(1 + monthlyInterestRate, numberOfPayments) - 1);
-         }
+         monthlyPaymentCalc = loanPayment(principal, monthlyInterestRate, numberOfPayments);
 
          // Generate Amortization Schedule
          for (let month = 1; month <= numberOfPayments; month++) {
@@ -186,6 +186,9 @@ export function BusinessLoanCalculator({ slug, calculatorInfo, onCalculation, fa
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { monthlyPayment: result.payment, totalInterest: result.totalInterest, totalPayment: result.totalPayment },
                 input: inputString,
                 result: resultString,
             };
@@ -232,13 +235,14 @@ export function BusinessLoanCalculator({ slug, calculatorInfo, onCalculation, fa
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
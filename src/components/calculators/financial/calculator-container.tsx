@@ -210,9 +210,11 @@ import { DayCounter } from './other/day-counter';
 import { DayOfTheWeekCalculator } from './other/day-of-the-week-calculator';
 
 // General Imports
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { HISTORY_STORAGE_KEY, FAVORITES_STORAGE_KEY, CALCULATORS, PROFILE_STORAGE_KEY, CURRENCIES } from '@/lib/constants';
-import type { HistoryEntry, FavoriteCalculators, UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { useHistory } from '@/hooks/use-history';
+import { favoritesStorage, profileStorage } from '@/lib/stored-data';
+import { CALCULATORS, CURRENCIES } from '@/lib/constants';
+import type { HistoryEntry } from '@/lib/types';
 import { notFound } from 'next/navigation';
 import { Skeleton } from '@/components/ui/skeleton';
 import type { CurrencyData } from '@/lib/constants';
@@ -233,9 +235,9 @@ function CalculatorContainerSkeleton() {
 
 
 export function CalculatorContainer({ slug }: CalculatorContainerProps) {
-  const [history, setHistory] = useLocalStorage<HistoryEntry[]>(HISTORY_STORAGE_KEY, []);
-  const [favorites, setFavorites] = useLocalStorage<FavoriteCalculators>(FAVORITES_STORAGE_KEY, []);
-  const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredCurrency: 'USD', preferredUnits: 'metric' });
+  const [history, setHistory] = useHistory();
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage);
+  const [profile] = useStoredValue(profileStorage);
   const [mounted, setMounted] = React.useState(false);
 
   React.useEffect(() => {
@@ -12,11 +12,17 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Home, HandCoins, ListChecks } from 'lucide-react'; // Use Home or specific Canadian icon if available
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { amortize, periodicRate, type AmortizationEntry } from '@/lib/finance';
+import { amortizationExport } from '@/lib/schedule-export';
+import { AmortizationCharts } from '../projection-charts';
+import { ScheduleExportButtons } from '../schedule-export-buttons';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Canadian Mortgage Calculator
 const canadianMortgageSchema = z.object({
@@ -44,21 +50,12 @@ interface CanadianMortgageCalculatorProps {
     currency: CurrencyData; // Should typically be CAD
 }
 
-// Amortization Schedule Type
-interface AmortizationEntry {
-    period: number; // Payment period number
-    startingBalance: number;
-    payment: number;
-    principalPaid: number;
-    interestPaid: number;
-    endingBalance: number;
-}
-
 export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: CanadianMortgageCalculatorProps) {
     const [paymentAmount, setPaymentAmount] = React.useState<number | null>(null);
     const [totalInterest, setTotalInterest] = React.useState<number | null>(null);
     const [totalCost, setTotalCost] = React.useState<number | null>(null);
     const [amortizationSchedule, setAmortizationSchedule] = React.useState<AmortizationEntry[]>([]);
+    const [paymentsPerYear, setPaymentsPerYear] = React.useState(12);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -102,6 +99,7 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [displayCurrency.code, mounted]); // Use displayCurrency
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -110,7 +108,7 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
     }, [displayCurrency.symbol]);
 
     // Calculate Canadian Mortgage Payment
-    const calculateCanadianMortgage = (values: CanadianMortgageFormValues): { payment: number; totalInterest: number; totalCost: number; schedule: AmortizationEntry[] } | null => {
+    const calculateCanadianMortgage = (values: CanadianMortgageFormValues): { payment: number; totalInterest: number; totalCost: number; schedule: AmortizationEntry[]; paymentsPerYear: number } | null => {
         const principal = parseFloat(values.loanAmount);
         const annualRate = parseFloat(values.interestRate) / 100;
         const amortizationYears = parseInt(values.amortizationPeriod);
@@ -120,11 +118,7 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
             return null;
         }
 
-        // 1. Calculate the semi-annual effective rate (compounded semi-annually)
-        const i_sa = annualRate / 2; // Semi-annual nominal rate
-        const effective_semi_annual_rate = i_sa; // It's just i/2 for simple compounding interval
-
-        // 2. Determine the number of payments per year
+        // Determine the number of payments per year
         let paymentsPerYear: number;
         switch (paymentFreq) {
             case 'monthly': paymentsPerYear = 12; break;
@@ -133,72 +127,22 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
             default: return null;
         }
 
-        // 3. Calculate the equivalent interest rate per payment period
-        // Formula: i_p = (1 + i_sa)^(2/paymentsPerYear) - 1
-        const ratePerPaymentPeriod = Math.pow(1 + effective_semi_annual_rate, 2 / paymentsPerYear) - 1;
-
-        // 4. Calculate the total number of payments
-        const totalNumberOfPayments = amortizationYears * paymentsPerYear;
-
-        // 5. Calculate the mortgage payment per period
-        // Formula: P = Principal * [i_p * (1 + i_p)^N] / [(1 + i_p)^N - 1]
-        let payment: number;
-        if (ratePerPaymentPeriod === 0) {
-             payment = principal / totalNumberOfPayments;
-         } else {
-             payment = principal * (ratePerPaymentPeriod * Math.pow(1 + ratePerPaymentPeriod, totalNumberOfPayments)) / (Math.pow(1 + ratePerPaymentPeriod, totalNumberOfPayments) - 1);
-         }
-
-
-        // Generate Amortization Schedule
-        const schedule: AmortizationEntry[] = [];
-        let remainingBalance = principal;
-        let totalInterestPaid = 0;
-
-        for (let period = 1; period <= totalNumberOfPayments; period++) {
-            const interestForPeriod = remainingBalance * ratePerPaymentPeriod;
-            let principalForPeriod = payment - interestForPeriod;
-            let currentPayment = payment;
-
-            // Adjust final payment
-            if (period === totalNumberOfPayments) {
-                principalForPeriod = remainingBalance;
-                currentPayment = principalForPeriod + interestForPeriod;
-            }
-
-            const endingBalance = remainingBalance - principalForPeriod;
-
-            schedule.push({
-                period: period,
-                startingBalance: remainingBalance,
-                payment: currentPayment,
-                principalPaid: principalForPeriod,
-                interestPaid: interestForPeriod,
-                endingBalance: endingBalance < 0.005 ? 0 : endingBalance,
-            });
-
-            totalInterestPaid += interestForPeriod;
-            remainingBalance = endingBalance;
-
-            if (remainingBalance <= 0.005 && period < totalNumberOfPayments) {
-                 const lastEntry = schedule[schedule.length - 1];
-                 if(lastEntry){
-                    lastEntry.endingBalance = 0;
-                     // Recalculate total interest based on actual payments made
-                    totalInterestPaid = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
-                 }
-                 break; // Stop early if balance is paid off
-            }
-        }
-
-        const actualTotalCost = principal + totalInterestPaid;
+        // Canadian fixed-rate mortgages compound semi-annually, so convert the quoted
+        // rate to the equivalent rate per payment period: (1 + i/2)^(2/paymentsPerYear) - 1
+        const ratePerPaymentPeriod = periodicRate(annualRate, 2, paymentsPerYear);
 
+        const { payment, schedule, totalInterest: totalInterestPaid } = amortize({
+            principal,
+            ratePerPeriod: ratePerPaymentPeriod,
+            periods: amortizationYears * paymentsPerYear,
+        });
 
         return {
             payment: payment, // Return the regular calculated payment
             totalInterest: totalInterestPaid,
-            totalCost: actualTotalCost,
-            schedule: schedule
+            totalCost: principal + totalInterestPaid,
+            schedule: schedule,
+            paymentsPerYear
         };
     };
 
@@ -210,6 +154,7 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
             setTotalInterest(result.totalInterest);
             setTotalCost(result.totalCost);
             setAmortizationSchedule(result.schedule);
+            setPaymentsPerYear(result.paymentsPerYear);
 
             const inputString = `Loan: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Amortization: ${data.amortizationPeriod} yrs, Freq: ${data.paymentFrequency}`;
             const resultString = `Payment: ${formatCurrency(result.payment)} per period, Total Interest: ${formatCurrency(result.totalInterest)}, Total Cost: ${formatCurrency(result.totalCost)}`;
@@ -218,6 +163,9 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { paymentAmount: result.payment, totalInterest: result.totalInterest, totalCost: result.totalCost },
                 input: inputString,
                 result: resultString,
             };
@@ -272,13 +220,14 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name} ({displayCurrency.code})
                 </CardTitle>
@@ -379,12 +328,31 @@ export function CanadianMortgageCalculator({ slug, calculatorInfo, onCalculation
                     </Alert>
                  )}
 
+                 <AmortizationCharts schedule={amortizationSchedule} periodsPerYear={paymentsPerYear} formatCurrency={formatCurrency} />
+
                  {amortizationSchedule.length > 0 && (
                     <div className="mt-6">
-                        <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
-                            <ListChecks className="h-5 w-5 text-primary" />
-                            Amortization Schedule ({displayCurrency.code})
-                        </h3>
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                            <h3 className="text-lg font-semibold flex items-center gap-2">
+                                <ListChecks className="h-5 w-5 text-primary" />
+                                Amortization Schedule ({displayCurrency.code})
+                            </h3>
+                            <ScheduleExportButtons
+                                build={() => amortizationExport({
+                                    title: 'Canadian Mortgage Schedule',
+                                    currency: displayCurrency,
+                                    schedule: amortizationSchedule,
+                                    periodLabel: 'Period',
+                                    summary: [
+                                        { label: 'Loan Amount', value: parseFloat(form.getValues('loanAmount') || '0'), format: 'currency' },
+                                        { label: 'Payment Frequency', value: form.getValues('paymentFrequency'), format: 'text' },
+                                        { label: 'Payment per Period', value: paymentAmount ?? 0, format: 'currency' },
+                                        { label: 'Total Interest', value: totalInterest ?? 0, format: 'currency' },
+                                        { label: 'Total Cost of Mortgage', value: totalCost ?? 0, format: 'currency' },
+                                    ],
+                                })}
+                            />
+                        </div>
                         <ScrollArea className="h-[300px] w-full border">
                             <Table className="min-w-[600px]">
                                 <TableHeader className="sticky top-0 bg-muted z-10">
@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Banknote, TrendingDown, Scaling } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
+import { amortize } from '@/lib/finance';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Cash Back vs Low Interest Calculator
 const cashBackSchema = z.object({
@@ -92,6 +95,7 @@ export function CashBackOrLowInterestCalculator({ slug, calculatorInfo, onCalcul
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -102,32 +106,8 @@ export function CashBackOrLowInterestCalculator({ slug, calculatorInfo, onCalcul
     const calculateTotalLoanCost = (principal: number, annualRate: number, years: number): number | null => {
         if (principal <= 0 || annualRate < 0 || years <= 0) return null;
 
-         const monthlyRate = annualRate / 12;
-         const numberOfPayments = years * 12;
-         let monthlyPayment = 0;
-
-         if (monthlyRate === 0) {
-            monthlyPayment = principal / numberOfPayments;
-         } else {
-             monthlyPayment = principal * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-         }
-
-          // Calculate total payments accurately by simulating amortization or using total interest calc
-          let totalInterestPaid = 0;
-          let balance = principal;
-          for(let i=0; i < numberOfPayments; i++){
-              let interest = balance * monthlyRate;
-               // Final payment adjustment
-               if (i === numberOfPayments - 1) {
-                   monthlyPayment = balance + interest;
-               }
-              totalInterestPaid += interest;
-              balance -= (monthlyPayment - interest);
-              if(balance < 0.005) balance = 0; // Handle rounding
-          }
-
-          // Total cost = principal + total interest
-         return principal + totalInterestPaid; // More precise total cost
+         // Total cost = principal + total interest, from the full schedule so the final payment is exact
+         return amortize({ principal, ratePerPeriod: annualRate / 12, periods: years * 12 }).totalPaid;
     };
 
 
@@ -165,6 +145,9 @@ export function CashBackOrLowInterestCalculator({ slug, calculatorInfo, onCalcul
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { cashBackTotalCost: totalCostCashBackOpt, lowInterestTotalCost: totalCostLowInterestOpt, betterOption: option },
                 input: inputString,
                 result: resultString,
             };
@@ -224,13 +207,14 @@ export function CashBackOrLowInterestCalculator({ slug, calculatorInfo, onCalcul
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -13,9 +13,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Percent, TrendingUp } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { growthPoint, savingsBalance, type GrowthPoint } from '@/lib/finance';
+import { GrowthChart } from '../projection-charts';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Compound Interest Calculator
 const compoundInterestSchema = z.object({
@@ -51,6 +55,7 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
     const [futureValue, setFutureValue] = React.useState<number | null>(null);
     const [totalInterest, setTotalInterest] = React.useState<number | null>(null);
     const [totalContributions, setTotalContributions] = React.useState<number | null>(null);
+    const [growthPoints, setGrowthPoints] = React.useState<GrowthPoint[]>([]);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -88,17 +93,19 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
             setFutureValue(null);
             setTotalInterest(null);
             setTotalContributions(null);
+            setGrowthPoints([]);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    const calculateCompoundInterest = (values: CompoundInterestFormValues): { fv: number; interest: number; contributions: number } | null => {
+    const calculateCompoundInterest = (values: CompoundInterestFormValues): { fv: number; interest: number; contributions: number; points: GrowthPoint[] } | null => {
         const P = parseFloat(values.principal);
         const r_annual = parseFloat(values.annualRate) / 100;
         const t = parseFloat(values.years);
@@ -130,43 +137,26 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
             return null;
         }
 
-        const ratePerPeriod = r_annual / n;
-        const totalPeriods = n * t;
+        // Principal compounded plus the contributions, each at its own frequency
+        const valueAt = (years: number) => savingsBalance(P, r_annual, n, years, pmt, pmtN);
 
-        // Future Value of Principal: FV = P * (1 + r/n)^(nt)
-        const fvPrincipal = P * Math.pow(1 + ratePerPeriod, totalPeriods);
-
-        // Future Value of Annuity (Contributions)
-        let fvContributions = 0;
-        if (pmt > 0 && pmtN > 0) {
-             // We need to adjust the rate and periods based on BOTH compounding and contribution frequencies
-             // This can get complex. A common simplification assumes contributions happen at the same frequency as compounding,
-             // or uses a more involved formula for different frequencies.
-             // Let's use a simplified approach: Calculate the effective annual rate (EAR) first.
-              const ear = Math.pow(1 + r_annual / n, n) - 1;
-
-              // Then calculate the rate per contribution period based on EAR
-              const ratePerContribPeriod = Math.pow(1 + ear, 1 / pmtN) - 1;
-              const totalContributionsPeriods = pmtN * t;
-
-              if (ratePerContribPeriod === 0) {
-                 fvContributions = pmt * totalContributionsPeriods;
-             } else {
-                 // FV of Annuity = Pmt * [((1 + i)^m - 1) / i]
-                 fvContributions = pmt * ((Math.pow(1 + ratePerContribPeriod, totalContributionsPeriods) - 1) / ratePerContribPeriod);
-             }
-        }
-
-        const finalValue = fvPrincipal + fvContributions;
+        const finalValue = valueAt(t);
         const totalContribMade = pmt * pmtN * t; // Total contributions over the period
         const totalInterestEarned = finalValue - P - totalContribMade;
         const totalPrincipalAndContributions = P + totalContribMade;
 
+        // Year-end values for the chart, plus the final partial year
+        const points: GrowthPoint[] = [];
+        for (let year = 0; year < t; year++) {
+            points.push(growthPoint(year, valueAt(year), P + pmt * pmtN * year));
+        }
+        points.push(growthPoint(t, finalValue, totalPrincipalAndContributions));
 
         return {
             fv: finalValue,
             interest: totalInterestEarned,
-            contributions: totalPrincipalAndContributions // Includes initial principal
+            contributions: totalPrincipalAndContributions, // Includes initial principal
+            points
         };
     };
 
@@ -176,6 +166,7 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
             setFutureValue(result.fv);
             setTotalInterest(result.interest);
              setTotalContributions(result.contributions);
+            setGrowthPoints(result.points);
 
             const inputString = `Principal: ${formatCurrency(parseFloat(data.principal))}, Rate: ${data.annualRate}%, Years: ${data.years}, Compound: ${data.compoundingFrequency}, Contribution: ${formatCurrency(parseFloat(data.contributionAmount || '0'))} ${data.contributionFrequency}`;
             const resultString = `Future Value: ${formatCurrency(result.fv)}, Total Interest: ${formatCurrency(result.interest)}, Total Principal + Contributions: ${formatCurrency(result.contributions)}`;
@@ -184,6 +175,9 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { futureValue: result.fv, totalInterest: result.interest, totalContributions: result.contributions },
                 input: inputString,
                 result: resultString,
             };
@@ -192,6 +186,7 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
             setFutureValue(null);
             setTotalInterest(null);
             setTotalContributions(null);
+            setGrowthPoints([]);
             console.error("Calculation failed. Check inputs.");
         }
     };
@@ -233,13 +228,14 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -372,6 +368,8 @@ export function CompoundInterestCalculator({ slug, calculatorInfo, onCalculation
                         </AlertDescription>
                     </Alert>
                 )}
+
+                <GrowthChart points={growthPoints} formatCurrency={formatCurrency} />
             </CardContent>
         </Card>
     );
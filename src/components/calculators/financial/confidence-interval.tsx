@@ -12,10 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Sigma, BarChart } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CopyLinkButton } from "../copy-link-button";
 
 // Z-score values for common confidence levels
 const zScores: { [key: string]: number } = {
@@ -133,6 +135,7 @@ export function ConfidenceIntervalCalculator({ slug, calculatorInfo, onCalculati
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [mounted]); // No currency dependency here
+     useFormPrefill(form, mounted);
 
     // Function to calculate Confidence Interval
     const calculateConfidenceInterval = (values: ConfidenceIntervalFormValues): { lower: number; upper: number; moe: number } | null => {
@@ -185,6 +188,9 @@ export function ConfidenceIntervalCalculator({ slug, calculatorInfo, onCalculati
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { lowerBound: result.lower, upperBound: result.upper, marginOfError: result.moe },
                 input: inputString,
                 result: resultString,
             };
@@ -230,13 +236,14 @@ export function ConfidenceIntervalCalculator({ slug, calculatorInfo, onCalculati
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -12,8 +12,10 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, CreditCard, CalendarClock, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
+import { CopyLinkButton } from '../copy-link-button';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
 
 // Zod Schema for Credit Card Payoff Calculator
@@ -85,6 +87,7 @@ export function CreditCardCalculator({ slug, calculatorInfo, onCalculation, favo
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -193,6 +196,9 @@ export function CreditCardCalculator({ slug, calculatorInfo, onCalculation, favo
                     id: Date.now().toString(),
                     calculatorSlug: slug,
                     timestamp: new Date(),
+                    values: data,
+                    calculatorVersion: 1,
+                    outputs: { payoffMonths: result.months, totalInterest: result.interest, totalPaid: result.total },
                     input: inputString,
                     result: resultString,
                 };
@@ -237,13 +243,14 @@ export function CreditCardCalculator({ slug, calculatorInfo, onCalculation, favo
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
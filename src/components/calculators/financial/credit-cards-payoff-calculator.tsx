@@ -12,10 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, CreditCard, ListChecks, PlusCircle, Trash2, CalendarClock, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Sub-schema for a single credit card
 const cardSchema = z.object({
@@ -110,6 +112,7 @@ export function CreditCardsPayoffCalculator({ slug, calculatorInfo, onCalculatio
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -273,6 +276,9 @@ export function CreditCardsPayoffCalculator({ slug, calculatorInfo, onCalculatio
                     id: Date.now().toString(),
                     calculatorSlug: slug,
                     timestamp: new Date(),
+                    values: data,
+                    calculatorVersion: 1,
+                    outputs: { totalMonths: result.totalMonths, totalInterest: result.totalInterest },
                     input: inputString,
                     result: resultString,
                 };
@@ -332,13 +338,14 @@ export function CreditCardsPayoffCalculator({ slug, calculatorInfo, onCalculatio
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
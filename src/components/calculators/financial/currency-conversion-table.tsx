@@ -0,0 +1,95 @@
+'use client';
+
+import * as React from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CURRENCIES } from '@/lib/constants';
+import { quoteFromTable, type RateTable } from '@/services/currency';
+
+/** Currencies listed before the user picks their own. */
+export const DEFAULT_TABLE_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'INR'];
+
+interface CurrencyConversionTableProps {
+    amount: number;
+    from: string;
+    table: RateTable;
+    codes: string[];
+    onCodesChange: (codes: string[]) => void;
+}
+
+/** One amount converted into several currencies with the same rate table. */
+export function CurrencyConversionTable({ amount, from, table, codes, onCodesChange }: CurrencyConversionTableProps) {
+    const rows = codes
+        .filter(code => code !== from)
+        .map(code => {
+            const currency = CURRENCIES.find(c => c.code === code);
+            try {
+                const { rate } = quoteFromTable(table, from, code);
+                return { code, currency, rate, converted: amount * rate };
+            } catch {
+                // Historical tables cover fewer currencies than the latest rates
+                return { code, currency, rate: null, converted: null };
+            }
+        });
+    const available = CURRENCIES.filter(c => c.code !== from && !codes.includes(c.code) && table.rates[c.code]);
+
+    return (
+        <div className="mt-6">
+            <div className="flex items-center justify-between gap-2 mb-3">
+                <h3 className="text-lg font-semibold">{from} in Other Currencies</h3>
+                <Select value="" onValueChange={code => onCodesChange([...codes, code])}>
+                    <SelectTrigger className="h-8 w-40 text-xs" aria-label="Add currency">
+                        <SelectValue placeholder="Add currency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {available.map(c => (
+                            <SelectItem key={c.code} value={c.code}>
+                                ({c.symbol}) {c.code} - {c.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Currency</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="w-8"><span className="sr-only">Remove</span></TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {rows.map(row => (
+                        <TableRow key={row.code}>
+                            <TableCell>
+                                <span className="font-medium">{row.code}</span>
+                                {row.currency && <span className="text-muted-foreground"> {row.currency.name}</span>}
+                            </TableCell>
+                            <TableCell className="text-right">{row.rate === null ? 'N/A' : row.rate.toPrecision(6)}</TableCell>
+                            <TableCell className="text-right font-semibold">
+                                {row.converted === null
+                                    ? 'N/A'
+                                    : `${row.currency?.symbol ?? ''}${row.converted.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                            </TableCell>
+                            <TableCell>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    onClick={() => onCodesChange(codes.filter(code => code !== row.code))}
+                                    aria-label={`Remove ${row.code}`}
+                                >
+                                    <X className="h-3 w-3" />
+                                </Button>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
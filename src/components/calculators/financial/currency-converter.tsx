@@ -8,17 +8,21 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Calculator, Star, Coins, ArrowRightLeft } from 'lucide-react';
+import { Calculator, Star, Coins, ArrowRightLeft, RefreshCw } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { CURRENCIES } from '@/lib/constants'; // Import currency list
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
-// Assuming a service exists for conversion - replace with actual implementation if needed
-// import { convertCurrency } from '@/services/currency';
+import { getExchangeRates, getRatesOn, quoteFromTable, RateUnavailableError, toDayKey, type RateQuote, type RateTable } from '@/services/currency';
+import { format, parseISO } from 'date-fns';
+import { CurrencyConversionTable, DEFAULT_TABLE_CURRENCIES } from './currency-conversion-table';
+import { CurrencyHistoryChart } from './currency-history-chart';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Currency Converter
 const currencyConverterSchema = z.object({
@@ -27,10 +31,17 @@ const currencyConverterSchema = z.object({
     }),
     fromCurrency: z.string().length(3, "Select 'From' currency"),
     toCurrency: z.string().length(3, "Select 'To' currency"),
+    // Blank converts at the latest rates. Rate days are UTC, so "today" is too.
+    date: z.string()
+        .refine(val => val === '' || !isNaN(Date.parse(val)), { message: "Enter a valid date." })
+        .refine(val => val === '' || val <= toDayKey(new Date()), { message: "Date cannot be in the future." }),
 });
 
 type CurrencyConverterFormValues = z.infer<typeof currencyConverterSchema>;
 
+/** Historical quotes are stamped at UTC midnight, so show their day rather than that instant in local time. */
+const quoteDate = (quote: RateQuote, historical: boolean) => (historical ? parseISO(quote.timestamp.slice(0, 10)) : new Date(quote.timestamp));
+
 interface CurrencyConverterProps {
     slug: string;
     calculatorInfo: CalculatorInfo;
@@ -43,7 +54,11 @@ interface CurrencyConverterProps {
 export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: CurrencyConverterProps) {
     const [convertedAmount, setConvertedAmount] = React.useState<number | null>(null);
     const [conversionRate, setConversionRate] = React.useState<number | null>(null);
-    const [isLoading, setIsLoading] = React.useState(false); // For potential API calls
+    const [quote, setQuote] = React.useState<RateQuote | null>(null);
+    const [rateTable, setRateTable] = React.useState<RateTable | null>(null);
+    const [convertedFrom, setConvertedFrom] = React.useState<{ amount: number; date: string } | null>(null);
+    const [tableCurrencies, setTableCurrencies] = React.useState<string[]>(DEFAULT_TABLE_CURRENCIES);
+    const [isLoading, setIsLoading] = React.useState(false);
      const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -69,6 +84,7 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
             amount: '',
             fromCurrency: currency.code, // Default 'from' to global setting
             toCurrency: CURRENCIES.find(c => c.code !== currency.code)?.code || 'EUR', // Default 'to' to something different
+            date: '',
         },
     });
 
@@ -81,77 +97,96 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
                  toCurrency: form.getValues('toCurrency') === currency.code
                     ? CURRENCIES.find(c => c.code !== currency.code)?.code || 'EUR' // Change 'to' if it matches new 'from'
                     : form.getValues('toCurrency') || 'EUR',
+                 date: form.getValues('date') || '',
             });
-             setConvertedAmount(null);
-             setConversionRate(null);
+             clearResult();
              form.clearErrors();
         }
      // eslint-disable-next-line react-hooks/exhaustive-deps
      }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
+
+    const clearResult = () => {
+        setConvertedAmount(null);
+        setConversionRate(null);
+        setQuote(null);
+        setRateTable(null);
+        setConvertedFrom(null);
+    };
 
       const getCurrencySymbol = (code: string): string => {
          return CURRENCIES.find(c => c.code === code)?.symbol || '$';
      };
 
-    // --- Mock Conversion Logic ---
-    // Replace this with actual API call in production
-    const performConversion = async (values: CurrencyConverterFormValues): Promise<{ amount: number; rate: number } | null> => {
+    const formatCurrency = (value: number, code: string): string => {
+        return `${getCurrencySymbol(code)}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+    };
+
+    // Rates come from the rate service (live provider, stored history, local cache or bundled file)
+    const performConversion = async (values: CurrencyConverterFormValues, forceRefresh = false): Promise<{ amount: number; quote: RateQuote; table: RateTable } | string> => {
         setIsLoading(true);
         try {
             const amount = parseFloat(values.amount);
-            const from = CURRENCIES.find(c => c.code === values.fromCurrency);
-            const to = CURRENCIES.find(c => c.code === values.toCurrency);
-
-            if (!from || !to || isNaN(amount)) {
-                console.error("Invalid input for conversion");
-                return null;
+            if (isNaN(amount)) {
+                return "Amount must be a number.";
             }
 
-            // Use mock rates from constants.ts for calculation
-            const rate = (1 / from.rate) * to.rate; // Calculate rate based on USD base
-            const result = amount * rate;
-
-            // Simulate API delay
-            // await new Promise(resolve => setTimeout(resolve, 500));
-
-            return { amount: result, rate: rate };
+            const table = values.date ? await getRatesOn(values.date, { forceRefresh }) : await getExchangeRates({ forceRefresh });
+            const rateQuote = quoteFromTable(table, values.fromCurrency, values.toCurrency);
+            return { amount: amount * rateQuote.rate, quote: rateQuote, table };
         } catch (error) {
             console.error("Conversion error:", error);
-            return null;
+            if (error instanceof RangeError) {
+                return values.date
+                    ? `No ${values.fromCurrency}/${values.toCurrency} rate is available for ${format(new Date(`${values.date}T00:00:00`), 'PP')}.`
+                    : `No ${values.fromCurrency}/${values.toCurrency} rate is available.`;
+            }
+            return error instanceof RateUnavailableError && values.date
+                ? "Historical rates are unavailable for that date. Check your connection or try another date."
+                : "Exchange rates are unavailable right now. Check your connection and try again.";
         } finally {
             setIsLoading(false);
         }
     };
 
-    const onSubmit: SubmitHandler<CurrencyConverterFormValues> = async (data) => {
-        const result = await performConversion(data);
-        if (result) {
+    const convert = async (data: CurrencyConverterFormValues, forceRefresh = false) => {
+        const result = await performConversion(data, forceRefresh);
+        if (typeof result !== 'string') {
             setConvertedAmount(result.amount);
-            setConversionRate(result.rate);
+            setConversionRate(result.quote.rate);
+            setQuote(result.quote);
+            setRateTable(result.table);
+            setConvertedFrom({ amount: parseFloat(data.amount), date: data.date });
 
             const fromSymbol = getCurrencySymbol(data.fromCurrency);
             const toSymbol = getCurrencySymbol(data.toCurrency);
             const amountIn = `${fromSymbol}${parseFloat(data.amount).toLocaleString()}`;
 
 
-             const inputString = `Amount: ${amountIn} ${data.fromCurrency}, To: ${data.toCurrency}`;
-             const resultString = `Converted Amount: ${toSymbol}${result.amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 4})} ${data.toCurrency} (Rate: ≈${result.rate.toFixed(5)})`; // Show more precision for rate
+             const inputString = `Amount: ${amountIn} ${data.fromCurrency}, To: ${data.toCurrency}${data.date ? `, Date: ${data.date}` : ''}`;
+             const resultString = `Converted Amount: ${toSymbol}${result.amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 4})} ${data.toCurrency} (Rate: ≈${result.quote.rate.toFixed(5)}, as of ${format(quoteDate(result.quote, !!data.date), 'PP')})`; // Show more precision for rate
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { convertedAmount: result.amount, rate: result.quote.rate, ratesAsOf: result.quote.timestamp },
                 input: inputString,
                 result: resultString,
             };
             onCalculation(historyEntry);
         } else {
-            setConvertedAmount(null);
-            setConversionRate(null);
-             form.setError("root", {message: "Failed to perform conversion."})
+            clearResult();
+             form.setError("root", {message: result})
         }
     };
 
+    const onSubmit: SubmitHandler<CurrencyConverterFormValues> = (data) => convert(data);
+
+    const handleRefresh = () => form.handleSubmit(data => convert(data, true))();
+
      const handleSwap = () => {
         const from = form.watch('fromCurrency');
         const to = form.watch('toCurrency');
@@ -159,8 +194,7 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
         form.setValue('toCurrency', from);
         // Optionally trigger recalculation immediately
         // form.handleSubmit(onSubmit)(); // Uncomment to recalculate on swap
-         setConvertedAmount(null); // Clear result on swap
-         setConversionRate(null);
+         clearResult(); // Clear result on swap
     };
 
      // Skeleton Loader
@@ -182,6 +216,7 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
                          <Skeleton className="h-8 w-8 rounded-full" /> {/* Swap button skeleton */}
                          <Skeleton className="h-10 flex-1" />
                      </div>
+                     <Skeleton className="h-10 w-full" /> {/* Date Skeleton */}
                      <Skeleton className="h-10 w-full" /> {/* Button Skeleton */}
                      <Skeleton className="mt-6 h-20 w-full" /> {/* Result Skeleton */}
                  </CardContent>
@@ -195,13 +230,14 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -284,6 +320,21 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
                             />
                         </div>
 
+                        <FormField
+                            control={form.control}
+                            name="date"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Rate Date (optional)</FormLabel>
+                                    <FormControl>
+                                        <Input type="date" max={toDayKey(new Date())} {...field} />
+                                    </FormControl>
+                                    <FormDescription>Leave blank to use the latest rates.</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
                         {form.formState.errors.root && (
                              <FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>
                          )}
@@ -294,21 +345,46 @@ export function CurrencyConverter({ slug, calculatorInfo, onCalculation, favorit
                     </form>
                 </Form>
 
-                {convertedAmount !== null && conversionRate !== null && !isLoading && (
+                {convertedAmount !== null && conversionRate !== null && quote && !isLoading && (
                     <Alert className="mt-6">
                          <Coins className="h-4 w-4" />
                          <AlertTitle>Conversion Result</AlertTitle>
                          <AlertDescription>
                             <p className="font-semibold text-lg">
-                                 {formatCurrency(convertedAmount)} {form.watch('toCurrency')}
+                                 {formatCurrency(convertedAmount, quote.to)} {quote.to}
                             </p>
                              <p className="text-xs text-muted-foreground">
-                                Based on an approximate rate of 1 {form.watch('fromCurrency')} ≈ {conversionRate.toFixed(5)} {form.watch('toCurrency')}.
-                                (Using stored rates, not live data)
+                                1 {quote.from} ≈ {conversionRate.toFixed(5)} {quote.to}. Rates as of {format(quoteDate(quote, !!convertedFrom?.date), convertedFrom?.date ? 'PP' : 'PPp')} ({quote.source}).
                              </p>
+                             {convertedFrom?.date && quote.timestamp.slice(0, 10) !== convertedFrom.date && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    No rates were published on the selected date, so the previous available rates were used.
+                                </p>
+                             )}
+                             {quote.stale && (
+                                <p className="text-xs text-destructive mt-1">
+                                    These rates may be out of date. Refresh to try fetching the latest rates.
+                                </p>
+                             )}
+                             <Button type="button" variant="link" size="sm" className="h-auto p-0 mt-1 text-xs" onClick={handleRefresh}>
+                                <RefreshCw className="mr-1 h-3 w-3" /> Refresh rates
+                             </Button>
                         </AlertDescription>
                     </Alert>
                 )}
+
+                {quote && rateTable && convertedFrom && !isLoading && (
+                    <>
+                        <CurrencyConversionTable
+                            amount={convertedFrom.amount}
+                            from={quote.from}
+                            table={rateTable}
+                            codes={tableCurrencies}
+                            onCodesChange={setTableCurrencies}
+                        />
+                        <CurrencyHistoryChart from={quote.from} to={quote.to} endDate={convertedFrom.date || undefined} />
+                    </>
+                )}
             </CardContent>
         </Card>
     );
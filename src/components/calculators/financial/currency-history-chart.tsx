@@ -0,0 +1,110 @@
+'use client';
+
+import * as React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { getPairHistory, shiftDay, toDayKey, type PairHistory } from '@/services/currency';
+
+const RANGES = [
+    { label: '1M', days: 30 },
+    { label: '3M', days: 91 },
+    { label: '6M', days: 182 },
+    { label: '1Y', days: 365 },
+];
+
+interface CurrencyHistoryChartProps {
+    from: string;
+    to: string;
+    /** Last day shown (YYYY-MM-DD). Defaults to today in UTC. */
+    endDate?: string;
+}
+
+/** Small line chart of a currency pair's daily rate over a selectable range. */
+export function CurrencyHistoryChart({ from, to, endDate }: CurrencyHistoryChartProps) {
+    const [rangeDays, setRangeDays] = React.useState(RANGES[0].days);
+    const [history, setHistory] = React.useState<PairHistory | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+    const [isLoading, setIsLoading] = React.useState(false);
+
+    React.useEffect(() => {
+        let cancelled = false;
+        // Rate days are UTC, so the range is counted in UTC days too
+        const end = endDate || toDayKey(new Date());
+
+        setIsLoading(true);
+        setError(null);
+        getPairHistory(from, to, shiftDay(end, -rangeDays), end)
+            .then(result => {
+                if (!cancelled) setHistory(result);
+            })
+            .catch(fetchError => {
+                console.error('Rate history error:', fetchError);
+                if (!cancelled) {
+                    setHistory(null);
+                    setError('Historical rates are unavailable right now.');
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [from, to, endDate, rangeDays]);
+
+    const config = { rate: { label: `${from}/${to}`, color: 'hsl(var(--chart-1))' } } satisfies ChartConfig;
+    const points = history?.points ?? [];
+    const first = points[0];
+    const last = points[points.length - 1];
+    const change = first && last ? ((last.rate - first.rate) / first.rate) * 100 : null;
+
+    return (
+        <div className="mt-6">
+            <div className="flex items-center justify-between gap-2 mb-3">
+                <h3 className="text-lg font-semibold">{from}/{to} History</h3>
+                <div className="flex gap-1" role="group" aria-label="History range">
+                    {RANGES.map(range => (
+                        <Button
+                            key={range.label}
+                            type="button"
+                            size="sm"
+                            variant={range.days === rangeDays ? 'secondary' : 'ghost'}
+                            className="h-7 px-2 text-xs"
+                            aria-pressed={range.days === rangeDays}
+                            onClick={() => setRangeDays(range.days)}
+                        >
+                            {range.label}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            {isLoading ? (
+                <Skeleton className="h-48 w-full" />
+            ) : error ? (
+                <p className="text-sm text-destructive">{error}</p>
+            ) : points.length < 2 ? (
+                <p className="text-sm text-muted-foreground">No rate history is available for {from}/{to} in this range.</p>
+            ) : (
+                <>
+                    <ChartContainer config={config} className="h-48 w-full">
+                        <LineChart data={points} margin={{ left: 12, right: 12 }}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={(date: string) => format(parseISO(date), 'MMM d')} />
+                            <YAxis tickLine={false} axisLine={false} width={72} domain={['auto', 'auto']} tickFormatter={(rate: number) => rate.toPrecision(4)} />
+                            <ChartTooltip content={<ChartTooltipContent labelFormatter={(date: string) => format(parseISO(date), 'PP')} />} />
+                            <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot={false} />
+                        </LineChart>
+                    </ChartContainer>
+                    <p className="text-xs text-muted-foreground mt-2">
+                        {change !== null && <>{change >= 0 ? '+' : ''}{change.toFixed(2)}% over the period. </>}
+                        Source: {history?.source}{history?.fromCache ? ' (stored)' : ''}.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, WalletCards, PlusCircle, Trash2, Scaling, CheckCircle, XCircle } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Sub-schema for individual debts
 const debtSchema = z.object({
@@ -120,6 +123,7 @@ export function DebtConsolidationCalculator({ slug, calculatorInfo, onCalculatio
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -185,11 +189,7 @@ export function DebtConsolidationCalculator({ slug, calculatorInfo, onCalculatio
         if (loanAmount <= 0 || annualRate < 0 || termYears <= 0) return null;
 
          let monthlyPaymentCalc: number;
-          if (monthlyRate === 0) {
-             monthlyPaymentCalc = loanAmount / numberOfPayments;
-         } else {
-             monthlyPaymentCalc = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-         }
+          monthlyPaymentCalc = loanPayment(loanAmount, monthlyRate, numberOfPayments);
 
          const totalPaidCalc = monthlyPaymentCalc * numberOfPayments; // Approximation, final payment might differ slightly
          const totalInterestCalc = totalPaidCalc - loanAmount;
@@ -291,6 +291,9 @@ export function DebtConsolidationCalculator({ slug, calculatorInfo, onCalculatio
                      id: Date.now().toString(),
                      calculatorSlug: slug,
                      timestamp: new Date(),
+                     values: data,
+                     calculatorVersion: 1,
+                     outputs: { consolidatedMonthlyPayment: consResult.monthlyPayment, consolidatedTotalInterest: consResult.totalInterest, currentTotalInterest, interestSaved },
                      input: inputString,
                      result: resultString,
                  };
@@ -355,13 +358,14 @@ export function DebtConsolidationCalculator({ slug, calculatorInfo, onCalculatio
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -13,10 +13,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, WalletCards, ListChecks, PlusCircle, Trash2, CalendarClock, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { ScheduleExport } from '@/lib/schedule-export';
+import { ScheduleExportButtons } from '../schedule-export-buttons';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Sub-schema for a single debt item
 const debtItemSchema = z.object({
@@ -52,11 +56,22 @@ interface DebtPayoffCalculatorProps {
     currency: CurrencyData;
 }
 
+// One debt's payment in one month of the plan
+interface PayoffTimelineRow {
+    month: number;
+    name: string;
+    payment: number;
+    interest: number;
+    principal: number;
+    balance: number;
+}
+
 interface PayoffResult {
     totalMonths: number;
     totalInterest: number;
     totalPaid: number;
     payoffOrder: { name: string; months: number }[];
+    timeline: PayoffTimelineRow[];
      warning?: string | null;
 }
 
@@ -109,6 +124,7 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -137,7 +153,7 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
         for (const debt of debts) {
              const interestThisMonth = debt.balance * debt.monthlyRate;
              if (debt.minimumPayment <= interestThisMonth && debt.monthlyRate > 0) {
-                 return { totalMonths: Infinity, totalInterest: Infinity, totalPaid: Infinity, payoffOrder: [], warning: `Minimum payment (${formatCurrency(debt.minimumPayment)}) for '${debt.name}' doesn't cover first month's interest (${formatCurrency(interestThisMonth)}). Payoff impossible.` };
+                 return { totalMonths: Infinity, totalInterest: Infinity, totalPaid: Infinity, payoffOrder: [], timeline: [], warning: `Minimum payment (${formatCurrency(debt.minimumPayment)}) for '${debt.name}' doesn't cover first month's interest (${formatCurrency(interestThisMonth)}). Payoff impossible.` };
              }
         }
 
@@ -152,6 +168,7 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
         let totalInterestPaid = 0;
         let remainingDebts = [...debts];
         const payoffOrder: { name: string; months: number }[] = [];
+        const timeline: PayoffTimelineRow[] = [];
         const MAX_MONTHS = 12 * 100; // 100 year limit
         let totalPaidTowardsPrincipalAndInterest = 0;
 
@@ -191,6 +208,14 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
                  debt.balance -= principalPaid;
                  paymentAvailable -= paymentForDebt;
                  paymentAppliedThisMonth += paymentForDebt;
+                 timeline.push({
+                     month: months,
+                     name: debt.name,
+                     payment: paymentForDebt,
+                     interest: interestForMonth,
+                     principal: principalPaid,
+                     balance: debt.balance < 0.005 ? 0 : debt.balance,
+                 });
 
 
                  if (debt.balance < 0.005) {
@@ -224,7 +249,7 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
 
 
         if (months >= MAX_MONTHS) {
-             return { totalMonths: Infinity, totalInterest: Infinity, totalPaid: Infinity, payoffOrder, warning: `Payoff takes longer than ${MAX_MONTHS/12} years. Increase monthly payment or check minimums.` };
+             return { totalMonths: Infinity, totalInterest: Infinity, totalPaid: Infinity, payoffOrder, timeline, warning: `Payoff takes longer than ${MAX_MONTHS/12} years. Increase monthly payment or check minimums.` };
         }
 
          // Calculate total paid more accurately
@@ -238,6 +263,7 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
             totalInterest: totalInterestPaid,
             totalPaid: totalPaidCalc,
             payoffOrder: payoffOrder,
+            timeline,
              warning: null
         };
     };
@@ -258,6 +284,9 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
                     id: Date.now().toString(),
                     calculatorSlug: slug,
                     timestamp: new Date(),
+                    values: data,
+                    calculatorVersion: 1,
+                    outputs: { totalMonths: result.totalMonths, totalInterest: result.totalInterest },
                     input: inputString,
                     result: resultString,
                 };
@@ -270,6 +299,32 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
         }
     };
 
+    // Month-by-month payments to every debt, for spreadsheets
+    const timelineExport = (result: PayoffResult): ScheduleExport => {
+        const values = form.getValues();
+        return {
+            title: 'Debt Payoff Timeline',
+            currency,
+            columns: [
+                { header: 'Month', format: 'integer' },
+                { header: 'Debt', format: 'text' },
+                { header: 'Payment', format: 'currency' },
+                { header: 'Interest', format: 'currency' },
+                { header: 'Principal', format: 'currency' },
+                { header: 'Remaining Balance', format: 'currency' },
+            ],
+            rows: result.timeline.map(row => [row.month, row.name, row.payment, row.interest, row.principal, row.balance]),
+            summary: [
+                { label: 'Strategy', value: values.payoffStrategy, format: 'text' },
+                { label: 'Additional Monthly Payment', value: parseFloat(values.additionalPayment || '0'), format: 'currency' },
+                { label: 'Total Payoff Time (months)', value: result.totalMonths, format: 'integer' },
+                { label: 'Total Interest Paid', value: result.totalInterest, format: 'currency' },
+                { label: 'Total Amount Paid', value: result.totalPaid, format: 'currency' },
+                ...result.payoffOrder.map(item => ({ label: `${item.name} paid off (month)`, value: item.months, format: 'integer' as const })),
+            ],
+        };
+    };
+
      // Skeleton Loader (similar to Credit Cards Payoff)
     if (!mounted) {
         return (
@@ -307,13 +362,14 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
                 <Button
                     variant="ghost"
                     size="icon"
-                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")}
+                    className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")}
                     onClick={toggleFavorite}
                     aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}
                 >
                     <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
                 </Button>
-                <CardTitle className="flex items-center gap-2 pr-10">
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20">
                     <Icon className="h-6 w-6 text-primary" />
                     {name}
                 </CardTitle>
@@ -401,6 +457,10 @@ export function DebtPayoffCalculator({ slug, calculatorInfo, onCalculation, favo
                                     ))}
                                 </ul>
                             </div>
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                                <span className="text-xs text-muted-foreground">Export the month-by-month timeline:</span>
+                                <ScheduleExportButtons build={() => timelineExport(payoffResult)} />
+                            </div>
                         </AlertDescription>
                     </Alert>
                 )}
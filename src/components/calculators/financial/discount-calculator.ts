@@ -0,0 +1,21 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+// Also serves the Percent Off calculator, which is the same calculation under a different name.
+export const discountCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'originalPrice', label: 'Original Price', kind: 'currency', placeholder: 'e.g., 100', min: 0 },
+        { name: 'discountPercent', label: 'Discount Percentage', kind: 'percent', placeholder: 'e.g., 20', min: 0 },
+    ],
+    outputs: [
+        { name: 'finalPrice', label: 'Final Price', format: 'currency', primary: true },
+        { name: 'amountSaved', label: 'Amount Saved', format: 'currency' },
+    ],
+    submitLabel: 'Calculate Discount',
+    resultTitle: ({ currency }) => `Discount Calculation (${currency.code})`,
+    compute: (input) => {
+        const price = input.number('originalPrice');
+        const saved = price * input.number('discountPercent') / 100;
+        return { outputs: { finalPrice: price - saved, amountSaved: saved } };
+    },
+});
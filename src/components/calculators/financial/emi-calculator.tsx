@@ -3,7 +3,7 @@
 // Equivalent to Loan Payment Calculator, just a different name often used in India/Asia.
 // We can reuse the LoanPaymentCalculator logic.
 import * as React from 'react';
-import { LoanPaymentCalculator as EmiCalc } from './loan-payment-calculator'; // Correct import path and rename
+import { LoanPaymentCalculator as EmiCalc } from '../loan-payment-calculator'; // Correct import path and rename
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
@@ -8,34 +8,71 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Calculator, Star, Landmark, Receipt } from 'lucide-react';
+import { Calculator, Star, Landmark, Receipt, ListChecks } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { BASIC_EXCLUSION_AMOUNT, ESTATE_TAX_YEARS, STATE_ESTATE_TAX_YEAR, US_STATE_ESTATE_TAX, computeEstateTax, type EstateTaxResult } from '@/lib/tax';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Note: Estate tax laws are VERY complex, vary significantly by jurisdiction (country/state),
-// and change over time. This calculator provides a highly simplified estimate based on a
-// single exemption amount and a flat tax rate above that exemption.
+// and change over time. This calculator follows the US federal Form 706 computation with the
+// graduated rate schedule, lifetime gifts and portability, plus a few state estate taxes.
 // THIS IS FOR ILLUSTRATIVE PURPOSES ONLY AND NOT FINANCIAL/LEGAL ADVICE.
 
-// Zod Schema for Simplified Estate Tax Calculator
+const amount = (message: string) => z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), { message }).optional().default('');
+
+const NO_STATE = 'none';
+
+// Zod Schema for the Estate Tax Calculator
 const estateTaxSchema = z.object({
+    taxYear: z.string().default(ESTATE_TAX_YEARS[0]),
+    state: z.string().default(NO_STATE),
     grossEstateValue: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
         message: "Gross estate value must be zero or positive.",
     }),
-    estateTaxExemption: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
-        message: "Tax exemption amount must be zero or positive.",
-    }),
-    estateTaxRate: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
-        message: "Tax rate must be between 0 and 100.",
-    }),
+    debtsAndExpenses: amount("Debts and expenses must be zero or positive."),
+    maritalDeduction: amount("Marital deduction must be zero or positive."),
+    charitableDeduction: amount("Charitable deduction must be zero or positive."),
+    lifetimeTaxableGifts: amount("Lifetime gifts must be zero or positive."),
+    giftTaxPaid: amount("Gift tax paid must be zero or positive."),
+    dsueAmount: amount("DSUE amount must be zero or positive."),
+}).superRefine((values, ctx) => {
+    const exclusion = BASIC_EXCLUSION_AMOUNT[values.taxYear];
+    if (exclusion === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['taxYear'], message: "No exclusion amount for that year." });
+    } else if (parseFloat(values.dsueAmount || '0') > exclusion) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dsueAmount'], message: `DSUE cannot exceed the ${values.taxYear} basic exclusion of ${exclusion.toLocaleString()}.` });
+    }
 });
 
 type EstateTaxFormValues = z.infer<typeof estateTaxSchema>;
 
+const ESTATE_TAX_DEFAULTS: EstateTaxFormValues = {
+    taxYear: ESTATE_TAX_YEARS[0],
+    state: NO_STATE,
+    grossEstateValue: '',
+    debtsAndExpenses: '',
+    maritalDeduction: '',
+    charitableDeduction: '',
+    lifetimeTaxableGifts: '',
+    giftTaxPaid: '',
+    dsueAmount: '',
+};
+
+interface EstateTaxLine {
+    label: string;
+    amount: number;
+    /** Subtotals and results are shown bold; deductions and credits are indented. */
+    kind: 'line' | 'less' | 'plus' | 'subtotal' | 'total';
+}
+
 interface EstateTaxCalculatorProps {
     slug: string;
     calculatorInfo: CalculatorInfo;
@@ -46,19 +83,12 @@ interface EstateTaxCalculatorProps {
 }
 
 export function EstateTaxCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: EstateTaxCalculatorProps) {
-    const [taxableEstate, setTaxableEstate] = React.useState<number | null>(null);
-    const [estimatedTax, setEstimatedTax] = React.useState<number | null>(null);
+    const [estimate, setEstimate] = React.useState<{ result: EstateTaxResult; lines: EstateTaxLine[] } | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
     const isFavorite = favorites.includes(slug);
 
-    // Example US Federal Estate Tax Exemption for 2024 (approx) - Update as needed
-    const defaultExemption = 13_610_000;
-    // Example max US Federal Estate Tax Rate (approx) - Update as needed
-    const defaultRate = 40;
-
-
      React.useEffect(() => {
         setMounted(true);
     }, []);
@@ -75,28 +105,19 @@ export function EstateTaxCalculator({ slug, calculatorInfo, onCalculation, favor
 
     const form = useForm<EstateTaxFormValues>({
         resolver: zodResolver(estateTaxSchema),
-        defaultValues: {
-            grossEstateValue: '',
-            // Use default values, converting to string for the form
-            estateTaxExemption: defaultExemption.toString(),
-            estateTaxRate: defaultRate.toString(),
-        },
+        defaultValues: ESTATE_TAX_DEFAULTS,
     });
 
      React.useEffect(() => {
         if (mounted) {
              // Reset with defaults when currency changes (though calculation isn't currency specific, amounts are)
-            form.reset({
-                 grossEstateValue: '',
-                 estateTaxExemption: defaultExemption.toString(),
-                 estateTaxRate: defaultRate.toString(),
-            });
-            setTaxableEstate(null);
-            setEstimatedTax(null);
+            form.reset(ESTATE_TAX_DEFAULTS);
+            setEstimate(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
 
     const formatCurrency = React.useCallback((value: number | null) => {
@@ -104,41 +125,81 @@ export function EstateTaxCalculator({ slug, calculatorInfo, onCalculation, favor
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    const calculateEstateTax = (values: EstateTaxFormValues): { taxable: number; tax: number } | null => {
+    const calculateEstateTax = (values: EstateTaxFormValues): { result: EstateTaxResult; lines: EstateTaxLine[] } | null => {
+        const value = (field: string | undefined) => parseFloat(field || '0');
         const grossValue = parseFloat(values.grossEstateValue);
-        const exemption = parseFloat(values.estateTaxExemption);
-        const rate = parseFloat(values.estateTaxRate) / 100;
 
-        if (isNaN(grossValue) || grossValue < 0 || isNaN(exemption) || exemption < 0 || isNaN(rate) || rate < 0 || rate > 1) {
+        if (isNaN(grossValue) || grossValue < 0) {
+            return null;
+        }
+
+        let result: EstateTaxResult;
+        try {
+            result = computeEstateTax({
+                year: values.taxYear,
+                grossEstate: grossValue,
+                debtsAndExpenses: value(values.debtsAndExpenses),
+                maritalDeduction: value(values.maritalDeduction),
+                charitableDeduction: value(values.charitableDeduction),
+                adjustedTaxableGifts: value(values.lifetimeTaxableGifts),
+                giftTaxPaid: value(values.giftTaxPaid),
+                dsue: value(values.dsueAmount),
+                state: values.state === NO_STATE ? null : values.state,
+            });
+        } catch (error) {
+            console.error("Estate tax calculation failed:", error);
             return null;
         }
 
-        const taxableAmount = Math.max(0, grossValue - exemption);
-        const taxAmount = taxableAmount * rate;
+        const state = US_STATE_ESTATE_TAX[values.state];
+        const lines: EstateTaxLine[] = [
+            { label: 'Gross Estate', amount: result.grossEstate, kind: 'line' },
+            { label: 'Debts, Funeral & Administration Expenses', amount: value(values.debtsAndExpenses), kind: 'less' },
+            { label: 'Marital Deduction', amount: value(values.maritalDeduction), kind: 'less' },
+            { label: 'Charitable Deduction', amount: value(values.charitableDeduction), kind: 'less' },
+            { label: 'Estate After Deductions', amount: result.netEstate, kind: 'subtotal' },
+            ...(state ? [
+                { label: `${state.name} Estate Tax (exemption ${formatCurrency(result.stateExemption)})`, amount: result.stateTax, kind: 'line' as const },
+                { label: 'State Death Tax Deduction', amount: result.stateTax, kind: 'less' as const },
+            ] : []),
+            { label: 'Federal Taxable Estate', amount: result.taxableEstate, kind: 'subtotal' },
+            { label: 'Adjusted Taxable Gifts', amount: result.adjustedTaxableGifts, kind: 'plus' },
+            { label: 'Tax Base', amount: result.taxBase, kind: 'subtotal' },
+            { label: 'Tentative Tax (Graduated Schedule)', amount: result.tentativeTax, kind: 'line' },
+            { label: 'Gift Tax Paid', amount: result.giftTaxPaid, kind: 'less' },
+            { label: `Applicable Credit on ${formatCurrency(result.basicExclusion + result.dsue)} Exclusion${result.dsue > 0 ? ` (incl. ${formatCurrency(result.dsue)} DSUE)` : ''}`, amount: result.applicableCredit, kind: 'less' },
+            { label: 'Federal Estate Tax', amount: result.federalTax, kind: 'subtotal' },
+            ...(state ? [{ label: `${state.name} Estate Tax`, amount: result.stateTax, kind: 'plus' as const }] : []),
+            { label: 'Total Estimated Estate Tax', amount: result.totalTax, kind: 'total' },
+        ];
 
-        return { taxable: taxableAmount, tax: taxAmount };
+        // Keep zero deductions and additions out of the way
+        return { result, lines: lines.filter(line => (line.kind !== 'less' && line.kind !== 'plus') || line.amount > 0) };
     };
 
     const onSubmit: SubmitHandler<EstateTaxFormValues> = (data) => {
-        const result = calculateEstateTax(data);
-        if (result) {
-            setTaxableEstate(result.taxable);
-            setEstimatedTax(result.tax);
+        const calculated = calculateEstateTax(data);
+        if (calculated) {
+            const { result } = calculated;
+            setEstimate(calculated);
 
-            const inputString = `Gross Estate: ${formatCurrency(parseFloat(data.grossEstateValue))}, Exemption: ${formatCurrency(parseFloat(data.estateTaxExemption))}, Rate: ${data.estateTaxRate}%`;
-            const resultString = `Taxable Estate: ${formatCurrency(result.taxable)}, Estimated Estate Tax: ${formatCurrency(result.tax)}`;
+            const state = US_STATE_ESTATE_TAX[data.state]?.name ?? 'None';
+            const inputString = `Year: ${data.taxYear}, Gross Estate: ${formatCurrency(result.grossEstate)}, Deductions: ${formatCurrency(result.deductions)}, Lifetime Gifts: ${formatCurrency(result.adjustedTaxableGifts)}, DSUE: ${formatCurrency(result.dsue)}, State: ${state}`;
+            const resultString = `Taxable Estate: ${formatCurrency(result.taxableEstate)}, Federal Estate Tax: ${formatCurrency(result.federalTax)}, State Estate Tax: ${formatCurrency(result.stateTax)}, Total: ${formatCurrency(result.totalTax)}`;
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 2,
+                outputs: { taxableEstate: result.taxableEstate, estimatedTax: result.totalTax, federalTax: result.federalTax, stateTax: result.stateTax, remainingExclusion: result.remainingExclusion },
                 input: inputString,
                 result: resultString,
             };
             onCalculation(historyEntry);
         } else {
-            setTaxableEstate(null);
-            setEstimatedTax(null);
+            setEstimate(null);
              form.setError("root", {message: "Calculation failed. Check inputs."})
             console.error("Calculation failed. Check inputs.");
         }
@@ -147,16 +208,23 @@ export function EstateTaxCalculator({ slug, calculatorInfo, onCalculation, favor
      // Skeleton Loader
     if (!mounted) {
         return (
-            <Card className="w-full max-w-lg mx-auto">
+            <Card className="w-full max-w-2xl mx-auto">
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
                     <Skeleton className="h-4 w-full" />
                 </CardHeader>
                 <CardContent className="space-y-6">
-                     <Skeleton className="h-10 w-full" />
-                     <Skeleton className="h-10 w-full" />
-                     <Skeleton className="h-10 w-full" />
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
+                     </div>
                      <Skeleton className="h-10 w-full" /> {/* Button Skeleton */}
                      <Skeleton className="mt-6 h-20 w-full" /> {/* Result Skeleton */}
                      <Skeleton className="h-10 w-full" /> {/* Disclaimer Skeleton */}
@@ -167,18 +235,27 @@ export function EstateTaxCalculator({ slug, calculatorInfo, onCalculation, favor
 
 
     return (
-        <Card className="w-full max-w-lg mx-auto">
+        <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
                  <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                        <FormField control={form.control} name="grossEstateValue" render={({ field }) => (<FormItem><FormLabel>Gross Estate Value ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 15000000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
-                        <FormField control={form.control} name="estateTaxExemption" render={({ field }) => (<FormItem><FormLabel>Estate Tax Exemption ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 13610000" {...field} step="any" min="0" /></FormControl><FormDescription className="text-xs">Varies by jurisdiction & year. Example: US Federal 2024.</FormDescription><FormMessage /></FormItem>)} />
-                        <FormField control={form.control} name="estateTaxRate" render={({ field }) => (<FormItem><FormLabel>Estate Tax Rate (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 40" {...field} step="any" min="0" max="100" /></FormControl><FormDescription className="text-xs">Simplified flat rate above exemption.</FormDescription><FormMessage /></FormItem>)} />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <FormField control={form.control} name="taxYear" render={({ field }) => (<FormItem><FormLabel>Year of Death</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{ESTATE_TAX_YEARS.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}</SelectContent></Select><FormDescription className="text-xs">Basic exclusion: {formatCurrency(BASIC_EXCLUSION_AMOUNT[field.value] ?? null)}</FormDescription><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="state" render={({ field }) => (<FormItem><FormLabel>State Estate Tax <small>(Opt.)</small></FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value={NO_STATE}>None</SelectItem>{Object.entries(US_STATE_ESTATE_TAX).map(([code, state]) => <SelectItem key={code} value={code}>{state.name}</SelectItem>)}</SelectContent></Select><FormDescription className="text-xs">{STATE_ESTATE_TAX_YEAR} state rules.</FormDescription><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="grossEstateValue" render={({ field }) => (<FormItem><FormLabel>Gross Estate Value ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 15000000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="debtsAndExpenses" render={({ field }) => (<FormItem><FormLabel>Debts & Expenses ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Mortgages, funeral, admin." {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="maritalDeduction" render={({ field }) => (<FormItem><FormLabel>Marital Deduction ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Passing to a US citizen spouse" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="charitableDeduction" render={({ field }) => (<FormItem><FormLabel>Charitable Deduction ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Bequests to charity" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="lifetimeTaxableGifts" render={({ field }) => (<FormItem><FormLabel>Lifetime Taxable Gifts ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Above annual exclusions" {...field} step="any" min="0" /></FormControl><FormDescription className="text-xs">Counted against the exemption.</FormDescription><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="giftTaxPaid" render={({ field }) => (<FormItem><FormLabel>Gift Tax Paid ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 0" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="dsueAmount" render={({ field }) => (<FormItem><FormLabel>Spouse&apos;s Unused Exclusion (DSUE) ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Ported from a deceased spouse" {...field} step="any" min="0" /></FormControl><FormDescription className="text-xs">Portability, as elected on the spouse&apos;s Form 706.</FormDescription><FormMessage /></FormItem>)} />
+                        </div>
                          {form.formState.errors.root && (
                              <FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>
                          )}
@@ -186,22 +263,38 @@ export function EstateTaxCalculator({ slug, calculatorInfo, onCalculation, favor
                     </form>
                 </Form>
 
-                 {taxableEstate !== null && estimatedTax !== null && (
+                 {estimate && (
                     <Alert className="mt-6">
                         <Receipt className="h-4 w-4" />
                         <AlertTitle>Estimated Estate Tax ({currency.code})</AlertTitle>
                         <AlertDescription>
-                            <p>Taxable Estate (Value above exemption): <strong>{formatCurrency(taxableEstate)}</strong></p>
-                            <p>Estimated Estate Tax Liability: <strong>{formatCurrency(estimatedTax)}</strong></p>
-                             <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: This is a highly simplified estimate. Estate tax laws are complex and vary. Consult a qualified professional for advice.</p>
+                            <p>Federal Taxable Estate: <strong>{formatCurrency(estimate.result.taxableEstate)}</strong></p>
+                            <p>Estimated Estate Tax Liability: <strong>{formatCurrency(estimate.result.totalTax)}</strong>{estimate.result.grossEstate > 0 && <span className="text-xs"> ({(estimate.result.totalTax / estimate.result.grossEstate * 100).toFixed(2)}% of the gross estate)</span>}</p>
+                            <p className="text-xs">Federal Exclusion Remaining After Lifetime Gifts: {formatCurrency(estimate.result.remainingExclusion)}</p>
+                             <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: This is a simplified estimate. It does not model valuation discounts, generation-skipping transfer tax, credits for prior transfers, or state taxes that add back lifetime gifts. Consult a qualified professional for advice.</p>
                         </AlertDescription>
                     </Alert>
                 )}
-                 {!taxableEstate && !estimatedTax && (
+                 {estimate && (
+                    <div className="mt-6">
+                        <h3 className="text-lg font-semibold flex items-center gap-2 mb-3"><ListChecks className="h-5 w-5 text-primary" />Line-Item Estimate ({currency.code})</h3>
+                        <Table className="border">
+                            <TableBody>
+                                {estimate.lines.map(line => (
+                                    <TableRow key={line.label} className={cn(line.kind === 'subtotal' && 'font-semibold', line.kind === 'total' && 'font-bold bg-muted')}>
+                                        <TableCell className={cn((line.kind === 'less' || line.kind === 'plus') && 'pl-6')}>{line.kind === 'less' ? 'Less: ' : line.kind === 'plus' ? 'Plus: ' : ''}{line.label}</TableCell>
+                                        <TableCell className="text-right">{line.kind === 'less' ? `(${formatCurrency(line.amount)})` : formatCurrency(line.amount)}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+                 {!estimate && (
                     <Alert variant="destructive" className="mt-6">
                         <AlertTitle>Important Disclaimer</AlertTitle>
                         <AlertDescription>
-                             Estate tax calculations are extremely complex and depend heavily on specific laws, deductions, credits, and asset types which vary by location and change over time. This calculator provides a vastly simplified estimate for illustrative purposes ONLY.
+                             Estate tax calculations are extremely complex and depend heavily on specific laws, deductions, credits, and asset types which vary by location and change over time. This calculator provides a simplified estimate for illustrative purposes ONLY.
                              <strong className="block mt-1">Do not rely on this calculator for financial or legal planning. Consult with qualified estate planning attorneys and financial advisors in your jurisdiction.</strong>
                         </AlertDescription>
                     </Alert>
@@ -8,13 +8,20 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calculator, Star, Home, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { amortizationExport } from '@/lib/schedule-export';
+import { AmortizationTable } from '../amortization-table';
+import { ARM_DEFAULTS, ArmFields, ArmResults, armSchemaShape, armTerms, describeArm, projectArm, refineArm, type ArmProjection } from '../arm-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for FHA Loan Calculator
 const fhaLoanSchema = z.object({
@@ -40,7 +47,8 @@ const fhaLoanSchema = z.object({
    // Optional fields often included in PITI
     propertyTaxes: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, { message: "Annual property taxes must be non-negative."}).optional().default("0"),
     homeownersInsurance: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, { message: "Annual homeowners insurance must be non-negative."}).optional().default("0"),
-});
+    ...armSchemaShape,
+}).superRefine((values, ctx) => refineArm(values, ctx, parseInt(values.loanTerm)));
 
 type FhaLoanFormValues = z.infer<typeof fhaLoanSchema>;
 
@@ -60,6 +68,7 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
     const [estimatedTotalPayment, setEstimatedTotalPayment] = React.useState<number | null>(null); // PITI + MIP
     const [loanAmount, setLoanAmount] = React.useState<number | null>(null); // Base loan amount
     const [totalLoanWithMip, setTotalLoanWithMip] = React.useState<number | null>(null); // Loan + financed MIP
+    const [arm, setArm] = React.useState<ArmProjection | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -91,13 +100,14 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
             annualMipRate: '0.55', // Update with current rates based on LTV/term
              propertyTaxes: '0',
              homeownersInsurance: '0',
+             ...ARM_DEFAULTS,
         },
     });
 
     React.useEffect(() => {
         if (mounted) {
             form.reset({
-                downPaymentPercent: '3.5', loanTerm: '30', upfrontMipRate: '1.75', annualMipRate: '0.55', propertyTaxes: '0', homeownersInsurance: '0'
+                downPaymentPercent: '3.5', loanTerm: '30', upfrontMipRate: '1.75', annualMipRate: '0.55', propertyTaxes: '0', homeownersInsurance: '0', ...ARM_DEFAULTS
              });
             setPrincipalAndInterest(null);
             setUpfrontMipAmount(null);
@@ -105,10 +115,12 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
             setEstimatedTotalPayment(null);
             setLoanAmount(null);
              setTotalLoanWithMip(null);
+             setArm(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -141,7 +153,7 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
         }
      }, [form.watch('homePrice'), form.watch('downPaymentPercent'), form.watch('loanTerm'), form.setValue]);
 
-    const calculateFhaLoan = (values: FhaLoanFormValues): { pi: number; upfrontMip: number; monthlyMip: number; totalPayment: number; baseLoan: number; totalLoan: number; } | null => {
+    const calculateFhaLoan = (values: FhaLoanFormValues): { pi: number; upfrontMip: number; monthlyMip: number; totalPayment: number; baseLoan: number; totalLoan: number; arm: ArmProjection | null; } | null => {
         const price = parseFloat(values.homePrice);
         const dpPercent = parseFloat(values.downPaymentPercent) / 100;
         const rate = parseFloat(values.interestRate) / 100;
@@ -168,11 +180,10 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
         const numberOfPayments = termYears * 12;
         let piPayment: number;
 
-        if (monthlyRate === 0) {
-            piPayment = totalLoanAmount / numberOfPayments;
-        } else {
-            piPayment = totalLoanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-        }
+        // An ARM's initial payment; later payments follow the rate path
+        const terms = armTerms(values, rate);
+        const arm = terms ? projectArm(values, terms, totalLoanAmount, termYears) : null;
+        piPayment = arm ? arm.result.payment : loanPayment(totalLoanAmount, monthlyRate, numberOfPayments);
 
         // Calculate Annual MIP and convert to Monthly MIP
         // Annual MIP is typically based on the *average* outstanding balance over the next 12 months,
@@ -195,6 +206,7 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
             totalPayment: totalMonthlyPayment,
             baseLoan: baseLoanAmount,
             totalLoan: totalLoanAmount,
+            arm,
         };
     };
 
@@ -207,15 +219,19 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
             setEstimatedTotalPayment(result.totalPayment);
             setLoanAmount(result.baseLoan);
             setTotalLoanWithMip(result.totalLoan);
+            setArm(result.arm);
 
 
-            const inputString = `Price: ${formatCurrency(parseFloat(data.homePrice))}, DP: ${data.downPaymentPercent}%, Rate: ${data.interestRate}%, Term: ${data.loanTerm} yrs, Taxes: ${formatCurrency(parseFloat(data.propertyTaxes || '0'))}/yr, Insurance: ${formatCurrency(parseFloat(data.homeownersInsurance || '0'))}/yr`;
-            const resultString = `Est. Total Monthly Payment: ${formatCurrency(result.totalPayment)} (P&I: ${formatCurrency(result.pi)}, MIP: ${formatCurrency(result.monthlyMip)}, T&I: ${formatCurrency((parseFloat(data.propertyTaxes||'0')/12) + (parseFloat(data.homeownersInsurance||'0')/12))}). Upfront MIP: ${formatCurrency(result.upfrontMip)}. Total Loan: ${formatCurrency(result.totalLoan)}.`;
+            const inputString = `Price: ${formatCurrency(parseFloat(data.homePrice))}, DP: ${data.downPaymentPercent}%, Rate: ${data.interestRate}%, Term: ${data.loanTerm} yrs, Taxes: ${formatCurrency(parseFloat(data.propertyTaxes || '0'))}/yr, Insurance: ${formatCurrency(parseFloat(data.homeownersInsurance || '0'))}/yr${result.arm ? `, ${describeArm(data)}` : ''}`;
+            const resultString = `Est. Total Monthly Payment: ${formatCurrency(result.totalPayment)} (P&I: ${formatCurrency(result.pi)}, MIP: ${formatCurrency(result.monthlyMip)}, T&I: ${formatCurrency((parseFloat(data.propertyTaxes||'0')/12) + (parseFloat(data.homeownersInsurance||'0')/12))}). Upfront MIP: ${formatCurrency(result.upfrontMip)}. Total Loan: ${formatCurrency(result.totalLoan)}.${result.arm ? ` Worst-Case P&I: ${formatCurrency(result.arm.worstCase.maxPayment)}.` : ''}`;
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { principalAndInterest: result.pi, upfrontMip: result.upfrontMip, monthlyMip: result.monthlyMip, totalMonthlyPayment: result.totalPayment, baseLoanAmount: result.baseLoan, totalLoanAmount: result.totalLoan, worstCasePayment: result.arm?.worstCase.maxPayment ?? null },
                 input: inputString,
                 result: resultString,
             };
@@ -227,6 +243,7 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
             setEstimatedTotalPayment(null);
             setLoanAmount(null);
             setTotalLoanWithMip(null);
+            setArm(null);
             form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -268,8 +285,9 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
     return (
         <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -305,6 +323,7 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
                              <FormField control={form.control} name="propertyTaxes" render={({ field }) => (<FormItem><FormLabel>Annual Property Taxes ({currency.symbol}) <small>(Optional)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 4000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                              <FormField control={form.control} name="homeownersInsurance" render={({ field }) => (<FormItem><FormLabel>Annual Home Insurance ({currency.symbol}) <small>(Optional)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 1200" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                         </div>
+                         <ArmFields />
 
                          {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
                         <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Calculate FHA Payment</Button>
@@ -323,10 +342,30 @@ export function FhaLoanCalculator({ slug, calculatorInfo, onCalculation, favorit
                              <p className="text-xs mt-2">Base Loan Amount: {formatCurrency(loanAmount)}</p>
                              <p className="text-xs">Upfront MIP Financed: {formatCurrency(upfrontMipAmount)}</p>
                              <p className="text-xs">Total Loan Amount (incl. MIP): {formatCurrency(totalLoanWithMip)}</p>
+                             {arm && <ArmResults projection={arm} formatCurrency={formatCurrency} />}
                              <p className="text-xs mt-2 font-semibold text-destructive">Note: MIP rates and calculation details can change. Verify with official FHA guidelines and lenders.</p>
                         </AlertDescription>
                     </Alert>
                 )}
+                {arm && (
+                    <AmortizationTable
+                        title={`Amortization Schedule (P&I) (${currency.code})`}
+                        schedule={arm.result.schedule}
+                        formatCurrency={formatCurrency}
+                        buildExport={() => amortizationExport({
+                            title: 'FHA Loan Amortization Schedule',
+                            currency,
+                            schedule: arm.result.schedule,
+                            summary: [
+                                { label: 'Total Loan Amount (incl. MIP)', value: totalLoanWithMip ?? 0, format: 'currency' },
+                                { label: 'Initial Principal & Interest', value: arm.result.payment, format: 'currency' },
+                                { label: 'Highest P&I Payment (Rate Path)', value: arm.result.maxPayment, format: 'currency' },
+                                { label: 'Worst-Case P&I Payment', value: arm.worstCase.maxPayment, format: 'currency' },
+                                { label: 'Total Interest (P&I)', value: arm.result.totalInterest, format: 'currency' },
+                            ],
+                        })}
+                    />
+                )}
             </CardContent>
         </Card>
     );
@@ -14,9 +14,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Sigma, TrendingUp } from 'lucide-react'; // Use Sigma or TrendingUp
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { savingsBalance } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema - same as Compound Interest basically
 const fvSchema = z.object({
@@ -93,6 +96,7 @@ export function FutureValueCalculator({ slug, calculatorInfo, onCalculation, fav
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -131,23 +135,7 @@ export function FutureValueCalculator({ slug, calculatorInfo, onCalculation, fav
             return null;
         }
 
-        const ratePerPeriod = r_annual / n;
-        const totalPeriods = n * t;
-        const fvPrincipal = P * Math.pow(1 + ratePerPeriod, totalPeriods);
-
-        let fvContributions = 0;
-        if (pmt > 0 && pmtN > 0) {
-             const ear = Math.pow(1 + r_annual / n, n) - 1;
-             const ratePerContribPeriod = Math.pow(1 + ear, 1 / pmtN) - 1;
-             const totalContributionsPeriods = pmtN * t;
-             if (ratePerContribPeriod === 0) {
-                 fvContributions = pmt * totalContributionsPeriods;
-             } else {
-                 fvContributions = pmt * ((Math.pow(1 + ratePerContribPeriod, totalContributionsPeriods) - 1) / ratePerContribPeriod);
-             }
-        }
-
-        const finalValue = fvPrincipal + fvContributions;
+        const finalValue = savingsBalance(P, r_annual, n, t, pmt, pmtN);
         const totalContribMade = pmt * pmtN * t;
         const totalInterestEarned = finalValue - P - totalContribMade;
         const totalPrincipalAndContributions = P + totalContribMade;
@@ -169,6 +157,9 @@ export function FutureValueCalculator({ slug, calculatorInfo, onCalculation, fav
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { futureValue: result.fv, totalInterest: result.interest, totalContributions: result.contributions },
                 input: inputString,
                 result: resultString,
             };
@@ -204,8 +195,9 @@ export function FutureValueCalculator({ slug, calculatorInfo, onCalculation, fav
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Home, Wallet } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for House Affordability Calculator
 const affordabilitySchema = z.object({
@@ -102,6 +105,7 @@ export function HouseAffordabilityCalculator({ slug, calculatorInfo, onCalculati
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -162,12 +166,8 @@ export function HouseAffordabilityCalculator({ slug, calculatorInfo, onCalculati
 
             // Calculate P&I for the guess loan amount
             let piPayment: number;
-            if (monthlyRate === 0) {
-                piPayment = guessLoanAmount / numberOfPayments;
-            } else {
-                piPayment = guessLoanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-                 if (!isFinite(piPayment)) piPayment = 0; // Handle potential division by zero if rate is ~ -1/month
-            }
+            piPayment = loanPayment(guessLoanAmount, monthlyRate, numberOfPayments);
+            if (!isFinite(piPayment)) piPayment = 0; // Handle potential division by zero if rate is ~ -1/month
 
 
              // Calculate estimated T&I based on guess price
@@ -211,6 +211,9 @@ export function HouseAffordabilityCalculator({ slug, calculatorInfo, onCalculati
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { affordableHomePrice: result.price, maxMonthlyPayment: result.maxPayment, limitingFactor: result.limit },
                 input: inputString,
                 result: resultString,
             };
@@ -259,8 +262,9 @@ export function HouseAffordabilityCalculator({ slug, calculatorInfo, onCalculati
     return (
          <Card className="w-full max-w-xl mx-auto"> {/* Slightly Wider Card */}
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -13,9 +13,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Target, Percent, PlusCircle, Trash2 } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { irr } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Sub-schema for cash flows
 const cashFlowSchema = z.object({
@@ -92,72 +95,26 @@ export function IrrCalculator({ slug, calculatorInfo, onCalculation, favorites,
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    // NPV calculation function (needed for IRR)
-    const calculateNpv = (rate: number, flows: number[]): number => {
-        let npv = 0;
-        for (let i = 0; i < flows.length; i++) {
-             if (isNaN(flows[i])) continue; // Skip invalid flows
-            npv += flows[i] / Math.pow(1 + rate, i);
-        }
-        return npv;
-    };
-
-    // IRR Calculation using numerical method (e.g., Newton-Raphson or Bisection)
+    // IRR is solved numerically by the shared finance engine (bracketing + bisection)
     const calculateIrr = (flows: number[]): number | null => {
-        // Initial guess for IRR (can be tricky)
-        let guess = 0.1; // 10%
-        const tolerance = 0.00001; // Accuracy tolerance
-        const maxIterations = 100;
-        let iterations = 0;
-
-        // Ensure flows are valid numbers
-         const validFlows = flows.map(f => {
-            const num = parseFloat(String(f)); // Convert potentially string inputs
-             return isNaN(num) ? 0 : num; // Default invalid flows to 0 or handle differently
-         });
-
-         if (validFlows.length < 2 || validFlows[0] >= 0 || !validFlows.slice(1).some(f => f > 0)) {
+         if (flows.length < 2 || flows[0] >= 0 || !flows.slice(1).some(f => f > 0)) {
              console.error("Invalid cash flow pattern for IRR calculation.");
              return null; // Invalid input for IRR
          }
 
-
-        // Simple Bisection Method (safer but slower than Newton-Raphson)
-        let lowRate = -0.99; // Lower bound (avoid -100%)
-        let highRate = 1.0; // Upper bound (100% - adjust if needed)
-
-        for(let i = 0; i < maxIterations; i++) {
-            const midRate = (lowRate + highRate) / 2;
-            const npvAtMid = calculateNpv(midRate, validFlows);
-
-            if (Math.abs(npvAtMid) < tolerance) {
-                return midRate * 100; // Found IRR (as percentage)
-            }
-
-            const npvAtLow = calculateNpv(lowRate, validFlows);
-
-             // Adjust bounds based on the sign of NPV
-             if (npvAtLow * npvAtMid < 0) { // Signs differ, IRR is between low and mid
-                highRate = midRate;
-             } else { // Signs are the same (or one is zero), IRR is between mid and high
-                lowRate = midRate;
-             }
-
-              // Check if bounds are too close or invalid
-             if (highRate - lowRate < tolerance) {
-                 break; // Close enough
-             }
+        const result = irr(flows);
+        if (result === null) {
+            console.warn("IRR calculation did not converge or solution not found within bounds.");
+            return null;
         }
-
-
-        console.warn("IRR calculation did not converge or solution not found within bounds.");
-        return null; // Failed to converge
+        return result * 100; // As percentage
     };
 
 
@@ -185,6 +142,9 @@ export function IrrCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { irr: result },
                 input: inputString,
                 result: resultString,
             };
@@ -226,8 +186,9 @@ export function IrrCalculator({ slug, calculatorInfo, onCalculation, favorites,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -274,7 +235,7 @@ export function IrrCalculator({ slug, calculatorInfo, onCalculation, favorites,
                     </form>
                 </Form>
 
-                {irrResult !== null && calculationStatus === 'success' && (
+                {typeof irrResult === 'number' && calculationStatus === 'success' && (
                     <Alert className="mt-6">
                         <Percent className="h-4 w-4" />
                         <AlertTitle>Internal Rate of Return (IRR)</AlertTitle>
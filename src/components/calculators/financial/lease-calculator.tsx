@@ -14,9 +14,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, FileText as FileTextIcon, HandCoins } from 'lucide-react'; // Use generic FileText
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment, pv } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Generic Lease Calculator
 const leaseSchema = z.object({
@@ -105,6 +108,7 @@ export function LeaseCalculator({ slug, calculatorInfo, onCalculation, favorites
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -154,11 +158,11 @@ export function LeaseCalculator({ slug, calculatorInfo, onCalculation, favorites
              preTaxMonthlyPayment = depreciationPart;
         } else {
             // Calculate payment required to pay off the depreciation amount over the term
-            const pv_residual = residual / Math.pow(1 + monthlyRate, term);
+            const pv_residual = -pv(monthlyRate, term, 0, residual);
             const pv_depreciation = capitalizedCost - pv_residual;
 
             // Payment on the depreciation portion (like loan payment on pv_depreciation)
-            depreciationPart = pv_depreciation * (monthlyRate * Math.pow(1 + monthlyRate, term)) / (Math.pow(1 + monthlyRate, term) - 1);
+            depreciationPart = loanPayment(pv_depreciation, monthlyRate, term);
 
             // Payment related to the interest on the residual value (simplified)
             // Correct finance charge calculation is complex. A common method:
@@ -210,6 +214,9 @@ export function LeaseCalculator({ slug, calculatorInfo, onCalculation, favorites
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { monthlyPayment: result.monthly, monthlyPaymentAfterTax: result.monthlyAfterTax, totalLeaseCost: result.total },
                 input: inputString,
                 result: resultString,
             };
@@ -252,8 +259,9 @@ export function LeaseCalculator({ slug, calculatorInfo, onCalculation, favorites
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
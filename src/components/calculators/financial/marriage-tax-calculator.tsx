@@ -4,7 +4,7 @@
 // IMPORTANT: Marriage tax implications are EXTREMELY complex, vary wildly by jurisdiction
 // (federal, state, local), depend on numerous factors (income sources, deductions, credits,
 // filing status choice, etc.), and change frequently.
-// This calculator CANNOT provide accurate tax advice. It's a conceptual placeholder.
+// This calculator compares federal income tax from the bracket tables only. It is not tax advice.
 
 import * as React from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -15,25 +15,51 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Calculator, Star, Users2, Receipt, AlertTriangle } from 'lucide-react';
+import { Calculator, Star, Users2, AlertTriangle, Layers } from 'lucide-react';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { compareMarriageFiling, US_FEDERAL, type MarriageComparison, type PartnerIncome } from '@/lib/tax';
+import { TAX_DEFAULTS, TaxFields, formatTaxRate, refineTax, taxSchemaShape } from '../tax-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
-// Zod Schema - Highly simplified, just getting incomes.
+const optionalAmount = z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), { message: "Must be zero or positive." }).optional().default('');
+
+// Zod Schema - Each partner's income and deductions, and the tax year
 const marriageTaxSchema = z.object({
     income1: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
         message: "Income 1 must be zero or positive.",
     }),
+    adjustments1: optionalAmount,
+    itemized1: optionalAmount,
     income2: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
         message: "Income 2 must be zero or positive.",
     }),
-    // Add fields for deductions, credits, state etc. for a real calculator (extremely complex)
-});
+    adjustments2: optionalAmount,
+    itemized2: optionalAmount,
+    ...taxSchemaShape,
+}).superRefine((values, ctx) => refineTax(values, ctx, 'married_separately'));
 
 type MarriageTaxFormValues = z.infer<typeof marriageTaxSchema>;
 
+const MARRIAGE_TAX_DEFAULTS: MarriageTaxFormValues = {
+    income1: '',
+    adjustments1: '',
+    itemized1: '',
+    income2: '',
+    adjustments2: '',
+    itemized2: '',
+    ...TAX_DEFAULTS,
+};
+
+const FILING_LABELS: Record<MarriageComparison['bestMarried'], string> = {
+    jointly: 'Married Filing Jointly',
+    separately: 'Married Filing Separately',
+};
+
 interface MarriageTaxCalculatorProps {
     slug: string;
     calculatorInfo: CalculatorInfo;
@@ -44,8 +70,7 @@ interface MarriageTaxCalculatorProps {
 }
 
 export function MarriageTaxCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: MarriageTaxCalculatorProps) {
-    // No actual calculation possible with this simplified setup
-    const [showDisclaimer, setShowDisclaimer] = React.useState(false);
+    const [comparison, setComparison] = React.useState<MarriageComparison | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -68,38 +93,69 @@ export function MarriageTaxCalculator({ slug, calculatorInfo, onCalculation, fav
 
     const form = useForm<MarriageTaxFormValues>({
         resolver: zodResolver(marriageTaxSchema),
-        defaultValues: {
-            income1: '',
-            income2: '',
-        },
+        defaultValues: MARRIAGE_TAX_DEFAULTS,
     });
 
     React.useEffect(() => {
         if (mounted) {
-            form.reset();
-            setShowDisclaimer(false);
+            form.reset(MARRIAGE_TAX_DEFAULTS);
+            setComparison(null);
             form.clearErrors();
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    // Placeholder submit handler
+    // Federal income tax filing as two single people vs. a joint return vs. two separate returns
+    const compareFilings = (values: MarriageTaxFormValues): MarriageComparison | null => {
+        const partner = (income: string, adjustments?: string, itemized?: string): PartnerIncome => ({
+            income: parseFloat(income),
+            adjustments: parseFloat(adjustments || '0'),
+            itemizedDeductions: parseFloat(itemized || '0'),
+        });
+        const partners: [PartnerIncome, PartnerIncome] = [
+            partner(values.income1, values.adjustments1, values.itemized1),
+            partner(values.income2, values.adjustments2, values.itemized2),
+        ];
+
+        if (partners.some(p => isNaN(p.income) || p.income < 0 || isNaN(p.adjustments) || isNaN(p.itemizedDeductions))) {
+            return null;
+        }
+
+        try {
+            return compareMarriageFiling(US_FEDERAL, values.taxYear, partners);
+        } catch (error) {
+            console.error("Marriage tax comparison failed:", error);
+            return null;
+        }
+    };
+
     const onSubmit: SubmitHandler<MarriageTaxFormValues> = (data) => {
-        setShowDisclaimer(true); // Show the disclaimer instead of calculating
+        const result = compareFilings(data);
+        if (!result) {
+            setComparison(null);
+            form.setError("root", { message: "Calculation failed. Check inputs." });
+            return;
+        }
+        setComparison(result);
 
-        // Log basic info for history (optional, as no real calculation)
-        const inputString = `Income 1: ${formatCurrency(parseFloat(data.income1))}, Income 2: ${formatCurrency(parseFloat(data.income2))}`;
-        const resultString = "No calculation performed. See disclaimer.";
+        const describePartner = (income: string, adjustments?: string, itemized?: string) =>
+            `${formatCurrency(parseFloat(income))}${parseFloat(adjustments || '0') > 0 ? ` (adj. ${formatCurrency(parseFloat(adjustments!))})` : ''}${parseFloat(itemized || '0') > 0 ? ` (itemized ${formatCurrency(parseFloat(itemized!))})` : ''}`;
+        const inputString = `Partner 1: ${describePartner(data.income1, data.adjustments1, data.itemized1)}, Partner 2: ${describePartner(data.income2, data.adjustments2, data.itemized2)}, Tax Year: ${data.taxYear}`;
+        const resultString = `Two Singles: ${formatCurrency(result.singles.tax)}, Married Filing Jointly: ${formatCurrency(result.jointly.tax)}, Married Filing Separately: ${formatCurrency(result.separately.tax)}, ${result.difference > 0 ? 'Penalty' : 'Bonus'}: ${formatCurrency(Math.abs(result.difference))}`;
 
         const historyEntry: HistoryEntry = {
             id: Date.now().toString(),
             calculatorSlug: slug,
             timestamp: new Date(),
+            values: data,
+            calculatorVersion: 3,
+            outputs: { singleTax: result.singles.tax, jointTax: result.jointly.tax, separateTax: result.separately.tax, bestMarriedStatus: FILING_LABELS[result.bestMarried], marriagePenalty: result.difference },
             input: inputString,
             result: resultString,
         };
@@ -109,7 +165,7 @@ export function MarriageTaxCalculator({ slug, calculatorInfo, onCalculation, fav
      // Skeleton Loader
     if (!mounted) {
         return (
-            <Card className="w-full max-w-lg mx-auto">
+            <Card className="w-full max-w-2xl mx-auto">
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
@@ -117,7 +173,14 @@ export function MarriageTaxCalculator({ slug, calculatorInfo, onCalculation, fav
                 </CardHeader>
                 <CardContent className="space-y-6">
                     <Skeleton className="h-10 w-full" />
-                    <Skeleton className="h-10 w-full" />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                    </div>
                     <Skeleton className="h-10 w-full" /> {/* Button Skeleton */}
                     <Skeleton className="mt-6 h-24 w-full" /> {/* Disclaimer Skeleton */}
                 </CardContent>
@@ -127,23 +190,100 @@ export function MarriageTaxCalculator({ slug, calculatorInfo, onCalculation, fav
 
 
     return (
-        <Card className="w-full max-w-lg mx-auto">
+        <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Informational Only)</strong></CardDescription>
             </CardHeader>
             <CardContent>
                  <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                         <p className="text-sm text-muted-foreground">Enter incomes to see disclaimer.</p>
-                        <FormField control={form.control} name="income1" render={({ field }) => (<FormItem><FormLabel>Partner 1 Annual Gross Income ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 60000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
-                        <FormField control={form.control} name="income2" render={({ field }) => (<FormItem><FormLabel>Partner 2 Annual Gross Income ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 70000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
-                        <Button type="submit" className="w-full"><Receipt className="mr-2 h-4 w-4" /> Show Disclaimer</Button>
+                        <TaxFields showFilingStatus={false} />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-4">
+                                <h3 className="font-semibold">Partner 1</h3>
+                                <FormField control={form.control} name="income1" render={({ field }) => (<FormItem><FormLabel>Annual Gross Income ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 60000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="adjustments1" render={({ field }) => (<FormItem><FormLabel>Pre-Tax Adjustments ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="401(k), HSA, etc." {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="itemized1" render={({ field }) => (<FormItem><FormLabel>Itemized Deductions ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Blank for standard" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            </div>
+                            <div className="space-y-4">
+                                <h3 className="font-semibold">Partner 2</h3>
+                                <FormField control={form.control} name="income2" render={({ field }) => (<FormItem><FormLabel>Annual Gross Income ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 70000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="adjustments2" render={({ field }) => (<FormItem><FormLabel>Pre-Tax Adjustments ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="401(k), HSA, etc." {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="itemized2" render={({ field }) => (<FormItem><FormLabel>Itemized Deductions ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Blank for standard" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            </div>
+                        </div>
+                        {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
+                        <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Compare Filing</Button>
                     </form>
                 </Form>
 
-                {showDisclaimer && (
+                {comparison && (
+                    <Alert className="mt-6">
+                        <Users2 className="h-4 w-4" />
+                        <AlertTitle>Federal Income Tax ({currency.code})</AlertTitle>
+                        <AlertDescription className="space-y-1">
+                            <p>Filing as Two Singles: <strong>{formatCurrency(comparison.singles.tax)}</strong></p>
+                            <p>Married Filing Jointly: <strong>{formatCurrency(comparison.jointly.tax)}</strong></p>
+                            <p>Married Filing Separately: <strong>{formatCurrency(comparison.separately.tax)}</strong></p>
+                            <p>
+                                {comparison.difference > 0 ? 'Marriage Penalty' : 'Marriage Bonus'}:{' '}
+                                <strong className={comparison.difference > 0 ? 'text-destructive' : 'text-primary'}>{formatCurrency(Math.abs(comparison.difference))}</strong>
+                                {' '}<span className="text-xs">(filing {FILING_LABELS[comparison.bestMarried].replace('Married Filing ', '').toLowerCase()}, the cheaper married status)</span>
+                            </p>
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {comparison && (
+                    <div className="mt-6">
+                        <h3 className="text-lg font-semibold flex items-center gap-2 mb-3"><Layers className="h-5 w-5 text-primary" />Tax by Bracket ({currency.code})</h3>
+                        <Table className="border">
+                            <TableHeader className="bg-muted">
+                                <TableRow>
+                                    <TableHead>Rate</TableHead>
+                                    <TableHead className="text-right">Two Singles</TableHead>
+                                    <TableHead className="text-right">Jointly</TableHead>
+                                    <TableHead className="text-right">Separately</TableHead>
+                                    <TableHead className="text-right">Difference</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {comparison.byRate.map(row => {
+                                    const difference = row[comparison.bestMarried] - row.singles;
+                                    return (
+                                        <TableRow key={row.rate} className={cn(row.singles === 0 && row.jointly === 0 && row.separately === 0 && 'text-muted-foreground')}>
+                                            <TableCell>{formatTaxRate(row.rate)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(row.singles)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(row.jointly)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(row.separately)}</TableCell>
+                                            <TableCell className={cn("text-right", difference > 0.005 && 'text-destructive')}>{difference > 0.005 ? '+' : ''}{formatCurrency(difference)}</TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                            <TableFooter>
+                                <TableRow>
+                                    <TableCell>Taxable Income</TableCell>
+                                    {[comparison.singles, comparison.jointly, comparison.separately].map((filing, index) => (
+                                        <TableCell key={index} className="text-right">{formatCurrency(filing.returns.reduce((sum, result) => sum + result.taxableIncome, 0))}</TableCell>
+                                    ))}
+                                    <TableCell />
+                                </TableRow>
+                                <TableRow className="font-semibold">
+                                    <TableCell>Total Tax</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(comparison.singles.tax)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(comparison.jointly.tax)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(comparison.separately.tax)}</TableCell>
+                                    <TableCell className={cn("text-right", comparison.difference > 0.005 && 'text-destructive')}>{comparison.difference > 0.005 ? '+' : ''}{formatCurrency(comparison.difference)}</TableCell>
+                                </TableRow>
+                            </TableFooter>
+                        </Table>
+                        <p className="text-xs text-muted-foreground mt-2">Difference compares {FILING_LABELS[comparison.bestMarried]} with filing as two singles; positive amounts are a penalty.</p>
+                    </div>
+                )}
+                {comparison && (
                     <Alert variant="destructive" className="mt-6">
                          <AlertTriangle className="h-4 w-4" />
                         <AlertTitle>Important Disclaimer: Tax Calculation Complexity</AlertTitle>
@@ -155,7 +295,7 @@ export function MarriageTaxCalculator({ slug, calculatorInfo, onCalculation, fav
                                 <li>Tax brackets, standard vs. itemized deductions, available credits.</li>
                                 <li>Income sources, types of deductions, and credits for each individual.</li>
                             </ul>
-                             <strong className='block mt-2'>This calculator cannot provide an accurate estimate.</strong> Please consult with a qualified tax professional for advice specific to your situation.
+                             <strong className='block mt-2'>These figures use the federal brackets and deductions only, without credits, phase-outs or state taxes. When filing separately, if either spouse itemizes both must.</strong> Please consult with a qualified tax professional for advice specific to your situation.
                         </AlertDescription>
                     </Alert>
                 )}
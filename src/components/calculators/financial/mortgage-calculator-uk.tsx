@@ -16,9 +16,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Home, HandCoins, AlertTriangle } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { amortizationExport } from '@/lib/schedule-export';
+import { AmortizationTable } from '../amortization-table';
+import { ARM_DEFAULTS, ArmFields, ArmResults, armSchemaShape, armTerms, describeArm, projectArm, refineArm, type ArmProjection } from '../arm-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema - Simplified for basic P&I
 const mortgageUKSchema = z.object({
@@ -31,7 +37,8 @@ const mortgageUKSchema = z.object({
   loanTerm: z.string().refine(val => !isNaN(parseInt(val)) && parseInt(val) > 0, {
     message: "Loan term must be a positive integer (years).",
   }),
-});
+  ...armSchemaShape,
+}).superRefine((values, ctx) => refineArm(values, ctx, parseInt(values.loanTerm)));
 
 type MortgageUKFormValues = z.infer<typeof mortgageUKSchema>;
 
@@ -46,6 +53,7 @@ interface MortgageCalculatorUKProps {
 
 export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: MortgageCalculatorUKProps) {
     const [monthlyPayment, setMonthlyPayment] = React.useState<number | null>(null);
+    const [arm, setArm] = React.useState<ArmProjection | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -73,6 +81,7 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
             loanAmount: '',
             interestRate: '',
             loanTerm: '',
+            ...ARM_DEFAULTS,
         },
     });
 
@@ -80,10 +89,12 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
         if (mounted) {
             form.reset();
             setMonthlyPayment(null);
+            setArm(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [displayCurrency.code, mounted]); // Use displayCurrency
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -91,7 +102,7 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
     }, [displayCurrency.symbol]);
 
     // Calculate Basic Mortgage Payment (Standard Annuity Formula - may not reflect all UK methods)
-    const calculateMortgagePayment = (values: MortgageUKFormValues): number | null => {
+    const calculateMortgagePayment = (values: MortgageUKFormValues): { monthlyPayment: number; arm: ArmProjection | null } | null => {
          const principal = parseFloat(values.loanAmount);
          const annualInterestRate = parseFloat(values.interestRate) / 100;
          const years = parseInt(values.loanTerm);
@@ -100,36 +111,47 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
              return null;
          }
 
+         // After the initial fixed deal the rate follows the index (e.g. Bank Rate) plus the margin
+         const terms = armTerms(values, annualInterestRate);
+         if (terms) {
+             const arm = projectArm(values, terms, principal, years);
+             return { monthlyPayment: arm.result.payment, arm };
+         }
+
          const monthlyInterestRate = annualInterestRate / 12;
          const numberOfPayments = years * 12;
 
          if (monthlyInterestRate === 0) {
-             return principal / numberOfPayments;
+             return { monthlyPayment: principal / numberOfPayments, arm: null };
          }
 
-         const payment = principal * (monthlyInterestRate * Math.pow(1 + monthlyInterestRate, numberOfPayments)) / (Math.pow(1 + monthlyInterestRate, numberOfPayments) - 1);
-         return payment;
+         return { monthlyPayment: loanPayment(principal, monthlyInterestRate, numberOfPayments), arm: null };
     };
 
 
     const onSubmit: SubmitHandler<MortgageUKFormValues> = (data) => {
         const result = calculateMortgagePayment(data);
         if (result !== null) {
-            setMonthlyPayment(result);
+            setMonthlyPayment(result.monthlyPayment);
+            setArm(result.arm);
 
-            const inputString = `Loan Amount: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} years`;
-            const resultString = `Estimated Monthly Payment (P&I): ${formatCurrency(result)}`;
+            const inputString = `Loan Amount: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} years${result.arm ? `, ${describeArm(data)}` : ''}`;
+            const resultString = `Estimated Monthly Payment (P&I): ${formatCurrency(result.monthlyPayment)}${result.arm ? `. Worst-Case Payment: ${formatCurrency(result.arm.worstCase.maxPayment)}, Total Interest: ${formatCurrency(result.arm.result.totalInterest)}` : ''}`;
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { monthlyPayment: result.monthlyPayment, worstCasePayment: result.arm?.worstCase.maxPayment ?? null },
                 input: inputString,
                 result: resultString,
             };
             onCalculation(historyEntry);
         } else {
             setMonthlyPayment(null);
+            setArm(null);
             form.setError("root", {message: "Calculation failed. Check inputs."})
             console.error("Calculation failed. Check inputs.");
         }
@@ -138,7 +160,7 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
      // Skeleton Loader
     if (!mounted) {
         return (
-             <Card className="w-full max-w-lg mx-auto">
+             <Card className="w-full max-w-2xl mx-auto">
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
@@ -158,10 +180,11 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
 
 
     return (
-        <Card className="w-full max-w-lg mx-auto">
+        <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name} ({displayCurrency.code})</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name} ({displayCurrency.code})</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Simplified Estimate)</strong></CardDescription>
             </CardHeader>
             <CardContent>
@@ -170,6 +193,7 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
                          <FormField control={form.control} name="loanAmount" render={({ field }) => (<FormItem><FormLabel>Loan Amount ({displayCurrency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 250000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                          <FormField control={form.control} name="interestRate" render={({ field }) => (<FormItem><FormLabel>Annual Interest Rate (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 4.75" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                          <FormField control={form.control} name="loanTerm" render={({ field }) => (<FormItem><FormLabel>Loan Term (Years)</FormLabel><FormControl><Input type="number" placeholder="e.g., 25" {...field} step="1" min="1" /></FormControl><FormMessage /></FormItem>)} />
+                         <ArmFields />
                           {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
                         <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Estimate Payment</Button>
                     </form>
@@ -181,9 +205,29 @@ export function MortgageCalculatorUK({ slug, calculatorInfo, onCalculation, favo
                          <AlertTitle>Estimated Monthly Payment ({displayCurrency.code})</AlertTitle>
                          <AlertDescription>
                             <p>Principal & Interest (P&I): <strong>{formatCurrency(monthlyPayment)}</strong></p>
+                            {arm && <ArmResults projection={arm} formatCurrency={formatCurrency} />}
                              <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: This is a simplified P&I estimate using a standard formula. UK mortgage calculations can vary. It does not include fees, insurance, or other costs. Consult a UK mortgage advisor for accurate figures.</p>
                          </AlertDescription>
                     </Alert>
+                )}
+                {arm && (
+                    <AmortizationTable
+                        title={`Repayment Schedule (${displayCurrency.code})`}
+                        schedule={arm.result.schedule}
+                        formatCurrency={formatCurrency}
+                        buildExport={() => amortizationExport({
+                            title: 'Mortgage Repayment Schedule',
+                            currency: displayCurrency,
+                            schedule: arm.result.schedule,
+                            summary: [
+                                { label: 'Loan Amount', value: parseFloat(form.getValues('loanAmount') || '0'), format: 'currency' },
+                                { label: 'Initial Monthly Payment', value: arm.result.payment, format: 'currency' },
+                                { label: 'Highest Payment (Rate Path)', value: arm.result.maxPayment, format: 'currency' },
+                                { label: 'Worst-Case Payment', value: arm.worstCase.maxPayment, format: 'currency' },
+                                { label: 'Total Interest', value: arm.result.totalInterest, format: 'currency' },
+                            ],
+                        })}
+                    />
                 )}
                   {!monthlyPayment && (
                      <Alert variant="destructive" className="mt-6">
@@ -11,13 +11,21 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calculator, Star, Home, HandCoins, ListChecks } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { amortizeWithPrepayments, comparePrepayments, hasPrepayments, prepaymentExtras, type AmortizationEntry, type PrepaymentResult } from '@/lib/finance';
+import { amortizationExport } from '@/lib/schedule-export';
+import { ARM_DEFAULTS, ArmFields, ArmResults, armSchemaShape, armTerms, describeArm, projectArm, refineArm, type ArmProjection } from '../arm-fields';
+import { PREPAYMENT_DEFAULTS, PrepaymentFields, PrepaymentSummary, describePrepaymentPlan, prepaymentPlan, prepaymentSchemaShape } from '../prepayment-fields';
+import { ScheduleExportButtons } from '../schedule-export-buttons';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Mortgage Calculator (adding optional PITI fields)
 const mortgageSchema = z.object({
@@ -36,6 +44,13 @@ const mortgageSchema = z.object({
   pmiRate: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 5, { // Rate usually 0.5-1.5%
     message: "PMI rate must be between 0 and 5.",
   }).optional().default("0"),
+  ...prepaymentSchemaShape,
+  ...armSchemaShape,
+}).superRefine((values, ctx) => {
+  refineArm(values, ctx, parseInt(values.loanTerm));
+  if (values.rateType === 'arm' && values.biweekly) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['biweekly'], message: 'Biweekly payments are not available with an adjustable rate.' });
+  }
 });
 
 type MortgageFormValues = z.infer<typeof mortgageSchema>;
@@ -49,17 +64,6 @@ interface MortgageCalculatorProps {
     currency: CurrencyData;
 }
 
-// Amortization Schedule Type
-interface AmortizationEntry {
-    month: number;
-    startingBalance: number;
-    payment: number; // P&I Payment
-    principalPaid: number;
-    interestPaid: number;
-    // Optional: Add extra payments, PMI, T&I per month if needed for detailed schedule
-    endingBalance: number;
-}
-
 export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: MortgageCalculatorProps) {
     const [principalAndInterest, setPrincipalAndInterest] = React.useState<number | null>(null);
     const [monthlyTaxes, setMonthlyTaxes] = React.useState<number | null>(null);
@@ -69,6 +73,8 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
     const [totalInterest, setTotalInterest] = React.useState<number | null>(null);
     const [totalPayment, setTotalPayment] = React.useState<number | null>(null); // P&I only total
     const [amortizationSchedule, setAmortizationSchedule] = React.useState<AmortizationEntry[]>([]);
+    const [prepayment, setPrepayment] = React.useState<PrepaymentResult | null>(null);
+    const [arm, setArm] = React.useState<ArmProjection | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -97,12 +103,14 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
             propertyTaxes: '0',
             homeInsurance: '0',
             pmiRate: '0',
+            ...PREPAYMENT_DEFAULTS,
+            ...ARM_DEFAULTS,
         },
     });
 
     React.useEffect(() => {
         if (mounted) {
-            form.reset({ loanTerm: '30', propertyTaxes: '0', homeInsurance: '0', pmiRate: '0' });
+            form.reset({ loanTerm: '30', propertyTaxes: '0', homeInsurance: '0', pmiRate: '0', ...PREPAYMENT_DEFAULTS, ...ARM_DEFAULTS });
              setPrincipalAndInterest(null);
              setMonthlyTaxes(null);
              setMonthlyInsurance(null);
@@ -111,10 +119,13 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
              setTotalInterest(null);
              setTotalPayment(null);
              setAmortizationSchedule([]);
+             setPrepayment(null);
+             setArm(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -122,7 +133,7 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
     }, [currency.symbol]);
 
     // Calculation logic (from Loan Payment, add PITI+PMI)
-     const calculateMortgage = (values: MortgageFormValues): { pi: number; tax: number; insurance: number; pmi: number; total: number; schedule: AmortizationEntry[]; totalInterest: number; totalPaymentPI: number } | null => {
+     const calculateMortgage = (values: MortgageFormValues): { pi: number; tax: number; insurance: number; pmi: number; total: number; schedule: AmortizationEntry[]; totalInterest: number; totalPaymentPI: number; prepayment: PrepaymentResult | null; arm: ArmProjection | null } | null => {
          const principal = parseFloat(values.loanAmount);
          const annualInterestRate = parseFloat(values.interestRate) / 100;
          const years = parseInt(values.loanTerm);
@@ -134,63 +145,29 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
              return null;
          }
 
-         const monthlyInterestRate = annualInterestRate / 12;
-         const numberOfPayments = years * 12;
-         let piPayment: number; // Principal & Interest
-
-         if (monthlyInterestRate === 0) {
-            piPayment = principal / numberOfPayments;
-         } else {
-            piPayment = principal * (monthlyInterestRate * Math.pow(1 + monthlyInterestRate, numberOfPayments)) / (Math.pow(1 + monthlyInterestRate, numberOfPayments) - 1);
-         }
+         const plan = prepaymentPlan(values);
+         const terms = armTerms(values, annualInterestRate);
+         // An ARM is compared against the same ARM without extras, along the same rate path
+         const arm = terms ? projectArm(values, terms, principal, years, prepaymentExtras(plan, 12)) : null;
+         const prepaymentResult = terms && arm
+             ? comparePrepayments(projectArm(values, terms, principal, years).result, arm.result, 12)
+             : amortizeWithPrepayments({ principal, annualRate: annualInterestRate, years, plan });
+         const piPayment = prepaymentResult.scheduled.payment;
+         const { schedule, totalInterest: totalInterestPaid } = prepaymentResult.accelerated;
 
           const tax = annualTaxes / 12;
           const insurance = annualInsurance / 12;
           const pmi = (principal * annualPmiRate) / 12; // Simplified PMI calculation
 
           const totalMonthly = piPayment + tax + insurance + pmi;
-
-         // Generate Amortization Schedule (for P&I part)
-         const schedule: AmortizationEntry[] = [];
-         let totalInterestPaid = 0;
-         let remainingBalance = principal;
-
-         for (let month = 1; month <= numberOfPayments; month++) {
-             const interestForMonth = remainingBalance * monthlyInterestRate;
-             let principalForMonth = piPayment - interestForMonth;
-             let currentPayment = piPayment; // P&I Payment for schedule
-
-             if (month === numberOfPayments) {
-                 principalForMonth = remainingBalance;
-                 currentPayment = principalForMonth + interestForMonth; // Adjust final P&I payment
-             }
-
-             const endingBalance = remainingBalance - principalForMonth;
-             schedule.push({
-                 month: month,
-                 startingBalance: remainingBalance,
-                 payment: currentPayment,
-                 principalPaid: principalForMonth,
-                 interestPaid: interestForMonth,
-                 endingBalance: endingBalance < 0.005 ? 0 : endingBalance
-             });
-
-             totalInterestPaid += interestForMonth;
-             remainingBalance = endingBalance;
-
-              if (remainingBalance <= 0.005 && month < numberOfPayments) {
-                  const lastEntry = schedule[schedule.length -1];
-                  if (lastEntry){
-                    lastEntry.endingBalance = 0;
-                    totalInterestPaid = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0); // Recalculate interest paid
-                  }
-                  break;
-              }
-         }
           const totalPaymentPI_calc = principal + totalInterestPaid;
 
 
-         return { pi: piPayment, tax, insurance, pmi, total: totalMonthly, schedule, totalInterest: totalInterestPaid, totalPaymentPI: totalPaymentPI_calc };
+         return {
+             pi: piPayment, tax, insurance, pmi, total: totalMonthly, schedule, totalInterest: totalInterestPaid, totalPaymentPI: totalPaymentPI_calc,
+             prepayment: hasPrepayments(plan) ? prepaymentResult : null,
+             arm,
+         };
       };
 
     const onSubmit: SubmitHandler<MortgageFormValues> = (data) => {
@@ -204,15 +181,23 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
              setTotalInterest(result.totalInterest);
              setTotalPayment(result.totalPaymentPI);
              setAmortizationSchedule(result.schedule);
+             setPrepayment(result.prepayment);
+             setArm(result.arm);
 
 
-            const inputString = `Loan: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} yrs, Taxes: ${formatCurrency(parseFloat(data.propertyTaxes || '0'))}/yr, Insurance: ${formatCurrency(parseFloat(data.homeInsurance || '0'))}/yr, PMI: ${data.pmiRate || '0'}%`;
-            const resultString = `Total Monthly Payment: ${formatCurrency(result.total)} (P&I: ${formatCurrency(result.pi)}, T&I: ${formatCurrency(result.tax + result.insurance)}, PMI: ${formatCurrency(result.pmi)}). Total Interest (P&I): ${formatCurrency(result.totalInterest)}.`;
+            const extras = describePrepaymentPlan(prepaymentPlan(data), formatCurrency);
+            const inputString = `Loan: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} yrs, Taxes: ${formatCurrency(parseFloat(data.propertyTaxes || '0'))}/yr, Insurance: ${formatCurrency(parseFloat(data.homeInsurance || '0'))}/yr, PMI: ${data.pmiRate || '0'}%${result.arm ? `, ${describeArm(data)}` : ''}${extras ? `, ${extras}` : ''}`;
+            const saved = result.prepayment ? ` Interest Saved: ${formatCurrency(result.prepayment.interestSaved)}, Months Saved: ${result.prepayment.monthsSaved}.` : '';
+            const worstCase = result.arm ? ` Worst-Case P&I: ${formatCurrency(result.arm.worstCase.maxPayment)}.` : '';
+            const resultString = `Total Monthly Payment: ${formatCurrency(result.total)} (P&I: ${formatCurrency(result.pi)}, T&I: ${formatCurrency(result.tax + result.insurance)}, PMI: ${formatCurrency(result.pmi)}). Total Interest (P&I): ${formatCurrency(result.totalInterest)}.${worstCase}${saved}`;
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { totalMonthlyPayment: result.total, principalAndInterest: result.pi, monthlyTaxes: result.tax, monthlyInsurance: result.insurance, monthlyPmi: result.pmi, totalInterest: result.totalInterest, totalPayment: result.totalPaymentPI, interestSaved: result.prepayment?.interestSaved ?? 0, monthsSaved: result.prepayment?.monthsSaved ?? 0, worstCasePayment: result.arm?.worstCase.maxPayment ?? null },
                 input: inputString,
                 result: resultString,
             };
@@ -226,6 +211,8 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
              setTotalInterest(null);
              setTotalPayment(null);
              setAmortizationSchedule([]);
+             setPrepayment(null);
+             setArm(null);
              form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -265,8 +252,9 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
     return (
         <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -284,6 +272,8 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
                              <FormField control={form.control} name="homeInsurance" render={({ field }) => (<FormItem><FormLabel>Home Insurance ({currency.symbol}/yr) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 1200" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                              <FormField control={form.control} name="pmiRate" render={({ field }) => (<FormItem><FormLabel>PMI Rate (%/yr) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 0.5" {...field} step="any" min="0" max="5"/></FormControl><FormMessage /></FormItem>)} />
                          </div>
+                         <ArmFields />
+                         <PrepaymentFields currency={currency} />
                          {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
                         <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Calculate Mortgage Payment</Button>
                     </form>
@@ -301,28 +291,60 @@ export function MortgageCalculator({ slug, calculatorInfo, onCalculation, favori
                              <p className="text-xs">PMI (Est. Monthly): {formatCurrency(monthlyPmi)}</p>
                              <p className="text-xs mt-1">Total Interest Paid (P&I only): {formatCurrency(totalInterest)}</p>
                              <p className="text-xs">Total Paid (P&I only): {formatCurrency(totalPayment)}</p>
+                             {prepayment && <PrepaymentSummary result={prepayment} formatCurrency={formatCurrency} />}
+                             {arm && <ArmResults projection={arm} formatCurrency={formatCurrency} />}
                         </AlertDescription>
                     </Alert>
                  )}
 
                  {amortizationSchedule.length > 0 && (
                     <div className="mt-6">
-                        <h3 className="text-lg font-semibold mb-3 flex items-center gap-2"><ListChecks className="h-5 w-5 text-primary" />Amortization Schedule (P&I) ({currency.code})</h3>
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                            <h3 className="text-lg font-semibold flex items-center gap-2"><ListChecks className="h-5 w-5 text-primary" />Amortization Schedule (P&I) ({currency.code})</h3>
+                            <ScheduleExportButtons
+                                build={() => amortizationExport({
+                                    title: 'Mortgage Amortization Schedule',
+                                    currency,
+                                    schedule: amortizationSchedule,
+                                    periodLabel: prepayment?.periodsPerYear === 26 ? 'Payment #' : 'Month',
+                                    summary: [
+                                        { label: 'Loan Amount', value: parseFloat(form.getValues('loanAmount') || '0'), format: 'currency' },
+                                        { label: 'Monthly Principal & Interest', value: principalAndInterest ?? 0, format: 'currency' },
+                                        { label: 'Monthly Taxes', value: monthlyTaxes ?? 0, format: 'currency' },
+                                        { label: 'Monthly Insurance', value: monthlyInsurance ?? 0, format: 'currency' },
+                                        { label: 'Monthly PMI', value: monthlyPmi ?? 0, format: 'currency' },
+                                        { label: 'Total Monthly Payment', value: totalMonthlyPayment ?? 0, format: 'currency' },
+                                        { label: 'Total Interest (P&I)', value: totalInterest ?? 0, format: 'currency' },
+                                        { label: 'Total Paid (P&I)', value: totalPayment ?? 0, format: 'currency' },
+                                        ...(arm ? [
+                                            { label: 'Highest P&I Payment (Rate Path)', value: arm.result.maxPayment, format: 'currency' as const },
+                                            { label: 'Worst-Case P&I Payment', value: arm.worstCase.maxPayment, format: 'currency' as const },
+                                        ] : []),
+                                        ...(prepayment ? [
+                                            { label: 'Interest Saved', value: prepayment.interestSaved, format: 'currency' as const },
+                                            { label: 'Months Saved', value: prepayment.monthsSaved, format: 'integer' as const },
+                                        ] : []),
+                                    ],
+                                })}
+                            />
+                        </div>
                         <ScrollArea className="h-[300px] w-full border">
                             <Table className="min-w-[600px]">
                                 <TableHeader className="sticky top-0 bg-muted z-10">
                                     <TableRow>
-                                        <TableHead className="w-[80px]">Month</TableHead>
+                                        <TableHead className="w-[80px]">{prepayment?.periodsPerYear === 26 ? 'Payment #' : 'Month'}</TableHead>
                                         <TableHead>Principal</TableHead><TableHead>Interest</TableHead>
+                                        {prepayment && <TableHead>Extra</TableHead>}
                                         <TableHead>P&I Payment</TableHead><TableHead className="text-right">Balance</TableHead>
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
                                     {amortizationSchedule.map((entry) => (
-                                        <TableRow key={entry.month}>
-                                            <TableCell className="font-medium">{entry.month}</TableCell>
+                                        <TableRow key={entry.period}>
+                                            <TableCell className="font-medium">{entry.period}</TableCell>
                                             <TableCell>{formatCurrency(entry.principalPaid)}</TableCell>
                                             <TableCell>{formatCurrency(entry.interestPaid)}</TableCell>
+                                            {prepayment && <TableCell>{formatCurrency(entry.extraPaid)}</TableCell>}
                                             <TableCell>{formatCurrency(entry.payment)}</TableCell>
                                             <TableCell className="text-right">{formatCurrency(entry.endingBalance)}</TableCell>
                                         </TableRow>
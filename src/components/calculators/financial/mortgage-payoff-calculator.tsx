@@ -12,9 +12,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Milestone, CalendarClock, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Mortgage Payoff Calculator
 const payoffSchema = z.object({
@@ -92,6 +94,7 @@ export function MortgagePayoffCalculator({ slug, calculatorInfo, onCalculation,
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -180,7 +183,7 @@ export function MortgagePayoffCalculator({ slug, calculatorInfo, onCalculation,
                  // Record history only on successful calculation
                  const inputString = `Balance: ${formatCurrency(balance)}, Pmt: ${formatCurrency(payment)}, Rate: ${rate}%, Extra Pmt: ${formatCurrency(extra)}`;
                  const resultString = `Payoff Time: ${newPayoff.months} mo (saved ${monthsSaved} mo), Interest Saved: ${formatCurrency(interestSaved)}`;
-                 const historyEntry: HistoryEntry = {id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString};
+                 const historyEntry: HistoryEntry = {id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { newPayoffMonths: newPayoff.months, monthsSaved, interestSaved }, input: inputString, result: resultString};
                  onCalculation(historyEntry);
              }
 
@@ -216,8 +219,9 @@ export function MortgagePayoffCalculator({ slug, calculatorInfo, onCalculation,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
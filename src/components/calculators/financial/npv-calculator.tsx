@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Sigma, TrendingUp, PlusCircle, Trash2 } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { npv } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Sub-schema for cash flows
 const cashFlowSchemaNpv = z.object({
@@ -89,6 +92,7 @@ export function NpvCalculator({ slug, calculatorInfo, onCalculation, favorites,
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -104,15 +108,8 @@ export function NpvCalculator({ slug, calculatorInfo, onCalculation, favorites,
             return null;
         }
 
-        let npv = 0;
-        for (let i = 0; i < flows.length; i++) {
-             if (isNaN(flows[i])) continue; // Should be caught by zod, but double-check
-             // Formula: NPV = Σ [ CashFlow_i / (1 + rate)^i ]
-             // where i is the period number (starting from 0)
-             npv += flows[i] / Math.pow(1 + rate, i);
-        }
-
-        return npv;
+        // NPV = Σ [ CashFlow_i / (1 + rate)^i ], with period 0 undiscounted
+        return npv(rate, flows);
     };
 
     const onSubmit: SubmitHandler<NpvFormValues> = (data) => {
@@ -128,6 +125,9 @@ export function NpvCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { npv: result },
                 input: inputString,
                 result: resultString,
             };
@@ -169,8 +169,9 @@ export function NpvCalculator({ slug, calculatorInfo, onCalculation, favorites,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
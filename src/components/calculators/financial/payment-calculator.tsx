@@ -2,7 +2,7 @@
 
 // Generic Payment Calculator - essentially the Loan Payment Calculator
 // Reusing the LoanPaymentCalculator component logic.
-import { LoanPaymentCalculator } from './loan-payment-calculator'; // Corrected import path
+import { LoanPaymentCalculator } from '../loan-payment-calculator'; // Corrected import path
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 
@@ -2,7 +2,7 @@
 
 // Essentially the same logic as Loan Payment Calculator.
 // Reusing the LoanPaymentCalculator component logic.
-import { LoanPaymentCalculator as PersonalLoanCalc } from './loan-payment-calculator'; // Corrected import path
+import { LoanPaymentCalculator as PersonalLoanCalc } from '../loan-payment-calculator'; // Corrected import path
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 
@@ -12,9 +12,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Home, GitCompare, HandCoins } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Refinance Calculator
 const refinanceSchema = z.object({
@@ -92,6 +95,7 @@ export function RefinanceCalculator({ slug, calculatorInfo, onCalculation, favor
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null || value === Infinity || value === -Infinity) return 'N/A';
@@ -135,8 +139,7 @@ export function RefinanceCalculator({ slug, calculatorInfo, onCalculation, favor
          const monthlyRate = (annualRate / 100) / 12;
          const numberOfPayments = termYears * 12;
          if (principal <= 0 || annualRate < 0 || termYears <= 0) return null;
-         if (monthlyRate === 0) return principal / numberOfPayments;
-         return principal * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
+         return loanPayment(principal, monthlyRate, numberOfPayments);
      };
 
 
@@ -185,7 +188,7 @@ export function RefinanceCalculator({ slug, calculatorInfo, onCalculation, favor
               if (currentPayoff.months !== Infinity && newPayoff.months !== Infinity) {
                  const inputString = `Current: ${formatCurrency(currentB)} @ ${currentR}% (${formatCurrency(currentP)}/mo) | New: ${newT}yrs @ ${newR}% | Costs: ${formatCurrency(costs)}`;
                  const resultString = `New Pmt: ${formatCurrency(newPayment)}/mo, Interest Saved: ${formatCurrency(totalSavingsCalc as number)}, Breakeven: ${breakevenMonthsCalc} mo`;
-                 const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+                 const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { newMonthlyPayment: newPayment, totalSavings: totalSavingsCalc, breakevenMonths: breakevenMonthsCalc }, input: inputString, result: resultString };
                  onCalculation(historyEntry);
               }
 
@@ -220,8 +223,9 @@ export function RefinanceCalculator({ slug, calculatorInfo, onCalculation, favor
     return (
          <Card className="w-full max-w-xl mx-auto"> {/* Slightly Wider Card */}
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -17,9 +17,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Hotel, LineChart, Percent, AlertTriangle } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
+import { loanPayment } from '@/lib/finance';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Simplified Rental Property Calculator
 const rentalSchema = z.object({
@@ -105,6 +108,7 @@ export function RentalPropertyCalculator({ slug, calculatorInfo, onCalculation,
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -144,14 +148,8 @@ export function RentalPropertyCalculator({ slug, calculatorInfo, onCalculation,
         if (rate !== null && term !== null && rate >= 0 && term > 0) {
             const loanAmount = price - downPayment;
             if (loanAmount > 0) {
-                const monthlyRate = rate / 12;
-                const numberOfPayments = term * 12;
-                 if (monthlyRate === 0) {
-                    monthlyDebtService = loanAmount / numberOfPayments;
-                 } else {
-                    monthlyDebtService = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-                     if (!isFinite(monthlyDebtService)) monthlyDebtService = 0; // Handle edge cases
-                 }
+                monthlyDebtService = loanPayment(loanAmount, rate / 12, term * 12);
+                if (!isFinite(monthlyDebtService)) monthlyDebtService = 0; // Handle edge cases
             }
         }
 
@@ -182,7 +180,7 @@ export function RentalPropertyCalculator({ slug, calculatorInfo, onCalculation,
             const inputString = `Price: ${formatCurrency(parseFloat(data.purchasePrice))}, Rent: ${formatCurrency(parseFloat(data.monthlyRent))}/mo, Expenses(mo): approx ${formatCurrency(parseFloat(data.propertyTaxes||'0')+parseFloat(data.insurance||'0')+parseFloat(data.repairsMaintenance||'0')+parseFloat(data.propertyManagement||'0')+parseFloat(data.hoaFees||'0')+parseFloat(data.otherExpenses||'0'))}, Loan: ${data.loanInterestRate||'N/A'}%/${data.loanTerm||'N/A'}yrs`;
             const resultString = `NOI: ${formatCurrency(calcResult.noi)}/yr, Monthly CF: ${formatCurrency(calcResult.monthlyCashFlow)}, CoC Return: ${calcResult.cashOnCashReturn?.toFixed(2) ?? 'N/A'}%, Cap Rate: ${calcResult.capRate.toFixed(2)}%`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { noi: calcResult.noi, monthlyCashFlow: calcResult.monthlyCashFlow, cashOnCashReturn: calcResult.cashOnCashReturn ?? null, capRate: calcResult.capRate }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setResult(null);
@@ -221,8 +219,9 @@ export function RentalPropertyCalculator({ slug, calculatorInfo, onCalculation,
     return (
         <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Simplified Analysis)</strong></CardDescription>
             </CardHeader>
             <CardContent>
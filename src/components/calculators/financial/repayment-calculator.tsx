@@ -5,7 +5,7 @@
 // allowing for future specialization if needed, while leveraging existing logic.
 
 import * as React from 'react';
-import { LoanPaymentCalculator } from './loan-payment-calculator'; // Corrected import path
+import { LoanPaymentCalculator } from '../loan-payment-calculator'; // Corrected import path
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants'; // Import CurrencyData type
 
@@ -12,9 +12,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Umbrella, TrendingUp } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { growthPoint, type GrowthPoint } from '@/lib/finance';
+import { GrowthChart } from '../projection-charts';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Retirement Calculator (Simplified Savings Goal)
 const retirementSchema = z.object({
@@ -62,6 +66,8 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
     const [estimatedRetirementSavings, setEstimatedRetirementSavings] = React.useState<number | null>(null);
      const [totalContributed, setTotalContributed] = React.useState<number | null>(null);
      const [totalGrowth, setTotalGrowth] = React.useState<number | null>(null);
+     const [growthPoints, setGrowthPoints] = React.useState<GrowthPoint[]>([]);
+     const [startAge, setStartAge] = React.useState(0);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -98,10 +104,12 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
             setEstimatedRetirementSavings(null);
              setTotalContributed(null);
              setTotalGrowth(null);
+             setGrowthPoints([]);
             form.clearErrors();
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -109,7 +117,7 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
     }, [currency.symbol]);
 
     // Calculate Retirement Savings Growth (Similar to Compound Interest/FV)
-    const calculateRetirementSavings = (values: RetirementFormValues): { balance: number; contributed: number; growth: number } | null => {
+    const calculateRetirementSavings = (values: RetirementFormValues): { balance: number; contributed: number; growth: number; points: GrowthPoint[] } | null => {
         const currentAge = parseInt(values.currentAge);
         const retirementAge = parseInt(values.retirementAge);
         const P = parseFloat(values.currentSavings);
@@ -123,11 +131,13 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
 
         let futureValue = P;
          let totalContributionsMade = 0;
+         const points: GrowthPoint[] = [growthPoint(0, P, P)];
 
          // Calculate future value year by year
          for (let i = 0; i < yearsToGrow; i++) {
              futureValue = (futureValue + pmt) * (1 + r);
              totalContributionsMade += pmt;
+             points.push(growthPoint(i + 1, futureValue, P + totalContributionsMade));
          }
 
 
@@ -137,7 +147,8 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
         return {
             balance: futureValue,
             contributed: totalPrincipalAndContributions,
-            growth: totalGrowthCalc
+            growth: totalGrowthCalc,
+            points
         };
     };
 
@@ -148,6 +159,8 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
             setEstimatedRetirementSavings(result.balance);
             setTotalContributed(result.contributed);
              setTotalGrowth(result.growth);
+             setGrowthPoints(result.points);
+             setStartAge(parseInt(data.currentAge));
 
             const inputString = `Age: ${data.currentAge} to ${data.retirementAge}, Current: ${formatCurrency(parseFloat(data.currentSavings))}, Annual Contrib: ${formatCurrency(parseFloat(data.annualContribution))}, Rate: ${data.annualReturnRate}%`;
             const resultString = `Est. Savings at Retirement: ${formatCurrency(result.balance)}, Total Contributed: ${formatCurrency(result.contributed)}, Total Growth: ${formatCurrency(result.growth)}`;
@@ -156,6 +169,9 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { estimatedSavings: result.balance, totalContributed: result.contributed, totalGrowth: result.growth },
                 input: inputString,
                 result: resultString,
             };
@@ -164,6 +180,7 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
             setEstimatedRetirementSavings(null);
             setTotalContributed(null);
             setTotalGrowth(null);
+            setGrowthPoints([]);
              form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -196,8 +213,9 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -227,6 +245,8 @@ export function RetirementCalculator({ slug, calculatorInfo, onCalculation, favo
                         </AlertDescription>
                     </Alert>
                 )}
+
+                <GrowthChart points={growthPoints} formatCurrency={formatCurrency} startAge={startAge} />
             </CardContent>
         </Card>
     );
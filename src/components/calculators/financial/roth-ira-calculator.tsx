@@ -13,9 +13,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, ShieldCheck, LineChart } from 'lucide-react'; // Using ShieldCheck
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Roth IRA Calculator
 const rothIraSchema = z.object({
@@ -99,6 +101,7 @@ export function RothIraCalculator({ slug, calculatorInfo, onCalculation, favorit
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -142,7 +145,7 @@ export function RothIraCalculator({ slug, calculatorInfo, onCalculation, favorit
             const inputString = `Age: ${data.currentAge} to ${data.retirementAge}, Bal: ${formatCurrency(parseFloat(data.currentBalance))}, Contrib: ${formatCurrency(parseFloat(data.annualContribution))}/yr, Rate: ${data.annualReturnRate}%`;
             const resultString = `Est. Balance at Retirement: ${formatCurrency(result.balance)}, Total Contributions: ${formatCurrency(result.contributions)}, Total Growth: ${formatCurrency(result.growth)}`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { retirementBalance: result.balance, totalContributions: result.contributions, totalGrowth: result.growth }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setRetirementBalance(null);
@@ -180,8 +183,9 @@ export function RothIraCalculator({ slug, calculatorInfo, onCalculation, favorit
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
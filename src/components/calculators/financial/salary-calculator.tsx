@@ -14,14 +14,18 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Wallet2, Receipt, AlertTriangle } from 'lucide-react'; // Using Wallet2
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { computeIncomeTax } from '@/lib/tax';
+import { TAX_DEFAULTS, TaxFields, describeTaxTable, formatTaxRate, refineTax, taxSchemaShape, taxTableFor } from '../tax-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema - Simplified
 const salarySchema = z.object({
@@ -29,13 +33,14 @@ const salarySchema = z.object({
         message: "Gross annual salary must be zero or positive.",
     }),
     payFrequency: z.enum(['weekly', 'bi-weekly', 'semi-monthly', 'monthly']).default('bi-weekly'),
-    // Very simplified tax and deductions
-    effectiveTaxRate: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
-        message: "Effective tax rate (all taxes) must be between 0 and 100.",
-    }).optional().default("20"), // Example combined rate
+    // Federal income tax by bracket; everything else as one flat rate
+    ...taxSchemaShape,
+    otherTaxRate: z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100), {
+        message: "Other tax rate must be between 0 and 100.",
+    }).optional().default(""),
     preTaxDeductionsPercent: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {}).optional().default("5"), // e.g., 401k %
     postTaxDeductionsFixed: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {}).optional().default("0"), // e.g., Fixed health insurance premium per paycheck
-});
+}).superRefine((values, ctx) => refineTax(values, ctx));
 
 type SalaryFormValues = z.infer<typeof salarySchema>;
 
@@ -53,6 +58,8 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
     const [grossPayPerPeriod, setGrossPayPerPeriod] = React.useState<number | null>(null);
     const [taxesPerPeriod, setTaxesPerPeriod] = React.useState<number | null>(null);
     const [deductionsPerPeriod, setDeductionsPerPeriod] = React.useState<number | null>(null);
+    const [incomeTaxPerPeriod, setIncomeTaxPerPeriod] = React.useState<number | null>(null);
+    const [taxRates, setTaxRates] = React.useState<{ marginal: number; effective: number } | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -78,7 +85,8 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
         defaultValues: {
             grossAnnualSalary: '',
             payFrequency: 'bi-weekly',
-            effectiveTaxRate: '20',
+            ...TAX_DEFAULTS,
+            otherTaxRate: '',
             preTaxDeductionsPercent: '5',
             postTaxDeductionsFixed: '0',
         },
@@ -86,29 +94,33 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
 
     React.useEffect(() => {
         if (mounted) {
-            form.reset({ payFrequency: 'bi-weekly', effectiveTaxRate: '20', preTaxDeductionsPercent: '5', postTaxDeductionsFixed: '0' });
+            form.reset({ payFrequency: 'bi-weekly', ...TAX_DEFAULTS, otherTaxRate: '', preTaxDeductionsPercent: '5', postTaxDeductionsFixed: '0' });
             setNetPayPerPeriod(null);
             setGrossPayPerPeriod(null);
             setTaxesPerPeriod(null);
             setDeductionsPerPeriod(null);
+            setIncomeTaxPerPeriod(null);
+            setTaxRates(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    const calculateNetSalary = (values: SalaryFormValues): { net: number; grossPeriod: number; taxes: number; deductions: number } | null => {
+    const calculateNetSalary = (values: SalaryFormValues): { net: number; grossPeriod: number; taxes: number; incomeTax: number; deductions: number; marginalRate: number; effectiveRate: number } | null => {
         const annualGross = parseFloat(values.grossAnnualSalary);
         const payFreq = values.payFrequency;
-        const taxRate = parseFloat(values.effectiveTaxRate || '0') / 100;
+        const otherTaxRate = parseFloat(values.otherTaxRate || '0') / 100;
         const preTaxDedPercent = parseFloat(values.preTaxDeductionsPercent || '0') / 100;
         const postTaxDedFixed = parseFloat(values.postTaxDeductionsFixed || '0');
+        const table = taxTableFor(values);
 
-        if (isNaN(annualGross) || annualGross < 0) return null;
+        if (isNaN(annualGross) || annualGross < 0 || !table) return null;
 
         let periodsPerYear: number;
         switch (payFreq) {
@@ -122,19 +134,22 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
         const grossPerPeriod = annualGross / periodsPerYear;
         const preTaxDedAmount = grossPerPeriod * preTaxDedPercent;
         const taxableIncome = Math.max(0, grossPerPeriod - preTaxDedAmount);
-        const estimatedTaxes = taxableIncome * taxRate; // Simplified tax
+        // Income tax is worked out on the year, then spread evenly over the paychecks
+        const annualTax = computeIncomeTax(table, { income: annualGross, adjustments: Math.min(annualGross, annualGross * preTaxDedPercent) });
+        const incomeTax = annualTax.tax / periodsPerYear;
+        const estimatedTaxes = incomeTax + taxableIncome * otherTaxRate;
         const totalDeductions = preTaxDedAmount + postTaxDedFixed;
-        const netPay = grossPerPeriod - estimatedTaxes - totalDeductions; // Note: This isn't quite right, taxes calculated on taxable income.
-
-        // Recalculate net pay correctly
-        const netPayCorrected = taxableIncome - estimatedTaxes - postTaxDedFixed;
+        const netPay = taxableIncome - estimatedTaxes - postTaxDedFixed;
 
 
         return {
-            net: netPayCorrected,
+            net: netPay,
             grossPeriod: grossPerPeriod,
             taxes: estimatedTaxes,
-            deductions: totalDeductions
+            incomeTax,
+            deductions: totalDeductions,
+            marginalRate: annualTax.marginalRate,
+            effectiveRate: annualTax.effectiveRate,
         };
     };
 
@@ -145,18 +160,22 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
             setGrossPayPerPeriod(result.grossPeriod);
             setTaxesPerPeriod(result.taxes);
             setDeductionsPerPeriod(result.deductions);
+            setIncomeTaxPerPeriod(result.incomeTax);
+            setTaxRates({ marginal: result.marginalRate, effective: result.effectiveRate });
 
 
-            const inputString = `Annual Gross: ${formatCurrency(parseFloat(data.grossAnnualSalary))}, Freq: ${data.payFrequency}, Tax Rate: ${data.effectiveTaxRate}%, Pre-Tax Ded: ${data.preTaxDeductionsPercent}%, Post-Tax Ded: ${formatCurrency(parseFloat(data.postTaxDeductionsFixed || '0'))}`;
-            const resultString = `Est. Net Pay/Period: ${formatCurrency(result.net)}, Gross/Period: ${formatCurrency(result.grossPeriod)}, Taxes/Period: ${formatCurrency(result.taxes)}, Deductions/Period: ${formatCurrency(result.deductions)}`;
+            const inputString = `Annual Gross: ${formatCurrency(parseFloat(data.grossAnnualSalary))}, Freq: ${data.payFrequency}, ${describeTaxTable(data)}, Other Taxes: ${data.otherTaxRate || '0'}%, Pre-Tax Ded: ${data.preTaxDeductionsPercent}%, Post-Tax Ded: ${formatCurrency(parseFloat(data.postTaxDeductionsFixed || '0'))}`;
+            const resultString = `Est. Net Pay/Period: ${formatCurrency(result.net)}, Gross/Period: ${formatCurrency(result.grossPeriod)}, Taxes/Period: ${formatCurrency(result.taxes)} (Income Tax: ${formatCurrency(result.incomeTax)}), Deductions/Period: ${formatCurrency(result.deductions)}, Marginal Rate: ${formatTaxRate(result.marginalRate)}`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 2, outputs: { netPayPerPeriod: result.net, grossPayPerPeriod: result.grossPeriod, taxesPerPeriod: result.taxes, incomeTaxPerPeriod: result.incomeTax, deductionsPerPeriod: result.deductions, marginalRate: result.marginalRate, effectiveRate: result.effectiveRate }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setNetPayPerPeriod(null);
             setGrossPayPerPeriod(null);
             setTaxesPerPeriod(null);
             setDeductionsPerPeriod(null);
+            setIncomeTaxPerPeriod(null);
+            setTaxRates(null);
             form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -192,8 +211,9 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Simplified Estimate)</strong></CardDescription>
             </CardHeader>
             <CardContent>
@@ -202,8 +222,9 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                              <FormField control={form.control} name="grossAnnualSalary" render={({ field }) => (<FormItem><FormLabel>Annual Gross Salary ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 75000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                              <FormField control={form.control} name="payFrequency" render={({ field }) => (<FormItem><FormLabel>Pay Frequency</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select frequency" /></SelectTrigger></FormControl><SelectContent><SelectItem value="weekly">Weekly</SelectItem><SelectItem value="bi-weekly">Bi-Weekly</SelectItem><SelectItem value="semi-monthly">Semi-Monthly</SelectItem><SelectItem value="monthly">Monthly</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
-                             <FormField control={form.control} name="effectiveTaxRate" render={({ field }) => (<FormItem className="md:col-span-2"><FormLabel>Est. Effective Tax Rate (%)</FormLabel><FormControl><Input type="number" placeholder="Total % (Fed+State+Local+FICA)" {...field} step="any" min="0" max="100"/></FormControl><FormMessage /></FormItem>)} />
                          </div>
+                         <TaxFields />
+                         <FormField control={form.control} name="otherTaxRate" render={({ field }) => (<FormItem><FormLabel>Other Taxes (%) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="State + Local + FICA" {...field} step="any" min="0" max="100"/></FormControl><FormDescription className="text-xs">Flat rate on taxable pay, added to federal income tax.</FormDescription><FormMessage /></FormItem>)} />
                           {/* Deductions */}
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
                               <FormField control={form.control} name="preTaxDeductionsPercent" render={({ field }) => (<FormItem><FormLabel>Pre-Tax Deductions (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 5 (for 401k, etc.)" {...field} step="any" min="0" max="100" /></FormControl><FormMessage /></FormItem>)} />
@@ -221,10 +242,11 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
                          <AlertDescription className="space-y-1">
                              <p>Gross Pay per Period: <strong>{formatCurrency(grossPayPerPeriod)}</strong></p>
                              <p>Est. Pre-Tax Deductions: {formatCurrency(grossPayPerPeriod * (parseFloat(form.getValues('preTaxDeductionsPercent')||'0')/100))}</p>
-                             <p>Est. Taxes (Simplified): {formatCurrency(taxesPerPeriod)}</p>
+                             <p>Est. Taxes: {formatCurrency(taxesPerPeriod)}</p>
+                             <p className="text-xs pl-2">Federal Income Tax: {formatCurrency(incomeTaxPerPeriod)}{taxRates && <> (Marginal {formatTaxRate(taxRates.marginal)}, Effective {formatTaxRate(taxRates.effective)})</>}</p>
                              <p>Est. Post-Tax Deductions: {formatCurrency(parseFloat(form.getValues('postTaxDeductionsFixed')||'0'))}</p>
                              <p>Estimated Net Pay (Take-Home): <strong className="text-lg">{formatCurrency(netPayPerPeriod)}</strong></p>
-                             <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: Highly simplified estimate. Actual net pay depends on precise tax withholding (W-4, state/local rules), FICA taxes (Social Security/Medicare), benefit costs, and other deductions. Use for rough planning only.</p>
+                             <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: Federal income tax uses the bracket tables and standard deduction for the whole year's salary; other taxes use the flat rate entered. Actual net pay depends on precise tax withholding (W-4, state/local rules), FICA taxes (Social Security/Medicare), benefit costs, and other deductions. Use for rough planning only.</p>
                          </AlertDescription>
                     </Alert>
                 )}
@@ -233,7 +255,7 @@ export function SalaryCalculator({ slug, calculatorInfo, onCalculation, favorite
                          <AlertTriangle className="h-4 w-4" />
                          <AlertTitle>Important Note</AlertTitle>
                          <AlertDescription>
-                              Accurate salary calculation requires detailed tax information specific to your location, filing status, and W-4 elections, plus exact deduction amounts. This tool uses a simplified effective tax rate. Consult official payroll calculators or your HR/payroll department for precise figures.
+                              Accurate salary calculation requires detailed tax information specific to your location, filing status, and W-4 elections, plus exact deduction amounts. This tool applies federal income tax brackets and a flat rate for other taxes. Consult official payroll calculators or your HR/payroll department for precise figures.
                          </AlertDescription>
                     </Alert>
                   )}
@@ -14,9 +14,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, PiggyBank, Target } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { fv, nper, periodicRate } from '@/lib/finance';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Savings Calculator (Goal focused)
 const savingsSchema = z.object({
@@ -91,6 +94,7 @@ export function SavingsCalculator({ slug, calculatorInfo, onCalculation, favorit
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -154,52 +158,19 @@ export function SavingsCalculator({ slug, calculatorInfo, onCalculation, favorit
          const n_pmt = 12; // Monthly contributions assumed
 
           // Effective rate per contribution period (monthly)
-          const ear = Math.pow(1 + r_annual / n_compound, n_compound) - 1; // Effective Annual Rate
-          const monthlyRate = Math.pow(1 + ear, 1 / n_pmt) - 1; // Effective Monthly Rate
-
-
-         let periodsNeeded: number;
-         if (monthlyRate === 0) {
-             // Time = (Goal - Principal) / Monthly Contribution
-             periodsNeeded = (goal - P) / pmt;
-         } else {
-             // NPER formula needs careful application: log base change might be needed
-             // Using the standard finance library formula logic:
-             // FV = PV*(1+i)^n + Pmt * [((1+i)^n - 1) / i] -> Solve for n (periods)
-             // This requires iteration or a financial library's NPER function.
-
-             // Simplified Iterative Approach: Simulate month by month
-             let currentBalance = P;
-             let months = 0;
-             const MAX_MONTHS = 12 * 150; // 150 year limit
-             while (currentBalance < goal && months < MAX_MONTHS) {
-                 // Interest for the month (using effective monthly rate)
-                 currentBalance *= (1 + monthlyRate);
-                 // Add contribution at the end of the month
-                 currentBalance += pmt;
-                 months++;
-             }
-              periodsNeeded = months;
-              if(months >= MAX_MONTHS) return Infinity; // Didn't reach goal
-         }
+          const monthlyRate = periodicRate(r_annual, n_compound, n_pmt);
 
-          if (!isFinite(periodsNeeded) || periodsNeeded < 0) {
+         const MAX_MONTHS = 12 * 150; // 150 year limit
+         const periodsNeeded = nper(monthlyRate, -pmt, -P, goal);
+          if (!isFinite(periodsNeeded) || periodsNeeded < 0 || periodsNeeded > MAX_MONTHS) {
             return Infinity; // Indicate goal not reached or error
           }
 
          const monthsRounded = Math.ceil(periodsNeeded);
 
-         // Recalculate final balance and interest for the exact number of months
-          let finalBalanceCalc = P;
-          let totalContribMade = 0;
-           for (let i = 0; i < monthsRounded; i++) {
-              finalBalanceCalc *= (1 + monthlyRate);
-              finalBalanceCalc += pmt;
-               totalContribMade += pmt;
-           }
-
-           // Final balance might slightly exceed goal due to rounding up months
-           finalBalanceCalc = Math.min(finalBalanceCalc, goal * 1.001); // Cap slightly above goal if needed, or use exact final pmt calc
+         // Final balance after the whole number of months; contributions are made at the end of each month
+           const finalBalanceCalc = fv(monthlyRate, monthsRounded, -pmt, -P);
+           const totalContribMade = pmt * monthsRounded;
 
            const totalInterestCalc = finalBalanceCalc - P - totalContribMade;
 
@@ -232,7 +203,7 @@ export function SavingsCalculator({ slug, calculatorInfo, onCalculation, favorit
              const timeString = `${years > 0 ? years + ' years' : ''}${years > 0 && months > 0 ? ', ' : ''}${months > 0 ? months + ' months' : years === 0 ? result.months + ' months': ''}`;
             const resultString = `Time to Goal: ~${timeString} (${result.months} months), Final Balance: ${formatCurrency(result.finalAmount)}, Total Interest: ${formatCurrency(result.totalInterest)}`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { monthsToGoal: result.months, finalBalance: result.finalAmount, totalInterest: result.totalInterest }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setTimeToGoal(null);
@@ -270,8 +241,9 @@ export function SavingsCalculator({ slug, calculatorInfo, onCalculation, favorit
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
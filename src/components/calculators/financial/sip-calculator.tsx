@@ -15,9 +15,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, CandlestickChart, TrendingUp } from 'lucide-react'; // Use CandlestickChart for SIP
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { fv, growthPoint, periodicRate, type GrowthPoint } from '@/lib/finance';
+import { GrowthChart } from '../projection-charts';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for SIP Calculator
 const sipSchema = z.object({
@@ -49,6 +53,7 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
     const [futureValue, setFutureValue] = React.useState<number | null>(null);
     const [totalInvested, setTotalInvested] = React.useState<number | null>(null);
     const [estimatedReturns, setEstimatedReturns] = React.useState<number | null>(null); // = FV - Total Invested
+    const [growthPoints, setGrowthPoints] = React.useState<GrowthPoint[]>([]);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -84,10 +89,12 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
             setFutureValue(null);
             setTotalInvested(null);
             setEstimatedReturns(null);
+            setGrowthPoints([]);
             form.clearErrors();
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -95,7 +102,7 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
     }, [currency.symbol]);
 
     // Calculate SIP Future Value (Future Value of an Annuity)
-    const calculateSip = (values: SipFormValues): { fv: number; invested: number; returns: number } | null => {
+    const calculateSip = (values: SipFormValues): { fv: number; invested: number; returns: number; points: GrowthPoint[] } | null => {
         const pmt = parseFloat(values.monthlyInvestment);
         const r_annual = parseFloat(values.expectedReturnRate) / 100;
         const t_years = parseInt(values.investmentPeriod);
@@ -115,23 +122,23 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
         }
 
         // Calculate effective rate per payment period (monthly) based on compounding frequency
-         const ear = Math.pow(1 + r_annual / n_compound, n_compound) - 1; // Effective Annual Rate
-         const monthlyRate = Math.pow(1 + ear, 1 / n_pmt) - 1; // Effective Monthly Rate
+        const monthlyRate = periodicRate(r_annual, n_compound, n_pmt);
 
         const totalPeriods = t_years * n_pmt; // Total number of monthly investments
 
-        // Future Value of Annuity = Pmt * [((1 + i)^n - 1) / i]
-        let fv: number;
-        if (monthlyRate === 0) {
-            fv = pmt * totalPeriods;
-        } else {
-            fv = pmt * ((Math.pow(1 + monthlyRate, totalPeriods) - 1) / monthlyRate);
-        }
+        // Future value of the monthly investments so far
+        const valueAfter = (periods: number) => fv(monthlyRate, periods, -pmt);
+        const futureValueCalc = valueAfter(totalPeriods);
 
         const investedAmount = pmt * totalPeriods;
-        const returnsAmount = fv - investedAmount;
+        const returnsAmount = futureValueCalc - investedAmount;
 
-        return { fv, invested: investedAmount, returns: returnsAmount };
+        const points: GrowthPoint[] = [];
+        for (let year = 0; year <= t_years; year++) {
+            points.push(growthPoint(year, valueAfter(year * n_pmt), pmt * year * n_pmt));
+        }
+
+        return { fv: futureValueCalc, invested: investedAmount, returns: returnsAmount, points };
     };
 
 
@@ -141,6 +148,7 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
             setFutureValue(result.fv);
             setTotalInvested(result.invested);
             setEstimatedReturns(result.returns);
+            setGrowthPoints(result.points);
 
             const inputString = `Monthly SIP: ${formatCurrency(parseFloat(data.monthlyInvestment))}, Rate: ${data.expectedReturnRate}%, Years: ${data.investmentPeriod}, Compound: ${data.compoundingFrequency}`;
             const resultString = `Est. Future Value: ${formatCurrency(result.fv)}, Total Invested: ${formatCurrency(result.invested)}, Est. Returns: ${formatCurrency(result.returns)}`;
@@ -149,6 +157,9 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 1,
+                outputs: { futureValue: result.fv, totalInvested: result.invested, estimatedReturns: result.returns },
                 input: inputString,
                 result: resultString,
             };
@@ -157,6 +168,7 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
             setFutureValue(null);
             setTotalInvested(null);
             setEstimatedReturns(null);
+            setGrowthPoints([]);
              form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -187,8 +199,9 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -215,6 +228,8 @@ export function SipCalculator({ slug, calculatorInfo, onCalculation, favorites,
                         </AlertDescription>
                     </Alert>
                 )}
+
+                <GrowthChart points={growthPoints} formatCurrency={formatCurrency} />
             </CardContent>
         </Card>
     );
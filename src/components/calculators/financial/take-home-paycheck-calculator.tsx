@@ -1,9 +1,9 @@
-
 'use client';
 
 // IMPORTANT: Paycheck calculations are highly complex due to federal, state, and local taxes,
 // pre-tax deductions (401k, health insurance), post-tax deductions (Roth 401k, garnishments),
-// filing status, allowances/dependents, etc. This is a MAJOR SIMPLIFICATION.
+// filing status, allowances/dependents, etc. This models federal and state income tax withholding
+// by the percentage method, FICA and common pre-tax deductions; W-4 credits and local taxes are not included.
 // THIS IS FOR ILLUSTRATIVE PURPOSES ONLY AND NOT ACCURATE TAX CALCULATION.
 
 import * as React from 'react';
@@ -13,34 +13,77 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Calculator, Star, Wallet2, Receipt, AlertTriangle } from 'lucide-react';
+import { Calculator, Star, Wallet2, Receipt, AlertTriangle, ListChecks } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { PAYCHECK_LINES, PAY_PERIODS_PER_YEAR, STATE_TAX_YEAR, US_FILING_STATUSES, US_STATE_INCOME_TAX, runPayroll, sumPaychecks, yearToDate, type PaycheckAmounts } from '@/lib/tax';
+import { TAX_DEFAULTS, TaxFields, describeTaxTable, refineTax, taxSchemaShape } from '../tax-fields';
+import { CopyLinkButton } from '../copy-link-button';
+
+const optionalAmount = z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), { message: "Must be zero or positive." }).optional().default('');
 
-// Zod Schema - Highly Simplified
+const NO_STATE = 'none';
+
+// Zod Schema - Per-period pay, deductions and withholding settings
 const paycheckSchema = z.object({
     grossPay: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
         message: "Gross pay amount must be zero or positive.",
     }),
     payFrequency: z.enum(['weekly', 'bi-weekly', 'semi-monthly', 'monthly']).default('bi-weekly'),
-    federalFilingStatus: z.enum(['single', 'married_jointly' /* , 'married_separately', 'hoh' */ ]).default('single'), // Simplified
-    // VERY Simplified Tax Estimate
-    effectiveTaxRate: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
-        message: "Effective tax rate must be between 0 and 100.",
-    }).optional().default("15"), // Example default effective rate
-     // Simplified Deductions
+    federalFilingStatus: z.enum(['single', 'married_jointly', 'married_separately', 'hoh']).default('single'),
+    // Federal income tax from the bracket tables for this year
+    ...taxSchemaShape,
+    state: z.string().default(NO_STATE),
+    payPeriod: z.string().refine(val => Number.isInteger(Number(val)) && Number(val) >= 1, { message: "Pay period must be 1 or later." }).default('1'),
+     // Deductions per paycheck
+     retirement401k: optionalAmount,
+     hsaContribution: optionalAmount,
+     hsaCoverage: z.enum(['self', 'family']).default('self'),
+     fsaContribution: optionalAmount,
      preTaxDeductions: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {}).optional().default("0"),
      postTaxDeductions: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {}).optional().default("0"),
+     extraWithholding: optionalAmount,
 
+}).superRefine((values, ctx) => {
+    refineTax(values, ctx, values.federalFilingStatus);
+    if (Number(values.payPeriod) > PAY_PERIODS_PER_YEAR[values.payFrequency]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['payPeriod'], message: `A ${values.payFrequency} schedule has ${PAY_PERIODS_PER_YEAR[values.payFrequency]} pay periods.` });
+    }
 });
 
 type PaycheckFormValues = z.infer<typeof paycheckSchema>;
 
+const PAYCHECK_DEFAULTS: PaycheckFormValues = {
+    grossPay: '',
+    payFrequency: 'bi-weekly',
+    federalFilingStatus: 'single',
+    ...TAX_DEFAULTS,
+    state: NO_STATE,
+    payPeriod: '1',
+    retirement401k: '',
+    hsaContribution: '',
+    hsaCoverage: 'self',
+    fsaContribution: '',
+    preTaxDeductions: '0',
+    postTaxDeductions: '0',
+    extraWithholding: '',
+};
+
+interface PayStub {
+    period: number;
+    periodsPerYear: number;
+    current: PaycheckAmounts;
+    ytd: PaycheckAmounts;
+    annual: PaycheckAmounts;
+}
+
 interface TakeHomePaycheckCalculatorProps {
     slug: string;
     calculatorInfo: CalculatorInfo;
@@ -51,8 +94,7 @@ interface TakeHomePaycheckCalculatorProps {
 }
 
 export function TakeHomePaycheckCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: TakeHomePaycheckCalculatorProps) {
-    const [netPay, setNetPay] = React.useState<number | null>(null);
-    const [totalTaxes, setTotalTaxes] = React.useState<number | null>(null);
+    const [payStub, setPayStub] = React.useState<PayStub | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -75,63 +117,87 @@ export function TakeHomePaycheckCalculator({ slug, calculatorInfo, onCalculation
 
     const form = useForm<PaycheckFormValues>({
         resolver: zodResolver(paycheckSchema),
-        defaultValues: {
-            grossPay: '',
-            payFrequency: 'bi-weekly',
-            federalFilingStatus: 'single',
-            effectiveTaxRate: '15',
-            preTaxDeductions: '0',
-            postTaxDeductions: '0',
-        },
+        defaultValues: PAYCHECK_DEFAULTS,
     });
 
     React.useEffect(() => {
         if (mounted) {
-             form.reset({ payFrequency: 'bi-weekly', federalFilingStatus: 'single', effectiveTaxRate: '15', preTaxDeductions: '0', postTaxDeductions: '0' });
-            setNetPay(null);
-             setTotalTaxes(null);
+             form.reset(PAYCHECK_DEFAULTS);
+            setPayStub(null);
             form.clearErrors();
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    // Calculate Simplified Take-Home Pay
-    const calculateNetPay = (values: PaycheckFormValues): { net: number; taxes: number } | null => {
+    // Run every paycheck of the year so caps and thresholds land in the right period
+    const calculatePayStub = (values: PaycheckFormValues): PayStub | null => {
         const gross = parseFloat(values.grossPay);
-        const preTaxDed = parseFloat(values.preTaxDeductions || '0');
-        const postTaxDed = parseFloat(values.postTaxDeductions || '0');
-        const taxRate = parseFloat(values.effectiveTaxRate || '0') / 100;
+        const amount = (value: string | undefined) => parseFloat(value || '0');
+        const period = parseInt(values.payPeriod);
 
-        if (isNaN(gross) || gross < 0 || isNaN(preTaxDed) || isNaN(postTaxDed) || isNaN(taxRate)) {
+        if (isNaN(gross) || gross < 0 || isNaN(period)) {
             return null;
         }
 
-        const taxableIncome = Math.max(0, gross - preTaxDed);
-        const estimatedTaxes = taxableIncome * taxRate; // Highly simplified tax calculation
-        const netPayCalc = taxableIncome - estimatedTaxes - postTaxDed;
+        const paychecks = runPayroll({
+            grossPay: gross,
+            frequency: values.payFrequency,
+            taxYear: values.taxYear,
+            filingStatus: values.federalFilingStatus,
+            state: values.state === NO_STATE ? null : values.state,
+            retirement401k: amount(values.retirement401k),
+            hsa: amount(values.hsaContribution),
+            hsaCoverage: values.hsaCoverage,
+            fsa: amount(values.fsaContribution),
+            otherPreTax: amount(values.preTaxDeductions),
+            postTax: amount(values.postTaxDeductions),
+            extraWithholding: amount(values.extraWithholding),
+        });
+        const periodsPerYear = paychecks.length;
+        const stubPeriod = Math.min(period, periodsPerYear);
 
-        return { net: netPayCalc, taxes: estimatedTaxes };
+        return { period: stubPeriod, periodsPerYear, current: paychecks[stubPeriod - 1], ytd: yearToDate(paychecks, stubPeriod), annual: sumPaychecks(paychecks) };
     };
 
     const onSubmit: SubmitHandler<PaycheckFormValues> = (data) => {
-        const result = calculateNetPay(data);
+        const result = calculatePayStub(data);
         if (result) {
-            setNetPay(result.net);
-            setTotalTaxes(result.taxes);
+            setPayStub(result);
 
-            const inputString = `Gross: ${formatCurrency(parseFloat(data.grossPay))} (${data.payFrequency}), Status: ${data.federalFilingStatus}, Eff. Tax Rate: ${data.effectiveTaxRate}%, Pre-Tax Ded: ${formatCurrency(parseFloat(data.preTaxDeductions || '0'))}, Post-Tax Ded: ${formatCurrency(parseFloat(data.postTaxDeductions || '0'))}`;
-            const resultString = `Estimated Net Pay: ${formatCurrency(result.net)}, Estimated Taxes: ${formatCurrency(result.taxes)}`;
+            const { current, ytd } = result;
+            const taxes = current.federalIncomeTax + current.socialSecurity + current.medicare + current.additionalMedicare + current.stateIncomeTax;
+            const state = US_STATE_INCOME_TAX[data.state]?.name ?? 'No State Tax';
+            const inputString = `Gross: ${formatCurrency(parseFloat(data.grossPay))} (${data.payFrequency}), ${describeTaxTable(data, data.federalFilingStatus)}, State: ${state}, 401(k): ${formatCurrency(parseFloat(data.retirement401k || '0'))}, HSA: ${formatCurrency(parseFloat(data.hsaContribution || '0'))}, FSA: ${formatCurrency(parseFloat(data.fsaContribution || '0'))}, Other Pre-Tax: ${formatCurrency(parseFloat(data.preTaxDeductions || '0'))}, Post-Tax Ded: ${formatCurrency(parseFloat(data.postTaxDeductions || '0'))}, Period: ${result.period} of ${result.periodsPerYear}`;
+            const resultString = `Net Pay: ${formatCurrency(current.net)} (YTD ${formatCurrency(ytd.net)}), Federal: ${formatCurrency(current.federalIncomeTax)}, Social Security: ${formatCurrency(current.socialSecurity)}, Medicare: ${formatCurrency(current.medicare + current.additionalMedicare)}, State: ${formatCurrency(current.stateIncomeTax)}, Total Taxes: ${formatCurrency(taxes)}`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = {
+                id: Date.now().toString(),
+                calculatorSlug: slug,
+                timestamp: new Date(),
+                values: data,
+                calculatorVersion: 3,
+                outputs: {
+                    netPay: current.net,
+                    totalTaxes: taxes,
+                    federalIncomeTax: current.federalIncomeTax,
+                    socialSecurity: current.socialSecurity,
+                    medicare: current.medicare + current.additionalMedicare,
+                    stateIncomeTax: current.stateIncomeTax,
+                    ytdNetPay: ytd.net,
+                    annualNetPay: result.annual.net,
+                },
+                input: inputString,
+                result: resultString,
+            };
             onCalculation(historyEntry);
         } else {
-            setNetPay(null);
-            setTotalTaxes(null);
+            setPayStub(null);
              form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -140,26 +206,32 @@ export function TakeHomePaycheckCalculator({ slug, calculatorInfo, onCalculation
      // Skeleton Loader
     if (!mounted) {
         return (
-            <Card className="w-full max-w-lg mx-auto">
+            <Card className="w-full max-w-2xl mx-auto">
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
                     <Skeleton className="h-4 w-full" />
                 </CardHeader>
                  <CardContent className="space-y-6">
-                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                         <Skeleton className="h-10 w-full" />
+                         <Skeleton className="h-10 w-full" />
                          <Skeleton className="h-10 w-full" />
                          <Skeleton className="h-10 w-full" />
                          <Skeleton className="h-10 w-full" />
                          <Skeleton className="h-10 w-full" />
                      </div>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                           <Skeleton className="h-10 w-full" />
+                           <Skeleton className="h-10 w-full" />
+                           <Skeleton className="h-10 w-full" />
+                           <Skeleton className="h-10 w-full" />
                            <Skeleton className="h-10 w-full" />
                            <Skeleton className="h-10 w-full" />
                        </div>
                     <Skeleton className="h-10 w-full" /> {/* Button Skeleton */}
                     <Skeleton className="mt-6 h-20 w-full" /> {/* Result Skeleton */}
-                     <Skeleton className="h-16 w-full" /> {/* Disclaimer Skeleton */}
+                    <Skeleton className="h-[300px] w-full" /> {/* Pay Stub Skeleton */}
                 </CardContent>
             </Card>
         );
@@ -167,25 +239,33 @@ export function TakeHomePaycheckCalculator({ slug, calculatorInfo, onCalculation
 
 
     return (
-        <Card className="w-full max-w-lg mx-auto">
+        <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
-                <CardDescription>{description} <strong className='text-destructive'>(Simplified Estimate)</strong></CardDescription>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <CardDescription>{description} <strong className='text-destructive'>(Estimate)</strong></CardDescription>
             </CardHeader>
             <CardContent>
                 <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                             <FormField control={form.control} name="grossPay" render={({ field }) => (<FormItem><FormLabel>Gross Pay per Period ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 3000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                              <FormField control={form.control} name="payFrequency" render={({ field }) => (<FormItem><FormLabel>Pay Frequency</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select frequency" /></SelectTrigger></FormControl><SelectContent><SelectItem value="weekly">Weekly</SelectItem><SelectItem value="bi-weekly">Bi-Weekly</SelectItem><SelectItem value="semi-monthly">Semi-Monthly</SelectItem><SelectItem value="monthly">Monthly</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
-                            <FormField control={form.control} name="federalFilingStatus" render={({ field }) => (<FormItem><FormLabel>Federal Filing Status</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select status" /></SelectTrigger></FormControl><SelectContent><SelectItem value="single">Single</SelectItem><SelectItem value="married_jointly">Married Filing Jointly</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
-                             <FormField control={form.control} name="effectiveTaxRate" render={({ field }) => (<FormItem><FormLabel>Est. Effective Tax Rate (%)</FormLabel><FormControl><Input type="number" placeholder="Overall rate (Fed+State+Local)" {...field} step="any" min="0" max="100"/></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="payPeriod" render={({ field }) => (<FormItem><FormLabel>Pay Period #</FormLabel><FormControl><Input type="number" placeholder="e.g., 1" {...field} step="1" min="1" /></FormControl><FormDescription className="text-xs">For year-to-date totals.</FormDescription><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="federalFilingStatus" render={({ field }) => (<FormItem><FormLabel>Federal Filing Status</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select status" /></SelectTrigger></FormControl><SelectContent>{Object.entries(US_FILING_STATUSES).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                            <TaxFields showFilingStatus={false} />
+                            <FormField control={form.control} name="state" render={({ field }) => (<FormItem><FormLabel>State</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select state" /></SelectTrigger></FormControl><SelectContent><SelectItem value={NO_STATE}>None / Not Listed</SelectItem>{Object.entries(US_STATE_INCOME_TAX).sort(([, a], [, b]) => a.name.localeCompare(b.name)).map(([code, state]) => <SelectItem key={code} value={code}>{state.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
                         </div>
                          {/* Deductions */}
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
-                             <FormField control={form.control} name="preTaxDeductions" render={({ field }) => (<FormItem><FormLabel>Pre-Tax Deductions ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="401k, health ins., etc." {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 border-t pt-4">
+                             <FormField control={form.control} name="retirement401k" render={({ field }) => (<FormItem><FormLabel>401(k) ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Per paycheck" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                             <FormField control={form.control} name="hsaContribution" render={({ field }) => (<FormItem><FormLabel>HSA ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Per paycheck" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                             <FormField control={form.control} name="hsaCoverage" render={({ field }) => (<FormItem><FormLabel>HSA Coverage</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="self">Self-Only</SelectItem><SelectItem value="family">Family</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
+                             <FormField control={form.control} name="fsaContribution" render={({ field }) => (<FormItem><FormLabel>Health FSA ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Per paycheck" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                             <FormField control={form.control} name="preTaxDeductions" render={({ field }) => (<FormItem><FormLabel>Other Pre-Tax ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="Health premiums, etc." {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                              <FormField control={form.control} name="postTaxDeductions" render={({ field }) => (<FormItem><FormLabel>Post-Tax Deductions ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="Roth 401k, garnishments" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                             <FormField control={form.control} name="extraWithholding" render={({ field }) => (<FormItem><FormLabel>Extra Federal Withholding ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="W-4 Step 4(c)" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                          </div>
 
                          {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
@@ -193,23 +273,49 @@ export function TakeHomePaycheckCalculator({ slug, calculatorInfo, onCalculation
                     </form>
                 </Form>
 
-                {netPay !== null && totalTaxes !== null && (
+                {payStub && (
                     <Alert className="mt-6">
                          <Receipt className="h-4 w-4" />
                         <AlertTitle>Estimated Paycheck Summary ({currency.code})</AlertTitle>
-                        <AlertDescription>
-                            <p>Estimated Net Pay (Take-Home): <strong>{formatCurrency(netPay)}</strong></p>
-                            <p>Estimated Total Taxes (Simplified): <strong>{formatCurrency(totalTaxes)}</strong></p>
-                             <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: This is a highly simplified estimate. Actual net pay depends on specific federal, state, and local tax withholding (based on W-4), FICA taxes (Social Security/Medicare), exact pre/post-tax deduction amounts, and other factors. Use official payroll calculators or consult a tax professional for accuracy.</p>
+                        <AlertDescription className="space-y-1">
+                            <p>Estimated Net Pay (Take-Home): <strong className="text-lg">{formatCurrency(payStub.current.net)}</strong></p>
+                            <p>Total Taxes This Period: <strong>{formatCurrency(payStub.current.federalIncomeTax + payStub.current.socialSecurity + payStub.current.medicare + payStub.current.additionalMedicare + payStub.current.stateIncomeTax)}</strong></p>
+                            <p className="text-xs">Net Pay Year to Date (Period {payStub.period} of {payStub.periodsPerYear}): {formatCurrency(payStub.ytd.net)} &middot; Full Year: {formatCurrency(payStub.annual.net)}</p>
+                             <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: Withholding is estimated with the annualized percentage method and the full standard deduction. State tax uses {STATE_TAX_YEAR} rules without credits; local taxes, W-4 dependent credits and catch-up contributions are not included. Use official payroll calculators or consult a tax professional for accuracy.</p>
                         </AlertDescription>
                     </Alert>
                 )}
-                 {!netPay && (
+                {payStub && (
+                    <div className="mt-6">
+                        <h3 className="text-lg font-semibold flex items-center gap-2 mb-3"><ListChecks className="h-5 w-5 text-primary" />Pay Stub ({currency.code})</h3>
+                        <Table className="border">
+                            <TableHeader className="bg-muted">
+                                <TableRow>
+                                    <TableHead>Item</TableHead>
+                                    <TableHead className="text-right">This Period</TableHead>
+                                    <TableHead className="text-right">Year to Date</TableHead>
+                                    <TableHead className="text-right">Full Year</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {PAYCHECK_LINES.filter(line => line.section === 'earnings' || line.section === 'net' || payStub.annual[line.key] > 0).map(line => (
+                                    <TableRow key={line.key} className={cn((line.section === 'earnings' || line.section === 'net') && 'font-semibold')}>
+                                        <TableCell className={cn(line.section !== 'earnings' && line.section !== 'net' && 'pl-6')}>{line.label}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(payStub.current[line.key])}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(payStub.ytd[line.key])}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(payStub.annual[line.key])}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+                 {!payStub && (
                       <Alert variant="destructive" className="mt-6">
                          <AlertTriangle className="h-4 w-4" />
                          <AlertTitle>Important Note</AlertTitle>
                          <AlertDescription>
-                              Accurate paycheck calculation requires detailed tax tables, withholding information (W-4), and specific deduction rules. This calculator uses a simple effective tax rate and basic deductions for a rough estimate only. For precise figures, use a dedicated payroll calculator or consult your employer/payroll provider.
+                              Accurate paycheck calculation requires your exact W-4 elections, local tax rules and employer benefit details. This calculator estimates federal and state withholding, Social Security and Medicare for a rough estimate only. For precise figures, use a dedicated payroll calculator or consult your employer/payroll provider.
                          </AlertDescription>
                     </Alert>
                   )}
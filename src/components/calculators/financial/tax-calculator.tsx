@@ -2,8 +2,8 @@
 'use client';
 
 // IMPORTANT: Tax calculations are extremely complex and vary significantly based on jurisdiction,
-// filing status, income sources, deductions, credits, etc. This calculator provides a grossly
-// simplified estimate for illustrative purposes only.
+// filing status, income sources, deductions, credits, etc. This calculator applies the income tax
+// brackets and standard deduction only; it ignores credits, capital gains rates and other taxes.
 // DO NOT use this for actual tax planning or filing. Consult a tax professional.
 
 import * as React from 'react';
@@ -13,23 +13,31 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Receipt, Percent, AlertTriangle } from 'lucide-react';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { TAX_SYSTEMS, computeIncomeTax, type IncomeTaxResult } from '@/lib/tax';
+import { TAX_DEFAULTS, TaxBracketTable, TaxFields, describeTaxTable, formatTaxRate, refineTax, taxSchemaShape, taxTableFor } from '../tax-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
-// Zod Schema - Simplified Effective Tax Rate Calculation
+// Zod Schema - Income tax by bracket for the chosen system, year and filing status
 const taxSchema = z.object({
-    taxableIncome: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
-        message: "Taxable income must be zero or positive.",
+    annualIncome: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
+        message: "Annual income must be zero or positive.",
     }),
-    effectiveTaxRate: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
-        message: "Effective tax rate must be between 0 and 100.",
-    }),
-});
+    preTaxAdjustments: z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), {
+        message: "Pre-tax deductions must be zero or positive.",
+    }).optional().default(''),
+    itemizedDeductions: z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), {
+        message: "Itemized deductions must be zero or positive.",
+    }).optional().default(''),
+    ...taxSchemaShape,
+}).superRefine((values, ctx) => refineTax(values, ctx));
 
 type TaxFormValues = z.infer<typeof taxSchema>;
 
@@ -45,6 +53,7 @@ interface TaxCalculatorProps {
 export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: TaxCalculatorProps) {
     const [estimatedTax, setEstimatedTax] = React.useState<number | null>(null);
     const [netIncome, setNetIncome] = React.useState<number | null>(null);
+    const [taxResult, setTaxResult] = React.useState<IncomeTaxResult | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -67,8 +76,10 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
     const form = useForm<TaxFormValues>({
         resolver: zodResolver(taxSchema),
         defaultValues: {
-            taxableIncome: '',
-            effectiveTaxRate: '',
+            annualIncome: '',
+            preTaxAdjustments: '',
+            itemizedDeductions: '',
+            ...TAX_DEFAULTS,
         },
     });
 
@@ -77,28 +88,32 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
             form.reset();
             setEstimatedTax(null);
             setNetIncome(null);
+            setTaxResult(null);
             form.clearErrors();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
-    const calculateTax = (values: TaxFormValues): { tax: number; net: number } | null => {
-        const income = parseFloat(values.taxableIncome);
-        const rate = parseFloat(values.effectiveTaxRate) / 100;
+    const calculateTax = (values: TaxFormValues): { tax: number; net: number; result: IncomeTaxResult } | null => {
+        const income = parseFloat(values.annualIncome);
+        const adjustments = parseFloat(values.preTaxAdjustments || '0');
+        const itemizedDeductions = parseFloat(values.itemizedDeductions || '0');
+        const table = taxTableFor(values);
 
-        if (isNaN(income) || income < 0 || isNaN(rate) || rate < 0 || rate > 1) {
+        if (isNaN(income) || income < 0 || isNaN(adjustments) || adjustments < 0 || isNaN(itemizedDeductions) || itemizedDeductions < 0 || !table) {
             return null;
         }
 
-        const taxAmount = income * rate;
-        const netAmount = income - taxAmount;
+        const result = computeIncomeTax(table, { income, adjustments, itemizedDeductions });
+        const netAmount = income - result.tax;
 
-        return { tax: taxAmount, net: netAmount };
+        return { tax: result.tax, net: netAmount, result };
     };
 
     const onSubmit: SubmitHandler<TaxFormValues> = (data) => {
@@ -106,14 +121,18 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
         if (result) {
             setEstimatedTax(result.tax);
             setNetIncome(result.net);
+            setTaxResult(result.result);
 
-            const inputString = `Taxable Income: ${formatCurrency(parseFloat(data.taxableIncome))}, Effective Rate: ${data.effectiveTaxRate}%`;
-            const resultString = `Estimated Tax: ${formatCurrency(result.tax)}, Net Income: ${formatCurrency(result.net)}`;
+            const inputString = `Income: ${formatCurrency(parseFloat(data.annualIncome))}, Pre-Tax Deductions: ${formatCurrency(result.result.income - result.result.adjustedIncome)}, Itemized: ${formatCurrency(parseFloat(data.itemizedDeductions || '0'))}, ${describeTaxTable(data)}`;
+            const resultString = `Estimated Tax: ${formatCurrency(result.tax)}, Net Income: ${formatCurrency(result.net)}, Taxable Income: ${formatCurrency(result.result.taxableIncome)}, Marginal Rate: ${formatTaxRate(result.result.marginalRate)}, Effective Rate: ${formatTaxRate(result.result.effectiveRate)}`;
 
             const historyEntry: HistoryEntry = {
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 2,
+                outputs: { estimatedTax: result.tax, netIncome: result.net, taxableIncome: result.result.taxableIncome, deduction: result.result.deduction, marginalRate: result.result.marginalRate, effectiveRate: result.result.effectiveRate },
                 input: inputString,
                 result: resultString,
             };
@@ -121,6 +140,7 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
         } else {
             setEstimatedTax(null);
             setNetIncome(null);
+            setTaxResult(null);
              form.setError("root", {message: "Calculation failed. Check inputs."});
             console.error("Calculation failed. Check inputs.");
         }
@@ -129,15 +149,23 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
      // Skeleton Loader
     if (!mounted) {
         return (
-            <Card className="w-full max-w-lg mx-auto">
+            <Card className="w-full max-w-2xl mx-auto">
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
                     <Skeleton className="h-4 w-full" />
                 </CardHeader>
                 <CardContent className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                    </div>
                     <Skeleton className="h-10 w-full" />
-                    <Skeleton className="h-10 w-full" />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <Skeleton className="h-10 w-full" />
+                        <Skeleton className="h-10 w-full" />
+                    </div>
                     <Skeleton className="h-10 w-full" /> {/* Button */}
                     <Skeleton className="mt-6 h-20 w-full" /> {/* Result */}
                     <Skeleton className="h-16 w-full" /> {/* Disclaimer */}
@@ -147,30 +175,42 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
     }
 
     return (
-        <Card className="w-full max-w-lg mx-auto">
+        <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Simplified Estimate)</strong></CardDescription>
             </CardHeader>
             <CardContent>
                  <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                        <FormField control={form.control} name="taxableIncome" render={({ field }) => (<FormItem><FormLabel>Taxable Income ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="Amount subject to tax" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
-                        <FormField control={form.control} name="effectiveTaxRate" render={({ field }) => (<FormItem><FormLabel>Effective Tax Rate (%)</FormLabel><FormControl><Input type="number" placeholder="Overall % (Fed+State+Local)" {...field} step="any" min="0" max="100" /></FormControl><FormDescription className="text-xs">Enter your estimated combined tax rate.</FormDescription><FormMessage /></FormItem>)} />
+                        <TaxFields showSystem />
+                        <FormField control={form.control} name="annualIncome" render={({ field }) => (<FormItem><FormLabel>Annual Gross Income ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="Wages, interest, other ordinary income" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <FormField control={form.control} name="preTaxAdjustments" render={({ field }) => (<FormItem><FormLabel>Pre-Tax Deductions ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="401k, HSA, pension" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                            <FormField control={form.control} name="itemizedDeductions" render={({ field }) => (<FormItem><FormLabel>Itemized Deductions ({currency.symbol}) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="Used if above standard" {...field} step="any" min="0" /></FormControl><FormDescription className="text-xs">The standard deduction or allowance is used when larger.</FormDescription><FormMessage /></FormItem>)} />
+                        </div>
                         {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
                         <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Estimate Tax</Button>
                     </form>
                 </Form>
 
-                 {estimatedTax !== null && netIncome !== null && (
+                 {estimatedTax !== null && netIncome !== null && taxResult && (
                     <Alert className="mt-6">
                         <Receipt className="h-4 w-4" />
                         <AlertTitle>Estimated Tax ({currency.code})</AlertTitle>
-                        <AlertDescription>
+                        <AlertDescription className="space-y-1">
                             <p>Estimated Tax Amount: <strong>{formatCurrency(estimatedTax)}</strong></p>
                             <p>Estimated Net Income (After Tax): <strong>{formatCurrency(netIncome)}</strong></p>
-                            <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: Extremely simplified calculation using an effective rate. Actual taxes depend on brackets, deductions, credits, and specific tax laws. Consult a tax professional.</p>
+                            <p className="text-xs mt-1">{taxResult.deductionType === 'itemized' ? 'Itemized Deductions' : 'Standard Deduction'}: {formatCurrency(taxResult.deduction)}</p>
+                            <p className="text-xs">Taxable Income: {formatCurrency(taxResult.taxableIncome)}</p>
+                            <p className="text-xs">Marginal Rate: <strong>{formatTaxRate(taxResult.marginalRate)}</strong> &middot; Effective Rate: <strong>{formatTaxRate(taxResult.effectiveRate)}</strong></p>
+                            {TAX_SYSTEMS[form.getValues('taxSystem')]?.currencyCode !== currency.code && (
+                                <p className="text-xs">Bracket amounts are in {TAX_SYSTEMS[form.getValues('taxSystem')]?.currencyCode}; enter income in that currency.</p>
+                            )}
+                            <div className="mt-2"><TaxBracketTable result={taxResult} formatCurrency={formatCurrency} /></div>
+                            <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: Income tax from the brackets and standard deduction only. Credits, capital gains rates, state or local taxes and payroll taxes are not included. Consult a tax professional.</p>
                         </AlertDescription>
                     </Alert>
                 )}
@@ -179,7 +219,7 @@ export function TaxCalculator({ slug, calculatorInfo, onCalculation, favorites,
                          <AlertTriangle className="h-4 w-4" />
                          <AlertTitle>Important Note</AlertTitle>
                          <AlertDescription>
-                              Tax calculation is complex. This tool uses a single effective rate for a basic estimate only. It does not account for tax brackets, deductions, credits, different income types, or specific jurisdictional rules. Use official tax software or consult a qualified tax professional for accurate tax planning and filing.
+                              Tax calculation is complex. This tool applies the published income tax brackets and standard deduction for the chosen year and filing status only. It does not account for credits, different income types, or state and local rules. Use official tax software or consult a qualified tax professional for accurate tax planning and filing.
                          </AlertDescription>
                     </Alert>
                   )}
@@ -16,10 +16,16 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Home, HandCoins, ShieldCheck, AlertTriangle } from 'lucide-react'; // Using ShieldCheck for VA aspect
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { loanPayment } from '@/lib/finance';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { amortizationExport } from '@/lib/schedule-export';
+import { AmortizationTable } from '../amortization-table';
+import { ARM_DEFAULTS, ArmFields, ArmResults, armSchemaShape, armTerms, describeArm, projectArm, refineArm, type ArmProjection } from '../arm-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
 
 // Zod Schema for VA Loan Calculator (Simplified)
@@ -32,7 +38,8 @@ const vaLoanSchema = z.object({
    // Optional PITI components
   propertyTaxes: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {}).optional().default("0"),
   homeownersInsurance: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {}).optional().default("0"),
-});
+  ...armSchemaShape,
+}).superRefine((values, ctx) => refineArm(values, ctx, parseInt(values.loanTerm)));
 
 type VaLoanFormValues = z.infer<typeof vaLoanSchema>;
 
@@ -50,6 +57,7 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
     const [fundingFeeAmount, setFundingFeeAmount] = React.useState<number | null>(null);
     const [estimatedTotalPayment, setEstimatedTotalPayment] = React.useState<number | null>(null); // PITI
     const [totalLoanWithFee, setTotalLoanWithFee] = React.useState<number | null>(null);
+    const [arm, setArm] = React.useState<ArmProjection | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -79,20 +87,23 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
             vaFundingFeePercent: '', // No default - user MUST provide based on status
             propertyTaxes: '0',
             homeownersInsurance: '0',
+            ...ARM_DEFAULTS,
         },
     });
 
     React.useEffect(() => {
         if (mounted) {
-            form.reset({ loanTerm: '30', propertyTaxes: '0', homeownersInsurance: '0', vaFundingFeePercent: ''});
+            form.reset({ loanTerm: '30', propertyTaxes: '0', homeownersInsurance: '0', vaFundingFeePercent: '', ...ARM_DEFAULTS });
             setPrincipalAndInterest(null);
             setFundingFeeAmount(null);
             setEstimatedTotalPayment(null);
             setTotalLoanWithFee(null);
+            setArm(null);
             form.clearErrors();
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+    useFormPrefill(form, mounted);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
@@ -100,7 +111,7 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
     }, [currency.symbol]);
 
     // Calculate VA Loan Payment
-    const calculateVaLoan = (values: VaLoanFormValues): { pi: number; feeAmount: number; totalPayment: number; totalLoan: number; } | null => {
+    const calculateVaLoan = (values: VaLoanFormValues): { pi: number; feeAmount: number; totalPayment: number; totalLoan: number; arm: ArmProjection | null; } | null => {
         const baseLoanAmount = parseFloat(values.loanAmount);
         const rate = parseFloat(values.interestRate) / 100;
         const termYears = parseInt(values.loanTerm);
@@ -121,12 +132,11 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
         const numberOfPayments = termYears * 12;
         let piPayment: number;
 
-        if (monthlyRate === 0) {
-            piPayment = totalLoanAmount / numberOfPayments;
-        } else {
-            piPayment = totalLoanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-            if (!isFinite(piPayment)) return null; // Check for calculation issues
-        }
+        // An ARM's initial payment; later payments follow the rate path
+        const terms = armTerms(values, rate);
+        const arm = terms ? projectArm(values, terms, totalLoanAmount, termYears) : null;
+        piPayment = arm ? arm.result.payment : loanPayment(totalLoanAmount, monthlyRate, numberOfPayments);
+        if (!isFinite(piPayment)) return null; // Check for calculation issues
 
         // Calculate monthly taxes and insurance
         const monthlyTaxes = annualTaxes / 12;
@@ -140,6 +150,7 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
             feeAmount: feeAmountCalc,
             totalPayment: totalMonthlyPayment,
             totalLoan: totalLoanAmount,
+            arm,
         };
     };
 
@@ -151,18 +162,20 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
             setFundingFeeAmount(result.feeAmount);
             setEstimatedTotalPayment(result.totalPayment);
             setTotalLoanWithFee(result.totalLoan);
+            setArm(result.arm);
 
 
-            const inputString = `Loan: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} yrs, Funding Fee: ${data.vaFundingFeePercent}%, Taxes: ${formatCurrency(parseFloat(data.propertyTaxes || '0'))}/yr, Insurance: ${formatCurrency(parseFloat(data.homeownersInsurance || '0'))}/yr`;
-            const resultString = `Est. Total Monthly PITI: ${formatCurrency(result.totalPayment)} (P&I: ${formatCurrency(result.pi)}, T&I: ${formatCurrency((parseFloat(data.propertyTaxes||'0')/12)+(parseFloat(data.homeownersInsurance||'0')/12))}). Funding Fee: ${formatCurrency(result.feeAmount)}. Total Loan Amt: ${formatCurrency(result.totalLoan)}.`;
+            const inputString = `Loan: ${formatCurrency(parseFloat(data.loanAmount))}, Rate: ${data.interestRate}%, Term: ${data.loanTerm} yrs, Funding Fee: ${data.vaFundingFeePercent}%, Taxes: ${formatCurrency(parseFloat(data.propertyTaxes || '0'))}/yr, Insurance: ${formatCurrency(parseFloat(data.homeownersInsurance || '0'))}/yr${result.arm ? `, ${describeArm(data)}` : ''}`;
+            const resultString = `Est. Total Monthly PITI: ${formatCurrency(result.totalPayment)} (P&I: ${formatCurrency(result.pi)}, T&I: ${formatCurrency((parseFloat(data.propertyTaxes||'0')/12)+(parseFloat(data.homeownersInsurance||'0')/12))}). Funding Fee: ${formatCurrency(result.feeAmount)}. Total Loan Amt: ${formatCurrency(result.totalLoan)}.${result.arm ? ` Worst-Case P&I: ${formatCurrency(result.arm.worstCase.maxPayment)}.` : ''}`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { totalMonthlyPayment: result.totalPayment, principalAndInterest: result.pi, fundingFee: result.feeAmount, totalLoanAmount: result.totalLoan, worstCasePayment: result.arm?.worstCase.maxPayment ?? null }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setPrincipalAndInterest(null);
             setFundingFeeAmount(null);
             setEstimatedTotalPayment(null);
             setTotalLoanWithFee(null);
+            setArm(null);
             form.setError("root", { message: "Calculation failed. Check inputs." });
             console.error("Calculation failed. Check inputs.");
         }
@@ -171,7 +184,7 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
      // Skeleton Loader
     if (!mounted) {
         return (
-             <Card className="w-full max-w-xl mx-auto"> {/* Wider Card */}
+             <Card className="w-full max-w-2xl mx-auto"> {/* Wider Card */}
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
@@ -200,10 +213,11 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
 
 
     return (
-         <Card className="w-full max-w-xl mx-auto"> {/* Wider Card */}
+         <Card className="w-full max-w-2xl mx-auto"> {/* Wider Card */}
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Simplified Estimate)</strong></CardDescription>
             </CardHeader>
             <CardContent>
@@ -221,6 +235,7 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
                               <FormField control={form.control} name="propertyTaxes" render={({ field }) => (<FormItem><FormLabel>Property Taxes ({currency.symbol}/yr) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 3500" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                               <FormField control={form.control} name="homeownersInsurance" render={({ field }) => (<FormItem><FormLabel>Home Insurance ({currency.symbol}/yr) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 1000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
                           </div>
+                          <ArmFields />
                            {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
                         <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Calculate VA Payment</Button>
                     </form>
@@ -236,9 +251,29 @@ export function VaMortgageCalculator({ slug, calculatorInfo, onCalculation, favo
                              <p className="text-xs">Taxes & Insurance (Est. Monthly): {formatCurrency((parseFloat(form.getValues('propertyTaxes')||'0')/12) + (parseFloat(form.getValues('homeownersInsurance')||'0')/12))}</p>
                              <p className="text-xs mt-1">VA Funding Fee (Financed): {formatCurrency(fundingFeeAmount)}</p>
                              <p className="text-xs">Total Loan Amount (incl. Funding Fee): {formatCurrency(totalLoanWithFee)}</p>
+                             {arm && <ArmResults projection={arm} formatCurrency={formatCurrency} />}
                              <p className="text-xs mt-2 font-semibold text-destructive">Disclaimer: This is an estimate. VA Funding Fee percentage varies based on service history, down payment (if any), and prior VA loan use. Property taxes and insurance are estimates. Consult official VA resources and a VA-approved lender.</p>
                         </AlertDescription>
                     </Alert>
+                )}
+                {arm && (
+                    <AmortizationTable
+                        title={`Amortization Schedule (P&I) (${currency.code})`}
+                        schedule={arm.result.schedule}
+                        formatCurrency={formatCurrency}
+                        buildExport={() => amortizationExport({
+                            title: 'VA Loan Amortization Schedule',
+                            currency,
+                            schedule: arm.result.schedule,
+                            summary: [
+                                { label: 'Total Loan Amount (incl. Funding Fee)', value: totalLoanWithFee ?? 0, format: 'currency' },
+                                { label: 'Initial Principal & Interest', value: arm.result.payment, format: 'currency' },
+                                { label: 'Highest P&I Payment (Rate Path)', value: arm.result.maxPayment, format: 'currency' },
+                                { label: 'Worst-Case P&I Payment', value: arm.worstCase.maxPayment, format: 'currency' },
+                                { label: 'Total Interest (P&I)', value: arm.result.totalInterest, format: 'currency' },
+                            ],
+                        })}
+                    />
                 )}
                   {!estimatedTotalPayment && (
                      <Alert variant="destructive" className="mt-6">
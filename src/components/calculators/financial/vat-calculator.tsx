@@ -3,33 +3,102 @@
 
 import * as React from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useForm, type SubmitHandler } from 'react-hook-form';
+import { useForm, useFieldArray, type SubmitHandler } from 'react-hook-form';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Calculator, Star, Receipt, Percent } from 'lucide-react';
+import { Calculator, Star, Receipt, PlusCircle, Trash2, ListChecks } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { vatSummaryExport } from '@/lib/schedule-export';
+import { VAT_CATEGORY_LABELS, VAT_RATE_TABLES, computeVatInvoice, vatRateOptions, type VatCategory, type VatInvoice, type VatRateTable } from '@/lib/tax';
+import { ScheduleExportButtons } from '../schedule-export-buttons';
+import { formatTaxRate } from '../tax-fields';
+import { CopyLinkButton } from '../copy-link-button';
 
-// Zod Schema for VAT Calculator
+const CUSTOM_RATES = 'custom';
+
+const lineItemSchema = z.object({
+    description: z.string().optional().default(''),
+    amount: z.string().default(''),
+    rateKey: z.string().default('standard'),
+});
+
+const isRate = (val: string) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100;
+
+// Zod Schema for VAT Calculator; amounts are checked per mode in superRefine
 const vatSchema = z.object({
-    amount: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, {
-        message: "Amount must be positive.",
-    }),
-    vatRate: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
-        message: "VAT rate must be between 0 and 100.",
-    }),
+    mode: z.enum(['single', 'invoice']).default('single'),
+    amount: z.string().default(''),
+    vatRate: z.string().default(''),
     calculationType: z.enum(['add_vat', 'remove_vat']).default('add_vat'), // Add VAT to net or remove VAT from gross
+    // Preset country rates, or the rates entered below
+    country: z.string().default(CUSTOM_RATES),
+    reducedRate: z.string().optional().default(''),
+    reverseCharge: z.boolean().default(false),
+    lineItems: z.array(lineItemSchema).default([]),
+}).superRefine((values, ctx) => {
+    const issue = (path: (string | number)[], message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+    const customRates = values.country === CUSTOM_RATES;
+
+    if (values.mode === 'single' || customRates) {
+        if (!isRate(values.vatRate)) issue(['vatRate'], "VAT rate must be between 0 and 100.");
+    }
+    if (values.mode === 'single') {
+        if (isNaN(parseFloat(values.amount)) || parseFloat(values.amount) <= 0) issue(['amount'], "Amount must be positive.");
+        return;
+    }
+
+    if (customRates && values.reducedRate && !isRate(values.reducedRate)) issue(['reducedRate'], "Reduced rate must be between 0 and 100.");
+    if (values.lineItems.length === 0) issue(['lineItems'], "Add at least one line item.");
+    const table = rateTableFor(values);
+    const keys = new Set(table ? vatRateOptions(table).map(option => option.key) : []);
+    values.lineItems.forEach((item, index) => {
+        if (isNaN(parseFloat(item.amount)) || parseFloat(item.amount) < 0) issue(['lineItems', index, 'amount'], "Amount must be zero or positive.");
+        if (!keys.has(item.rateKey)) issue(['lineItems', index, 'rateKey'], "Rate not available for this country.");
+    });
 });
 
 type VatFormValues = z.infer<typeof vatSchema>;
 
+const EMPTY_LINE = { description: '', amount: '', rateKey: 'standard' };
+
+const VAT_DEFAULTS: VatFormValues = {
+    mode: 'single',
+    amount: '',
+    vatRate: '',
+    calculationType: 'add_vat',
+    country: CUSTOM_RATES,
+    reducedRate: '',
+    reverseCharge: false,
+    lineItems: [EMPTY_LINE],
+};
+
+/** The preset for the chosen country, or the entered standard and reduced rates. */
+function rateTableFor(values: Pick<VatFormValues, 'country' | 'vatRate' | 'reducedRate'>): Pick<VatRateTable, 'standard' | 'reduced'> | null {
+    if (values.country !== CUSTOM_RATES) return VAT_RATE_TABLES[values.country] ?? null;
+    if (!isRate(values.vatRate)) return null;
+    return { standard: parseFloat(values.vatRate) / 100, reduced: values.reducedRate && isRate(values.reducedRate) ? [parseFloat(values.reducedRate) / 100] : [] };
+}
+
+const rateLabel = (category: VatCategory, rate: number) => category === 'exempt' ? VAT_CATEGORY_LABELS.exempt : `${VAT_CATEGORY_LABELS[category]} (${formatTaxRate(rate)})`;
+
+interface VatInvoiceResult {
+    invoice: VatInvoice;
+    taxName: string;
+    reverseCharge: boolean;
+}
+
 interface VatCalculatorProps {
     slug: string;
     calculatorInfo: CalculatorInfo;
@@ -42,6 +111,7 @@ interface VatCalculatorProps {
 export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: VatCalculatorProps) {
     const [vatAmount, setVatAmount] = React.useState<number | null>(null);
     const [finalAmount, setFinalAmount] = React.useState<number | null>(null); // Gross or Net depending on calculation
+    const [invoiceResult, setInvoiceResult] = React.useState<VatInvoiceResult | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
     const { name, description, icon: Icon } = calculatorInfo;
@@ -64,34 +134,50 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
 
     const form = useForm<VatFormValues>({
         resolver: zodResolver(vatSchema),
-        defaultValues: {
-            amount: '',
-            vatRate: '',
-            calculationType: 'add_vat',
-        },
+        defaultValues: VAT_DEFAULTS,
+    });
+
+    const { fields: lineFields, append: appendLine, remove: removeLine } = useFieldArray({
+        control: form.control,
+        name: "lineItems",
     });
 
      React.useEffect(() => {
         if (mounted) {
-            form.reset({ calculationType: 'add_vat'});
+            form.reset(VAT_DEFAULTS);
             setVatAmount(null);
             setFinalAmount(null);
+            setInvoiceResult(null);
             form.clearErrors();
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currency.code, mounted]);
+     useFormPrefill(form, mounted);
 
-     // Reset results when calculation type changes
+     // Reset results when calculation type or mode changes
      React.useEffect(() => {
         setVatAmount(null);
         setFinalAmount(null);
-     }, [form.watch('calculationType')]);
+        setInvoiceResult(null);
+     }, [form.watch('calculationType'), form.watch('mode')]);
 
     const formatCurrency = React.useCallback((value: number | null) => {
         if (value === null) return 'N/A';
         return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }, [currency.symbol]);
 
+    // A preset fills in its standard rate and moves lines off reduced rates it does not have
+    const changeCountry = (country: string) => {
+        form.setValue('country', country);
+        const table = VAT_RATE_TABLES[country];
+        if (!table) return;
+        form.setValue('vatRate', String(Math.round(table.standard * 10000) / 100));
+        const keys = new Set(vatRateOptions(table).map(option => option.key));
+        form.getValues('lineItems').forEach((item, index) => {
+            if (!keys.has(item.rateKey)) form.setValue(`lineItems.${index}.rateKey`, 'standard');
+        });
+    };
+
     const calculateVat = (values: VatFormValues): { vat: number; final: number; type: 'add' | 'remove' } | null => {
         const amount = parseFloat(values.amount);
         const rate = parseFloat(values.vatRate) / 100;
@@ -121,7 +207,56 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
         return { vat: vatCalc, final: finalAmountCalc, type };
     };
 
+    const calculateInvoice = (values: VatFormValues): VatInvoiceResult | null => {
+        const table = rateTableFor(values);
+        if (!table) return null;
+        const options = vatRateOptions(table);
+
+        try {
+            const invoice = computeVatInvoice({
+                lines: values.lineItems.map((item, index) => {
+                    const option = options.find(candidate => candidate.key === item.rateKey) ?? options[0];
+                    return { description: item.description || `Item ${index + 1}`, amount: parseFloat(item.amount), category: option.category, rate: option.rate };
+                }),
+                pricesIncludeVat: values.calculationType === 'remove_vat',
+                reverseCharge: values.reverseCharge,
+            });
+            return { invoice, taxName: VAT_RATE_TABLES[values.country]?.taxName ?? 'VAT', reverseCharge: values.reverseCharge };
+        } catch (error) {
+            console.error("VAT invoice calculation failed:", error);
+            return null;
+        }
+    };
+
     const onSubmit: SubmitHandler<VatFormValues> = (data) => {
+        if (data.mode === 'invoice') {
+            const result = calculateInvoice(data);
+            if (!result) {
+                setInvoiceResult(null);
+                form.setError("root", { message: "Calculation failed. Check inputs." });
+                return;
+            }
+            setInvoiceResult(result);
+
+            const { invoice, taxName } = result;
+            const rates = VAT_RATE_TABLES[data.country]?.name ?? `Custom ${data.vatRate}%${data.reducedRate ? ` / ${data.reducedRate}%` : ''}`;
+            const inputString = `Invoice: ${invoice.lines.length} line(s), Rates: ${rates}, Prices ${data.calculationType === 'add_vat' ? 'excl.' : 'incl.'} ${taxName}${data.reverseCharge ? ', Reverse Charge' : ''}`;
+            const resultString = `Net: ${formatCurrency(invoice.net)}, ${taxName}: ${formatCurrency(invoice.vat)}, Gross: ${formatCurrency(invoice.gross)}${data.reverseCharge ? `, Reverse-Charge ${taxName}: ${formatCurrency(invoice.reverseChargeVat)}` : ''}`;
+
+            const historyEntry: HistoryEntry = {
+                id: Date.now().toString(),
+                calculatorSlug: slug,
+                timestamp: new Date(),
+                values: data,
+                calculatorVersion: 2,
+                outputs: { vatAmount: invoice.vat, finalAmount: invoice.gross, netAmount: invoice.net, reverseChargeVat: invoice.reverseChargeVat },
+                input: inputString,
+                result: resultString,
+            };
+            onCalculation(historyEntry);
+            return;
+        }
+
         const result = calculateVat(data);
         if (result) {
             setVatAmount(result.vat);
@@ -137,6 +272,9 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
                 id: Date.now().toString(),
                 calculatorSlug: slug,
                 timestamp: new Date(),
+                values: data,
+                calculatorVersion: 2,
+                outputs: { vatAmount: result.vat, finalAmount: result.final },
                 input: inputString,
                 result: resultString,
             };
@@ -150,17 +288,22 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
     };
 
     const calculationType = form.watch('calculationType');
+    const mode = form.watch('mode');
+    const country = form.watch('country');
+    const rateOptions = vatRateOptions(rateTableFor({ country, vatRate: form.watch('vatRate'), reducedRate: form.watch('reducedRate') }) ?? { standard: 0, reduced: [] });
+    const taxName = VAT_RATE_TABLES[country]?.taxName ?? 'VAT';
 
      // Skeleton Loader
     if (!mounted) {
         return (
-             <Card className="w-full max-w-lg mx-auto">
+             <Card className="w-full max-w-2xl mx-auto">
                 <CardHeader className="relative">
                     <Skeleton className="absolute top-3 right-3 h-7 w-7 rounded-full" />
                     <div className="flex items-center gap-2 pr-10"><Skeleton className="h-6 w-6" /><Skeleton className="h-6 w-3/4" /></div>
                     <Skeleton className="h-4 w-full" />
                 </CardHeader>
                  <CardContent className="space-y-6">
+                     <div className="space-y-3"> <Skeleton className="h-5 w-1/4" /> <div className="flex space-x-4"><Skeleton className="h-6 w-1/3" /><Skeleton className="h-6 w-1/3" /></div> </div>
                      <div className="space-y-3"> <Skeleton className="h-5 w-1/4" /> <div className="flex space-x-4"><Skeleton className="h-6 w-1/3" /><Skeleton className="h-6 w-1/3" /></div> </div>
                      <Skeleton className="h-10 w-full" />
                      <Skeleton className="h-10 w-full" />
@@ -173,15 +316,29 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
 
 
     return (
-        <Card className="w-full max-w-lg mx-auto">
+        <Card className="w-full max-w-2xl mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
                  <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField control={form.control} name="mode" render={({ field }) => (
+                                <FormItem className="space-y-3">
+                                    <FormLabel>Mode</FormLabel>
+                                    <FormControl>
+                                        <RadioGroup onValueChange={field.onChange} value={field.value} className="flex space-x-4">
+                                            <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="single" id="vat-single"/></FormControl><FormLabel htmlFor="vat-single" className="font-normal cursor-pointer">Single Amount</FormLabel></FormItem>
+                                            <FormItem className="flex items-center space-x-2 space-y-0"><FormControl><RadioGroupItem value="invoice" id="vat-invoice"/></FormControl><FormLabel htmlFor="vat-invoice" className="font-normal cursor-pointer">Invoice (Multiple Rates)</FormLabel></FormItem>
+                                        </RadioGroup>
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
                         <FormField control={form.control} name="calculationType" render={({ field }) => (
                                 <FormItem className="space-y-3">
                                     <FormLabel>Calculation Type</FormLabel>
@@ -195,14 +352,54 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
                                 </FormItem>
                             )}
                         />
-                        <FormField control={form.control} name="amount" render={({ field }) => (<FormItem><FormLabel>{calculationType === 'add_vat' ? 'Net Amount' : 'Gross Amount'} ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="Enter amount" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
-                        <FormField control={form.control} name="vatRate" render={({ field }) => (<FormItem><FormLabel>VAT Rate (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 20" {...field} step="any" min="0" max="100"/></FormControl><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name="country" render={({ field }) => (<FormItem><FormLabel>Country Rates</FormLabel><Select onValueChange={changeCountry} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value={CUSTOM_RATES}>Custom Rate</SelectItem>{Object.entries(VAT_RATE_TABLES).map(([code, table]) => <SelectItem key={code} value={code}>{table.name} ({table.taxName} {formatTaxRate(table.standard)})</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                        {mode === 'single' && (
+                            <>
+                                <FormField control={form.control} name="amount" render={({ field }) => (<FormItem><FormLabel>{calculationType === 'add_vat' ? 'Net Amount' : 'Gross Amount'} ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="Enter amount" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                                <FormField control={form.control} name="vatRate" render={({ field }) => (<FormItem><FormLabel>VAT Rate (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 20" {...field} step="any" min="0" max="100"/></FormControl><FormMessage /></FormItem>)} />
+                            </>
+                        )}
+                        {mode === 'invoice' && (
+                            <div className="space-y-3">
+                                {country === CUSTOM_RATES && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <FormField control={form.control} name="vatRate" render={({ field }) => (<FormItem><FormLabel>Standard Rate (%)</FormLabel><FormControl><Input type="number" placeholder="e.g., 20" {...field} step="any" min="0" max="100"/></FormControl><FormMessage /></FormItem>)} />
+                                        <FormField control={form.control} name="reducedRate" render={({ field }) => (<FormItem><FormLabel>Reduced Rate (%) <small>(Opt.)</small></FormLabel><FormControl><Input type="number" placeholder="e.g., 5" {...field} step="any" min="0" max="100"/></FormControl><FormMessage /></FormItem>)} />
+                                    </div>
+                                )}
+                                <FormLabel>Line Items</FormLabel>
+                                {lineFields.map((item, index) => (
+                                    <div key={item.id} className="flex items-start gap-2">
+                                        <FormField control={form.control} name={`lineItems.${index}.description`} render={({ field }) => (<FormItem className="flex-[2]"><FormLabel className="sr-only">Description</FormLabel><FormControl><Input placeholder="Description" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                        <FormField control={form.control} name={`lineItems.${index}.amount`} render={({ field }) => (<FormItem className="flex-1"><FormLabel className="sr-only">Amount</FormLabel><FormControl><Input type="number" placeholder={`Amount (${currency.symbol})`} {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                                        <FormField control={form.control} name={`lineItems.${index}.rateKey`} render={({ field }) => (<FormItem className="flex-1"><FormLabel className="sr-only">Rate</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Rate" /></SelectTrigger></FormControl><SelectContent>{rateOptions.map(option => <SelectItem key={option.key} value={option.key}>{rateLabel(option.category, option.rate)}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+                                        <Button type="button" variant="ghost" size="icon" onClick={() => removeLine(index)} disabled={lineFields.length <= 1} className="mt-1 text-muted-foreground hover:text-destructive disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Remove line item"><Trash2 className="h-4 w-4" /></Button>
+                                    </div>
+                                ))}
+                                <Button type="button" variant="outline" size="sm" onClick={() => appendLine(EMPTY_LINE)}><PlusCircle className="mr-2 h-4 w-4" /> Add Line Item</Button>
+                                <FormMessage>{form.formState.errors.lineItems?.root?.message || form.formState.errors.lineItems?.message}</FormMessage>
+                                <FormField
+                                    control={form.control}
+                                    name="reverseCharge"
+                                    render={({ field }) => (
+                                        <FormItem className="flex items-start space-x-2 space-y-0">
+                                            <FormControl><Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} /></FormControl>
+                                            <div className="space-y-1 leading-none">
+                                                <FormLabel className="font-normal cursor-pointer">Reverse charge</FormLabel>
+                                                <FormDescription>No {taxName} is charged; the customer accounts for it. Amounts are taken as net.</FormDescription>
+                                                <FormMessage />
+                                            </div>
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+                        )}
                          {form.formState.errors.root && (<FormMessage className="text-destructive">{form.formState.errors.root.message}</FormMessage>)}
-                        <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> Calculate VAT</Button>
+                        <Button type="submit" className="w-full"><Calculator className="mr-2 h-4 w-4" /> {mode === 'invoice' ? `Calculate Invoice ${taxName}` : 'Calculate VAT'}</Button>
                     </form>
                 </Form>
 
-                 {vatAmount !== null && finalAmount !== null && (
+                 {mode === 'single' && vatAmount !== null && finalAmount !== null && (
                     <Alert className="mt-6">
                         <Receipt className="h-4 w-4" />
                         <AlertTitle>VAT Calculation Results ({currency.code})</AlertTitle>
@@ -212,6 +409,87 @@ export function VatCalculator({ slug, calculatorInfo, onCalculation, favorites,
                         </AlertDescription>
                     </Alert>
                 )}
+                {mode === 'invoice' && invoiceResult && (
+                    <Alert className="mt-6">
+                        <Receipt className="h-4 w-4" />
+                        <AlertTitle>Invoice Totals ({currency.code})</AlertTitle>
+                        <AlertDescription>
+                            <p>Net Total: <strong>{formatCurrency(invoiceResult.invoice.net)}</strong></p>
+                            <p>{invoiceResult.taxName} Charged: <strong>{formatCurrency(invoiceResult.invoice.vat)}</strong></p>
+                            <p>Invoice Total: <strong>{formatCurrency(invoiceResult.invoice.gross)}</strong></p>
+                            {invoiceResult.reverseCharge && (
+                                <p className="text-xs mt-2">Reverse charge: the customer accounts for {invoiceResult.taxName} of {formatCurrency(invoiceResult.invoice.reverseChargeVat)} on their own return.</p>
+                            )}
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {mode === 'invoice' && invoiceResult && (
+                    <div className="mt-6 space-y-6">
+                        <div>
+                            <h3 className="text-lg font-semibold flex items-center gap-2 mb-3"><ListChecks className="h-5 w-5 text-primary" />Line Items</h3>
+                            <Table className="border">
+                                <TableHeader className="bg-muted">
+                                    <TableRow>
+                                        <TableHead>Description</TableHead>
+                                        <TableHead>Rate</TableHead>
+                                        <TableHead className="text-right">Net</TableHead>
+                                        <TableHead className="text-right">{invoiceResult.taxName}</TableHead>
+                                        <TableHead className="text-right">Gross</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {invoiceResult.invoice.lines.map((line, index) => (
+                                        <TableRow key={index}>
+                                            <TableCell>{line.description}</TableCell>
+                                            <TableCell>{rateLabel(line.category, line.rate)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(line.net)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(line.vat)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(line.gross)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between gap-2 mb-3">
+                                <h3 className="text-lg font-semibold">{invoiceResult.taxName} Summary by Rate ({currency.code})</h3>
+                                <ScheduleExportButtons build={() => vatSummaryExport({ ...invoiceResult, currency, rateLabel })} />
+                            </div>
+                            <Table className="border">
+                                <TableHeader className="bg-muted">
+                                    <TableRow>
+                                        <TableHead>Rate</TableHead>
+                                        <TableHead className="text-right">Net</TableHead>
+                                        <TableHead className="text-right">{invoiceResult.taxName}</TableHead>
+                                        {invoiceResult.reverseCharge && <TableHead className="text-right">Reverse-Charge {invoiceResult.taxName}</TableHead>}
+                                        <TableHead className="text-right">Gross</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {invoiceResult.invoice.summary.map(row => (
+                                        <TableRow key={`${row.category}-${row.rate}`}>
+                                            <TableCell>{rateLabel(row.category, row.rate)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(row.net)}</TableCell>
+                                            <TableCell className="text-right">{formatCurrency(row.vat)}</TableCell>
+                                            {invoiceResult.reverseCharge && <TableCell className="text-right">{formatCurrency(row.reverseChargeVat)}</TableCell>}
+                                            <TableCell className="text-right">{formatCurrency(row.gross)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                                <TableFooter>
+                                    <TableRow className="font-semibold">
+                                        <TableCell>Total</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(invoiceResult.invoice.net)}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(invoiceResult.invoice.vat)}</TableCell>
+                                        {invoiceResult.reverseCharge && <TableCell className="text-right">{formatCurrency(invoiceResult.invoice.reverseChargeVat)}</TableCell>}
+                                        <TableCell className="text-right">{formatCurrency(invoiceResult.invoice.gross)}</TableCell>
+                                    </TableRow>
+                                </TableFooter>
+                            </Table>
+                            <p className="text-xs text-muted-foreground mt-2">Zero-rated and exempt sales are reported separately on most returns; exempt sales carry no right to reclaim input tax.</p>
+                        </div>
+                    </div>
+                )}
             </CardContent>
         </Card>
     );
@@ -12,13 +12,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Shield, PersonStanding, Ruler as RulerIcon } from 'lucide-react'; // Use Shield or similar
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useLocalStorage } from '@/hooks/use-local-storage'; // Import useLocalStorage
-import { PROFILE_STORAGE_KEY } from '@/lib/constants'; // Import PROFILE_STORAGE_KEY
-import type { UserProfile } from '@/lib/types'; // Import UserProfile
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Army Body Fat Calculator
 const armyBodyFatSchemaBase = z.object({
@@ -62,7 +63,7 @@ interface ArmyBodyFatCalculatorProps {
 }
 
 export function ArmyBodyFatCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: ArmyBodyFatCalculatorProps) {
-    const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' });
+    const [profile] = useStoredValue(profileStorage);
     const [bodyFatPercent, setBodyFatPercent] = React.useState<number | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
@@ -107,6 +108,7 @@ export function ArmyBodyFatCalculator({ slug, calculatorInfo, onCalculation, fav
          }
      // eslint-disable-next-line react-hooks/exhaustive-deps
      }, [profile?.preferredUnits, mounted]);
+     useFormPrefill(form, mounted);
 
      // Reset results if unit/gender changes
       React.useEffect(() => {
@@ -164,7 +166,7 @@ export function ArmyBodyFatCalculator({ slug, calculatorInfo, onCalculation, fav
             const inputString = `Gender: ${data.gender}, Unit: ${data.unit}, Height: ${data.height} ${unitLabel}, Neck: ${data.neck} ${unitLabel}, Waist: ${data.waist} ${unitLabel}${hipText}`;
             const resultString = `Estimated Body Fat: ${result.toFixed(1)}%`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { bodyFatPercent: result }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setBodyFatPercent(null);
@@ -206,8 +208,9 @@ export function ArmyBodyFatCalculator({ slug, calculatorInfo, onCalculation, fav
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -15,13 +15,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Wine, UserCheck, AlertTriangle } from 'lucide-react'; // Using Wine icon
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useLocalStorage } from '@/hooks/use-local-storage'; // Corrected import
-import { PROFILE_STORAGE_KEY } from '@/lib/constants';
-import type { UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Widmark formula constants
 const MALE_DISTRIBUTION_RATIO = 0.68;
@@ -57,7 +58,7 @@ interface BacCalculatorProps {
 }
 
 export function BacCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: BacCalculatorProps) {
-    const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'imperial', preferredCurrency: 'USD' });
+    const [profile] = useStoredValue(profileStorage);
     const [estimatedBac, setEstimatedBac] = React.useState<number | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
@@ -101,6 +102,7 @@ export function BacCalculator({ slug, calculatorInfo, onCalculation, favorites,
          }
      // eslint-disable-next-line react-hooks/exhaustive-deps
      }, [profile?.preferredUnits, mounted]);
+     useFormPrefill(form, mounted);
 
      // Reset results if unit/gender changes
       React.useEffect(() => {
@@ -149,7 +151,7 @@ export function BacCalculator({ slug, calculatorInfo, onCalculation, favorites,
             const inputString = `Gender: ${data.gender}, Weight: ${data.weight} ${unitLabel}, Drinks: ${data.drinksConsumed} (std), Hours: ${data.drinkingPeriodHours}`;
             const resultString = `Estimated BAC: ${result.toFixed(3)}%`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { estimatedBac: result }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setEstimatedBac(null);
@@ -189,8 +191,9 @@ export function BacCalculator({ slug, calculatorInfo, onCalculation, favorites,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Estimate Only)</strong></CardDescription>
             </CardHeader>
             <CardContent>
@@ -13,14 +13,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, PersonStanding, Ruler as RulerIcon, Activity, BrainCircuit } from 'lucide-react'; // Used BrainCircuit for BMR
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import { PROFILE_STORAGE_KEY } from '@/lib/constants';
-import type { UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CopyLinkButton } from "../copy-link-button";
 
 
 // BMR Formulas constants (using Mifflin-St Jeor as it's considered more accurate)
@@ -86,7 +87,7 @@ interface BmrCalculatorProps {
 }
 
 export function BmrCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: BmrCalculatorProps) {
-    const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' });
+    const [profile] = useStoredValue(profileStorage);
     const [bmrResult, setBmrResult] = React.useState<number | null>(null);
      const [tdeeResult, setTdeeResult] = React.useState<number | null>(null);
     const [mounted, setMounted] = React.useState(false);
@@ -133,6 +134,7 @@ export function BmrCalculator({ slug, calculatorInfo, onCalculation, favorites,
          }
      // eslint-disable-next-line react-hooks/exhaustive-deps
      }, [profile?.preferredUnits, mounted]);
+     useFormPrefill(form, mounted);
 
      // Reset results if unit/gender changes
       React.useEffect(() => {
@@ -191,7 +193,7 @@ export function BmrCalculator({ slug, calculatorInfo, onCalculation, favorites,
             const inputString = `Gender: ${data.gender}, Age: ${data.age}, Height: ${heightText}, Weight: ${weightText}, Activity: ${data.activityLevel}`;
             const resultString = `BMR: ${result.bmr} kcal/day, TDEE: ${result.tdee} kcal/day`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { bmr: result.bmr, tdee: result.tdee }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setBmrResult(null);
@@ -229,8 +231,9 @@ export function BmrCalculator({ slug, calculatorInfo, onCalculation, favorites,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
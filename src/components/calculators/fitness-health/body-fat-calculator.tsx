@@ -15,13 +15,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, HeartPulse, PersonStanding, Ruler as RulerIcon, Percent } from 'lucide-react'; // Added Percent
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useLocalStorage } from '@/hooks/use-local-storage'; // Corrected import
-import { PROFILE_STORAGE_KEY } from '@/lib/constants';
-import type { UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Body Fat Calculator (Navy Method)
 const bodyFatSchemaBase = z.object({
@@ -60,7 +61,7 @@ interface BodyFatCalculatorProps {
 }
 
 export function BodyFatCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: BodyFatCalculatorProps) {
-    const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' });
+    const [profile] = useStoredValue(profileStorage);
     const [bodyFatPercent, setBodyFatPercent] = React.useState<number | null>(null);
     const [fatMass, setFatMass] = React.useState<number | null>(null);
     const [leanMass, setLeanMass] = React.useState<number | null>(null);
@@ -110,6 +111,7 @@ export function BodyFatCalculator({ slug, calculatorInfo, onCalculation, favorit
          }
      // eslint-disable-next-line react-hooks/exhaustive-deps
      }, [profile?.preferredUnits, mounted]);
+     useFormPrefill(form, mounted);
 
      // Reset results if unit/gender changes
       React.useEffect(() => {
@@ -185,7 +187,7 @@ export function BodyFatCalculator({ slug, calculatorInfo, onCalculation, favorit
             const resultString = `Estimated Body Fat: ${result.bfp.toFixed(1)}%`;
             // Add fm/lm to resultString if calculated
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { bodyFatPercent: result.bfp, fatMass: result.fm, leanMass: result.lm }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setBodyFatPercent(null);
@@ -227,8 +229,9 @@ export function BodyFatCalculator({ slug, calculatorInfo, onCalculation, favorit
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
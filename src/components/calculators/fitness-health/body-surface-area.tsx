@@ -14,13 +14,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Ruler as RulerIcon, Scale } from 'lucide-react'; // Using RulerIcon
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useLocalStorage } from '@/hooks/use-local-storage'; // Corrected import
-import { PROFILE_STORAGE_KEY } from '@/lib/constants';
-import type { UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Body Surface Area Calculator
 const bsaSchema = z.object({
@@ -66,7 +67,7 @@ interface BodySurfaceAreaCalculatorProps {
 }
 
 export function BodySurfaceAreaCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: BodySurfaceAreaCalculatorProps) {
-    const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' });
+    const [profile] = useStoredValue(profileStorage);
     const [bsaResult, setBsaResult] = React.useState<number | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
@@ -108,6 +109,7 @@ export function BodySurfaceAreaCalculator({ slug, calculatorInfo, onCalculation,
          }
      // eslint-disable-next-line react-hooks/exhaustive-deps
      }, [profile?.preferredUnits, mounted]);
+     useFormPrefill(form, mounted);
 
      // Reset results if unit changes
       React.useEffect(() => {
@@ -151,7 +153,7 @@ export function BodySurfaceAreaCalculator({ slug, calculatorInfo, onCalculation,
             const inputString = `Unit: ${data.unit}, Height: ${heightText}, Weight: ${weightText}`;
             const resultString = `Estimated Body Surface Area (BSA): ${result.toFixed(2)} m²`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { bsa: result }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setBsaResult(null);
@@ -186,8 +188,9 @@ export function BodySurfaceAreaCalculator({ slug, calculatorInfo, onCalculation,
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -16,13 +16,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, PersonStanding, ScanLine, HelpCircle } from 'lucide-react'; // Using ScanLine for assessment
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { useLocalStorage } from '@/hooks/use-local-storage'; // Corrected import
-import { PROFILE_STORAGE_KEY } from '@/lib/constants';
-import type { UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema - Simple questions for subjective assessment
 const bodyTypeSchema = z.object({
@@ -44,7 +45,7 @@ interface BodyTypeCalculatorProps {
 }
 
 export function BodyTypeCalculator({ slug, calculatorInfo, onCalculation, favorites, setFavorites, currency }: BodyTypeCalculatorProps) {
-    const [profile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredUnits: 'metric', preferredCurrency: 'USD' });
+    const [profile] = useStoredValue(profileStorage);
     const [estimatedBodyType, setEstimatedBodyType] = React.useState<'Ectomorph' | 'Mesomorph' | 'Endomorph' | 'Combination' | null>(null);
     const [mounted, setMounted] = React.useState(false);
 
@@ -80,6 +81,7 @@ export function BodyTypeCalculator({ slug, calculatorInfo, onCalculation, favori
         }
          // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [mounted]);
+     useFormPrefill(form, mounted);
 
     // Subjective Assessment Logic
     const determineBodyType = (values: BodyTypeFormValues): 'Ectomorph' | 'Mesomorph' | 'Endomorph' | 'Combination' | null => {
@@ -139,7 +141,7 @@ export function BodyTypeCalculator({ slug, calculatorInfo, onCalculation, favori
             const inputString = `Frame: ${data.frameSize || 'N/A'}, Muscle Gain: ${data.muscleGain || 'N/A'}, Fat Gain: ${data.fatGain || 'N/A'}, Shape: ${data.bodyShape || 'N/A'}`;
             const resultString = `Estimated Body Type: ${result}`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { bodyType: result }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setEstimatedBodyType(null);
@@ -173,8 +175,9 @@ export function BodyTypeCalculator({ slug, calculatorInfo, onCalculation, favori
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description} <strong className='text-destructive'>(Subjective Estimate)</strong></CardDescription>
             </CardHeader>
             <CardContent>
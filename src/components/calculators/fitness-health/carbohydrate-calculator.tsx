@@ -15,9 +15,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, Star, Wheat, Activity, Percent } from 'lucide-react'; // Added Percent
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import type { CalculatorInfo, CurrencyData } from '@/lib/constants';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CopyLinkButton } from '../copy-link-button';
 
 // Zod Schema for Carbohydrate Calculator
 const carbSchema = z.object({
@@ -79,6 +81,7 @@ export function CarbohydrateCalculator({ slug, calculatorInfo, onCalculation, fa
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [mounted]);
+     useFormPrefill(form, mounted);
 
     // Calculate Carbohydrate Needs
     const calculateCarbs = (values: CarbFormValues): { grams: number; calories: number } | null => {
@@ -107,7 +110,7 @@ export function CarbohydrateCalculator({ slug, calculatorInfo, onCalculation, fa
             const inputString = `Daily Calories: ${data.totalDailyCalories} kcal, Carb Percentage: ${data.carbPercentage}%`;
             const resultString = `Estimated Carb Needs: ${result.grams}g/day (${result.calories} kcal/day)`;
 
-            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), input: inputString, result: resultString };
+            const historyEntry: HistoryEntry = { id: Date.now().toString(), calculatorSlug: slug, timestamp: new Date(), values: data, calculatorVersion: 1, outputs: { carbGrams: result.grams, carbCalories: result.calories }, input: inputString, result: resultString };
             onCalculation(historyEntry);
         } else {
             setCarbGrams(null);
@@ -140,8 +143,9 @@ export function CarbohydrateCalculator({ slug, calculatorInfo, onCalculation, fa
     return (
         <Card className="w-full max-w-lg mx-auto">
             <CardHeader className="relative">
-                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
-                <CardTitle className="flex items-center gap-2 pr-10"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
+                <Button variant="ghost" size="icon" className={cn("absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden", isFavorite && "text-primary")} onClick={toggleFavorite} aria-label={isFavorite ? `Remove ${name} from bookmarks` : `Add ${name} to bookmarks`}><Star className={cn("h-5 w-5", isFavorite && "fill-current")} /></Button>
+                <CopyLinkButton />
+                <CardTitle className="flex items-center gap-2 pr-20"><Icon className="h-6 w-6 text-primary" />{name}</CardTitle>
                 <CardDescription>{description}</CardDescription>
             </CardHeader>
             <CardContent>
@@ -11,12 +11,19 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calculator, HandCoins, Star, ListChecks } from 'lucide-react'; // Removed Landmark, use HandCoins
 import type { HistoryEntry, FavoriteCalculators } from '@/lib/types';
+import { useFormPrefill } from '@/hooks/use-form-prefill';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"; // For amortization schedule
 import { ScrollArea } from "@/components/ui/scroll-area"; // For table scrolling
 import type { CalculatorInfo } from '@/lib/constants';
 import type { CurrencyData } from '@/lib/constants'; // Import CurrencyData type
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { amortizeWithPrepayments, hasPrepayments, type AmortizationEntry, type PrepaymentResult } from '@/lib/finance';
+import { amortizationExport } from '@/lib/schedule-export';
+import { PREPAYMENT_DEFAULTS, PrepaymentFields, PrepaymentSummary, describePrepaymentPlan, prepaymentPlan, prepaymentSchemaShape } from './prepayment-fields';
+import { AmortizationCharts } from './projection-charts';
+import { ScheduleExportButtons } from './schedule-export-buttons';
+import { CopyLinkButton } from './copy-link-button';
 
 
 // --- Zod Schema ---
@@ -30,20 +37,11 @@ const loanPaymentSchema = z.object({
   loanTerm: z.string().refine(val => !isNaN(parseInt(val)) && parseInt(val) > 0, {
     message: "Loan term must be a positive integer (years).",
   }),
+  ...prepaymentSchemaShape,
 });
 
 type LoanPaymentFormValues = z.infer<typeof loanPaymentSchema>;
 
-// --- Amortization Schedule Type ---
-interface AmortizationEntry {
-    month: number;
-    startingBalance: number;
-    payment: number;
-    principalPaid: number;
-    interestPaid: number;
-    endingBalance: number;
-}
-
 
 interface LoanPaymentCalculatorProps {
   slug: string;
@@ -59,6 +57,7 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
   const [totalInterest, setTotalInterest] = React.useState<number | null>(null);
   const [totalPayment, setTotalPayment] = React.useState<number | null>(null);
   const [amortizationSchedule, setAmortizationSchedule] = React.useState<AmortizationEntry[]>([]);
+  const [prepayment, setPrepayment] = React.useState<PrepaymentResult | null>(null);
   const [mounted, setMounted] = React.useState(false); // Added mounted state
 
   const { name, description, icon: Icon } = calculatorInfo;
@@ -85,6 +84,7 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
       loanAmount: '',
       interestRate: '',
       loanTerm: '',
+      ...PREPAYMENT_DEFAULTS,
     },
   });
 
@@ -98,10 +98,12 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
         setTotalInterest(null);
         setTotalPayment(null);
         setAmortizationSchedule([]);
+        setPrepayment(null);
         form.clearErrors();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currency.code, mounted]); // Depend on currency code and mounted status
+  useFormPrefill(form, mounted);
 
   // --- Currency Formatting ---
   const formatCurrency = React.useCallback((value: number | null) => {
@@ -109,7 +111,7 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
     return `${currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   }, [currency.symbol]); // Update when currency symbol changes
 
-  const calculateLoanPayment = (values: LoanPaymentFormValues): { payment: number; totalInterest: number; totalPayment: number; schedule: AmortizationEntry[] } | null => {
+  const calculateLoanPayment = (values: LoanPaymentFormValues): { payment: number; totalInterest: number; totalPayment: number; schedule: AmortizationEntry[]; prepayment: PrepaymentResult | null } | null => {
      const principal = parseFloat(values.loanAmount);
      const annualInterestRate = parseFloat(values.interestRate) / 100;
      const years = parseInt(values.loanTerm);
@@ -118,64 +120,15 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
          return null;
      }
 
-     const monthlyInterestRate = annualInterestRate / 12;
-     const numberOfPayments = years * 12;
-     let monthlyPaymentCalc = 0;
-     const schedule: AmortizationEntry[] = [];
-     let totalInterestPaid = 0;
-     let remainingBalance = principal;
-
-     if (monthlyInterestRate === 0) { // Handle 0% interest rate
-        monthlyPaymentCalc = principal / numberOfPayments;
-     } else {
-        monthlyPaymentCalc = principal * (monthlyInterestRate * Math.pow(1 + monthlyInterestRate, numberOfPayments)) / (Math.pow(1 + monthlyInterestRate, numberOfPayments) - 1);
-     }
-
-     // Generate Amortization Schedule
-     for (let month = 1; month <= numberOfPayments; month++) {
-         const interestForMonth = remainingBalance * monthlyInterestRate;
-         let principalForMonth = monthlyPaymentCalc - interestForMonth;
-         // Adjust payment if it's the last one and balance is slightly off due to rounding
-         let currentPayment = monthlyPaymentCalc;
-         if (month === numberOfPayments) {
-             principalForMonth = remainingBalance;
-             currentPayment = principalForMonth + interestForMonth; // Recalculate the final payment amount
-         }
-
-         const endingBalance = remainingBalance - principalForMonth;
-
-         schedule.push({
-             month: month,
-             startingBalance: remainingBalance,
-             payment: currentPayment,
-             principalPaid: principalForMonth,
-             interestPaid: interestForMonth,
-             endingBalance: endingBalance < 0.005 ? 0 : endingBalance // Handle small floating point inaccuracies
-         });
-
-         totalInterestPaid += interestForMonth;
-         remainingBalance = endingBalance;
-
-         // Stop if balance is effectively zero
-         if (remainingBalance <= 0.005 && month < numberOfPayments) {
-             const lastEntry = schedule[schedule.length - 1];
-              if (lastEntry) { // Check if lastEntry exists
-                 lastEntry.endingBalance = 0;
-                 totalInterestPaid = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
-              }
-             break; // Stop generating further entries
-         }
-     }
-
-     // Recalculate total interest and payment based on the actual schedule
-     const actualTotalPayment = schedule.reduce((sum, entry) => sum + entry.payment, 0);
-     const actualTotalInterest = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
+     const plan = prepaymentPlan(values);
+     const result = amortizeWithPrepayments({ principal, annualRate: annualInterestRate, years, plan });
 
      return {
-         payment: monthlyPaymentCalc, // Keep the calculated monthly payment consistent for display
-         totalInterest: actualTotalInterest,
-         totalPayment: actualTotalPayment,
-         schedule: schedule
+         payment: result.scheduled.payment, // The regular monthly payment; extras come on top
+         totalInterest: result.accelerated.totalInterest,
+         totalPayment: result.accelerated.totalPaid,
+         schedule: result.accelerated.schedule,
+         prepayment: hasPrepayments(plan) ? result : null,
      };
   };
 
@@ -187,15 +140,27 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
       setTotalInterest(result.totalInterest);
       setTotalPayment(result.totalPayment);
       setAmortizationSchedule(result.schedule);
+      setPrepayment(result.prepayment);
 
       // Use formatCurrency for inputs and results
-      const inputString = `Loan Amount: ${formatCurrency(parseFloat(data.loanAmount))}, Interest Rate: ${data.interestRate}%, Term: ${data.loanTerm} years`;
-      const resultString = `Monthly Payment: ${formatCurrency(result.payment)}, Total Interest: ${formatCurrency(result.totalInterest)}, Total Payment: ${formatCurrency(result.totalPayment)}`;
+      const extras = describePrepaymentPlan(prepaymentPlan(data), formatCurrency);
+      const inputString = `Loan Amount: ${formatCurrency(parseFloat(data.loanAmount))}, Interest Rate: ${data.interestRate}%, Term: ${data.loanTerm} years${extras ? `, ${extras}` : ''}`;
+      const saved = result.prepayment ? `, Interest Saved: ${formatCurrency(result.prepayment.interestSaved)}, Months Saved: ${result.prepayment.monthsSaved}` : '';
+      const resultString = `Monthly Payment: ${formatCurrency(result.payment)}, Total Interest: ${formatCurrency(result.totalInterest)}, Total Payment: ${formatCurrency(result.totalPayment)}${saved}`;
 
        const historyEntry: HistoryEntry = {
          id: Date.now().toString(),
          calculatorSlug: slug,
          timestamp: new Date(),
+         values: data,
+         calculatorVersion: 1,
+         outputs: {
+           monthlyPayment: result.payment,
+           totalInterest: result.totalInterest,
+           totalPayment: result.totalPayment,
+           interestSaved: result.prepayment?.interestSaved ?? 0,
+           monthsSaved: result.prepayment?.monthsSaved ?? 0,
+         },
          input: inputString,
          result: resultString,
        };
@@ -206,6 +171,7 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
       setTotalInterest(null);
       setTotalPayment(null);
       setAmortizationSchedule([]);
+      setPrepayment(null);
       console.error("Calculation failed. Check inputs.");
       form.setError("root", { message: "Calculation failed. Check inputs." });
     }
@@ -256,7 +222,7 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
             variant="ghost"
             size="icon"
             className={cn(
-              "absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10",
+              "absolute top-3 right-3 h-7 w-7 text-muted-foreground hover:text-primary z-10 print:hidden",
               isFavorite && "text-primary"
             )}
             onClick={toggleFavorite}
@@ -264,7 +230,8 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
           >
             <Star className={cn("h-5 w-5", isFavorite && "fill-current")} />
           </Button>
-        <CardTitle className="flex items-center gap-2 pr-10">
+         <CopyLinkButton />
+        <CardTitle className="flex items-center gap-2 pr-20">
           <Icon className="h-6 w-6 text-primary" />
           {name}
         </CardTitle>
@@ -313,6 +280,9 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
                 </FormItem>
               )}
             />
+             <div className="md:col-span-3">
+                 <PrepaymentFields currency={currency} />
+             </div>
              <div className="md:col-span-3">
                  <Button type="submit" className="w-full transition-subtle">
                    <Calculator className="mr-2 h-4 w-4" /> Calculate Payment
@@ -335,37 +305,62 @@ export function LoanPaymentCalculator({ slug, calculatorInfo, onCalculation, fav
                 <p>Total Principal Paid: <strong>{formatCurrency(parseFloat(form.getValues('loanAmount') || '0'))}</strong></p>
                 <p>Total Interest Paid: <strong>{formatCurrency(totalInterest)}</strong></p>
                  <p>Total Cost of Loan: <strong>{formatCurrency(totalPayment)}</strong></p>
+                 {prepayment && <PrepaymentSummary result={prepayment} formatCurrency={formatCurrency} />}
             </AlertDescription>
           </Alert>
         )}
 
+        <AmortizationCharts schedule={amortizationSchedule} periodsPerYear={prepayment?.periodsPerYear ?? 12} formatCurrency={formatCurrency} />
+
         {/* Amortization Schedule */}
         {amortizationSchedule.length > 0 && (
              <div className="mt-6">
-                <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
-                   <ListChecks className="h-5 w-5 text-primary" />
-                   {/* Updated Title */}
-                   Amortization Schedule ({currency.code})
-                 </h3>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                       <ListChecks className="h-5 w-5 text-primary" />
+                       {/* Updated Title */}
+                       Amortization Schedule ({currency.code})
+                    </h3>
+                    <ScheduleExportButtons
+                       build={() => amortizationExport({
+                           title: 'Loan Amortization Schedule',
+                           currency,
+                           schedule: amortizationSchedule,
+                           periodLabel: prepayment?.periodsPerYear === 26 ? 'Payment #' : 'Month',
+                           summary: [
+                               { label: 'Loan Amount', value: parseFloat(form.getValues('loanAmount') || '0'), format: 'currency' },
+                               { label: 'Monthly Payment', value: monthlyPayment ?? 0, format: 'currency' },
+                               { label: 'Total Interest', value: totalInterest ?? 0, format: 'currency' },
+                               { label: 'Total Cost of Loan', value: totalPayment ?? 0, format: 'currency' },
+                               ...(prepayment ? [
+                                   { label: 'Interest Saved', value: prepayment.interestSaved, format: 'currency' as const },
+                                   { label: 'Months Saved', value: prepayment.monthsSaved, format: 'integer' as const },
+                               ] : []),
+                           ],
+                       })}
+                    />
+                </div>
                  {/* Improved table responsiveness */}
                  <ScrollArea className="h-[300px] w-full border"> {/* Added border for clarity */}
                      <Table className="min-w-[600px]"> {/* Set a minimum width for the table */}
                         <TableHeader className="sticky top-0 bg-muted z-10"> {/* Make header sticky */}
                             <TableRow>
-                                <TableHead className="w-[80px]">Month</TableHead>
+                                <TableHead className="w-[80px]">{prepayment?.periodsPerYear === 26 ? 'Payment #' : 'Month'}</TableHead>
                                 <TableHead>Principal</TableHead>
                                 <TableHead>Interest</TableHead>
+                                {prepayment && <TableHead>Extra</TableHead>}
                                 <TableHead>Payment</TableHead>
                                 <TableHead className="text-right">Balance</TableHead>
                             </TableRow>
                         </TableHeader>
                          <TableBody>
                              {amortizationSchedule.map((entry) => (
-                                 <TableRow key={entry.month}>
+                                 <TableRow key={entry.period}>
                                      {/* Use formatCurrency */}
-                                     <TableCell className="font-medium">{entry.month}</TableCell>
+                                     <TableCell className="font-medium">{entry.period}</TableCell>
                                      <TableCell>{formatCurrency(entry.principalPaid)}</TableCell>
                                      <TableCell>{formatCurrency(entry.interestPaid)}</TableCell>
+                                     {prepayment && <TableCell>{formatCurrency(entry.extraPaid)}</TableCell>}
                                      <TableCell>{formatCurrency(entry.payment)}</TableCell>
                                      <TableCell className="text-right">{formatCurrency(entry.endingBalance)}</TableCell>
                                  </TableRow>
@@ -0,0 +1,48 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const isShape = (...shapes: string[]) => (values: Record<string, string>) => shapes.includes(values.shape);
+
+export const areaCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'shape', label: 'Shape', kind: 'select', options: [
+                { value: 'square', label: 'Square' },
+                { value: 'rectangle', label: 'Rectangle' },
+                { value: 'triangle', label: 'Triangle' },
+                { value: 'circle', label: 'Circle' },
+                { value: 'trapezoid', label: 'Trapezoid' },
+                { value: 'parallelogram', label: 'Parallelogram' },
+                { value: 'ellipse', label: 'Ellipse' },
+            ],
+        },
+        { name: 'side', label: 'Side Length', kind: 'number', greaterThan: 0, visibleWhen: isShape('square') },
+        { name: 'length', label: 'Length', kind: 'number', greaterThan: 0, visibleWhen: isShape('rectangle') },
+        { name: 'width', label: 'Width', kind: 'number', greaterThan: 0, visibleWhen: isShape('rectangle') },
+        { name: 'base', label: 'Base', kind: 'number', greaterThan: 0, visibleWhen: isShape('triangle', 'parallelogram') },
+        { name: 'base1', label: 'Base 1', kind: 'number', greaterThan: 0, visibleWhen: isShape('trapezoid') },
+        { name: 'base2', label: 'Base 2', kind: 'number', greaterThan: 0, visibleWhen: isShape('trapezoid') },
+        { name: 'height', label: 'Height', kind: 'number', greaterThan: 0, visibleWhen: isShape('triangle', 'trapezoid', 'parallelogram') },
+        { name: 'radius', label: 'Radius', kind: 'number', greaterThan: 0, visibleWhen: isShape('circle') },
+        { name: 'semiMajor', label: 'Semi-major Axis', kind: 'number', greaterThan: 0, visibleWhen: isShape('ellipse') },
+        { name: 'semiMinor', label: 'Semi-minor Axis', kind: 'number', greaterThan: 0, visibleWhen: isShape('ellipse') },
+    ],
+    outputs: [
+        { name: 'area', label: 'Area', format: 'number', precision: 4, unit: 'square units', primary: true },
+    ],
+    submitLabel: 'Calculate Area',
+    compute: (input) => {
+        const h = input.number('height');
+        let area: number;
+        switch (input.string('shape')) {
+            case 'square': area = Math.pow(input.number('side'), 2); break;
+            case 'rectangle': area = input.number('length') * input.number('width'); break;
+            case 'triangle': area = (input.number('base') * h) / 2; break;
+            case 'circle': area = Math.PI * Math.pow(input.number('radius'), 2); break;
+            case 'trapezoid': area = ((input.number('base1') + input.number('base2')) / 2) * h; break;
+            case 'parallelogram': area = input.number('base') * h; break;
+            default: area = Math.PI * input.number('semiMajor') * input.number('semiMinor');
+        }
+        return { outputs: { area } };
+    },
+});
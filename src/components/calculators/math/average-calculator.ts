@@ -0,0 +1,40 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { mean, parseNumberList, sum } from '@/lib/math';
+
+export const averageCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Numbers', kind: 'textarea', placeholder: 'e.g., 85, 92, 78, 90', description: 'Separate numbers with commas, spaces or new lines.' },
+        { name: 'weights', label: 'Weights (optional)', kind: 'textarea', optional: true, placeholder: 'e.g., 1, 2, 1, 2', description: 'One weight per number for a weighted average.' },
+    ],
+    outputs: [
+        { name: 'average', label: 'Average', format: 'number', precision: 6, primary: true },
+        { name: 'sum', label: 'Sum', format: 'number', precision: 6 },
+        { name: 'count', label: 'Count', format: 'integer' },
+    ],
+    submitLabel: 'Calculate Average',
+    compute: (input) => {
+        const values = parseNumberList(input.string('values'));
+        if (!values) throw new CalculationError('Enter numbers only.', 'values');
+        if (values.length === 0) throw new CalculationError('Enter at least one value.', 'values');
+
+        const weightText = input.string('weights');
+        if (weightText === '') {
+            return { outputs: { average: mean(values), sum: sum(values), count: values.length } };
+        }
+
+        const weights = parseNumberList(weightText);
+        if (!weights) throw new CalculationError('Enter numbers only.', 'weights');
+        if (weights.length !== values.length) {
+            throw new CalculationError(`Enter exactly ${values.length} weights, one per number.`, 'weights');
+        }
+        const totalWeight = sum(weights);
+        if (totalWeight === 0) throw new CalculationError('Weights cannot add up to zero.', 'weights');
+
+        const weightedSum = sum(values.map((value, i) => value * weights[i]));
+        return {
+            outputs: { average: weightedSum / totalWeight, sum: sum(values), count: values.length },
+            notes: ['Weighted average: Σ(value × weight) ÷ Σweight.'],
+        };
+    },
+});
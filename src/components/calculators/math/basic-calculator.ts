@@ -0,0 +1,18 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { runExpressions, scientificNotation } from './expression';
+
+export const basicCalculator = defineCalculator({
+    version: 2,
+    inputs: [
+        { name: 'expression', label: 'Expression', kind: 'text', placeholder: 'e.g., (12 + 4) × 3 ÷ 2', description: 'Use + − × ÷, parentheses, % and √.' },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'number', precision: 10, primary: true },
+        { name: 'scientific', label: 'Scientific Notation', format: 'text' },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const [line] = runExpressions(input.string('expression'), 'deg', 'expression');
+        return { outputs: { result: line.value, scientific: scientificNotation(line.value) } };
+    },
+});
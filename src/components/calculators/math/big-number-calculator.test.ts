@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { CalculationError, createInputReader, getDefaultValues, type CalculationContext } from '@/lib/calculator-definition';
+import { bigNumberCalculator } from './big-number-calculator';
+
+const context: CalculationContext = { currency: { code: 'USD', name: 'US Dollar', symbol: '$' }, units: 'metric' };
+
+function calculate(values: Record<string, string>) {
+    return bigNumberCalculator.compute(createInputReader({ ...getDefaultValues(bigNumberCalculator), ...values }), context).outputs;
+}
+
+describe('bigNumberCalculator', () => {
+    it('divides at the chosen precision and rounding', () => {
+        expect(calculate({ a: '2', operation: 'divide', b: '3', places: '10', rounding: 'halfEven' }).result).toBe('0.6666666667');
+        expect(calculate({ a: '2', operation: 'divide', b: '3', places: '10', rounding: 'truncate' }).result).toBe('0.6666666666');
+    });
+
+    it('raises to large exact powers', () => {
+        const outputs = calculate({ a: '2', operation: 'power', b: '100' });
+        expect(outputs.result).toBe('1267650600228229401496703205376');
+        expect(outputs.digits).toBe(31);
+    });
+
+    it('rejects exponents beyond the limit', () => {
+        expect(() => calculate({ a: '1', operation: 'power', b: '10001' })).toThrow(CalculationError);
+    });
+
+    it('rejects powers whose result would have too many digits', () => {
+        expect(() => calculate({ a: '123456789012', operation: 'power', b: '9000' })).toThrow('The result would be too long to display.');
+    });
+
+    it('rejects division by zero and non-numbers', () => {
+        expect(() => calculate({ a: '1', operation: 'divide', b: '0' })).toThrow(CalculationError);
+        expect(() => calculate({ a: '12abc', operation: 'add', b: '1' })).toThrow(CalculationError);
+    });
+});
@@ -0,0 +1,83 @@
+import { CalculationError, defineCalculator, type InputReader } from '@/lib/calculator-definition';
+import { Decimal, parseDecimal, ROUNDING_MODES, type RoundingMode } from '@/lib/precision';
+
+const MAX_EXPONENT = 10000;
+// Keeps exact powers from producing results too long to display
+const MAX_RESULT_DIGITS = 100000;
+
+const UNARY_OPERATIONS = ['sqrt'];
+
+function readDecimal(input: InputReader, name: string): Decimal {
+    const value = parseDecimal(input.string(name));
+    if (!value) throw new CalculationError('Enter a valid number, e.g. 12345678901234567890.123', name);
+    return value;
+}
+
+export const bigNumberCalculator = defineCalculator({
+    version: 2,
+    inputs: [
+        { name: 'a', label: 'First Number', kind: 'textarea', placeholder: 'e.g., 123456789012345678901234567890.5' },
+        {
+            name: 'operation', label: 'Operation', kind: 'select', options: [
+                { value: 'add', label: 'Add (+)' },
+                { value: 'subtract', label: 'Subtract (−)' },
+                { value: 'multiply', label: 'Multiply (×)' },
+                { value: 'divide', label: 'Divide (÷)' },
+                { value: 'modulo', label: 'Modulo (mod)' },
+                { value: 'power', label: 'Power (^, whole exponent)' },
+                { value: 'sqrt', label: 'Square root of the first number (√)' },
+            ],
+        },
+        { name: 'b', label: 'Second Number', kind: 'textarea', placeholder: 'e.g., 987654321098765432109876543210', visibleWhen: values => !UNARY_OPERATIONS.includes(values.operation) },
+        { name: 'places', label: 'Decimal Places', kind: 'integer', min: 0, max: 1000, defaultValue: '50', description: 'Precision for division, roots and negative powers. Other operations are exact.' },
+        { name: 'rounding', label: 'Rounding', kind: 'select', options: ROUNDING_MODES, defaultValue: 'halfEven' },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'text', primary: true },
+        { name: 'scientific', label: 'Scientific Notation', format: 'text' },
+        { name: 'digits', label: 'Significant Digits', format: 'integer' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const a = readDecimal(input, 'a');
+        const operation = input.string('operation');
+        const places = input.number('places');
+        const rounding = input.string('rounding') as RoundingMode;
+
+        let result: Decimal;
+        if (operation === 'sqrt') {
+            if (a.isNegative()) throw new CalculationError('Cannot take the square root of a negative number.', 'a');
+            result = a.sqrt(places, rounding);
+        } else {
+            const b = readDecimal(input, 'b');
+            switch (operation) {
+                case 'add': result = a.add(b); break;
+                case 'subtract': result = a.subtract(b); break;
+                case 'multiply': result = a.multiply(b); break;
+                case 'divide':
+                case 'modulo':
+                    if (b.isZero()) throw new CalculationError('Cannot divide by zero.', 'b');
+                    result = operation === 'divide' ? a.divide(b, places, rounding) : a.remainder(b);
+                    break;
+                default: {
+                    if (!b.isInteger()) throw new CalculationError('Exponent must be a whole number.', 'b');
+                    const exponent = b.toNumber();
+                    if (Math.abs(exponent) > MAX_EXPONENT) throw new CalculationError(`Exponent must be between −${MAX_EXPONENT} and ${MAX_EXPONENT}.`, 'b');
+                    if (a.isZero() && exponent < 0) throw new CalculationError('Zero cannot be raised to a negative power.', 'b');
+                    if (a.precision() * Math.abs(exponent) > MAX_RESULT_DIGITS) throw new CalculationError('The result would be too long to display.', 'b');
+                    result = a.pow(exponent, places, rounding);
+                }
+            }
+        }
+
+        const digits = result.stripTrailingZeros().precision();
+        return {
+            outputs: {
+                result: result.toString(),
+                scientific: result.toExponential(Math.min(digits, 20), rounding),
+                digits: result.isZero() ? 1 : digits,
+            },
+        };
+    },
+});
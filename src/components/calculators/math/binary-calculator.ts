@@ -0,0 +1,24 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { INTEGER_OPERATIONS, applyIntegerOperation, formatBigInt, parseBigInt } from './number-base';
+
+export const binaryCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'a', label: 'First Binary Number', kind: 'text', placeholder: 'e.g., 1011' },
+        { name: 'operation', label: 'Operation', kind: 'select', options: INTEGER_OPERATIONS },
+        { name: 'b', label: 'Second Binary Number', kind: 'text', placeholder: 'e.g., 110' },
+    ],
+    outputs: [
+        { name: 'binary', label: 'Result (Binary)', format: 'text', primary: true },
+        { name: 'decimal', label: 'Result (Decimal)', format: 'text' },
+        { name: 'hex', label: 'Result (Hex)', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const a = parseBigInt(input.string('a'), 2, 'a');
+        const b = parseBigInt(input.string('b'), 2, 'b');
+        const result = applyIntegerOperation(a, b, input.string('operation'), 'b');
+        return { outputs: { binary: formatBigInt(result, 2), decimal: result.toString(), hex: formatBigInt(result, 16) } };
+    },
+});
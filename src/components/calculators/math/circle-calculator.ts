@@ -0,0 +1,42 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+export const circleCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'known', label: 'Known Value', kind: 'select', options: [
+                { value: 'radius', label: 'Radius' },
+                { value: 'diameter', label: 'Diameter' },
+                { value: 'circumference', label: 'Circumference' },
+                { value: 'area', label: 'Area' },
+            ],
+        },
+        { name: 'value', label: 'Value', kind: 'number', greaterThan: 0, placeholder: 'e.g., 5' },
+    ],
+    outputs: [
+        { name: 'radius', label: 'Radius', format: 'number', precision: 6 },
+        { name: 'diameter', label: 'Diameter', format: 'number', precision: 6 },
+        { name: 'circumference', label: 'Circumference', format: 'number', precision: 6 },
+        { name: 'area', label: 'Area', format: 'number', precision: 6, primary: true },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const value = input.number('value');
+        let radius: number;
+        switch (input.string('known')) {
+            case 'diameter': radius = value / 2; break;
+            case 'circumference': radius = value / (2 * Math.PI); break;
+            case 'area': radius = Math.sqrt(value / Math.PI); break;
+            default: radius = value;
+        }
+        return {
+            outputs: {
+                radius,
+                diameter: 2 * radius,
+                circumference: 2 * Math.PI * radius,
+                area: Math.PI * radius * radius,
+            },
+        };
+    },
+});
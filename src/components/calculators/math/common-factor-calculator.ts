@@ -0,0 +1,23 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { factors, gcdOf } from '@/lib/math';
+import { parsePositiveIntegers } from './integer-list';
+
+export const commonFactorCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Numbers', kind: 'text', placeholder: 'e.g., 12, 18, 30', description: 'Enter two or more whole numbers separated by commas or spaces.' },
+    ],
+    outputs: [
+        { name: 'commonFactors', label: 'Common Factors', format: 'text', primary: true },
+        { name: 'count', label: 'Number of Common Factors', format: 'integer' },
+        { name: 'gcf', label: 'Greatest Common Factor', format: 'integer' },
+    ],
+    submitLabel: 'Find Common Factors',
+    compute: (input) => {
+        const values = parsePositiveIntegers(input.string('values'), 'values');
+        // Every common factor divides the GCF, so its divisors are the answer
+        const gcf = gcdOf(values);
+        const common = factors(gcf);
+        return { outputs: { commonFactors: common.join(', '), count: common.length, gcf } };
+    },
+});
@@ -0,0 +1,39 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const is3d = (values: Record<string, string>) => values.dimensions === '3';
+
+export const distanceCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'dimensions', label: 'Dimensions', kind: 'select', options: [
+                { value: '2', label: '2D (x, y)' },
+                { value: '3', label: '3D (x, y, z)' },
+            ],
+        },
+        { name: 'x1', label: 'x₁', kind: 'number' },
+        { name: 'y1', label: 'y₁', kind: 'number' },
+        { name: 'z1', label: 'z₁', kind: 'number', visibleWhen: is3d },
+        { name: 'x2', label: 'x₂', kind: 'number' },
+        { name: 'y2', label: 'y₂', kind: 'number' },
+        { name: 'z2', label: 'z₂', kind: 'number', visibleWhen: is3d },
+    ],
+    outputs: [
+        { name: 'distance', label: 'Distance', format: 'number', precision: 6, primary: true },
+        { name: 'midpoint', label: 'Midpoint', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Calculate Distance',
+    compute: (input) => {
+        const three = input.string('dimensions') === '3';
+        const p1 = [input.number('x1'), input.number('y1'), three ? input.number('z1') : 0];
+        const p2 = [input.number('x2'), input.number('y2'), three ? input.number('z2') : 0];
+        const midpoint = p1.slice(0, three ? 3 : 2).map((value, i) => Number(((value + p2[i]) / 2).toFixed(6)));
+        return {
+            outputs: {
+                distance: Math.hypot(p2[0] - p1[0], p2[1] - p1[1], p2[2] - p1[2]),
+                midpoint: `(${midpoint.join(', ')})`,
+            },
+        };
+    },
+});
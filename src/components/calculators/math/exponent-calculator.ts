@@ -0,0 +1,24 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+export const exponentCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'base', label: 'Base', kind: 'number', placeholder: 'e.g., 2' },
+        { name: 'exponent', label: 'Exponent', kind: 'number', placeholder: 'e.g., 10' },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'number', precision: 10, primary: true },
+        { name: 'scientific', label: 'Scientific Notation', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Power',
+    compute: (input) => {
+        const base = input.number('base');
+        const exponent = input.number('exponent');
+        const result = Math.pow(base, exponent);
+        if (isNaN(result)) {
+            throw new CalculationError('A negative base needs a whole-number exponent (the result would be complex).', 'exponent');
+        }
+        return { outputs: { result, scientific: isFinite(result) ? result.toExponential(6) : null } };
+    },
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { CalculationError } from '@/lib/calculator-definition';
+import { runExpressions } from './expression';
+
+describe('runExpressions', () => {
+    it('keeps variables and ans between evaluations that share a scope', () => {
+        const variables: Record<string, number> = {};
+        runExpressions('r = 2\nr * 3', 'deg', 'expression', variables);
+        expect(variables).toEqual({ r: 2, ans: 6 });
+
+        const [line] = runExpressions('ans + r', 'deg', 'expression', variables);
+        expect(line.value).toBe(8);
+        expect(variables.ans).toBe(8);
+    });
+
+    it('leaves the scope untouched when a line fails', () => {
+        const variables: Record<string, number> = { x: 1 };
+        expect(() => runExpressions('x = 5\nunknown + 1', 'deg', 'expression', variables)).toThrow(CalculationError);
+        expect(variables).toEqual({ x: 1 });
+    });
+
+    it('starts from an empty scope by default', () => {
+        runExpressions('y = 4', 'deg', 'expression');
+        expect(() => runExpressions('y', 'deg', 'expression')).toThrow(CalculationError);
+    });
+});
@@ -0,0 +1,31 @@
+import { CalculationError } from '@/lib/calculator-definition';
+import { describeExpressionError, evaluateLines, LineError, type AngleMode, type EvaluatedLine } from '@/lib/expression';
+
+/**
+ * Runs a worksheet of expressions for the scientific and basic calculators,
+ * turning engine errors into a `CalculationError` on `field` that points at
+ * the offending token.
+ *
+ * The worksheet starts from `variables`, which gets its assignments and `ans`
+ * only if every line evaluates, so callers can keep it between evaluations.
+ */
+export function runExpressions(source: string, angleMode: AngleMode, field: string, variables: Record<string, number> = {}): EvaluatedLine[] {
+    try {
+        const env = { angleMode, variables: { ...variables } };
+        const lines = evaluateLines(source, env);
+        if (lines.length === 0) throw new CalculationError('Enter an expression.', field);
+        Object.assign(variables, env.variables);
+        return lines;
+    } catch (error) {
+        if (!(error instanceof LineError)) throw error;
+        const multiline = source.trim().includes('\n');
+        const message = describeExpressionError(error.source, error);
+        throw new CalculationError(multiline ? `Line ${error.line}: ${message}` : message, field);
+    }
+}
+
+/** Very large or small results are also shown in scientific notation. */
+export function scientificNotation(value: number): string | null {
+    const magnitude = Math.abs(value);
+    return magnitude !== 0 && (magnitude >= 1e15 || magnitude < 1e-6) ? value.toExponential(10).replace(/\.?0+e/, 'e') : null;
+}
@@ -0,0 +1,32 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { factors, isPrime } from '@/lib/math';
+
+export const factorCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'value', label: 'Number', kind: 'integer', min: 1, max: Number.MAX_SAFE_INTEGER, placeholder: 'e.g., 360' },
+    ],
+    outputs: [
+        { name: 'factors', label: 'Factors', format: 'text', primary: true },
+        { name: 'count', label: 'Number of Factors', format: 'integer' },
+        { name: 'pairs', label: 'Factor Pairs', format: 'text' },
+        { name: 'sum', label: 'Sum of Factors', format: 'integer' },
+    ],
+    submitLabel: 'Find Factors',
+    compute: (input) => {
+        const value = input.number('value');
+        const divisors = factors(value);
+        const pairs = divisors
+            .filter(divisor => divisor * divisor <= value)
+            .map(divisor => `${divisor} × ${value / divisor}`);
+        return {
+            outputs: {
+                factors: divisors.join(', '),
+                count: divisors.length,
+                pairs: pairs.join(', '),
+                sum: divisors.reduce((acc, divisor) => acc + divisor, 0),
+            },
+            notes: isPrime(value) ? [`${value} is a prime number.`] : undefined,
+        };
+    },
+});
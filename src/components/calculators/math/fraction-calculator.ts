@@ -0,0 +1,63 @@
+import { CalculationError, defineCalculator, type InputReader } from '@/lib/calculator-definition';
+import { parseRational, Rational } from '@/lib/precision';
+
+const OPERATIONS = [
+    { value: 'add', label: 'Add (+)' },
+    { value: 'subtract', label: 'Subtract (−)' },
+    { value: 'multiply', label: 'Multiply (×)' },
+    { value: 'divide', label: 'Divide (÷)' },
+];
+
+/** Reads an integer input exactly, however many digits it has. */
+function readInteger(input: InputReader, name: string): Rational {
+    // Validation has already checked the value is a whole number
+    return parseRational(input.string(name)) ?? Rational.from(input.number(name));
+}
+
+export const fractionCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'numerator1', label: 'Numerator 1', kind: 'integer', placeholder: 'e.g., 1' },
+        { name: 'denominator1', label: 'Denominator 1', kind: 'integer', placeholder: 'e.g., 2' },
+        { name: 'operation', label: 'Operation', kind: 'select', options: OPERATIONS },
+        { name: 'numerator2', label: 'Numerator 2', kind: 'integer', placeholder: 'e.g., 1' },
+        { name: 'denominator2', label: 'Denominator 2', kind: 'integer', placeholder: 'e.g., 3' },
+    ],
+    outputs: [
+        { name: 'fraction', label: 'Result (Simplified)', format: 'text', primary: true },
+        { name: 'mixed', label: 'Mixed Number', format: 'text' },
+        { name: 'decimal', label: 'Decimal', format: 'number', precision: 10 },
+        { name: 'exactDecimal', label: 'Exact Decimal', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Fraction',
+    compute: (input) => {
+        const n1 = readInteger(input, 'numerator1');
+        const d1 = readInteger(input, 'denominator1');
+        const n2 = readInteger(input, 'numerator2');
+        const d2 = readInteger(input, 'denominator2');
+        if (d1.isZero()) throw new CalculationError('Denominator cannot be zero.', 'denominator1');
+        if (d2.isZero()) throw new CalculationError('Denominator cannot be zero.', 'denominator2');
+
+        const a = n1.divide(d1);
+        const b = n2.divide(d2);
+        let result: Rational;
+        switch (input.string('operation')) {
+            case 'add': result = a.add(b); break;
+            case 'subtract': result = a.subtract(b); break;
+            case 'multiply': result = a.multiply(b); break;
+            default:
+                if (b.isZero()) throw new CalculationError('Cannot divide by a zero fraction.', 'numerator2');
+                result = a.divide(b);
+        }
+
+        return {
+            outputs: {
+                fraction: result.toString(),
+                mixed: result.toMixedString(),
+                decimal: result.toNumber(),
+                exactDecimal: result.toRepeatingDecimal(),
+            },
+        };
+    },
+});
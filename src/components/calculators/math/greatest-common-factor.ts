@@ -0,0 +1,22 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { gcdOf } from '@/lib/math';
+import { parsePositiveIntegers } from './integer-list';
+
+export const greatestCommonFactorCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Numbers', kind: 'text', placeholder: 'e.g., 24, 36, 60', description: 'Enter two or more whole numbers separated by commas or spaces.' },
+    ],
+    outputs: [
+        { name: 'gcf', label: 'Greatest Common Factor', format: 'integer', primary: true },
+    ],
+    submitLabel: 'Find GCF',
+    compute: (input) => {
+        const values = parsePositiveIntegers(input.string('values'), 'values');
+        const gcf = gcdOf(values);
+        return {
+            outputs: { gcf },
+            notes: gcf === 1 ? ['These numbers are relatively prime (coprime).'] : undefined,
+        };
+    },
+});
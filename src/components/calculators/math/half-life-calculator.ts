@@ -0,0 +1,56 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const isSolveFor = (...targets: string[]) => (values: Record<string, string>) => !targets.includes(values.solveFor);
+
+/** Exponential decay N(t) = N₀ · (1/2)^(t / t½), solved for any one variable. */
+export const halfLifeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'solveFor', label: 'Solve For', kind: 'select', options: [
+                { value: 'remaining', label: 'Remaining quantity (N)' },
+                { value: 'initial', label: 'Initial quantity (N₀)' },
+                { value: 'time', label: 'Time elapsed (t)' },
+                { value: 'halfLife', label: 'Half-life (t½)' },
+            ],
+        },
+        { name: 'initial', label: 'Initial Quantity (N₀)', kind: 'number', greaterThan: 0, visibleWhen: isSolveFor('initial') },
+        { name: 'remaining', label: 'Remaining Quantity (N)', kind: 'number', greaterThan: 0, visibleWhen: isSolveFor('remaining') },
+        { name: 'time', label: 'Time Elapsed (t)', kind: 'number', greaterThan: 0, visibleWhen: isSolveFor('time') },
+        { name: 'halfLife', label: 'Half-life (t½)', kind: 'number', greaterThan: 0, visibleWhen: isSolveFor('halfLife'), description: 'Use the same time unit as the elapsed time.' },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'number', precision: 6, primary: true },
+        { name: 'decayConstant', label: 'Decay Constant (λ)', format: 'number', precision: 6 },
+        { name: 'meanLifetime', label: 'Mean Lifetime (τ)', format: 'number', precision: 6 },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const solveFor = input.string('solveFor');
+        const n0 = input.number('initial');
+        const n = input.number('remaining');
+        const t = input.number('time');
+        let halfLife = input.number('halfLife');
+        let result: number;
+
+        switch (solveFor) {
+            case 'remaining':
+                result = n0 * Math.pow(0.5, t / halfLife);
+                break;
+            case 'initial':
+                result = n / Math.pow(0.5, t / halfLife);
+                break;
+            case 'time':
+                if (n >= n0) throw new CalculationError('Remaining quantity must be less than the initial quantity.', 'remaining');
+                result = (halfLife * Math.log(n / n0)) / Math.log(0.5);
+                break;
+            default:
+                if (n >= n0) throw new CalculationError('Remaining quantity must be less than the initial quantity.', 'remaining');
+                halfLife = (t * Math.log(0.5)) / Math.log(n / n0);
+                result = halfLife;
+        }
+
+        const decayConstant = Math.LN2 / halfLife;
+        return { outputs: { result, decayConstant, meanLifetime: 1 / decayConstant } };
+    },
+});
@@ -0,0 +1,24 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { INTEGER_OPERATIONS, applyIntegerOperation, formatBigInt, parseBigInt } from './number-base';
+
+export const hexCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'a', label: 'First Hex Number', kind: 'text', placeholder: 'e.g., 1F4' },
+        { name: 'operation', label: 'Operation', kind: 'select', options: INTEGER_OPERATIONS },
+        { name: 'b', label: 'Second Hex Number', kind: 'text', placeholder: 'e.g., A' },
+    ],
+    outputs: [
+        { name: 'hex', label: 'Result (Hex)', format: 'text', primary: true },
+        { name: 'decimal', label: 'Result (Decimal)', format: 'text' },
+        { name: 'binary', label: 'Result (Binary)', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const a = parseBigInt(input.string('a'), 16, 'a');
+        const b = parseBigInt(input.string('b'), 16, 'b');
+        const result = applyIntegerOperation(a, b, input.string('operation'), 'b');
+        return { outputs: { hex: formatBigInt(result, 16), decimal: result.toString(), binary: formatBigInt(result, 2) } };
+    },
+});
@@ -0,0 +1,91 @@
+import type { CalculatorDefinition } from '@/lib/calculator-definition';
+import { scientificCalculator } from './scientific-calculator';
+import { fractionCalculator } from './fraction-calculator';
+import { percentageCalculator } from './percentage-calculator';
+import { triangleCalculator } from './triangle-calculator';
+import { volumeCalculator } from './volume-calculator';
+import { standardDeviationCalculator } from './standard-deviation';
+import { randomNumberGenerator } from './random-number-generator';
+import { numberSequenceCalculator } from './number-sequence';
+import { percentErrorCalculator } from './percent-error-calculator';
+import { exponentCalculator } from './exponent-calculator';
+import { binaryCalculator } from './binary-calculator';
+import { hexCalculator } from './hex-calculator';
+import { halfLifeCalculator } from './half-life-calculator';
+import { quadraticFormulaCalculator } from './quadratic-formula';
+import { slopeCalculator } from './slope-calculator';
+import { logCalculator } from './log-calculator';
+import { areaCalculator } from './area-calculator';
+import { sampleSizeCalculator } from './sample-size-calculator';
+import { probabilityCalculator } from './probability-calculator';
+import { statisticsCalculator } from './statistics-calculator';
+import { meanMedianModeRangeCalculator } from './mean-median-mode-range';
+import { permutationCombinationCalculator } from './permutation-combination';
+import { zScoreCalculator } from './z-score-calculator';
+import { ratioCalculator } from './ratio-calculator';
+import { distanceCalculator } from './distance-calculator';
+import { circleCalculator } from './circle-calculator';
+import { surfaceAreaCalculator } from './surface-area-calculator';
+import { pythagoreanTheoremCalculator } from './pythagorean-theorem';
+import { rightTriangleCalculator } from './right-triangle-calculator';
+import { rootCalculator } from './root-calculator';
+import { leastCommonMultipleCalculator } from './least-common-multiple';
+import { greatestCommonFactorCalculator } from './greatest-common-factor';
+import { factorCalculator } from './factor-calculator';
+import { roundingCalculator } from './rounding-calculator';
+import { matrixCalculator } from './matrix-calculator';
+import { scientificNotationCalculator } from './scientific-notation';
+import { bigNumberCalculator } from './big-number-calculator';
+import { primeFactorizationCalculator } from './prime-factorization';
+import { commonFactorCalculator } from './common-factor-calculator';
+import { basicCalculator } from './basic-calculator';
+import { longDivisionCalculator } from './long-division-calculator';
+import { averageCalculator } from './average-calculator';
+import { pValueCalculator } from './p-value-calculator';
+
+/** Math category calculators keyed by slug. */
+export const MATH_CALCULATORS: Record<string, CalculatorDefinition> = {
+    'scientific-calculator': scientificCalculator,
+    'fraction-calculator': fractionCalculator,
+    'percentage-calculator': percentageCalculator,
+    'triangle-calculator': triangleCalculator,
+    'volume-calculator': volumeCalculator,
+    'standard-deviation': standardDeviationCalculator,
+    'random-number-generator': randomNumberGenerator,
+    'number-sequence': numberSequenceCalculator,
+    'percent-error-calculator': percentErrorCalculator,
+    'exponent-calculator': exponentCalculator,
+    'binary-calculator': binaryCalculator,
+    'hex-calculator': hexCalculator,
+    'half-life-calculator': halfLifeCalculator,
+    'quadratic-formula': quadraticFormulaCalculator,
+    'slope-calculator': slopeCalculator,
+    'log-calculator': logCalculator,
+    'area-calculator': areaCalculator,
+    'sample-size-calculator': sampleSizeCalculator,
+    'probability-calculator': probabilityCalculator,
+    'statistics-calculator': statisticsCalculator,
+    'mean-median-mode-range': meanMedianModeRangeCalculator,
+    'permutation-combination': permutationCombinationCalculator,
+    'z-score-calculator': zScoreCalculator,
+    'ratio-calculator': ratioCalculator,
+    'distance-calculator': distanceCalculator,
+    'circle-calculator': circleCalculator,
+    'surface-area-calculator': surfaceAreaCalculator,
+    'pythagorean-theorem': pythagoreanTheoremCalculator,
+    'right-triangle-calculator': rightTriangleCalculator,
+    'root-calculator': rootCalculator,
+    'least-common-multiple': leastCommonMultipleCalculator,
+    'greatest-common-factor': greatestCommonFactorCalculator,
+    'factor-calculator': factorCalculator,
+    'rounding-calculator': roundingCalculator,
+    'matrix-calculator': matrixCalculator,
+    'scientific-notation': scientificNotationCalculator,
+    'big-number-calculator': bigNumberCalculator,
+    'prime-factorization': primeFactorizationCalculator,
+    'common-factor-calculator': commonFactorCalculator,
+    'basic-calculator': basicCalculator,
+    'long-division-calculator': longDivisionCalculator,
+    'average-calculator': averageCalculator,
+    'p-value-calculator': pValueCalculator,
+};
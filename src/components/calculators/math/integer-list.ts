@@ -0,0 +1,18 @@
+import { CalculationError } from '@/lib/calculator-definition';
+import { parseNumberList } from '@/lib/math';
+
+/**
+ * Parses a list of positive whole numbers for the GCF, LCM and common factor
+ * calculators, attaching any problem to `field`.
+ */
+export function parsePositiveIntegers(text: string, field: string, minimumCount = 2): number[] {
+    const values = parseNumberList(text);
+    if (!values) throw new CalculationError('Enter whole numbers only.', field);
+    if (values.some(value => !Number.isSafeInteger(value) || value <= 0)) {
+        throw new CalculationError('All numbers must be positive whole numbers.', field);
+    }
+    if (values.length < minimumCount) {
+        throw new CalculationError(`Enter at least ${minimumCount} numbers.`, field);
+    }
+    return values;
+}
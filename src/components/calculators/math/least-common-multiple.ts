@@ -0,0 +1,20 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { lcmOf } from '@/lib/math';
+import { parsePositiveIntegers } from './integer-list';
+
+export const leastCommonMultipleCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Numbers', kind: 'text', placeholder: 'e.g., 4, 6, 10', description: 'Enter two or more whole numbers separated by commas or spaces.' },
+    ],
+    outputs: [
+        { name: 'lcm', label: 'Least Common Multiple', format: 'integer', primary: true },
+    ],
+    submitLabel: 'Find LCM',
+    compute: (input) => {
+        const values = parsePositiveIntegers(input.string('values'), 'values');
+        const lcm = lcmOf(values);
+        if (!Number.isSafeInteger(lcm)) throw new CalculationError('The result is too large to calculate exactly.', 'values');
+        return { outputs: { lcm } };
+    },
+});
@@ -0,0 +1,29 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+export const logCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'value', label: 'Number (x)', kind: 'number', placeholder: 'e.g., 100', greaterThan: 0 },
+        {
+            name: 'baseType', label: 'Base', kind: 'select', options: [
+                { value: '10', label: 'Common log (base 10)' },
+                { value: 'e', label: 'Natural log (base e)' },
+                { value: '2', label: 'Binary log (base 2)' },
+                { value: 'custom', label: 'Custom base' },
+            ],
+        },
+        { name: 'base', label: 'Custom Base (b)', kind: 'number', placeholder: 'e.g., 5', greaterThan: 0, visibleWhen: values => values.baseType === 'custom' },
+    ],
+    outputs: [
+        { name: 'log', label: 'Logarithm', format: 'number', precision: 10, primary: true },
+        { name: 'ln', label: 'Natural Log (ln x)', format: 'number', precision: 10 },
+    ],
+    submitLabel: 'Calculate Logarithm',
+    compute: (input) => {
+        const value = input.number('value');
+        const baseType = input.string('baseType');
+        const base = baseType === 'custom' ? input.number('base') : baseType === 'e' ? Math.E : Number(baseType);
+        if (base === 1) throw new CalculationError('Base cannot be 1.', 'base');
+        return { outputs: { log: Math.log(value) / Math.log(base), ln: Math.log(value) } };
+    },
+});
@@ -0,0 +1,53 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const MAX_DIGITS = 15;
+
+export const longDivisionCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'dividend', label: 'Dividend', kind: 'integer', min: 0, max: Number.MAX_SAFE_INTEGER, placeholder: 'e.g., 7842' },
+        { name: 'divisor', label: 'Divisor', kind: 'integer', greaterThan: 0, max: Number.MAX_SAFE_INTEGER, placeholder: 'e.g., 12' },
+    ],
+    outputs: [
+        { name: 'quotient', label: 'Quotient', format: 'integer', primary: true },
+        { name: 'remainder', label: 'Remainder', format: 'integer', primary: true },
+        { name: 'decimal', label: 'Decimal Result', format: 'number', precision: 10 },
+    ],
+    tables: [
+        {
+            name: 'steps', title: 'Steps', columns: [
+                { key: 'step', label: 'Step', format: 'integer' },
+                { key: 'bringDown', label: 'Working Number', format: 'integer' },
+                { key: 'digit', label: 'Quotient Digit', format: 'integer' },
+                { key: 'subtract', label: 'Subtract', format: 'integer' },
+                { key: 'remainder', label: 'Remainder', format: 'integer' },
+            ],
+        },
+    ],
+    columns: 2,
+    submitLabel: 'Divide',
+    compute: (input) => {
+        const dividend = input.number('dividend');
+        const divisor = input.number('divisor');
+        const digits = String(dividend);
+        if (digits.length > MAX_DIGITS) throw new CalculationError(`Dividend can have at most ${MAX_DIGITS} digits.`, 'dividend');
+
+        // Walk the dividend digit by digit, recording each bring-down/subtract step
+        const steps = [];
+        let working = 0;
+        for (const char of digits) {
+            working = working * 10 + Number(char);
+            const digit = Math.floor(working / divisor);
+            const subtract = digit * divisor;
+            if (steps.length > 0 || digit > 0) {
+                steps.push({ step: steps.length + 1, bringDown: working, digit, subtract, remainder: working - subtract });
+            }
+            working -= subtract;
+        }
+
+        return {
+            outputs: { quotient: Math.floor(dividend / divisor), remainder: dividend % divisor, decimal: dividend / divisor },
+            tables: { steps },
+        };
+    },
+});
@@ -0,0 +1,128 @@
+import { CalculationError, defineCalculator, type TableRow } from '@/lib/calculator-definition';
+
+type Matrix = number[][];
+
+const MAX_SIZE = 10;
+const needsSecond = (values: Record<string, string>) => ['add', 'subtract', 'multiply'].includes(values.operation);
+
+function parseMatrix(text: string, field: string): Matrix {
+    const rows = text.split(/\n|;/).map(row => row.trim()).filter(row => row !== '');
+    const matrix = rows.map(row => row.split(/[\s,]+/).map(Number));
+    if (matrix.length === 0 || matrix.some(row => row.some(value => !isFinite(value)))) {
+        throw new CalculationError('Enter numbers only, one row per line.', field);
+    }
+    if (matrix.some(row => row.length !== matrix[0].length)) {
+        throw new CalculationError('Every row must have the same number of columns.', field);
+    }
+    if (matrix.length > MAX_SIZE || matrix[0].length > MAX_SIZE) {
+        throw new CalculationError(`Matrices can be at most ${MAX_SIZE}×${MAX_SIZE}.`, field);
+    }
+    return matrix;
+}
+
+/** Gauss-Jordan elimination with partial pivoting; returns the determinant and inverse. */
+function eliminate(matrix: Matrix): { determinant: number; inverse: Matrix | null } {
+    const n = matrix.length;
+    const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+    let determinant = 1;
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) return { determinant: 0, inverse: null };
+        if (pivot !== col) {
+            [a[pivot], a[col]] = [a[col], a[pivot]];
+            determinant = -determinant;
+        }
+        const pivotValue = a[col][col];
+        determinant *= pivotValue;
+        a[col] = a[col].map(value => value / pivotValue);
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = a[row][col];
+            a[row] = a[row].map((value, j) => value - factor * a[col][j]);
+        }
+    }
+    return { determinant, inverse: a.map(row => row.slice(n)) };
+}
+
+const clean = (value: number) => (Math.abs(value) < 1e-12 ? 0 : value);
+
+export const matrixCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'matrixA', label: 'Matrix A', kind: 'textarea', placeholder: '1 2\n3 4', description: 'One row per line, values separated by spaces or commas.' },
+        {
+            name: 'operation', label: 'Operation', kind: 'select', options: [
+                { value: 'add', label: 'A + B' },
+                { value: 'subtract', label: 'A − B' },
+                { value: 'multiply', label: 'A × B' },
+                { value: 'determinant', label: 'Determinant of A' },
+                { value: 'inverse', label: 'Inverse of A' },
+                { value: 'transpose', label: 'Transpose of A' },
+            ],
+        },
+        { name: 'matrixB', label: 'Matrix B', kind: 'textarea', placeholder: '5 6\n7 8', visibleWhen: needsSecond },
+    ],
+    outputs: [
+        { name: 'determinant', label: 'Determinant', format: 'number', precision: 6, primary: true },
+        { name: 'dimensions', label: 'Result Size', format: 'text' },
+    ],
+    tables: [
+        { name: 'result', title: 'Result Matrix', columns: Array.from({ length: MAX_SIZE }, (_, j) => ({ key: `c${j}`, label: `Col ${j + 1}`, format: 'number' as const, precision: 6 })) },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const a = parseMatrix(input.string('matrixA'), 'matrixA');
+        const operation = input.string('operation');
+        const square = a.length === a[0].length;
+        let result: Matrix | null = null;
+        let determinant: number | null = null;
+
+        switch (operation) {
+            case 'add':
+            case 'subtract': {
+                const b = parseMatrix(input.string('matrixB'), 'matrixB');
+                if (a.length !== b.length || a[0].length !== b[0].length) {
+                    throw new CalculationError('A and B must have the same dimensions.', 'matrixB');
+                }
+                const sign = operation === 'add' ? 1 : -1;
+                result = a.map((row, i) => row.map((value, j) => value + sign * b[i][j]));
+                break;
+            }
+            case 'multiply': {
+                const b = parseMatrix(input.string('matrixB'), 'matrixB');
+                if (a[0].length !== b.length) {
+                    throw new CalculationError('The number of columns in A must equal the number of rows in B.', 'matrixB');
+                }
+                result = a.map(row => b[0].map((_, j) => row.reduce((acc, value, k) => acc + value * b[k][j], 0)));
+                break;
+            }
+            case 'determinant':
+                if (!square) throw new CalculationError('Determinant requires a square matrix.', 'matrixA');
+                determinant = eliminate(a).determinant;
+                break;
+            case 'inverse': {
+                if (!square) throw new CalculationError('Inverse requires a square matrix.', 'matrixA');
+                const elimination = eliminate(a);
+                if (!elimination.inverse) throw new CalculationError('This matrix is singular (determinant is 0) and has no inverse.', 'matrixA');
+                determinant = elimination.determinant;
+                result = elimination.inverse;
+                break;
+            }
+            default:
+                result = a[0].map((_, j) => a.map(row => row[j]));
+        }
+
+        const rows: TableRow[] | undefined = result?.map(row => Object.fromEntries(row.map((value, j) => [`c${j}`, clean(value)])));
+        return {
+            outputs: {
+                determinant: determinant === null ? null : clean(determinant),
+                dimensions: result ? `${result.length} × ${result[0].length}` : null,
+            },
+            tables: rows ? { result: rows } : undefined,
+        };
+    },
+});
@@ -0,0 +1,34 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { mean, median, modes, parseNumberList } from '@/lib/math';
+
+export const meanMedianModeRangeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Numbers', kind: 'textarea', placeholder: 'e.g., 3, 7, 7, 2, 9', description: 'Separate numbers with commas, spaces or new lines.' },
+    ],
+    outputs: [
+        { name: 'mean', label: 'Mean', format: 'number', precision: 6, primary: true },
+        { name: 'median', label: 'Median', format: 'number', precision: 6 },
+        { name: 'mode', label: 'Mode', format: 'text' },
+        { name: 'range', label: 'Range', format: 'number', precision: 6 },
+        { name: 'sorted', label: 'Sorted Values', format: 'text' },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const values = parseNumberList(input.string('values'));
+        if (!values) throw new CalculationError('Enter numbers only.', 'values');
+        if (values.length === 0) throw new CalculationError('Enter at least one value.', 'values');
+
+        const valueModes = modes(values);
+        const sorted = [...values].sort((a, b) => a - b);
+        return {
+            outputs: {
+                mean: mean(values),
+                median: median(values),
+                mode: valueModes.length > 0 ? valueModes.join(', ') : 'No mode',
+                range: sorted[sorted.length - 1] - sorted[0],
+                sorted: sorted.join(', '),
+            },
+        };
+    },
+});
@@ -0,0 +1,67 @@
+import { CalculationError } from '@/lib/calculator-definition';
+
+const DIGITS: Record<number, RegExp> = {
+    2: /^-?[01]+$/,
+    8: /^-?[0-7]+$/,
+    10: /^-?[0-9]+$/,
+    16: /^-?[0-9a-f]+$/i,
+};
+
+const PREFIXES: Record<number, string> = { 2: '0b', 8: '0o', 16: '0x' };
+
+/** Parses an integer in the given base into a bigint so large values stay exact. */
+export function parseBigInt(text: string, base: number, field: string): bigint {
+    const trimmed = text.trim().replace(/_/g, '');
+    if (!DIGITS[base].test(trimmed)) {
+        throw new CalculationError(`Enter a valid base-${base} whole number.`, field);
+    }
+    const negative = trimmed.startsWith('-');
+    const digits = negative ? trimmed.slice(1) : trimmed;
+    const value = BigInt(base === 10 ? digits : `${PREFIXES[base]}${digits}`);
+    return negative ? -value : value;
+}
+
+export function formatBigInt(value: bigint, base: number): string {
+    const text = (value < BigInt(0) ? -value : value).toString(base).toUpperCase();
+    return value < BigInt(0) ? `-${text}` : text;
+}
+
+/**
+ * Applies an integer operation shared by the binary and hex calculators.
+ * Bitwise operations follow bigint two's-complement semantics.
+ */
+export function applyIntegerOperation(a: bigint, b: bigint, operation: string, field: string): bigint {
+    switch (operation) {
+        case 'add': return a + b;
+        case 'subtract': return a - b;
+        case 'multiply': return a * b;
+        case 'divide':
+            if (b === BigInt(0)) throw new CalculationError('Cannot divide by zero.', field);
+            return a / b;
+        case 'modulo':
+            if (b === BigInt(0)) throw new CalculationError('Cannot divide by zero.', field);
+            return a % b;
+        case 'and': return a & b;
+        case 'or': return a | b;
+        case 'xor': return a ^ b;
+        case 'shiftLeft':
+        case 'shiftRight':
+            if (b < BigInt(0) || b > BigInt(1024)) throw new CalculationError('Shift amount must be between 0 and 1024.', field);
+            return operation === 'shiftLeft' ? a << b : a >> b;
+        default:
+            throw new CalculationError('Unknown operation.');
+    }
+}
+
+export const INTEGER_OPERATIONS = [
+    { value: 'add', label: 'Add (+)' },
+    { value: 'subtract', label: 'Subtract (−)' },
+    { value: 'multiply', label: 'Multiply (×)' },
+    { value: 'divide', label: 'Divide (÷, integer)' },
+    { value: 'modulo', label: 'Modulo (mod)' },
+    { value: 'and', label: 'AND' },
+    { value: 'or', label: 'OR' },
+    { value: 'xor', label: 'XOR' },
+    { value: 'shiftLeft', label: 'Shift left (<<)' },
+    { value: 'shiftRight', label: 'Shift right (>>)' },
+];
@@ -0,0 +1,55 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const MAX_TERMS = 1000;
+
+export const numberSequenceCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'type', label: 'Sequence Type', kind: 'select', options: [
+                { value: 'arithmetic', label: 'Arithmetic (add d)' },
+                { value: 'geometric', label: 'Geometric (multiply by r)' },
+                { value: 'fibonacci', label: 'Fibonacci' },
+            ],
+        },
+        { name: 'first', label: 'First Term (a₁)', kind: 'number', defaultValue: '1', visibleWhen: values => values.type !== 'fibonacci' },
+        { name: 'difference', label: 'Common Difference (d)', kind: 'number', visibleWhen: values => values.type === 'arithmetic' },
+        { name: 'ratio', label: 'Common Ratio (r)', kind: 'number', visibleWhen: values => values.type === 'geometric' },
+        { name: 'terms', label: 'Number of Terms (n)', kind: 'integer', min: 1, max: MAX_TERMS, defaultValue: '10' },
+    ],
+    outputs: [
+        { name: 'nthTerm', label: 'nth Term', format: 'number', precision: 6, primary: true },
+        { name: 'sum', label: 'Sum of n Terms', format: 'number', precision: 6 },
+        { name: 'formula', label: 'Formula', format: 'text' },
+    ],
+    tables: [
+        { name: 'terms', title: 'Terms', columns: [{ key: 'n', label: 'n', format: 'integer' }, { key: 'value', label: 'Value', format: 'number', precision: 6 }] },
+    ],
+    submitLabel: 'Calculate Sequence',
+    compute: (input) => {
+        const type = input.string('type');
+        const n = input.number('terms');
+        const first = input.number('first');
+        const terms: number[] = [];
+
+        let formula: string;
+        if (type === 'arithmetic') {
+            const d = input.number('difference');
+            for (let i = 0; i < n; i++) terms.push(first + i * d);
+            formula = `aₙ = ${first} + (n − 1) × ${d}`;
+        } else if (type === 'geometric') {
+            const r = input.number('ratio');
+            if (r === 0) throw new CalculationError('Common ratio cannot be zero.', 'ratio');
+            for (let i = 0; i < n; i++) terms.push(first * Math.pow(r, i));
+            formula = `aₙ = ${first} × ${r}^(n − 1)`;
+        } else {
+            for (let i = 0; i < n; i++) terms.push(i < 2 ? 1 : terms[i - 1] + terms[i - 2]);
+            formula = 'aₙ = aₙ₋₁ + aₙ₋₂';
+        }
+
+        return {
+            outputs: { nthTerm: terms[n - 1], sum: terms.reduce((acc, value) => acc + value, 0), formula },
+            tables: { terms: terms.map((value, i) => ({ n: i + 1, value })) },
+        };
+    },
+});
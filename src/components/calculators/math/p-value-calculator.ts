@@ -0,0 +1,58 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { chiSquareCdf, normalCdf, studentTCdf } from '@/lib/math';
+
+export const pValueCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'test', label: 'Test Statistic', kind: 'select', options: [
+                { value: 'z', label: 'Z (normal)' },
+                { value: 't', label: "t (Student's)" },
+                { value: 'chiSquare', label: 'Chi-square (χ²)' },
+            ],
+        },
+        { name: 'statistic', label: 'Statistic Value', kind: 'number', placeholder: 'e.g., 1.96' },
+        { name: 'degreesOfFreedom', label: 'Degrees of Freedom', kind: 'number', greaterThan: 0, visibleWhen: values => values.test !== 'z' },
+        {
+            name: 'tails', label: 'Tails', kind: 'select', visibleWhen: values => values.test !== 'chiSquare', options: [
+                { value: 'two', label: 'Two-tailed' },
+                { value: 'left', label: 'Left-tailed' },
+                { value: 'right', label: 'Right-tailed' },
+            ],
+        },
+        { name: 'alpha', label: 'Significance Level (α)', kind: 'number', defaultValue: '0.05', greaterThan: 0, max: 1 },
+    ],
+    outputs: [
+        { name: 'pValue', label: 'P-value', format: 'number', precision: 6, primary: true },
+        { name: 'decision', label: 'Decision', format: 'text' },
+    ],
+    submitLabel: 'Calculate P-value',
+    compute: (input) => {
+        const statistic = input.number('statistic');
+        const test = input.string('test');
+        let pValue: number;
+
+        if (test === 'chiSquare') {
+            // Chi-square tests are right-tailed
+            pValue = 1 - chiSquareCdf(statistic, input.number('degreesOfFreedom'));
+        } else {
+            const cdf = test === 't'
+                ? (x: number) => studentTCdf(x, input.number('degreesOfFreedom'))
+                : normalCdf;
+            switch (input.string('tails')) {
+                case 'left': pValue = cdf(statistic); break;
+                case 'right': pValue = 1 - cdf(statistic); break;
+                default: pValue = 2 * (1 - cdf(Math.abs(statistic)));
+            }
+        }
+
+        const alpha = input.number('alpha');
+        pValue = Math.min(1, Math.max(0, pValue));
+        return {
+            outputs: {
+                pValue,
+                decision: pValue < alpha ? `Reject H₀ at α = ${alpha}` : `Fail to reject H₀ at α = ${alpha}`,
+            },
+        };
+    },
+});
@@ -0,0 +1,21 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+export const percentErrorCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'observed', label: 'Observed (Measured) Value', kind: 'number', placeholder: 'e.g., 9.6' },
+        { name: 'actual', label: 'True (Accepted) Value', kind: 'number', placeholder: 'e.g., 9.81' },
+    ],
+    outputs: [
+        { name: 'percentError', label: 'Percent Error', format: 'percent', precision: 4, primary: true },
+        { name: 'absoluteError', label: 'Absolute Error', format: 'number', precision: 6 },
+    ],
+    submitLabel: 'Calculate Percent Error',
+    compute: (input) => {
+        const observed = input.number('observed');
+        const actual = input.number('actual');
+        if (actual === 0) throw new CalculationError('The true value cannot be zero.', 'actual');
+        const absoluteError = Math.abs(observed - actual);
+        return { outputs: { percentError: (absoluteError / Math.abs(actual)) * 100, absoluteError } };
+    },
+});
@@ -0,0 +1,40 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+export const percentageCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Calculation', kind: 'select', options: [
+                { value: 'percentOf', label: 'What is X% of Y?' },
+                { value: 'isWhatPercent', label: 'X is what percent of Y?' },
+                { value: 'change', label: 'Percentage change from X to Y' },
+            ],
+        },
+        { name: 'x', label: 'X', kind: 'number', placeholder: 'e.g., 20' },
+        { name: 'y', label: 'Y', kind: 'number', placeholder: 'e.g., 150' },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'number', precision: 6, primary: true },
+        { name: 'percent', label: 'Result', format: 'percent', precision: 6, primary: true },
+    ],
+    submitLabel: 'Calculate Percentage',
+    compute: (input) => {
+        const x = input.number('x');
+        const y = input.number('y');
+        switch (input.string('mode')) {
+            case 'percentOf':
+                return { outputs: { result: (x / 100) * y, percent: null } };
+            case 'isWhatPercent':
+                if (y === 0) throw new CalculationError('Y cannot be zero.', 'y');
+                return { outputs: { result: null, percent: (x / y) * 100 } };
+            default: {
+                if (x === 0) throw new CalculationError('The starting value X cannot be zero.', 'x');
+                const change = ((y - x) / Math.abs(x)) * 100;
+                return {
+                    outputs: { result: null, percent: change },
+                    notes: [change >= 0 ? `An increase of ${(y - x).toLocaleString()}.` : `A decrease of ${(x - y).toLocaleString()}.`],
+                };
+            }
+        }
+    },
+});
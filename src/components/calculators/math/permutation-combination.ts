@@ -0,0 +1,34 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { combinationsBig, permutationsBig } from '@/lib/math';
+
+const MAX_N = 1000;
+
+export const permutationCombinationCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'n', label: 'Total Items (n)', kind: 'integer', min: 0, max: MAX_N, placeholder: 'e.g., 10' },
+        { name: 'r', label: 'Items Chosen (r)', kind: 'integer', min: 0, max: MAX_N, placeholder: 'e.g., 3' },
+    ],
+    outputs: [
+        { name: 'permutations', label: 'Permutations nPr', format: 'text', primary: true },
+        { name: 'combinations', label: 'Combinations nCr', format: 'text', primary: true },
+        { name: 'permutationsWithRepetition', label: 'Permutations with Repetition (nʳ)', format: 'text' },
+        { name: 'combinationsWithRepetition', label: 'Combinations with Repetition', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const n = input.number('n');
+        const r = input.number('r');
+        if (r > n) throw new CalculationError('r cannot be greater than n.', 'r');
+
+        return {
+            outputs: {
+                permutations: permutationsBig(n, r).toLocaleString(),
+                combinations: combinationsBig(n, r).toLocaleString(),
+                permutationsWithRepetition: (BigInt(n) ** BigInt(r)).toLocaleString(),
+                combinationsWithRepetition: n === 0 && r > 0 ? '0' : combinationsBig(n + r - 1, r).toLocaleString(),
+            },
+        };
+    },
+});
@@ -0,0 +1,31 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { primeFactors } from '@/lib/math';
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const superscript = (n: number) => String(n).split('').map(digit => SUPERSCRIPTS[Number(digit)]).join('');
+
+export const primeFactorizationCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'value', label: 'Number', kind: 'integer', min: 2, max: Number.MAX_SAFE_INTEGER, placeholder: 'e.g., 360' },
+    ],
+    outputs: [
+        { name: 'factorization', label: 'Prime Factorization', format: 'text', primary: true },
+        { name: 'expanded', label: 'Expanded Form', format: 'text' },
+        { name: 'distinct', label: 'Distinct Prime Factors', format: 'text' },
+    ],
+    submitLabel: 'Factorize',
+    compute: (input) => {
+        const value = input.number('value');
+        const result = primeFactors(value);
+        const isPrime = result.length === 1 && result[0][1] === 1;
+        return {
+            outputs: {
+                factorization: result.map(([prime, exponent]) => (exponent > 1 ? `${prime}${superscript(exponent)}` : String(prime))).join(' × '),
+                expanded: result.flatMap(([prime, exponent]) => Array<number>(exponent).fill(prime)).join(' × '),
+                distinct: result.map(([prime]) => prime).join(', '),
+            },
+            notes: isPrime ? [`${value} is a prime number.`] : undefined,
+        };
+    },
+});
@@ -0,0 +1,37 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+/** Probabilities of two independent events A and B. */
+export const probabilityCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'probabilityA', label: 'P(A)', kind: 'number', min: 0, max: 1, placeholder: 'e.g., 0.5', description: 'Probability between 0 and 1.' },
+        { name: 'probabilityB', label: 'P(B)', kind: 'number', min: 0, max: 1, placeholder: 'e.g., 0.4', description: 'Probability between 0 and 1.' },
+    ],
+    outputs: [
+        { name: 'both', label: 'P(A and B)', format: 'number', precision: 6, primary: true },
+        { name: 'either', label: 'P(A or B)', format: 'number', precision: 6 },
+        { name: 'exactlyOne', label: 'P(exactly one)', format: 'number', precision: 6 },
+        { name: 'neither', label: 'P(neither)', format: 'number', precision: 6 },
+        { name: 'notA', label: "P(A')", format: 'number', precision: 6 },
+        { name: 'notB', label: "P(B')", format: 'number', precision: 6 },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Probability',
+    disclaimer: 'Assumes A and B are independent events.',
+    compute: (input) => {
+        const a = input.number('probabilityA');
+        const b = input.number('probabilityB');
+        const both = a * b;
+        const either = a + b - both;
+        return {
+            outputs: {
+                both,
+                either,
+                exactlyOne: either - both,
+                neither: 1 - either,
+                notA: 1 - a,
+                notB: 1 - b,
+            },
+        };
+    },
+});
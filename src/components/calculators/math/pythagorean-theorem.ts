@@ -0,0 +1,37 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+export const pythagoreanTheoremCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'solveFor', label: 'Solve For', kind: 'select', options: [
+                { value: 'c', label: 'Hypotenuse (c)' },
+                { value: 'a', label: 'Leg (a)' },
+                { value: 'b', label: 'Leg (b)' },
+            ],
+        },
+        { name: 'a', label: 'Leg a', kind: 'number', greaterThan: 0, visibleWhen: values => values.solveFor !== 'a' },
+        { name: 'b', label: 'Leg b', kind: 'number', greaterThan: 0, visibleWhen: values => values.solveFor !== 'b' },
+        { name: 'c', label: 'Hypotenuse c', kind: 'number', greaterThan: 0, visibleWhen: values => values.solveFor !== 'c' },
+    ],
+    outputs: [
+        { name: 'a', label: 'Leg a', format: 'number', precision: 6 },
+        { name: 'b', label: 'Leg b', format: 'number', precision: 6 },
+        { name: 'c', label: 'Hypotenuse c', format: 'number', precision: 6 },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const solveFor = input.string('solveFor');
+        if (solveFor === 'c') {
+            const a = input.number('a');
+            const b = input.number('b');
+            return { outputs: { a, b, c: Math.hypot(a, b) } };
+        }
+
+        const c = input.number('c');
+        const leg = input.number(solveFor === 'a' ? 'b' : 'a');
+        if (leg >= c) throw new CalculationError('The hypotenuse must be longer than either leg.', 'c');
+        const missing = Math.sqrt(c * c - leg * leg);
+        return { outputs: solveFor === 'a' ? { a: missing, b: leg, c } : { a: leg, b: missing, c } };
+    },
+});
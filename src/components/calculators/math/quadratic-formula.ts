@@ -0,0 +1,50 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const formatRoot = (value: number) => Number(value.toFixed(10)).toString();
+
+export const quadraticFormulaCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'a', label: 'a (x² coefficient)', kind: 'number', placeholder: 'e.g., 1' },
+        { name: 'b', label: 'b (x coefficient)', kind: 'number', placeholder: 'e.g., -3' },
+        { name: 'c', label: 'c (constant)', kind: 'number', placeholder: 'e.g., 2' },
+    ],
+    outputs: [
+        { name: 'root1', label: 'x₁', format: 'text', primary: true },
+        { name: 'root2', label: 'x₂', format: 'text', primary: true },
+        { name: 'discriminant', label: 'Discriminant (b² − 4ac)', format: 'number', precision: 6 },
+        { name: 'vertex', label: 'Vertex', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Solve Equation',
+    compute: (input) => {
+        const a = input.number('a');
+        const b = input.number('b');
+        const c = input.number('c');
+        if (a === 0) throw new CalculationError('a cannot be zero for a quadratic equation.', 'a');
+
+        const discriminant = b * b - 4 * a * c;
+        const vertexX = -b / (2 * a);
+        const vertex = `(${formatRoot(vertexX)}, ${formatRoot(a * vertexX * vertexX + b * vertexX + c)})`;
+
+        if (discriminant >= 0) {
+            const sqrt = Math.sqrt(discriminant);
+            return {
+                outputs: {
+                    root1: formatRoot((-b + sqrt) / (2 * a)),
+                    root2: formatRoot((-b - sqrt) / (2 * a)),
+                    discriminant,
+                    vertex,
+                },
+                notes: [discriminant === 0 ? 'One repeated real root.' : 'Two distinct real roots.'],
+            };
+        }
+
+        const real = formatRoot(-b / (2 * a));
+        const imaginary = formatRoot(Math.abs(Math.sqrt(-discriminant) / (2 * a)));
+        return {
+            outputs: { root1: `${real} + ${imaginary}i`, root2: `${real} − ${imaginary}i`, discriminant, vertex },
+            notes: ['Two complex conjugate roots.'],
+        };
+    },
+});
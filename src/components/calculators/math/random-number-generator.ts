@@ -0,0 +1,59 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const MAX_COUNT = 1000;
+
+export const randomNumberGenerator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'min', label: 'Minimum', kind: 'number', defaultValue: '1' },
+        { name: 'max', label: 'Maximum', kind: 'number', defaultValue: '100' },
+        { name: 'count', label: 'How Many', kind: 'integer', min: 1, max: MAX_COUNT, defaultValue: '1' },
+        {
+            name: 'type', label: 'Number Type', kind: 'select', options: [
+                { value: 'integer', label: 'Integers' },
+                { value: 'decimal', label: 'Decimals' },
+            ],
+        },
+        {
+            name: 'duplicates', label: 'Duplicates', kind: 'select', visibleWhen: values => values.type === 'integer', options: [
+                { value: 'allow', label: 'Allow duplicates' },
+                { value: 'unique', label: 'Unique numbers only' },
+            ],
+        },
+    ],
+    outputs: [
+        { name: 'numbers', label: 'Random Numbers', format: 'text', primary: true },
+    ],
+    columns: 2,
+    submitLabel: 'Generate',
+    compute: (input) => {
+        const min = input.number('min');
+        const max = input.number('max');
+        const count = input.number('count');
+        if (max < min) throw new CalculationError('Maximum must be at least the minimum.', 'max');
+
+        if (input.string('type') === 'decimal') {
+            const numbers = Array.from({ length: count }, () => (min + Math.random() * (max - min)).toFixed(4));
+            return { outputs: { numbers: numbers.join(', ') } };
+        }
+
+        const low = Math.ceil(min);
+        const high = Math.floor(max);
+        if (high < low) throw new CalculationError('There are no whole numbers in this range.', 'max');
+        const available = high - low + 1;
+        const unique = input.string('duplicates') === 'unique';
+        if (unique && count > available) {
+            throw new CalculationError(`Only ${available} unique numbers exist in this range.`, 'count');
+        }
+
+        const numbers: number[] = [];
+        const seen = new Set<number>();
+        while (numbers.length < count) {
+            const value = low + Math.floor(Math.random() * available);
+            if (unique && seen.has(value)) continue;
+            seen.add(value);
+            numbers.push(value);
+        }
+        return { outputs: { numbers: numbers.join(', ') } };
+    },
+});
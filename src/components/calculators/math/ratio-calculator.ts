@@ -0,0 +1,40 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { gcd } from '@/lib/math';
+
+/** Simplifies A : B and scales it to solve A : B = C : D for D. */
+export const ratioCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'a', label: 'A', kind: 'number', greaterThan: 0, placeholder: 'e.g., 16' },
+        { name: 'b', label: 'B', kind: 'number', greaterThan: 0, placeholder: 'e.g., 9' },
+        { name: 'c', label: 'C (optional)', kind: 'number', optional: true, greaterThan: 0, description: 'Solve A : B = C : D for D.' },
+    ],
+    outputs: [
+        { name: 'simplified', label: 'Simplified Ratio', format: 'text', primary: true },
+        { name: 'decimal', label: 'A ÷ B', format: 'number', precision: 6 },
+        { name: 'd', label: 'D', format: 'number', precision: 6 },
+    ],
+    columns: 3,
+    submitLabel: 'Calculate Ratio',
+    compute: (input) => {
+        const a = input.number('a');
+        const b = input.number('b');
+
+        // Scale decimals up to whole numbers before reducing
+        const decimals = Math.max(...[a, b].map(value => (String(value).split('.')[1] ?? '').length));
+        if (decimals > 9) throw new CalculationError('Use at most 9 decimal places.');
+        const scale = Math.pow(10, decimals);
+        const wholeA = Math.round(a * scale);
+        const wholeB = Math.round(b * scale);
+        const divisor = gcd(wholeA, wholeB);
+
+        const c = input.optionalNumber('c');
+        return {
+            outputs: {
+                simplified: `${wholeA / divisor} : ${wholeB / divisor}`,
+                decimal: a / b,
+                d: c === undefined ? null : (c * b) / a,
+            },
+        };
+    },
+});
@@ -0,0 +1,70 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const isMode = (...modes: string[]) => (values: Record<string, string>) => modes.includes(values.mode);
+
+/** Solves a right triangle (C = 90°) from two legs, a leg and the hypotenuse, or a leg and an angle. */
+export const rightTriangleCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Known Values', kind: 'select', options: [
+                { value: 'legs', label: 'Both legs (a, b)' },
+                { value: 'legHypotenuse', label: 'Leg a and hypotenuse c' },
+                { value: 'legAngle', label: 'Leg a and angle A' },
+                { value: 'hypotenuseAngle', label: 'Hypotenuse c and angle A' },
+            ],
+        },
+        { name: 'a', label: 'Leg a', kind: 'number', greaterThan: 0, visibleWhen: isMode('legs', 'legHypotenuse', 'legAngle') },
+        { name: 'b', label: 'Leg b', kind: 'number', greaterThan: 0, visibleWhen: isMode('legs') },
+        { name: 'c', label: 'Hypotenuse c', kind: 'number', greaterThan: 0, visibleWhen: isMode('legHypotenuse', 'hypotenuseAngle') },
+        { name: 'angleA', label: 'Angle A (opposite a)', kind: 'number', unit: '°', greaterThan: 0, max: 90, visibleWhen: isMode('legAngle', 'hypotenuseAngle') },
+    ],
+    outputs: [
+        { name: 'a', label: 'Leg a', format: 'number', precision: 6 },
+        { name: 'b', label: 'Leg b', format: 'number', precision: 6 },
+        { name: 'c', label: 'Hypotenuse c', format: 'number', precision: 6 },
+        { name: 'angleA', label: 'Angle A', format: 'number', precision: 4, unit: '°' },
+        { name: 'angleB', label: 'Angle B', format: 'number', precision: 4, unit: '°' },
+        { name: 'area', label: 'Area', format: 'number', precision: 6, primary: true },
+        { name: 'perimeter', label: 'Perimeter', format: 'number', precision: 6 },
+    ],
+    columns: 2,
+    submitLabel: 'Solve Triangle',
+    compute: (input) => {
+        let a: number, b: number, c: number;
+        switch (input.string('mode')) {
+            case 'legs':
+                a = input.number('a');
+                b = input.number('b');
+                c = Math.hypot(a, b);
+                break;
+            case 'legHypotenuse':
+                a = input.number('a');
+                c = input.number('c');
+                if (a >= c) throw new CalculationError('The hypotenuse must be longer than the leg.', 'c');
+                b = Math.sqrt(c * c - a * a);
+                break;
+            case 'legAngle': {
+                const angle = input.number('angleA');
+                if (angle >= 90) throw new CalculationError('Angle must be less than 90°.', 'angleA');
+                a = input.number('a');
+                b = a / Math.tan(toRadians(angle));
+                c = a / Math.sin(toRadians(angle));
+                break;
+            }
+            default: {
+                const angle = input.number('angleA');
+                if (angle >= 90) throw new CalculationError('Angle must be less than 90°.', 'angleA');
+                c = input.number('c');
+                a = c * Math.sin(toRadians(angle));
+                b = c * Math.cos(toRadians(angle));
+            }
+        }
+
+        const angleA = toDegrees(Math.atan2(a, b));
+        return { outputs: { a, b, c, angleA, angleB: 90 - angleA, area: (a * b) / 2, perimeter: a + b + c } };
+    },
+});
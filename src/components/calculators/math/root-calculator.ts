@@ -0,0 +1,32 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+export const rootCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'radicand', label: 'Number', kind: 'number', placeholder: 'e.g., 27' },
+        { name: 'degree', label: 'Root Degree (n)', kind: 'number', defaultValue: '2', description: '2 for square root, 3 for cube root.' },
+    ],
+    outputs: [
+        { name: 'root', label: 'Root', format: 'number', precision: 10, primary: true },
+        { name: 'check', label: 'Check (root^n)', format: 'number', precision: 10 },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Root',
+    compute: (input) => {
+        const radicand = input.number('radicand');
+        const degree = input.number('degree');
+        if (degree === 0) throw new CalculationError('Root degree cannot be zero.', 'degree');
+
+        let root: number;
+        if (radicand < 0) {
+            // Odd integer roots of negative numbers are real
+            if (!Number.isInteger(degree) || degree % 2 === 0) {
+                throw new CalculationError('Even roots of negative numbers are not real.', 'radicand');
+            }
+            root = -Math.pow(-radicand, 1 / degree);
+        } else {
+            root = Math.pow(radicand, 1 / degree);
+        }
+        return { outputs: { root, check: Math.pow(root, degree) } };
+    },
+});
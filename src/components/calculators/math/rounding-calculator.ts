@@ -0,0 +1,51 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const MODES = [
+    { value: 'halfUp', label: 'Round half up' },
+    { value: 'halfEven', label: "Round half to even (banker's)" },
+    { value: 'up', label: 'Round up (ceiling)' },
+    { value: 'down', label: 'Round down (floor)' },
+    { value: 'truncate', label: 'Truncate (toward zero)' },
+];
+
+function roundScaled(value: number, mode: string): number {
+    switch (mode) {
+        case 'up': return Math.ceil(value);
+        case 'down': return Math.floor(value);
+        case 'truncate': return Math.trunc(value);
+        case 'halfEven': {
+            const floor = Math.floor(value);
+            const diff = value - floor;
+            if (Math.abs(diff - 0.5) > 1e-9) return Math.round(value);
+            return floor % 2 === 0 ? floor : floor + 1;
+        }
+        default:
+            // Half away from zero
+            return Math.sign(value) * Math.round(Math.abs(value));
+    }
+}
+
+export const roundingCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'value', label: 'Number', kind: 'number', placeholder: 'e.g., 3.14159' },
+        { name: 'places', label: 'Decimal Places', kind: 'integer', min: -10, max: 15, defaultValue: '2', description: 'Use negative values to round to tens, hundreds, etc.' },
+        { name: 'mode', label: 'Rounding Method', kind: 'select', options: MODES },
+    ],
+    outputs: [
+        { name: 'rounded', label: 'Rounded Value', format: 'text', primary: true },
+    ],
+    submitLabel: 'Round Number',
+    compute: (input) => {
+        const value = input.number('value');
+        const places = input.number('places');
+        // Shift via exponent notation to avoid binary representation errors like 1.005 * 100
+        const shift = (n: number, by: number) => {
+            const shifted = Number(`${n}e${by}`);
+            return isNaN(shifted) ? n * Math.pow(10, by) : shifted;
+        };
+        const scaled = shift(value, places);
+        const rounded = isFinite(scaled) ? shift(roundScaled(scaled, input.string('mode')), -places) : value;
+        return { outputs: { rounded: places > 0 ? rounded.toFixed(places) : String(rounded) } };
+    },
+});
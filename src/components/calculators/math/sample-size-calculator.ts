@@ -0,0 +1,40 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { normalInverse } from '@/lib/math';
+
+/**
+ * Sample size for estimating a proportion (Cochran's formula) with an
+ * optional finite population correction.
+ */
+export const sampleSizeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'confidenceLevel', label: 'Confidence Level', kind: 'select', options: [
+                { value: '90', label: '90%' },
+                { value: '95', label: '95%' },
+                { value: '99', label: '99%' },
+            ], defaultValue: '95',
+        },
+        { name: 'marginOfError', label: 'Margin of Error', kind: 'percent', greaterThan: 0, max: 50, defaultValue: '5' },
+        { name: 'proportion', label: 'Expected Proportion', kind: 'percent', greaterThan: 0, max: 100, defaultValue: '50', description: 'Use 50% if unsure; it gives the most conservative size.' },
+        { name: 'population', label: 'Population Size', kind: 'integer', greaterThan: 0, optional: true, description: 'Leave blank for a very large or unknown population.' },
+    ],
+    outputs: [
+        { name: 'sampleSize', label: 'Required Sample Size', format: 'integer', primary: true },
+        { name: 'zScore', label: 'Z-score', format: 'number', precision: 4 },
+    ],
+    submitLabel: 'Calculate Sample Size',
+    compute: (input) => {
+        const confidence = input.number('confidenceLevel') / 100;
+        const z = normalInverse(1 - (1 - confidence) / 2);
+        const e = input.number('marginOfError') / 100;
+        const p = input.number('proportion') / 100;
+
+        let n = (z * z * p * (1 - p)) / (e * e);
+        const population = input.optionalNumber('population');
+        if (population !== undefined) {
+            n = n / (1 + (n - 1) / population);
+        }
+        return { outputs: { sampleSize: Math.ceil(n), zScore: z } };
+    },
+});
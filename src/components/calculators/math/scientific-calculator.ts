@@ -0,0 +1,50 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import type { AngleMode } from '@/lib/expression';
+import { runExpressions, scientificNotation } from './expression';
+
+/** Variables and `ans` kept from one evaluation to the next until the page is reloaded. */
+const sessionVariables: Record<string, number> = {};
+
+export const scientificCalculator = defineCalculator({
+    version: 2,
+    inputs: [
+        {
+            name: 'expression', label: 'Expressions', kind: 'textarea', placeholder: 'r = 2.5\npi r^2\nans / 2',
+            description: 'One expression per line. Assign variables with "name = …" and use "ans" for the previous result; both carry over to your next evaluation. Supports + − × ÷ ^ ! %, sin, cos, tan, asin, ln, log, sqrt, root(x, n), nCr, pi, e and more.',
+        },
+        {
+            name: 'angleMode', label: 'Angle Unit', kind: 'select', options: [
+                { value: 'deg', label: 'Degrees' },
+                { value: 'rad', label: 'Radians' },
+            ],
+        },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'number', precision: 12, primary: true },
+        { name: 'scientific', label: 'Scientific Notation', format: 'text' },
+    ],
+    tables: [
+        {
+            name: 'lines', title: 'Worksheet', columns: [
+                { key: 'line', label: 'Line', format: 'integer' },
+                { key: 'expression', label: 'Expression', format: 'text' },
+                { key: 'value', label: 'Value', format: 'number', precision: 12 },
+            ],
+        },
+    ],
+    submitLabel: 'Evaluate',
+    compute: (input) => {
+        const lines = runExpressions(input.raw.expression ?? '', input.string('angleMode') as AngleMode, 'expression', sessionVariables);
+        const result = lines[lines.length - 1].value;
+        const variables = Object.entries(sessionVariables)
+            .filter(([name]) => name !== 'ans')
+            .map(([name, value]) => `${name} = ${value.toLocaleString(undefined, { maximumFractionDigits: 12 })}`);
+
+        return {
+            outputs: { result, scientific: scientificNotation(result) },
+            // A single expression needs no worksheet
+            tables: lines.length > 1 ? { lines: lines.map(line => ({ line: line.line, expression: line.source, value: line.value })) } : undefined,
+            notes: variables.length > 0 ? [`Variables: ${variables.join(', ')}`] : undefined,
+        };
+    },
+});
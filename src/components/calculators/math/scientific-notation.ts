@@ -0,0 +1,48 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { parseDecimal, ROUNDING_MODES, type RoundingMode } from '@/lib/precision';
+
+const SUPERSCRIPTS: Record<string, string> = { '-': '⁻', '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹' };
+
+function superscript(exponent: number): string {
+    return String(exponent).split('').map(char => SUPERSCRIPTS[char]).join('');
+}
+
+export const scientificNotationCalculator = defineCalculator({
+    version: 2,
+    inputs: [
+        { name: 'value', label: 'Number', kind: 'text', placeholder: 'e.g., 0.000456 or 4.56e-4', description: 'Decimal or E-notation, with as many digits as you like.' },
+        { name: 'significantFigures', label: 'Significant Figures', kind: 'integer', min: 1, max: 1000, optional: true, description: 'Leave blank to keep all digits.' },
+        { name: 'rounding', label: 'Rounding', kind: 'select', options: ROUNDING_MODES, visibleWhen: values => values.significantFigures?.trim() !== '' },
+    ],
+    outputs: [
+        { name: 'scientific', label: 'Scientific Notation', format: 'text', primary: true },
+        { name: 'eNotation', label: 'E-notation', format: 'text' },
+        { name: 'engineering', label: 'Engineering Notation', format: 'text' },
+        { name: 'decimal', label: 'Decimal Notation', format: 'text' },
+        { name: 'figures', label: 'Significant Figures', format: 'integer' },
+    ],
+    submitLabel: 'Convert',
+    compute: (input) => {
+        const parsed = parseDecimal(input.string('value').replace(/\s*[×x*]\s*10\s*\^\s*/, 'e'));
+        if (!parsed) throw new CalculationError('Enter a valid number.', 'value');
+
+        const figures = input.optionalNumber('significantFigures');
+        // Rounding to significant figures keeps meaningful trailing zeros, e.g. 4.560 × 10⁻⁴
+        const value = figures === undefined ? parsed.stripTrailingZeros() : parsed.toSignificant(figures, input.string('rounding') as RoundingMode);
+        const exponent = value.exponent();
+        const mantissa = value.shift(-exponent).toString();
+
+        const engineeringExponent = Math.floor(exponent / 3) * 3;
+        const engineeringMantissa = value.shift(-engineeringExponent).toString();
+
+        return {
+            outputs: {
+                scientific: `${mantissa} × 10${superscript(exponent)}`,
+                eNotation: `${mantissa}e${exponent}`,
+                engineering: `${engineeringMantissa} × 10^${engineeringExponent}`,
+                decimal: value.toString(),
+                figures: value.precision(),
+            },
+        };
+    },
+});
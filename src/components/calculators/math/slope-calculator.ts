@@ -0,0 +1,47 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const format = (value: number) => Number(value.toFixed(6)).toString();
+
+export const slopeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'x1', label: 'x₁', kind: 'number' },
+        { name: 'y1', label: 'y₁', kind: 'number' },
+        { name: 'x2', label: 'x₂', kind: 'number' },
+        { name: 'y2', label: 'y₂', kind: 'number' },
+    ],
+    outputs: [
+        { name: 'slope', label: 'Slope (m)', format: 'number', precision: 6, primary: true },
+        { name: 'equation', label: 'Line Equation', format: 'text' },
+        { name: 'angle', label: 'Angle of Inclination', format: 'number', precision: 4, unit: '°' },
+        { name: 'distance', label: 'Distance Between Points', format: 'number', precision: 6 },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Slope',
+    compute: (input) => {
+        const x1 = input.number('x1');
+        const y1 = input.number('y1');
+        const x2 = input.number('x2');
+        const y2 = input.number('y2');
+        const dx = x2 - x1;
+        const dy = y2 - y1;
+        if (dx === 0 && dy === 0) throw new CalculationError('The two points must be different.');
+
+        const distance = Math.hypot(dx, dy);
+        if (dx === 0) {
+            return { outputs: { slope: null, equation: `x = ${format(x1)}`, angle: 90, distance }, notes: ['The line is vertical, so its slope is undefined.'] };
+        }
+
+        const slope = dy / dx;
+        const intercept = y1 - slope * x1;
+        const sign = intercept < 0 ? '−' : '+';
+        return {
+            outputs: {
+                slope,
+                equation: `y = ${format(slope)}x ${sign} ${format(Math.abs(intercept))}`,
+                angle: (Math.atan(slope) * 180) / Math.PI,
+                distance,
+            },
+        };
+    },
+});
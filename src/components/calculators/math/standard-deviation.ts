@@ -0,0 +1,38 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { mean, parseNumberList, standardDeviation, variance } from '@/lib/math';
+
+export const standardDeviationCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Data Set', kind: 'textarea', placeholder: 'e.g., 10, 12, 23, 23, 16, 23, 21, 16', description: 'Separate numbers with commas, spaces or new lines.' },
+        {
+            name: 'type', label: 'Data Type', kind: 'select', options: [
+                { value: 'sample', label: 'Sample (n − 1)' },
+                { value: 'population', label: 'Population (n)' },
+            ],
+        },
+    ],
+    outputs: [
+        { name: 'standardDeviation', label: 'Standard Deviation', format: 'number', precision: 6, primary: true },
+        { name: 'variance', label: 'Variance', format: 'number', precision: 6 },
+        { name: 'mean', label: 'Mean', format: 'number', precision: 6 },
+        { name: 'count', label: 'Count', format: 'integer' },
+    ],
+    submitLabel: 'Calculate Standard Deviation',
+    compute: (input) => {
+        const values = parseNumberList(input.string('values'));
+        if (!values) throw new CalculationError('Enter numbers only.', 'values');
+        const sample = input.string('type') === 'sample';
+        if (values.length < (sample ? 2 : 1)) {
+            throw new CalculationError(sample ? 'A sample needs at least two values.' : 'Enter at least one value.', 'values');
+        }
+        return {
+            outputs: {
+                standardDeviation: standardDeviation(values, sample),
+                variance: variance(values, sample),
+                mean: mean(values),
+                count: values.length,
+            },
+        };
+    },
+});
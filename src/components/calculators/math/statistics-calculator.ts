@@ -0,0 +1,61 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { geometricMean, harmonicMean, mean, median, modes, parseNumberList, quantile, standardDeviation, sum, variance } from '@/lib/math';
+
+export const statisticsCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'values', label: 'Data Set', kind: 'textarea', placeholder: 'e.g., 4, 8, 15, 16, 23, 42', description: 'Separate numbers with commas, spaces or new lines.' },
+    ],
+    outputs: [
+        { name: 'count', label: 'Count', format: 'integer' },
+        { name: 'sum', label: 'Sum', format: 'number', precision: 6 },
+        { name: 'mean', label: 'Mean', format: 'number', precision: 6, primary: true },
+        { name: 'median', label: 'Median', format: 'number', precision: 6 },
+        { name: 'mode', label: 'Mode', format: 'text' },
+        { name: 'min', label: 'Minimum', format: 'number', precision: 6 },
+        { name: 'max', label: 'Maximum', format: 'number', precision: 6 },
+        { name: 'range', label: 'Range', format: 'number', precision: 6 },
+        { name: 'q1', label: 'First Quartile (Q1)', format: 'number', precision: 6 },
+        { name: 'q3', label: 'Third Quartile (Q3)', format: 'number', precision: 6 },
+        { name: 'iqr', label: 'Interquartile Range', format: 'number', precision: 6 },
+        { name: 'sampleSd', label: 'Sample Standard Deviation', format: 'number', precision: 6 },
+        { name: 'populationSd', label: 'Population Standard Deviation', format: 'number', precision: 6 },
+        { name: 'sampleVariance', label: 'Sample Variance', format: 'number', precision: 6 },
+        { name: 'geometricMean', label: 'Geometric Mean', format: 'number', precision: 6 },
+        { name: 'harmonicMean', label: 'Harmonic Mean', format: 'number', precision: 6 },
+    ],
+    submitLabel: 'Calculate Statistics',
+    compute: (input) => {
+        const values = parseNumberList(input.string('values'));
+        if (!values) throw new CalculationError('Enter numbers only.', 'values');
+        if (values.length === 0) throw new CalculationError('Enter at least one value.', 'values');
+
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        const q1 = quantile(values, 0.25);
+        const q3 = quantile(values, 0.75);
+        const valueModes = modes(values);
+        const hasSample = values.length > 1;
+
+        return {
+            outputs: {
+                count: values.length,
+                sum: sum(values),
+                mean: mean(values),
+                median: median(values),
+                mode: valueModes.length > 0 ? valueModes.join(', ') : 'No mode',
+                min,
+                max,
+                range: max - min,
+                q1,
+                q3,
+                iqr: q3 - q1,
+                sampleSd: hasSample ? standardDeviation(values, true) : null,
+                populationSd: standardDeviation(values),
+                sampleVariance: hasSample ? variance(values, true) : null,
+                geometricMean: geometricMean(values),
+                harmonicMean: harmonicMean(values),
+            },
+        };
+    },
+});
@@ -0,0 +1,58 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const isShape = (...shapes: string[]) => (values: Record<string, string>) => shapes.includes(values.shape);
+
+export const surfaceAreaCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'shape', label: 'Shape', kind: 'select', options: [
+                { value: 'cube', label: 'Cube' },
+                { value: 'box', label: 'Rectangular Prism' },
+                { value: 'cylinder', label: 'Cylinder' },
+                { value: 'sphere', label: 'Sphere' },
+                { value: 'cone', label: 'Cone' },
+                { value: 'pyramid', label: 'Square Pyramid' },
+            ],
+        },
+        { name: 'side', label: 'Edge Length', kind: 'number', greaterThan: 0, visibleWhen: isShape('cube') },
+        { name: 'length', label: 'Length', kind: 'number', greaterThan: 0, visibleWhen: isShape('box') },
+        { name: 'width', label: 'Width', kind: 'number', greaterThan: 0, visibleWhen: isShape('box') },
+        { name: 'radius', label: 'Radius', kind: 'number', greaterThan: 0, visibleWhen: isShape('cylinder', 'sphere', 'cone') },
+        { name: 'baseEdge', label: 'Base Edge', kind: 'number', greaterThan: 0, visibleWhen: isShape('pyramid') },
+        { name: 'height', label: 'Height', kind: 'number', greaterThan: 0, visibleWhen: isShape('box', 'cylinder', 'cone', 'pyramid') },
+    ],
+    outputs: [
+        { name: 'surfaceArea', label: 'Total Surface Area', format: 'number', precision: 4, unit: 'square units', primary: true },
+        { name: 'lateralArea', label: 'Lateral Surface Area', format: 'number', precision: 4, unit: 'square units' },
+    ],
+    submitLabel: 'Calculate Surface Area',
+    compute: (input) => {
+        const h = input.number('height');
+        const r = input.number('radius');
+        switch (input.string('shape')) {
+            case 'cube': {
+                const s = input.number('side');
+                return { outputs: { surfaceArea: 6 * s * s, lateralArea: 4 * s * s } };
+            }
+            case 'box': {
+                const l = input.number('length');
+                const w = input.number('width');
+                return { outputs: { surfaceArea: 2 * (l * w + l * h + w * h), lateralArea: 2 * h * (l + w) } };
+            }
+            case 'cylinder':
+                return { outputs: { surfaceArea: 2 * Math.PI * r * (r + h), lateralArea: 2 * Math.PI * r * h } };
+            case 'sphere':
+                return { outputs: { surfaceArea: 4 * Math.PI * r * r, lateralArea: null } };
+            case 'cone': {
+                const slant = Math.sqrt(r * r + h * h);
+                return { outputs: { surfaceArea: Math.PI * r * (r + slant), lateralArea: Math.PI * r * slant } };
+            }
+            default: {
+                const e = input.number('baseEdge');
+                const slant = Math.sqrt(h * h + (e / 2) * (e / 2));
+                return { outputs: { surfaceArea: e * e + 2 * e * slant, lateralArea: 2 * e * slant } };
+            }
+        }
+    },
+});
@@ -0,0 +1,81 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const isMode = (...modes: string[]) => (values: Record<string, string>) => modes.includes(values.mode);
+
+/**
+ * Solves a triangle from three sides (SSS), two sides and the included angle
+ * (SAS) or two angles and the included side (ASA) using the laws of sines
+ * and cosines.
+ */
+export const triangleCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Known Values', kind: 'select', options: [
+                { value: 'sss', label: 'Three sides (SSS)' },
+                { value: 'sas', label: 'Two sides and included angle (SAS)' },
+                { value: 'asa', label: 'Two angles and included side (ASA)' },
+            ],
+        },
+        { name: 'a', label: 'Side a', kind: 'number', greaterThan: 0, visibleWhen: isMode('sss', 'sas') },
+        { name: 'b', label: 'Side b', kind: 'number', greaterThan: 0, visibleWhen: isMode('sss', 'sas') },
+        { name: 'c', label: 'Side c', kind: 'number', greaterThan: 0, visibleWhen: isMode('sss', 'asa') },
+        { name: 'angleA', label: 'Angle A', kind: 'number', unit: '°', greaterThan: 0, max: 180, visibleWhen: isMode('asa') },
+        { name: 'angleB', label: 'Angle B', kind: 'number', unit: '°', greaterThan: 0, max: 180, visibleWhen: isMode('asa') },
+        { name: 'angleC', label: 'Angle C (between a and b)', kind: 'number', unit: '°', greaterThan: 0, max: 180, visibleWhen: isMode('sas') },
+    ],
+    outputs: [
+        { name: 'a', label: 'Side a', format: 'number', precision: 4 },
+        { name: 'b', label: 'Side b', format: 'number', precision: 4 },
+        { name: 'c', label: 'Side c', format: 'number', precision: 4 },
+        { name: 'angleA', label: 'Angle A', format: 'number', precision: 4, unit: '°' },
+        { name: 'angleB', label: 'Angle B', format: 'number', precision: 4, unit: '°' },
+        { name: 'angleC', label: 'Angle C', format: 'number', precision: 4, unit: '°' },
+        { name: 'area', label: 'Area', format: 'number', precision: 4, primary: true },
+        { name: 'perimeter', label: 'Perimeter', format: 'number', precision: 4 },
+    ],
+    columns: 2,
+    submitLabel: 'Solve Triangle',
+    compute: (input) => {
+        let a: number, b: number, c: number;
+        let angleA: number, angleB: number, angleC: number;
+
+        switch (input.string('mode')) {
+            case 'sss':
+                a = input.number('a');
+                b = input.number('b');
+                c = input.number('c');
+                if (a + b <= c || a + c <= b || b + c <= a) {
+                    throw new CalculationError('These sides do not form a triangle (each side must be shorter than the other two combined).');
+                }
+                angleA = toDegrees(Math.acos((b * b + c * c - a * a) / (2 * b * c)));
+                angleB = toDegrees(Math.acos((a * a + c * c - b * b) / (2 * a * c)));
+                angleC = 180 - angleA - angleB;
+                break;
+            case 'sas':
+                a = input.number('a');
+                b = input.number('b');
+                angleC = input.number('angleC');
+                if (angleC >= 180) throw new CalculationError('Angle must be less than 180°.', 'angleC');
+                c = Math.sqrt(a * a + b * b - 2 * a * b * Math.cos(toRadians(angleC)));
+                angleA = toDegrees(Math.acos(Math.min(1, Math.max(-1, (b * b + c * c - a * a) / (2 * b * c)))));
+                angleB = 180 - angleA - angleC;
+                break;
+            default:
+                angleA = input.number('angleA');
+                angleB = input.number('angleB');
+                c = input.number('c');
+                angleC = 180 - angleA - angleB;
+                if (angleC <= 0) throw new CalculationError('The two angles must add up to less than 180°.', 'angleB');
+                a = (c * Math.sin(toRadians(angleA))) / Math.sin(toRadians(angleC));
+                b = (c * Math.sin(toRadians(angleB))) / Math.sin(toRadians(angleC));
+        }
+
+        const s = (a + b + c) / 2;
+        const area = Math.sqrt(Math.max(0, s * (s - a) * (s - b) * (s - c)));
+        return { outputs: { a, b, c, angleA, angleB, angleC, area, perimeter: a + b + c } };
+    },
+});
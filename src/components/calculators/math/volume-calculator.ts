@@ -0,0 +1,43 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const isShape = (...shapes: string[]) => (values: Record<string, string>) => shapes.includes(values.shape);
+
+export const volumeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'shape', label: 'Shape', kind: 'select', options: [
+                { value: 'cube', label: 'Cube' },
+                { value: 'box', label: 'Rectangular Prism' },
+                { value: 'cylinder', label: 'Cylinder' },
+                { value: 'sphere', label: 'Sphere' },
+                { value: 'cone', label: 'Cone' },
+                { value: 'pyramid', label: 'Square Pyramid' },
+            ],
+        },
+        { name: 'side', label: 'Edge Length', kind: 'number', greaterThan: 0, visibleWhen: isShape('cube') },
+        { name: 'length', label: 'Length', kind: 'number', greaterThan: 0, visibleWhen: isShape('box') },
+        { name: 'width', label: 'Width', kind: 'number', greaterThan: 0, visibleWhen: isShape('box') },
+        { name: 'radius', label: 'Radius', kind: 'number', greaterThan: 0, visibleWhen: isShape('cylinder', 'sphere', 'cone') },
+        { name: 'baseEdge', label: 'Base Edge', kind: 'number', greaterThan: 0, visibleWhen: isShape('pyramid') },
+        { name: 'height', label: 'Height', kind: 'number', greaterThan: 0, visibleWhen: isShape('box', 'cylinder', 'cone', 'pyramid') },
+    ],
+    outputs: [
+        { name: 'volume', label: 'Volume', format: 'number', precision: 4, unit: 'cubic units', primary: true },
+    ],
+    submitLabel: 'Calculate Volume',
+    compute: (input) => {
+        const h = input.number('height');
+        const r = input.number('radius');
+        let volume: number;
+        switch (input.string('shape')) {
+            case 'cube': volume = Math.pow(input.number('side'), 3); break;
+            case 'box': volume = input.number('length') * input.number('width') * h; break;
+            case 'cylinder': volume = Math.PI * r * r * h; break;
+            case 'sphere': volume = (4 / 3) * Math.PI * Math.pow(r, 3); break;
+            case 'cone': volume = (Math.PI * r * r * h) / 3; break;
+            default: volume = (Math.pow(input.number('baseEdge'), 2) * h) / 3;
+        }
+        return { outputs: { volume } };
+    },
+});
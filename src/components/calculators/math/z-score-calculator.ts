@@ -0,0 +1,30 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { normalCdf } from '@/lib/math';
+
+export const zScoreCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'value', label: 'Raw Score (x)', kind: 'number', placeholder: 'e.g., 85' },
+        { name: 'mean', label: 'Mean (μ)', kind: 'number', placeholder: 'e.g., 70' },
+        { name: 'standardDeviation', label: 'Standard Deviation (σ)', kind: 'number', greaterThan: 0, placeholder: 'e.g., 10' },
+    ],
+    outputs: [
+        { name: 'zScore', label: 'Z-score', format: 'number', precision: 4, primary: true },
+        { name: 'below', label: 'P(X < x)', format: 'percent', precision: 4 },
+        { name: 'above', label: 'P(X > x)', format: 'percent', precision: 4 },
+        { name: 'between', label: 'P(−|z| < Z < |z|)', format: 'percent', precision: 4 },
+    ],
+    submitLabel: 'Calculate Z-score',
+    compute: (input) => {
+        const z = (input.number('value') - input.number('mean')) / input.number('standardDeviation');
+        const below = normalCdf(z);
+        return {
+            outputs: {
+                zScore: z,
+                below: below * 100,
+                above: (1 - below) * 100,
+                between: (2 * normalCdf(Math.abs(z)) - 1) * 100,
+            },
+        };
+    },
+});
@@ -0,0 +1,37 @@
+import { addYears, differenceInCalendarDays, differenceInMonths, differenceInWeeks, differenceInYears, format, startOfDay } from 'date-fns';
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { calendarDifference, formatCalendarDifference, parseDateInput } from './dates';
+
+export const ageCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'birthDate', label: 'Date of Birth', kind: 'date' },
+        { name: 'asOf', label: 'Age on Date (optional)', kind: 'date', optional: true, description: 'Leave blank to use today.' },
+    ],
+    outputs: [
+        { name: 'age', label: 'Age', format: 'text', primary: true },
+        { name: 'totalMonths', label: 'Total Months', format: 'integer' },
+        { name: 'totalWeeks', label: 'Total Weeks', format: 'integer' },
+        { name: 'totalDays', label: 'Total Days', format: 'integer' },
+        { name: 'nextBirthday', label: 'Next Birthday', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Age',
+    compute: (input) => {
+        const birth = parseDateInput(input.string('birthDate'), 'birthDate');
+        const asOf = input.string('asOf') ? parseDateInput(input.string('asOf'), 'asOf') : startOfDay(new Date());
+        if (birth > asOf) throw new CalculationError('Date of birth must be on or before the age date.', 'birthDate');
+
+        const next = addYears(birth, differenceInYears(asOf, birth) + 1);
+        const daysUntil = differenceInCalendarDays(next, asOf);
+        return {
+            outputs: {
+                age: formatCalendarDifference(calendarDifference(birth, asOf)),
+                totalMonths: differenceInMonths(asOf, birth),
+                totalWeeks: differenceInWeeks(asOf, birth),
+                totalDays: differenceInCalendarDays(asOf, birth),
+                nextBirthday: `${format(next, 'EEEE, MMMM d, yyyy')} (in ${daysUntil} day${daysUntil === 1 ? '' : 's'})`,
+            },
+        };
+    },
+});
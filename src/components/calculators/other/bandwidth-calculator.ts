@@ -0,0 +1,65 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { DATA } from '@/lib/units';
+
+const SIZE_UNITS = ['kB', 'MB', 'GB', 'TB', 'KiB', 'MiB', 'GiB', 'TiB'];
+
+/** Link speeds in bits per second. */
+const RATES: Record<string, number> = {
+    'kbps': 1e3,
+    'Mbps': 1e6,
+    'Gbps': 1e9,
+    'kB/s': 8e3,
+    'MB/s': 8e6,
+};
+
+function formatDuration(totalSeconds: number): string {
+    if (totalSeconds < 60) return `${totalSeconds.toFixed(1)} s`;
+    const seconds = Math.round(totalSeconds);
+    const parts = [
+        [Math.floor(seconds / 86400), 'd'],
+        [Math.floor((seconds % 86400) / 3600), 'h'],
+        [Math.floor((seconds % 3600) / 60), 'min'],
+        [seconds % 60, 's'],
+    ] as const;
+    return parts.filter(([amount]) => amount > 0).map(([amount, unit]) => `${amount} ${unit}`).join(' ');
+}
+
+export const bandwidthCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Calculate', kind: 'select', options: [
+                { value: 'time', label: 'Download / upload time' },
+                { value: 'bandwidth', label: 'Bandwidth needed' },
+            ],
+        },
+        { name: 'size', label: 'File Size', kind: 'number', greaterThan: 0 },
+        { name: 'sizeUnit', label: 'Size Unit', kind: 'select', defaultValue: 'GB', options: SIZE_UNITS.map(unit => ({ value: unit, label: unit })) },
+        { name: 'bandwidth', label: 'Bandwidth', kind: 'number', greaterThan: 0, visibleWhen: values => values.mode === 'time' },
+        { name: 'rateUnit', label: 'Bandwidth Unit', kind: 'select', defaultValue: 'Mbps', options: Object.keys(RATES).map(unit => ({ value: unit, label: unit })), visibleWhen: values => values.mode === 'time' },
+        { name: 'minutes', label: 'Target Time', kind: 'number', greaterThan: 0, unit: 'min', visibleWhen: values => values.mode === 'bandwidth' },
+        { name: 'overhead', label: 'Protocol Overhead', kind: 'percent', min: 0, max: 90, defaultValue: '0', description: 'Share of the link lost to headers and retransmissions, typically 5–10%.' },
+    ],
+    outputs: [
+        { name: 'time', label: 'Transfer Time', format: 'text', primary: true },
+        { name: 'seconds', label: 'Total Seconds', format: 'number', precision: 1, unit: 's' },
+        { name: 'mbps', label: 'Required Bandwidth', format: 'number', precision: 2, unit: 'Mbps', primary: true },
+        { name: 'megabytesPerSecond', label: 'Equivalent Rate', format: 'number', precision: 2, unit: 'MB/s' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const bits = input.number('size') * DATA[input.string('sizeUnit')] * 8;
+        const efficiency = 1 - input.number('overhead') / 100;
+
+        if (input.string('mode') === 'time') {
+            const seconds = bits / (input.number('bandwidth') * RATES[input.string('rateUnit')] * efficiency);
+            return { outputs: { time: formatDuration(seconds), seconds, mbps: null, megabytesPerSecond: null } };
+        }
+
+        const seconds = input.number('minutes') * 60;
+        const bitsPerSecond = bits / seconds / efficiency;
+        if (!isFinite(bitsPerSecond)) throw new CalculationError('Target time is too short.', 'minutes');
+        return { outputs: { time: null, seconds: null, mbps: bitsPerSecond / 1e6, megabytesPerSecond: bitsPerSecond / 8e6 } };
+    },
+});
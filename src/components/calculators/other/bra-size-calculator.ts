@@ -0,0 +1,43 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, systemUnit, unitLabel } from '@/lib/units';
+
+/** Cup letters, one per inch of difference between bust and band. */
+const US_CUPS = ['AA', 'A', 'B', 'C', 'D', 'DD/E', 'DDD/F', 'G', 'H', 'I', 'J', 'K'];
+const UK_CUPS = ['AA', 'A', 'B', 'C', 'D', 'DD', 'E', 'F', 'FF', 'G', 'GG', 'H'];
+const EU_CUPS = ['AA', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K'];
+
+export const braSizeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'underbust', label: 'Underbust (Band) Measurement', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, description: 'Measure snugly around the ribcage just under the bust.' },
+        { name: 'bust', label: 'Bust Measurement', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, description: 'Measure loosely around the fullest part of the bust.' },
+    ],
+    outputs: [
+        { name: 'us', label: 'US Size', format: 'text', primary: true },
+        { name: 'uk', label: 'UK Size', format: 'text' },
+        { name: 'eu', label: 'EU Size', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Size',
+    disclaimer: 'Sizing varies between brands; use this as a starting point for a fitting.',
+    compute: (input, { units }) => {
+        const unit = LENGTH[systemUnit(units, 'shortLength')];
+        const underbustCm = (input.number('underbust') * unit) / LENGTH.cm;
+        const bustCm = (input.number('bust') * unit) / LENGTH.cm;
+        if (bustCm <= underbustCm) throw new CalculationError('Bust must be larger than the underbust measurement.', 'bust');
+
+        // Band: underbust rounded to the nearest even inch; cup: each inch over the band is one size
+        const underbustIn = underbustCm / 2.54;
+        const band = 2 * Math.round(underbustIn / 2);
+        const cupIndex = Math.max(0, Math.round(bustCm / 2.54 - band));
+        const cup = (cups: string[], index: number) => cups[Math.min(index, cups.length - 1)];
+        return {
+            outputs: {
+                us: `${band}${cup(US_CUPS, cupIndex)}`,
+                uk: `${band}${cup(UK_CUPS, cupIndex)}`,
+                // EU sizes follow the usual chart: US 32 is EU 70, with the same cup step
+                eu: `${band * 2.5 - 10}${cup(EU_CUPS, cupIndex)}`,
+            },
+        };
+    },
+});
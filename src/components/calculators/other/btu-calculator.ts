@@ -0,0 +1,81 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { AREA, LENGTH, POWER, convert, systemUnit, unitLabel } from '@/lib/units';
+
+/** ENERGY STAR room air conditioner sizing: about 20 BTU/h per square foot before adjustments. */
+const COOLING_BTU_PER_FT2 = 20;
+const BTU_PER_EXTRA_OCCUPANT = 600;
+const KITCHEN_BTU = 4000;
+
+/** Heat loss per ft³ per °F of temperature rise, by insulation quality. */
+const HEATING_FACTORS: Record<string, number> = { good: 0.133, average: 0.18, poor: 0.25 };
+
+export const btuCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Purpose', kind: 'select', options: [
+                { value: 'cooling', label: 'Cooling (air conditioner)' },
+                { value: 'heating', label: 'Heating' },
+            ],
+        },
+        { name: 'length', label: 'Room Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'width', label: 'Room Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'height', label: 'Ceiling Height', kind: 'number', unit: unitLabel('length'), greaterThan: 0, placeholder: 'e.g., 8 ft or 2.4 m', visibleWhen: values => values.mode === 'heating' },
+        {
+            name: 'insulation', label: 'Insulation', kind: 'select', visibleWhen: values => values.mode === 'heating', options: [
+                { value: 'good', label: 'Good' },
+                { value: 'average', label: 'Average' },
+                { value: 'poor', label: 'Poor' },
+            ], defaultValue: 'average',
+        },
+        { name: 'temperatureRise', label: 'Desired Temperature Rise', kind: 'number', unit: ({ units }) => (units === 'metric' ? '°C' : '°F'), greaterThan: 0, visibleWhen: values => values.mode === 'heating', description: 'Indoor target minus the coldest expected outdoor temperature.' },
+        {
+            name: 'sun', label: 'Sun Exposure', kind: 'select', visibleWhen: values => values.mode === 'cooling', options: [
+                { value: 'normal', label: 'Normal' },
+                { value: 'sunny', label: 'Very sunny (+10%)' },
+                { value: 'shaded', label: 'Heavily shaded (−10%)' },
+            ],
+        },
+        { name: 'occupants', label: 'Regular Occupants', kind: 'integer', min: 1, defaultValue: '2', visibleWhen: values => values.mode === 'cooling' },
+        {
+            name: 'kitchen', label: 'Room Type', kind: 'select', visibleWhen: values => values.mode === 'cooling', options: [
+                { value: 'no', label: 'Living space' },
+                { value: 'yes', label: 'Kitchen' },
+            ],
+        },
+    ],
+    outputs: [
+        { name: 'btu', label: 'Required Capacity', format: 'integer', unit: 'BTU/h', primary: true },
+        { name: 'watts', label: 'Required Capacity', format: 'number', precision: 2, unit: 'kW' },
+        { name: 'tons', label: 'Cooling Tons', format: 'number', precision: 2 },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate BTU',
+    disclaimer: 'Rule-of-thumb sizing only; a Manual J load calculation is recommended for whole-house systems.',
+    compute: (input, { units }) => {
+        const long = LENGTH[systemUnit(units, 'length')];
+        const areaM2 = input.number('length') * long * input.number('width') * long;
+        let btu: number;
+
+        if (input.string('mode') === 'cooling') {
+            btu = convert(areaM2, 'm²', 'ft²', AREA) * COOLING_BTU_PER_FT2;
+            const sun = input.string('sun');
+            if (sun === 'sunny') btu *= 1.1;
+            if (sun === 'shaded') btu *= 0.9;
+            btu += Math.max(0, input.number('occupants') - 2) * BTU_PER_EXTRA_OCCUPANT;
+            if (input.string('kitchen') === 'yes') btu += KITCHEN_BTU;
+        } else {
+            const volumeFt3 = convert(areaM2, 'm²', 'ft²', AREA) * (input.number('height') * long) / LENGTH.ft;
+            const riseF = input.number('temperatureRise') * (units === 'metric' ? 9 / 5 : 1);
+            btu = volumeFt3 * riseF * HEATING_FACTORS[input.string('insulation')];
+        }
+
+        return {
+            outputs: {
+                btu,
+                watts: convert(btu, 'BTU/h', 'kW', POWER),
+                tons: btu / 12000,
+            },
+        };
+    },
+});
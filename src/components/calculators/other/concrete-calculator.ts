@@ -0,0 +1,83 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, VOLUME, convert, systemUnit, unitLabel } from '@/lib/units';
+
+/** Yield of pre-mixed concrete, roughly 133 lb per cubic foot (an 80 lb bag makes 0.6 ft³). */
+const PREMIX_DENSITY_KG_PER_M3 = 2130;
+const BAG_SIZES = { metric: [20, 25, 40], imperial: [40, 60, 80] };
+
+const isShape = (...shapes: string[]) => (values: Record<string, string>) => shapes.includes(values.shape);
+
+export const concreteCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'shape', label: 'Pour Type', kind: 'select', options: [
+                { value: 'slab', label: 'Slab, footing or wall' },
+                { value: 'column', label: 'Round column or post hole' },
+                { value: 'steps', label: 'Steps' },
+            ],
+        },
+        { name: 'length', label: 'Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('slab') },
+        { name: 'width', label: 'Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('slab', 'steps') },
+        { name: 'thickness', label: 'Thickness / Depth', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, visibleWhen: isShape('slab') },
+        { name: 'diameter', label: 'Diameter', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, visibleWhen: isShape('column') },
+        { name: 'height', label: 'Height / Depth', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('column') },
+        { name: 'stepCount', label: 'Number of Steps', kind: 'integer', min: 1, visibleWhen: isShape('steps') },
+        { name: 'rise', label: 'Rise per Step', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, visibleWhen: isShape('steps') },
+        { name: 'run', label: 'Run (Tread Depth)', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, visibleWhen: isShape('steps') },
+        { name: 'quantity', label: 'Quantity', kind: 'integer', min: 1, defaultValue: '1' },
+        { name: 'waste', label: 'Waste Allowance', kind: 'percent', min: 0, max: 50, defaultValue: '10' },
+    ],
+    outputs: [
+        { name: 'volume', label: 'Concrete Needed', format: 'number', precision: 2, unit: unitLabel('volume'), primary: true },
+        { name: 'altVolume', label: 'Also', format: 'text' },
+        { name: 'smallBags', label: 'Small Bags', format: 'text' },
+        { name: 'mediumBags', label: 'Medium Bags', format: 'text' },
+        { name: 'largeBags', label: 'Large Bags', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Concrete',
+    disclaimer: 'Bag counts assume standard pre-mixed concrete (about 2,130 kg/m³ or 133 lb/ft³). For large pours, order ready-mix by volume.',
+    compute: (input, { units }) => {
+        const long = systemUnit(units, 'length');
+        const short = systemUnit(units, 'shortLength');
+        const toMetres = (name: string, unit: string) => input.number(name) * LENGTH[unit];
+
+        let cubicMetres: number;
+        switch (input.string('shape')) {
+            case 'slab':
+                cubicMetres = toMetres('length', long) * toMetres('width', long) * toMetres('thickness', short);
+                break;
+            case 'column': {
+                const radius = toMetres('diameter', short) / 2;
+                cubicMetres = Math.PI * radius * radius * toMetres('height', long);
+                break;
+            }
+            default: {
+                // Each step is a block as tall as all the steps up to it
+                const steps = input.number('stepCount');
+                const rise = toMetres('rise', short);
+                const run = toMetres('run', short);
+                const width = toMetres('width', long);
+                cubicMetres = run * width * rise * (steps * (steps + 1)) / 2;
+            }
+        }
+        cubicMetres *= input.number('quantity') * (1 + input.number('waste') / 100);
+
+        const bagUnit = units === 'metric' ? 'kg' : 'lb';
+        const bagMassKg = (size: number) => (units === 'metric' ? size : size * 0.45359237);
+        const bags = BAG_SIZES[units].map(size => `${Math.ceil((cubicMetres * PREMIX_DENSITY_KG_PER_M3) / bagMassKg(size))} × ${size} ${bagUnit}`);
+
+        return {
+            outputs: {
+                volume: units === 'metric' ? cubicMetres : convert(cubicMetres, 'm³', 'yd³', VOLUME),
+                altVolume: units === 'metric'
+                    ? `${convert(cubicMetres, 'm³', 'yd³', VOLUME).toFixed(2)} yd³`
+                    : `${convert(cubicMetres, 'm³', 'ft³', VOLUME).toFixed(2)} ft³`,
+                smallBags: bags[0],
+                mediumBags: bags[1],
+                largeBags: bags[2],
+            },
+        };
+    },
+});
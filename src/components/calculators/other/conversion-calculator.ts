@@ -0,0 +1,54 @@
+import { defineCalculator, type InputDefinition } from '@/lib/calculator-definition';
+import { AREA, DATA, ENERGY, LENGTH, MASS, POWER, PRESSURE, SPEED, TIME, VOLUME, convert, convertTemperature, type TemperatureUnit, type UnitTable } from '@/lib/units';
+
+const TEMPERATURE: UnitTable = { '°C': 1, '°F': 1, K: 1 };
+
+const CATEGORIES: Array<{ value: string; label: string; table: UnitTable; from: string; to: string }> = [
+    { value: 'length', label: 'Length', table: LENGTH, from: 'm', to: 'ft' },
+    { value: 'area', label: 'Area', table: AREA, from: 'm²', to: 'ft²' },
+    { value: 'volume', label: 'Volume', table: VOLUME, from: 'L', to: 'gal' },
+    { value: 'mass', label: 'Weight / Mass', table: MASS, from: 'kg', to: 'lb' },
+    { value: 'temperature', label: 'Temperature', table: TEMPERATURE, from: '°C', to: '°F' },
+    { value: 'speed', label: 'Speed', table: SPEED, from: 'km/h', to: 'mph' },
+    { value: 'time', label: 'Time', table: TIME, from: 'h', to: 'min' },
+    { value: 'energy', label: 'Energy', table: ENERGY, from: 'kWh', to: 'BTU' },
+    { value: 'power', label: 'Power', table: POWER, from: 'kW', to: 'hp' },
+    { value: 'pressure', label: 'Pressure', table: PRESSURE, from: 'bar', to: 'psi' },
+    { value: 'data', label: 'Data Storage', table: DATA, from: 'GB', to: 'MB' },
+];
+
+/** One pair of from/to selects per category, shown only while that category is selected. */
+const unitInputs: InputDefinition[] = CATEGORIES.flatMap(category => {
+    const options = Object.keys(category.table).map(unit => ({ value: unit, label: unit }));
+    const visibleWhen = (values: Record<string, string>) => values.category === category.value;
+    return [
+        { name: `${category.value}From`, label: 'From', kind: 'select', options, defaultValue: category.from, visibleWhen },
+        { name: `${category.value}To`, label: 'To', kind: 'select', options, defaultValue: category.to, visibleWhen },
+    ];
+});
+
+export const conversionCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'category', label: 'Measurement', kind: 'select', options: CATEGORIES.map(({ value, label }) => ({ value, label })) },
+        { name: 'value', label: 'Value', kind: 'number' },
+        ...unitInputs,
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'number', precision: 8, primary: true },
+        { name: 'summary', label: 'Conversion', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Convert',
+    compute: (input) => {
+        const category = CATEGORIES.find(candidate => candidate.value === input.string('category'))!;
+        const value = input.number('value');
+        const from = input.string(`${category.value}From`);
+        const to = input.string(`${category.value}To`);
+        const result = category.value === 'temperature'
+            ? convertTemperature(value, from as TemperatureUnit, to as TemperatureUnit)
+            : convert(value, from, to, category.table);
+        const display = result.toLocaleString(undefined, { maximumFractionDigits: 8 });
+        return { outputs: { result, summary: `${value.toLocaleString()} ${from} = ${display} ${to}` } };
+    },
+});
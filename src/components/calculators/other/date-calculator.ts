@@ -0,0 +1,68 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, format } from 'date-fns';
+import { defineCalculator } from '@/lib/calculator-definition';
+import { calendarDifference, countWeekdays, formatCalendarDifference, parseDateInput } from './dates';
+
+const isMode = (mode: string) => (values: Record<string, string>) => values.mode === mode;
+
+export const dateCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Calculation', kind: 'select', options: [
+                { value: 'between', label: 'Duration between two dates' },
+                { value: 'add', label: 'Add to a date' },
+                { value: 'subtract', label: 'Subtract from a date' },
+            ],
+        },
+        { name: 'startDate', label: 'Start Date', kind: 'date' },
+        { name: 'endDate', label: 'End Date', kind: 'date', visibleWhen: isMode('between') },
+        { name: 'years', label: 'Years', kind: 'integer', min: 0, defaultValue: '0', visibleWhen: values => values.mode !== 'between' },
+        { name: 'months', label: 'Months', kind: 'integer', min: 0, defaultValue: '0', visibleWhen: values => values.mode !== 'between' },
+        { name: 'weeks', label: 'Weeks', kind: 'integer', min: 0, defaultValue: '0', visibleWhen: values => values.mode !== 'between' },
+        { name: 'days', label: 'Days', kind: 'integer', min: 0, defaultValue: '0', visibleWhen: values => values.mode !== 'between' },
+    ],
+    outputs: [
+        { name: 'resultDate', label: 'Resulting Date', format: 'text', primary: true },
+        { name: 'duration', label: 'Duration', format: 'text', primary: true },
+        { name: 'totalDays', label: 'Total Days', format: 'integer' },
+        { name: 'totalWeeks', label: 'Total Weeks', format: 'number', precision: 2 },
+        { name: 'weekdays', label: 'Weekdays (Mon–Fri)', format: 'integer' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Date',
+    compute: (input) => {
+        const start = parseDateInput(input.string('startDate'), 'startDate');
+        const mode = input.string('mode');
+
+        if (mode === 'between') {
+            const end = parseDateInput(input.string('endDate'), 'endDate');
+            const [from, to] = start <= end ? [start, end] : [end, start];
+            const totalDays = differenceInCalendarDays(to, from);
+            return {
+                outputs: {
+                    resultDate: null,
+                    duration: formatCalendarDifference(calendarDifference(from, to)),
+                    totalDays,
+                    totalWeeks: totalDays / 7,
+                    weekdays: countWeekdays(from, to),
+                },
+                notes: start > end ? ['The end date is before the start date; the duration is shown as a positive value.'] : undefined,
+            };
+        }
+
+        const sign = mode === 'add' ? 1 : -1;
+        let result = addYears(start, sign * input.number('years'));
+        result = addMonths(result, sign * input.number('months'));
+        result = addWeeks(result, sign * input.number('weeks'));
+        result = addDays(result, sign * input.number('days'));
+        return {
+            outputs: {
+                resultDate: format(result, 'EEEE, MMMM d, yyyy'),
+                duration: null,
+                totalDays: Math.abs(differenceInCalendarDays(result, start)),
+                totalWeeks: null,
+                weekdays: null,
+            },
+        };
+    },
+});
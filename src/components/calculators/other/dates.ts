@@ -0,0 +1,52 @@
+import { addMonths, addYears, differenceInCalendarDays, differenceInMonths, differenceInYears, isValid, parseISO } from 'date-fns';
+import { CalculationError } from '@/lib/calculator-definition';
+
+/** Parses a `yyyy-MM-dd` date input as local midnight. */
+export function parseDateInput(value: string, field: string): Date {
+    const date = parseISO(value);
+    if (!isValid(date)) throw new CalculationError('Enter a valid date.', field);
+    return date;
+}
+
+/** Parses an `HH:mm` time input into minutes after midnight. */
+export function parseTimeInput(value: string, field: string): number {
+    const match = value.match(/^(\d{1,2}):(\d{2})/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        throw new CalculationError('Enter a valid time.', field);
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** Calendar difference between two dates as whole years, months and days (`start` ≤ `end`). */
+export function calendarDifference(start: Date, end: Date): { years: number; months: number; days: number } {
+    const years = differenceInYears(end, start);
+    const afterYears = addYears(start, years);
+    const months = differenceInMonths(end, afterYears);
+    const days = differenceInCalendarDays(end, addMonths(afterYears, months));
+    return { years, months, days };
+}
+
+export function formatCalendarDifference({ years, months, days }: { years: number; months: number; days: number }): string {
+    const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+    return `${plural(years, 'year')}, ${plural(months, 'month')}, ${plural(days, 'day')}`;
+}
+
+/** Formats minutes as `h:mm`, e.g. 450 → "7:30". */
+export function formatMinutes(totalMinutes: number): string {
+    const sign = totalMinutes < 0 ? '-' : '';
+    const minutes = Math.round(Math.abs(totalMinutes));
+    return `${sign}${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Counts Monday–Friday days in the inclusive range between two dates. */
+export function countWeekdays(start: Date, end: Date): number {
+    const totalDays = differenceInCalendarDays(end, start) + 1;
+    const fullWeeks = Math.floor(totalDays / 7);
+    let weekdays = fullWeeks * 5;
+    const startDay = start.getDay();
+    for (let i = 0; i < totalDays % 7; i++) {
+        const day = (startDay + i) % 7;
+        if (day !== 0 && day !== 6) weekdays++;
+    }
+    return weekdays;
+}
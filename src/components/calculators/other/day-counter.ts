@@ -0,0 +1,46 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { defineCalculator } from '@/lib/calculator-definition';
+import { countWeekdays, parseDateInput } from './dates';
+
+export const dayCounter = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'startDate', label: 'Start Date', kind: 'date' },
+        { name: 'endDate', label: 'End Date', kind: 'date' },
+        {
+            name: 'includeEnd', label: 'Count End Date', kind: 'select', options: [
+                { value: 'no', label: 'No (days between)' },
+                { value: 'yes', label: 'Yes (include both dates)' },
+            ],
+        },
+    ],
+    outputs: [
+        { name: 'days', label: 'Days', format: 'integer', primary: true },
+        { name: 'weekdays', label: 'Weekdays (Mon–Fri)', format: 'integer' },
+        { name: 'weekendDays', label: 'Weekend Days', format: 'integer' },
+        { name: 'weeks', label: 'Weeks', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Count Days',
+    compute: (input) => {
+        const start = parseDateInput(input.string('startDate'), 'startDate');
+        const end = parseDateInput(input.string('endDate'), 'endDate');
+        const [from, to] = start <= end ? [start, end] : [end, start];
+        const includeEnd = input.string('includeEnd') === 'yes';
+
+        const days = differenceInCalendarDays(to, from) + (includeEnd ? 1 : 0);
+        // Weekday counting is inclusive; drop the end date when it is not counted
+        let weekdays = countWeekdays(from, to);
+        if (!includeEnd && to.getDay() !== 0 && to.getDay() !== 6) weekdays--;
+        weekdays = Math.max(0, weekdays);
+
+        return {
+            outputs: {
+                days,
+                weekdays,
+                weekendDays: days - weekdays,
+                weeks: `${Math.floor(days / 7)} weeks, ${days % 7} days`,
+            },
+        };
+    },
+});
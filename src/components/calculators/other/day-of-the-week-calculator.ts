@@ -0,0 +1,30 @@
+import { format, getDayOfYear, getDaysInYear, getISOWeek, isLeapYear } from 'date-fns';
+import { defineCalculator } from '@/lib/calculator-definition';
+import { parseDateInput } from './dates';
+
+export const dayOfTheWeekCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'date', label: 'Date', kind: 'date' },
+    ],
+    outputs: [
+        { name: 'dayOfWeek', label: 'Day of the Week', format: 'text', primary: true },
+        { name: 'formatted', label: 'Full Date', format: 'text' },
+        { name: 'dayOfYear', label: 'Day of the Year', format: 'text' },
+        { name: 'isoWeek', label: 'ISO Week Number', format: 'integer' },
+        { name: 'leapYear', label: 'Leap Year', format: 'text' },
+    ],
+    submitLabel: 'Find Day',
+    compute: (input) => {
+        const date = parseDateInput(input.string('date'), 'date');
+        return {
+            outputs: {
+                dayOfWeek: format(date, 'EEEE'),
+                formatted: format(date, 'EEEE, MMMM do, yyyy'),
+                dayOfYear: `${getDayOfYear(date)} of ${getDaysInYear(date)}`,
+                isoWeek: getISOWeek(date),
+                leapYear: isLeapYear(date) ? 'Yes' : 'No',
+            },
+        };
+    },
+});
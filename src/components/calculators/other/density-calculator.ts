@@ -0,0 +1,53 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { MASS, VOLUME, convert } from '@/lib/units';
+
+const solves = (target: string) => (values: Record<string, string>) => values.solveFor !== target;
+
+/** Input units per system; densities are reported in the matching compound unit. */
+const UNITS = {
+    metric: { mass: 'kg', volume: 'm³', density: 'kg/m³' },
+    imperial: { mass: 'lb', volume: 'ft³', density: 'lb/ft³' },
+};
+
+export const densityCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'solveFor', label: 'Solve For', kind: 'select', options: [
+                { value: 'density', label: 'Density' },
+                { value: 'mass', label: 'Mass' },
+                { value: 'volume', label: 'Volume' },
+            ],
+        },
+        { name: 'mass', label: 'Mass', kind: 'number', unit: ({ units }) => UNITS[units].mass, greaterThan: 0, visibleWhen: solves('mass') },
+        { name: 'volume', label: 'Volume', kind: 'number', unit: ({ units }) => UNITS[units].volume, greaterThan: 0, visibleWhen: solves('volume') },
+        { name: 'density', label: 'Density', kind: 'number', unit: ({ units }) => UNITS[units].density, greaterThan: 0, visibleWhen: solves('density') },
+    ],
+    outputs: [
+        { name: 'density', label: 'Density', format: 'number', precision: 4, unit: ({ units }) => UNITS[units].density, primary: true },
+        { name: 'mass', label: 'Mass', format: 'number', precision: 4, unit: ({ units }) => UNITS[units].mass, primary: true },
+        { name: 'volume', label: 'Volume', format: 'number', precision: 6, unit: ({ units }) => UNITS[units].volume, primary: true },
+        { name: 'gramsPerCm3', label: 'Density', format: 'number', precision: 4, unit: 'g/cm³' },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input, { units }) => {
+        const solveFor = input.string('solveFor');
+        let mass = input.number('mass');
+        let volume = input.number('volume');
+        let density = input.number('density');
+
+        if (solveFor === 'density') density = mass / volume;
+        if (solveFor === 'mass') mass = density * volume;
+        if (solveFor === 'volume') volume = mass / density;
+
+        const kgPerM3 = convert(density, UNITS[units].mass, 'kg', MASS) / convert(1, UNITS[units].volume, 'm³', VOLUME);
+        return {
+            outputs: {
+                density: solveFor === 'density' ? density : null,
+                mass: solveFor === 'mass' ? mass : null,
+                volume: solveFor === 'volume' ? volume : null,
+                gramsPerCm3: kgPerM3 / 1000,
+            },
+        };
+    },
+});
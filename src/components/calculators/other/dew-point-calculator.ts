@@ -0,0 +1,37 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { convertTemperature, unitLabel } from '@/lib/units';
+
+/** Magnus formula coefficients (Alduchov & Eskridge, 1996). */
+const A = 17.625;
+const B = 243.04;
+
+export const dewPointCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'temperature', label: 'Air Temperature', kind: 'number', unit: unitLabel('temperature') },
+        { name: 'humidity', label: 'Relative Humidity', kind: 'percent', greaterThan: 0, max: 100 },
+    ],
+    outputs: [
+        { name: 'dewPoint', label: 'Dew Point', format: 'number', precision: 1, unit: unitLabel('temperature'), primary: true },
+        { name: 'comfort', label: 'Comfort', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Dew Point',
+    compute: (input, { units }) => {
+        const celsius = units === 'metric' ? input.number('temperature') : convertTemperature(input.number('temperature'), '°F', '°C');
+        const gamma = Math.log(input.number('humidity') / 100) + (A * celsius) / (B + celsius);
+        const dewPointC = (B * gamma) / (A - gamma);
+        const comfort = dewPointC >= 24 ? 'Oppressive'
+            : dewPointC >= 21 ? 'Very humid'
+            : dewPointC >= 18 ? 'Humid'
+            : dewPointC >= 16 ? 'Slightly humid'
+            : dewPointC >= 10 ? 'Comfortable'
+            : 'Dry';
+        return {
+            outputs: {
+                dewPoint: units === 'metric' ? dewPointC : convertTemperature(dewPointC, '°C', '°F'),
+                comfort,
+            },
+        };
+    },
+});
@@ -0,0 +1,37 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+export const diceRoller = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'count', label: 'Number of Dice', kind: 'integer', min: 1, max: 100, defaultValue: '2' },
+        {
+            name: 'sides', label: 'Sides per Die', kind: 'select', defaultValue: '6', options: ['4', '6', '8', '10', '12', '20', '100'].map(sides => ({ value: sides, label: `d${sides}` })),
+        },
+        { name: 'modifier', label: 'Modifier', kind: 'integer', defaultValue: '0', description: 'Added to the total, e.g. +2 or −1.' },
+    ],
+    outputs: [
+        { name: 'total', label: 'Total', format: 'integer', primary: true },
+        { name: 'rolls', label: 'Rolls', format: 'text' },
+        { name: 'notation', label: 'Roll', format: 'text' },
+        { name: 'range', label: 'Possible Range', format: 'text' },
+        { name: 'expected', label: 'Expected Average', format: 'number', precision: 2 },
+    ],
+    columns: 3,
+    submitLabel: 'Roll Dice',
+    compute: (input) => {
+        const count = input.number('count');
+        const sides = input.number('sides');
+        const modifier = input.number('modifier');
+        const rolls = Array.from({ length: count }, () => 1 + Math.floor(Math.random() * sides));
+        const modifierText = modifier === 0 ? '' : modifier > 0 ? `+${modifier}` : `${modifier}`;
+        return {
+            outputs: {
+                total: rolls.reduce((acc, roll) => acc + roll, 0) + modifier,
+                rolls: rolls.join(', '),
+                notation: `${count}d${sides}${modifierText}`,
+                range: `${count + modifier} – ${count * sides + modifier}`,
+                expected: (count * (sides + 1)) / 2 + modifier,
+            },
+        };
+    },
+});
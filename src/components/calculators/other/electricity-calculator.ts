@@ -0,0 +1,35 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+export const electricityCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'power', label: 'Device Power', kind: 'number', unit: 'W', greaterThan: 0, placeholder: 'e.g., 1500' },
+        { name: 'quantity', label: 'Number of Devices', kind: 'integer', min: 1, defaultValue: '1' },
+        { name: 'hoursPerDay', label: 'Usage per Day', kind: 'number', unit: 'hours', greaterThan: 0, max: 24 },
+        { name: 'daysPerWeek', label: 'Days Used per Week', kind: 'number', greaterThan: 0, max: 7, defaultValue: '7' },
+        { name: 'price', label: 'Electricity Price per kWh', kind: 'currency', min: 0, placeholder: 'e.g., 0.15' },
+    ],
+    outputs: [
+        { name: 'dailyKwh', label: 'Energy per Day of Use', format: 'number', precision: 3, unit: 'kWh' },
+        { name: 'monthlyKwh', label: 'Energy per Month', format: 'number', precision: 2, unit: 'kWh' },
+        { name: 'dailyCost', label: 'Cost per Day of Use', format: 'currency' },
+        { name: 'monthlyCost', label: 'Cost per Month', format: 'currency', primary: true },
+        { name: 'yearlyCost', label: 'Cost per Year', format: 'currency', primary: true },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Cost',
+    compute: (input) => {
+        const dailyKwh = (input.number('power') * input.number('quantity') * input.number('hoursPerDay')) / 1000;
+        const yearlyKwh = dailyKwh * input.number('daysPerWeek') * (365.25 / 7);
+        const price = input.number('price');
+        return {
+            outputs: {
+                dailyKwh,
+                monthlyKwh: yearlyKwh / 12,
+                dailyCost: dailyKwh * price,
+                monthlyCost: (yearlyKwh / 12) * price,
+                yearlyCost: yearlyKwh * price,
+            },
+        };
+    },
+});
@@ -0,0 +1,43 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { MASS, POWER, SPEED, convert, systemUnit, unitLabel } from '@/lib/units';
+
+/**
+ * Estimates wheel horsepower from quarter-mile results using the classic
+ * drag-racing formulas: hp = weight / (ET / 5.825)³ and hp = weight × (trap mph / 234)³,
+ * with weight in pounds including the driver.
+ */
+export const engineHorsepowerCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'method', label: 'Method', kind: 'select', options: [
+                { value: 'trapSpeed', label: 'Trap speed' },
+                { value: 'elapsedTime', label: 'Elapsed time (ET)' },
+            ],
+        },
+        { name: 'weight', label: 'Vehicle Weight (with driver)', kind: 'number', unit: unitLabel('mass'), greaterThan: 0 },
+        { name: 'trapSpeed', label: 'Quarter-mile Trap Speed', kind: 'number', unit: unitLabel('speed'), greaterThan: 0, visibleWhen: values => values.method === 'trapSpeed' },
+        { name: 'elapsedTime', label: 'Quarter-mile Elapsed Time', kind: 'number', unit: 's', greaterThan: 0, visibleWhen: values => values.method === 'elapsedTime' },
+    ],
+    outputs: [
+        { name: 'horsepower', label: 'Estimated Power', format: 'number', precision: 0, unit: 'hp', primary: true },
+        { name: 'kilowatts', label: 'Estimated Power', format: 'number', precision: 1, unit: 'kW' },
+        { name: 'powerToWeight', label: 'Power-to-Weight', format: 'number', precision: 2, unit: ({ units }) => (units === 'metric' ? 'kW/t' : 'hp/ton') },
+    ],
+    submitLabel: 'Estimate Horsepower',
+    disclaimer: 'Drag-strip estimates include drivetrain losses and traction; treat them as approximate wheel horsepower.',
+    compute: (input, { units }) => {
+        const pounds = convert(input.number('weight'), systemUnit(units, 'mass'), 'lb', MASS);
+        const horsepower = input.string('method') === 'trapSpeed'
+            ? pounds * Math.pow(convert(input.number('trapSpeed'), systemUnit(units, 'speed'), 'mph', SPEED) / 234, 3)
+            : pounds / Math.pow(input.number('elapsedTime') / 5.825, 3);
+        const kilowatts = convert(horsepower, 'hp', 'kW', POWER);
+        return {
+            outputs: {
+                horsepower,
+                kilowatts,
+                powerToWeight: units === 'metric' ? kilowatts / (convert(pounds, 'lb', 't', MASS)) : horsepower / (pounds / 2000),
+            },
+        };
+    },
+});
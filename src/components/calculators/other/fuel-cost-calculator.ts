@@ -0,0 +1,42 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, VOLUME, convert, systemUnit, unitLabel } from '@/lib/units';
+import { toLitresPer100Km } from './fuel-economy';
+
+export const fuelCostCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'distance', label: 'Trip Distance', kind: 'number', unit: unitLabel('distance'), greaterThan: 0 },
+        { name: 'efficiency', label: 'Fuel Efficiency', kind: 'number', unit: unitLabel('fuelEconomy'), greaterThan: 0 },
+        { name: 'price', label: 'Fuel Price', kind: 'currency', unit: ({ units }) => (units === 'metric' ? 'per L' : 'per gal'), min: 0 },
+        {
+            name: 'roundTrip', label: 'Trip Type', kind: 'select', options: [
+                { value: 'no', label: 'One way' },
+                { value: 'yes', label: 'Round trip' },
+            ],
+        },
+        { name: 'travellers', label: 'Split Between', kind: 'integer', min: 1, defaultValue: '1', unit: 'people' },
+    ],
+    outputs: [
+        { name: 'cost', label: 'Total Fuel Cost', format: 'currency', primary: true },
+        { name: 'costPerPerson', label: 'Cost per Person', format: 'currency' },
+        { name: 'fuel', label: 'Fuel Needed', format: 'number', precision: 2, unit: unitLabel('fluid') },
+        { name: 'costPerDistance', label: 'Cost per Distance', format: 'currency', unit: ({ units }) => (units === 'metric' ? 'per km' : 'per mile') },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Fuel Cost',
+    compute: (input, { units }) => {
+        const distance = input.number('distance') * (input.string('roundTrip') === 'yes' ? 2 : 1);
+        const distanceKm = (distance * LENGTH[systemUnit(units, 'distance')]) / LENGTH.km;
+        const litres = (distanceKm * toLitresPer100Km(input.number('efficiency'), units)) / 100;
+        const fuel = convert(litres, 'L', systemUnit(units, 'fluid'), VOLUME);
+        const cost = fuel * input.number('price');
+        return {
+            outputs: {
+                cost,
+                costPerPerson: cost / input.number('travellers'),
+                fuel,
+                costPerDistance: cost / distance,
+            },
+        };
+    },
+});
@@ -0,0 +1,13 @@
+import type { Units } from '@/lib/calculator-definition';
+import { LENGTH, VOLUME } from '@/lib/units';
+
+/** Litres per 100 km for a fuel economy entered in the user's system (L/100 km or US mpg). */
+export function toLitresPer100Km(value: number, units: Units): number {
+    if (units === 'metric') return value;
+    return (100 * LENGTH.km / LENGTH.mi) * (VOLUME.gal / VOLUME.L) / value;
+}
+
+/** Converts litres per 100 km to US miles per gallon (the conversion is its own inverse). */
+export function toMpg(litresPer100Km: number): number {
+    return toLitresPer100Km(litresPer100Km, 'imperial');
+}
@@ -0,0 +1,37 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, VOLUME, systemUnit, unitLabel } from '@/lib/units';
+import { toMpg } from './fuel-economy';
+
+export const gasMileageCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'distance', label: 'Distance Driven', kind: 'number', unit: unitLabel('distance'), greaterThan: 0, description: 'Odometer difference between two fill-ups.' },
+        { name: 'fuel', label: 'Fuel Used', kind: 'number', unit: unitLabel('fluid'), greaterThan: 0 },
+        { name: 'price', label: 'Fuel Price (optional)', kind: 'currency', unit: ({ units }) => (units === 'metric' ? 'per L' : 'per gal'), min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'economy', label: 'Fuel Economy', format: 'number', precision: 2, unit: unitLabel('fuelEconomy'), primary: true },
+        { name: 'mpg', label: 'US MPG', format: 'number', precision: 2, unit: 'mpg' },
+        { name: 'litresPer100Km', label: 'Litres per 100 km', format: 'number', precision: 2, unit: 'L/100 km' },
+        { name: 'kmPerLitre', label: 'Kilometres per Litre', format: 'number', precision: 2, unit: 'km/L' },
+        { name: 'costPerDistance', label: 'Cost per Distance', format: 'currency', unit: ({ units }) => (units === 'metric' ? 'per km' : 'per mile') },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Mileage',
+    compute: (input, { units }) => {
+        const km = (input.number('distance') * LENGTH[systemUnit(units, 'distance')]) / LENGTH.km;
+        const litres = (input.number('fuel') * VOLUME[systemUnit(units, 'fluid')]) / VOLUME.L;
+        const litresPer100Km = (litres / km) * 100;
+        const mpg = toMpg(litresPer100Km);
+        const price = input.optionalNumber('price');
+        return {
+            outputs: {
+                economy: units === 'metric' ? litresPer100Km : mpg,
+                mpg,
+                litresPer100Km,
+                kmPerLitre: km / litres,
+                costPerDistance: price === undefined ? null : (input.number('fuel') * price) / input.number('distance'),
+            },
+        };
+    },
+});
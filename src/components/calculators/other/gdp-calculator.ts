@@ -0,0 +1,48 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+/** Expenditure approach: GDP = C + I + G + (X − M). */
+export const gdpCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'consumption', label: 'Consumption (C)', kind: 'currency', min: 0 },
+        { name: 'investment', label: 'Investment (I)', kind: 'currency' },
+        { name: 'government', label: 'Government Spending (G)', kind: 'currency', min: 0 },
+        { name: 'exports', label: 'Exports (X)', kind: 'currency', min: 0 },
+        { name: 'imports', label: 'Imports (M)', kind: 'currency', min: 0 },
+        { name: 'population', label: 'Population (optional)', kind: 'integer', greaterThan: 0, optional: true },
+        { name: 'deflator', label: 'GDP Deflator (optional)', kind: 'number', greaterThan: 0, optional: true, description: 'Price index with base year = 100, for real GDP.' },
+    ],
+    outputs: [
+        { name: 'gdp', label: 'Nominal GDP', format: 'currency', primary: true },
+        { name: 'netExports', label: 'Net Exports (X − M)', format: 'currency' },
+        { name: 'realGdp', label: 'Real GDP', format: 'currency' },
+        { name: 'perCapita', label: 'GDP per Capita', format: 'currency' },
+        { name: 'consumptionShare', label: 'Consumption Share', format: 'percent', precision: 1 },
+        { name: 'investmentShare', label: 'Investment Share', format: 'percent', precision: 1 },
+        { name: 'governmentShare', label: 'Government Share', format: 'percent', precision: 1 },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate GDP',
+    compute: (input) => {
+        const consumption = input.number('consumption');
+        const investment = input.number('investment');
+        const government = input.number('government');
+        const netExports = input.number('exports') - input.number('imports');
+        const gdp = consumption + investment + government + netExports;
+        const population = input.optionalNumber('population');
+        const deflator = input.optionalNumber('deflator');
+        const share = (part: number) => (gdp === 0 ? null : (part / gdp) * 100);
+
+        return {
+            outputs: {
+                gdp,
+                netExports,
+                realGdp: deflator === undefined ? null : (gdp / deflator) * 100,
+                perCapita: population === undefined ? null : gdp / population,
+                consumptionShare: share(consumption),
+                investmentShare: share(investment),
+                governmentShare: share(government),
+            },
+        };
+    },
+});
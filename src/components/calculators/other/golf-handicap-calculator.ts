@@ -0,0 +1,70 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+/** World Handicap System: how many of the lowest differentials count, and the adjustment, by rounds played. */
+const WHS_TABLE: Array<{ maxRounds: number; count: number; adjustment: number }> = [
+    { maxRounds: 3, count: 1, adjustment: -2 },
+    { maxRounds: 4, count: 1, adjustment: -1 },
+    { maxRounds: 5, count: 1, adjustment: 0 },
+    { maxRounds: 6, count: 2, adjustment: -1 },
+    { maxRounds: 8, count: 2, adjustment: 0 },
+    { maxRounds: 11, count: 3, adjustment: 0 },
+    { maxRounds: 14, count: 4, adjustment: 0 },
+    { maxRounds: 16, count: 5, adjustment: 0 },
+    { maxRounds: 18, count: 6, adjustment: 0 },
+    { maxRounds: 19, count: 7, adjustment: 0 },
+    { maxRounds: 20, count: 8, adjustment: 0 },
+];
+const MAX_INDEX = 54;
+const STANDARD_SLOPE = 113;
+
+export const golfHandicapCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'rounds', label: 'Rounds', kind: 'textarea', placeholder: '88, 71.2, 128\n92, 70.4, 121', description: 'One round per line, most recent last: adjusted gross score, course rating and slope rating. Up to 20 rounds are used.' },
+    ],
+    outputs: [
+        { name: 'handicapIndex', label: 'Handicap Index', format: 'number', precision: 1, primary: true },
+        { name: 'used', label: 'Differentials Used', format: 'text' },
+    ],
+    tables: [
+        {
+            name: 'differentials', title: 'Score Differentials', columns: [
+                { key: 'round', label: 'Round', format: 'integer' },
+                { key: 'score', label: 'Score', format: 'integer' },
+                { key: 'rating', label: 'Rating', format: 'number', precision: 1 },
+                { key: 'slope', label: 'Slope', format: 'integer' },
+                { key: 'differential', label: 'Differential', format: 'number', precision: 1 },
+                { key: 'counted', label: 'Counted', format: 'text' },
+            ],
+        },
+    ],
+    submitLabel: 'Calculate Handicap',
+    disclaimer: 'Simplified WHS calculation without playing conditions or exceptional score adjustments.',
+    compute: (input) => {
+        const lines = input.string('rounds').split('\n').map(line => line.trim()).filter(line => line !== '');
+        if (lines.length < 3) throw new CalculationError('Enter at least 3 rounds.', 'rounds');
+
+        const rounds = lines.slice(-20).map((line, index) => {
+            const [score, rating, slope] = line.split(/[\s,;]+/).map(Number);
+            if (![score, rating, slope].every(isFinite) || slope < 55 || slope > 155) {
+                throw new CalculationError(`Line ${index + 1}: enter score, course rating and a slope between 55 and 155.`, 'rounds');
+            }
+            const differential = Math.round(((STANDARD_SLOPE / slope) * (score - rating)) * 10) / 10;
+            return { round: index + 1, score, rating, slope, differential, counted: '' };
+        });
+
+        const rule = WHS_TABLE.find(row => rounds.length <= row.maxRounds)!;
+        const lowest = [...rounds].sort((a, b) => a.differential - b.differential).slice(0, rule.count);
+        lowest.forEach(round => { round.counted = '✓'; });
+        const average = lowest.reduce((acc, round) => acc + round.differential, 0) / rule.count;
+        const handicapIndex = Math.min(MAX_INDEX, Math.floor((average + rule.adjustment) * 10) / 10);
+
+        return {
+            outputs: {
+                handicapIndex,
+                used: `Lowest ${rule.count} of ${rounds.length}${rule.adjustment ? `, adjusted ${rule.adjustment}` : ''}`,
+            },
+            tables: { differentials: rounds },
+        };
+    },
+});
@@ -0,0 +1,50 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+/** Standard US 4.0 scale. */
+const GRADE_POINTS: Record<string, number> = {
+    'A+': 4.0, A: 4.0, 'A-': 3.7, 'B+': 3.3, B: 3.0, 'B-': 2.7, 'C+': 2.3, C: 2.0, 'C-': 1.7, 'D+': 1.3, D: 1.0, 'D-': 0.7, F: 0,
+};
+
+export const gpaCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'courses', label: 'Courses', kind: 'textarea', placeholder: 'A, 3\nB+, 4\n3.7, 3', description: 'One course per line: letter grade (or grade points) and credit hours.' },
+        { name: 'priorGpa', label: 'Current Cumulative GPA (optional)', kind: 'number', min: 0, max: 4.3, optional: true },
+        { name: 'priorCredits', label: 'Credits Completed (optional)', kind: 'number', min: 0, optional: true, visibleWhen: values => values.priorGpa.trim() !== '' },
+    ],
+    outputs: [
+        { name: 'gpa', label: 'Term GPA', format: 'number', precision: 3, primary: true },
+        { name: 'cumulativeGpa', label: 'Cumulative GPA', format: 'number', precision: 3, primary: true },
+        { name: 'credits', label: 'Term Credits', format: 'number', precision: 1 },
+        { name: 'qualityPoints', label: 'Quality Points', format: 'number', precision: 2 },
+    ],
+    submitLabel: 'Calculate GPA',
+    compute: (input) => {
+        const lines = input.string('courses').split('\n').map(line => line.trim()).filter(line => line !== '');
+        if (lines.length === 0) throw new CalculationError('Enter at least one course.', 'courses');
+
+        let credits = 0;
+        let qualityPoints = 0;
+        lines.forEach((line, index) => {
+            const [gradeText, creditText] = line.split(/[\s,;]+/);
+            const grade = gradeText.toUpperCase();
+            const points = grade in GRADE_POINTS ? GRADE_POINTS[grade] : Number(gradeText);
+            const courseCredits = Number(creditText);
+            if (!isFinite(points) || points < 0 || points > 4.3) throw new CalculationError(`Line ${index + 1}: "${gradeText}" is not a valid grade.`, 'courses');
+            if (!isFinite(courseCredits) || courseCredits <= 0) throw new CalculationError(`Line ${index + 1}: enter the credit hours after the grade.`, 'courses');
+            credits += courseCredits;
+            qualityPoints += points * courseCredits;
+        });
+
+        const priorGpa = input.optionalNumber('priorGpa');
+        const priorCredits = input.number('priorCredits');
+        return {
+            outputs: {
+                gpa: qualityPoints / credits,
+                cumulativeGpa: priorGpa === undefined || priorCredits === 0 ? null : (priorGpa * priorCredits + qualityPoints) / (priorCredits + credits),
+                credits,
+                qualityPoints,
+            },
+        };
+    },
+});
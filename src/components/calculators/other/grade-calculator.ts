@@ -0,0 +1,55 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const LETTERS: Array<[number, string]> = [[97, 'A+'], [93, 'A'], [90, 'A-'], [87, 'B+'], [83, 'B'], [80, 'B-'], [77, 'C+'], [73, 'C'], [70, 'C-'], [67, 'D+'], [63, 'D'], [60, 'D-'], [0, 'F']];
+const letterFor = (percent: number) => LETTERS.find(([minimum]) => percent >= minimum)?.[1] ?? 'F';
+
+const isMode = (mode: string) => (values: Record<string, string>) => values.mode === mode;
+
+export const gradeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'Calculation', kind: 'select', options: [
+                { value: 'weighted', label: 'Weighted course grade' },
+                { value: 'final', label: 'Score needed on final exam' },
+            ],
+        },
+        { name: 'assignments', label: 'Graded Work', kind: 'textarea', placeholder: '92, 20\n85, 30\n78, 50', description: 'One item per line: score (%) and weight (%).', visibleWhen: isMode('weighted') },
+        { name: 'currentGrade', label: 'Current Grade', kind: 'percent', min: 0, visibleWhen: isMode('final') },
+        { name: 'targetGrade', label: 'Target Course Grade', kind: 'percent', min: 0, visibleWhen: isMode('final') },
+        { name: 'finalWeight', label: 'Final Exam Weight', kind: 'percent', greaterThan: 0, max: 100, visibleWhen: isMode('final') },
+    ],
+    outputs: [
+        { name: 'grade', label: 'Course Grade', format: 'percent', precision: 2, primary: true },
+        { name: 'required', label: 'Required Final Exam Score', format: 'percent', precision: 2, primary: true },
+        { name: 'letter', label: 'Letter Grade', format: 'text' },
+        { name: 'weightUsed', label: 'Weight Graded So Far', format: 'percent', precision: 2 },
+    ],
+    submitLabel: 'Calculate Grade',
+    compute: (input) => {
+        if (input.string('mode') === 'final') {
+            const weight = input.number('finalWeight') / 100;
+            const required = (input.number('targetGrade') - input.number('currentGrade') * (1 - weight)) / weight;
+            const notes = required > 100 ? ['A score above 100% is needed, so the target may be out of reach.']
+                : required <= 0 ? ['The target is already secured regardless of the final exam.']
+                : undefined;
+            return { outputs: { grade: null, required, letter: null, weightUsed: null }, notes };
+        }
+
+        const lines = input.string('assignments').split('\n').map(line => line.trim()).filter(line => line !== '');
+        if (lines.length === 0) throw new CalculationError('Enter at least one graded item.', 'assignments');
+        let weightTotal = 0;
+        let weighted = 0;
+        lines.forEach((line, index) => {
+            const [score, weight] = line.split(/[\s,;%]+/).filter(part => part !== '').map(Number);
+            if (!isFinite(score) || !isFinite(weight) || weight <= 0) {
+                throw new CalculationError(`Line ${index + 1}: enter a score and a positive weight.`, 'assignments');
+            }
+            weightTotal += weight;
+            weighted += score * weight;
+        });
+
+        const grade = weighted / weightTotal;
+        return { outputs: { grade, required: null, letter: letterFor(grade), weightUsed: weightTotal } };
+    },
+});
@@ -0,0 +1,54 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, MASS, VOLUME, convert, systemUnit, unitLabel } from '@/lib/units';
+
+/** Typical bulk densities in kg/m³. */
+const DENSITIES: Record<string, number> = {
+    crushedStone: 1600,
+    peaGravel: 1520,
+    riverRock: 1450,
+    drySand: 1600,
+    wetSand: 1920,
+    roadBase: 2000,
+};
+
+export const gravelCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'length', label: 'Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'width', label: 'Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'depth', label: 'Depth', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0 },
+        {
+            name: 'material', label: 'Material', kind: 'select', options: [
+                { value: 'crushedStone', label: 'Crushed stone / gravel (1,600 kg/m³)' },
+                { value: 'peaGravel', label: 'Pea gravel (1,520 kg/m³)' },
+                { value: 'riverRock', label: 'River rock (1,450 kg/m³)' },
+                { value: 'drySand', label: 'Sand, dry (1,600 kg/m³)' },
+                { value: 'wetSand', label: 'Sand, wet (1,920 kg/m³)' },
+                { value: 'roadBase', label: 'Crusher run / road base (2,000 kg/m³)' },
+            ],
+        },
+        { name: 'pricePerTon', label: 'Price per Tonne/Ton (optional)', kind: 'currency', min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'volume', label: 'Volume', format: 'number', precision: 2, unit: unitLabel('volume'), primary: true },
+        { name: 'weight', label: 'Weight', format: 'number', precision: 2, unit: unitLabel('heavyMass'), primary: true },
+        { name: 'cost', label: 'Estimated Cost', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Gravel',
+    disclaimer: 'Densities vary with moisture and grading; confirm with your supplier. Imperial weights are US short tons.',
+    compute: (input, { units }) => {
+        const long = LENGTH[systemUnit(units, 'length')];
+        const cubicMetres = input.number('length') * long * input.number('width') * long * input.number('depth') * LENGTH[systemUnit(units, 'shortLength')];
+        const kilograms = cubicMetres * DENSITIES[input.string('material')];
+        const weight = convert(kilograms, 'kg', systemUnit(units, 'heavyMass'), MASS);
+        const price = input.optionalNumber('pricePerTon');
+        return {
+            outputs: {
+                volume: convert(cubicMetres, 'm³', systemUnit(units, 'volume'), VOLUME),
+                weight,
+                cost: price === undefined ? null : weight * price,
+            },
+        };
+    },
+});
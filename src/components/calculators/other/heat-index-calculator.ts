@@ -0,0 +1,41 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { unitLabel } from '@/lib/units';
+import { fromFahrenheit, toFahrenheit } from './weather';
+
+/** NWS heat index: Steadman's simple formula below 80 °F, otherwise the Rothfusz regression with adjustments. */
+function heatIndexF(t: number, rh: number): number {
+    const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+    if ((simple + t) / 2 < 80) return simple;
+
+    let hi = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh - 0.00683783 * t * t
+        - 0.05481717 * rh * rh + 0.00122874 * t * t * rh + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+    if (rh < 13 && t >= 80 && t <= 112) {
+        hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (rh > 85 && t >= 80 && t <= 87) {
+        hi += ((rh - 85) / 10) * ((87 - t) / 5);
+    }
+    return hi;
+}
+
+export const heatIndexCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'temperature', label: 'Air Temperature', kind: 'number', unit: unitLabel('temperature') },
+        { name: 'humidity', label: 'Relative Humidity', kind: 'percent', min: 0, max: 100 },
+    ],
+    outputs: [
+        { name: 'heatIndex', label: 'Heat Index', format: 'number', precision: 1, unit: unitLabel('temperature'), primary: true },
+        { name: 'risk', label: 'Risk Level', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Heat Index',
+    compute: (input, { units }) => {
+        const hi = heatIndexF(toFahrenheit(input.number('temperature'), units), input.number('humidity'));
+        const risk = hi >= 125 ? 'Extreme danger: heat stroke highly likely'
+            : hi >= 103 ? 'Danger: heat cramps and exhaustion likely'
+            : hi >= 90 ? 'Extreme caution: heat exhaustion possible'
+            : hi >= 80 ? 'Caution: fatigue possible with prolonged exposure'
+            : 'No significant heat risk';
+        return { outputs: { heatIndex: fromFahrenheit(hi, units), risk } };
+    },
+});
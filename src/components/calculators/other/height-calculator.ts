@@ -0,0 +1,45 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH } from '@/lib/units';
+
+export const heightCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'from', label: 'Enter Height In', kind: 'select', options: [
+                { value: 'feetInches', label: 'Feet and inches' },
+                { value: 'centimetres', label: 'Centimetres' },
+            ],
+        },
+        { name: 'feet', label: 'Feet', kind: 'integer', min: 0, max: 9, visibleWhen: values => values.from === 'feetInches' },
+        { name: 'inches', label: 'Inches', kind: 'number', min: 0, defaultValue: '0', visibleWhen: values => values.from === 'feetInches' },
+        { name: 'centimetres', label: 'Centimetres', kind: 'number', greaterThan: 0, visibleWhen: values => values.from === 'centimetres' },
+    ],
+    outputs: [
+        { name: 'feetInches', label: 'Feet and Inches', format: 'text', primary: true },
+        { name: 'centimetres', label: 'Centimetres', format: 'number', precision: 1, unit: 'cm', primary: true },
+        { name: 'metres', label: 'Metres', format: 'number', precision: 3, unit: 'm' },
+        { name: 'inches', label: 'Total Inches', format: 'number', precision: 2, unit: 'in' },
+    ],
+    columns: 2,
+    submitLabel: 'Convert Height',
+    compute: (input) => {
+        const metres = input.string('from') === 'feetInches'
+            ? input.number('feet') * LENGTH.ft + input.number('inches') * LENGTH.in
+            : input.number('centimetres') * LENGTH.cm;
+        const totalInches = metres / LENGTH.in;
+        let feet = Math.floor(totalInches / 12);
+        let inches = Math.round((totalInches - feet * 12) * 10) / 10;
+        if (inches >= 12) {
+            feet += 1;
+            inches -= 12;
+        }
+        return {
+            outputs: {
+                feetInches: `${feet}′ ${inches}″`,
+                centimetres: metres / LENGTH.cm,
+                metres,
+                inches: totalInches,
+            },
+        };
+    },
+});
@@ -0,0 +1,30 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { POWER, convert } from '@/lib/units';
+
+/** Torque in lb·ft or N·m, rpm → power. 5252 and 9549 are the unit-system constants for hp and kW. */
+export const horsepowerCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'torque', label: 'Torque', kind: 'number', unit: ({ units }) => (units === 'metric' ? 'N·m' : 'lb·ft'), greaterThan: 0 },
+        { name: 'rpm', label: 'Engine Speed', kind: 'number', unit: 'rpm', greaterThan: 0 },
+    ],
+    outputs: [
+        { name: 'horsepower', label: 'Power', format: 'number', precision: 2, unit: 'hp', primary: true },
+        { name: 'kilowatts', label: 'Power', format: 'number', precision: 2, unit: 'kW', primary: true },
+        { name: 'metricHorsepower', label: 'Power', format: 'number', precision: 2, unit: 'PS' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Horsepower',
+    compute: (input, { units }) => {
+        const torque = input.number('torque');
+        const rpm = input.number('rpm');
+        const kilowatts = units === 'metric' ? (torque * rpm) / 9549 : convert((torque * rpm) / 5252, 'hp', 'kW', POWER);
+        return {
+            outputs: {
+                horsepower: convert(kilowatts, 'kW', 'hp', POWER),
+                kilowatts,
+                metricHorsepower: convert(kilowatts, 'kW', 'PS', POWER),
+            },
+        };
+    },
+});
@@ -0,0 +1,35 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { formatMinutes, parseTimeInput } from './dates';
+
+export const hoursCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'startTime', label: 'Start Time', kind: 'time', defaultValue: '09:00' },
+        { name: 'endTime', label: 'End Time', kind: 'time', defaultValue: '17:00', description: 'An end time before the start time is treated as the next day.' },
+        { name: 'breakMinutes', label: 'Unpaid Break', kind: 'number', unit: 'minutes', min: 0, defaultValue: '0' },
+        { name: 'rate', label: 'Hourly Rate (optional)', kind: 'currency', min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'hours', label: 'Hours Worked', format: 'text', primary: true },
+        { name: 'decimalHours', label: 'Decimal Hours', format: 'number', precision: 2 },
+        { name: 'pay', label: 'Earnings', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Hours',
+    compute: (input) => {
+        const start = parseTimeInput(input.string('startTime'), 'startTime');
+        let end = parseTimeInput(input.string('endTime'), 'endTime');
+        if (end <= start) end += 24 * 60;
+
+        const minutes = end - start - input.number('breakMinutes');
+        if (minutes < 0) throw new CalculationError('Break is longer than the shift.', 'breakMinutes');
+        const rate = input.optionalNumber('rate');
+        return {
+            outputs: {
+                hours: formatMinutes(minutes),
+                decimalHours: minutes / 60,
+                pay: rate === undefined ? null : (minutes / 60) * rate,
+            },
+        };
+    },
+});
@@ -0,0 +1,107 @@
+import type { CalculatorDefinition } from '@/lib/calculator-definition';
+import { ageCalculator } from './age-calculator';
+import { dateCalculator } from './date-calculator';
+import { timeCalculator } from './time-calculator';
+import { hoursCalculator } from './hours-calculator';
+import { gpaCalculator } from './gpa-calculator';
+import { gradeCalculator } from './grade-calculator';
+import { heightCalculator } from './height-calculator';
+import { concreteCalculator } from './concrete-calculator';
+import { ipSubnetCalculator } from './ip-subnet-calculator';
+import { braSizeCalculator } from './bra-size-calculator';
+import { passwordGenerator } from './password-generator';
+import { diceRoller } from './dice-roller';
+import { conversionCalculator } from './conversion-calculator';
+import { fuelCostCalculator } from './fuel-cost-calculator';
+import { voltageDropCalculator } from './voltage-drop-calculator';
+import { btuCalculator } from './btu-calculator';
+import { squareFootageCalculator } from './square-footage-calculator';
+import { timeCardCalculator } from './time-card-calculator';
+import { timeZoneCalculator } from './time-zone-calculator';
+import { loveCalculator } from './love-calculator';
+import { gdpCalculator } from './gdp-calculator';
+import { gasMileageCalculator } from './gas-mileage-calculator';
+import { horsepowerCalculator } from './horsepower-calculator';
+import { engineHorsepowerCalculator } from './engine-horsepower-calculator';
+import { stairCalculator } from './stair-calculator';
+import { resistorCalculator } from './resistor-calculator';
+import { ohmsLawCalculator } from './ohms-law-calculator';
+import { electricityCalculator } from './electricity-calculator';
+import { tipCalculator } from './tip-calculator';
+import { mileageCalculator } from './mileage-calculator';
+import { densityCalculator } from './density-calculator';
+import { massCalculator } from './mass-calculator';
+import { weightCalculator } from './weight-calculator';
+import { speedCalculator } from './speed-calculator';
+import { molarityCalculator } from './molarity-calculator';
+import { molecularWeightCalculator } from './molecular-weight-calculator';
+import { romanNumeralConverter } from './roman-numeral-converter';
+import { golfHandicapCalculator } from './golf-handicap-calculator';
+import { sleepCalculator } from './sleep-calculator';
+import { tireSizeCalculator } from './tire-size-calculator';
+import { roofingCalculator } from './roofing-calculator';
+import { tileCalculator } from './tile-calculator';
+import { mulchCalculator } from './mulch-calculator';
+import { gravelCalculator } from './gravel-calculator';
+import { windChillCalculator } from './wind-chill-calculator';
+import { heatIndexCalculator } from './heat-index-calculator';
+import { dewPointCalculator } from './dew-point-calculator';
+import { bandwidthCalculator } from './bandwidth-calculator';
+import { timeDurationCalculator } from './time-duration-calculator';
+import { dayCounter } from './day-counter';
+import { dayOfTheWeekCalculator } from './day-of-the-week-calculator';
+
+/** Other category calculators keyed by slug. */
+export const OTHER_CALCULATORS: Record<string, CalculatorDefinition> = {
+    'age-calculator': ageCalculator,
+    'date-calculator': dateCalculator,
+    'time-calculator': timeCalculator,
+    'hours-calculator': hoursCalculator,
+    'gpa-calculator': gpaCalculator,
+    'grade-calculator': gradeCalculator,
+    'height-calculator': heightCalculator,
+    'concrete-calculator': concreteCalculator,
+    'ip-subnet-calculator': ipSubnetCalculator,
+    'bra-size-calculator': braSizeCalculator,
+    'password-generator': passwordGenerator,
+    'dice-roller': diceRoller,
+    'conversion-calculator': conversionCalculator,
+    'fuel-cost-calculator': fuelCostCalculator,
+    'voltage-drop-calculator': voltageDropCalculator,
+    'btu-calculator': btuCalculator,
+    'square-footage-calculator': squareFootageCalculator,
+    'time-card-calculator': timeCardCalculator,
+    'time-zone-calculator': timeZoneCalculator,
+    'love-calculator': loveCalculator,
+    'gdp-calculator': gdpCalculator,
+    'gas-mileage-calculator': gasMileageCalculator,
+    'horsepower-calculator': horsepowerCalculator,
+    'engine-horsepower-calculator': engineHorsepowerCalculator,
+    'stair-calculator': stairCalculator,
+    'resistor-calculator': resistorCalculator,
+    'ohms-law-calculator': ohmsLawCalculator,
+    'electricity-calculator': electricityCalculator,
+    'tip-calculator': tipCalculator,
+    'mileage-calculator': mileageCalculator,
+    'density-calculator': densityCalculator,
+    'mass-calculator': massCalculator,
+    'weight-calculator': weightCalculator,
+    'speed-calculator': speedCalculator,
+    'molarity-calculator': molarityCalculator,
+    'molecular-weight-calculator': molecularWeightCalculator,
+    'roman-numeral-converter': romanNumeralConverter,
+    'golf-handicap-calculator': golfHandicapCalculator,
+    'sleep-calculator': sleepCalculator,
+    'tire-size-calculator': tireSizeCalculator,
+    'roofing-calculator': roofingCalculator,
+    'tile-calculator': tileCalculator,
+    'mulch-calculator': mulchCalculator,
+    'gravel-calculator': gravelCalculator,
+    'wind-chill-calculator': windChillCalculator,
+    'heat-index-calculator': heatIndexCalculator,
+    'dew-point-calculator': dewPointCalculator,
+    'bandwidth-calculator': bandwidthCalculator,
+    'time-duration-calculator': timeDurationCalculator,
+    'day-counter': dayCounter,
+    'day-of-the-week-calculator': dayOfTheWeekCalculator,
+};
@@ -0,0 +1,76 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function parseAddress(text: string, field: string): number {
+    const match = text.match(IPV4);
+    const octets = match?.slice(1).map(Number);
+    if (!octets || octets.some(octet => octet > 255)) throw new CalculationError('Enter a valid IPv4 address, e.g. 192.168.1.10.', field);
+    return octets.reduce((acc, octet) => acc * 256 + octet, 0);
+}
+
+const formatAddress = (value: number) => [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+
+function addressClass(firstOctet: number): string {
+    if (firstOctet < 128) return 'A';
+    if (firstOctet < 192) return 'B';
+    if (firstOctet < 224) return 'C';
+    if (firstOctet < 240) return 'D (multicast)';
+    return 'E (reserved)';
+}
+
+function isPrivate(address: number): boolean {
+    const inRange = (base: string, prefix: number) => Math.floor(address / 2 ** (32 - prefix)) === Math.floor(parseAddress(base, 'address') / 2 ** (32 - prefix));
+    return inRange('10.0.0.0', 8) || inRange('172.16.0.0', 12) || inRange('192.168.0.0', 16);
+}
+
+export const ipSubnetCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'address', label: 'IP Address', kind: 'text', placeholder: 'e.g., 192.168.1.10', pattern: { regex: IPV4, message: 'Enter a valid IPv4 address, e.g. 192.168.1.10.' } },
+        { name: 'prefix', label: 'Prefix Length (CIDR)', kind: 'integer', min: 0, max: 32, defaultValue: '24', description: 'e.g., 24 for a 255.255.255.0 mask.' },
+    ],
+    outputs: [
+        { name: 'network', label: 'Network Address', format: 'text', primary: true },
+        { name: 'broadcast', label: 'Broadcast Address', format: 'text' },
+        { name: 'hostRange', label: 'Usable Host Range', format: 'text' },
+        { name: 'usableHosts', label: 'Usable Hosts', format: 'integer', primary: true },
+        { name: 'totalAddresses', label: 'Total Addresses', format: 'integer' },
+        { name: 'mask', label: 'Subnet Mask', format: 'text' },
+        { name: 'wildcard', label: 'Wildcard Mask', format: 'text' },
+        { name: 'cidr', label: 'CIDR Notation', format: 'text' },
+        { name: 'addressClass', label: 'Address Class', format: 'text' },
+        { name: 'type', label: 'Address Type', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Subnet',
+    compute: (input) => {
+        const address = parseAddress(input.string('address'), 'address');
+        const prefix = input.number('prefix');
+        // Work with plain arithmetic: bitwise operators are signed 32-bit in JavaScript
+        const size = 2 ** (32 - prefix);
+        const network = Math.floor(address / size) * size;
+        const broadcast = network + size - 1;
+        const mask = 2 ** 32 - size;
+
+        // /31 point-to-point links (RFC 3021) and /32 host routes have no network/broadcast reservation
+        const usableHosts = prefix >= 31 ? size : size - 2;
+        const firstHost = prefix >= 31 ? network : network + 1;
+        const lastHost = prefix >= 31 ? broadcast : broadcast - 1;
+
+        return {
+            outputs: {
+                network: formatAddress(network),
+                broadcast: formatAddress(broadcast),
+                hostRange: `${formatAddress(firstHost)} – ${formatAddress(lastHost)}`,
+                usableHosts,
+                totalAddresses: size,
+                mask: formatAddress(mask),
+                wildcard: formatAddress(size - 1),
+                cidr: `${formatAddress(network)}/${prefix}`,
+                addressClass: addressClass(Math.floor(address / 2 ** 24)),
+                type: isPrivate(address) ? 'Private (RFC 1918)' : 'Public',
+            },
+        };
+    },
+});
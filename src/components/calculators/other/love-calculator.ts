@@ -0,0 +1,40 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+/** Deterministic FNV-1a hash so the same pair of names always gets the same score. */
+function hash(text: string): number {
+    let value = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        value ^= text.charCodeAt(i);
+        value = Math.imul(value, 0x01000193) >>> 0;
+    }
+    return value;
+}
+
+const MESSAGES: Array<[number, string]> = [
+    [90, 'A match made in the stars!'],
+    [75, 'Great chemistry.'],
+    [50, 'There is definitely something there.'],
+    [25, 'It could grow with time.'],
+    [0, 'Maybe better as friends.'],
+];
+
+export const loveCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'name1', label: 'Your Name', kind: 'text', placeholder: 'e.g., Alex' },
+        { name: 'name2', label: 'Their Name', kind: 'text', placeholder: 'e.g., Sam' },
+    ],
+    outputs: [
+        { name: 'score', label: 'Compatibility', format: 'percent', precision: 0, primary: true },
+        { name: 'message', label: 'Verdict', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Love',
+    disclaimer: 'Just for fun! The score is derived from the letters in the names and means nothing.',
+    compute: (input) => {
+        // Sort the names so the order they are entered in does not matter
+        const names = [input.string('name1'), input.string('name2')].map(name => name.toLowerCase().replace(/\s+/g, '')).sort();
+        const score = hash(names.join('+')) % 101;
+        return { outputs: { score, message: MESSAGES.find(([minimum]) => score >= minimum)![1] } };
+    },
+});
@@ -0,0 +1,50 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { MASS, VOLUME, convert } from '@/lib/units';
+
+/** Densities in kg/m³ at room temperature. */
+const MATERIALS: Record<string, { label: string; density: number }> = {
+    water: { label: 'Water', density: 1000 },
+    steel: { label: 'Steel', density: 7850 },
+    aluminum: { label: 'Aluminum', density: 2700 },
+    copper: { label: 'Copper', density: 8960 },
+    concrete: { label: 'Concrete', density: 2400 },
+    glass: { label: 'Glass', density: 2500 },
+    pine: { label: 'Pine (dry)', density: 510 },
+    oak: { label: 'Oak (dry)', density: 750 },
+    gold: { label: 'Gold', density: 19320 },
+    gasoline: { label: 'Gasoline', density: 745 },
+    custom: { label: 'Custom density', density: 0 },
+};
+
+const UNITS = {
+    metric: { volume: 'm³', mass: 'kg', density: 'kg/m³' },
+    imperial: { volume: 'ft³', mass: 'lb', density: 'lb/ft³' },
+};
+
+export const massCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'material', label: 'Material', kind: 'select', options: Object.entries(MATERIALS).map(([value, { label, density }]) => ({ value, label: density ? `${label} (${density.toLocaleString()} kg/m³)` : label })) },
+        { name: 'density', label: 'Density', kind: 'number', unit: ({ units }) => UNITS[units].density, greaterThan: 0, visibleWhen: values => values.material === 'custom' },
+        { name: 'volume', label: 'Volume', kind: 'number', unit: ({ units }) => UNITS[units].volume, greaterThan: 0 },
+    ],
+    outputs: [
+        { name: 'mass', label: 'Mass', format: 'number', precision: 4, unit: ({ units }) => UNITS[units].mass, primary: true },
+        { name: 'otherMass', label: 'Also', format: 'text' },
+    ],
+    submitLabel: 'Calculate Mass',
+    compute: (input, { units }) => {
+        const { volume: volumeUnit, mass: massUnit } = UNITS[units];
+        const material = input.string('material');
+        const kgPerM3 = material === 'custom'
+            ? convert(input.number('density'), massUnit, 'kg', MASS) / convert(1, volumeUnit, 'm³', VOLUME)
+            : MATERIALS[material].density;
+        const kilograms = kgPerM3 * convert(input.number('volume'), volumeUnit, 'm³', VOLUME);
+        return {
+            outputs: {
+                mass: convert(kilograms, 'kg', massUnit, MASS),
+                otherMass: units === 'metric' ? `${convert(kilograms, 'kg', 'lb', MASS).toFixed(3)} lb` : `${kilograms.toFixed(3)} kg`,
+            },
+        };
+    },
+});
@@ -0,0 +1,34 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, convert, systemUnit, unitLabel } from '@/lib/units';
+
+export const mileageCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'startOdometer', label: 'Starting Odometer', kind: 'number', unit: unitLabel('distance'), min: 0 },
+        { name: 'endOdometer', label: 'Ending Odometer', kind: 'number', unit: unitLabel('distance'), min: 0 },
+        { name: 'trips', label: 'Number of Trips', kind: 'integer', min: 1, defaultValue: '1', description: 'Multiply the distance for repeated identical trips.' },
+        { name: 'rate', label: 'Reimbursement Rate (optional)', kind: 'currency', unit: ({ units }) => (units === 'metric' ? 'per km' : 'per mile'), min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'distance', label: 'Distance Travelled', format: 'number', precision: 1, unit: unitLabel('distance'), primary: true },
+        { name: 'otherDistance', label: 'Also', format: 'text' },
+        { name: 'reimbursement', label: 'Reimbursement', format: 'currency', primary: true },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Mileage',
+    compute: (input, { units }) => {
+        const trip = input.number('endOdometer') - input.number('startOdometer');
+        if (trip < 0) throw new CalculationError('Ending odometer must be at least the starting reading.', 'endOdometer');
+        const distance = trip * input.number('trips');
+        const unit = systemUnit(units, 'distance');
+        const other = unit === 'km' ? 'mi' : 'km';
+        const rate = input.optionalNumber('rate');
+        return {
+            outputs: {
+                distance,
+                otherDistance: `${convert(distance, unit, other, LENGTH).toFixed(1)} ${other}`,
+                reimbursement: rate === undefined ? null : distance * rate,
+            },
+        };
+    },
+});
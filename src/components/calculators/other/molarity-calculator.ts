@@ -0,0 +1,48 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const solves = (target: string) => (values: Record<string, string>) => values.solveFor !== target;
+
+/** Molarity M = mass / (molar mass × volume), solved for any one quantity. */
+export const molarityCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'solveFor', label: 'Solve For', kind: 'select', options: [
+                { value: 'molarity', label: 'Molarity' },
+                { value: 'mass', label: 'Mass of solute' },
+                { value: 'volume', label: 'Volume of solution' },
+            ],
+        },
+        { name: 'mass', label: 'Mass of Solute', kind: 'number', unit: 'g', greaterThan: 0, visibleWhen: solves('mass') },
+        { name: 'molarMass', label: 'Molar Mass', kind: 'number', unit: 'g/mol', greaterThan: 0, placeholder: 'e.g., 58.44 for NaCl' },
+        { name: 'volume', label: 'Volume of Solution', kind: 'number', unit: 'mL', greaterThan: 0, visibleWhen: solves('volume') },
+        { name: 'molarity', label: 'Molarity', kind: 'number', unit: 'mol/L', greaterThan: 0, visibleWhen: solves('molarity') },
+    ],
+    outputs: [
+        { name: 'molarity', label: 'Molarity', format: 'number', precision: 6, unit: 'mol/L', primary: true },
+        { name: 'mass', label: 'Mass of Solute', format: 'number', precision: 6, unit: 'g', primary: true },
+        { name: 'volume', label: 'Volume of Solution', format: 'number', precision: 4, unit: 'mL', primary: true },
+        { name: 'moles', label: 'Moles of Solute', format: 'number', precision: 6, unit: 'mol' },
+    ],
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        const solveFor = input.string('solveFor');
+        const molarMass = input.number('molarMass');
+        let mass = input.number('mass');
+        let litres = input.number('volume') / 1000;
+        let molarity = input.number('molarity');
+
+        if (solveFor === 'molarity') molarity = mass / molarMass / litres;
+        if (solveFor === 'mass') mass = molarity * litres * molarMass;
+        if (solveFor === 'volume') litres = mass / molarMass / molarity;
+
+        return {
+            outputs: {
+                molarity: solveFor === 'molarity' ? molarity : null,
+                mass: solveFor === 'mass' ? mass : null,
+                volume: solveFor === 'volume' ? litres * 1000 : null,
+                moles: mass / molarMass,
+            },
+        };
+    },
+});
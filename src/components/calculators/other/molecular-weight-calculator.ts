@@ -0,0 +1,115 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+/** IUPAC 2021 abridged standard atomic weights; mass numbers of the most stable isotope for elements without one. */
+const ATOMIC_WEIGHTS: Record<string, number> = {
+    H: 1.008, He: 4.0026, Li: 6.94, Be: 9.0122, B: 10.81, C: 12.011, N: 14.007, O: 15.999, F: 18.998, Ne: 20.18,
+    Na: 22.99, Mg: 24.305, Al: 26.982, Si: 28.085, P: 30.974, S: 32.06, Cl: 35.45, Ar: 39.95, K: 39.098, Ca: 40.078,
+    Sc: 44.956, Ti: 47.867, V: 50.942, Cr: 51.996, Mn: 54.938, Fe: 55.845, Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38,
+    Ga: 69.723, Ge: 72.63, As: 74.922, Se: 78.971, Br: 79.904, Kr: 83.798, Rb: 85.468, Sr: 87.62, Y: 88.906, Zr: 91.224,
+    Nb: 92.906, Mo: 95.95, Tc: 98, Ru: 101.07, Rh: 102.91, Pd: 106.42, Ag: 107.87, Cd: 112.41, In: 114.82, Sn: 118.71,
+    Sb: 121.76, Te: 127.6, I: 126.9, Xe: 131.29, Cs: 132.91, Ba: 137.33, La: 138.91, Ce: 140.12, Pr: 140.91, Nd: 144.24,
+    Pm: 145, Sm: 150.36, Eu: 151.96, Gd: 157.25, Tb: 158.93, Dy: 162.5, Ho: 164.93, Er: 167.26, Tm: 168.93, Yb: 173.05,
+    Lu: 174.97, Hf: 178.49, Ta: 180.95, W: 183.84, Re: 186.21, Os: 190.23, Ir: 192.22, Pt: 195.08, Au: 196.97, Hg: 200.59,
+    Tl: 204.38, Pb: 207.2, Bi: 208.98, Po: 209, At: 210, Rn: 222, Fr: 223, Ra: 226, Ac: 227, Th: 232.04,
+    Pa: 231.04, U: 238.03, Np: 237, Pu: 244, Am: 243, Cm: 247, Bk: 247, Cf: 251, Es: 252, Fm: 257,
+    Md: 258, No: 259, Lr: 262, Rf: 267, Db: 268, Sg: 269, Bh: 270, Hs: 269, Mt: 278, Ds: 281,
+    Rg: 282, Cn: 285, Nh: 286, Fl: 289, Mc: 289, Lv: 293, Ts: 294, Og: 294,
+};
+
+type Composition = Map<string, number>;
+
+function merge(target: Composition, source: Composition, multiplier: number) {
+    source.forEach((count, element) => target.set(element, (target.get(element) ?? 0) + count * multiplier));
+}
+
+/**
+ * Parses formulas such as `C6H12O6`, `Ca(OH)2`, `K4[Fe(CN)6]` and hydrates like
+ * `CuSO4·5H2O` (also written with `.` or `*`) into element counts.
+ */
+function parseFormula(formula: string): Composition {
+    const parts = formula.split(/[·.*]/);
+    const total: Composition = new Map();
+
+    for (const part of parts) {
+        const coefficient = part.match(/^\d+/)?.[0];
+        const body = coefficient ? part.slice(coefficient.length) : part;
+        let index = 0;
+
+        const readNumber = () => {
+            const digits = body.slice(index).match(/^\d+/)?.[0];
+            index += digits?.length ?? 0;
+            return digits ? Number(digits) : 1;
+        };
+
+        const parseGroup = (closing?: string): Composition => {
+            const group: Composition = new Map();
+            while (index < body.length) {
+                const char = body[index];
+                if (char === '(' || char === '[') {
+                    index++;
+                    const inner = parseGroup(char === '(' ? ')' : ']');
+                    merge(group, inner, readNumber());
+                } else if (char === ')' || char === ']') {
+                    if (char !== closing) throw new CalculationError(`Unexpected "${char}" in formula.`, 'formula');
+                    index++;
+                    return group;
+                } else {
+                    const symbol = body.slice(index).match(/^[A-Z][a-z]?/)?.[0];
+                    if (!symbol) throw new CalculationError(`Unexpected "${char}" in formula.`, 'formula');
+                    if (!(symbol in ATOMIC_WEIGHTS)) throw new CalculationError(`Unknown element "${symbol}".`, 'formula');
+                    index += symbol.length;
+                    merge(group, new Map([[symbol, 1]]), readNumber());
+                }
+            }
+            if (closing) throw new CalculationError(`Missing "${closing}" in formula.`, 'formula');
+            return group;
+        };
+
+        if (body === '') throw new CalculationError('Formula is incomplete.', 'formula');
+        merge(total, parseGroup(), coefficient ? Number(coefficient) : 1);
+    }
+    return total;
+}
+
+export const molecularWeightCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'formula', label: 'Chemical Formula', kind: 'text', placeholder: 'e.g., C6H12O6 or CuSO4·5H2O', description: 'Element symbols are case-sensitive; use parentheses for groups.' },
+    ],
+    outputs: [
+        { name: 'molecularWeight', label: 'Molar Mass', format: 'number', precision: 4, unit: 'g/mol', primary: true },
+        { name: 'atoms', label: 'Total Atoms', format: 'integer' },
+    ],
+    tables: [
+        {
+            name: 'composition', title: 'Composition by Element', columns: [
+                { key: 'element', label: 'Element', format: 'text' },
+                { key: 'count', label: 'Atoms', format: 'integer' },
+                { key: 'atomicWeight', label: 'Atomic Weight', format: 'number', precision: 4 },
+                { key: 'mass', label: 'Mass (g/mol)', format: 'number', precision: 4 },
+                { key: 'percent', label: 'Mass %', format: 'percent', precision: 3 },
+            ],
+        },
+    ],
+    submitLabel: 'Calculate Molar Mass',
+    compute: (input) => {
+        const composition = parseFormula(input.string('formula').replace(/\s/g, ''));
+        const entries = [...composition.entries()];
+        const molecularWeight = entries.reduce((acc, [element, count]) => acc + ATOMIC_WEIGHTS[element] * count, 0);
+        return {
+            outputs: {
+                molecularWeight,
+                atoms: entries.reduce((acc, [, count]) => acc + count, 0),
+            },
+            tables: {
+                composition: entries.map(([element, count]) => ({
+                    element,
+                    count,
+                    atomicWeight: ATOMIC_WEIGHTS[element],
+                    mass: ATOMIC_WEIGHTS[element] * count,
+                    percent: ((ATOMIC_WEIGHTS[element] * count) / molecularWeight) * 100,
+                })),
+            },
+        };
+    },
+});
@@ -0,0 +1,36 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, VOLUME, convert, systemUnit, unitLabel } from '@/lib/units';
+
+/** Common bagged mulch sizes: 2 ft³ bags in the US, 50 L bags elsewhere. */
+const BAG_VOLUME_M3 = { metric: 0.05, imperial: convert(2, 'ft³', 'm³', VOLUME) };
+const BAG_LABEL = { metric: '50 L bags', imperial: '2 ft³ bags' };
+
+export const mulchCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'length', label: 'Bed Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'width', label: 'Bed Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'depth', label: 'Mulch Depth', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, description: ({ units }) => (units === 'metric' ? '5–8 cm is typical.' : '2–3 in is typical.') },
+        { name: 'pricePerBag', label: 'Price per Bag (optional)', kind: 'currency', min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'volume', label: 'Mulch Needed', format: 'number', precision: 2, unit: unitLabel('volume'), primary: true },
+        { name: 'bags', label: 'Bags', format: 'text' },
+        { name: 'cost', label: 'Estimated Cost', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Mulch',
+    compute: (input, { units }) => {
+        const long = LENGTH[systemUnit(units, 'length')];
+        const cubicMetres = input.number('length') * long * input.number('width') * long * input.number('depth') * LENGTH[systemUnit(units, 'shortLength')];
+        const bags = Math.ceil(cubicMetres / BAG_VOLUME_M3[units]);
+        const price = input.optionalNumber('pricePerBag');
+        return {
+            outputs: {
+                volume: convert(cubicMetres, 'm³', systemUnit(units, 'volume'), VOLUME),
+                bags: `${bags} × ${BAG_LABEL[units]}`,
+                cost: price === undefined ? null : bags * price,
+            },
+        };
+    },
+});
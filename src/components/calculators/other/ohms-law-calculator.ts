@@ -0,0 +1,48 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const PAIRS = [
+    { value: 'VI', label: 'Voltage and current' },
+    { value: 'VR', label: 'Voltage and resistance' },
+    { value: 'IR', label: 'Current and resistance' },
+    { value: 'PV', label: 'Power and voltage' },
+    { value: 'PI', label: 'Power and current' },
+    { value: 'PR', label: 'Power and resistance' },
+];
+
+const knows = (quantity: string) => (values: Record<string, string>) => values.known.includes(quantity);
+
+/** Solves V = I·R and P = V·I from any two known quantities. */
+export const ohmsLawCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'known', label: 'Known Values', kind: 'select', options: PAIRS },
+        { name: 'voltage', label: 'Voltage (V)', kind: 'number', unit: 'V', greaterThan: 0, visibleWhen: knows('V') },
+        { name: 'current', label: 'Current (I)', kind: 'number', unit: 'A', greaterThan: 0, visibleWhen: knows('I') },
+        { name: 'resistance', label: 'Resistance (R)', kind: 'number', unit: 'Ω', greaterThan: 0, visibleWhen: knows('R') },
+        { name: 'power', label: 'Power (P)', kind: 'number', unit: 'W', greaterThan: 0, visibleWhen: knows('P') },
+    ],
+    outputs: [
+        { name: 'voltage', label: 'Voltage', format: 'number', precision: 4, unit: 'V', primary: true },
+        { name: 'current', label: 'Current', format: 'number', precision: 4, unit: 'A', primary: true },
+        { name: 'resistance', label: 'Resistance', format: 'number', precision: 4, unit: 'Ω', primary: true },
+        { name: 'power', label: 'Power', format: 'number', precision: 4, unit: 'W', primary: true },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate',
+    compute: (input) => {
+        let v = input.number('voltage');
+        let i = input.number('current');
+        let r = input.number('resistance');
+        const p = input.number('power');
+
+        switch (input.string('known')) {
+            case 'VI': r = v / i; break;
+            case 'VR': i = v / r; break;
+            case 'IR': v = i * r; break;
+            case 'PV': i = p / v; r = v / i; break;
+            case 'PI': v = p / i; r = v / i; break;
+            default: i = Math.sqrt(p / r); v = i * r;
+        }
+        return { outputs: { voltage: v, current: i, resistance: r, power: v * i } };
+    },
+});
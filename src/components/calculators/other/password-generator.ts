@@ -0,0 +1,71 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const CHARACTER_SETS: Record<string, string> = {
+    lowercase: 'abcdefghijklmnopqrstuvwxyz',
+    uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+    numbers: '0123456789',
+    symbols: '!@#$%^&*()-_=+[]{};:,.<>?',
+};
+const AMBIGUOUS = /[Il1O0o]/g;
+
+const YES_NO = [
+    { value: 'yes', label: 'Yes' },
+    { value: 'no', label: 'No' },
+];
+
+/** Unbiased random index using the Web Crypto API (rejection sampling). */
+function randomIndex(max: number): number {
+    const limit = Math.floor(0x100000000 / max) * max;
+    const buffer = new Uint32Array(1);
+    do {
+        crypto.getRandomValues(buffer);
+    } while (buffer[0] >= limit);
+    return buffer[0] % max;
+}
+
+function strengthLabel(bits: number): string {
+    if (bits < 40) return 'Weak';
+    if (bits < 60) return 'Fair';
+    if (bits < 80) return 'Strong';
+    return 'Very strong';
+}
+
+export const passwordGenerator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'length', label: 'Password Length', kind: 'integer', min: 4, max: 128, defaultValue: '16' },
+        { name: 'lowercase', label: 'Lowercase Letters', kind: 'select', options: YES_NO },
+        { name: 'uppercase', label: 'Uppercase Letters', kind: 'select', options: YES_NO },
+        { name: 'numbers', label: 'Numbers', kind: 'select', options: YES_NO },
+        { name: 'symbols', label: 'Symbols', kind: 'select', options: YES_NO },
+        { name: 'excludeAmbiguous', label: 'Exclude Look-alikes (I, l, 1, O, 0)', kind: 'select', options: YES_NO, defaultValue: 'no' },
+    ],
+    outputs: [
+        { name: 'password', label: 'Password', format: 'text', primary: true, secret: true },
+        { name: 'entropy', label: 'Entropy', format: 'number', precision: 1, unit: 'bits' },
+        { name: 'strength', label: 'Strength', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Generate Password',
+    disclaimer: 'Passwords are generated in your browser and are not sent anywhere. History keeps only the options used, never the password itself.',
+    compute: (input) => {
+        const excludeAmbiguous = input.string('excludeAmbiguous') === 'yes';
+        const sets = Object.keys(CHARACTER_SETS)
+            .filter(name => input.string(name) === 'yes')
+            .map(name => (excludeAmbiguous ? CHARACTER_SETS[name].replace(AMBIGUOUS, '') : CHARACTER_SETS[name]));
+        if (sets.length === 0) throw new CalculationError('Select at least one character type.', 'lowercase');
+
+        const length = input.number('length');
+        const pool = sets.join('');
+        // Guarantee one character from each selected set, then fill and shuffle
+        const characters = sets.map(set => set[randomIndex(set.length)]);
+        while (characters.length < length) characters.push(pool[randomIndex(pool.length)]);
+        for (let i = characters.length - 1; i > 0; i--) {
+            const j = randomIndex(i + 1);
+            [characters[i], characters[j]] = [characters[j], characters[i]];
+        }
+
+        const entropy = length * Math.log2(pool.length);
+        return { outputs: { password: characters.join(''), entropy, strength: strengthLabel(entropy) } };
+    },
+});
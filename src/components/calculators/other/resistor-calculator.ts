@@ -0,0 +1,60 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const DIGIT_COLORS = ['Black', 'Brown', 'Red', 'Orange', 'Yellow', 'Green', 'Blue', 'Violet', 'Grey', 'White'];
+
+const MULTIPLIERS: Record<string, number> = {
+    black: 1, brown: 10, red: 100, orange: 1e3, yellow: 1e4, green: 1e5, blue: 1e6, violet: 1e7, grey: 1e8, white: 1e9, gold: 0.1, silver: 0.01,
+};
+
+const TOLERANCES: Record<string, number> = {
+    brown: 1, red: 2, green: 0.5, blue: 0.25, violet: 0.1, grey: 0.05, gold: 5, silver: 10, none: 20,
+};
+
+const digitOptions = DIGIT_COLORS.map((color, digit) => ({ value: String(digit), label: `${color} (${digit})` }));
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function formatOhms(value: number): string {
+    const prefixes: Array<[number, string]> = [[1e9, 'G'], [1e6, 'M'], [1e3, 'k']];
+    for (const [size, prefix] of prefixes) {
+        if (value >= size) return `${Number((value / size).toPrecision(6))} ${prefix}Ω`;
+    }
+    return `${Number(value.toPrecision(6))} Ω`;
+}
+
+export const resistorCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'bands', label: 'Number of Bands', kind: 'select', options: [
+                { value: '4', label: '4 bands' },
+                { value: '5', label: '5 bands' },
+            ],
+        },
+        { name: 'digit1', label: '1st Band', kind: 'select', options: digitOptions.slice(1), defaultValue: '1' },
+        { name: 'digit2', label: '2nd Band', kind: 'select', options: digitOptions },
+        { name: 'digit3', label: '3rd Band', kind: 'select', options: digitOptions, visibleWhen: values => values.bands === '5' },
+        { name: 'multiplier', label: 'Multiplier', kind: 'select', options: Object.entries(MULTIPLIERS).map(([color, factor]) => ({ value: color, label: `${capitalize(color)} (×${factor})` })), defaultValue: 'red' },
+        { name: 'tolerance', label: 'Tolerance', kind: 'select', options: Object.entries(TOLERANCES).map(([color, percent]) => ({ value: color, label: `${capitalize(color)} (±${percent}%)` })), defaultValue: 'gold' },
+    ],
+    outputs: [
+        { name: 'resistance', label: 'Resistance', format: 'text', primary: true },
+        { name: 'tolerance', label: 'Tolerance', format: 'text' },
+        { name: 'range', label: 'Range', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Decode Resistor',
+    compute: (input) => {
+        const digits = [input.string('digit1'), input.string('digit2')];
+        if (input.string('bands') === '5') digits.push(input.string('digit3'));
+        const ohms = Number(digits.join('')) * MULTIPLIERS[input.string('multiplier')];
+        const tolerance = TOLERANCES[input.string('tolerance')];
+        const spread = (ohms * tolerance) / 100;
+        return {
+            outputs: {
+                resistance: formatOhms(ohms),
+                tolerance: `±${tolerance}%`,
+                range: `${formatOhms(ohms - spread)} – ${formatOhms(ohms + spread)}`,
+            },
+        };
+    },
+});
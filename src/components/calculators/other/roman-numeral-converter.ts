@@ -0,0 +1,57 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+
+const NUMERALS: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+function toRoman(value: number): string {
+    let remaining = value;
+    let result = '';
+    for (const [amount, numeral] of NUMERALS) {
+        while (remaining >= amount) {
+            result += numeral;
+            remaining -= amount;
+        }
+    }
+    return result;
+}
+
+function fromRoman(text: string): number | null {
+    let index = 0;
+    let value = 0;
+    for (const [amount, numeral] of NUMERALS) {
+        while (text.startsWith(numeral, index)) {
+            value += amount;
+            index += numeral.length;
+        }
+    }
+    // Reject non-canonical forms such as IIII or VX by round-tripping
+    return index === text.length && value > 0 && toRoman(value) === text ? value : null;
+}
+
+export const romanNumeralConverter = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'direction', label: 'Convert', kind: 'select', options: [
+                { value: 'toRoman', label: 'Number → Roman numerals' },
+                { value: 'fromRoman', label: 'Roman numerals → number' },
+            ],
+        },
+        { name: 'number', label: 'Number', kind: 'integer', min: 1, max: 3999, visibleWhen: values => values.direction === 'toRoman' },
+        { name: 'roman', label: 'Roman Numerals', kind: 'text', placeholder: 'e.g., MMXXIV', visibleWhen: values => values.direction === 'fromRoman' },
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'text', primary: true },
+    ],
+    submitLabel: 'Convert',
+    compute: (input) => {
+        if (input.string('direction') === 'toRoman') {
+            return { outputs: { result: toRoman(input.number('number')) } };
+        }
+        const value = fromRoman(input.string('roman').toUpperCase());
+        if (value === null) throw new CalculationError('Enter valid Roman numerals (I, V, X, L, C, D, M) in standard form.', 'roman');
+        return { outputs: { result: String(value) } };
+    },
+});
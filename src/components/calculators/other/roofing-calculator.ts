@@ -0,0 +1,47 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { AREA, LENGTH, convert, systemUnit, unitLabel } from '@/lib/units';
+
+/** A roofing "square" is 100 ft²; three-tab and architectural shingles come three bundles to the square. */
+const SQUARE_FT2 = 100;
+const BUNDLES_PER_SQUARE = 3;
+
+export const roofingCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'length', label: 'Building Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0, description: 'Footprint measured at the eaves, including overhang.' },
+        { name: 'width', label: 'Building Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'pitch', label: 'Roof Pitch', kind: 'number', unit: 'in 12', min: 0, max: 24, defaultValue: '6', description: 'Rise per 12 units of run, e.g. 6 for a 6/12 roof.' },
+        { name: 'waste', label: 'Waste Allowance', kind: 'percent', min: 0, max: 50, defaultValue: '10', description: '10% for gable roofs, 15% or more for hips and valleys.' },
+        { name: 'pricePerSquare', label: 'Price per Square (optional)', kind: 'currency', min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'roofArea', label: 'Roof Surface Area', format: 'number', precision: 1, unit: unitLabel('area'), primary: true },
+        { name: 'squares', label: 'Roofing Squares (100 ft²)', format: 'number', precision: 2 },
+        { name: 'bundles', label: 'Shingle Bundles', format: 'integer', primary: true },
+        { name: 'pitchFactor', label: 'Pitch Multiplier', format: 'number', precision: 4 },
+        { name: 'angle', label: 'Roof Angle', format: 'number', precision: 1, unit: '°' },
+        { name: 'cost', label: 'Estimated Cost', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Roofing',
+    compute: (input, { units }) => {
+        const long = LENGTH[systemUnit(units, 'length')];
+        const footprintM2 = input.number('length') * long * input.number('width') * long;
+        const pitch = input.number('pitch');
+        const pitchFactor = Math.sqrt(12 * 12 + pitch * pitch) / 12;
+        const roofM2 = footprintM2 * pitchFactor * (1 + input.number('waste') / 100);
+
+        const squares = convert(roofM2, 'm²', 'ft²', AREA) / SQUARE_FT2;
+        const price = input.optionalNumber('pricePerSquare');
+        return {
+            outputs: {
+                roofArea: convert(roofM2, 'm²', systemUnit(units, 'area'), AREA),
+                squares,
+                bundles: Math.ceil(squares * BUNDLES_PER_SQUARE),
+                pitchFactor,
+                angle: (Math.atan(pitch / 12) * 180) / Math.PI,
+                cost: price === undefined ? null : Math.ceil(squares) * price,
+            },
+        };
+    },
+});
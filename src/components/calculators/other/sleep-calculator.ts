@@ -0,0 +1,58 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { parseTimeInput } from './dates';
+
+/** A sleep cycle lasts about 90 minutes; most people take about 15 minutes to fall asleep. */
+const CYCLE_MINUTES = 90;
+const CYCLE_COUNTS = [6, 5, 4, 3];
+
+function formatClock(totalMinutes: number): string {
+    const minutes = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+    const hours = Math.floor(minutes / 60);
+    const suffix = hours < 12 ? 'AM' : 'PM';
+    return `${hours % 12 === 0 ? 12 : hours % 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+export const sleepCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'mode', label: 'I Want To', kind: 'select', options: [
+                { value: 'wake', label: 'Wake up at…' },
+                { value: 'sleep', label: 'Go to bed at…' },
+            ],
+        },
+        { name: 'time', label: 'Time', kind: 'time', defaultValue: '07:00' },
+        { name: 'fallAsleep', label: 'Time to Fall Asleep', kind: 'number', unit: 'minutes', min: 0, max: 120, defaultValue: '15' },
+    ],
+    outputs: [
+        { name: 'recommended', label: 'Recommended', format: 'text', primary: true },
+    ],
+    tables: [
+        {
+            name: 'options', title: 'Options by Sleep Cycles', columns: [
+                { key: 'cycles', label: 'Cycles', format: 'integer' },
+                { key: 'sleep', label: 'Hours of Sleep', format: 'number', precision: 1 },
+                { key: 'time', label: 'Time', format: 'text' },
+            ],
+        },
+    ],
+    submitLabel: 'Calculate Sleep Times',
+    compute: (input) => {
+        const time = parseTimeInput(input.string('time'), 'time');
+        const fallAsleep = input.number('fallAsleep');
+        const wake = input.string('mode') === 'wake';
+
+        const options = CYCLE_COUNTS.map(cycles => {
+            const sleepMinutes = cycles * CYCLE_MINUTES;
+            const target = wake ? time - sleepMinutes - fallAsleep : time + fallAsleep + sleepMinutes;
+            return { cycles, sleep: sleepMinutes / 60, time: formatClock(target) };
+        });
+
+        return {
+            outputs: {
+                recommended: `${wake ? 'Go to bed at' : 'Wake up at'} ${options[0].time} or ${options[1].time}`,
+            },
+            tables: { options },
+        };
+    },
+});
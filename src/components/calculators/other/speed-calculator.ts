@@ -0,0 +1,63 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, SPEED, convert, systemUnit, unitLabel } from '@/lib/units';
+
+const solves = (target: string) => (values: Record<string, string>) => values.solveFor !== target;
+
+function formatDuration(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${hours}h ${minutes}m ${seconds.toFixed(1)}s`;
+}
+
+export const speedCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'solveFor', label: 'Solve For', kind: 'select', options: [
+                { value: 'speed', label: 'Speed' },
+                { value: 'distance', label: 'Distance' },
+                { value: 'time', label: 'Time' },
+            ],
+        },
+        { name: 'distance', label: 'Distance', kind: 'number', unit: unitLabel('distance'), greaterThan: 0, visibleWhen: solves('distance') },
+        { name: 'speed', label: 'Speed', kind: 'number', unit: unitLabel('speed'), greaterThan: 0, visibleWhen: solves('speed') },
+        { name: 'hours', label: 'Hours', kind: 'number', min: 0, defaultValue: '0', visibleWhen: solves('time') },
+        { name: 'minutes', label: 'Minutes', kind: 'number', min: 0, defaultValue: '0', visibleWhen: solves('time') },
+        { name: 'seconds', label: 'Seconds', kind: 'number', min: 0, defaultValue: '0', visibleWhen: solves('time') },
+    ],
+    outputs: [
+        { name: 'speed', label: 'Speed', format: 'number', precision: 3, unit: unitLabel('speed'), primary: true },
+        { name: 'distance', label: 'Distance', format: 'number', precision: 3, unit: unitLabel('distance'), primary: true },
+        { name: 'time', label: 'Time', format: 'text', primary: true },
+        { name: 'metresPerSecond', label: 'Speed', format: 'number', precision: 3, unit: 'm/s' },
+        { name: 'pace', label: 'Pace', format: 'text' },
+    ],
+    columns: 3,
+    submitLabel: 'Calculate',
+    compute: (input, { units }) => {
+        const distanceUnit = systemUnit(units, 'distance');
+        const speedUnit = systemUnit(units, 'speed');
+        const solveFor = input.string('solveFor');
+
+        let metres = input.number('distance') * LENGTH[distanceUnit];
+        let metresPerSecond = input.number('speed') * SPEED[speedUnit];
+        let seconds = input.number('hours') * 3600 + input.number('minutes') * 60 + input.number('seconds');
+
+        if (solveFor === 'speed' && seconds === 0) throw new CalculationError('Time must be greater than zero.', 'hours');
+        if (solveFor === 'speed') metresPerSecond = metres / seconds;
+        if (solveFor === 'distance') metres = metresPerSecond * seconds;
+        if (solveFor === 'time') seconds = metres / metresPerSecond;
+
+        const paceSeconds = LENGTH[distanceUnit] / metresPerSecond;
+        return {
+            outputs: {
+                speed: solveFor === 'speed' ? convert(metresPerSecond, 'm/s', speedUnit, SPEED) : null,
+                distance: solveFor === 'distance' ? metres / LENGTH[distanceUnit] : null,
+                time: solveFor === 'time' ? formatDuration(seconds) : null,
+                metresPerSecond,
+                pace: isFinite(paceSeconds) ? `${formatDuration(paceSeconds)} per ${distanceUnit}` : null,
+            },
+        };
+    },
+});
@@ -0,0 +1,60 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { AREA, LENGTH, convert, systemUnit, unitLabel } from '@/lib/units';
+
+const isShape = (...shapes: string[]) => (values: Record<string, string>) => shapes.includes(values.shape);
+
+export const squareFootageCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'shape', label: 'Shape', kind: 'select', options: [
+                { value: 'rectangle', label: 'Rectangle / Square' },
+                { value: 'circle', label: 'Circle' },
+                { value: 'triangle', label: 'Triangle' },
+                { value: 'trapezoid', label: 'Trapezoid' },
+            ],
+        },
+        { name: 'length', label: 'Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('rectangle') },
+        { name: 'width', label: 'Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('rectangle') },
+        { name: 'diameter', label: 'Diameter', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('circle') },
+        { name: 'base', label: 'Base', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('triangle') },
+        { name: 'side1', label: 'Parallel Side 1', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('trapezoid') },
+        { name: 'side2', label: 'Parallel Side 2', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('trapezoid') },
+        { name: 'height', label: 'Height', kind: 'number', unit: unitLabel('length'), greaterThan: 0, visibleWhen: isShape('triangle', 'trapezoid') },
+        { name: 'quantity', label: 'Quantity', kind: 'integer', min: 1, defaultValue: '1' },
+        { name: 'pricePerUnit', label: 'Price per Unit Area (optional)', kind: 'currency', min: 0, optional: true },
+    ],
+    outputs: [
+        { name: 'squareFeet', label: 'Square Feet', format: 'number', precision: 2, unit: 'ft²', primary: true },
+        { name: 'squareMetres', label: 'Square Metres', format: 'number', precision: 2, unit: 'm²', primary: true },
+        { name: 'squareYards', label: 'Square Yards', format: 'number', precision: 2, unit: 'yd²' },
+        { name: 'acres', label: 'Acres', format: 'number', precision: 4, unit: 'ac' },
+        { name: 'cost', label: 'Estimated Cost', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Area',
+    compute: (input, { units }) => {
+        const unit = systemUnit(units, 'length');
+        const m = (name: string) => input.number(name) * LENGTH[unit];
+
+        let areaM2: number;
+        switch (input.string('shape')) {
+            case 'rectangle': areaM2 = m('length') * m('width'); break;
+            case 'circle': areaM2 = Math.PI * Math.pow(m('diameter') / 2, 2); break;
+            case 'triangle': areaM2 = (m('base') * m('height')) / 2; break;
+            default: areaM2 = ((m('side1') + m('side2')) / 2) * m('height');
+        }
+        areaM2 *= input.number('quantity');
+
+        const price = input.optionalNumber('pricePerUnit');
+        return {
+            outputs: {
+                squareFeet: convert(areaM2, 'm²', 'ft²', AREA),
+                squareMetres: areaM2,
+                squareYards: convert(areaM2, 'm²', 'yd²', AREA),
+                acres: convert(areaM2, 'm²', 'ac', AREA),
+                cost: price === undefined ? null : convert(areaM2, 'm²', systemUnit(units, 'area'), AREA) * price,
+            },
+        };
+    },
+});
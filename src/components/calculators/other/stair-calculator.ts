@@ -0,0 +1,59 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, systemUnit, unitLabel } from '@/lib/units';
+
+/** IRC R311.7.5: risers at most 7¾ in, treads at least 10 in. */
+const MAX_RISER_M = 7.75 * LENGTH.in;
+const MIN_TREAD_M = 10 * LENGTH.in;
+/** Comfort rule of thumb: 2 × riser + tread ≈ 25 in (63.5 cm). */
+const STEP_LENGTH_M = 25 * LENGTH.in;
+
+export const stairCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'totalRise', label: 'Total Rise (Floor to Floor)', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0 },
+        { name: 'targetRiser', label: 'Target Riser Height', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, placeholder: 'e.g., 7 in or 18 cm', optional: true, description: 'Leave blank to use 7 in (17.8 cm).' },
+        { name: 'tread', label: 'Tread Depth (optional)', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0, optional: true, description: 'Leave blank to size treads with the 2R + T = 25 in comfort rule.' },
+    ],
+    outputs: [
+        { name: 'risers', label: 'Number of Risers', format: 'integer', primary: true },
+        { name: 'treads', label: 'Number of Treads', format: 'integer' },
+        { name: 'riserHeight', label: 'Riser Height', format: 'number', precision: 2, unit: unitLabel('shortLength'), primary: true },
+        { name: 'treadDepth', label: 'Tread Depth', format: 'number', precision: 2, unit: unitLabel('shortLength') },
+        { name: 'totalRun', label: 'Total Run', format: 'number', precision: 2, unit: unitLabel('shortLength') },
+        { name: 'stringer', label: 'Stringer Length', format: 'number', precision: 2, unit: unitLabel('shortLength') },
+        { name: 'angle', label: 'Stair Angle', format: 'number', precision: 1, unit: '°' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Stairs',
+    disclaimer: 'Code checks use the US International Residential Code; confirm against your local building code.',
+    compute: (input, { units }) => {
+        const unit = LENGTH[systemUnit(units, 'shortLength')];
+        const totalRise = input.number('totalRise') * unit;
+        const target = (input.optionalNumber('targetRiser') ?? 0) * unit || 7 * LENGTH.in;
+        if (target > totalRise) throw new CalculationError('Target riser height cannot exceed the total rise.', 'targetRiser');
+
+        const risers = Math.max(1, Math.round(totalRise / target));
+        const riserHeight = totalRise / risers;
+        const treadInput = input.optionalNumber('tread');
+        const treadDepth = treadInput !== undefined ? treadInput * unit : Math.max(MIN_TREAD_M, STEP_LENGTH_M - 2 * riserHeight);
+        const treads = risers - 1;
+        const totalRun = treads * treadDepth;
+
+        const notes: string[] = [];
+        if (riserHeight > MAX_RISER_M) notes.push('Riser height exceeds the 7¾ in (19.7 cm) code maximum; add a riser.');
+        if (treadDepth < MIN_TREAD_M) notes.push('Tread depth is below the 10 in (25.4 cm) code minimum.');
+
+        return {
+            outputs: {
+                risers,
+                treads,
+                riserHeight: riserHeight / unit,
+                treadDepth: treadDepth / unit,
+                totalRun: totalRun / unit,
+                stringer: Math.hypot(totalRun, totalRise) / unit,
+                angle: (Math.atan(riserHeight / treadDepth) * 180) / Math.PI,
+            },
+            notes,
+        };
+    },
+});
@@ -0,0 +1,45 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { AREA, LENGTH, convert, systemUnit, unitLabel } from '@/lib/units';
+
+export const tileCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'areaLength', label: 'Area Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'areaWidth', label: 'Area Width', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+        { name: 'tileLength', label: 'Tile Length', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0 },
+        { name: 'tileWidth', label: 'Tile Width', kind: 'number', unit: unitLabel('shortLength'), greaterThan: 0 },
+        { name: 'grout', label: 'Grout Joint', kind: 'number', unit: ({ units }) => (units === 'metric' ? 'mm' : 'in'), min: 0, defaultValue: '0', description: ({ units }) => (units === 'metric' ? 'e.g., 3 mm' : 'e.g., 0.125 in') },
+        { name: 'waste', label: 'Waste Allowance', kind: 'percent', min: 0, max: 50, defaultValue: '10' },
+        { name: 'tilesPerBox', label: 'Tiles per Box (optional)', kind: 'integer', min: 1, optional: true },
+        { name: 'pricePerBox', label: 'Price per Box (optional)', kind: 'currency', min: 0, optional: true, visibleWhen: values => values.tilesPerBox.trim() !== '' },
+    ],
+    outputs: [
+        { name: 'tiles', label: 'Tiles Needed', format: 'integer', primary: true },
+        { name: 'area', label: 'Area to Cover', format: 'number', precision: 2, unit: unitLabel('area') },
+        { name: 'boxes', label: 'Boxes', format: 'integer' },
+        { name: 'cost', label: 'Estimated Cost', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Tiles',
+    compute: (input, { units }) => {
+        const long = LENGTH[systemUnit(units, 'length')];
+        const short = LENGTH[systemUnit(units, 'shortLength')];
+        const groutM = input.number('grout') * (units === 'metric' ? LENGTH.mm : LENGTH.in);
+        const areaM2 = input.number('areaLength') * long * input.number('areaWidth') * long;
+        // Each tile effectively covers its own size plus one grout joint in each direction
+        const tileM2 = (input.number('tileLength') * short + groutM) * (input.number('tileWidth') * short + groutM);
+        const tiles = Math.ceil((areaM2 / tileM2) * (1 + input.number('waste') / 100));
+
+        const perBox = input.optionalNumber('tilesPerBox');
+        const boxes = perBox === undefined ? null : Math.ceil(tiles / perBox);
+        const price = input.optionalNumber('pricePerBox');
+        return {
+            outputs: {
+                tiles,
+                area: convert(areaM2, 'm²', systemUnit(units, 'area'), AREA),
+                boxes,
+                cost: boxes === null || price === undefined ? null : boxes * price,
+            },
+        };
+    },
+});
@@ -0,0 +1,51 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+const durationInputs = (prefix: string, label: string) => ['days', 'hours', 'minutes', 'seconds'].map(unit => ({
+    name: `${prefix}${unit.charAt(0).toUpperCase()}${unit.slice(1)}`,
+    label: `${label} ${unit.charAt(0).toUpperCase()}${unit.slice(1)}`,
+    kind: 'number' as const,
+    min: 0,
+    defaultValue: '0',
+}));
+
+export const timeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        ...durationInputs('first', 'First'),
+        {
+            name: 'operation', label: 'Operation', kind: 'select', options: [
+                { value: 'add', label: 'Add (+)' },
+                { value: 'subtract', label: 'Subtract (−)' },
+            ],
+        },
+        ...durationInputs('second', 'Second'),
+    ],
+    outputs: [
+        { name: 'result', label: 'Result', format: 'text', primary: true },
+        { name: 'totalHours', label: 'Total Hours', format: 'number', precision: 4 },
+        { name: 'totalMinutes', label: 'Total Minutes', format: 'number', precision: 2 },
+        { name: 'totalSeconds', label: 'Total Seconds', format: 'number', precision: 2 },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Time',
+    compute: (input) => {
+        const seconds = (prefix: string) => input.number(`${prefix}Days`) * 86400 + input.number(`${prefix}Hours`) * 3600
+            + input.number(`${prefix}Minutes`) * 60 + input.number(`${prefix}Seconds`);
+        const sign = input.string('operation') === 'add' ? 1 : -1;
+        const total = seconds('first') + sign * seconds('second');
+
+        const magnitude = Math.abs(total);
+        const days = Math.floor(magnitude / 86400);
+        const hours = Math.floor((magnitude % 86400) / 3600);
+        const minutes = Math.floor((magnitude % 3600) / 60);
+        const remainder = Number((magnitude % 60).toFixed(3));
+        return {
+            outputs: {
+                result: `${total < 0 ? '−' : ''}${days}d ${hours}h ${minutes}m ${remainder}s`,
+                totalHours: total / 3600,
+                totalMinutes: total / 60,
+                totalSeconds: total,
+            },
+        };
+    },
+});
@@ -0,0 +1,68 @@
+import { CalculationError, defineCalculator } from '@/lib/calculator-definition';
+import { formatMinutes, parseTimeInput } from './dates';
+
+/**
+ * Weekly time card. Each line is "start end [break minutes]" for one day,
+ * e.g. "08:30 17:00 30". Hours beyond the weekly threshold are overtime.
+ */
+export const timeCardCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'entries', label: 'Daily Entries', kind: 'textarea', placeholder: '08:30 17:00 30\n09:00 17:30 45', description: 'One day per line: start time, end time and optional unpaid break in minutes.' },
+        { name: 'rate', label: 'Hourly Rate (optional)', kind: 'currency', min: 0, optional: true },
+        { name: 'overtimeAfter', label: 'Overtime After', kind: 'number', unit: 'hours/week', min: 0, defaultValue: '40' },
+        { name: 'overtimeMultiplier', label: 'Overtime Multiplier', kind: 'number', min: 1, defaultValue: '1.5' },
+    ],
+    outputs: [
+        { name: 'totalHours', label: 'Total Hours', format: 'text', primary: true },
+        { name: 'decimalHours', label: 'Decimal Hours', format: 'number', precision: 2 },
+        { name: 'regularHours', label: 'Regular Hours', format: 'number', precision: 2 },
+        { name: 'overtimeHours', label: 'Overtime Hours', format: 'number', precision: 2 },
+        { name: 'pay', label: 'Total Pay', format: 'currency', primary: true },
+    ],
+    tables: [
+        {
+            name: 'days', title: 'Daily Breakdown', columns: [
+                { key: 'day', label: 'Day', format: 'integer' },
+                { key: 'start', label: 'Start', format: 'text' },
+                { key: 'end', label: 'End', format: 'text' },
+                { key: 'breakMinutes', label: 'Break (min)', format: 'integer' },
+                { key: 'hours', label: 'Hours', format: 'number', precision: 2 },
+            ],
+        },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Time Card',
+    compute: (input) => {
+        const lines = input.string('entries').split('\n').map(line => line.trim()).filter(line => line !== '');
+        if (lines.length === 0) throw new CalculationError('Enter at least one day.', 'entries');
+
+        const days = lines.map((line, index) => {
+            const [start, end, breakText = '0'] = line.split(/[\s,]+/);
+            const startMinutes = parseTimeInput(start ?? '', 'entries');
+            let endMinutes = parseTimeInput(end ?? '', 'entries');
+            if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+            const breakMinutes = Number(breakText);
+            if (!isFinite(breakMinutes) || breakMinutes < 0) throw new CalculationError(`Line ${index + 1}: break must be a number of minutes.`, 'entries');
+            const minutes = endMinutes - startMinutes - breakMinutes;
+            if (minutes < 0) throw new CalculationError(`Line ${index + 1}: break is longer than the shift.`, 'entries');
+            return { day: index + 1, start, end, breakMinutes, hours: minutes / 60 };
+        });
+
+        const totalHours = days.reduce((acc, day) => acc + day.hours, 0);
+        const regularHours = Math.min(totalHours, input.number('overtimeAfter'));
+        const overtimeHours = totalHours - regularHours;
+        const rate = input.optionalNumber('rate');
+
+        return {
+            outputs: {
+                totalHours: formatMinutes(totalHours * 60),
+                decimalHours: totalHours,
+                regularHours,
+                overtimeHours,
+                pay: rate === undefined ? null : rate * (regularHours + overtimeHours * input.number('overtimeMultiplier')),
+            },
+            tables: { days },
+        };
+    },
+});
@@ -0,0 +1,43 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { parseDateInput, parseTimeInput } from './dates';
+
+export const timeDurationCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'startDate', label: 'Start Date', kind: 'date' },
+        { name: 'startTime', label: 'Start Time', kind: 'time', defaultValue: '00:00' },
+        { name: 'endDate', label: 'End Date', kind: 'date' },
+        { name: 'endTime', label: 'End Time', kind: 'time', defaultValue: '00:00' },
+    ],
+    outputs: [
+        { name: 'duration', label: 'Duration', format: 'text', primary: true },
+        { name: 'totalHours', label: 'Total Hours', format: 'number', precision: 2 },
+        { name: 'totalMinutes', label: 'Total Minutes', format: 'integer' },
+        { name: 'totalSeconds', label: 'Total Seconds', format: 'integer' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Duration',
+    compute: (input) => {
+        const at = (dateField: string, timeField: string) => {
+            const date = parseDateInput(input.string(dateField), dateField);
+            const minutes = parseTimeInput(input.string(timeField), timeField);
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(minutes / 60), minutes % 60);
+        };
+        const start = at('startDate', 'startTime');
+        const end = at('endDate', 'endTime');
+        const totalMinutes = Math.round(Math.abs(end.getTime() - start.getTime()) / 60000);
+
+        const days = Math.floor(totalMinutes / 1440);
+        const hours = Math.floor((totalMinutes % 1440) / 60);
+        const minutes = totalMinutes % 60;
+        return {
+            outputs: {
+                duration: `${days} days, ${hours} hours, ${minutes} minutes`,
+                totalHours: totalMinutes / 60,
+                totalMinutes,
+                totalSeconds: totalMinutes * 60,
+            },
+            notes: end < start ? ['The end is before the start; the duration is shown as a positive value.'] : undefined,
+        };
+    },
+});
@@ -0,0 +1,103 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { parseDateInput, parseTimeInput } from './dates';
+
+const TIME_ZONES = [
+    { value: 'UTC', label: 'UTC' },
+    { value: 'America/Los_Angeles', label: 'Los Angeles (Pacific)' },
+    { value: 'America/Denver', label: 'Denver (Mountain)' },
+    { value: 'America/Phoenix', label: 'Phoenix (Arizona)' },
+    { value: 'America/Chicago', label: 'Chicago (Central)' },
+    { value: 'America/New_York', label: 'New York (Eastern)' },
+    { value: 'America/Halifax', label: 'Halifax (Atlantic)' },
+    { value: 'America/Anchorage', label: 'Anchorage (Alaska)' },
+    { value: 'Pacific/Honolulu', label: 'Honolulu (Hawaii)' },
+    { value: 'America/Toronto', label: 'Toronto' },
+    { value: 'America/Vancouver', label: 'Vancouver' },
+    { value: 'America/Mexico_City', label: 'Mexico City' },
+    { value: 'America/Sao_Paulo', label: 'São Paulo' },
+    { value: 'America/Argentina/Buenos_Aires', label: 'Buenos Aires' },
+    { value: 'Europe/London', label: 'London' },
+    { value: 'Europe/Dublin', label: 'Dublin' },
+    { value: 'Europe/Paris', label: 'Paris' },
+    { value: 'Europe/Berlin', label: 'Berlin' },
+    { value: 'Europe/Madrid', label: 'Madrid' },
+    { value: 'Europe/Athens', label: 'Athens' },
+    { value: 'Europe/Moscow', label: 'Moscow' },
+    { value: 'Africa/Cairo', label: 'Cairo' },
+    { value: 'Africa/Johannesburg', label: 'Johannesburg' },
+    { value: 'Africa/Lagos', label: 'Lagos' },
+    { value: 'Asia/Dubai', label: 'Dubai' },
+    { value: 'Asia/Karachi', label: 'Karachi' },
+    { value: 'Asia/Kolkata', label: 'India (Kolkata)' },
+    { value: 'Asia/Dhaka', label: 'Dhaka' },
+    { value: 'Asia/Bangkok', label: 'Bangkok' },
+    { value: 'Asia/Singapore', label: 'Singapore' },
+    { value: 'Asia/Shanghai', label: 'China (Shanghai)' },
+    { value: 'Asia/Hong_Kong', label: 'Hong Kong' },
+    { value: 'Asia/Tokyo', label: 'Tokyo' },
+    { value: 'Asia/Seoul', label: 'Seoul' },
+    { value: 'Australia/Perth', label: 'Perth' },
+    { value: 'Australia/Adelaide', label: 'Adelaide' },
+    { value: 'Australia/Sydney', label: 'Sydney' },
+    { value: 'Pacific/Auckland', label: 'Auckland' },
+];
+
+/** Offset of `timeZone` from UTC at the given instant, in minutes. */
+function zoneOffsetMinutes(instant: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return Math.round((wallClock - instant) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? '−' : '+';
+    const magnitude = Math.abs(minutes);
+    return `UTC${sign}${String(Math.floor(magnitude / 60)).padStart(2, '0')}:${String(magnitude % 60).padStart(2, '0')}`;
+}
+
+export const timeZoneCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'date', label: 'Date', kind: 'date' },
+        { name: 'time', label: 'Time', kind: 'time', defaultValue: '09:00' },
+        { name: 'fromZone', label: 'From Time Zone', kind: 'select', options: TIME_ZONES, defaultValue: 'America/New_York' },
+        { name: 'toZone', label: 'To Time Zone', kind: 'select', options: TIME_ZONES, defaultValue: 'Europe/London' },
+    ],
+    outputs: [
+        { name: 'converted', label: 'Converted Time', format: 'text', primary: true },
+        { name: 'fromOffset', label: 'From Offset', format: 'text' },
+        { name: 'toOffset', label: 'To Offset', format: 'text' },
+        { name: 'difference', label: 'Time Difference', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Convert Time',
+    disclaimer: 'Daylight saving rules come from your browser’s time zone database.',
+    compute: (input) => {
+        const date = parseDateInput(input.string('date'), 'date');
+        const minutes = parseTimeInput(input.string('time'), 'time');
+        const fromZone = input.string('fromZone');
+        const toZone = input.string('toZone');
+
+        // Treat the entered wall-clock time as UTC, then correct by the source offset (twice, to settle DST transitions)
+        const wallClock = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(minutes / 60), minutes % 60);
+        let instant = wallClock - zoneOffsetMinutes(wallClock, fromZone) * 60000;
+        instant = wallClock - zoneOffsetMinutes(instant, fromZone) * 60000;
+
+        const fromOffset = zoneOffsetMinutes(instant, fromZone);
+        const toOffset = zoneOffsetMinutes(instant, toZone);
+        const converted = new Intl.DateTimeFormat('en-US', { timeZone: toZone, dateStyle: 'full', timeStyle: 'short' }).format(new Date(instant));
+        const difference = (toOffset - fromOffset) / 60;
+
+        return {
+            outputs: {
+                converted,
+                fromOffset: formatOffset(fromOffset),
+                toOffset: formatOffset(toOffset),
+                difference: `${difference >= 0 ? '+' : '−'}${Math.abs(difference)} hours`,
+            },
+        };
+    },
+});
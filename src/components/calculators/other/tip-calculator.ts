@@ -0,0 +1,37 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+
+export const tipCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'bill', label: 'Bill Amount', kind: 'currency', greaterThan: 0 },
+        { name: 'tipPercent', label: 'Tip', kind: 'percent', min: 0, defaultValue: '15' },
+        { name: 'people', label: 'Split Between', kind: 'integer', min: 1, defaultValue: '1', unit: 'people' },
+        {
+            name: 'roundUp', label: 'Round Each Share', kind: 'select', options: [
+                { value: 'no', label: 'No rounding' },
+                { value: 'yes', label: 'Round up to a whole amount' },
+            ],
+        },
+    ],
+    outputs: [
+        { name: 'tip', label: 'Tip Amount', format: 'currency' },
+        { name: 'total', label: 'Total Bill', format: 'currency', primary: true },
+        { name: 'perPerson', label: 'Per Person', format: 'currency', primary: true },
+        { name: 'tipPerPerson', label: 'Tip per Person', format: 'currency' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Tip',
+    compute: (input) => {
+        const bill = input.number('bill');
+        const people = input.number('people');
+        let tip = bill * (input.number('tipPercent') / 100);
+        let perPerson = (bill + tip) / people;
+
+        if (input.string('roundUp') === 'yes') {
+            // Rounding only ever increases the tip
+            perPerson = Math.ceil(perPerson);
+            tip = perPerson * people - bill;
+        }
+        return { outputs: { tip, total: bill + tip, perPerson, tipPerPerson: tip / people } };
+    },
+});
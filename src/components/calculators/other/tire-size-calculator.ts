@@ -0,0 +1,82 @@
+import { defineCalculator, type TableRow } from '@/lib/calculator-definition';
+import { LENGTH } from '@/lib/units';
+
+interface Tire {
+    width: number;
+    diameter: number;
+    sidewall: number;
+    circumference: number;
+    revolutions: number;
+}
+
+/** Metric tire dimensions from a P-metric size such as 225/45R17, all in millimetres. */
+function tireDimensions(width: number, aspectRatio: number, rim: number): Tire {
+    const sidewall = width * (aspectRatio / 100);
+    const diameter = rim * 25.4 + 2 * sidewall;
+    const circumference = Math.PI * diameter;
+    return { width, diameter, sidewall, circumference, revolutions: 1e6 / circumference };
+}
+
+const tireInputs = (prefix: string, label: string, defaults: [string, string, string]) => [
+    { name: `${prefix}Width`, label: `${label} Width`, kind: 'number' as const, unit: 'mm', greaterThan: 0, defaultValue: defaults[0] },
+    { name: `${prefix}Aspect`, label: `${label} Aspect Ratio`, kind: 'number' as const, unit: '%', greaterThan: 0, max: 100, defaultValue: defaults[1] },
+    { name: `${prefix}Rim`, label: `${label} Rim Diameter`, kind: 'number' as const, unit: 'in', greaterThan: 0, defaultValue: defaults[2] },
+];
+
+export const tireSizeCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        ...tireInputs('current', 'Current', ['225', '45', '17']),
+        ...tireInputs('new', 'New', ['235', '40', '18']),
+    ],
+    outputs: [
+        { name: 'difference', label: 'Diameter Difference', format: 'percent', precision: 2, primary: true },
+        { name: 'speedometer', label: 'Actual Speed When Speedometer Reads', format: 'text', primary: true },
+    ],
+    tables: [
+        {
+            name: 'comparison', title: 'Tire Comparison', columns: [
+                { key: 'measure', label: 'Measurement', format: 'text' },
+                { key: 'current', label: 'Current', format: 'text' },
+                { key: 'new', label: 'New', format: 'text' },
+                { key: 'difference', label: 'Difference', format: 'text' },
+            ],
+        },
+    ],
+    columns: 3,
+    submitLabel: 'Compare Tires',
+    compute: (input, { units }) => {
+        const current = tireDimensions(input.number('currentWidth'), input.number('currentAspect'), input.number('currentRim'));
+        const next = tireDimensions(input.number('newWidth'), input.number('newAspect'), input.number('newRim'));
+        const ratio = next.diameter / current.diameter;
+
+        const metric = units === 'metric';
+        const length = (mm: number) => (metric ? `${mm.toFixed(1)} mm` : `${(mm / 25.4).toFixed(2)} in`);
+        const revolutions = (perKm: number) => (metric ? `${perKm.toFixed(1)} /km` : `${(perKm * LENGTH.mi / LENGTH.km).toFixed(1)} /mi`);
+        const row = (measure: string, key: keyof Tire, format: (value: number) => string): TableRow => ({
+            measure,
+            current: format(current[key]),
+            new: format(next[key]),
+            difference: `${next[key] - current[key] >= 0 ? '+' : '−'}${format(Math.abs(next[key] - current[key]))}`,
+        });
+
+        const reading = metric ? 100 : 60;
+        const speedUnit = metric ? 'km/h' : 'mph';
+        return {
+            outputs: {
+                difference: (ratio - 1) * 100,
+                speedometer: `${reading} ${speedUnit} → ${(reading * ratio).toFixed(1)} ${speedUnit}`,
+            },
+            tables: {
+                comparison: [
+                    row('Overall Diameter', 'diameter', length),
+                    row('Section Width', 'width', length),
+                    row('Sidewall Height', 'sidewall', length),
+                    row('Circumference', 'circumference', length),
+                    row('Revolutions', 'revolutions', revolutions),
+                ],
+            },
+            notes: Math.abs(ratio - 1) > 0.03 ? ['Diameter differs by more than 3%, which may affect ABS, stability control and speedometer accuracy.'] : undefined,
+        };
+    },
+});
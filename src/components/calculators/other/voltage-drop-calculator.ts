@@ -0,0 +1,91 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { LENGTH, systemUnit, unitLabel } from '@/lib/units';
+
+/**
+ * Conductor cross-sections in mm². AWG sizes follow the ASTM B258 table;
+ * metric sizes are IEC 60228 nominal areas.
+ */
+const WIRE_SIZES: Array<{ value: string; label: string; area: number }> = [
+    { value: 'awg14', label: '14 AWG', area: 2.08 },
+    { value: 'awg12', label: '12 AWG', area: 3.31 },
+    { value: 'awg10', label: '10 AWG', area: 5.26 },
+    { value: 'awg8', label: '8 AWG', area: 8.37 },
+    { value: 'awg6', label: '6 AWG', area: 13.3 },
+    { value: 'awg4', label: '4 AWG', area: 21.2 },
+    { value: 'awg3', label: '3 AWG', area: 26.7 },
+    { value: 'awg2', label: '2 AWG', area: 33.6 },
+    { value: 'awg1', label: '1 AWG', area: 42.4 },
+    { value: 'awg1/0', label: '1/0 AWG', area: 53.5 },
+    { value: 'awg2/0', label: '2/0 AWG', area: 67.4 },
+    { value: 'awg3/0', label: '3/0 AWG', area: 85.0 },
+    { value: 'awg4/0', label: '4/0 AWG', area: 107.2 },
+    { value: 'mm1.5', label: '1.5 mm²', area: 1.5 },
+    { value: 'mm2.5', label: '2.5 mm²', area: 2.5 },
+    { value: 'mm4', label: '4 mm²', area: 4 },
+    { value: 'mm6', label: '6 mm²', area: 6 },
+    { value: 'mm10', label: '10 mm²', area: 10 },
+    { value: 'mm16', label: '16 mm²', area: 16 },
+    { value: 'mm25', label: '25 mm²', area: 25 },
+    { value: 'mm35', label: '35 mm²', area: 35 },
+    { value: 'mm50', label: '50 mm²', area: 50 },
+    { value: 'mm70', label: '70 mm²', area: 70 },
+    { value: 'mm95', label: '95 mm²', area: 95 },
+    { value: 'mm120', label: '120 mm²', area: 120 },
+];
+
+/** Resistivity in Ω·mm²/m at a 75 °C conductor temperature (NEC K of 12.9 and 21.2 Ω·cmil/ft). */
+const RESISTIVITY: Record<string, number> = {
+    copper: 0.02144,
+    aluminum: 0.03524,
+};
+
+/** Recommended maximum drop for a branch circuit (NEC 210.19 informational note). */
+const RECOMMENDED_MAX_PERCENT = 3;
+
+export const voltageDropCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        {
+            name: 'material', label: 'Conductor', kind: 'select', options: [
+                { value: 'copper', label: 'Copper' },
+                { value: 'aluminum', label: 'Aluminum' },
+            ],
+        },
+        { name: 'size', label: 'Wire Size', kind: 'select', options: WIRE_SIZES.map(({ value, label, area }) => ({ value, label: value.startsWith('awg') ? `${label} (${area} mm²)` : label })) },
+        {
+            name: 'phase', label: 'System', kind: 'select', options: [
+                { value: 'single', label: 'Single-phase / DC' },
+                { value: 'three', label: 'Three-phase' },
+            ],
+        },
+        { name: 'voltage', label: 'Source Voltage', kind: 'number', unit: 'V', greaterThan: 0, defaultValue: '120' },
+        { name: 'current', label: 'Load Current', kind: 'number', unit: 'A', greaterThan: 0 },
+        { name: 'length', label: 'One-way Cable Length', kind: 'number', unit: unitLabel('length'), greaterThan: 0 },
+    ],
+    outputs: [
+        { name: 'drop', label: 'Voltage Drop', format: 'number', precision: 2, unit: 'V', primary: true },
+        { name: 'percent', label: 'Voltage Drop', format: 'percent', precision: 2, primary: true },
+        { name: 'loadVoltage', label: 'Voltage at Load', format: 'number', precision: 2, unit: 'V' },
+        { name: 'resistance', label: 'Conductor Resistance (one way)', format: 'number', precision: 4, unit: 'Ω' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Voltage Drop',
+    disclaimer: 'Uses DC resistance at 75 °C; reactance of large conductors on AC is ignored. Always verify against your local electrical code.',
+    compute: (input, { units }) => {
+        const size = WIRE_SIZES.find(wire => wire.value === input.string('size')) ?? WIRE_SIZES[0];
+        const lengthM = input.number('length') * LENGTH[systemUnit(units, 'length')];
+        const resistance = (RESISTIVITY[input.string('material')] * lengthM) / size.area;
+        // Current flows out and back on single-phase; line-to-line drop on balanced three-phase
+        const multiplier = input.string('phase') === 'three' ? Math.sqrt(3) : 2;
+        const voltage = input.number('voltage');
+        const drop = multiplier * input.number('current') * resistance;
+        const percent = (drop / voltage) * 100;
+
+        return {
+            outputs: { drop, percent, loadVoltage: voltage - drop, resistance },
+            notes: [percent > RECOMMENDED_MAX_PERCENT
+                ? `Above the recommended ${RECOMMENDED_MAX_PERCENT}% maximum; consider a larger conductor.`
+                : `Within the recommended ${RECOMMENDED_MAX_PERCENT}% maximum.`],
+        };
+    },
+});
@@ -0,0 +1,12 @@
+import type { Units } from '@/lib/calculator-definition';
+import { convertTemperature } from '@/lib/units';
+
+/** Reads a temperature entered in the user's system as °F (the NWS formulas are defined in °F). */
+export function toFahrenheit(value: number, units: Units): number {
+    return units === 'metric' ? convertTemperature(value, '°C', '°F') : value;
+}
+
+/** Converts a °F result back to the user's system. */
+export function fromFahrenheit(value: number, units: Units): number {
+    return units === 'metric' ? convertTemperature(value, '°F', '°C') : value;
+}
@@ -0,0 +1,50 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { unitLabel } from '@/lib/units';
+
+/** Surface gravity relative to Earth (NASA planetary fact sheets). */
+const BODIES: Array<[string, number]> = [
+    ['Mercury', 0.378],
+    ['Venus', 0.907],
+    ['Earth', 1],
+    ['Moon', 0.166],
+    ['Mars', 0.377],
+    ['Jupiter', 2.36],
+    ['Saturn', 0.916],
+    ['Uranus', 0.889],
+    ['Neptune', 1.12],
+    ['Pluto', 0.071],
+];
+const EARTH_GRAVITY = 9.80665;
+
+export const weightCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'weight', label: 'Weight on Earth', kind: 'number', unit: unitLabel('mass'), greaterThan: 0 },
+    ],
+    outputs: [
+        { name: 'moon', label: 'Weight on the Moon', format: 'number', precision: 2, unit: unitLabel('mass'), primary: true },
+        { name: 'mars', label: 'Weight on Mars', format: 'number', precision: 2, unit: unitLabel('mass') },
+    ],
+    tables: [
+        {
+            name: 'bodies', title: 'Weight Across the Solar System', columns: [
+                { key: 'body', label: 'Body', format: 'text' },
+                { key: 'gravity', label: 'Gravity (m/s²)', format: 'number', precision: 2 },
+                { key: 'relative', label: 'Relative to Earth', format: 'number', precision: 3 },
+                { key: 'weight', label: ({ units }) => `Weight (${units === 'metric' ? 'kg' : 'lb'})`, format: 'number', precision: 2 },
+            ],
+        },
+    ],
+    submitLabel: 'Calculate Weight',
+    compute: (input) => {
+        const weight = input.number('weight');
+        const rows = BODIES.map(([body, relative]) => ({ body, gravity: relative * EARTH_GRAVITY, relative, weight: weight * relative }));
+        return {
+            outputs: {
+                moon: weight * BODIES.find(([body]) => body === 'Moon')![1],
+                mars: weight * BODIES.find(([body]) => body === 'Mars')![1],
+            },
+            tables: { bodies: rows },
+        };
+    },
+});
@@ -0,0 +1,39 @@
+import { defineCalculator } from '@/lib/calculator-definition';
+import { SPEED, convert, systemUnit, unitLabel } from '@/lib/units';
+import { fromFahrenheit, toFahrenheit } from './weather';
+
+/** NWS (2001) wind chill index, valid at or below 50 °F with wind of at least 3 mph. */
+export const windChillCalculator = defineCalculator({
+    version: 1,
+    inputs: [
+        { name: 'temperature', label: 'Air Temperature', kind: 'number', unit: unitLabel('temperature') },
+        { name: 'windSpeed', label: 'Wind Speed', kind: 'number', unit: unitLabel('speed'), min: 0 },
+    ],
+    outputs: [
+        { name: 'windChill', label: 'Wind Chill', format: 'number', precision: 1, unit: unitLabel('temperature'), primary: true },
+        { name: 'frostbite', label: 'Frostbite Risk', format: 'text' },
+    ],
+    columns: 2,
+    submitLabel: 'Calculate Wind Chill',
+    compute: (input, { units }) => {
+        const t = toFahrenheit(input.number('temperature'), units);
+        const v = convert(input.number('windSpeed'), systemUnit(units, 'speed'), 'mph', SPEED);
+        const notes: string[] = [];
+
+        let chill = t;
+        if (t > 50 || v < 3) {
+            notes.push('Wind chill is only defined at or below 50 °F (10 °C) with wind of at least 3 mph (4.8 km/h); the air temperature is shown.');
+        } else {
+            const factor = Math.pow(v, 0.16);
+            chill = 35.74 + 0.6215 * t - 35.75 * factor + 0.4275 * t * factor;
+        }
+
+        // NWS frostbite guidance thresholds
+        const frostbite = chill <= -48 ? 'High: exposed skin can freeze in 5 minutes or less'
+            : chill <= -32 ? 'Moderate: exposed skin can freeze in 10 minutes'
+            : chill <= -18 ? 'Low: exposed skin can freeze in 30 minutes'
+            : 'Minimal';
+
+        return { outputs: { windChill: fromFahrenheit(chill, units), frostbite }, notes };
+    },
+});
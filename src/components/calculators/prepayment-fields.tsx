@@ -0,0 +1,122 @@
+'use client';
+
+import * as React from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import type { CurrencyData } from '@/lib/constants';
+import type { PrepaymentPlan, PrepaymentResult } from '@/lib/finance';
+
+const optionalAmount = (message: string) =>
+    z.string().refine(val => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), { message }).optional().default('');
+
+/** Form fields for extra payments, spread into a loan calculator's schema. */
+export const prepaymentSchemaShape = {
+    extraMonthly: optionalAmount('Extra monthly payment must be zero or positive.'),
+    extraAnnual: optionalAmount('Extra annual payment must be zero or positive.'),
+    lumpSums: z.array(z.object({
+        month: z.string().refine(val => Number.isInteger(Number(val)) && Number(val) >= 1, { message: 'Month must be 1 or later.' }),
+        amount: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, { message: 'Amount must be positive.' }),
+    })).default([]),
+    biweekly: z.boolean().default(false),
+};
+
+const prepaymentSchema = z.object(prepaymentSchemaShape);
+
+export type PrepaymentFormValues = z.infer<typeof prepaymentSchema>;
+
+export const PREPAYMENT_DEFAULTS: PrepaymentFormValues = { extraMonthly: '', extraAnnual: '', lumpSums: [], biweekly: false };
+
+export function prepaymentPlan(values: Partial<PrepaymentFormValues>): PrepaymentPlan {
+    return {
+        extraMonthly: parseFloat(values.extraMonthly || '0'),
+        extraAnnual: parseFloat(values.extraAnnual || '0'),
+        lumpSums: (values.lumpSums ?? []).map(lump => ({ month: parseInt(lump.month), amount: parseFloat(lump.amount) })),
+        biweekly: values.biweekly ?? false,
+    };
+}
+
+/** Extras for the history summary, e.g. `Extra: $100/mo, biweekly`; empty without a plan. */
+export function describePrepaymentPlan(plan: PrepaymentPlan, formatCurrency: (value: number) => string): string {
+    const parts = [
+        plan.extraMonthly > 0 ? `${formatCurrency(plan.extraMonthly)}/mo` : '',
+        plan.extraAnnual > 0 ? `${formatCurrency(plan.extraAnnual)}/yr` : '',
+        ...plan.lumpSums.map(lump => `${formatCurrency(lump.amount)} in month ${lump.month}`),
+        plan.biweekly ? 'biweekly' : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? `Extra: ${parts.join(', ')}` : '';
+}
+
+function formatMonths(totalMonths: number): string {
+    const years = Math.floor(totalMonths / 12);
+    const months = totalMonths % 12;
+    const parts = [years > 0 ? `${years} yr${years === 1 ? '' : 's'}` : '', months > 0 || years === 0 ? `${months} mo` : ''];
+    return parts.filter(Boolean).join(' ');
+}
+
+interface PrepaymentFieldsProps {
+    currency: CurrencyData;
+}
+
+/** Extra monthly/annual payments, lump sums and the biweekly option. Render inside the calculator's `<Form>`. */
+export function PrepaymentFields({ currency }: PrepaymentFieldsProps) {
+    const form = useFormContext<PrepaymentFormValues>();
+    const { fields, append, remove } = useFieldArray({ control: form.control, name: 'lumpSums' });
+
+    return (
+        <div className="space-y-4 border-t pt-4">
+            <h4 className="text-sm font-medium">Extra Payments <small className="text-muted-foreground">(Optional)</small></h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField control={form.control} name="extraMonthly" render={({ field }) => (<FormItem><FormLabel>Extra Each Month ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 100" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="extraAnnual" render={({ field }) => (<FormItem><FormLabel>Extra Each Year ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder="e.g., 1000" {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+            </div>
+            <div className="space-y-2">
+                <FormLabel>Lump Sums</FormLabel>
+                {fields.map((lumpSum, index) => (
+                    <div key={lumpSum.id} className="flex gap-2 items-start">
+                        <FormField control={form.control} name={`lumpSums.${index}.month`} render={({ field }) => (<FormItem className="w-1/3"><FormLabel className="sr-only">Month</FormLabel><FormControl><Input type="number" placeholder="Month" {...field} step="1" min="1" /></FormControl><FormMessage /></FormItem>)} />
+                        <FormField control={form.control} name={`lumpSums.${index}.amount`} render={({ field }) => (<FormItem className="flex-grow"><FormLabel className="sr-only">Amount ({currency.symbol})</FormLabel><FormControl><Input type="number" placeholder={`Amount (${currency.symbol})`} {...field} step="any" min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-muted-foreground hover:text-destructive" aria-label="Remove lump sum"><Trash2 className="h-4 w-4" /></Button>
+                    </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => append({ month: '', amount: '' })}><PlusCircle className="mr-2 h-4 w-4" /> Add Lump Sum</Button>
+            </div>
+            <FormField
+                control={form.control}
+                name="biweekly"
+                render={({ field }) => (
+                    <FormItem className="flex items-start space-x-2 space-y-0">
+                        <FormControl><Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} /></FormControl>
+                        <div className="space-y-1 leading-none">
+                            <FormLabel className="font-normal cursor-pointer">Biweekly payments</FormLabel>
+                            <FormDescription>Pay half the monthly payment every two weeks: 13 full payments a year instead of 12.</FormDescription>
+                            <FormMessage />
+                        </div>
+                    </FormItem>
+                )}
+            />
+        </div>
+    );
+}
+
+interface PrepaymentSummaryProps {
+    result: PrepaymentResult;
+    formatCurrency: (value: number) => string;
+}
+
+/** Payoff date, interest saved and time saved against the regular schedule. */
+export function PrepaymentSummary({ result, formatCurrency }: PrepaymentSummaryProps) {
+    const biweekly = result.periodsPerYear !== 12;
+    return (
+        <div className="mt-2 border-t pt-2 space-y-1">
+            {biweekly && <p>Biweekly Payment: <strong>{formatCurrency(result.accelerated.payment)}</strong></p>}
+            <p>Paid Off In: <strong>{formatMonths(result.payoffMonths)}</strong> <span className="text-xs">(instead of {formatMonths(result.scheduled.schedule.length)})</span></p>
+            <p>Interest Saved: <strong className="text-primary">{formatCurrency(result.interestSaved)}</strong></p>
+            <p>Time Saved: <strong className="text-primary">{formatMonths(result.monthsSaved)}</strong></p>
+        </div>
+    );
+}
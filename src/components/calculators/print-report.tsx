@@ -0,0 +1,68 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { APP_NAME, type CurrencyData } from '@/lib/constants';
+import type { CalculatorCategory, CalculatorInfo, HistoryEntry } from '@/lib/types';
+
+const DISCLAIMERS: Record<CalculatorCategory, string> = {
+    Financial:
+        'Figures are estimates for planning only and are not financial, tax or legal advice. They assume the rates and amounts entered stay as given for the whole period, and exclude fees and taxes unless listed above. Confirm with your lender or a qualified adviser before making decisions.',
+    'Fitness & Health':
+        'Results come from standard formulas based on population averages and are for general information only, not medical advice. Consult a healthcare professional about your own circumstances.',
+    Math: 'Results are computed from the inputs shown and rounded for display.',
+    Other: 'Results are computed from the inputs shown and rounded for display.',
+};
+
+interface ReportHeaderProps {
+    calculatorInfo: CalculatorInfo;
+    /** The calculation being reported; without one only the blank calculator prints. */
+    entry: HistoryEntry | null;
+    currency: CurrencyData;
+    printedAt: Date;
+}
+
+/** Branding, timestamps and a summary of the run. Hidden on screen, printed above the calculator card. */
+export function ReportHeader({ calculatorInfo, entry, currency, printedAt }: ReportHeaderProps) {
+    return (
+        <header className="hidden print:block mb-6">
+            <div className="flex items-baseline justify-between border-b-2 border-primary pb-2">
+                <span className="text-lg font-bold text-primary">{APP_NAME}</span>
+                <span className="text-xs text-muted-foreground">Generated {format(printedAt, 'PPP p')}</span>
+            </div>
+            <h1 className="mt-4 text-2xl font-bold">{calculatorInfo.name} Report</h1>
+            <p className="text-sm text-muted-foreground">{calculatorInfo.description}</p>
+            {entry && (
+                <dl className="mt-4 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm break-inside-avoid">
+                    <dt className="font-semibold">Calculated</dt>
+                    <dd>{format(new Date(entry.timestamp), 'PPP p')}</dd>
+                    {calculatorInfo.category === 'Financial' && (
+                        <>
+                            <dt className="font-semibold">Currency</dt>
+                            <dd>{currency.code} ({currency.symbol})</dd>
+                        </>
+                    )}
+                    <dt className="font-semibold">Inputs</dt>
+                    <dd>{entry.input}</dd>
+                    <dt className="font-semibold">Results</dt>
+                    <dd>{entry.result}</dd>
+                </dl>
+            )}
+        </header>
+    );
+}
+
+interface ReportFooterProps {
+    category: CalculatorCategory;
+}
+
+/** Assumptions and disclaimers closing the printed report. */
+export function ReportFooter({ category }: ReportFooterProps) {
+    return (
+        <footer className="hidden print:block mt-8 border-t pt-3 text-xs text-muted-foreground break-inside-avoid">
+            <h2 className="font-semibold text-foreground">Assumptions &amp; Disclaimer</h2>
+            <p className="mt-1">{DISCLAIMERS[category]}</p>
+            <p className="mt-1">This report was generated in your browser by {APP_NAME}.</p>
+        </footer>
+    );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import * as React from 'react';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { summarizeByYear, type AmortizationEntry, type GrowthPoint } from '@/lib/finance';
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+interface ChartSeries {
+    key: string;
+    label: string;
+}
+
+interface ProjectionChartProps {
+    title: string;
+    /** Describes the chart for screen readers, e.g. where the balance starts and ends. */
+    summary: string;
+    data: Array<Record<string, number>>;
+    xKey: string;
+    xLabel: string;
+    series: ChartSeries[];
+    /** `stacked-area` stacks the series so their sum reads as the total. */
+    variant: 'line' | 'stacked-area';
+    /** Extra columns shown in the table view only. */
+    tableOnly?: ChartSeries[];
+    formatValue: (value: number) => string;
+}
+
+/**
+ * A year-by-year chart with a table view of the same data. The chart is
+ * keyboard navigable (arrow keys move the tooltip) and described by
+ * `summary`; the table is the fallback for anyone who prefers exact figures.
+ */
+function ProjectionChart({ title, summary, data, xKey, xLabel, series, variant, tableOnly = [], formatValue }: ProjectionChartProps) {
+    const id = React.useId();
+    const config = Object.fromEntries(
+        series.map((item, index) => [item.key, { label: item.label, color: CHART_COLORS[index % CHART_COLORS.length] }])
+    ) satisfies ChartConfig;
+    const columns = [...series, ...tableOnly];
+
+    const axes = (
+        <>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey={xKey} tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value: number) => compactNumber.format(value)} />
+            <ChartTooltip
+                content={
+                    <ChartTooltipContent
+                        valueFormatter={formatValue}
+                        labelFormatter={(_, payload) => `${xLabel} ${payload?.[0]?.payload?.[xKey] ?? ''}`}
+                    />
+                }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+        </>
+    );
+
+    return (
+        <figure className="mt-6" aria-labelledby={`${id}-title`}>
+            <Tabs defaultValue="chart">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                    <figcaption id={`${id}-title`} className="text-lg font-semibold">{title}</figcaption>
+                    <TabsList className="h-8 print:hidden">
+                        <TabsTrigger value="chart" className="text-xs">Chart</TabsTrigger>
+                        <TabsTrigger value="table" className="text-xs">Table</TabsTrigger>
+                    </TabsList>
+                </div>
+                <TabsContent value="chart">
+                    <p id={`${id}-summary`} className="sr-only">{summary} Switch to the table view for every value.</p>
+                    <ChartContainer config={config} className="w-full" aria-describedby={`${id}-summary`}>
+                        {variant === 'stacked-area' ? (
+                            <AreaChart data={data} margin={{ left: 4, right: 12 }} accessibilityLayer>
+                                {axes}
+                                {series.map(item => (
+                                    <Area
+                                        key={item.key}
+                                        dataKey={item.key}
+                                        type="monotone"
+                                        stackId="total"
+                                        stroke={`var(--color-${item.key})`}
+                                        fill={`var(--color-${item.key})`}
+                                        fillOpacity={0.4}
+                                    />
+                                ))}
+                            </AreaChart>
+                        ) : (
+                            <LineChart data={data} margin={{ left: 4, right: 12 }} accessibilityLayer>
+                                {axes}
+                                {series.map(item => (
+                                    <Line key={item.key} dataKey={item.key} type="monotone" stroke={`var(--color-${item.key})`} strokeWidth={2} dot={false} />
+                                ))}
+                            </LineChart>
+                        )}
+                    </ChartContainer>
+                </TabsContent>
+                <TabsContent value="table">
+                    <ScrollArea className="h-[300px] w-full border">
+                        <Table>
+                            <caption className="sr-only">{title}</caption>
+                            <TableHeader className="sticky top-0 bg-muted z-10">
+                                <TableRow>
+                                    <TableHead scope="col">{xLabel}</TableHead>
+                                    {columns.map(column => <TableHead key={column.key} scope="col" className="text-right">{column.label}</TableHead>)}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {data.map(row => (
+                                    <TableRow key={row[xKey]}>
+                                        <TableHead scope="row" className="font-medium text-foreground">{row[xKey]}</TableHead>
+                                        {columns.map(column => <TableCell key={column.key} className="text-right">{formatValue(row[column.key])}</TableCell>)}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </ScrollArea>
+                </TabsContent>
+            </Tabs>
+        </figure>
+    );
+}
+
+interface AmortizationChartsProps {
+    schedule: AmortizationEntry[];
+    /** Payments per year in `schedule`. */
+    periodsPerYear: number;
+    formatCurrency: (value: number) => string;
+}
+
+/** Balance-over-time and cumulative principal vs. interest charts for a loan schedule. */
+export function AmortizationCharts({ schedule, periodsPerYear, formatCurrency }: AmortizationChartsProps) {
+    const years = React.useMemo(() => summarizeByYear(schedule, periodsPerYear), [schedule, periodsPerYear]);
+    if (years.length < 2) return null;
+    const last = years[years.length - 1];
+    const data = years.map(row => ({ ...row, totalPaid: row.principalPaid + row.interestPaid }));
+
+    return (
+        <>
+            <ProjectionChart
+                title="Balance Over Time"
+                summary={`The balance falls from ${formatCurrency(years[0].balance)} to ${formatCurrency(last.balance)} over ${last.year} years.`}
+                data={data}
+                xKey="year"
+                xLabel="Year"
+                series={[{ key: 'balance', label: 'Balance' }]}
+                variant="line"
+                formatValue={formatCurrency}
+            />
+            <ProjectionChart
+                title="Principal vs. Interest Paid"
+                summary={`Over ${last.year} years you repay ${formatCurrency(last.principalPaid)} of principal and ${formatCurrency(last.interestPaid)} of interest.`}
+                data={data}
+                xKey="year"
+                xLabel="Year"
+                series={[{ key: 'principalPaid', label: 'Principal' }, { key: 'interestPaid', label: 'Interest' }]}
+                variant="stacked-area"
+                tableOnly={[{ key: 'totalPaid', label: 'Total Paid' }]}
+                formatValue={formatCurrency}
+            />
+        </>
+    );
+}
+
+interface GrowthChartProps {
+    points: GrowthPoint[];
+    formatCurrency: (value: number) => string;
+    /** Labels the x-axis by age instead of year when given. */
+    startAge?: number;
+}
+
+/** Contributions vs. growth, stacked so the top edge traces the balance. */
+export function GrowthChart({ points, formatCurrency, startAge }: GrowthChartProps) {
+    if (points.length < 2) return null;
+    const last = points[points.length - 1];
+    const xKey = startAge === undefined ? 'year' : 'age';
+    const data = points.map(point => ({ ...point, age: (startAge ?? 0) + point.year }));
+    const span = startAge === undefined ? `after ${last.year} years` : `by age ${startAge + last.year}`;
+
+    return (
+        <ProjectionChart
+            title="Contributions vs. Growth"
+            summary={`The balance reaches ${formatCurrency(last.balance)} ${span}: ${formatCurrency(last.contributions)} paid in and ${formatCurrency(last.growth)} of growth.`}
+            data={data}
+            xKey={xKey}
+            xLabel={startAge === undefined ? 'Year' : 'Age'}
+            series={[{ key: 'contributions', label: 'Contributions' }, { key: 'growth', label: 'Growth' }]}
+            variant="stacked-area"
+            tableOnly={[{ key: 'balance', label: 'Balance' }]}
+            formatValue={formatCurrency}
+        />
+    );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import * as React from 'react';
+import { FileSpreadsheet, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { APP_NAME } from '@/lib/constants';
+import { datedFileName, downloadFile } from '@/lib/download';
+import { scheduleToCsv, scheduleToXlsx, type ScheduleExport } from '@/lib/schedule-export';
+import { XLSX_MIME_TYPE } from '@/lib/xlsx';
+
+interface ScheduleExportButtonsProps {
+    /** Builds the export on click, so large schedules cost nothing until requested. */
+    build: () => ScheduleExport;
+}
+
+function filePrefix(title: string): string {
+    return `${APP_NAME}-${title}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/** CSV and Excel download buttons for a payment schedule. */
+export function ScheduleExportButtons({ build }: ScheduleExportButtonsProps) {
+    const exportCsv = () => {
+        const schedule = build();
+        downloadFile(datedFileName(filePrefix(schedule.title), 'csv'), scheduleToCsv(schedule), 'text/csv;charset=utf-8');
+    };
+
+    const exportXlsx = () => {
+        const schedule = build();
+        downloadFile(datedFileName(filePrefix(schedule.title), 'xlsx'), scheduleToXlsx(schedule), XLSX_MIME_TYPE);
+    };
+
+    return (
+        <div className="flex gap-2 print:hidden">
+            <Button type="button" variant="outline" size="sm" onClick={exportCsv}>
+                <FileText className="mr-2 h-4 w-4" /> CSV
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={exportXlsx}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" /> Excel
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import * as React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { TAX_SYSTEMS, US_FEDERAL, findTaxTable, latestTaxYear, taxYears, type IncomeTaxResult, type TaxTable } from '@/lib/tax';
+
+/** Form fields choosing a tax table, spread into a tax calculator's schema. */
+export const taxSchemaShape = {
+    taxSystem: z.string().default(US_FEDERAL.id),
+    taxYear: z.string().default(latestTaxYear(US_FEDERAL)),
+    filingStatus: z.string().default('single'),
+};
+
+const taxSchema = z.object(taxSchemaShape);
+
+export type TaxFormValues = z.infer<typeof taxSchema>;
+
+export const TAX_DEFAULTS: TaxFormValues = {
+    taxSystem: US_FEDERAL.id,
+    taxYear: latestTaxYear(US_FEDERAL),
+    filingStatus: 'single',
+};
+
+/** Checks a table exists for the chosen year and status; call from the host schema's `.superRefine`. */
+export function refineTax(values: Partial<TaxFormValues>, ctx: z.RefinementCtx, filingStatus = values.filingStatus) {
+    const system = TAX_SYSTEMS[values.taxSystem ?? ''];
+    if (!system) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['taxSystem'], message: 'Select a tax system.' });
+    } else if (!system.years[values.taxYear ?? '']) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['taxYear'], message: `No ${system.name} tables for that year.` });
+    } else if (!findTaxTable(system.id, values.taxYear ?? '', filingStatus ?? '')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['filingStatus'], message: 'Filing status not available for this tax system.' });
+    }
+}
+
+/** The chosen table; pass `filingStatus` when the calculator keeps its own status field. */
+export function taxTableFor(values: Partial<TaxFormValues>, filingStatus = values.filingStatus): TaxTable | null {
+    return findTaxTable(values.taxSystem ?? US_FEDERAL.id, values.taxYear ?? '', filingStatus ?? '');
+}
+
+/** E.g. `United States (Federal) 2025, Single`. */
+export function describeTaxTable(values: Partial<TaxFormValues>, filingStatus = values.filingStatus): string {
+    const system = TAX_SYSTEMS[values.taxSystem ?? ''];
+    if (!system) return '';
+    const status = system.filingStatuses[filingStatus ?? ''];
+    return `${system.name} ${values.taxYear}${status && Object.keys(system.filingStatuses).length > 1 ? `, ${status}` : ''}`;
+}
+
+export const formatTaxRate = (rate: number) => `${(rate * 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+interface TaxFieldsProps {
+    /** Let the user pick the country; otherwise the form's `taxSystem` is used as is. */
+    showSystem?: boolean;
+    /** Hide when the calculator has its own filing status field or compares statuses. */
+    showFilingStatus?: boolean;
+}
+
+/** Tax system, tax year and filing status selects. Render inside the calculator's `<Form>`. */
+export function TaxFields({ showSystem = false, showFilingStatus = true }: TaxFieldsProps) {
+    const form = useFormContext<TaxFormValues>();
+    const system = TAX_SYSTEMS[form.watch('taxSystem')] ?? US_FEDERAL;
+
+    const changeSystem = (id: string) => {
+        const next = TAX_SYSTEMS[id];
+        form.setValue('taxSystem', id);
+        form.setValue('taxYear', latestTaxYear(next));
+        form.setValue('filingStatus', Object.keys(next.filingStatuses)[0]);
+    };
+
+    const fieldCount = 1 + (showSystem ? 1 : 0) + (showFilingStatus ? 1 : 0);
+
+    return (
+        <div className={cn('grid grid-cols-1 gap-4', fieldCount === 3 ? 'md:grid-cols-3' : fieldCount === 2 && 'md:grid-cols-2')}>
+            {showSystem && (
+                <FormField control={form.control} name="taxSystem" render={({ field }) => (<FormItem><FormLabel>Tax System</FormLabel><Select onValueChange={changeSystem} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.values(TAX_SYSTEMS).map(option => <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+            )}
+            <FormField control={form.control} name="taxYear" render={({ field }) => (<FormItem><FormLabel>Tax Year</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{taxYears(system).map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+            {showFilingStatus && (
+                <FormField control={form.control} name="filingStatus" render={({ field }) => (<FormItem><FormLabel>Filing Status</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(system.filingStatuses).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>)} />
+            )}
+        </div>
+    );
+}
+
+interface TaxBracketTableProps {
+    result: IncomeTaxResult;
+    formatCurrency: (value: number) => string;
+}
+
+/** Taxable income and tax in each bracket, with the marginal bracket highlighted. */
+export function TaxBracketTable({ result, formatCurrency }: TaxBracketTableProps) {
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Rate</TableHead>
+                    <TableHead>Taxable Income Band</TableHead>
+                    <TableHead className="text-right">Income Taxed</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {result.brackets.map(bracket => {
+                    const isMarginal = bracket.rate === result.marginalRate;
+                    return (
+                        <TableRow key={bracket.from} className={cn(bracket.taxedAmount === 0 && 'text-muted-foreground', isMarginal && 'font-semibold')}>
+                            <TableCell>{formatTaxRate(bracket.rate)}</TableCell>
+                            <TableCell>{formatCurrency(bracket.from)} – {bracket.to === null ? 'and up' : formatCurrency(bracket.to)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(bracket.taxedAmount)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(bracket.tax)}</TableCell>
+                        </TableRow>
+                    );
+                })}
+            </TableBody>
+        </Table>
+    );
+}
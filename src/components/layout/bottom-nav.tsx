@@ -32,7 +32,7 @@ export function BottomNav() {
   // Skeleton Loader
   if (!mounted) {
     return (
-        <nav className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/95 md:hidden">
+        <nav className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/95 md:hidden print:hidden">
             <div className="container flex h-14 max-w-screen-2xl items-center justify-around px-2">
                 {navItems.map((_, index) => (
                   <div key={index} className="flex flex-col items-center justify-center p-2">
@@ -47,7 +47,7 @@ export function BottomNav() {
 
   // Actual Nav
   return (
-    <nav className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 md:hidden">
+    <nav className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 md:hidden print:hidden">
       <div className="container flex h-14 max-w-screen-2xl items-center justify-around px-2">
         {navItems.map((item) => {
           const isActive =
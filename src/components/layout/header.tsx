@@ -6,20 +6,20 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger, SheetTitle } from '@/components/ui/sheet'; // Import SheetTitle
 import { Menu, Check, ChevronsUpDown } from 'lucide-react'; // Removed Search
-import { APP_NAME, CURRENCIES, PROFILE_STORAGE_KEY } from '@/lib/constants';
+import { APP_NAME, CURRENCIES } from '@/lib/constants';
 import { SidebarNav } from './sidebar-nav';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandList, CommandItem } from "@/components/ui/command";
 // Removed Input import as it's no longer used here
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import type { UserProfile } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { profileStorage } from '@/lib/stored-data';
 import { useToast } from "@/hooks/use-toast";
 import { cn } from '@/lib/utils';
 // Removed useRouter import as it's no longer used here
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
 
 export function Header() {
-  const [profile, setProfile] = useLocalStorage<UserProfile>(PROFILE_STORAGE_KEY, { preferredCurrency: 'USD' });
+  const [profile, setProfile] = useStoredValue(profileStorage);
   const { toast } = useToast();
   const [popoverOpen, setPopoverOpen] = React.useState(false);
   const [sheetOpen, setSheetOpen] = React.useState(false); // State for mobile sheet
@@ -57,7 +57,7 @@ export function Header() {
    // Skeleton Loader
    if (!mounted) {
     return (
-      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 print:hidden">
         <div className="container flex h-14 max-w-screen-2xl items-center px-4">
           {/* Mobile Menu Trigger Skeleton */}
           <div className="md:hidden mr-2">
@@ -82,7 +82,7 @@ export function Header() {
 
    // Actual Header Content
   return (
-    <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+    <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 print:hidden">
       <div className="container flex h-14 max-w-screen-2xl items-center px-4">
         {/* Mobile Menu Trigger */}
         <div className="md:hidden">
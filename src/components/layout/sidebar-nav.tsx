@@ -5,12 +5,12 @@ import * as React from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
-import { CALCULATORS, CATEGORIES, FAVORITES_STORAGE_KEY, APP_NAME } from '@/lib/constants';
+import { CALCULATORS, CATEGORIES, APP_NAME } from '@/lib/constants';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Button } from '@/components/ui/button';
 import { Home, History, User, Star, Search, Calculator, ChevronDown, Sun, Moon, Bookmark } from 'lucide-react';
-import { useLocalStorage } from '@/hooks/use-local-storage';
-import type { FavoriteCalculators } from '@/lib/types';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { favoritesStorage } from '@/lib/stored-data';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useTheme } from 'next-themes'; // Import useTheme
@@ -23,7 +23,7 @@ interface SidebarNavProps {
 export function SidebarNav({ onLinkClick }: SidebarNavProps) {
   const pathname = usePathname();
   const { theme, setTheme } = useTheme(); // Get theme state and setter
-  const [favorites, setFavorites] = useLocalStorage<FavoriteCalculators>(FAVORITES_STORAGE_KEY, []);
+  const [favorites, setFavorites] = useStoredValue(favoritesStorage);
   const [mounted, setMounted] = React.useState(false);
   const [searchTerm, setSearchTerm] = React.useState('');
   const [activeAccordionItems, setActiveAccordionItems] = React.useState<string[]>([]);
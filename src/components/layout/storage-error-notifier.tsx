@@ -0,0 +1,22 @@
+'use client';
+
+import * as React from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { subscribeStorageErrors } from '@/lib/storage';
+
+/** Tells the user when browser storage is full and changes cannot be saved. */
+export function StorageErrorNotifier() {
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    return subscribeStorageErrors(() => {
+      toast({
+        title: 'Storage Full',
+        description: 'Your browser storage is full, so recent changes will be lost when you close this tab. Lower your history size on the profile page or clear old history.',
+        variant: 'destructive',
+      });
+    });
+  }, [toast]);
+
+  return null;
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { Bookmark, FolderOpen, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useStoredValue } from '@/hooks/use-stored-value';
+import { useToast } from '@/hooks/use-toast';
+import {
+    compareScenarios,
+    createScenario,
+    humanizeFieldName,
+    MAX_COMPARED_SCENARIOS,
+    MIN_COMPARED_SCENARIOS,
+    saveScenario,
+} from '@/lib/scenarios';
+import { scenariosStorage } from '@/lib/stored-data';
+import type { HistoryEntry, HistoryFormValue, HistoryOutputValue, Scenario } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface ScenarioPanelProps {
+    slug: string;
+    /** The latest calculation on this page; saving stores its inputs and results. */
+    lastEntry: HistoryEntry | null;
+    /** Display labels for input and output names, where the calculator defines them. */
+    labels?: Record<string, string>;
+    onLoad: (scenario: Scenario) => void;
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function formatInput(value: HistoryFormValue): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'string') return ISO_DATE_TIME.test(value) ? format(new Date(value), 'PP') : value;
+    if (typeof value === 'number') return value.toLocaleString();
+    if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+    return JSON.stringify(value);
+}
+
+function formatOutput(value: HistoryOutputValue): string {
+    if (value === null) return '—';
+    return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+}
+
+function formatDelta(delta: number, percent: number | null): string {
+    const sign = delta > 0 ? '+' : '';
+    const amount = `${sign}${delta.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+    return percent === null ? amount : `${amount} (${sign}${percent.toFixed(1)}%)`;
+}
+
+/** Saves named input sets for a calculator and compares up to four of them side by side. */
+export function ScenarioPanel({ slug, lastEntry, labels = {}, onLoad }: ScenarioPanelProps) {
+    const { toast } = useToast();
+    const [allScenarios, setAllScenarios] = useStoredValue(scenariosStorage);
+    const [name, setName] = React.useState('');
+    const [compared, setCompared] = React.useState<string[]>([]);
+
+    const scenarios = allScenarios.filter(scenario => scenario.calculatorSlug === slug);
+    // Keep the order in which scenarios were ticked; the first is the baseline
+    const selected = compared
+        .map(id => scenarios.find(scenario => scenario.id === id))
+        .filter((scenario): scenario is Scenario => scenario !== undefined);
+    const comparison = selected.length >= MIN_COMPARED_SCENARIOS ? compareScenarios(selected) : null;
+    const label = (field: string) => labels[field] ?? humanizeFieldName(field);
+
+    const handleSave = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!lastEntry || !name.trim()) return;
+        const replaced = scenarios.some(scenario => scenario.name.toLowerCase() === name.trim().toLowerCase());
+        setAllScenarios(prev => saveScenario(prev, createScenario(name, lastEntry)));
+        toast({ title: replaced ? 'Scenario Updated' : 'Scenario Saved', description: `“${name.trim()}” holds your latest calculation.` });
+        setName('');
+    };
+
+    const handleDelete = (scenario: Scenario) => {
+        setAllScenarios(prev => prev.filter(saved => saved.id !== scenario.id));
+        setCompared(prev => prev.filter(id => id !== scenario.id));
+    };
+
+    const toggleCompared = (id: string, checked: boolean) => {
+        setCompared(prev => (checked ? [...prev, id].slice(0, MAX_COMPARED_SCENARIOS) : prev.filter(existing => existing !== id)));
+    };
+
+    return (
+        <Card className="w-full max-w-2xl mx-auto mt-6 print:hidden">
+            <CardHeader>
+                <CardTitle className="text-lg">Scenarios</CardTitle>
+                <CardDescription>
+                    Save your latest calculation under a name, then tick {MIN_COMPARED_SCENARIOS}–{MAX_COMPARED_SCENARIOS} scenarios to compare them. Differences are measured against the first one ticked.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <form onSubmit={handleSave} className="flex gap-2">
+                    <Label htmlFor="scenario-name" className="sr-only">Scenario name</Label>
+                    <Input
+                        id="scenario-name"
+                        value={name}
+                        onChange={event => setName(event.target.value)}
+                        placeholder={lastEntry ? 'e.g. 30y fixed 6.1%' : 'Calculate first to save a scenario'}
+                        maxLength={60}
+                        disabled={!lastEntry}
+                    />
+                    <Button type="submit" variant="outline" disabled={!lastEntry || !name.trim()}>
+                        <Bookmark className="mr-2 h-4 w-4" /> Save
+                    </Button>
+                </form>
+
+                {scenarios.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No saved scenarios for this calculator yet.</p>
+                ) : (
+                    <ul className="divide-y rounded-md border">
+                        {scenarios.map(scenario => {
+                            const isCompared = compared.includes(scenario.id);
+                            return (
+                                <li key={scenario.id} className="flex items-center gap-3 p-3">
+                                    <Checkbox
+                                        id={`compare-${scenario.id}`}
+                                        checked={isCompared}
+                                        onCheckedChange={checked => toggleCompared(scenario.id, checked === true)}
+                                        disabled={!isCompared && selected.length >= MAX_COMPARED_SCENARIOS}
+                                        aria-label={`Compare ${scenario.name}`}
+                                    />
+                                    <div className="min-w-0 flex-1">
+                                        <Label htmlFor={`compare-${scenario.id}`} className="font-medium cursor-pointer">{scenario.name}</Label>
+                                        <p className="text-xs text-muted-foreground truncate" title={scenario.result}>
+                                            {format(new Date(scenario.createdAt), 'PP')} · {scenario.result}
+                                        </p>
+                                    </div>
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => onLoad(scenario)} aria-label={`Load ${scenario.name}`} title="Load into the calculator">
+                                        <FolderOpen className="h-4 w-4" />
+                                    </Button>
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => handleDelete(scenario)} aria-label={`Delete ${scenario.name}`} title="Delete scenario">
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                {comparison && (
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead />
+                                    {selected.map(scenario => <TableHead key={scenario.id} className="text-right">{scenario.name}</TableHead>)}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {comparison.inputs.length > 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={selected.length + 1} className="bg-muted/50 text-xs font-semibold uppercase text-muted-foreground">Inputs that differ</TableCell>
+                                    </TableRow>
+                                )}
+                                {comparison.inputs.map(row => (
+                                    <TableRow key={`input-${row.name}`}>
+                                        <TableCell className="font-medium">{label(row.name)}</TableCell>
+                                        {row.values.map((value, index) => <TableCell key={index} className="text-right">{formatInput(value)}</TableCell>)}
+                                    </TableRow>
+                                ))}
+                                <TableRow>
+                                    <TableCell colSpan={selected.length + 1} className="bg-muted/50 text-xs font-semibold uppercase text-muted-foreground">Results</TableCell>
+                                </TableRow>
+                                {comparison.outputs.map(row => (
+                                    <TableRow key={`output-${row.name}`}>
+                                        <TableCell className="font-medium">{label(row.name)}</TableCell>
+                                        {row.values.map((value, index) => {
+                                            const delta = row.deltas[index];
+                                            return (
+                                                <TableCell key={index} className="text-right align-top">
+                                                    <div>{formatOutput(value)}</div>
+                                                    {delta !== null && delta !== 0 && (
+                                                        <div className={cn('text-xs font-medium', delta > 0 ? 'text-primary' : 'text-orange-600 dark:text-orange-400')}>
+                                                            {formatDelta(delta, row.percentDeltas[index])}
+                                                        </div>
+                                                    )}
+                                                </TableCell>
+                                            );
+                                        })}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -11,10 +11,10 @@ const ScrollArea = React.forwardRef<
 >(({ className, children, ...props }, ref) => (
   <ScrollAreaPrimitive.Root
     ref={ref}
-    className={cn("relative overflow-hidden", className)} // Removed rounded-[inherit]
+    className={cn("relative overflow-hidden print:!h-auto print:!overflow-visible", className)} // Removed rounded-[inherit]
     {...props}
   >
-    <ScrollAreaPrimitive.Viewport className="h-full w-full"> {/* Removed rounded-[inherit] */}
+    <ScrollAreaPrimitive.Viewport className="h-full w-full print:!overflow-visible"> {/* Removed rounded-[inherit] */}
       {children}
     </ScrollAreaPrimitive.Viewport>
     <ScrollBar />
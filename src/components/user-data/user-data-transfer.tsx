@@ -0,0 +1,188 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { FileJson, FileSpreadsheet, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { APP_NAME } from '@/lib/constants';
+import { datedFileName, downloadFile } from '@/lib/download';
+import {
+    exportHistoryCsv,
+    exportUserDataJson,
+    ImportError,
+    parseUserDataFile,
+    planImport,
+    type ConfirmedImport,
+    type ImportMode,
+    type ParsedImport,
+    type UserData,
+    type UserDataSection,
+} from '@/lib/user-data';
+
+interface UserDataTransferProps {
+    /** Sections this page exports and accepts on import. */
+    sections: UserDataSection[];
+    /** Current stored data, owned by the page so an import shows up immediately. */
+    data: UserData;
+    /** Receives the confirmed import; the page plans it against its stored data with `planImport` and writes the result. */
+    onImport: (confirmed: ConfirmedImport) => void;
+}
+
+/** Export buttons and an import flow with a merge/replace preview. */
+export function UserDataTransfer({ sections, data: current, onImport }: UserDataTransferProps) {
+    const { toast } = useToast();
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+    const [pending, setPending] = React.useState<{ fileName: string; parsed: ParsedImport } | null>(null);
+    const [mode, setMode] = React.useState<ImportMode>('merge');
+
+    const plan = pending ? planImport(pending.parsed, current, mode, sections) : null;
+    const prefix = `${APP_NAME.toLowerCase()}-${sections.length === 1 ? sections[0] : 'data'}`;
+    const sectionList = sections.join(', ');
+
+    const exportJson = () => {
+        const data: Partial<UserData> = {};
+        for (const section of sections) {
+            Object.assign(data, { [section]: current[section] });
+        }
+        downloadFile(datedFileName(prefix, 'json'), exportUserDataJson(data), 'application/json');
+    };
+
+    const exportCsv = () => {
+        downloadFile(datedFileName(`${APP_NAME.toLowerCase()}-history`, 'csv'), exportHistoryCsv(current.history), 'text/csv;charset=utf-8');
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow choosing the same file again
+        if (!file) return;
+        try {
+            const parsed = parseUserDataFile(await file.text(), file.name);
+            if (sections.every(section => parsed.data[section] === undefined)) {
+                throw new ImportError(`The file has no ${sectionList} data to import here.`);
+            }
+            setMode('merge');
+            setPending({ fileName: file.name, parsed });
+        } catch (error) {
+            console.error('Import error:', error);
+            toast({
+                title: 'Import Failed',
+                description: error instanceof ImportError ? error.message : 'The file could not be read.',
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const applyImport = () => {
+        if (!pending || !plan) return;
+        onImport({ parsed: pending.parsed, mode, sections });
+        const { conflicts, skipped } = plan.report;
+        toast({
+            title: 'Import Complete',
+            description: conflicts.length + skipped.length > 0
+                ? `Imported with ${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} and ${skipped.length} skipped record${skipped.length === 1 ? '' : 's'}.`
+                : 'Your data has been imported.',
+        });
+        setPending(null);
+    };
+
+    const report = plan?.report;
+    const summary = report
+        ? [
+              report.sections.includes('history') &&
+                  `${report.historyAdded} history ${report.historyAdded === 1 ? 'entry' : 'entries'} ${mode === 'replace' ? 'imported' : 'added'}` +
+                      (report.historyUnchanged > 0 ? `, ${report.historyUnchanged} already present` : ''),
+              report.historyEvicted > 0 && `${report.historyEvicted} older unpinned ${report.historyEvicted === 1 ? 'entry' : 'entries'} removed by your history limit`,
+              report.sections.includes('favorites') &&
+                  (mode === 'replace' ? 'Favorites replaced' : `${report.favoritesAdded} favorite${report.favoritesAdded === 1 ? '' : 's'} added`),
+              report.sections.includes('profile') && (report.profileUpdated ? 'Profile updated' : 'Profile unchanged'),
+          ].filter((line): line is string => typeof line === 'string')
+        : [];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-lg">Export &amp; Import</CardTitle>
+                <CardDescription>
+                    Back up or share your {sectionList}. JSON files hold everything listed; CSV files hold calculation history for spreadsheets.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={exportJson}>
+                    <FileJson className="mr-2 h-4 w-4" /> Export JSON
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={exportCsv} disabled={current.history.length === 0}>
+                    <FileSpreadsheet className="mr-2 h-4 w-4" /> Export History CSV
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" /> Import
+                </Button>
+                <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+            </CardContent>
+
+            <Dialog open={pending !== null} onOpenChange={open => !open && setPending(null)}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Import {pending?.fileName}</DialogTitle>
+                        <DialogDescription>
+                            {pending?.parsed.version !== null
+                                ? `${APP_NAME} export v${pending?.parsed.version}`
+                                : 'CSV history file'}
+                            {pending?.parsed.exportedAt && `, exported ${format(new Date(pending.parsed.exportedAt), 'PPp')}`}.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <RadioGroup value={mode} onValueChange={value => setMode(value as ImportMode)} className="space-y-2">
+                        <div className="flex items-start gap-2">
+                            <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                            <Label htmlFor="import-merge" className="font-normal leading-snug cursor-pointer">
+                                <span className="font-medium">Merge</span> — add new records and keep your local copy where they differ
+                            </Label>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                            <Label htmlFor="import-replace" className="font-normal leading-snug cursor-pointer">
+                                <span className="font-medium">Replace</span> — overwrite your {report?.sections.join(', ')} with the file
+                            </Label>
+                        </div>
+                    </RadioGroup>
+
+                    {report && (
+                        <div className="space-y-3 text-sm">
+                            <ul className="list-disc pl-5 space-y-0.5">
+                                {summary.map(line => <li key={line}>{line}.</li>)}
+                            </ul>
+                            {report.conflicts.length > 0 && (
+                                <div>
+                                    <p className="font-medium">{report.conflicts.length} conflict{report.conflicts.length === 1 ? '' : 's'}</p>
+                                    <ul className="max-h-32 overflow-y-auto list-disc pl-5 text-xs text-muted-foreground">
+                                        {report.conflicts.map((conflict, index) => <li key={index}>{conflict.message}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                            {report.skipped.length > 0 && (
+                                <div>
+                                    <p className="font-medium text-destructive">{report.skipped.length} record{report.skipped.length === 1 ? '' : 's'} skipped</p>
+                                    <ul className="max-h-32 overflow-y-auto list-disc pl-5 text-xs text-muted-foreground">
+                                        {report.skipped.map((message, index) => <li key={index}>{message}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+                        <Button type="button" onClick={applyImport} variant={mode === 'replace' ? 'destructive' : 'default'}>
+                            {mode === 'replace' ? 'Replace' : 'Merge'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import * as React from 'react';
+
+export type AccountSyncStatus = 'unavailable' | 'signed-out' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface AccountUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+export interface AccountSyncState {
+  /** `unavailable` when Firebase is not configured; data then stays in localStorage only. */
+  status: AccountSyncStatus;
+  user: AccountUser | null;
+  lastSyncedAt: Date | null;
+  /** Conflicts resolved during the last sync. */
+  conflicts: string[];
+  error: string | null;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  syncNow: () => void;
+}
+
+const AccountSyncContext = React.createContext<AccountSyncState>({
+  status: 'unavailable',
+  user: null,
+  lastSyncedAt: null,
+  conflicts: [],
+  error: null,
+  signIn: async () => {},
+  signOut: async () => {},
+  syncNow: () => {},
+});
+
+/** Account sync state from the nearest `AccountSyncProvider`. */
+function useAccountSync(): AccountSyncState {
+  return React.useContext(AccountSyncContext);
+}
+
+export { AccountSyncContext, useAccountSync };
@@ -0,0 +1,73 @@
+'use client';
+
+import * as React from 'react';
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import type { HistoryFormValue } from '@/lib/types';
+
+/** Values to fill a calculator form with, e.g. from a history entry or a shared link. */
+export interface FormPrefill {
+  /** Identifies the prefill; each id is applied once. */
+  id: string;
+  values: Record<string, HistoryFormValue>;
+  /** Called after the form has been filled in. */
+  onApplied?: () => void;
+}
+
+/** The values to prefill on this calculator page, provided by `CalculatorContainer`. */
+export const FormPrefillContext = React.createContext<FormPrefill | null>(null);
+
+/** Reads the calculator form's current values; `null` once the form unmounts. */
+export type FormValuesReader = (() => FieldValues) | null;
+
+/** Receives the calculator form's reader so `CalculatorContainer` can link to the current inputs. */
+export const FormValuesRegistryContext = React.createContext<((read: FormValuesReader) => void) | null>(null);
+
+// Dates are stored and shared as `Date.toJSON()` strings
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function reviveValue(value: unknown): unknown {
+  if (typeof value === 'string') return ISO_DATE_TIME.test(value) ? new Date(value) : value;
+  if (Array.isArray(value)) return value.map(reviveValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, reviveValue(inner)]));
+  }
+  return value;
+}
+
+/**
+ * Fills a calculator form with the prefill values, if any. Only fields the
+ * form still has are filled, so values from an older calculator version
+ * fill in what they can.
+ *
+ * Call it after any effect that resets the form on mount, and pass the
+ * component's `mounted` flag as `ready` so that reset does not undo it.
+ *
+ * Also registers the form with `FormValuesRegistryContext`, so the page's
+ * "Copy link" button shares whatever is currently entered.
+ *
+ * @returns The prefill being applied, or `null`.
+ */
+function useFormPrefill<T extends FieldValues>(form: UseFormReturn<T>, ready = true): FormPrefill | null {
+  const prefill = React.useContext(FormPrefillContext);
+  const appliedId = React.useRef<string | null>(null);
+  const registerForm = React.useContext(FormValuesRegistryContext);
+
+  React.useEffect(() => {
+    if (!registerForm) return;
+    registerForm(() => form.getValues());
+    return () => registerForm(null);
+  }, [registerForm, form]);
+
+  React.useEffect(() => {
+    if (!ready || !prefill || appliedId.current === prefill.id) return;
+    appliedId.current = prefill.id;
+    const current = form.getValues();
+    const values = Object.entries(prefill.values).filter(([name]) => name in current).map(([name, value]) => [name, reviveValue(value)]);
+    form.reset({ ...current, ...Object.fromEntries(values) } as T);
+    prefill.onApplied?.();
+  }, [prefill, form, ready]);
+
+  return prefill;
+}
+
+export { useFormPrefill };
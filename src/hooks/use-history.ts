@@ -0,0 +1,12 @@
+'use client';
+
+import { useStoredValue } from './use-stored-value';
+import { historyStorage } from '@/lib/stored-data';
+import type { HistoryEntry } from '@/lib/types';
+
+/** Calculation history from localStorage, migrated to the current entry format on read. */
+function useHistory(): [HistoryEntry[], (value: HistoryEntry[] | ((val: HistoryEntry[]) => HistoryEntry[])) => void] {
+  return useStoredValue(historyStorage);
+}
+
+export { useHistory };
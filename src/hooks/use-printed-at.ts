@@ -0,0 +1,24 @@
+'use client';
+
+import * as React from 'react';
+import { flushSync } from 'react-dom';
+
+/**
+ * When the page was last printed, or now before any print. Updated on
+ * `beforeprint`, so the Print button and the browser's own print command
+ * both stamp the document with the time it was produced.
+ */
+function usePrintedAt(): Date {
+  const [printedAt, setPrintedAt] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    // The print snapshot is taken right after the event, so render synchronously
+    const stamp = () => flushSync(() => setPrintedAt(new Date()));
+    window.addEventListener('beforeprint', stamp);
+    return () => window.removeEventListener('beforeprint', stamp);
+  }, []);
+
+  return printedAt;
+}
+
+export { usePrintedAt };
@@ -0,0 +1,17 @@
+'use client';
+
+import * as React from 'react';
+import { getStore, type StorageDefinition } from '@/lib/storage';
+
+/**
+ * A localStorage value shared by every component using the same definition,
+ * kept in sync across tabs. Renders `defaultValue` on the server and during
+ * hydration.
+ */
+function useStoredValue<T>(definition: StorageDefinition<T>): [T, (value: T | ((previous: T) => T)) => void] {
+  const store = getStore(definition);
+  const value = React.useSyncExternalStore(store.subscribe, store.get, () => definition.defaultValue);
+  return [value, store.set];
+}
+
+export { useStoredValue };
@@ -0,0 +1,305 @@
+import { z } from 'zod';
+import type { CurrencyData } from './constants';
+import type { UserProfile } from './types';
+
+/**
+ * Declarative calculator definitions.
+ *
+ * A definition describes a calculator's inputs, a pure `compute` function and
+ * how to present its outputs. `DefinedCalculator` renders any definition with
+ * the same card, bookmark toggle, validation, formatting and history logging
+ * that the hand-written components use, so a new calculator is just data plus
+ * a function.
+ */
+
+export type Units = NonNullable<UserProfile['preferredUnits']>;
+
+export interface CalculationContext {
+  currency: CurrencyData;
+  units: Units;
+}
+
+/** A label fragment that may depend on the user's currency or unit system. */
+export type ContextualText = string | ((context: CalculationContext) => string);
+
+export type InputKind =
+  | 'number'
+  | 'integer'
+  | 'currency'
+  | 'percent'
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'date'
+  | 'time';
+
+export interface InputOption {
+  value: string;
+  label: string;
+}
+
+/** Raw form values. Inputs are kept as strings, as in every other calculator form. */
+export type FormValues = Record<string, string>;
+
+export interface InputDefinition {
+  name: string;
+  label: string;
+  kind: InputKind;
+  /** Unit shown after the label, e.g. "cm" or `({ units }) => units === 'metric' ? 'm' : 'ft'`. */
+  unit?: ContextualText;
+  placeholder?: string;
+  description?: ContextualText;
+  defaultValue?: string;
+  /** Optional inputs may be left blank. */
+  optional?: boolean;
+  /** Inclusive lower bound for numeric inputs. */
+  min?: number;
+  /** Exclusive lower bound for numeric inputs, e.g. `0` for "must be positive". */
+  greaterThan?: number;
+  /** Inclusive upper bound for numeric inputs. */
+  max?: number;
+  step?: string;
+  /** Options for `select` inputs. */
+  options?: InputOption[];
+  /** Pattern for `text` inputs. */
+  pattern?: { regex: RegExp; message: string };
+  /** Hide (and skip validation of) the input unless this returns true. */
+  visibleWhen?: (values: FormValues) => boolean;
+}
+
+export type OutputFormat = 'number' | 'integer' | 'currency' | 'percent' | 'text';
+
+export type OutputValue = number | string | null;
+
+export interface OutputDefinition {
+  name: string;
+  label: string;
+  format: OutputFormat;
+  /** Fraction digits for `number` and `percent` formats. Defaults to 2. */
+  precision?: number;
+  unit?: ContextualText;
+  /** Primary outputs are emphasized in the result panel. */
+  primary?: boolean;
+  /** Secret outputs, e.g. generated passwords, are shown but never written to history. */
+  secret?: boolean;
+}
+
+export type TableRow = Record<string, OutputValue>;
+
+export interface TableColumn {
+  key: string;
+  label: ContextualText;
+  format: OutputFormat;
+  precision?: number;
+}
+
+export interface TableDefinition {
+  name: string;
+  title: ContextualText;
+  /** Columns missing from every row are not rendered. */
+  columns: TableColumn[];
+}
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+}
+
+export interface ChartDefinition {
+  name: string;
+  title: ContextualText;
+  type: 'line' | 'bar';
+  /** Key of the x-axis value in each data point. */
+  xKey: string;
+  series: ChartSeries[];
+}
+
+export interface CalculationResult {
+  /** Output values keyed by `OutputDefinition.name`. `null` values are not shown. */
+  outputs: Record<string, OutputValue>;
+  /** Table rows keyed by `TableDefinition.name`. */
+  tables?: Record<string, TableRow[]>;
+  /** Chart data keyed by `ChartDefinition.name`. */
+  charts?: Record<string, Array<Record<string, number | string>>>;
+  /** Free-text notes shown under the outputs, e.g. an interpretation of the result. */
+  notes?: string[];
+}
+
+/** Typed access to parsed form values inside `compute`. */
+export interface InputReader {
+  /** Parsed numeric value. Blank optional inputs read as `fallback` (default 0). */
+  number(name: string, fallback?: number): number;
+  /** Parsed numeric value, or `undefined` if the input was left blank. */
+  optionalNumber(name: string): number | undefined;
+  /** Trimmed string value. */
+  string(name: string): string;
+  /** The untouched form values. */
+  raw: FormValues;
+}
+
+export interface CalculatorDefinition {
+  /** Bumped whenever inputs change shape, so stored entries can be matched to their form. */
+  version: number;
+  inputs: InputDefinition[];
+  outputs: OutputDefinition[];
+  tables?: TableDefinition[];
+  charts?: ChartDefinition[];
+  /** Pure calculation. Throw `CalculationError` for problems the user can fix. */
+  compute: (input: InputReader, context: CalculationContext) => CalculationResult;
+  submitLabel?: string;
+  resultTitle?: ContextualText;
+  /** Number of input columns on medium+ screens. Defaults to 1. */
+  columns?: 1 | 2 | 3;
+  /** Small print shown under the results. */
+  disclaimer?: string;
+}
+
+/**
+ * Thrown from `compute` when inputs are individually valid but cannot be
+ * calculated together. `field` attaches the message to a specific input.
+ */
+export class CalculationError extends Error {
+  field?: string;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = 'CalculationError';
+    this.field = field;
+  }
+}
+
+/** Identity helper that gives definitions contextual typing. */
+export function defineCalculator(definition: CalculatorDefinition): CalculatorDefinition {
+  return definition;
+}
+
+export function resolveText(text: ContextualText | undefined, context: CalculationContext): string | undefined {
+  return typeof text === 'function' ? text(context) : text;
+}
+
+const NUMERIC_KINDS: InputKind[] = ['number', 'integer', 'currency', 'percent'];
+
+export function isNumericInput(input: InputDefinition): boolean {
+  return NUMERIC_KINDS.includes(input.kind);
+}
+
+export function isInputVisible(input: InputDefinition, values: FormValues): boolean {
+  return input.visibleWhen ? input.visibleWhen(values) : true;
+}
+
+export function getDefaultValues(definition: CalculatorDefinition): FormValues {
+  return Object.fromEntries(
+    definition.inputs.map(input => [input.name, input.defaultValue ?? (input.kind === 'select' ? input.options?.[0]?.value ?? '' : '')])
+  );
+}
+
+function validateInput(input: InputDefinition, value: string): string | null {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return input.optional ? null : `${input.label} is required.`;
+  }
+
+  if (input.kind === 'select') {
+    return input.options?.some(option => option.value === trimmed) ? null : `Select a valid ${input.label.toLowerCase()}.`;
+  }
+
+  if (input.kind === 'text' && input.pattern && !input.pattern.regex.test(trimmed)) {
+    return input.pattern.message;
+  }
+
+  if (!isNumericInput(input)) {
+    return null;
+  }
+
+  const parsed = Number(trimmed);
+  if (!isFinite(parsed)) {
+    return `${input.label} must be a number.`;
+  }
+  if (input.kind === 'integer' && !Number.isInteger(parsed)) {
+    return `${input.label} must be a whole number.`;
+  }
+  if (input.greaterThan !== undefined && parsed <= input.greaterThan) {
+    return input.greaterThan === 0 ? `${input.label} must be a positive number.` : `${input.label} must be greater than ${input.greaterThan}.`;
+  }
+  if (input.min !== undefined && parsed < input.min) {
+    return input.min === 0 ? `${input.label} must be zero or positive.` : `${input.label} must be at least ${input.min}.`;
+  }
+  if (input.max !== undefined && parsed > input.max) {
+    return `${input.label} must be at most ${input.max}.`;
+  }
+  return null;
+}
+
+/**
+ * Builds the zod schema for a definition's form. Hidden inputs are skipped so
+ * `visibleWhen` can switch between modes without tripping validation.
+ */
+export function buildFormSchema(definition: CalculatorDefinition) {
+  const shape = Object.fromEntries(definition.inputs.map(input => [input.name, z.string()]));
+
+  return z.object(shape).superRefine((values: FormValues, ctx) => {
+    for (const input of definition.inputs) {
+      if (!isInputVisible(input, values)) continue;
+      const message = validateInput(input, values[input.name] ?? '');
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [input.name] });
+      }
+    }
+  });
+}
+
+export function createInputReader(values: FormValues): InputReader {
+  return {
+    number(name, fallback = 0) {
+      const value = (values[name] ?? '').trim();
+      return value === '' ? fallback : Number(value);
+    },
+    optionalNumber(name) {
+      const value = (values[name] ?? '').trim();
+      return value === '' ? undefined : Number(value);
+    },
+    string(name) {
+      return (values[name] ?? '').trim();
+    },
+    raw: values,
+  };
+}
+
+/**
+ * Formats an output value the same way the hand-written calculators do:
+ * currency with two decimals and the currency symbol, percentages with `%`.
+ */
+export function formatOutputValue(value: OutputValue, format: OutputFormat, context: CalculationContext, precision = 2): string {
+  if (value === null) return 'N/A';
+  if (typeof value === 'string') return value;
+  if (!isFinite(value)) return value > 0 ? '∞' : value < 0 ? '-∞' : 'N/A';
+
+  switch (format) {
+    case 'currency':
+      return `${context.currency.symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${value.toLocaleString(undefined, { maximumFractionDigits: precision })}%`;
+    case 'integer':
+      return Math.round(value).toLocaleString();
+    case 'number':
+      return value.toLocaleString(undefined, { maximumFractionDigits: precision });
+    case 'text':
+      return String(value);
+  }
+}
+
+/** Formats a raw input value for the history log. */
+export function formatInputValue(input: InputDefinition, value: string, context: CalculationContext): string {
+  const trimmed = value.trim();
+  if (input.kind === 'select') {
+    return input.options?.find(option => option.value === trimmed)?.label ?? trimmed;
+  }
+  if (input.kind === 'currency' && trimmed !== '') {
+    return formatOutputValue(Number(trimmed), 'currency', context);
+  }
+  if (input.kind === 'percent' && trimmed !== '') {
+    return `${trimmed}%`;
+  }
+  const unit = resolveText(input.unit, context);
+  return unit && trimmed !== '' ? `${trimmed} ${unit}` : trimmed;
+}
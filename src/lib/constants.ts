@@ -246,179 +246,177 @@ export interface CurrencyData {
     code: string;
     name: string;
     symbol: string;
-    rate: number; // Rate relative to USD
 }
 
-// Currency list with mock rates (relative to USD) and symbols
-// Mock rates are indicative and should be replaced with a real-time API in production
+// Currency list with symbols. Exchange rates come from the rate service (src/services/currency.ts)
 export const CURRENCIES: CurrencyData[] = [
-    { code: "USD", name: "United States Dollar", symbol: "$", rate: 1.0 },
-    { code: "EUR", name: "Euro", symbol: "€", rate: 0.92 },
-    { code: "JPY", name: "Japanese Yen", symbol: "¥", rate: 150.5 },
-    { code: "GBP", name: "British Pound Sterling", symbol: "£", rate: 0.79 },
-    { code: "AUD", name: "Australian Dollar", symbol: "A$", rate: 1.52 },
-    { code: "CAD", name: "Canadian Dollar", symbol: "C$", rate: 1.35 },
-    { code: "CHF", name: "Swiss Franc", symbol: "CHF", rate: 0.88 },
-    { code: "CNY", name: "Chinese Yuan", symbol: "¥", rate: 7.19 },
-    { code: "HKD", name: "Hong Kong Dollar", symbol: "HK$", rate: 7.82 },
-    { code: "NZD", name: "New Zealand Dollar", symbol: "NZ$", rate: 1.66 },
-    { code: "SEK", name: "Swedish Krona", symbol: "kr", rate: 10.45 },
-    { code: "KRW", name: "South Korean Won", symbol: "₩", rate: 1330.0 },
-    { code: "SGD", name: "Singapore Dollar", symbol: "S$", rate: 1.34 },
-    { code: "NOK", name: "Norwegian Krone", symbol: "kr", rate: 10.6 },
-    { code: "MXN", name: "Mexican Peso", symbol: "$", rate: 17.1 },
-    { code: "INR", name: "Indian Rupee", symbol: "₹", rate: 83.0 },
-    { code: "RUB", name: "Russian Ruble", symbol: "₽", rate: 92.0 },
-    { code: "ZAR", name: "South African Rand", symbol: "R", rate: 18.9 },
-    { code: "TRY", name: "Turkish Lira", symbol: "₺", rate: 31.0 },
-    { code: "BRL", name: "Brazilian Real", symbol: "R$", rate: 4.95 },
-    { code: "TWD", name: "New Taiwan Dollar", symbol: "NT$", rate: 32.0 },
-    { code: "DKK", name: "Danish Krone", symbol: "kr", rate: 6.85 },
-    { code: "PLN", name: "Polish Złoty", symbol: "zł", rate: 4.00 },
-    { code: "THB", name: "Thai Baht", symbol: "฿", rate: 36.5 },
-    { code: "IDR", name: "Indonesian Rupiah", symbol: "Rp", rate: 15900.0 },
-    { code: "HUF", name: "Hungarian Forint", symbol: "Ft", rate: 360.0 },
-    { code: "CZK", name: "Czech Koruna", symbol: "Kč", rate: 23.0 },
-    { code: "ILS", name: "Israeli New Shekel", symbol: "₪", rate: 3.70 },
-    { code: "CLP", name: "Chilean Peso", symbol: "$", rate: 930.0 },
-    { code: "PHP", name: "Philippine Peso", symbol: "₱", rate: 57.5 },
-    { code: "AED", name: "UAE Dirham", symbol: "د.إ", rate: 3.67 },
-    { code: "COP", name: "Colombian Peso", symbol: "$", rate: 3900.0 },
-    { code: "SAR", name: "Saudi Riyal", symbol: "﷼", rate: 3.75 },
-    { code: "MYR", name: "Malaysian Ringgit", symbol: "RM", rate: 4.70 },
-    { code: "RON", name: "Romanian Leu", symbol: "lei", rate: 4.58 },
+    { code: "USD", name: "United States Dollar", symbol: "$" },
+    { code: "EUR", name: "Euro", symbol: "€" },
+    { code: "JPY", name: "Japanese Yen", symbol: "¥" },
+    { code: "GBP", name: "British Pound Sterling", symbol: "£" },
+    { code: "AUD", name: "Australian Dollar", symbol: "A$" },
+    { code: "CAD", name: "Canadian Dollar", symbol: "C$" },
+    { code: "CHF", name: "Swiss Franc", symbol: "CHF" },
+    { code: "CNY", name: "Chinese Yuan", symbol: "¥" },
+    { code: "HKD", name: "Hong Kong Dollar", symbol: "HK$" },
+    { code: "NZD", name: "New Zealand Dollar", symbol: "NZ$" },
+    { code: "SEK", name: "Swedish Krona", symbol: "kr" },
+    { code: "KRW", name: "South Korean Won", symbol: "₩" },
+    { code: "SGD", name: "Singapore Dollar", symbol: "S$" },
+    { code: "NOK", name: "Norwegian Krone", symbol: "kr" },
+    { code: "MXN", name: "Mexican Peso", symbol: "$" },
+    { code: "INR", name: "Indian Rupee", symbol: "₹" },
+    { code: "RUB", name: "Russian Ruble", symbol: "₽" },
+    { code: "ZAR", name: "South African Rand", symbol: "R" },
+    { code: "TRY", name: "Turkish Lira", symbol: "₺" },
+    { code: "BRL", name: "Brazilian Real", symbol: "R$" },
+    { code: "TWD", name: "New Taiwan Dollar", symbol: "NT$" },
+    { code: "DKK", name: "Danish Krone", symbol: "kr" },
+    { code: "PLN", name: "Polish Złoty", symbol: "zł" },
+    { code: "THB", name: "Thai Baht", symbol: "฿" },
+    { code: "IDR", name: "Indonesian Rupiah", symbol: "Rp" },
+    { code: "HUF", name: "Hungarian Forint", symbol: "Ft" },
+    { code: "CZK", name: "Czech Koruna", symbol: "Kč" },
+    { code: "ILS", name: "Israeli New Shekel", symbol: "₪" },
+    { code: "CLP", name: "Chilean Peso", symbol: "$" },
+    { code: "PHP", name: "Philippine Peso", symbol: "₱" },
+    { code: "AED", name: "UAE Dirham", symbol: "د.إ" },
+    { code: "COP", name: "Colombian Peso", symbol: "$" },
+    { code: "SAR", name: "Saudi Riyal", symbol: "﷼" },
+    { code: "MYR", name: "Malaysian Ringgit", symbol: "RM" },
+    { code: "RON", name: "Romanian Leu", symbol: "lei" },
     // Add all other currencies from the user's list
-    { code: "AFN", name: "Afghan Afghani", symbol: "؋", rate: 71.5 },
-    { code: "ALL", name: "Albanian Lek", symbol: "L", rate: 95.0 },
-    { code: "AMD", name: "Armenian Dram", symbol: "֏", rate: 400.0 },
-    { code: "ANG", name: "Netherlands Antillean Guilder", symbol: "ƒ", rate: 1.79 },
-    { code: "AOA", name: "Angolan Kwanza", symbol: "Kz", rate: 830.0 },
-    { code: "ARS", name: "Argentine Peso", symbol: "$", rate: 835.0 },
-    { code: "AWG", name: "Aruban Florin", symbol: "ƒ", rate: 1.79 },
-    { code: "AZN", name: "Azerbaijani Manat", symbol: "₼", rate: 1.70 },
-    { code: "BAM", name: "Bosnia-Herzegovina Convertible Mark", symbol: "KM", rate: 1.80 },
-    { code: "BBD", name: "Barbadian Dollar", symbol: "$", rate: 2.00 },
-    { code: "BDT", name: "Bangladeshi Taka", symbol: "৳", rate: 110.0 },
-    { code: "BGN", name: "Bulgarian Lev", symbol: "лв", rate: 1.80 },
-    { code: "BHD", name: "Bahraini Dinar", symbol: ".د.ب", rate: 0.38 },
-    { code: "BIF", name: "Burundian Franc", symbol: "FBu", rate: 2850.0 },
-    { code: "BMD", name: "Bermudan Dollar", symbol: "$", rate: 1.00 },
-    { code: "BND", name: "Brunei Dollar", symbol: "$", rate: 1.34 },
-    { code: "BOB", name: "Bolivian Boliviano", symbol: "Bs.", rate: 6.90 },
-    { code: "BSD", name: "Bahamian Dollar", symbol: "$", rate: 1.00 },
-    { code: "BTN", name: "Bhutanese Ngultrum", symbol: "Nu.", rate: 83.0 },
-    { code: "BWP", name: "Botswanan Pula", symbol: "P", rate: 13.5 },
-    { code: "BYN", name: "Belarusian Ruble", symbol: "Br", rate: 3.25 },
-    { code: "BZD", name: "Belize Dollar", symbol: "BZ$", rate: 2.00 },
-    { code: "CDF", name: "Congolese Franc", symbol: "FC", rate: 2750.0 },
-    { code: "CRC", name: "Costa Rican Colón", symbol: "₡", rate: 515.0 },
-    { code: "CUP", name: "Cuban Peso", symbol: "$", rate: 24.0 },
-    { code: "CVE", name: "Cape Verdean Escudo", symbol: "$", rate: 102.0 },
-    { code: "DJF", name: "Djiboutian Franc", symbol: "Fdj", rate: 177.0 },
-    { code: "DOP", name: "Dominican Peso", symbol: "RD$", rate: 58.0 },
-    { code: "DZD", name: "Algerian Dinar", symbol: "د.ج", rate: 135.0 },
-    { code: "EGP", name: "Egyptian Pound", symbol: "£", rate: 47.5 },
-    { code: "ERN", name: "Eritrean Nakfa", symbol: "Nfk", rate: 15.0 },
-    { code: "ETB", name: "Ethiopian Birr", symbol: "Br", rate: 57.0 },
-    { code: "FJD", name: "Fijian Dollar", symbol: "$", rate: 2.25 },
-    { code: "FKP", name: "Falkland Islands Pound", symbol: "£", rate: 0.79 },
-    { code: "FOK", name: "Faroese Krona", symbol: "kr", rate: 6.85 },
-    { code: "GEL", name: "Georgian Lari", symbol: "₾", rate: 2.70 },
-    { code: "GGP", name: "Guernsey Pound", symbol: "£", rate: 0.79 },
-    { code: "GHS", name: "Ghanaian Cedi", symbol: "₵", rate: 13.0 },
-    { code: "GIP", name: "Gibraltar Pound", symbol: "£", rate: 0.79 },
-    { code: "GMD", name: "Gambian Dalasi", symbol: "D", rate: 65.0 },
-    { code: "GNF", name: "Guinean Franc", symbol: "FG", rate: 8600.0 },
-    { code: "GTQ", name: "Guatemalan Quetzal", symbol: "Q", rate: 7.80 },
-    { code: "GYD", name: "Guyanaese Dollar", symbol: "$", rate: 209.0 },
-    { code: "HNL", name: "Honduran Lempira", symbol: "L", rate: 24.7 },
-    { code: "HRK", name: "Croatian Kuna", symbol: "kn", rate: 7.0 }, // Pre-Euro
-    { code: "HTG", name: "Haitian Gourde", symbol: "G", rate: 132.0 },
-    { code: "IDR", name: "Indonesian Rupiah", symbol: "Rp", rate: 15900.0 },
-    { code: "ILS", name: "Israeli New Shekel", symbol: "₪", rate: 3.70 },
-    { code: "IMP", name: "Isle of Man Pound", symbol: "£", rate: 0.79 },
-    { code: "IQD", name: "Iraqi Dinar", symbol: "ع.د", rate: 1310.0 },
-    { code: "IRR", name: "Iranian Rial", symbol: "﷼", rate: 42100.0 },
-    { code: "ISK", name: "Icelandic Króna", symbol: "kr", rate: 138.0 },
-    { code: "JEP", name: "Jersey Pound", symbol: "£", rate: 0.79 },
-    { code: "JMD", name: "Jamaican Dollar", symbol: "J$", rate: 155.0 },
-    { code: "JOD", name: "Jordanian Dinar", symbol: "JD", rate: 0.71 },
-    { code: "KES", name: "Kenyan Shilling", symbol: "KSh", rate: 130.0 },
-    { code: "KGS", name: "Kyrgystani Som", symbol: "с", rate: 88.0 },
-    { code: "KHR", name: "Cambodian Riel", symbol: "៛", rate: 4100.0 },
-    { code: "KID", name: "Kiribati Dollar", symbol: "$", rate: 1.52 },
-    { code: "KMF", name: "Comorian Franc", symbol: "CF", rate: 450.0 },
-    { code: "KWD", name: "Kuwaiti Dinar", symbol: "د.ك", rate: 0.31 },
-    { code: "KYD", name: "Cayman Islands Dollar", symbol: "$", rate: 0.83 },
-    { code: "KZT", name: "Kazakhstani Tenge", symbol: "₸", rate: 445.0 },
-    { code: "LAK", name: "Laotian Kip", symbol: "₭", rate: 20500.0 },
-    { code: "LBP", name: "Lebanese Pound", symbol: "ل.ل", rate: 89500.0 },
-    { code: "LKR", name: "Sri Lankan Rupee", symbol: "Rs", rate: 300.0 },
-    { code: "LRD", name: "Liberian Dollar", symbol: "$", rate: 190.0 },
-    { code: "LSL", name: "Lesotho Loti", symbol: "L", rate: 18.5 },
-    { code: "LYD", name: "Libyan Dinar", symbol: "ل.د", rate: 4.85 },
-    { code: "MAD", name: "Moroccan Dirham", symbol: "د.م.", rate: 10.0 },
-    { code: "MDL", name: "Moldovan Leu", symbol: "L", rate: 17.7 },
-    { code: "MGA", name: "Malagasy Ariary", symbol: "Ar", rate: 4400.0 },
-    { code: "MKD", name: "Macedonian Denar", symbol: "ден", rate: 56.5 },
-    { code: "MMK", name: "Myanma Kyat", symbol: "K", rate: 2100.0 },
-    { code: "MNT", name: "Mongolian Tugrik", symbol: "₮", rate: 3400.0 },
-    { code: "MOP", name: "Macanese Pataca", symbol: "P", rate: 8.05 },
-    { code: "MRU", name: "Mauritanian Ouguiya", symbol: "UM", rate: 39.5 },
-    { code: "MUR", name: "Mauritian Rupee", symbol: "₨", rate: 46.0 },
-    { code: "MVR", name: "Maldivian Rufiyaa", symbol: ".ރ", rate: 15.4 },
-    { code: "MWK", name: "Malawian Kwacha", symbol: "MK", rate: 1750.0 },
-    { code: "MZN", name: "Mozambican Metical", symbol: "MT", rate: 63.5 },
-    { code: "NAD", name: "Namibian Dollar", symbol: "$", rate: 18.5 },
-    { code: "NGN", name: "Nigerian Naira", symbol: "₦", rate: 1450.0 },
-    { code: "NIO", name: "Nicaraguan Córdoba", symbol: "C$", rate: 36.8 },
-    { code: "NPR", name: "Nepalese Rupee", symbol: "₨", rate: 133.0 },
-    { code: "OMR", name: "Omani Rial", symbol: "﷼", rate: 0.38 },
-    { code: "PAB", name: "Panamanian Balboa", symbol: "B/.", rate: 1.00 },
-    { code: "PEN", name: "Peruvian Nuevo Sol", symbol: "S/.", rate: 3.75 },
-    { code: "PGK", name: "Papua New Guinean Kina", symbol: "K", rate: 3.80 },
-    { code: "PHP", name: "Philippine Peso", symbol: "₱", rate: 57.5 },
-    { code: "PKR", name: "Pakistani Rupee", symbol: "₨", rate: 278.0 },
-    { code: "PYG", name: "Paraguayan Guarani", symbol: "₲", rate: 7250.0 },
-    { code: "QAR", name: "Qatari Rial", symbol: "﷼", rate: 3.64 },
-    { code: "RSD", name: "Serbian Dinar", symbol: "дин.", rate: 108.0 },
-    { code: "RWF", name: "Rwandan Franc", symbol: "RF", rate: 1290.0 },
-    { code: "SBD", name: "Solomon Islands Dollar", symbol: "$", rate: 8.35 },
-    { code: "SCR", name: "Seychellois Rupee", symbol: "₨", rate: 13.5 },
-    { code: "SDG", name: "Sudanese Pound", symbol: "ج.س.", rate: 600.0 },
-    { code: "SHP", name: "Saint Helena Pound", symbol: "£", rate: 0.79 },
-    { code: "SLE", name: "Sierra Leonean Leone (new)", symbol: "Le", rate: 22.5 },
-    { code: "SLL", name: "Sierra Leonean Leone (old - might still be seen)", symbol: "Le", rate: 22500.0 },
-    { code: "SOS", name: "Somali Shilling", symbol: "S", rate: 570.0 },
-    { code: "SRD", name: "Surinamese Dollar", symbol: "$", rate: 35.0 },
-    { code: "SSP", name: "South Sudanese Pound", symbol: "£", rate: 130.0 },
-    { code: "STN", name: "São Tomé and Príncipe Dobra", symbol: "Db", rate: 24.5 },
-    { code: "SYP", name: "Syrian Pound", symbol: "£", rate: 13000.0 },
-    { code: "SZL", name: "Eswatini Lilangeni", symbol: "L", rate: 18.5 },
-    { code: "TJS", name: "Tajikistani Somoni", symbol: "SM", rate: 10.9 },
-    { code: "TMT", name: "Turkmenistani Manat", symbol: "T", rate: 3.50 },
-    { code: "TND", name: "Tunisian Dinar", symbol: "د.ت", rate: 3.10 },
-    { code: "TOP", name: "Tongan Paʻanga", symbol: "T$", rate: 2.35 },
-    { code: "TTD", name: "Trinidad and Tobago Dollar", symbol: "TT$", rate: 6.75 },
-    { code: "TVD", name: "Tuvaluan Dollar", symbol: "$", rate: 1.52 },
-    { code: "TZS", name: "Tanzanian Shilling", symbol: "TSh", rate: 2550.0 },
-    { code: "UAH", name: "Ukrainian Hryvnia", symbol: "₴", rate: 38.0 },
-    { code: "UGX", name: "Ugandan Shilling", symbol: "USh", rate: 3800.0 },
-    { code: "UYU", name: "Uruguayan Peso", symbol: "$U", rate: 39.0 },
-    { code: "UZS", name: "Uzbekistan Som", symbol: "лв", rate: 12600.0 },
-    { code: "VES", name: "Venezuelan Bolívar Soberano", symbol: "Bs.", rate: 36.3 },
-    { code: "VND", name: "Vietnamese Dong", symbol: "₫", rate: 24500.0 },
-    { code: "VUV", name: "Vanuatu Vatu", symbol: "VT", rate: 118.0 },
-    { code: "WST", name: "Samoan Tala", symbol: "T", rate: 2.75 },
-    { code: "XAF", name: "CFA Franc BEAC", symbol: "FCFA", rate: 605.0 },
-    { code: "XCD", name: "East Caribbean Dollar", symbol: "$", rate: 2.70 },
+    { code: "AFN", name: "Afghan Afghani", symbol: "؋" },
+    { code: "ALL", name: "Albanian Lek", symbol: "L" },
+    { code: "AMD", name: "Armenian Dram", symbol: "֏" },
+    { code: "ANG", name: "Netherlands Antillean Guilder", symbol: "ƒ" },
+    { code: "AOA", name: "Angolan Kwanza", symbol: "Kz" },
+    { code: "ARS", name: "Argentine Peso", symbol: "$" },
+    { code: "AWG", name: "Aruban Florin", symbol: "ƒ" },
+    { code: "AZN", name: "Azerbaijani Manat", symbol: "₼" },
+    { code: "BAM", name: "Bosnia-Herzegovina Convertible Mark", symbol: "KM" },
+    { code: "BBD", name: "Barbadian Dollar", symbol: "$" },
+    { code: "BDT", name: "Bangladeshi Taka", symbol: "৳" },
+    { code: "BGN", name: "Bulgarian Lev", symbol: "лв" },
+    { code: "BHD", name: "Bahraini Dinar", symbol: ".د.ب" },
+    { code: "BIF", name: "Burundian Franc", symbol: "FBu" },
+    { code: "BMD", name: "Bermudan Dollar", symbol: "$" },
+    { code: "BND", name: "Brunei Dollar", symbol: "$" },
+    { code: "BOB", name: "Bolivian Boliviano", symbol: "Bs." },
+    { code: "BSD", name: "Bahamian Dollar", symbol: "$" },
+    { code: "BTN", name: "Bhutanese Ngultrum", symbol: "Nu." },
+    { code: "BWP", name: "Botswanan Pula", symbol: "P" },
+    { code: "BYN", name: "Belarusian Ruble", symbol: "Br" },
+    { code: "BZD", name: "Belize Dollar", symbol: "BZ$" },
+    { code: "CDF", name: "Congolese Franc", symbol: "FC" },
+    { code: "CRC", name: "Costa Rican Colón", symbol: "₡" },
+    { code: "CUP", name: "Cuban Peso", symbol: "$" },
+    { code: "CVE", name: "Cape Verdean Escudo", symbol: "$" },
+    { code: "DJF", name: "Djiboutian Franc", symbol: "Fdj" },
+    { code: "DOP", name: "Dominican Peso", symbol: "RD$" },
+    { code: "DZD", name: "Algerian Dinar", symbol: "د.ج" },
+    { code: "EGP", name: "Egyptian Pound", symbol: "£" },
+    { code: "ERN", name: "Eritrean Nakfa", symbol: "Nfk" },
+    { code: "ETB", name: "Ethiopian Birr", symbol: "Br" },
+    { code: "FJD", name: "Fijian Dollar", symbol: "$" },
+    { code: "FKP", name: "Falkland Islands Pound", symbol: "£" },
+    { code: "FOK", name: "Faroese Krona", symbol: "kr" },
+    { code: "GEL", name: "Georgian Lari", symbol: "₾" },
+    { code: "GGP", name: "Guernsey Pound", symbol: "£" },
+    { code: "GHS", name: "Ghanaian Cedi", symbol: "₵" },
+    { code: "GIP", name: "Gibraltar Pound", symbol: "£" },
+    { code: "GMD", name: "Gambian Dalasi", symbol: "D" },
+    { code: "GNF", name: "Guinean Franc", symbol: "FG" },
+    { code: "GTQ", name: "Guatemalan Quetzal", symbol: "Q" },
+    { code: "GYD", name: "Guyanaese Dollar", symbol: "$" },
+    { code: "HNL", name: "Honduran Lempira", symbol: "L" },
+    { code: "HRK", name: "Croatian Kuna", symbol: "kn" }, // Pre-Euro
+    { code: "HTG", name: "Haitian Gourde", symbol: "G" },
+    { code: "IDR", name: "Indonesian Rupiah", symbol: "Rp" },
+    { code: "ILS", name: "Israeli New Shekel", symbol: "₪" },
+    { code: "IMP", name: "Isle of Man Pound", symbol: "£" },
+    { code: "IQD", name: "Iraqi Dinar", symbol: "ع.د" },
+    { code: "IRR", name: "Iranian Rial", symbol: "﷼" },
+    { code: "ISK", name: "Icelandic Króna", symbol: "kr" },
+    { code: "JEP", name: "Jersey Pound", symbol: "£" },
+    { code: "JMD", name: "Jamaican Dollar", symbol: "J$" },
+    { code: "JOD", name: "Jordanian Dinar", symbol: "JD" },
+    { code: "KES", name: "Kenyan Shilling", symbol: "KSh" },
+    { code: "KGS", name: "Kyrgystani Som", symbol: "с" },
+    { code: "KHR", name: "Cambodian Riel", symbol: "៛" },
+    { code: "KID", name: "Kiribati Dollar", symbol: "$" },
+    { code: "KMF", name: "Comorian Franc", symbol: "CF" },
+    { code: "KWD", name: "Kuwaiti Dinar", symbol: "د.ك" },
+    { code: "KYD", name: "Cayman Islands Dollar", symbol: "$" },
+    { code: "KZT", name: "Kazakhstani Tenge", symbol: "₸" },
+    { code: "LAK", name: "Laotian Kip", symbol: "₭" },
+    { code: "LBP", name: "Lebanese Pound", symbol: "ل.ل" },
+    { code: "LKR", name: "Sri Lankan Rupee", symbol: "Rs" },
+    { code: "LRD", name: "Liberian Dollar", symbol: "$" },
+    { code: "LSL", name: "Lesotho Loti", symbol: "L" },
+    { code: "LYD", name: "Libyan Dinar", symbol: "ل.د" },
+    { code: "MAD", name: "Moroccan Dirham", symbol: "د.م." },
+    { code: "MDL", name: "Moldovan Leu", symbol: "L" },
+    { code: "MGA", name: "Malagasy Ariary", symbol: "Ar" },
+    { code: "MKD", name: "Macedonian Denar", symbol: "ден" },
+    { code: "MMK", name: "Myanma Kyat", symbol: "K" },
+    { code: "MNT", name: "Mongolian Tugrik", symbol: "₮" },
+    { code: "MOP", name: "Macanese Pataca", symbol: "P" },
+    { code: "MRU", name: "Mauritanian Ouguiya", symbol: "UM" },
+    { code: "MUR", name: "Mauritian Rupee", symbol: "₨" },
+    { code: "MVR", name: "Maldivian Rufiyaa", symbol: ".ރ" },
+    { code: "MWK", name: "Malawian Kwacha", symbol: "MK" },
+    { code: "MZN", name: "Mozambican Metical", symbol: "MT" },
+    { code: "NAD", name: "Namibian Dollar", symbol: "$" },
+    { code: "NGN", name: "Nigerian Naira", symbol: "₦" },
+    { code: "NIO", name: "Nicaraguan Córdoba", symbol: "C$" },
+    { code: "NPR", name: "Nepalese Rupee", symbol: "₨" },
+    { code: "OMR", name: "Omani Rial", symbol: "﷼" },
+    { code: "PAB", name: "Panamanian Balboa", symbol: "B/." },
+    { code: "PEN", name: "Peruvian Nuevo Sol", symbol: "S/." },
+    { code: "PGK", name: "Papua New Guinean Kina", symbol: "K" },
+    { code: "PHP", name: "Philippine Peso", symbol: "₱" },
+    { code: "PKR", name: "Pakistani Rupee", symbol: "₨" },
+    { code: "PYG", name: "Paraguayan Guarani", symbol: "₲" },
+    { code: "QAR", name: "Qatari Rial", symbol: "﷼" },
+    { code: "RSD", name: "Serbian Dinar", symbol: "дин." },
+    { code: "RWF", name: "Rwandan Franc", symbol: "RF" },
+    { code: "SBD", name: "Solomon Islands Dollar", symbol: "$" },
+    { code: "SCR", name: "Seychellois Rupee", symbol: "₨" },
+    { code: "SDG", name: "Sudanese Pound", symbol: "ج.س." },
+    { code: "SHP", name: "Saint Helena Pound", symbol: "£" },
+    { code: "SLE", name: "Sierra Leonean Leone (new)", symbol: "Le" },
+    { code: "SLL", name: "Sierra Leonean Leone (old - might still be seen)", symbol: "Le" },
+    { code: "SOS", name: "Somali Shilling", symbol: "S" },
+    { code: "SRD", name: "Surinamese Dollar", symbol: "$" },
+    { code: "SSP", name: "South Sudanese Pound", symbol: "£" },
+    { code: "STN", name: "São Tomé and Príncipe Dobra", symbol: "Db" },
+    { code: "SYP", name: "Syrian Pound", symbol: "£" },
+    { code: "SZL", name: "Eswatini Lilangeni", symbol: "L" },
+    { code: "TJS", name: "Tajikistani Somoni", symbol: "SM" },
+    { code: "TMT", name: "Turkmenistani Manat", symbol: "T" },
+    { code: "TND", name: "Tunisian Dinar", symbol: "د.ت" },
+    { code: "TOP", name: "Tongan Paʻanga", symbol: "T$" },
+    { code: "TTD", name: "Trinidad and Tobago Dollar", symbol: "TT$" },
+    { code: "TVD", name: "Tuvaluan Dollar", symbol: "$" },
+    { code: "TZS", name: "Tanzanian Shilling", symbol: "TSh" },
+    { code: "UAH", name: "Ukrainian Hryvnia", symbol: "₴" },
+    { code: "UGX", name: "Ugandan Shilling", symbol: "USh" },
+    { code: "UYU", name: "Uruguayan Peso", symbol: "$U" },
+    { code: "UZS", name: "Uzbekistan Som", symbol: "лв" },
+    { code: "VES", name: "Venezuelan Bolívar Soberano", symbol: "Bs." },
+    { code: "VND", name: "Vietnamese Dong", symbol: "₫" },
+    { code: "VUV", name: "Vanuatu Vatu", symbol: "VT" },
+    { code: "WST", name: "Samoan Tala", symbol: "T" },
+    { code: "XAF", name: "CFA Franc BEAC", symbol: "FCFA" },
+    { code: "XCD", name: "East Caribbean Dollar", symbol: "$" },
     // XDR is a special case, rate is approx, symbol might not render well universally
-    { code: "XDR", name: "Special Drawing Rights", symbol: "SDR", rate: 0.75 },
-    { code: "XOF", name: "CFA Franc BCEAO", symbol: "FCFA", rate: 605.0 },
-    { code: "XPF", name: "CFP Franc", symbol: "₣", rate: 110.0 },
-    { code: "YER", name: "Yemeni Rial", symbol: "﷼", rate: 250.0 },
-    { code: "ZMW", name: "Zambian Kwacha", symbol: "ZK", rate: 25.0 },
-    { code: "ZWL", name: "Zimbabwean Dollar", symbol: "$", rate: 10000.0 }, // Highly volatile
+    { code: "XDR", name: "Special Drawing Rights", symbol: "SDR" },
+    { code: "XOF", name: "CFA Franc BCEAO", symbol: "FCFA" },
+    { code: "XPF", name: "CFP Franc", symbol: "₣" },
+    { code: "YER", name: "Yemeni Rial", symbol: "﷼" },
+    { code: "ZMW", name: "Zambian Kwacha", symbol: "ZK" },
+    { code: "ZWL", name: "Zimbabwean Dollar", symbol: "$" }, // Highly volatile
 ].filter((currency, index, self) =>
     index === self.findIndex((c) => (
         c.code === currency.code // Keep only the first occurrence of each code
@@ -437,6 +435,11 @@ export const APP_DESCRIPTION = "Your all-in-one calculator for finance, health,
 export const HISTORY_STORAGE_KEY = 'mathlet_calculation_history';
 export const PROFILE_STORAGE_KEY = 'mathlet_user_profile';
 export const FAVORITES_STORAGE_KEY = 'mathlet_favorite_calculators'; // Key for favorites
+export const EXCHANGE_RATES_STORAGE_KEY = 'mathlet_exchange_rates'; // Cached rate table
+export const EXCHANGE_RATE_HISTORY_STORAGE_KEY = 'mathlet_exchange_rate_history'; // Stored daily rate series
+export const SCENARIOS_STORAGE_KEY = 'mathlet_scenarios'; // Saved named input sets
+export const SYNC_STATE_STORAGE_KEY = 'mathlet_sync_state'; // Account sync base snapshot
+export const STORAGE_VERSIONS_KEY = 'mathlet_storage_versions'; // Stored shape version per key
 
 // Helper to get icon by slug (can be used if needed)
 export const getCalculatorIcon = (slug: string): LucideIcon => {
@@ -0,0 +1,17 @@
+/** Saves generated text or bytes as a file through a temporary object URL. Browser only. */
+export function downloadFile(fileName: string, content: string | Uint8Array, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** `mathlet-history-2026-01-31.csv` style names. */
+export function datedFileName(prefix: string, extension: string, date = new Date()): string {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return `${prefix}-${day}.${extension}`;
+}
@@ -0,0 +1,21 @@
+/**
+ * Expression syntax tree. Every node keeps the source position of the token
+ * it came from (the operator for unary and binary nodes) for error reporting.
+ */
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | 'mod';
+export type PrefixOperator = '-' | '+' | '√';
+export type PostfixOperator = '!' | '%' | '²' | '³';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'prefix'; operator: PrefixOperator; operand: ExpressionNode; position: number }
+  | { type: 'postfix'; operator: PostfixOperator; operand: ExpressionNode; position: number }
+  /** `implicit` marks multiplication written by juxtaposition, e.g. `2pi`. */
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number; implicit?: boolean }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+export type Statement =
+  | { type: 'assignment'; name: string; value: ExpressionNode; position: number }
+  | { type: 'expression'; expression: ExpressionNode };
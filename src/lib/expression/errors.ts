@@ -0,0 +1,25 @@
+/**
+ * Thrown by the tokenizer, parser and evaluator. `position` and `length`
+ * locate the offending token in the source so the message can point at it.
+ */
+export class ExpressionError extends Error {
+  position: number;
+  length: number;
+
+  constructor(message: string, position: number, length = 1) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+    this.length = length;
+  }
+}
+
+/**
+ * Formats an error with its column and the source marked at the offending
+ * token, e.g. `Unexpected ")" at column 9: 2 * (3 + ▸)`.
+ */
+export function describeExpressionError(source: string, error: ExpressionError): string {
+  const position = Math.min(error.position, source.length);
+  const marked = `${source.slice(0, position)}▸${source.slice(position)}`.trim();
+  return `${error.message} at column ${position + 1}: ${marked}`;
+}
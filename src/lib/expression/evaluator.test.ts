@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionError } from './errors';
+import { LineError, evaluateLines, execute, type Environment } from './evaluator';
+import { parse } from './parser';
+
+const env = (variables: Record<string, number> = {}): Environment => ({ angleMode: 'deg', variables });
+
+const run = (source: string, environment = env()) => execute(parse(source), environment);
+
+function errorFor(source: string, environment = env()): ExpressionError {
+  try {
+    run(source, environment);
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+  throw new Error(`${source} did not fail`);
+}
+
+describe('function calls', () => {
+  it.each([
+    ['sin()', 'sin takes 1 argument'],
+    ['sin(1, 2)', 'sin takes 1 argument'],
+    ['atan2(1)', 'atan2 takes 2 arguments'],
+    ['log(1, 2, 3)', 'log takes 1 or 2 arguments'],
+    ['max()', 'max takes at least 1 arguments'],
+  ])('rejects %s', (source, message) => {
+    const error = errorFor(source);
+    expect(error.message).toBe(message);
+    expect(error).toMatchObject({ position: 0, length: source.indexOf('(') });
+  });
+
+  it('accepts every arity in range', () => {
+    expect(run('log(100)')).toBeCloseTo(2, 12);
+    expect(run('log(8, 2)')).toBeCloseTo(3, 12);
+    expect(run('max(1, 5, 3, 4)')).toBe(5);
+    expect(run('round(2.345, 2)')).toBe(2.35);
+  });
+
+  it('uses the angle mode for trigonometry', () => {
+    expect(run('sin(30)')).toBeCloseTo(0.5, 12);
+    expect(run('cos(90)')).toBe(0);
+    expect(execute(parse('sin(pi / 6)'), { angleMode: 'rad', variables: {} })).toBeCloseTo(0.5, 12);
+  });
+});
+
+describe('unknown identifiers', () => {
+  it('names the unknown variable or function', () => {
+    expect(errorFor('2 + foo')).toMatchObject({ message: 'Unknown variable "foo"', position: 4, length: 3 });
+    expect(errorFor('foo(2)')).toMatchObject({ message: 'Unknown function "foo"', position: 0, length: 3 });
+  });
+
+  it('asks for parentheses on a bare function name', () => {
+    expect(errorFor('2 * sqrt').message).toBe('Function "sqrt" needs parentheses, e.g. sqrt(x)');
+  });
+
+  it('prefers a variable over a constant of the same name', () => {
+    expect(run('e', env({ e: 2 }))).toBe(2);
+    expect(run('e')).toBe(Math.E);
+  });
+
+  it('refuses to assign to constants, functions and ans', () => {
+    expect(errorFor('pi = 3').message).toBe('"pi" is reserved and cannot be assigned');
+    expect(errorFor('sin = 1').message).toBe('"sin" is reserved and cannot be assigned');
+    expect(errorFor('ans = 1').message).toBe('"ans" is reserved and cannot be assigned');
+  });
+});
+
+describe('division by zero', () => {
+  it('fails at the operator for / and mod', () => {
+    expect(errorFor('1 / (2 - 2)')).toMatchObject({ message: 'Division by zero', position: 2 });
+    expect(errorFor('5 mod 0')).toMatchObject({ message: 'Division by zero', position: 2, length: 3 });
+  });
+
+  it('rejects results that are not real or finite', () => {
+    expect(errorFor('ln(0)').message).toBe('ln(0) is too large');
+    expect(errorFor('sqrt(-1)').message).toBe('sqrt(-1) is not a real number');
+    expect(errorFor('tan(90)').message).toBe('tan(90) is not a real number');
+    expect(errorFor('0^-1').message).toBe('0^-1 is too large');
+  });
+
+  it('takes the sign of the divisor for mod', () => {
+    expect(run('-7 mod 3')).toBe(2);
+    expect(run('7 mod -3')).toBe(-2);
+  });
+});
+
+describe('evaluateLines', () => {
+  it('carries variables and ans between lines', () => {
+    const variables: Record<string, number> = {};
+    const lines = evaluateLines('r = 2\n\nans * 3\nr + ans', env(variables));
+    expect(lines.map(line => [line.line, line.value, line.assigned])).toEqual([[1, 2, 'r'], [3, 6, undefined], [4, 8, undefined]]);
+    expect(variables).toEqual({ r: 2, ans: 8 });
+  });
+
+  it('reports the failing line', () => {
+    const error = (() => {
+      try {
+        evaluateLines('1\n2 / 0', env());
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(LineError);
+    expect(error).toMatchObject({ line: 2, source: '2 / 0', message: 'Division by zero' });
+  });
+});
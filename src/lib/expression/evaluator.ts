@@ -0,0 +1,251 @@
+import { logGamma } from '@/lib/math/distributions';
+import type { ExpressionNode, Statement } from './ast';
+import { ExpressionError } from './errors';
+import { parse } from './parser';
+
+export type AngleMode = 'deg' | 'rad';
+
+export interface Environment {
+  angleMode: AngleMode;
+  /** User-defined variables, including `ans`. Assignments write here. */
+  variables: Record<string, number>;
+}
+
+interface MathFunction {
+  minArgs: number;
+  maxArgs: number;
+  evaluate: (args: number[], env: Environment) => number;
+}
+
+export const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+  phi: (1 + Math.sqrt(5)) / 2,
+};
+
+/** Values this close to zero are treated as zero, e.g. sin(180°). */
+const EPSILON = 1e-12;
+
+function toRadians(value: number, env: Environment): number {
+  return env.angleMode === 'deg' ? (value * Math.PI) / 180 : value;
+}
+
+function fromRadians(value: number, env: Environment): number {
+  return env.angleMode === 'deg' ? (value * 180) / Math.PI : value;
+}
+
+function snap(value: number): number {
+  return Math.abs(value) < EPSILON ? 0 : value;
+}
+
+/** Gamma function, so that `x!` also works for non-integers. */
+export function gamma(x: number): number {
+  if (Number.isInteger(x) && x <= 0) return NaN;
+  if (x < 0.5) return Math.PI / (Math.sin(Math.PI * x) * gamma(1 - x));
+  return Math.exp(logGamma(x));
+}
+
+function factorial(n: number): number {
+  if (!Number.isInteger(n)) return gamma(n + 1);
+  if (n < 0) return NaN;
+  let result = 1;
+  for (let i = 2; i <= n && isFinite(result); i++) result *= i;
+  return result;
+}
+
+function unary(evaluate: (x: number, env: Environment) => number): MathFunction {
+  return { minArgs: 1, maxArgs: 1, evaluate: ([x], env) => evaluate(x, env) };
+}
+
+function integerArgs(fn: (n: number, r: number) => number): MathFunction {
+  return {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([n, r]) => (Number.isInteger(n) && Number.isInteger(r) && r >= 0 && n >= r ? fn(n, r) : NaN),
+  };
+}
+
+export const FUNCTIONS: Record<string, MathFunction> = {
+  sin: unary((x, env) => snap(Math.sin(toRadians(x, env)))),
+  cos: unary((x, env) => snap(Math.cos(toRadians(x, env)))),
+  // tan is undefined where cos is zero (90°, 270°, …)
+  tan: unary((x, env) => (Math.abs(Math.cos(toRadians(x, env))) < EPSILON ? NaN : snap(Math.tan(toRadians(x, env))))),
+  asin: unary((x, env) => fromRadians(Math.asin(x), env)),
+  acos: unary((x, env) => fromRadians(Math.acos(x), env)),
+  atan: unary((x, env) => fromRadians(Math.atan(x), env)),
+  atan2: { minArgs: 2, maxArgs: 2, evaluate: ([y, x], env) => fromRadians(Math.atan2(y, x), env) },
+  sinh: unary(Math.sinh),
+  cosh: unary(Math.cosh),
+  tanh: unary(Math.tanh),
+  asinh: unary(Math.asinh),
+  acosh: unary(Math.acosh),
+  atanh: unary(Math.atanh),
+  ln: unary(Math.log),
+  // log(x) is base 10; log(x, b) is base b
+  log: { minArgs: 1, maxArgs: 2, evaluate: ([x, base]) => (base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base)) },
+  log2: unary(Math.log2),
+  exp: unary(Math.exp),
+  sqrt: unary(Math.sqrt),
+  cbrt: unary(Math.cbrt),
+  // root(x, n) is the real nth root, so odd roots of negatives work
+  root: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([x, n]) => (x < 0 && Number.isInteger(n) && n % 2 !== 0 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n)),
+  },
+  abs: unary(Math.abs),
+  sign: unary(Math.sign),
+  floor: unary(Math.floor),
+  ceil: unary(Math.ceil),
+  round: { minArgs: 1, maxArgs: 2, evaluate: ([x, places = 0]) => Math.round(x * 10 ** places) / 10 ** places },
+  min: { minArgs: 1, maxArgs: Infinity, evaluate: args => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, evaluate: args => Math.max(...args) },
+  gamma: unary(gamma),
+  fact: unary(factorial),
+  nPr: integerArgs((n, r) => factorial(n) / factorial(n - r)),
+  nCr: integerArgs((n, r) => Math.round(factorial(n) / (factorial(r) * factorial(n - r)))),
+};
+
+/** Names that cannot be assigned to. */
+export function isReserved(name: string): boolean {
+  return name in CONSTANTS || name in FUNCTIONS;
+}
+
+/** Rejects NaN and infinite intermediate results at the node that produced them. */
+function checked(value: number, position: number, what: string): number {
+  if (isNaN(value)) throw new ExpressionError(`${what} is not a real number`, position);
+  if (!isFinite(value)) throw new ExpressionError(`${what} is too large`, position);
+  return value;
+}
+
+function evaluatePostfix(node: Extract<ExpressionNode, { type: 'postfix' }>, env: Environment): number {
+  const operand = evaluate(node.operand, env);
+  switch (node.operator) {
+    case '!': return checked(factorial(operand), node.position, `${operand}!`);
+    case '%': return operand / 100;
+    case '²': return checked(operand ** 2, node.position, `${operand}²`);
+    case '³': return checked(operand ** 3, node.position, `${operand}³`);
+  }
+}
+
+function evaluateBinary(node: Extract<ExpressionNode, { type: 'binary' }>, env: Environment): number {
+  const left = evaluate(node.left, env);
+  const right = evaluate(node.right, env);
+  switch (node.operator) {
+    case '+': return checked(left + right, node.position, 'The sum');
+    case '-': return checked(left - right, node.position, 'The difference');
+    case '*': return checked(left * right, node.position, 'The product');
+    case '/':
+      if (right === 0) throw new ExpressionError('Division by zero', node.position);
+      return checked(left / right, node.position, 'The quotient');
+    case 'mod':
+      if (right === 0) throw new ExpressionError('Division by zero', node.position, 3);
+      // Mathematical modulo: the result has the sign of the divisor
+      return ((left % right) + right) % right;
+    case '^': return checked(Math.pow(left, right), node.position, `${left}^${right}`);
+  }
+}
+
+function evaluateCall(node: Extract<ExpressionNode, { type: 'call' }>, env: Environment): number {
+  const fn = FUNCTIONS[node.name];
+  if (!fn) {
+    // `x(2 + 1)` multiplies a variable or constant by a parenthesized value
+    if (node.args.length === 1 && (node.name in env.variables || node.name in CONSTANTS)) {
+      const factor = evaluate({ type: 'variable', name: node.name, position: node.position }, env);
+      return checked(factor * evaluate(node.args[0], env), node.position, 'The product');
+    }
+    throw new ExpressionError(`Unknown function "${node.name}"`, node.position, node.name.length);
+  }
+  if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+    const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs} or ${fn.maxArgs}`;
+    throw new ExpressionError(`${node.name} takes ${expected} argument${expected === '1' ? '' : 's'}`, node.position, node.name.length);
+  }
+  const args = node.args.map(arg => evaluate(arg, env));
+  return checked(fn.evaluate(args, env), node.position, `${node.name}(${args.join(', ')})`);
+}
+
+export function evaluate(node: ExpressionNode, env: Environment): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      if (node.name in env.variables) return env.variables[node.name];
+      if (node.name in CONSTANTS) return CONSTANTS[node.name];
+      if (node.name in FUNCTIONS) {
+        throw new ExpressionError(`Function "${node.name}" needs parentheses, e.g. ${node.name}(x)`, node.position, node.name.length);
+      }
+      throw new ExpressionError(`Unknown variable "${node.name}"`, node.position, node.name.length);
+    case 'prefix': {
+      const operand = evaluate(node.operand, env);
+      if (node.operator === '√') return checked(Math.sqrt(operand), node.position, `√${operand}`);
+      return node.operator === '-' ? -operand : operand;
+    }
+    case 'postfix':
+      return evaluatePostfix(node, env);
+    case 'binary':
+      return evaluateBinary(node, env);
+    case 'call':
+      return evaluateCall(node, env);
+  }
+}
+
+/**
+ * Runs a statement. Assignments store the value in `env.variables`.
+ *
+ * @returns The value of the expression or of the assigned variable.
+ */
+export function execute(statement: Statement, env: Environment): number {
+  if (statement.type === 'expression') return evaluate(statement.expression, env);
+  if (statement.name === 'ans' || isReserved(statement.name)) {
+    throw new ExpressionError(`"${statement.name}" is reserved and cannot be assigned`, statement.position, statement.name.length);
+  }
+  const value = evaluate(statement.value, env);
+  env.variables[statement.name] = value;
+  return value;
+}
+
+/** An `ExpressionError` raised on a specific line of a worksheet. */
+export class LineError extends ExpressionError {
+  line: number;
+  source: string;
+
+  constructor(error: ExpressionError, line: number, source: string) {
+    super(error.message, error.position, error.length);
+    this.name = 'LineError';
+    this.line = line;
+    this.source = source;
+  }
+}
+
+export interface EvaluatedLine {
+  /** 1-based line number in the input. */
+  line: number;
+  source: string;
+  value: number;
+  /** Name of the variable the line assigned, if any. */
+  assigned?: string;
+}
+
+/**
+ * Evaluates a worksheet of statements, one per line, skipping blank lines.
+ * After each line `ans` holds its value, so later lines can build on it.
+ *
+ * @throws ExpressionError with `line` set to the failing line.
+ */
+export function evaluateLines(source: string, env: Environment): EvaluatedLine[] {
+  const results: EvaluatedLine[] = [];
+  source.split('\n').forEach((text, index) => {
+    if (text.trim() === '') return;
+    try {
+      const statement = parse(text);
+      const value = execute(statement, env);
+      env.variables.ans = value;
+      results.push({ line: index + 1, source: text.trim(), value, assigned: statement.type === 'assignment' ? statement.name : undefined });
+    } catch (error) {
+      if (error instanceof ExpressionError) throw new LineError(error, index + 1, text);
+      throw error;
+    }
+  });
+  return results;
+}
@@ -0,0 +1,5 @@
+export type { ExpressionNode, Statement, BinaryOperator, PrefixOperator, PostfixOperator } from './ast';
+export { ExpressionError, describeExpressionError } from './errors';
+export { tokenize, type Token, type TokenType } from './tokenizer';
+export { parse } from './parser';
+export { evaluate, execute, evaluateLines, gamma, isReserved, CONSTANTS, FUNCTIONS, LineError, type AngleMode, type Environment, type EvaluatedLine } from './evaluator';
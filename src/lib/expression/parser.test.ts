@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ExpressionNode } from './ast';
+import { ExpressionError } from './errors';
+import { evaluate, type Environment } from './evaluator';
+import { parse } from './parser';
+
+const env = (): Environment => ({ angleMode: 'rad', variables: { x: 3, r: 2 } });
+
+function value(source: string): number {
+  const statement = parse(source);
+  if (statement.type !== 'expression') throw new Error(`${source} is an assignment`);
+  return evaluate(statement.expression, env());
+}
+
+/** Writes the tree with every binary and unary node in parentheses. */
+function grouped(source: string): string {
+  const show = (node: ExpressionNode): string => {
+    switch (node.type) {
+      case 'number': return String(node.value);
+      case 'variable': return node.name;
+      case 'prefix': return `(${node.operator}${show(node.operand)})`;
+      case 'postfix': return `(${show(node.operand)}${node.operator})`;
+      case 'binary': return `(${show(node.left)} ${node.operator} ${show(node.right)})`;
+      case 'call': return `${node.name}(${node.args.map(show).join(', ')})`;
+    }
+  };
+  const statement = parse(source);
+  return show(statement.type === 'expression' ? statement.expression : statement.value);
+}
+
+function errorFor(source: string): ExpressionError {
+  try {
+    value(source);
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+  throw new Error(`${source} did not fail`);
+}
+
+describe('precedence and associativity', () => {
+  it.each([
+    ['2^3^2', '(2 ^ (3 ^ 2))', 512],
+    ['-2^2', '(-(2 ^ 2))', -4],
+    ['2^-1', '(2 ^ (-1))', 0.5],
+    ['10 - 4 - 3', '((10 - 4) - 3)', 3],
+    ['24 / 4 / 2', '((24 / 4) / 2)', 3],
+    ['1 + 2 * 3', '(1 + (2 * 3))', 7],
+    ['2 * 3 mod 4', '((2 * 3) mod 4)', 2],
+    ['-3!', '(-(3!))', -6],
+    ['2^3!', '(2 ^ (3!))', 64],
+    ['50% * 8', '((50%) * 8)', 4],
+  ])('%s groups as %s', (source, expected, result) => {
+    expect(grouped(source)).toBe(expected);
+    expect(value(source)).toBeCloseTo(result, 12);
+  });
+
+  it('treats juxtaposition as multiplication', () => {
+    expect(grouped('2x')).toBe('(2 * x)');
+    expect(grouped('2pi r')).toBe('((2 * pi) * r)');
+    expect(grouped('2(3 + 1)')).toBe('(2 * (3 + 1))');
+    expect(grouped('2√4')).toBe('(2 * (√4))');
+    expect(value('2pi r')).toBeCloseTo(4 * Math.PI, 12);
+    expect(value('x(2 + 1)')).toBe(9);
+    expect(value('(1 + 1)(2 + 1)')).toBe(6);
+  });
+
+  it('binds implicit multiplication like * and looser than ^', () => {
+    expect(grouped('1 / 2x')).toBe('((1 / 2) * x)');
+    expect(grouped('2x^2')).toBe('(2 * (x ^ 2))');
+    expect(value('2x^2')).toBe(18);
+  });
+
+  it('reads keypad symbols as their operators', () => {
+    expect(grouped('6 × 2 ÷ 3 − 1')).toBe('(((6 * 2) / 3) - 1)');
+    expect(grouped('2**3')).toBe('(2 ^ 3)');
+    expect(value('π')).toBe(Math.PI);
+  });
+});
+
+describe('syntax errors', () => {
+  it.each([
+    ['2 +', 'Unexpected end of expression', 3],
+    ['2 * (3 + 1', 'Expected ")" but found end of expression', 10],
+    ['2 3', 'Unexpected "3"', 2],
+    ['max(1 2)', 'Expected "," or ")" but found "2"', 6],
+    ['2 $ 3', 'Unexpected character "$"', 2],
+  ])('rejects %s', (source, message, position) => {
+    const error = errorFor(source);
+    expect(error.message).toBe(message);
+    expect(error.position).toBe(position);
+  });
+
+  it('parses an assignment only at the start of a line', () => {
+    expect(parse('r = 2.5')).toMatchObject({ type: 'assignment', name: 'r' });
+    expect(errorFor('2 + r = 3').message).toBe('Unexpected "="');
+  });
+});
@@ -0,0 +1,171 @@
+import type { BinaryOperator, ExpressionNode, PostfixOperator, PrefixOperator, Statement } from './ast';
+import { ExpressionError } from './errors';
+import { tokenize, type Token } from './tokenizer';
+
+/**
+ * Precedence-climbing parser.
+ *
+ * Precedence, lowest first: `+ -`, then `* / mod` and implicit
+ * multiplication, then prefix `- + √`, then `^` (right-associative), then
+ * postfix `! % ² ³`. So `-2^2` is -4, `2^3^2` is 512 and `2pi r` is 2·π·r.
+ */
+
+const ADDITIVE = 1;
+const MULTIPLICATIVE = 2;
+const PREFIX = 3;
+const POWER = 4;
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '+': ADDITIVE,
+  '-': ADDITIVE,
+  '*': MULTIPLICATIVE,
+  '/': MULTIPLICATIVE,
+  mod: MULTIPLICATIVE,
+  '^': POWER,
+};
+
+const PREFIX_OPERATORS = ['-', '+', '√'];
+const POSTFIX_OPERATORS = ['!', '%', '²', '³'];
+
+function describe(token: Token): string {
+  return token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    return new ExpressionError(`Unexpected ${describe(token)}`, token.position, token.length);
+  }
+
+  private expect(type: Token['type'], what: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new ExpressionError(`Expected ${what} but found ${describe(token)}`, token.position, token.length);
+    }
+    return this.next();
+  }
+
+  parseStatement(): Statement {
+    let statement: Statement;
+    if (this.peek().type === 'identifier' && this.peek(1).type === 'equals') {
+      const name = this.next();
+      this.next();
+      statement = { type: 'assignment', name: name.value, value: this.parseExpression(0), position: name.position };
+    } else {
+      statement = { type: 'expression', expression: this.parseExpression(0) };
+    }
+    const trailing = this.peek();
+    if (trailing.type !== 'end') throw this.unexpected(trailing);
+    return statement;
+  }
+
+  /** Parses operators that bind at least as tightly as `minPrecedence`. */
+  private parseExpression(minPrecedence: number): ExpressionNode {
+    let left = this.parseOperand();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && token.value in BINARY_PRECEDENCE) {
+        const precedence = BINARY_PRECEDENCE[token.value];
+        if (precedence < minPrecedence) break;
+        this.next();
+        // `^` is right-associative, everything else left-associative
+        const right = this.parseExpression(token.value === '^' ? precedence : precedence + 1);
+        left = { type: 'binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+      } else if (this.startsImplicitOperand(token)) {
+        if (MULTIPLICATIVE < minPrecedence) break;
+        const right = this.parseExpression(MULTIPLICATIVE + 1);
+        left = { type: 'binary', operator: '*', left, right, position: token.position, implicit: true };
+      } else {
+        break;
+      }
+    }
+    return left;
+  }
+
+  /** Implicit multiplication applies before a name, a parenthesis or a root: `2x`, `3(4)`, `2√2`. */
+  private startsImplicitOperand(token: Token): boolean {
+    return token.type === 'identifier' || token.type === 'leftParen' || (token.type === 'operator' && token.value === '√');
+  }
+
+  /** A primary value with any prefix operators before it and postfix operators after it. */
+  private parseOperand(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && PREFIX_OPERATORS.includes(token.value)) {
+      this.next();
+      const operand = this.parseExpression(PREFIX);
+      return { type: 'prefix', operator: token.value as PrefixOperator, operand, position: token.position };
+    }
+
+    let node = this.parsePrimary();
+    while (this.peek().type === 'operator' && POSTFIX_OPERATORS.includes(this.peek().value)) {
+      const operator = this.next();
+      node = { type: 'postfix', operator: operator.value as PostfixOperator, operand: node, position: operator.position };
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number': {
+        const value = Number(token.value);
+        if (!isFinite(value)) throw new ExpressionError('Number is too large', token.position, token.length);
+        return { type: 'number', value, position: token.position };
+      }
+      case 'identifier':
+        if (this.peek().type === 'leftParen') {
+          // Whether this is a function call or `x(…)` meaning x·(…) is decided at evaluation time
+          this.next();
+          const args = this.parseArguments();
+          return { type: 'call', name: token.value, args, position: token.position };
+        }
+        return { type: 'variable', name: token.value, position: token.position };
+      case 'leftParen': {
+        const inner = this.parseExpression(0);
+        this.expect('rightParen', '")"');
+        return inner;
+      }
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.peek().type === 'rightParen') {
+      this.next();
+      return args;
+    }
+    for (;;) {
+      args.push(this.parseExpression(0));
+      const token = this.next();
+      if (token.type === 'rightParen') return args;
+      if (token.type !== 'comma') {
+        throw new ExpressionError(`Expected "," or ")" but found ${describe(token)}`, token.position, token.length);
+      }
+    }
+  }
+}
+
+/**
+ * Parses one statement: an expression, or an assignment such as `r = 2.5`.
+ *
+ * @throws ExpressionError pointing at the offending token.
+ */
+export function parse(source: string): Statement {
+  return new Parser(tokenize(source)).parseStatement();
+}
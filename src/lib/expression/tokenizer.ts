@@ -0,0 +1,98 @@
+import { ExpressionError } from './errors';
+
+export type TokenType = 'number' | 'identifier' | 'operator' | 'leftParen' | 'rightParen' | 'comma' | 'equals' | 'end';
+
+export interface Token {
+  type: TokenType;
+  /** Normalized text, e.g. `*` for both `*` and `×`. */
+  value: string;
+  /** Offset of the token in the source. */
+  position: number;
+  /** Length of the token as written in the source. */
+  length: number;
+}
+
+const NUMBER = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/** Symbols typed or pasted from a keypad, mapped to the operator they stand for. */
+const OPERATORS: Record<string, string> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '*': '*',
+  '×': '*',
+  '·': '*',
+  '/': '/',
+  '÷': '/',
+  '^': '^',
+  '!': '!',
+  '%': '%',
+  '√': '√',
+  '²': '²',
+  '³': '³',
+};
+
+/** Single-character constants that are read as identifiers. */
+const SYMBOL_IDENTIFIERS: Record<string, string> = {
+  'π': 'pi',
+  'τ': 'tau',
+  'φ': 'phi',
+};
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const rest = source.slice(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: index, length: number[0].length });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = IDENTIFIER.exec(rest);
+    if (identifier) {
+      // `mod` is the only word operator
+      const type = identifier[0] === 'mod' ? 'operator' : 'identifier';
+      tokens.push({ type, value: identifier[0], position: index, length: identifier[0].length });
+      index += identifier[0].length;
+      continue;
+    }
+
+    if (rest.startsWith('**')) {
+      tokens.push({ type: 'operator', value: '^', position: index, length: 2 });
+      index += 2;
+      continue;
+    }
+
+    if (char in SYMBOL_IDENTIFIERS) {
+      tokens.push({ type: 'identifier', value: SYMBOL_IDENTIFIERS[char], position: index, length: 1 });
+    } else if (char in OPERATORS) {
+      tokens.push({ type: 'operator', value: OPERATORS[char], position: index, length: 1 });
+    } else if (char === '(' || char === '[') {
+      tokens.push({ type: 'leftParen', value: '(', position: index, length: 1 });
+    } else if (char === ')' || char === ']') {
+      tokens.push({ type: 'rightParen', value: ')', position: index, length: 1 });
+    } else if (char === ',' || char === ';') {
+      tokens.push({ type: 'comma', value: ',', position: index, length: 1 });
+    } else if (char === '=') {
+      tokens.push({ type: 'equals', value: '=', position: index, length: 1 });
+    } else {
+      throw new ExpressionError(`Unexpected character "${char}"`, index);
+    }
+    index++;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length, length: 0 });
+  return tokens;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { amortize } from './amortization';
+
+describe('amortize', () => {
+  it('matches the spreadsheet schedule for a 30-year mortgage', () => {
+    const result = amortize({ principal: 200000, ratePerPeriod: 0.05 / 12, periods: 360 });
+    expect(result.payment).toBeCloseTo(1073.64, 2);
+    expect(result.schedule).toHaveLength(360);
+    // IPMT(5%/12, 1, 360, 200000) and PPMT(5%/12, 1, 360, 200000)
+    expect(result.schedule[0].interestPaid).toBeCloseTo(833.33, 2);
+    expect(result.schedule[0].principalPaid).toBeCloseTo(240.31, 2);
+    expect(result.schedule[359].endingBalance).toBe(0);
+    expect(result.totalInterest).toBeCloseTo(186511.57, 1);
+  });
+
+  it('keeps every amount to the cent in exact mode', () => {
+    const result = amortize({ principal: 1000, ratePerPeriod: 0.01, periods: 12, exact: true });
+    expect(result.payment).toBe(88.85);
+    expect(result.schedule[0].interestPaid).toBe(10);
+    expect(result.schedule[11].endingBalance).toBe(0);
+    const principalPaid = result.schedule.reduce((sum, entry) => sum + Math.round(entry.principalPaid * 100), 0);
+    expect(principalPaid).toBe(100000);
+  });
+
+  it('stays within a few dollars of the float schedule in exact mode', () => {
+    const options = { principal: 200000, ratePerPeriod: 0.05 / 12, periods: 360 };
+    const float = amortize(options);
+    const exact = amortize({ ...options, exact: true });
+    expect(exact.payment).toBe(Math.round(float.payment * 100) / 100);
+    expect(exact.schedule).toHaveLength(float.schedule.length);
+    for (const [index, entry] of exact.schedule.entries()) {
+      expect(entry.interestPaid).toBe(Math.round(entry.interestPaid * 100) / 100);
+      expect(Math.abs(entry.endingBalance - float.schedule[index].endingBalance)).toBeLessThan(3);
+    }
+    // The final payment absorbs the cents the rounded payment leaves behind
+    expect(exact.schedule[359].endingBalance).toBe(0);
+    expect(Math.abs(exact.totalInterest - float.totalInterest)).toBeLessThan(3);
+  });
+
+  it('stops early with extra payments', () => {
+    const base = amortize({ principal: 10000, ratePerPeriod: 0.005, periods: 60 });
+    const extra = amortize({ principal: 10000, ratePerPeriod: 0.005, periods: 60, extraPayment: () => 100 });
+    expect(extra.schedule.length).toBeLessThan(60);
+    expect(extra.totalInterest).toBeLessThan(base.totalInterest);
+    expect(extra.schedule[extra.schedule.length - 1].endingBalance).toBe(0);
+  });
+
+  it('handles a zero rate', () => {
+    const result = amortize({ principal: 1200, ratePerPeriod: 0, periods: 12 });
+    expect(result.payment).toBeCloseTo(100, 10);
+    expect(result.totalInterest).toBe(0);
+  });
+
+  it('rejects invalid loans', () => {
+    expect(() => amortize({ principal: 0, ratePerPeriod: 0.01, periods: 12 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,154 @@
+import { Decimal } from '@/lib/precision';
+import { loanPayment } from './tvm';
+
+export interface AmortizationEntry {
+  period: number;
+  startingBalance: number;
+  payment: number;
+  /** Includes `extraPaid`. */
+  principalPaid: number;
+  interestPaid: number;
+  /** Principal paid on top of the regular payment. */
+  extraPaid: number;
+  endingBalance: number;
+}
+
+export interface AmortizationOptions {
+  principal: number;
+  /** Interest rate per payment period (decimal). */
+  ratePerPeriod: number;
+  /** Number of scheduled payments. */
+  periods: number;
+  /** Regular payment. Defaults to the level payment that retires the loan in `periods`. */
+  payment?: number;
+  /**
+   * Extra principal paid with the regular payment in a period, such as a
+   * recurring overpayment or a lump sum. Capped at the remaining balance.
+   */
+  extraPayment?: (period: number) => number;
+  /**
+   * Round the payment and each period's interest to the cent using decimal
+   * arithmetic, as a lender's statement would. Balances and totals are then
+   * exact, with no floating-point drift over long schedules.
+   */
+  exact?: boolean;
+}
+
+export interface AmortizationResult {
+  /** The regular (level) payment per period. */
+  payment: number;
+  schedule: AmortizationEntry[];
+  totalInterest: number;
+  totalPaid: number;
+}
+
+// Balances below half a cent are treated as paid off.
+const BALANCE_EPSILON = 0.005;
+
+/** The extra payment for `period`, ignoring negative or invalid amounts. */
+function extraFor(extraPayment: AmortizationOptions['extraPayment'], period: number): number {
+  const extra = extraPayment?.(period) ?? 0;
+  return isFinite(extra) && extra > 0 ? extra : 0;
+}
+
+/**
+ * Builds a level-payment amortization schedule. The final payment is adjusted
+ * so the balance lands exactly on zero, and the schedule stops early if the
+ * loan is retired before `periods` (e.g. when a larger `payment` or extra
+ * payments are supplied).
+ *
+ * @param options Principal, rate per period, number of periods, optional payment and extra payments.
+ * @returns The regular payment, the schedule and its totals.
+ */
+export function amortize({ principal, ratePerPeriod, periods, payment, extraPayment, exact = false }: AmortizationOptions): AmortizationResult {
+  if (principal <= 0 || periods <= 0 || ratePerPeriod < 0) {
+    throw new RangeError('Principal and periods must be positive and the rate non-negative.');
+  }
+  if (exact) {
+    return amortizeExact(principal, ratePerPeriod, periods, payment, extraPayment);
+  }
+
+  const regularPayment = payment ?? loanPayment(principal, ratePerPeriod, periods);
+  const schedule: AmortizationEntry[] = [];
+  let balance = principal;
+
+  for (let period = 1; period <= periods && balance > BALANCE_EPSILON; period++) {
+    const interest = balance * ratePerPeriod;
+    let principalPaid = regularPayment - interest;
+    let extraPaid = 0;
+
+    if (period === periods || principalPaid >= balance) {
+      principalPaid = balance;
+    } else {
+      extraPaid = Math.min(extraFor(extraPayment, period), balance - principalPaid);
+      principalPaid += extraPaid;
+    }
+
+    const endingBalance = balance - principalPaid;
+    schedule.push({
+      period,
+      startingBalance: balance,
+      payment: principalPaid + interest,
+      principalPaid,
+      interestPaid: interest,
+      extraPaid,
+      endingBalance: endingBalance < BALANCE_EPSILON ? 0 : endingBalance,
+    });
+    balance = endingBalance;
+  }
+
+  const totalInterest = schedule.reduce((sum, entry) => sum + entry.interestPaid, 0);
+  const totalPaid = schedule.reduce((sum, entry) => sum + entry.payment, 0);
+
+  return { payment: regularPayment, schedule, totalInterest, totalPaid };
+}
+
+/**
+ * The `exact` variant of `amortize`: every amount is a whole number of cents.
+ */
+function amortizeExact(
+  principal: number,
+  ratePerPeriod: number,
+  periods: number,
+  payment?: number,
+  extraPayment?: AmortizationOptions['extraPayment']
+): AmortizationResult {
+  const rate = Decimal.from(ratePerPeriod);
+  const regularPayment = Decimal.from(payment ?? loanPayment(principal, ratePerPeriod, periods)).round(2);
+  const schedule: AmortizationEntry[] = [];
+  let balance = Decimal.from(principal).round(2);
+  let totalInterest = Decimal.from(0);
+  let totalPaid = Decimal.from(0);
+
+  for (let period = 1; period <= periods && balance.compare(0) > 0; period++) {
+    const interest = balance.multiply(rate).round(2);
+    let principalPaid = regularPayment.subtract(interest);
+    let extraPaid = Decimal.from(0);
+
+    if (period === periods || principalPaid.compare(balance) >= 0) {
+      principalPaid = balance;
+    } else {
+      extraPaid = Decimal.from(extraFor(extraPayment, period)).round(2);
+      const remaining = balance.subtract(principalPaid);
+      if (extraPaid.compare(remaining) > 0) extraPaid = remaining;
+      principalPaid = principalPaid.add(extraPaid);
+    }
+
+    const endingBalance = balance.subtract(principalPaid);
+    const paid = principalPaid.add(interest);
+    schedule.push({
+      period,
+      startingBalance: balance.toNumber(),
+      payment: paid.toNumber(),
+      principalPaid: principalPaid.toNumber(),
+      interestPaid: interest.toNumber(),
+      extraPaid: extraPaid.toNumber(),
+      endingBalance: endingBalance.toNumber(),
+    });
+    totalInterest = totalInterest.add(interest);
+    totalPaid = totalPaid.add(paid);
+    balance = endingBalance;
+  }
+
+  return { payment: regularPayment.toNumber(), schedule, totalInterest: totalInterest.toNumber(), totalPaid: totalPaid.toNumber() };
+}
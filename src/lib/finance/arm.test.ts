@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { adjustedRate, amortizeArm, armAdjustmentCount, worstCaseArm, type ArmTerms } from './arm';
+import { loanPayment } from './tvm';
+
+// A 5/1 ARM with 2/1/5 caps
+const terms: ArmTerms = {
+  initialRate: 0.06,
+  fixedMonths: 60,
+  adjustmentMonths: 12,
+  margin: 0.0275,
+  initialCap: 0.02,
+  periodicCap: 0.01,
+  lifetimeCap: 0.05,
+};
+
+describe('adjustedRate', () => {
+  it('limits the first reset by the initial cap and later ones by the periodic cap', () => {
+    expect(adjustedRate(terms, 0.06, 0.08, true)).toBeCloseTo(0.08, 10);
+    expect(adjustedRate(terms, 0.08, 0.08, false)).toBeCloseTo(0.09, 10);
+    expect(adjustedRate(terms, 0.09, 0, false)).toBeCloseTo(0.08, 10);
+  });
+
+  it('moves to index plus margin within the cap', () => {
+    expect(adjustedRate(terms, 0.06, 0.04, true)).toBeCloseTo(0.0675, 10);
+  });
+
+  it('never exceeds the lifetime ceiling', () => {
+    expect(adjustedRate(terms, 0.105, 0.2, false)).toBeCloseTo(0.11, 10);
+  });
+
+  it('never falls below the floor', () => {
+    expect(adjustedRate(terms, 0.01, -0.05, false)).toBe(0);
+    expect(adjustedRate({ ...terms, floor: terms.margin }, 0.035, 0, true)).toBeCloseTo(0.0275, 10);
+    expect(adjustedRate({ ...terms, floor: 0.03 }, 0.035, -0.01, true)).toBeCloseTo(0.03, 10);
+  });
+});
+
+describe('armAdjustmentCount', () => {
+  it('counts the resets after the fixed period', () => {
+    expect(armAdjustmentCount(terms, 30)).toBe(25);
+    expect(armAdjustmentCount({ ...terms, adjustmentMonths: 6 }, 30)).toBe(50);
+    expect(armAdjustmentCount(terms, 5)).toBe(0);
+  });
+});
+
+describe('amortizeArm', () => {
+  const result = amortizeArm({ principal: 300000, years: 30, terms, indexPath: [0.04, 0.05] });
+
+  it('pays the initial rate for the fixed period', () => {
+    expect(result.payment).toBeCloseTo(loanPayment(300000, 0.06 / 12, 360), 8);
+    expect(result.schedule[59].payment).toBeCloseTo(result.payment, 8);
+  });
+
+  it('resets the rate and recalculates the payment on schedule', () => {
+    const [initial, first, second] = result.adjustments;
+    expect(initial).toMatchObject({ month: 1, index: null, rate: 0.06 });
+    expect(first.month).toBe(61);
+    expect(first.rate).toBeCloseTo(0.0675, 10);
+    expect(first.payment).toBeCloseTo(loanPayment(result.schedule[60].startingBalance, 0.0675 / 12, 300), 8);
+    expect(second.month).toBe(73);
+    expect(second.rate).toBeCloseTo(0.0775, 10);
+  });
+
+  it('holds the last index value for later resets', () => {
+    expect(result.adjustments).toHaveLength(26);
+    expect(result.adjustments.slice(2).every(adjustment => adjustment.index === 0.05)).toBe(true);
+    expect(result.adjustments.at(-1)?.rate).toBeCloseTo(0.0775, 10);
+  });
+
+  it('repays the loan in the last month', () => {
+    expect(result.schedule).toHaveLength(360);
+    expect(result.schedule[359].endingBalance).toBe(0);
+    expect(result.totalPaid - result.totalInterest).toBeCloseTo(300000, 6);
+  });
+
+  it('keeps the initial rate without an index path', () => {
+    const flat = amortizeArm({ principal: 300000, years: 30, terms, indexPath: [] });
+    expect(flat.adjustments.every(adjustment => Math.abs(adjustment.rate - 0.06) < 1e-12)).toBe(true);
+    expect(flat.maxPayment).toBeCloseTo(flat.payment, 6);
+  });
+
+  it('rejects a non-positive principal or adjustment period', () => {
+    expect(() => amortizeArm({ principal: 0, years: 30, terms, indexPath: [] })).toThrow(RangeError);
+    expect(() => amortizeArm({ principal: 1000, years: 30, terms: { ...terms, adjustmentMonths: 0 }, indexPath: [] })).toThrow(RangeError);
+  });
+});
+
+describe('worstCaseArm', () => {
+  const worst = worstCaseArm(300000, 30, terms);
+
+  it('raises the rate by the full cap at every reset up to the lifetime cap', () => {
+    expect(worst.adjustments.slice(0, 6).map(adjustment => Math.round(adjustment.rate * 10000) / 10000)).toEqual([0.06, 0.08, 0.09, 0.1, 0.11, 0.11]);
+    expect(worst.maxRate).toBeCloseTo(terms.initialRate + terms.lifetimeCap, 10);
+    expect(worst.maxPayment).toBeGreaterThan(worst.payment);
+  });
+
+  it('still repays the loan on time', () => {
+    expect(worst.schedule).toHaveLength(360);
+    expect(worst.schedule[359].endingBalance).toBe(0);
+  });
+});
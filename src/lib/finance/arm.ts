@@ -0,0 +1,155 @@
+import type { AmortizationEntry, AmortizationResult } from './amortization';
+import { loanPayment } from './tvm';
+
+/**
+ * Adjustable-rate mortgages: a fixed introductory rate, then a rate reset
+ * every few months to the index plus the margin, limited by the caps. The
+ * payment is recalculated at each reset so the loan still ends on time.
+ * All rates are annual decimals.
+ */
+
+export interface ArmTerms {
+  /** Rate for the initial fixed period. */
+  initialRate: number;
+  /** Months at the initial rate, e.g. 60 for a 5/1 ARM. */
+  fixedMonths: number;
+  /** Months between later resets: 12 for a 5/1 ARM, 6 for a 5/6 ARM. */
+  adjustmentMonths: number;
+  /** Added to the index at each reset. */
+  margin: number;
+  /** Largest change at the first reset. */
+  initialCap: number;
+  /** Largest change at each later reset. */
+  periodicCap: number;
+  /** Largest increase over `initialRate` for the life of the loan. */
+  lifetimeCap: number;
+  /** Lowest rate after a reset. Defaults to 0; many loans use the margin. */
+  floor?: number;
+}
+
+export interface ArmOptions {
+  principal: number;
+  /** Loan term in years, paid monthly. */
+  years: number;
+  terms: ArmTerms;
+  /** Index value at each reset, in order. The last value holds for all later resets. */
+  indexPath: number[];
+  /** Extra principal paid with the regular payment in a month, as for `amortize`. */
+  extraPayment?: (month: number) => number;
+}
+
+export interface RateAdjustment {
+  /** First month at the new rate. */
+  month: number;
+  /** The index the rate was set from; null for the initial rate. */
+  index: number | null;
+  rate: number;
+  payment: number;
+}
+
+/** `payment` is the initial payment; `adjustments` lists the later ones. */
+export interface ArmResult extends AmortizationResult {
+  /** The initial rate followed by every reset before the loan is repaid. */
+  adjustments: RateAdjustment[];
+  /** Highest regular payment over the loan. */
+  maxPayment: number;
+  /** Highest rate over the loan. */
+  maxRate: number;
+}
+
+export type RatePathScenario = 'flat' | 'rising' | 'falling';
+
+const MONTHS_PER_YEAR = 12;
+// Balances below half a cent are treated as paid off.
+const BALANCE_EPSILON = 0.005;
+
+/** Number of resets over the term of a loan with these terms. */
+export function armAdjustmentCount(terms: ArmTerms, years: number): number {
+  const months = years * MONTHS_PER_YEAR;
+  return months > terms.fixedMonths ? Math.ceil((months - terms.fixedMonths) / terms.adjustmentMonths) : 0;
+}
+
+/**
+ * The rate after a reset: index plus margin, moved no further than the cap
+ * for this reset from `previousRate`, and kept between the floor and the
+ * lifetime ceiling.
+ */
+export function adjustedRate(terms: ArmTerms, previousRate: number, index: number, firstReset: boolean): number {
+  const cap = firstReset ? terms.initialCap : terms.periodicCap;
+  const capped = Math.min(Math.max(index + terms.margin, previousRate - cap), previousRate + cap);
+  return Math.min(Math.max(capped, terms.floor ?? 0), terms.initialRate + terms.lifetimeCap);
+}
+
+/**
+ * Index values for `count` resets under a simple scenario: unchanged from
+ * `currentIndex`, or moving by `step` at every reset (never below zero).
+ */
+export function scenarioIndexPath(scenario: RatePathScenario, currentIndex: number, count: number, step = 0.005): number[] {
+  const direction = scenario === 'rising' ? 1 : scenario === 'falling' ? -1 : 0;
+  return Array.from({ length: Math.max(count, 1) }, (_, reset) => Math.max(0, currentIndex + direction * step * (reset + 1)));
+}
+
+/** Amortizes an ARM month by month, resetting the rate and payment on schedule. */
+export function amortizeArm({ principal, years, terms, indexPath, extraPayment }: ArmOptions): ArmResult {
+  const months = years * MONTHS_PER_YEAR;
+  if (principal <= 0 || months <= 0 || terms.initialRate < 0 || terms.adjustmentMonths <= 0) {
+    throw new RangeError('Principal, term and adjustment period must be positive and the rate non-negative.');
+  }
+
+  let rate = terms.initialRate;
+  let payment = loanPayment(principal, rate / MONTHS_PER_YEAR, months);
+  const adjustments: RateAdjustment[] = [{ month: 1, index: null, rate, payment }];
+  const schedule: AmortizationEntry[] = [];
+  let balance = principal;
+  let nextReset = terms.fixedMonths + 1;
+
+  for (let month = 1; month <= months && balance > BALANCE_EPSILON; month++) {
+    if (month === nextReset) {
+      const reset = adjustments.length - 1;
+      const index = indexPath.length > 0 ? indexPath[Math.min(reset, indexPath.length - 1)] : rate - terms.margin;
+      rate = adjustedRate(terms, rate, index, reset === 0);
+      payment = loanPayment(balance, rate / MONTHS_PER_YEAR, months - month + 1);
+      adjustments.push({ month, index, rate, payment });
+      nextReset += terms.adjustmentMonths;
+    }
+
+    const interest = (balance * rate) / MONTHS_PER_YEAR;
+    let principalPaid = payment - interest;
+    let extraPaid = 0;
+
+    if (month === months || principalPaid >= balance) {
+      principalPaid = balance;
+    } else {
+      const extra = extraPayment?.(month) ?? 0;
+      extraPaid = isFinite(extra) && extra > 0 ? Math.min(extra, balance - principalPaid) : 0;
+      principalPaid += extraPaid;
+    }
+
+    const endingBalance = balance - principalPaid;
+    schedule.push({
+      period: month,
+      startingBalance: balance,
+      payment: principalPaid + interest,
+      principalPaid,
+      interestPaid: interest,
+      extraPaid,
+      endingBalance: endingBalance < BALANCE_EPSILON ? 0 : endingBalance,
+    });
+    balance = endingBalance;
+  }
+
+  return {
+    schedule,
+    adjustments,
+    payment: adjustments[0].payment,
+    maxPayment: Math.max(...adjustments.map(adjustment => adjustment.payment)),
+    maxRate: Math.max(...adjustments.map(adjustment => adjustment.rate)),
+    totalInterest: schedule.reduce((sum, entry) => sum + entry.interestPaid, 0),
+    totalPaid: schedule.reduce((sum, entry) => sum + entry.payment, 0),
+  };
+}
+
+/** The ARM if every reset raises the rate by the full cap until the lifetime cap is reached. */
+export function worstCaseArm(principal: number, years: number, terms: ArmTerms): ArmResult {
+  return amortizeArm({ principal, years, terms, indexPath: [Number.POSITIVE_INFINITY] });
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { irr, npv, xirr, xnpv } from './cash-flows';
+
+describe('npv', () => {
+  it('leaves the period 0 flow undiscounted', () => {
+    // -10000 + NPV(10%, 3000, 4200, 6800) = -10000 + 3000/1.1 + 4200/1.1^2 + 6800/1.1^3
+    expect(npv(0.1, [-10000, 3000, 4200, 6800])).toBeCloseTo(1307.29, 2);
+  });
+
+  it('is zero at the internal rate of return', () => {
+    const flows = [-70000, 12000, 15000, 18000, 21000, 26000];
+    expect(npv(irr(flows)!, flows)).toBeCloseTo(0, 2);
+  });
+});
+
+describe('irr', () => {
+  it('matches IRR(-70000, 12000, 15000, 18000, 21000, 26000)', () => {
+    expect(irr([-70000, 12000, 15000, 18000, 21000, 26000])).toBeCloseTo(0.086631, 6);
+  });
+
+  it('finds a negative rate', () => {
+    expect(irr([-70000, 12000, 15000, 18000, 21000])).toBeCloseTo(-0.021245, 6);
+  });
+
+  it('is null without a sign change', () => {
+    expect(irr([100, 200, 300])).toBeNull();
+    expect(irr([-100])).toBeNull();
+  });
+});
+
+describe('xirr', () => {
+  const flows = [
+    { amount: -10000, date: new Date(2008, 0, 1) },
+    { amount: 2750, date: new Date(2008, 2, 1) },
+    { amount: 4250, date: new Date(2008, 9, 30) },
+    { amount: 3250, date: new Date(2009, 1, 15) },
+    { amount: 2750, date: new Date(2009, 3, 1) },
+  ];
+
+  it('matches the spreadsheet XIRR example', () => {
+    expect(xirr(flows)).toBeCloseTo(0.373363, 5);
+  });
+
+  it('matches the spreadsheet XNPV example at 9%', () => {
+    expect(xnpv(0.09, flows)).toBeCloseTo(2086.65, 1);
+  });
+
+  it('is null without a sign change', () => {
+    expect(xirr(flows.map(flow => ({ ...flow, amount: Math.abs(flow.amount) })))).toBeNull();
+  });
+});
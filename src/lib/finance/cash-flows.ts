@@ -0,0 +1,110 @@
+/**
+ * Discounted cash-flow analysis: NPV, IRR and XIRR.
+ *
+ * Unlike the spreadsheet NPV function, `npv` treats the first cash flow as
+ * occurring at period 0 (undiscounted), which is how every calculator in the
+ * app presents "Year 0 = initial investment".
+ */
+
+export interface DatedCashFlow {
+  amount: number;
+  date: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates the net present value of evenly spaced cash flows.
+ *
+ * @param rate Discount rate per period (decimal).
+ * @param flows Cash flows, starting at period 0.
+ * @returns The net present value.
+ */
+export function npv(rate: number, flows: number[]): number {
+  return flows.reduce((sum, flow, period) => sum + flow / Math.pow(1 + rate, period), 0);
+}
+
+/**
+ * Calculates the net present value of irregularly dated cash flows using an
+ * actual/365 day count, relative to the earliest date.
+ *
+ * @param rate Annual discount rate (decimal).
+ * @param flows Dated cash flows.
+ * @returns The net present value.
+ */
+export function xnpv(rate: number, flows: DatedCashFlow[]): number {
+  if (flows.length === 0) return 0;
+  const start = Math.min(...flows.map(flow => flow.date.getTime()));
+  return flows.reduce((sum, flow) => {
+    const years = (flow.date.getTime() - start) / MS_PER_DAY / 365;
+    return sum + flow.amount / Math.pow(1 + rate, years);
+  }, 0);
+}
+
+// A rate of return only exists if the flows change sign at least once.
+function hasSignChange(amounts: number[]): boolean {
+  return amounts.some(amount => amount > 0) && amounts.some(amount => amount < 0);
+}
+
+/**
+ * Finds a root of a monotone-ish function by first expanding a bracket from
+ * just above -100% and then bisecting it.
+ */
+function solveRate(valueAt: (rate: number) => number): number | null {
+  const tolerance = 1e-9;
+  const maxIterations = 300;
+  let low = -0.9999;
+  let high = 1;
+  let lowValue = valueAt(low);
+  let highValue = valueAt(high);
+
+  while (lowValue * highValue > 0 && high < 1e6) {
+    high *= 2;
+    highValue = valueAt(high);
+  }
+  if (!isFinite(lowValue) || !isFinite(highValue) || lowValue * highValue > 0) {
+    return null;
+  }
+
+  for (let i = 0; i < maxIterations; i++) {
+    const mid = (low + high) / 2;
+    const midValue = valueAt(mid);
+    if (Math.abs(midValue) < tolerance || (high - low) / 2 < tolerance) {
+      return mid;
+    }
+    if (lowValue * midValue < 0) {
+      high = mid;
+      highValue = midValue;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Calculates the internal rate of return of evenly spaced cash flows.
+ *
+ * @param flows Cash flows, starting at period 0. Must contain at least one positive and one negative value.
+ * @returns The rate per period (decimal), or `null` if no rate could be found.
+ */
+export function irr(flows: number[]): number | null {
+  if (flows.length < 2 || !hasSignChange(flows)) {
+    return null;
+  }
+  return solveRate(rate => npv(rate, flows));
+}
+
+/**
+ * Calculates the annualized internal rate of return of irregularly dated cash flows.
+ *
+ * @param flows Dated cash flows. Must contain at least one positive and one negative amount.
+ * @returns The annual rate (decimal), or `null` if no rate could be found.
+ */
+export function xirr(flows: DatedCashFlow[]): number | null {
+  if (flows.length < 2 || !hasSignChange(flows.map(flow => flow.amount))) {
+    return null;
+  }
+  return solveRate(rate => xnpv(rate, flows));
+}
@@ -0,0 +1,28 @@
+export { pmt, pv, fv, nper, rate, loanPayment, savingsBalance, type PaymentTiming } from './tvm';
+export { effectiveRate, nominalRate, periodicRate, PERIODS_PER_YEAR, type Frequency } from './rates';
+export { amortize, type AmortizationEntry, type AmortizationOptions, type AmortizationResult } from './amortization';
+export { npv, xnpv, irr, xirr, type DatedCashFlow } from './cash-flows';
+export { summarizeByYear, growthPoint, type AmortizationYear, type GrowthPoint } from './projections';
+export {
+  amortizeWithPrepayments,
+  comparePrepayments,
+  hasPrepayments,
+  prepaymentExtras,
+  NO_PREPAYMENTS,
+  type LumpSum,
+  type PrepaymentOptions,
+  type PrepaymentPlan,
+  type PrepaymentResult,
+} from './prepayment';
+export {
+  adjustedRate,
+  amortizeArm,
+  armAdjustmentCount,
+  scenarioIndexPath,
+  worstCaseArm,
+  type ArmOptions,
+  type ArmResult,
+  type ArmTerms,
+  type RateAdjustment,
+  type RatePathScenario,
+} from './arm';
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { NO_PREPAYMENTS, amortizeWithPrepayments, hasPrepayments, prepaymentExtras, type PrepaymentPlan } from './prepayment';
+
+const plan = (overrides: Partial<PrepaymentPlan>): PrepaymentPlan => ({ ...NO_PREPAYMENTS, ...overrides });
+
+describe('prepaymentExtras', () => {
+  it('pays the annual extra with the last payment of each year', () => {
+    const monthly = prepaymentExtras(plan({ extraAnnual: 1000 }), 12);
+    expect([11, 12, 13, 24].map(monthly)).toEqual([0, 1000, 0, 1000]);
+
+    const biweekly = prepaymentExtras(plan({ extraAnnual: 1000 }), 26);
+    expect([12, 13, 26, 52].map(biweekly)).toEqual([0, 0, 1000, 1000]);
+  });
+
+  it('pays a lump sum in the first biweekly period on or after the end of its month', () => {
+    const extras = prepaymentExtras(plan({ lumpSums: [{ month: 1, amount: 100 }, { month: 6, amount: 200 }, { month: 12, amount: 300 }] }), 26);
+    // ceil(month × 26 / 12)
+    expect([2, 3, 13, 26].map(extras)).toEqual([0, 100, 200, 300]);
+  });
+
+  it('adds up lump sums that land in the same period and skips invalid ones', () => {
+    const extras = prepaymentExtras(plan({ lumpSums: [{ month: 3, amount: 100 }, { month: 3, amount: 50 }, { month: 0, amount: 100 }, { month: 4, amount: -10 }] }), 12);
+    expect([1, 3, 4].map(extras)).toEqual([0, 150, 0]);
+  });
+
+  it('spreads the monthly extra over biweekly payments', () => {
+    expect(prepaymentExtras(plan({ extraMonthly: 130 }), 26)(1)).toBeCloseTo(60, 10);
+  });
+});
+
+describe('amortizeWithPrepayments', () => {
+  it('pays as scheduled with no plan', () => {
+    const result = amortizeWithPrepayments({ principal: 100000, annualRate: 0.06, years: 30, plan: NO_PREPAYMENTS });
+    expect(hasPrepayments(NO_PREPAYMENTS)).toBe(false);
+    expect(result.accelerated.totalInterest).toBeCloseTo(result.scheduled.totalInterest, 6);
+    expect(result.interestSaved).toBe(0);
+    expect(result.monthsSaved).toBe(0);
+  });
+
+  it('matches a hand-checked schedule', () => {
+    // $1,000 at 1% a month over 12 months pays $88.85. $500 extra pays it off in two:
+    // month 1 is $10 interest, leaving $421.15; month 2 is $4.21 interest and the rest
+    const result = amortizeWithPrepayments({ principal: 1000, annualRate: 0.12, years: 1, plan: plan({ extraMonthly: 500 }) });
+    expect(result.scheduled.payment).toBeCloseTo(88.85, 2);
+    expect(result.accelerated.schedule).toHaveLength(2);
+    expect(result.accelerated.schedule[0].endingBalance).toBeCloseTo(421.15, 2);
+    expect(result.accelerated.schedule[1].interestPaid).toBeCloseTo(4.21, 2);
+    expect(result.accelerated.totalInterest).toBeCloseTo(14.21, 2);
+    expect(result.scheduled.totalInterest).toBeCloseTo(66.19, 2);
+    expect(result.interestSaved).toBeCloseTo(51.97, 2);
+    expect(result.payoffMonths).toBe(2);
+    expect(result.monthsSaved).toBe(10);
+  });
+
+  it('pays a lump sum in its month', () => {
+    // At 0% a $300 lump sum in month 3 covers three payments of $100
+    const result = amortizeWithPrepayments({ principal: 1200, annualRate: 0, years: 1, plan: plan({ lumpSums: [{ month: 3, amount: 300 }] }) });
+    expect(result.accelerated.schedule[2].extraPaid).toBe(300);
+    expect(result.payoffMonths).toBe(9);
+    expect(result.monthsSaved).toBe(3);
+    expect(result.interestSaved).toBe(0);
+  });
+
+  it('splits biweekly payments into 26 half payments a year', () => {
+    const result = amortizeWithPrepayments({ principal: 100000, annualRate: 0.06, years: 30, plan: plan({ biweekly: true }) });
+    expect(result.periodsPerYear).toBe(26);
+    expect(result.accelerated.payment).toBeCloseTo(result.scheduled.payment / 2, 8);
+    expect(result.accelerated.schedule[0].interestPaid).toBeCloseTo(100000 * 0.06 / 26, 8);
+    // 13 monthly payments a year pay a 30-year loan off years early
+    expect(result.payoffMonths).toBe(Math.ceil(result.accelerated.schedule.length * 12 / 26));
+    expect(result.monthsSaved).toBeGreaterThan(48);
+    expect(result.interestSaved).toBeGreaterThan(0);
+    expect(result.accelerated.schedule.at(-1)?.endingBalance).toBe(0);
+  });
+});
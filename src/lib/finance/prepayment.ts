@@ -0,0 +1,107 @@
+import { amortize, type AmortizationResult } from './amortization';
+
+/**
+ * Overpayments on a monthly-payment loan: recurring extras, one-off lump
+ * sums and biweekly ("accelerated") payments, compared against paying the
+ * loan exactly as scheduled.
+ */
+
+export interface LumpSum {
+  /** Month of the loan the lump sum is paid in; 1 is the first payment. */
+  month: number;
+  amount: number;
+}
+
+export interface PrepaymentPlan {
+  /** Paid on top of every monthly payment. */
+  extraMonthly: number;
+  /** Paid once a year, with the 12th, 24th, ... monthly payment. */
+  extraAnnual: number;
+  lumpSums: LumpSum[];
+  /**
+   * Pay half the monthly payment every two weeks instead: 26 half payments,
+   * i.e. 13 monthly payments a year. Extras are spread over the same dates.
+   */
+  biweekly: boolean;
+}
+
+export interface PrepaymentOptions {
+  principal: number;
+  /** Nominal annual interest rate (decimal). */
+  annualRate: number;
+  /** Loan term in years, paid monthly. */
+  years: number;
+  plan: PrepaymentPlan;
+}
+
+export interface PrepaymentResult {
+  /** The loan paid exactly as scheduled. */
+  scheduled: AmortizationResult;
+  /** The loan with the plan applied; biweekly plans have one row per biweekly payment. */
+  accelerated: AmortizationResult;
+  /** Payments per year in `accelerated.schedule`. */
+  periodsPerYear: number;
+  /** Months until the accelerated loan is paid off. */
+  payoffMonths: number;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
+export const NO_PREPAYMENTS: PrepaymentPlan = { extraMonthly: 0, extraAnnual: 0, lumpSums: [], biweekly: false };
+
+const MONTHS_PER_YEAR = 12;
+const BIWEEKLY_PERIODS_PER_YEAR = 26;
+
+/** True when the plan changes anything compared with paying as scheduled. */
+export function hasPrepayments(plan: PrepaymentPlan): boolean {
+  return plan.biweekly || plan.extraMonthly > 0 || plan.extraAnnual > 0 || plan.lumpSums.some(lump => lump.amount > 0);
+}
+
+/**
+ * The extra principal a plan adds to each payment period: recurring extras
+ * spread over `periodsPerYear` payments a year, the annual extra with the
+ * last payment of each year, and lump sums in the period their month ends in.
+ */
+export function prepaymentExtras(plan: PrepaymentPlan, periodsPerYear: number): (period: number) => number {
+  // Lump sums keyed by the period they fall in; two in the same period add up
+  const lumpSums = new Map<number, number>();
+  for (const { month, amount } of plan.lumpSums) {
+    if (!(amount > 0) || !(month >= 1)) continue;
+    const period = Math.ceil((Math.floor(month) * periodsPerYear) / MONTHS_PER_YEAR);
+    lumpSums.set(period, (lumpSums.get(period) ?? 0) + amount);
+  }
+
+  const extraPerPeriod = (plan.extraMonthly * MONTHS_PER_YEAR) / periodsPerYear;
+  return period => extraPerPeriod + (period % periodsPerYear === 0 ? plan.extraAnnual : 0) + (lumpSums.get(period) ?? 0);
+}
+
+/** Compares a loan paid with extras against the same loan paid as scheduled (monthly). */
+export function comparePrepayments(scheduled: AmortizationResult, accelerated: AmortizationResult, periodsPerYear: number): PrepaymentResult {
+  const payoffMonths = Math.ceil((accelerated.schedule.length * MONTHS_PER_YEAR) / periodsPerYear);
+  return {
+    scheduled,
+    accelerated,
+    periodsPerYear,
+    payoffMonths,
+    interestSaved: Math.max(0, scheduled.totalInterest - accelerated.totalInterest),
+    monthsSaved: Math.max(0, scheduled.schedule.length - payoffMonths),
+  };
+}
+
+/**
+ * Amortizes a monthly loan with and without the prepayment plan. Lump sums
+ * past the payoff date are ignored; on a biweekly plan each lump sum is paid
+ * with the first biweekly payment on or after the end of its month.
+ */
+export function amortizeWithPrepayments({ principal, annualRate, years, plan }: PrepaymentOptions): PrepaymentResult {
+  const scheduled = amortize({ principal, ratePerPeriod: annualRate / MONTHS_PER_YEAR, periods: years * MONTHS_PER_YEAR });
+  const periodsPerYear = plan.biweekly ? BIWEEKLY_PERIODS_PER_YEAR : MONTHS_PER_YEAR;
+  const accelerated = amortize({
+    principal,
+    ratePerPeriod: annualRate / periodsPerYear,
+    periods: years * periodsPerYear,
+    payment: plan.biweekly ? scheduled.payment / 2 : scheduled.payment,
+    extraPayment: prepaymentExtras(plan, periodsPerYear),
+  });
+  return comparePrepayments(scheduled, accelerated, periodsPerYear);
+}
@@ -0,0 +1,52 @@
+import type { AmortizationEntry } from './amortization';
+
+/**
+ * Year-by-year series for charting loan schedules and savings growth.
+ */
+
+export interface AmortizationYear {
+  /** Years since the first payment; year 0 is the original loan. */
+  year: number;
+  /** Balance left at the end of the year. */
+  balance: number;
+  /** Principal repaid so far. */
+  principalPaid: number;
+  /** Interest paid so far. */
+  interestPaid: number;
+}
+
+/**
+ * Condenses a payment schedule to one row per year, starting with the
+ * original balance at year 0. A final partial year gets its own row.
+ *
+ * @param schedule Schedule from `amortize`.
+ * @param periodsPerYear Payments per year (12 for monthly).
+ */
+export function summarizeByYear(schedule: AmortizationEntry[], periodsPerYear: number): AmortizationYear[] {
+  if (schedule.length === 0) return [];
+  const years: AmortizationYear[] = [{ year: 0, balance: schedule[0].startingBalance, principalPaid: 0, interestPaid: 0 }];
+  let principalPaid = 0;
+  let interestPaid = 0;
+
+  schedule.forEach((entry, index) => {
+    principalPaid += entry.principalPaid;
+    interestPaid += entry.interestPaid;
+    if ((index + 1) % periodsPerYear === 0 || index === schedule.length - 1) {
+      years.push({ year: Math.ceil((index + 1) / periodsPerYear), balance: entry.endingBalance, principalPaid, interestPaid });
+    }
+  });
+  return years;
+}
+
+export interface GrowthPoint {
+  year: number;
+  /** Starting balance plus everything paid in so far. */
+  contributions: number;
+  /** Returns earned so far. */
+  growth: number;
+  balance: number;
+}
+
+export function growthPoint(year: number, balance: number, contributions: number): GrowthPoint {
+  return { year, contributions, growth: balance - contributions, balance };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { effectiveRate, nominalRate, periodicRate } from './rates';
+
+describe('effectiveRate / nominalRate', () => {
+  it('matches EFFECT(5.25%, 4)', () => {
+    expect(effectiveRate(0.0525, 4)).toBeCloseTo(0.0535427, 7);
+  });
+
+  it('matches NOMINAL(5.3543%, 4)', () => {
+    expect(nominalRate(0.053543, 4)).toBeCloseTo(0.0525003, 7);
+  });
+
+  it('handles continuous compounding', () => {
+    expect(effectiveRate(0.05, Infinity)).toBeCloseTo(Math.exp(0.05) - 1, 12);
+    expect(nominalRate(effectiveRate(0.05, Infinity), Infinity)).toBeCloseTo(0.05, 12);
+  });
+});
+
+describe('periodicRate', () => {
+  it('divides the nominal rate when frequencies match', () => {
+    expect(periodicRate(0.06, 12, 12)).toBeCloseTo(0.005, 12);
+  });
+
+  it('converts a Canadian semi-annual mortgage rate to monthly', () => {
+    expect(periodicRate(0.05, 2, 12)).toBeCloseTo(0.00412392, 8);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Conversions between nominal, effective and per-period interest rates.
+ * Rates are decimals (0.05 for 5%).
+ */
+
+/**
+ * Converts a nominal annual rate to the effective annual rate.
+ *
+ * @param nominalRate Nominal annual rate.
+ * @param periodsPerYear Compounding periods per year. Use `Infinity` for continuous compounding.
+ * @returns The effective annual rate.
+ */
+export function effectiveRate(nominalRate: number, periodsPerYear: number): number {
+  if (!isFinite(periodsPerYear)) {
+    return Math.exp(nominalRate) - 1;
+  }
+  return Math.pow(1 + nominalRate / periodsPerYear, periodsPerYear) - 1;
+}
+
+/**
+ * Converts an effective annual rate to the nominal annual rate.
+ *
+ * @param effectiveAnnualRate Effective annual rate.
+ * @param periodsPerYear Compounding periods per year. Use `Infinity` for continuous compounding.
+ * @returns The nominal annual rate.
+ */
+export function nominalRate(effectiveAnnualRate: number, periodsPerYear: number): number {
+  if (!isFinite(periodsPerYear)) {
+    return Math.log(1 + effectiveAnnualRate);
+  }
+  return periodsPerYear * (Math.pow(1 + effectiveAnnualRate, 1 / periodsPerYear) - 1);
+}
+
+/**
+ * Calculates the equivalent interest rate per payment period when payments
+ * and compounding happen at different frequencies, e.g. a Canadian mortgage
+ * (compounded semi-annually, paid monthly) or monthly contributions to an
+ * account compounded daily.
+ *
+ * @param annualRate Nominal annual rate.
+ * @param compoundingPerYear Compounding periods per year.
+ * @param paymentsPerYear Payment periods per year.
+ * @returns The rate per payment period.
+ */
+export function periodicRate(annualRate: number, compoundingPerYear: number, paymentsPerYear: number): number {
+  if (compoundingPerYear === paymentsPerYear) {
+    return annualRate / paymentsPerYear;
+  }
+  return Math.pow(1 + effectiveRate(annualRate, compoundingPerYear), 1 / paymentsPerYear) - 1;
+}
+
+/**
+ * Named frequencies used throughout the calculator forms, mapped to periods per year.
+ */
+export const PERIODS_PER_YEAR = {
+  annually: 1,
+  'semi-annually': 2,
+  quarterly: 4,
+  monthly: 12,
+  'semi-monthly': 24,
+  'bi-weekly': 26,
+  weekly: 52,
+  daily: 365,
+} as const;
+
+export type Frequency = keyof typeof PERIODS_PER_YEAR;
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { fv, loanPayment, nper, pmt, pv, rate, savingsBalance } from './tvm';
+
+// Reference values from the equivalent spreadsheet functions.
+
+describe('pmt', () => {
+  it('matches PMT(5%/12, 360, 200000)', () => {
+    expect(pmt(0.05 / 12, 360, 200000)).toBeCloseTo(-1073.64, 2);
+  });
+
+  it('matches PMT(8%/12, 10, 10000, 0, 1) for payments in advance', () => {
+    expect(pmt(0.08 / 12, 10, 10000, 0, 1)).toBeCloseTo(-1030.16, 2);
+  });
+
+  it('splits the balance evenly at a zero rate', () => {
+    expect(pmt(0, 10, 1000)).toBeCloseTo(-100, 10);
+  });
+
+  it('rejects a non-positive number of periods', () => {
+    expect(() => pmt(0.01, 0, 1000)).toThrow(RangeError);
+  });
+
+  it('is positive through loanPayment', () => {
+    expect(loanPayment(200000, 0.05 / 12, 360)).toBeCloseTo(1073.64, 2);
+  });
+});
+
+describe('fv', () => {
+  it('matches FV(5%, 10, 0, -1000)', () => {
+    expect(fv(0.05, 10, 0, -1000)).toBeCloseTo(1628.89, 2);
+  });
+
+  it('matches FV(6%/12, 10, -200, -500, 1)', () => {
+    expect(fv(0.06 / 12, 10, -200, -500, 1)).toBeCloseTo(2581.4, 2);
+  });
+
+  it('adds payments at a zero rate', () => {
+    expect(fv(0, 12, -100, -1000)).toBeCloseTo(2200, 10);
+  });
+});
+
+describe('pv', () => {
+  it('matches PV(8%/12, 240, 500)', () => {
+    expect(pv(0.08 / 12, 240, 500)).toBeCloseTo(-59777.15, 2);
+  });
+
+  it('discounts a single future amount', () => {
+    expect(pv(0.05, 10, 0, 1628.894627)).toBeCloseTo(-1000, 4);
+  });
+});
+
+describe('nper', () => {
+  it('matches NPER(1%, -100, -1000, 10000)', () => {
+    expect(nper(0.01, -100, -1000, 10000)).toBeCloseTo(60.0821, 4);
+  });
+
+  it('matches NPER(1%, -100, -1000, 10000, 1)', () => {
+    expect(nper(0.01, -100, -1000, 10000, 1)).toBeCloseTo(59.6739, 4);
+  });
+
+  it('is Infinity when the payment never covers the interest', () => {
+    expect(nper(0.01, -5, 1000)).toBe(Infinity);
+  });
+});
+
+describe('rate', () => {
+  it('matches RATE(48, -200, 8000)', () => {
+    expect(rate(48, -200, 8000)).toBeCloseTo(0.00770147, 8);
+  });
+
+  it('round-trips with pmt', () => {
+    const payment = pmt(0.004, 120, 50000);
+    expect(rate(120, payment, 50000)).toBeCloseTo(0.004, 10);
+  });
+});
+
+describe('savingsBalance', () => {
+  it('grows 1000 at 5% compounded annually to 1628.89 in 10 years', () => {
+    expect(savingsBalance(1000, 0.05, 1, 10)).toBeCloseTo(1628.89, 2);
+  });
+
+  it('adds monthly contributions compounded monthly', () => {
+    // FV(5%/12, 120, -100, -1000)
+    expect(savingsBalance(1000, 0.05, 12, 10, 100, 12)).toBeCloseTo(17175.24, 2);
+  });
+
+  it('uses the equivalent rate when contributions and compounding differ', () => {
+    // Annual compounding: 12 payments of 100 at the monthly rate 1.05^(1/12) - 1
+    expect(savingsBalance(0, 0.05, 1, 1, 100, 12)).toBeCloseTo(1227.26, 2);
+  });
+
+  it('is never negative for positive inputs', () => {
+    expect(savingsBalance(5000, 0.07, 4, 30, 250, 12)).toBeGreaterThan(5000 + 250 * 12 * 30);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Time-value-of-money primitives.
+ *
+ * All functions follow the spreadsheet (Excel / Google Sheets) sign convention:
+ * money paid out is negative and money received is positive. A loan of 1000
+ * received today is `pv = 1000` and the resulting payment is negative.
+ *
+ * `rate` is always the rate per period (e.g. annual rate / 12 for monthly
+ * payments) and `type` is 0 for payments at the end of a period, 1 for
+ * payments at the beginning.
+ */
+
+import { periodicRate } from './rates';
+
+export type PaymentTiming = 0 | 1;
+
+/**
+ * Calculates the payment per period for an annuity.
+ *
+ * @param rate Interest rate per period.
+ * @param nper Total number of payment periods.
+ * @param pv Present value.
+ * @param fv Future value remaining after the last payment. Defaults to 0.
+ * @param type Payment timing. Defaults to 0 (end of period).
+ * @returns The payment per period.
+ */
+export function pmt(rate: number, nper: number, pv: number, fv = 0, type: PaymentTiming = 0): number {
+  if (nper <= 0) {
+    throw new RangeError('nper must be greater than zero.');
+  }
+  if (rate === 0) {
+    return -(pv + fv) / nper;
+  }
+  const growth = Math.pow(1 + rate, nper);
+  return -(rate * (pv * growth + fv)) / ((1 + rate * type) * (growth - 1));
+}
+
+/**
+ * Calculates the present value of an annuity.
+ *
+ * @param rate Interest rate per period.
+ * @param nper Total number of payment periods.
+ * @param payment Payment made each period.
+ * @param fv Future value remaining after the last payment. Defaults to 0.
+ * @param type Payment timing. Defaults to 0 (end of period).
+ * @returns The present value.
+ */
+export function pv(rate: number, nper: number, payment: number, fv = 0, type: PaymentTiming = 0): number {
+  if (rate === 0) {
+    return -(fv + payment * nper);
+  }
+  const growth = Math.pow(1 + rate, nper);
+  return -(fv + payment * (1 + rate * type) * ((growth - 1) / rate)) / growth;
+}
+
+/**
+ * Calculates the future value of an investment with periodic payments.
+ *
+ * @param rate Interest rate per period.
+ * @param nper Total number of payment periods.
+ * @param payment Payment made each period.
+ * @param presentValue Present value. Defaults to 0.
+ * @param type Payment timing. Defaults to 0 (end of period).
+ * @returns The future value.
+ */
+export function fv(rate: number, nper: number, payment: number, presentValue = 0, type: PaymentTiming = 0): number {
+  if (rate === 0) {
+    return -(presentValue + payment * nper);
+  }
+  const growth = Math.pow(1 + rate, nper);
+  return -(presentValue * growth + payment * (1 + rate * type) * ((growth - 1) / rate));
+}
+
+/**
+ * Calculates the number of periods needed to amortize a present value.
+ *
+ * @param rate Interest rate per period.
+ * @param payment Payment made each period.
+ * @param presentValue Present value.
+ * @param futureValue Future value remaining after the last payment. Defaults to 0.
+ * @param type Payment timing. Defaults to 0 (end of period).
+ * @returns The number of periods, or `Infinity` if the payment never covers the interest.
+ */
+export function nper(rate: number, payment: number, presentValue: number, futureValue = 0, type: PaymentTiming = 0): number {
+  if (rate === 0) {
+    if (payment === 0) return Infinity;
+    return -(presentValue + futureValue) / payment;
+  }
+  const adjustedPayment = payment * (1 + rate * type);
+  const numerator = adjustedPayment - futureValue * rate;
+  const denominator = adjustedPayment + presentValue * rate;
+  if (denominator === 0 || numerator / denominator <= 0) {
+    return Infinity;
+  }
+  return Math.log(numerator / denominator) / Math.log(1 + rate);
+}
+
+/**
+ * Solves for the interest rate per period using Newton-Raphson iteration.
+ *
+ * @param periods Total number of payment periods.
+ * @param payment Payment made each period.
+ * @param presentValue Present value.
+ * @param futureValue Future value remaining after the last payment. Defaults to 0.
+ * @param type Payment timing. Defaults to 0 (end of period).
+ * @param guess Starting estimate. Defaults to 10%.
+ * @returns The rate per period, or `null` if the iteration does not converge.
+ */
+export function rate(periods: number, payment: number, presentValue: number, futureValue = 0, type: PaymentTiming = 0, guess = 0.1): number | null {
+  const tolerance = 1e-10;
+  const maxIterations = 200;
+  let current = guess;
+
+  const balance = (r: number) => {
+    if (Math.abs(r) < 1e-12) {
+      return presentValue + payment * periods + futureValue;
+    }
+    const growth = Math.pow(1 + r, periods);
+    return presentValue * growth + payment * (1 + r * type) * ((growth - 1) / r) + futureValue;
+  };
+
+  for (let i = 0; i < maxIterations; i++) {
+    const value = balance(current);
+    const step = Math.max(Math.abs(current) * 1e-6, 1e-9);
+    const derivative = (balance(current + step) - value) / step;
+    if (derivative === 0 || !isFinite(derivative)) {
+      return null;
+    }
+    const next = current - value / derivative;
+    if (!isFinite(next) || next <= -1) {
+      return null;
+    }
+    if (Math.abs(next - current) < tolerance) {
+      return next;
+    }
+    current = next;
+  }
+  return null;
+}
+
+/**
+ * Convenience wrapper around {@link pmt} for the common "positive principal,
+ * positive payment" case used by loan calculators.
+ *
+ * @param principal Amount borrowed.
+ * @param ratePerPeriod Interest rate per period.
+ * @param periods Total number of payments.
+ * @returns The (positive) payment per period.
+ */
+export function loanPayment(principal: number, ratePerPeriod: number, periods: number): number {
+  return -pmt(ratePerPeriod, periods, principal);
+}
+
+/**
+ * Convenience wrapper around {@link fv} for savings calculators: the
+ * (positive) balance after `years` of a starting principal plus a regular
+ * contribution at the end of each contribution period. Compounding and
+ * contributions may run at different frequencies.
+ *
+ * @param principal Starting balance.
+ * @param annualRate Nominal annual rate.
+ * @param compoundingPerYear Compounding periods per year.
+ * @param years Length of the investment in years.
+ * @param contribution Amount added each contribution period. Defaults to 0.
+ * @param contributionsPerYear Contributions per year. Defaults to 12.
+ * @returns The balance at the end.
+ */
+export function savingsBalance(principal: number, annualRate: number, compoundingPerYear: number, years: number, contribution = 0, contributionsPerYear = 12): number {
+  const principalValue = fv(annualRate / compoundingPerYear, compoundingPerYear * years, 0, -principal);
+  if (contribution <= 0 || contributionsPerYear <= 0) {
+    return principalValue;
+  }
+  return principalValue + fv(periodicRate(annualRate, compoundingPerYear, contributionsPerYear), contributionsPerYear * years, -contribution);
+}
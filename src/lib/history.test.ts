@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { migrateHistory, migrateHistoryEntry } from './history';
+
+const passwordEntry = {
+  id: '1',
+  calculatorSlug: 'password-generator',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  values: { length: '16', lowercase: 'yes', uppercase: 'yes', numbers: 'yes', symbols: 'no', excludeAmbiguous: 'no' },
+  calculatorVersion: 1,
+  outputs: { password: 'hunter2,Hunter2!', entropy: 95.3, strength: 'Very strong' },
+  input: 'Password Length: 16',
+  result: 'Password: hunter2,Hunter2!, Entropy: 95.3 bits, Strength: Very strong',
+};
+
+describe('migrateHistoryEntry', () => {
+  it('removes generated passwords from password generator entries', () => {
+    const entry = migrateHistoryEntry(passwordEntry);
+    expect(entry?.outputs).toEqual({ entropy: 95.3, strength: 'Very strong' });
+    expect(entry?.result).toBe('Entropy: 95.3 bits, Strength: Very strong');
+    expect(entry?.values).toEqual(passwordEntry.values);
+  });
+
+  it('removes them from legacy entries too', () => {
+    const { values: _values, calculatorVersion: _version, outputs: _outputs, ...legacy } = passwordEntry;
+    expect(migrateHistoryEntry(legacy)?.result).toBe('Entropy: 95.3 bits, Strength: Very strong');
+  });
+
+  it('leaves other calculators alone', () => {
+    const entry = { ...passwordEntry, calculatorSlug: 'loan-calculator' };
+    expect(migrateHistoryEntry(entry)?.result).toBe(passwordEntry.result);
+  });
+});
+
+describe('migrateHistory', () => {
+  it('drops unreadable entries', () => {
+    expect(migrateHistory([passwordEntry, { id: 2 }])).toHaveLength(1);
+    expect(migrateHistory('not a list')).toEqual([]);
+  });
+});
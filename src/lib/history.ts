@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { CALCULATORS } from './constants';
+import type { CalculatorCategory, HistoryEntry, HistoryFormValue } from './types';
+
+/**
+ * Stored calculation history (`HISTORY_STORAGE_KEY`).
+ *
+ * Entries used to hold only pre-formatted `input` and `result` strings. They
+ * now also carry the submitted form values, the calculator version and the
+ * raw outputs, so a calculation can be re-opened in its calculator.
+ */
+
+/** `calculatorVersion` of entries recorded before history was structured. They cannot be re-opened. */
+export const LEGACY_CALCULATOR_VERSION = 0;
+
+const formValueSchema: z.ZodType<HistoryFormValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.undefined(), z.array(formValueSchema), z.record(z.string(), formValueSchema)])
+);
+
+/** Submitted form values keyed by field name, as kept in history and permalinks. */
+export const formValuesSchema = z.record(z.string(), formValueSchema);
+
+const timestampSchema = z.union([z.string(), z.number(), z.date()]).transform(value => new Date(value)).refine(date => !isNaN(date.getTime()));
+
+const legacyEntrySchema = z.object({
+  id: z.string(),
+  calculatorSlug: z.string(),
+  timestamp: timestampSchema,
+  input: z.string(),
+  result: z.string(),
+  pinned: z.boolean().optional(),
+});
+
+const entrySchema = legacyEntrySchema.extend({
+  values: formValuesSchema,
+  calculatorVersion: z.number().int().nonnegative(),
+  outputs: z.record(z.string(), z.union([z.number(), z.string(), z.null()])),
+});
+
+/**
+ * Password generator entries once kept the generated password in their
+ * outputs and result. Strips it, leaving the options and strength.
+ */
+function removeStoredPassword(entry: HistoryEntry): HistoryEntry {
+  if (entry.calculatorSlug !== 'password-generator') return entry;
+  const { password: _password, ...outputs } = entry.outputs;
+  return { ...entry, outputs, result: entry.result.replace(/^Password: \S*?(, |$)/, '') };
+}
+
+/** Upgrades one stored entry, or returns `null` if it is unreadable. */
+export function migrateHistoryEntry(stored: unknown): HistoryEntry | null {
+  const current = entrySchema.safeParse(stored);
+  if (current.success) return removeStoredPassword(current.data);
+
+  const legacy = legacyEntrySchema.safeParse(stored);
+  if (!legacy.success) return null;
+  return removeStoredPassword({ ...legacy.data, values: {}, calculatorVersion: LEGACY_CALCULATOR_VERSION, outputs: {} });
+}
+
+/**
+ * Reads stored history of any format. Legacy string-only entries are kept
+ * with empty values and outputs; unreadable entries are dropped.
+ */
+export function migrateHistory(stored: unknown): HistoryEntry[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(entry => {
+    const migrated = migrateHistoryEntry(entry);
+    return migrated ? [migrated] : [];
+  });
+}
+
+/**
+ * Current-format history as stored. Entries are checked one by one, so a
+ * single unreadable entry is dropped instead of the whole history.
+ */
+export const historySchema = z.array(z.unknown()).transform(stored =>
+  stored.flatMap(entry => {
+    const parsed = entrySchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  })
+);
+
+/** Entries with recorded form values can be re-opened in their calculator. */
+export function isReplayable(entry: HistoryEntry): boolean {
+  return entry.calculatorVersion !== LEGACY_CALCULATOR_VERSION && Object.keys(entry.values).length > 0;
+}
+
+/** Query parameter on `/calculator/[slug]` naming the history entry to restore. */
+export const RESTORE_PARAM = 'restore';
+
+/** Link that re-opens an entry in its calculator with the form filled in. */
+export function replayHref(entry: HistoryEntry): string {
+  return `/calculator/${entry.calculatorSlug}?${RESTORE_PARAM}=${encodeURIComponent(entry.id)}`;
+}
+
+/** Unpinned entries kept when the profile does not set `historyLimit`. */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export const HISTORY_LIMIT_OPTIONS = [25, 50, 100, 250, 500, 1000];
+
+/**
+ * Drops the oldest unpinned entries beyond `limit`. Entries are newest first;
+ * pinned entries are always kept and do not count toward the limit.
+ */
+export function applyRetention(entries: HistoryEntry[], limit = DEFAULT_HISTORY_LIMIT): HistoryEntry[] {
+  let unpinned = 0;
+  return entries.filter(entry => entry.pinned || ++unpinned <= limit);
+}
+
+/** Adds a new entry at the top of the history and applies the retention limit. */
+export function addToHistory(entries: HistoryEntry[], entry: HistoryEntry, limit = DEFAULT_HISTORY_LIMIT): HistoryEntry[] {
+  return applyRetention([entry, ...entries], limit);
+}
+
+export interface HistoryFilter {
+  /** Whitespace-separated terms; every term must appear in the calculator name, input or result. */
+  query: string;
+  calculatorSlug: string | null;
+  category: CalculatorCategory | null;
+  /** Inclusive local-time day bounds (YYYY-MM-DD). */
+  from: string | null;
+  to: string | null;
+  pinnedOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  calculatorSlug: null,
+  category: null,
+  from: null,
+  to: null,
+  pinnedOnly: false,
+};
+
+export function isFilterActive(filter: HistoryFilter): boolean {
+  return (
+    filter.query.trim() !== '' ||
+    filter.calculatorSlug !== null ||
+    filter.category !== null ||
+    filter.from !== null ||
+    filter.to !== null ||
+    filter.pinnedOnly
+  );
+}
+
+export function getCalculatorName(slug: string): string {
+  return CALCULATORS.find(calc => calc.slug === slug)?.name || 'Unknown Calculator';
+}
+
+function dayKey(entry: HistoryEntry): string {
+  return format(new Date(entry.timestamp), 'yyyy-MM-dd');
+}
+
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter(entry => {
+    if (filter.pinnedOnly && !entry.pinned) return false;
+    if (filter.calculatorSlug && entry.calculatorSlug !== filter.calculatorSlug) return false;
+    if (filter.category && CALCULATORS.find(calc => calc.slug === entry.calculatorSlug)?.category !== filter.category) return false;
+
+    const day = dayKey(entry);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+
+    if (terms.length === 0) return true;
+    const text = `${getCalculatorName(entry.calculatorSlug)} ${entry.input} ${entry.result}`.toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+}
+
+export type HistoryGrouping = 'none' | 'day' | 'calculator';
+
+export interface HistoryGroup {
+  key: string;
+  label: string;
+  entries: HistoryEntry[];
+}
+
+/**
+ * Groups entries in order of first appearance, so groups follow the
+ * history's newest-first order. `none` returns a single unlabeled group.
+ */
+export function groupHistory(entries: HistoryEntry[], grouping: HistoryGrouping): HistoryGroup[] {
+  if (grouping === 'none') return [{ key: 'all', label: '', entries }];
+
+  const groups = new Map<string, HistoryGroup>();
+  for (const entry of entries) {
+    const key = grouping === 'day' ? dayKey(entry) : entry.calculatorSlug;
+    let group = groups.get(key);
+    if (!group) {
+      const label = grouping === 'day' ? format(new Date(entry.timestamp), 'EEEE, PP') : getCalculatorName(key);
+      group = { key, label, entries: [] };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+  }
+  return Array.from(groups.values());
+}
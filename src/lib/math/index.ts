@@ -0,0 +1,3 @@
+export { gcd, lcm, gcdOf, lcmOf, isPrime, factors, primeFactors, factorialBig, permutationsBig, combinationsBig } from './number-theory';
+export { parseNumberList, sum, mean, median, modes, variance, standardDeviation, quantile, geometricMean, harmonicMean } from './statistics';
+export { logGamma, gammaP, gammaQ, betaI, normalCdf, normalInverse, studentTCdf, chiSquareCdf } from './distributions';
@@ -0,0 +1,100 @@
+/**
+ * Integer helpers shared by the factor, GCF/LCM, fraction and prime calculators.
+ * Inputs are expected to be safe integers; callers validate ranges.
+ */
+
+export function gcd(a: number, b: number): number {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y !== 0) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+export function lcm(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return Math.abs(a / gcd(a, b) * b);
+}
+
+export function gcdOf(values: number[]): number {
+  return values.reduce((acc, value) => gcd(acc, value), 0);
+}
+
+export function lcmOf(values: number[]): number {
+  return values.reduce((acc, value) => lcm(acc, value), 1);
+}
+
+export function isPrime(n: number): boolean {
+  if (n < 2 || !Number.isInteger(n)) return false;
+  if (n < 4) return true;
+  if (n % 2 === 0 || n % 3 === 0) return false;
+  for (let i = 5; i * i <= n; i += 6) {
+    if (n % i === 0 || n % (i + 2) === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Returns all positive divisors of `n` in ascending order.
+ */
+export function factors(n: number): number[] {
+  const value = Math.abs(n);
+  const small: number[] = [];
+  const large: number[] = [];
+  for (let i = 1; i * i <= value; i++) {
+    if (value % i === 0) {
+      small.push(i);
+      if (i !== value / i) large.unshift(value / i);
+    }
+  }
+  return [...small, ...large];
+}
+
+/**
+ * Returns the prime factorization of `n` as `[prime, exponent]` pairs.
+ */
+export function primeFactors(n: number): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  let value = Math.abs(n);
+  for (let p = 2; p * p <= value; p += p === 2 ? 1 : 2) {
+    let exponent = 0;
+    while (value % p === 0) {
+      value /= p;
+      exponent++;
+    }
+    if (exponent > 0) result.push([p, exponent]);
+  }
+  if (value > 1) result.push([value, 1]);
+  return result;
+}
+
+/**
+ * Exact n! as a bigint.
+ */
+export function factorialBig(n: number): bigint {
+  let result = BigInt(1);
+  for (let i = 2; i <= n; i++) result *= BigInt(i);
+  return result;
+}
+
+/**
+ * Exact number of permutations nPr as a bigint.
+ */
+export function permutationsBig(n: number, r: number): bigint {
+  let result = BigInt(1);
+  for (let i = n - r + 1; i <= n; i++) result *= BigInt(i);
+  return result;
+}
+
+/**
+ * Exact number of combinations nCr as a bigint.
+ */
+export function combinationsBig(n: number, r: number): bigint {
+  const k = Math.min(r, n - r);
+  let result = BigInt(1);
+  for (let i = 1; i <= k; i++) {
+    result = result * BigInt(n - k + i) / BigInt(i);
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+/**
+ * Descriptive statistics over plain number arrays.
+ */
+
+/**
+ * Parses a list of numbers separated by commas, spaces, semicolons or new lines.
+ *
+ * @param text The raw list, e.g. "1, 2, 3" or one value per line.
+ * @returns The parsed numbers, or `null` if any entry is not a number.
+ */
+export function parseNumberList(text: string): number[] | null {
+  const parts = text.split(/[\s,;]+/).filter(part => part !== '');
+  const values = parts.map(Number);
+  return values.some(value => !isFinite(value)) ? null : values;
+}
+
+export function sum(values: number[]): number {
+  return values.reduce((acc, value) => acc + value, 0);
+}
+
+export function mean(values: number[]): number {
+  return sum(values) / values.length;
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+/**
+ * Returns every value that occurs most often, or an empty array if all values occur once.
+ */
+export function modes(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const highest = Math.max(...counts.values());
+  if (highest <= 1) return [];
+  return [...counts.entries()].filter(([, count]) => count === highest).map(([value]) => value).sort((a, b) => a - b);
+}
+
+/**
+ * @param values The data set.
+ * @param sample Use the sample (n - 1) denominator instead of the population (n) one.
+ */
+export function variance(values: number[], sample = false): number {
+  const avg = mean(values);
+  const squared = sum(values.map(value => (value - avg) ** 2));
+  return squared / (values.length - (sample ? 1 : 0));
+}
+
+export function standardDeviation(values: number[], sample = false): number {
+  return Math.sqrt(variance(values, sample));
+}
+
+/**
+ * Quantile using linear interpolation between closest ranks (the spreadsheet
+ * QUARTILE.INC / PERCENTILE.INC method).
+ *
+ * @param values The data set (need not be sorted).
+ * @param q Quantile between 0 and 1.
+ */
+export function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Geometric mean, or `null` when the data contains non-positive values.
+ */
+export function geometricMean(values: number[]): number | null {
+  if (values.some(value => value <= 0)) return null;
+  return Math.exp(mean(values.map(Math.log)));
+}
+
+/**
+ * Harmonic mean, or `null` when the data contains non-positive values.
+ */
+export function harmonicMean(values: number[]): number | null {
+  if (values.some(value => value <= 0)) return null;
+  return values.length / sum(values.map(value => 1 / value));
+}
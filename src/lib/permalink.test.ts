@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFormValues, encodeFormValues, MAX_ENCODED_LENGTH, PERMALINK_VERSION, PermalinkError, permalinkHref } from './permalink';
+
+const base64Url = (text: string) => Buffer.from(text, 'utf8').toString('base64url');
+
+describe('permalinks', () => {
+  it('round-trips form values and leaves out empty fields', () => {
+    const values = { principal: '250000', rate: 6.5, biweekly: true, lumpSums: [{ month: '12', amount: '5000' }], note: '', extra: null };
+    const encoded = encodeFormValues(values);
+    expect(encoded.startsWith(`${PERMALINK_VERSION}.`)).toBe(true);
+    expect(encoded).toMatch(/^\d+\.[A-Za-z0-9_-]+$/);
+    expect(decodeFormValues(encoded)).toEqual({ principal: '250000', rate: 6.5, biweekly: true, lumpSums: [{ month: '12', amount: '5000' }] });
+  });
+
+  it('round-trips non-ASCII text', () => {
+    const values = { description: 'Café crème — 日本語 😀', currency: '€' };
+    expect(decodeFormValues(encodeFormValues(values))).toEqual(values);
+  });
+
+  it('builds a calculator path', () => {
+    expect(permalinkHref('vat-calculator', { amount: '100' })).toBe(`/calculator/vat-calculator?i=${encodeFormValues({ amount: '100' })}`);
+  });
+
+  it('rejects links from a newer version', () => {
+    expect(() => decodeFormValues(`${PERMALINK_VERSION + 1}.${base64Url('{}')}`)).toThrow(/newer version/);
+  });
+
+  it('rejects text that is not a versioned link', () => {
+    for (const encoded of ['', 'abc', `.${base64Url('{}')}`, `x.${base64Url('{}')}`, `0.${base64Url('{}')}`]) {
+      expect(() => decodeFormValues(encoded)).toThrow(PermalinkError);
+    }
+  });
+
+  it('rejects a corrupt payload', () => {
+    expect(() => decodeFormValues('1.!!!')).toThrow('The link is incomplete or damaged.');
+    expect(() => decodeFormValues(encodeFormValues({ amount: '100' }).slice(0, -3))).toThrow(PermalinkError);
+    expect(() => decodeFormValues(`1.${base64Url('[1, 2]')}`)).toThrow('The link does not contain calculator inputs.');
+  });
+
+  it('rejects oversized input both ways', () => {
+    expect(() => encodeFormValues({ notes: 'x'.repeat(MAX_ENCODED_LENGTH) })).toThrow(PermalinkError);
+    expect(() => decodeFormValues(`1.${'A'.repeat(MAX_ENCODED_LENGTH)}`)).toThrow('The link is too long.');
+  });
+});
@@ -0,0 +1,88 @@
+import { formValuesSchema } from './history';
+import type { HistoryFormValue } from './types';
+
+/**
+ * Shareable calculator links.
+ *
+ * A permalink carries a calculator's form values in the `SHARE_PARAM` query
+ * parameter as `<version>.<base64url JSON>`. Empty fields are left out to
+ * keep links short. Opening the link fills in the form and calculates.
+ */
+
+/** Query parameter on `/calculator/[slug]` holding the encoded form values. */
+export const SHARE_PARAM = 'i';
+
+/** Bump when the encoding changes, and keep `decodeFormValues` reading older versions. */
+export const PERMALINK_VERSION = 1;
+
+/** Longest encoded value accepted either way; longer URLs are cut off by some servers and chat apps. */
+export const MAX_ENCODED_LENGTH = 8000;
+
+type FormValues = Record<string, HistoryFormValue>;
+
+/** Thrown when a permalink's values cannot be read. */
+export class PermalinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermalinkError';
+  }
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+function isEmpty(value: HistoryFormValue): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+export function encodeFormValues(values: FormValues): string {
+  const compact = Object.fromEntries(Object.entries(values).filter(([, value]) => !isEmpty(value)));
+  const encoded = `${PERMALINK_VERSION}.${toBase64Url(JSON.stringify(compact))}`;
+  if (encoded.length > MAX_ENCODED_LENGTH) {
+    throw new PermalinkError('These inputs are too long to share as a link.');
+  }
+  return encoded;
+}
+
+/** Reads values produced by `encodeFormValues`. Throws `PermalinkError` if they are unusable. */
+export function decodeFormValues(encoded: string): FormValues {
+  if (encoded.length > MAX_ENCODED_LENGTH) {
+    throw new PermalinkError('The link is too long.');
+  }
+  const separator = encoded.indexOf('.');
+  const version = Number(encoded.slice(0, separator));
+  if (separator < 1 || !Number.isInteger(version) || version < 1) {
+    throw new PermalinkError('The link is not a calculator link.');
+  }
+  if (version > PERMALINK_VERSION) {
+    throw new PermalinkError(`The link was made by a newer version of this site (v${version}).`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(encoded.slice(separator + 1)));
+  } catch {
+    throw new PermalinkError('The link is incomplete or damaged.');
+  }
+  const parsed = formValuesSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new PermalinkError('The link does not contain calculator inputs.');
+  }
+  return parsed.data;
+}
+
+/** Path that opens `slug` with `values` filled in and calculated. Throws `PermalinkError` if the values are too long. */
+export function permalinkHref(slug: string, values: FormValues): string {
+  return `/calculator/${slug}?${SHARE_PARAM}=${encodeFormValues(values)}`;
+}
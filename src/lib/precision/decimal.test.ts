@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal, parseDecimal } from './decimal';
+
+const d = (value: string) => Decimal.from(value);
+
+describe('parseDecimal', () => {
+  it('reads plain and grouped decimals exactly, keeping the scale', () => {
+    expect(parseDecimal('1,234.50')?.toString()).toBe('1234.50');
+    expect(parseDecimal(' -0.001 ')?.toString()).toBe('-0.001');
+    expect(parseDecimal('.5')?.toString()).toBe('0.5');
+    expect(parseDecimal('1_000')?.toString()).toBe('1000');
+  });
+
+  it('reads scientific notation', () => {
+    expect(parseDecimal('-4.56e-4')?.toString()).toBe('-0.000456');
+    expect(parseDecimal('1.2E3')?.toString()).toBe('1200');
+    expect(parseDecimal('1.2e+3')?.scale).toBe(-2);
+    expect(parseDecimal('5e0')?.toString()).toBe('5');
+  });
+
+  it('rejects text that is not a number', () => {
+    for (const text of ['', '.', 'abc', '1e', '1.2.3', '--1', '0x10']) {
+      expect(parseDecimal(text)).toBeNull();
+    }
+  });
+
+  it('rejects exponents that would build huge coefficients', () => {
+    expect(parseDecimal('1e100000')?.exponent()).toBe(100000);
+    expect(parseDecimal('1e100001')).toBeNull();
+    expect(parseDecimal('1e-100001')).toBeNull();
+  });
+});
+
+describe('Decimal.from', () => {
+  it('reads numbers via their shortest form', () => {
+    expect(Decimal.from(0.1).add(0.2).toString()).toBe('0.3');
+    expect(Decimal.from(BigInt(42)).toString()).toBe('42');
+  });
+
+  it('rejects non-finite numbers and malformed strings', () => {
+    expect(() => Decimal.from(NaN)).toThrow(RangeError);
+    expect(() => Decimal.from(Infinity)).toThrow(RangeError);
+    expect(() => Decimal.from('1,2,x')).toThrow(RangeError);
+  });
+});
+
+describe('Decimal arithmetic', () => {
+  it('adds, subtracts and multiplies exactly', () => {
+    expect(d('123456789012345678901234567890.5').add('0.5').toString()).toBe('123456789012345678901234567891.0');
+    expect(d('1.10').subtract('2.2').toString()).toBe('-1.10');
+    expect(d('1.5').multiply('-0.25').toString()).toBe('-0.375');
+  });
+
+  it('divides to the chosen number of places', () => {
+    expect(d('1').divide('3', 5).toString()).toBe('0.33333');
+    expect(d('2').divide('3', 5).toString()).toBe('0.66667');
+    expect(d('2').divide('3', 5, 'truncate').toString()).toBe('0.66666');
+    expect(d('1').divide('3').toString()).toBe(`0.${'3'.repeat(20)}`);
+    expect(d('1').divide('3', 0).toString()).toBe('0');
+  });
+
+  it('rounds division ties with the given mode', () => {
+    expect(d('1').divide('8', 2, 'halfEven').toString()).toBe('0.12');
+    expect(d('1').divide('8', 2, 'halfUp').toString()).toBe('0.13');
+    expect(d('-1').divide('8', 2, 'halfUp').toString()).toBe('-0.13');
+    expect(d('-1').divide('8', 2, 'ceiling').toString()).toBe('-0.12');
+  });
+
+  it('drops trailing zeros from quotients', () => {
+    expect(d('1').divide('4').toString()).toBe('0.25');
+    expect(d('1.00').divide('0.5').toString()).toBe('2');
+  });
+
+  it('rejects division by zero', () => {
+    expect(() => d('1').divide('0')).toThrow(RangeError);
+    expect(() => d('1').remainder('0.0')).toThrow(RangeError);
+  });
+
+  it('takes remainders with the sign of the dividend', () => {
+    expect(d('-7.5').remainder('2').toString()).toBe('-1.5');
+  });
+
+  it('raises to integer powers', () => {
+    expect(d('1.1').pow(3).toString()).toBe('1.331');
+    expect(d('2').pow(-2).toString()).toBe('0.25');
+    expect(() => d('2').pow(0.5)).toThrow(RangeError);
+  });
+
+  it('takes square roots to the chosen number of places', () => {
+    expect(d('2').sqrt(10).toString()).toBe('1.4142135624');
+    expect(d('0.25').sqrt().toString()).toBe('0.5');
+    expect(() => d('-1').sqrt()).toThrow(RangeError);
+  });
+});
+
+describe('Decimal rounding', () => {
+  it('rounds ties with every mode', () => {
+    const round = (value: string, mode: Parameters<Decimal['round']>[1]) => d(value).round(2, mode).toString();
+    expect(['2.345', '2.355', '-2.345'].map(value => round(value, 'halfEven'))).toEqual(['2.34', '2.36', '-2.34']);
+    expect(['2.345', '-2.345'].map(value => round(value, 'halfUp'))).toEqual(['2.35', '-2.35']);
+    expect(['2.345', '-2.345'].map(value => round(value, 'halfDown'))).toEqual(['2.34', '-2.34']);
+    expect(['2.341', '-2.341'].map(value => round(value, 'ceiling'))).toEqual(['2.35', '-2.34']);
+    expect(['2.349', '-2.349'].map(value => round(value, 'floor'))).toEqual(['2.34', '-2.35']);
+    expect(['2.349', '-2.349'].map(value => round(value, 'truncate'))).toEqual(['2.34', '-2.34']);
+    expect(['2.341', '-2.341'].map(value => round(value, 'awayFromZero'))).toEqual(['2.35', '-2.35']);
+  });
+
+  it('rounds to tens with negative places and pads with zeros', () => {
+    expect(d('125').round(-1).toString()).toBe('130');
+    expect(d('125').round(-1, 'halfEven').toString()).toBe('120');
+    expect(d('1.5').toFixed(3)).toBe('1.500');
+  });
+
+  it('rounds to significant digits, keeping significant zeros', () => {
+    expect(d('99000').toSignificant(2).toString()).toBe('99000');
+    expect(d('999.96').toSignificant(4).toString()).toBe('1000');
+    expect(d('0.00045678').toSignificant(3).toString()).toBe('0.000457');
+    expect(d('1.5').toSignificant(4).toString()).toBe('1.500');
+  });
+
+  it('writes scientific notation', () => {
+    expect(d('0.000456').toExponential()).toBe('4.56e-4');
+    expect(d('123456').toExponential(3)).toBe('1.23e+5');
+    expect(d('-999.96').toExponential(4)).toBe('-1.000e+3');
+  });
+});
+
+describe('Decimal comparison', () => {
+  it('compares by value whatever the scale', () => {
+    expect(d('1.50').equals('1.5')).toBe(true);
+    expect(d('-0.1').compare('0.01')).toBe(-1);
+    expect(d('2.00').isInteger()).toBe(true);
+    expect(d('123.4').precision()).toBe(4);
+    expect(d('0.000456').exponent()).toBe(-4);
+  });
+});
@@ -0,0 +1,224 @@
+import { ONE, TEN, ZERO, abs, digitCount, divideAndRound, integerSqrt, pow10, type RoundingMode } from './rounding';
+
+/** Fraction digits kept by `divide`, `pow` with negative exponents and `sqrt` unless told otherwise. */
+export const DEFAULT_PLACES = 20;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+// Exponents beyond this would build multi-megabyte coefficients
+const MAX_EXPONENT = 100000;
+
+/**
+ * Immutable arbitrary-precision decimal: `coefficient × 10^-scale`.
+ * A negative scale stands for trailing zeros that are not significant, so
+ * 99000 rounded to two significant figures is `99 × 10^3`.
+ *
+ * Addition, subtraction and multiplication are exact. Division and roots
+ * round to a number of fraction digits with an explicit `RoundingMode`.
+ * The scale is kept as given, so `Decimal.from('1.50')` prints as "1.50".
+ */
+export class Decimal {
+  readonly coefficient: bigint;
+  readonly scale: number;
+
+  private constructor(coefficient: bigint, scale: number) {
+    this.coefficient = coefficient;
+    this.scale = scale;
+  }
+
+  /**
+   * @param value A bigint, a finite number (read via its shortest decimal
+   *   form, so `0.1` is exactly 0.1) or a decimal string such as "-1.25e3".
+   * @throws RangeError for non-finite numbers and malformed strings.
+   */
+  static from(value: Decimal | bigint | number | string): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === 'bigint') return new Decimal(value, 0);
+    if (typeof value === 'number' && !isFinite(value)) throw new RangeError(`Cannot represent ${value} as a decimal.`);
+    const parsed = parseDecimal(String(value));
+    if (!parsed) throw new RangeError(`Invalid decimal "${value}".`);
+    return parsed;
+  }
+
+  /** `coefficient × 10^-scale`. */
+  static fromParts(coefficient: bigint, scale: number): Decimal {
+    return new Decimal(coefficient, scale);
+  }
+
+  private rescale(scale: number): bigint {
+    return this.coefficient * pow10(scale - this.scale);
+  }
+
+  add(other: Decimal | number | string | bigint): Decimal {
+    const b = Decimal.from(other);
+    const scale = Math.max(this.scale, b.scale);
+    return new Decimal(this.rescale(scale) + b.rescale(scale), scale);
+  }
+
+  subtract(other: Decimal | number | string | bigint): Decimal {
+    return this.add(Decimal.from(other).negate());
+  }
+
+  multiply(other: Decimal | number | string | bigint): Decimal {
+    const b = Decimal.from(other);
+    return new Decimal(this.coefficient * b.coefficient, this.scale + b.scale);
+  }
+
+  /**
+   * Divides, rounding to `places` fraction digits. Trailing zeros are dropped.
+   *
+   * @throws RangeError when dividing by zero.
+   */
+  divide(other: Decimal | number | string | bigint, places = DEFAULT_PLACES, mode: RoundingMode = 'halfEven'): Decimal {
+    const b = Decimal.from(other);
+    if (b.isZero()) throw new RangeError('Division by zero.');
+    // (a.c / 10^a.s) / (b.c / 10^b.s) = a.c × 10^(b.s − a.s) / b.c, scaled up by 10^places
+    const shift = b.scale - this.scale + places;
+    const numerator = shift >= 0 ? this.coefficient * pow10(shift) : this.coefficient;
+    const denominator = shift >= 0 ? b.coefficient : b.coefficient * pow10(-shift);
+    return new Decimal(divideAndRound(numerator, denominator, mode), places).stripTrailingZeros();
+  }
+
+  /** Remainder of truncating division, with the sign of the dividend (like `%`). */
+  remainder(other: Decimal | number | string | bigint): Decimal {
+    const b = Decimal.from(other);
+    if (b.isZero()) throw new RangeError('Division by zero.');
+    const scale = Math.max(this.scale, b.scale);
+    return new Decimal(this.rescale(scale) % b.rescale(scale), scale);
+  }
+
+  /**
+   * Integer power. Negative exponents divide, rounding to `places`.
+   */
+  pow(exponent: number, places = DEFAULT_PLACES, mode: RoundingMode = 'halfEven'): Decimal {
+    if (!Number.isInteger(exponent)) throw new RangeError('Exponent must be an integer.');
+    const power = new Decimal(this.coefficient ** BigInt(Math.abs(exponent)), this.scale * Math.abs(exponent));
+    return exponent >= 0 ? power : new Decimal(ONE, 0).divide(power, places, mode);
+  }
+
+  /**
+   * Square root rounded to `places` fraction digits.
+   *
+   * @throws RangeError for negative values.
+   */
+  sqrt(places = DEFAULT_PLACES, mode: RoundingMode = 'halfEven'): Decimal {
+    if (this.isNegative()) throw new RangeError('Square root of a negative number.');
+    // One guard digit so the truncated root can be rounded
+    const scale = Math.max(places + 1, Math.ceil(this.scale / 2));
+    const root = new Decimal(integerSqrt(this.coefficient * pow10(2 * scale - this.scale)), scale);
+    return root.round(places, mode).stripTrailingZeros();
+  }
+
+  negate(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  abs(): Decimal {
+    return new Decimal(abs(this.coefficient), this.scale);
+  }
+
+  /** Multiplies by `10^places` exactly. */
+  shift(places: number): Decimal {
+    return Decimal.fromParts(this.coefficient, this.scale - places);
+  }
+
+  /**
+   * Rounds to `places` fraction digits; negative `places` rounds to tens,
+   * hundreds and so on. Rounding to more places than present pads with zeros.
+   */
+  round(places: number, mode: RoundingMode = 'halfUp'): Decimal {
+    if (places >= this.scale) return new Decimal(this.rescale(places), places);
+    return new Decimal(divideAndRound(this.coefficient, pow10(this.scale - places), mode), places);
+  }
+
+  /** Rounds to `digits` significant digits, keeping trailing zeros that are significant. */
+  toSignificant(digits: number, mode: RoundingMode = 'halfUp'): Decimal {
+    if (this.isZero()) return new Decimal(ZERO, digits - 1);
+    const places = this.scale - (digitCount(this.coefficient) - digits);
+    const rounded = this.round(places, mode);
+    // A carry such as 999.96 → 1000.0 adds a digit; the extra digit is a zero and can be dropped exactly
+    return rounded.precision() > digits ? rounded.round(places - 1, mode) : rounded;
+  }
+
+  stripTrailingZeros(): Decimal {
+    let { coefficient, scale } = this;
+    while (scale > 0 && coefficient % TEN === ZERO) {
+      coefficient /= TEN;
+      scale--;
+    }
+    return new Decimal(coefficient, scale);
+  }
+
+  /** Power of ten of the leading digit, e.g. 2 for 456.7 and -4 for 0.000456. */
+  exponent(): number {
+    return this.isZero() ? 0 : digitCount(this.coefficient) - 1 - this.scale;
+  }
+
+  /** Number of significant digits in the coefficient, including trailing zeros. */
+  precision(): number {
+    return digitCount(this.coefficient);
+  }
+
+  compare(other: Decimal | number | string | bigint): -1 | 0 | 1 {
+    const difference = this.subtract(other).coefficient;
+    return difference === ZERO ? 0 : difference < ZERO ? -1 : 1;
+  }
+
+  equals(other: Decimal | number | string | bigint): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < ZERO;
+  }
+
+  isInteger(): boolean {
+    return this.scale <= 0 || this.coefficient % pow10(this.scale) === ZERO;
+  }
+
+  /** Plain decimal notation with every digit, e.g. "-0.00045600". */
+  toString(): string {
+    const sign = this.isNegative() ? '-' : '';
+    if (this.scale <= 0) return `${sign}${abs(this.coefficient)}${this.isZero() ? '' : '0'.repeat(-this.scale)}`;
+    const digits = abs(this.coefficient).toString().padStart(this.scale + 1, '0');
+    return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+  }
+
+  /** Fixed-point notation rounded to `places`, like `Number.prototype.toFixed`. */
+  toFixed(places: number, mode: RoundingMode = 'halfUp'): string {
+    return this.round(places, mode).toString();
+  }
+
+  /**
+   * Scientific notation such as "4.56e-4". With `digits`, rounds to that many
+   * significant digits first; otherwise keeps every digit.
+   */
+  toExponential(digits?: number, mode: RoundingMode = 'halfUp'): string {
+    const value = digits === undefined ? this.stripTrailingZeros() : this.toSignificant(digits, mode);
+    const exponent = value.exponent();
+    return `${value.shift(-exponent).toString()}e${exponent < 0 ? '' : '+'}${exponent}`;
+  }
+
+  /** Nearest JavaScript number; precision beyond ~17 digits is lost. */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+}
+
+/**
+ * Parses decimal or E-notation text, e.g. "1,234.50" or "-4.56e-4".
+ * Commas, underscores and spaces are ignored.
+ *
+ * @returns The exact value, or `null` if the text is not a number.
+ */
+export function parseDecimal(text: string): Decimal | null {
+  const match = DECIMAL_PATTERN.exec(text.trim().replace(/[,_\s]/g, ''));
+  if (!match) return null;
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  if ((whole === '' && fraction === '') || Math.abs(Number(exponent)) > MAX_EXPONENT) return null;
+  const coefficient = BigInt(`${whole}${fraction}` || '0');
+  return Decimal.fromParts(sign === '-' ? -coefficient : coefficient, fraction.length - Number(exponent));
+}
@@ -0,0 +1,3 @@
+export { divideAndRound, integerSqrt, ROUNDING_MODES, type RoundingMode } from './rounding';
+export { Decimal, parseDecimal, DEFAULT_PLACES } from './decimal';
+export { Rational, parseRational } from './rational';
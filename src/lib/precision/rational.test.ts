@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from './decimal';
+import { Rational, parseRational } from './rational';
+
+const r = (numerator: number, denominator = 1) => new Rational(BigInt(numerator), BigInt(denominator));
+
+describe('Rational', () => {
+  it('keeps fractions in lowest terms with a positive denominator', () => {
+    expect(r(6, -8).toString()).toBe('-3/4');
+    expect(r(-6, -8).toString()).toBe('3/4');
+    expect(r(0, 5).denominator).toBe(BigInt(1));
+    expect(r(10, 5).isInteger()).toBe(true);
+  });
+
+  it('rejects a zero denominator', () => {
+    expect(() => r(1, 0)).toThrow(RangeError);
+  });
+
+  it('converts numbers and decimals exactly', () => {
+    expect(Rational.from(0.1).toString()).toBe('1/10');
+    expect(Rational.from(Decimal.from('1.2e3')).toString()).toBe('1200');
+    expect(Rational.from(BigInt(-7)).toString()).toBe('-7');
+  });
+
+  it('does exact arithmetic', () => {
+    expect(r(1, 3).add(r(1, 6)).toString()).toBe('1/2');
+    expect(r(1, 3).subtract(r(1, 2)).toString()).toBe('-1/6');
+    expect(r(2, 3).multiply(r(-3, 4)).toString()).toBe('-1/2');
+    expect(r(2, 3).divide(r(4, 9)).toString()).toBe('3/2');
+    expect(r(2, 3).pow(-2).toString()).toBe('9/4');
+    expect(r(-2, 3).pow(3).toString()).toBe('-8/27');
+  });
+
+  it('rejects division by zero', () => {
+    expect(() => r(1).divide(r(0))).toThrow(RangeError);
+    expect(() => r(0).reciprocal()).toThrow(RangeError);
+    expect(() => r(0).pow(-1)).toThrow(RangeError);
+  });
+
+  it('compares by value', () => {
+    expect(r(1, 3).compare(r(2, 6))).toBe(0);
+    expect(r(-1, 2).compare(r(1, 3))).toBe(-1);
+  });
+
+  it('writes mixed numbers', () => {
+    expect(r(-3, 2).toMixedString()).toBe('-1 1/2');
+    expect(r(7, 3).toMixedString()).toBe('2 1/3');
+    expect(r(2, 3).toMixedString()).toBe('2/3');
+  });
+
+  it('writes repeating decimals', () => {
+    expect(r(1, 3).toRepeatingDecimal()).toBe('0.(3)');
+    expect(r(1, 6).toRepeatingDecimal()).toBe('0.1(6)');
+    expect(r(-22, 7).toRepeatingDecimal()).toBe('-3.(142857)');
+    expect(r(1, 8).toRepeatingDecimal()).toBe('0.125');
+    expect(r(1, 97).toRepeatingDecimal(5)).toBe('0.01030…');
+  });
+
+  it('rounds to decimals', () => {
+    expect(r(1, 8).toDecimal(2, 'halfEven').toString()).toBe('0.12');
+    expect(r(-1, 8).toDecimal(2).toString()).toBe('-0.13');
+    expect(r(1, 3).toNumber()).toBeCloseTo(1 / 3, 15);
+  });
+});
+
+describe('parseRational', () => {
+  it('reads fractions, mixed numbers and decimals', () => {
+    expect(parseRational('3/4')?.toString()).toBe('3/4');
+    expect(parseRational('-1 1/2')?.toString()).toBe('-3/2');
+    expect(parseRational('6 / 8')?.toString()).toBe('3/4');
+    expect(parseRational('2.75')?.toString()).toBe('11/4');
+    expect(parseRational('1.5e-2')?.toString()).toBe('3/200');
+  });
+
+  it('returns null for invalid text and zero denominators', () => {
+    expect(parseRational('1/0')).toBeNull();
+    expect(parseRational('abc')).toBeNull();
+    expect(parseRational('1//2')).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { Decimal, parseDecimal } from './decimal';
+import { ONE, TEN, ZERO, abs, divideAndRound, pow10, type RoundingMode } from './rounding';
+
+function gcd(a: bigint, b: bigint): bigint {
+  let x = abs(a);
+  let y = abs(b);
+  while (y !== ZERO) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+const FRACTION_PATTERN = /^([+-])?(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/;
+
+/**
+ * Immutable exact fraction of two bigints, always in lowest terms with a
+ * positive denominator.
+ */
+export class Rational {
+  readonly numerator: bigint;
+  readonly denominator: bigint;
+
+  /** @throws RangeError when `denominator` is zero. */
+  constructor(numerator: bigint, denominator: bigint = ONE) {
+    if (denominator === ZERO) throw new RangeError('Denominator cannot be zero.');
+    const divisor = gcd(numerator, denominator) || ONE;
+    const sign = denominator < ZERO ? -ONE : ONE;
+    this.numerator = (sign * numerator) / divisor;
+    this.denominator = abs(denominator) / divisor;
+  }
+
+  /** Exact conversion; numbers are read via their shortest decimal form, so `0.1` is 1/10. */
+  static from(value: Rational | Decimal | bigint | number): Rational {
+    if (value instanceof Rational) return value;
+    if (typeof value === 'bigint') return new Rational(value);
+    const decimal = Decimal.from(value);
+    return decimal.scale >= 0
+      ? new Rational(decimal.coefficient, pow10(decimal.scale))
+      : new Rational(decimal.coefficient * pow10(-decimal.scale));
+  }
+
+  add(other: Rational): Rational {
+    return new Rational(this.numerator * other.denominator + other.numerator * this.denominator, this.denominator * other.denominator);
+  }
+
+  subtract(other: Rational): Rational {
+    return this.add(other.negate());
+  }
+
+  multiply(other: Rational): Rational {
+    return new Rational(this.numerator * other.numerator, this.denominator * other.denominator);
+  }
+
+  /** @throws RangeError when dividing by zero. */
+  divide(other: Rational): Rational {
+    if (other.isZero()) throw new RangeError('Division by zero.');
+    return new Rational(this.numerator * other.denominator, this.denominator * other.numerator);
+  }
+
+  /** Integer power; negative exponents invert. */
+  pow(exponent: number): Rational {
+    if (!Number.isInteger(exponent)) throw new RangeError('Exponent must be an integer.');
+    const power = BigInt(Math.abs(exponent));
+    const result = new Rational(this.numerator ** power, this.denominator ** power);
+    return exponent >= 0 ? result : result.reciprocal();
+  }
+
+  /** @throws RangeError for zero. */
+  reciprocal(): Rational {
+    return new Rational(this.denominator, this.numerator);
+  }
+
+  negate(): Rational {
+    return new Rational(-this.numerator, this.denominator);
+  }
+
+  abs(): Rational {
+    return new Rational(abs(this.numerator), this.denominator);
+  }
+
+  compare(other: Rational): -1 | 0 | 1 {
+    const difference = this.numerator * other.denominator - other.numerator * this.denominator;
+    return difference === ZERO ? 0 : difference < ZERO ? -1 : 1;
+  }
+
+  equals(other: Rational): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.numerator === ZERO;
+  }
+
+  isInteger(): boolean {
+    return this.denominator === ONE;
+  }
+
+  /** Rounds to `places` fraction digits. */
+  toDecimal(places: number, mode: RoundingMode = 'halfUp'): Decimal {
+    return Decimal.fromParts(divideAndRound(this.numerator * pow10(places), this.denominator, mode), places);
+  }
+
+  /** "3/4", or "5" for whole numbers. */
+  toString(): string {
+    return this.isInteger() ? this.numerator.toString() : `${this.numerator}/${this.denominator}`;
+  }
+
+  /** Mixed number such as "-1 1/2"; proper fractions and integers print as in `toString`. */
+  toMixedString(): string {
+    const whole = this.numerator / this.denominator;
+    if (whole === ZERO || this.isInteger()) return this.toString();
+    return `${whole} ${abs(this.numerator % this.denominator)}/${this.denominator}`;
+  }
+
+  /**
+   * Exact decimal expansion with the repeating block in parentheses, e.g.
+   * 1/3 = "0.(3)" and 1/6 = "0.1(6)". Expansions longer than `maxDigits`
+   * fraction digits are cut off with "…".
+   */
+  toRepeatingDecimal(maxDigits = 100): string {
+    const sign = this.numerator < ZERO ? '-' : '';
+    const numerator = abs(this.numerator);
+    const whole = numerator / this.denominator;
+    let remainder = numerator % this.denominator;
+    if (remainder === ZERO) return `${sign}${whole}`;
+
+    const digits: string[] = [];
+    // Position in `digits` at which each remainder was first seen
+    const seen = new Map<bigint, number>();
+    while (remainder !== ZERO && !seen.has(remainder)) {
+      if (digits.length >= maxDigits) return `${sign}${whole}.${digits.join('')}…`;
+      seen.set(remainder, digits.length);
+      remainder *= TEN;
+      digits.push((remainder / this.denominator).toString());
+      remainder %= this.denominator;
+    }
+
+    if (remainder === ZERO) return `${sign}${whole}.${digits.join('')}`;
+    const start = seen.get(remainder)!;
+    return `${sign}${whole}.${digits.slice(0, start).join('')}(${digits.slice(start).join('')})`;
+  }
+
+  /** Nearest JavaScript number. */
+  toNumber(): number {
+    return this.toDecimal(20, 'halfEven').toNumber();
+  }
+}
+
+/**
+ * Parses a fraction ("3/4"), mixed number ("-1 1/2"), integer or decimal
+ * ("2.75", "1.2e3") exactly.
+ *
+ * @returns The value, or `null` if the text is not a number or has a zero denominator.
+ */
+export function parseRational(text: string): Rational | null {
+  const trimmed = text.trim();
+  const fraction = FRACTION_PATTERN.exec(trimmed);
+  if (fraction) {
+    const [, sign, whole = '0', numerator, denominator] = fraction;
+    if (BigInt(denominator) === ZERO) return null;
+    const value = new Rational(BigInt(whole) * BigInt(denominator) + BigInt(numerator), BigInt(denominator));
+    return sign === '-' ? value.negate() : value;
+  }
+  const decimal = parseDecimal(trimmed);
+  return decimal ? Rational.from(decimal) : null;
+}
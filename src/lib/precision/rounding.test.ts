@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { divideAndRound, integerSqrt, type RoundingMode } from './rounding';
+
+// Each mode on n / 10 for n = 25, 15, -25, -15 (ties), 26, -26, 24, -24
+const NUMERATORS = [25, 15, -25, -15, 26, -26, 24, -24];
+const EXPECTED: Record<RoundingMode, number[]> = {
+  halfUp: [3, 2, -3, -2, 3, -3, 2, -2],
+  halfDown: [2, 1, -2, -1, 3, -3, 2, -2],
+  halfEven: [2, 2, -2, -2, 3, -3, 2, -2],
+  ceiling: [3, 2, -2, -1, 3, -2, 3, -2],
+  floor: [2, 1, -3, -2, 2, -3, 2, -3],
+  truncate: [2, 1, -2, -1, 2, -2, 2, -2],
+  awayFromZero: [3, 2, -3, -2, 3, -3, 3, -3],
+};
+
+describe('divideAndRound', () => {
+  it.each(Object.entries(EXPECTED))('rounds %s', (mode, expected) => {
+    expect(NUMERATORS.map(n => Number(divideAndRound(BigInt(n), BigInt(10), mode as RoundingMode)))).toEqual(expected);
+  });
+
+  it('returns exact quotients unchanged in every mode', () => {
+    for (const mode of Object.keys(EXPECTED) as RoundingMode[]) {
+      expect(divideAndRound(BigInt(-30), BigInt(10), mode)).toBe(BigInt(-3));
+    }
+  });
+
+  it('moves the sign of a negative denominator to the numerator', () => {
+    expect(divideAndRound(BigInt(25), BigInt(-10), 'floor')).toBe(BigInt(-3));
+    expect(divideAndRound(BigInt(-25), BigInt(-10), 'halfEven')).toBe(BigInt(2));
+  });
+
+  it('rejects division by zero', () => {
+    expect(() => divideAndRound(BigInt(1), BigInt(0), 'halfUp')).toThrow(RangeError);
+  });
+});
+
+describe('integerSqrt', () => {
+  it('floors the square root', () => {
+    expect(integerSqrt(BigInt(0))).toBe(BigInt(0));
+    expect(integerSqrt(BigInt(1))).toBe(BigInt(1));
+    expect(integerSqrt(BigInt(99))).toBe(BigInt(9));
+    expect(integerSqrt(BigInt(100))).toBe(BigInt(10));
+    expect(integerSqrt(BigInt('1000000000000000000000000000000000000001'))).toBe(BigInt('31622776601683793319'));
+  });
+
+  it('rejects negative values', () => {
+    expect(() => integerSqrt(BigInt(-1))).toThrow(RangeError);
+  });
+});
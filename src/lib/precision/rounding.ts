@@ -0,0 +1,84 @@
+/**
+ * Rounding modes shared by `Decimal` and `Rational`.
+ *
+ * - `halfUp` / `halfDown`: nearest, ties away from / toward zero
+ * - `halfEven`: nearest, ties to the even neighbour (banker's rounding)
+ * - `ceiling` / `floor`: toward +∞ / −∞
+ * - `truncate` / `awayFromZero`: toward / away from zero
+ */
+export type RoundingMode = 'halfUp' | 'halfDown' | 'halfEven' | 'ceiling' | 'floor' | 'truncate' | 'awayFromZero';
+
+/** Select options for the rounding modes, in the order calculators offer them. */
+export const ROUNDING_MODES: Array<{ value: RoundingMode; label: string }> = [
+  { value: 'halfUp', label: 'Half up (away from zero)' },
+  { value: 'halfEven', label: "Half to even (banker's)" },
+  { value: 'halfDown', label: 'Half down (toward zero)' },
+  { value: 'ceiling', label: 'Ceiling (toward +∞)' },
+  { value: 'floor', label: 'Floor (toward −∞)' },
+  { value: 'truncate', label: 'Truncate (toward zero)' },
+  { value: 'awayFromZero', label: 'Away from zero' },
+];
+
+export const ZERO = BigInt(0);
+export const ONE = BigInt(1);
+export const TWO = BigInt(2);
+export const TEN = BigInt(10);
+
+export function abs(value: bigint): bigint {
+  return value < ZERO ? -value : value;
+}
+
+export function pow10(exponent: number): bigint {
+  return TEN ** BigInt(exponent);
+}
+
+/** Number of decimal digits in `value`, ignoring the sign (1 for zero). */
+export function digitCount(value: bigint): number {
+  return abs(value).toString().length;
+}
+
+/**
+ * Divides two integers and rounds the quotient to an integer.
+ *
+ * @throws RangeError when `denominator` is zero.
+ */
+export function divideAndRound(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator === ZERO) throw new RangeError('Division by zero.');
+  if (denominator < ZERO) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  // bigint division truncates toward zero
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === ZERO) return quotient;
+
+  const negative = numerator < ZERO;
+  const awayFromZero = negative ? quotient - ONE : quotient + ONE;
+  switch (mode) {
+    case 'truncate': return quotient;
+    case 'awayFromZero': return awayFromZero;
+    case 'ceiling': return negative ? quotient : awayFromZero;
+    case 'floor': return negative ? awayFromZero : quotient;
+  }
+
+  const twiceRemainder = abs(remainder) * TWO;
+  if (twiceRemainder > denominator) return awayFromZero;
+  if (twiceRemainder < denominator) return quotient;
+  if (mode === 'halfUp') return awayFromZero;
+  if (mode === 'halfDown') return quotient;
+  return quotient % TWO === ZERO ? quotient : awayFromZero;
+}
+
+/** Floor of the square root of a non-negative integer (Newton's method). */
+export function integerSqrt(value: bigint): bigint {
+  if (value < ZERO) throw new RangeError('Square root of a negative number.');
+  if (value < TWO) return value;
+  let x = BigInt(`1${'0'.repeat(Math.ceil(digitCount(value) / 2))}`);
+  for (;;) {
+    const next = (x + value / x) / TWO;
+    if (next >= x) return x;
+    x = next;
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { formValuesSchema } from './history';
+import type { HistoryEntry, HistoryFormValue, HistoryOutputValue, Scenario } from './types';
+
+/**
+ * Saved scenarios (`SCENARIOS_STORAGE_KEY`): named input sets per calculator
+ * that can be loaded back into the form or compared side by side.
+ */
+
+export const MIN_COMPARED_SCENARIOS = 2;
+export const MAX_COMPARED_SCENARIOS = 4;
+
+const scenarioSchema = z.object({
+  id: z.string(),
+  calculatorSlug: z.string(),
+  name: z.string().min(1),
+  createdAt: z.union([z.string(), z.number(), z.date()]).transform(value => new Date(value)).refine(date => !isNaN(date.getTime())),
+  values: formValuesSchema,
+  calculatorVersion: z.number().int().nonnegative(),
+  outputs: z.record(z.string(), z.union([z.number(), z.string(), z.null()])),
+  result: z.string(),
+});
+
+/** Stored scenarios; unreadable ones are dropped individually. */
+export const scenariosSchema = z.array(z.unknown()).transform(stored =>
+  stored.flatMap(scenario => {
+    const parsed = scenarioSchema.safeParse(scenario);
+    return parsed.success ? [parsed.data] : [];
+  })
+);
+
+export function createScenario(name: string, entry: HistoryEntry): Scenario {
+  return {
+    id: Date.now().toString(),
+    calculatorSlug: entry.calculatorSlug,
+    name: name.trim(),
+    createdAt: new Date(),
+    values: entry.values,
+    calculatorVersion: entry.calculatorVersion,
+    outputs: entry.outputs,
+    result: entry.result,
+  };
+}
+
+/**
+ * Adds a scenario, replacing one of the same calculator with the same name
+ * (ignoring case) in place.
+ */
+export function saveScenario(scenarios: Scenario[], scenario: Scenario): Scenario[] {
+  const key = scenario.name.toLowerCase();
+  const index = scenarios.findIndex(saved => saved.calculatorSlug === scenario.calculatorSlug && saved.name.toLowerCase() === key);
+  if (index === -1) return [...scenarios, scenario];
+  return scenarios.map((saved, i) => (i === index ? { ...scenario, id: saved.id } : saved));
+}
+
+/** `monthlyPayment` → `Monthly Payment`, for fields without a defined label. */
+export function humanizeFieldName(name: string): string {
+  const words = name.replace(/([a-z\d])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim();
+  return words.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+export interface ScenarioInputRow {
+  name: string;
+  values: HistoryFormValue[];
+}
+
+export interface ScenarioOutputRow {
+  name: string;
+  values: HistoryOutputValue[];
+  /** Difference from the first scenario; `null` where either value is not a number, and for the first scenario. */
+  deltas: (number | null)[];
+  /** `deltas` relative to the first scenario's value; `null` where that value is zero. */
+  percentDeltas: (number | null)[];
+}
+
+export interface ScenarioComparison {
+  /** Inputs whose values are not the same in every scenario. */
+  inputs: ScenarioInputRow[];
+  outputs: ScenarioOutputRow[];
+}
+
+function fieldNames<T>(records: Record<string, T>[]): string[] {
+  return Array.from(new Set(records.flatMap(record => Object.keys(record))));
+}
+
+/** Lines scenarios up against the first one, which serves as the baseline. */
+export function compareScenarios(scenarios: Scenario[]): ScenarioComparison {
+  const inputs = fieldNames(scenarios.map(scenario => scenario.values))
+    .map(name => ({ name, values: scenarios.map(scenario => scenario.values[name]) }))
+    .filter(row => new Set(row.values.map(value => JSON.stringify(value ?? null))).size > 1);
+
+  const outputs = fieldNames(scenarios.map(scenario => scenario.outputs)).map(name => {
+    const values = scenarios.map(scenario => scenario.outputs[name] ?? null);
+    const baseline = values[0];
+    const deltas = values.map((value, index) =>
+      index > 0 && typeof value === 'number' && typeof baseline === 'number' ? value - baseline : null
+    );
+    const percentDeltas = deltas.map(delta => (delta !== null && baseline !== 0 ? (delta / Math.abs(baseline as number)) * 100 : null));
+    return { name, values, deltas, percentDeltas };
+  });
+
+  return { inputs, outputs };
+}
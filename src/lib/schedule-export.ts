@@ -0,0 +1,157 @@
+import type { CurrencyData } from './constants';
+import { toCsv, type CsvCell } from './csv';
+import type { AmortizationEntry } from './finance';
+import type { VatCategory, VatInvoice } from './tax';
+import { toXlsx, type XlsxCell } from './xlsx';
+
+/**
+ * Payment schedules prepared for spreadsheets. Both formats hold a header
+ * row, one row per period, a blank row and then the summary. CSV keeps
+ * amounts as plain two-decimal numbers with the currency code in the
+ * header, so they stay summable once pasted; XLSX stores numbers with a
+ * currency number format.
+ */
+
+export type ScheduleFormat = 'integer' | 'currency' | 'text';
+
+export interface ScheduleColumn {
+  header: string;
+  format: ScheduleFormat;
+}
+
+export interface ScheduleSummaryItem {
+  label: string;
+  value: number | string;
+  format: ScheduleFormat;
+}
+
+export interface ScheduleExport {
+  /** Names the worksheet and the downloaded file. */
+  title: string;
+  currency: CurrencyData;
+  columns: ScheduleColumn[];
+  rows: (number | string)[][];
+  summary: ScheduleSummaryItem[];
+}
+
+function headerLabel(column: ScheduleColumn, currency: CurrencyData): string {
+  return column.format === 'currency' ? `${column.header} (${currency.code})` : column.header;
+}
+
+/** Amounts are exported to the cent, as displayed. */
+function exportValue(value: number | string, format: ScheduleFormat): number | string {
+  return format === 'currency' && typeof value === 'number' ? Math.round(value * 100) / 100 : value;
+}
+
+function csvValue(value: number | string, format: ScheduleFormat): CsvCell {
+  const rounded = exportValue(value, format);
+  return format === 'currency' && typeof rounded === 'number' ? rounded.toFixed(2) : rounded;
+}
+
+export function scheduleToCsv(schedule: ScheduleExport): string {
+  const { columns, currency } = schedule;
+  return toCsv([
+    columns.map(column => headerLabel(column, currency)),
+    ...schedule.rows.map(row => row.map((value, index) => csvValue(value, columns[index]?.format ?? 'text'))),
+    [],
+    ...schedule.summary.map(item => [item.format === 'currency' ? `${item.label} (${currency.code})` : item.label, csvValue(item.value, item.format)]),
+  ]);
+}
+
+export function scheduleToXlsx(schedule: ScheduleExport): Uint8Array {
+  const { columns, currency } = schedule;
+  const cell = (value: number | string, format: ScheduleFormat, bold = false): XlsxCell => ({ value: exportValue(value, format), format, bold });
+
+  return toXlsx(
+    [
+      {
+        name: schedule.title,
+        frozenRows: 1,
+        columnWidths: columns.map((column, index) => Math.max(index === 0 ? 24 : 12, column.header.length + 4)),
+        rows: [
+          columns.map(column => cell(headerLabel(column, currency), 'text', true)),
+          ...schedule.rows.map(row => row.map((value, index) => cell(value, columns[index]?.format ?? 'text'))),
+          [],
+          ...schedule.summary.map(item => [cell(item.label, 'text', true), cell(item.value, item.format)]),
+        ],
+      },
+    ],
+    { currencySymbol: currency.symbol }
+  );
+}
+
+interface AmortizationExportOptions {
+  title: string;
+  currency: CurrencyData;
+  schedule: AmortizationEntry[];
+  /** Heading of the period column, e.g. `Month` or `Payment #`. */
+  periodLabel?: string;
+  summary: ScheduleSummaryItem[];
+}
+
+/**
+ * The usual payment / principal / interest / balance layout for a loan
+ * schedule, with an extra-payment column when any period has one.
+ */
+export function amortizationExport({ title, currency, schedule, periodLabel = 'Month', summary }: AmortizationExportOptions): ScheduleExport {
+  const withExtras = schedule.some(entry => entry.extraPaid > 0);
+  return {
+    title,
+    currency,
+    columns: [
+      { header: periodLabel, format: 'integer' },
+      { header: 'Payment', format: 'currency' },
+      { header: 'Principal', format: 'currency' },
+      { header: 'Interest', format: 'currency' },
+      ...(withExtras ? [{ header: 'Extra', format: 'currency' as const }] : []),
+      { header: 'Balance', format: 'currency' },
+    ],
+    rows: schedule.map(entry => [
+      entry.period,
+      entry.payment,
+      entry.principalPaid,
+      entry.interestPaid,
+      ...(withExtras ? [entry.extraPaid] : []),
+      entry.endingBalance,
+    ]),
+    summary,
+  };
+}
+
+interface VatSummaryExportOptions {
+  invoice: VatInvoice;
+  currency: CurrencyData;
+  /** `VAT` or `GST`, used in the title and headers. */
+  taxName: string;
+  /** Adds the customer's reverse-charge VAT as a column and a total. */
+  reverseCharge: boolean;
+  rateLabel: (category: VatCategory, rate: number) => string;
+}
+
+/** One row per rate of a VAT invoice's summary, as reported on a VAT return, then the invoice totals. */
+export function vatSummaryExport({ invoice, currency, taxName, reverseCharge, rateLabel }: VatSummaryExportOptions): ScheduleExport {
+  return {
+    title: `${taxName} Summary`,
+    currency,
+    columns: [
+      { header: 'Rate', format: 'text' },
+      { header: 'Net', format: 'currency' },
+      { header: taxName, format: 'currency' },
+      ...(reverseCharge ? [{ header: `Reverse-Charge ${taxName}`, format: 'currency' as const }] : []),
+      { header: 'Gross', format: 'currency' },
+    ],
+    rows: invoice.summary.map(row => [
+      rateLabel(row.category, row.rate),
+      row.net,
+      row.vat,
+      ...(reverseCharge ? [row.reverseChargeVat] : []),
+      row.gross,
+    ]),
+    summary: [
+      { label: 'Total Net', value: invoice.net, format: 'currency' },
+      { label: `Total ${taxName}`, value: invoice.vat, format: 'currency' },
+      ...(reverseCharge ? [{ label: `Reverse-Charge ${taxName} (customer to account)`, value: invoice.reverseChargeVat, format: 'currency' as const }] : []),
+      { label: 'Total Gross', value: invoice.gross, format: 'currency' },
+    ],
+  };
+}
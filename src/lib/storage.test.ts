@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { MemoryStorage } from '@/test/memory-storage';
+import { HISTORY_STORAGE_KEY, STORAGE_VERSIONS_KEY } from './constants';
+import { defineStorage, getStore } from './storage';
+import { historyStorage } from './stored-data';
+
+const storage = new MemoryStorage();
+const events = new EventTarget();
+
+beforeAll(() => {
+  vi.stubGlobal('window', { localStorage: storage, addEventListener: events.addEventListener.bind(events) });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  storage.clear();
+});
+
+const storedVersions = () => JSON.parse(storage.getItem(STORAGE_VERSIONS_KEY) ?? '{}');
+
+/** What this tab sees when another tab of the same release writes `key`. */
+function otherTabWrote(key: string | null, value?: unknown, version = 3) {
+  if (key !== null) {
+    storage.setItem(key, JSON.stringify(value));
+    storage.setItem(STORAGE_VERSIONS_KEY, JSON.stringify({ ...storedVersions(), [key]: version }));
+  }
+  events.dispatchEvent(Object.assign(new Event('storage'), { key, storageArea: storage }));
+}
+
+// Each key has one store for the whole module, so every test uses its own key
+let keyCount = 0;
+const counterStorage = () =>
+  defineStorage<{ count: number }>({
+    key: `test-counter-${++keyCount}`,
+    version: 3,
+    schema: z.object({ count: z.number() }),
+    defaultValue: { count: 0 },
+    migrations: {
+      // Version 1 stored a bare number, version 2 a string
+      1: stored => String(stored),
+      2: stored => ({ count: Number(stored) }),
+    },
+  });
+
+describe('versioned storage', () => {
+  it('runs every migration on data saved before versioning and stamps the current version', () => {
+    const definition = counterStorage();
+    storage.setItem(definition.key, '7');
+
+    expect(getStore(definition).get()).toEqual({ count: 7 });
+    expect(JSON.parse(storage.getItem(definition.key)!)).toEqual({ count: 7 });
+    expect(storedVersions()[definition.key]).toBe(3);
+  });
+
+  it('runs only the migrations after the stored version', () => {
+    const definition = counterStorage();
+    storage.setItem(definition.key, JSON.stringify('12'));
+    storage.setItem(STORAGE_VERSIONS_KEY, JSON.stringify({ [definition.key]: 2 }));
+
+    expect(getStore(definition).get()).toEqual({ count: 12 });
+  });
+
+  it('reads current data without rewriting it', () => {
+    const definition = counterStorage();
+    storage.setItem(definition.key, JSON.stringify({ count: 3 }));
+    storage.setItem(STORAGE_VERSIONS_KEY, JSON.stringify({ [definition.key]: 3 }));
+    const setItem = vi.spyOn(storage, 'setItem');
+
+    expect(getStore(definition).get()).toEqual({ count: 3 });
+    expect(setItem).not.toHaveBeenCalled();
+    setItem.mockRestore();
+  });
+
+  it('drops data that fails validation after migrating', () => {
+    const definition = counterStorage();
+    storage.setItem(definition.key, JSON.stringify({ count: 'many' }));
+    storage.setItem(STORAGE_VERSIONS_KEY, JSON.stringify({ [definition.key]: 3 }));
+
+    expect(getStore(definition).get()).toEqual({ count: 0 });
+  });
+
+  it('falls back to the default for unparseable JSON', () => {
+    const definition = counterStorage();
+    storage.setItem(definition.key, '{not json');
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    expect(getStore(definition).get()).toEqual({ count: 0 });
+  });
+
+  it('leaves data from a newer version untouched', () => {
+    const definition = counterStorage();
+    storage.setItem(definition.key, JSON.stringify({ total: 5 }));
+    storage.setItem(STORAGE_VERSIONS_KEY, JSON.stringify({ [definition.key]: 4 }));
+
+    expect(getStore(definition).get()).toEqual({ count: 0 });
+    expect(JSON.parse(storage.getItem(definition.key)!)).toEqual({ total: 5 });
+  });
+
+  it('upgrades legacy history entries to the current version', () => {
+    storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify([
+      { id: '1', calculatorSlug: 'bmi-calculator', timestamp: '2024-05-01T10:00:00.000Z', input: 'Height: 180 cm', result: 'BMI: 22.2' },
+      { id: '2', calculatorSlug: 'bmi-calculator' },
+    ]));
+
+    const [entry, ...rest] = getStore(historyStorage).get();
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({ id: '1', calculatorSlug: 'bmi-calculator', input: 'Height: 180 cm', result: 'BMI: 22.2', calculatorVersion: 0 });
+    expect(entry.timestamp).toEqual(new Date('2024-05-01T10:00:00.000Z'));
+    expect(storedVersions()[HISTORY_STORAGE_KEY]).toBe(historyStorage.version);
+  });
+});
+
+describe('storage events from other tabs', () => {
+  it('updates subscribers when another tab writes the key', () => {
+    const definition = counterStorage();
+    const store = getStore(definition);
+    store.get();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    otherTabWrote(definition.key, { count: 5 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.get()).toEqual({ count: 5 });
+  });
+
+  it('does not notify when the value is unchanged or another key changes', () => {
+    const definition = counterStorage();
+    const store = getStore(definition);
+    store.set({ count: 2 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    otherTabWrote(definition.key, { count: 2 });
+    otherTabWrote('some-other-key', 'x');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reloads every store when another tab clears storage', () => {
+    const definition = counterStorage();
+    const store = getStore(definition);
+    store.set({ count: 9 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    storage.clear();
+    otherTabWrote(null);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.get()).toEqual({ count: 0 });
+  });
+
+  it('stops notifying after unsubscribing', () => {
+    const definition = counterStorage();
+    const store = getStore(definition);
+    store.get();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    unsubscribe();
+
+    otherTabWrote(definition.key, { count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
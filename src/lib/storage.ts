@@ -0,0 +1,194 @@
+import type { z } from 'zod';
+import { STORAGE_VERSIONS_KEY } from './constants';
+
+/**
+ * Typed localStorage values shared across the app.
+ *
+ * Each key has one in-memory store, so every component reading a key sees
+ * the same value and re-renders when any of them writes it. Writes from
+ * other tabs arrive through the `storage` event. Reads are validated with
+ * the key's zod schema after running its migrations; the stored version of
+ * each key is kept under `STORAGE_VERSIONS_KEY`.
+ */
+
+export interface StorageDefinition<T> {
+  key: string;
+  /** Version of the stored shape. Data saved before versioning counts as version 1. */
+  version: number;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** Used when nothing is stored, or the stored value cannot be read. */
+  defaultValue: T;
+  /** Upgrades keyed by the version they read, each returning the next version's shape. */
+  migrations?: Record<number, (stored: unknown) => unknown>;
+}
+
+/** Identity helper that gives definitions contextual typing. */
+export function defineStorage<T>(definition: StorageDefinition<T>): StorageDefinition<T> {
+  return definition;
+}
+
+/** Reported when the browser refuses a write because storage is full. */
+export class StorageQuotaError extends Error {
+  key: string;
+
+  constructor(key: string) {
+    super(`Browser storage is full; changes to “${key}” are kept for this session only.`);
+    this.name = 'StorageQuotaError';
+    this.key = key;
+  }
+}
+
+export interface StorageStore<T> {
+  get(): T;
+  set(value: T | ((previous: T) => T)): void;
+  subscribe(listener: () => void): () => void;
+}
+
+type ErrorListener = (error: StorageQuotaError) => void;
+
+const stores = new Map<string, { store: StorageStore<unknown>; reload: () => void }>();
+const errorListeners = new Set<ErrorListener>();
+let listeningToOtherTabs = false;
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22)
+  );
+}
+
+function readVersions(): Record<string, number> {
+  try {
+    const item = window.localStorage.getItem(STORAGE_VERSIONS_KEY);
+    return item ? JSON.parse(item) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeVersion(key: string, version: number): void {
+  const versions = readVersions();
+  if (versions[key] === version) return;
+  window.localStorage.setItem(STORAGE_VERSIONS_KEY, JSON.stringify({ ...versions, [key]: version }));
+}
+
+/** Reads, migrates and validates a stored value. `upgraded` is true when migrations ran. */
+function readStored<T>(definition: StorageDefinition<T>): { value: T; upgraded: boolean } {
+  const fallback = { value: definition.defaultValue, upgraded: false };
+  let data: unknown;
+  try {
+    const item = window.localStorage.getItem(definition.key);
+    if (item === null) return fallback;
+    data = JSON.parse(item);
+  } catch (error) {
+    console.error(`Error reading localStorage key “${definition.key}”:`, error);
+    return fallback;
+  }
+
+  const storedVersion = readVersions()[definition.key] ?? 1;
+  if (storedVersion > definition.version) {
+    // Written by a newer release; leave it untouched rather than guess
+    console.warn(`localStorage key “${definition.key}” has version ${storedVersion}, newer than ${definition.version}.`);
+    return fallback;
+  }
+  for (let version = storedVersion; version < definition.version; version++) {
+    const migrate = definition.migrations?.[version];
+    if (migrate) data = migrate(data);
+  }
+
+  const parsed = definition.schema.safeParse(data);
+  if (!parsed.success) {
+    console.warn(`Ignoring invalid value for localStorage key “${definition.key}”:`, parsed.error.issues);
+    return fallback;
+  }
+  return { value: parsed.data, upgraded: storedVersion < definition.version };
+}
+
+function writeStored<T>(definition: StorageDefinition<T>, value: T): void {
+  try {
+    window.localStorage.setItem(definition.key, JSON.stringify(value));
+    writeVersion(definition.key, definition.version);
+  } catch (error) {
+    if (isQuotaError(error)) {
+      const quotaError = new StorageQuotaError(definition.key);
+      console.error(quotaError.message);
+      errorListeners.forEach(listener => listener(quotaError));
+    } else {
+      console.error(`Error setting localStorage key “${definition.key}”:`, error);
+    }
+  }
+}
+
+function listenToOtherTabs(): void {
+  if (listeningToOtherTabs) return;
+  listeningToOtherTabs = true;
+  window.addEventListener('storage', event => {
+    // A null key means another tab cleared storage
+    if (event.storageArea !== window.localStorage) return;
+    if (event.key === null) {
+      stores.forEach(entry => entry.reload());
+    } else {
+      stores.get(event.key)?.reload();
+    }
+  });
+}
+
+function createStore<T>(definition: StorageDefinition<T>): { store: StorageStore<T>; reload: () => void } {
+  const listeners = new Set<() => void>();
+  let value: T | undefined;
+  let loaded = false;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const load = () => {
+    const stored = readStored(definition);
+    value = stored.value;
+    loaded = true;
+    if (stored.upgraded) writeStored(definition, stored.value);
+  };
+
+  const store: StorageStore<T> = {
+    get() {
+      if (typeof window === 'undefined') return definition.defaultValue;
+      if (!loaded) load();
+      return value as T;
+    },
+    set(next) {
+      const previous = store.get();
+      const resolved = next instanceof Function ? next(previous) : next;
+      if (resolved === previous) return;
+      value = resolved;
+      writeStored(definition, resolved);
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+
+  const reload = () => {
+    const previous = JSON.stringify(value);
+    load();
+    if (JSON.stringify(value) !== previous) notify();
+  };
+
+  return { store, reload };
+}
+
+/** The shared store for a key. Use one definition per key. */
+export function getStore<T>(definition: StorageDefinition<T>): StorageStore<T> {
+  let entry = stores.get(definition.key);
+  if (!entry) {
+    entry = createStore(definition) as { store: StorageStore<unknown>; reload: () => void };
+    stores.set(definition.key, entry);
+    if (typeof window !== 'undefined') listenToOtherTabs();
+  }
+  return entry.store as StorageStore<T>;
+}
+
+/** Subscribes to failed writes, e.g. to tell the user that storage is full. */
+export function subscribeStorageErrors(listener: ErrorListener): () => void {
+  errorListeners.add(listener);
+  return () => errorListeners.delete(listener);
+}
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { FAVORITES_STORAGE_KEY, HISTORY_STORAGE_KEY, PROFILE_STORAGE_KEY, SCENARIOS_STORAGE_KEY } from './constants';
+import { historySchema, migrateHistory } from './history';
+import { scenariosSchema } from './scenarios';
+import { defineStorage } from './storage';
+import type { FavoriteCalculators, HistoryEntry, Scenario, UserProfile } from './types';
+
+/** Storage definitions for the user data kept in localStorage. */
+
+export const historyStorage = defineStorage<HistoryEntry[]>({
+  key: HISTORY_STORAGE_KEY,
+  version: 3,
+  schema: historySchema,
+  defaultValue: [],
+  migrations: {
+    // Version 1 entries held only the formatted input and result strings
+    1: migrateHistory,
+    // Version 2 password generator entries could hold the generated password
+    2: migrateHistory,
+  },
+});
+
+export const favoritesStorage = defineStorage<FavoriteCalculators>({
+  key: FAVORITES_STORAGE_KEY,
+  version: 1,
+  schema: z.array(z.string()),
+  defaultValue: [],
+});
+
+export const profileSchema = z.object({
+  name: z.string().optional(),
+  preferredUnits: z.enum(['metric', 'imperial']).optional(),
+  preferredCurrency: z.string().length(3).default('USD'),
+  historyLimit: z.number().int().positive().optional(),
+});
+
+/**
+ * Without a saved profile the preferred units are left unset, so each
+ * calculator falls back to its own default unit system.
+ */
+export const profileStorage = defineStorage<UserProfile>({
+  key: PROFILE_STORAGE_KEY,
+  version: 1,
+  schema: profileSchema,
+  defaultValue: { preferredCurrency: 'USD' },
+});
+
+export const scenariosStorage = defineStorage<Scenario[]>({
+  key: SCENARIOS_STORAGE_KEY,
+  version: 1,
+  schema: scenariosSchema,
+  defaultValue: [],
+});
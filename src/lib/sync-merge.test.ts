@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSyncData, toSyncBase } from './sync-merge';
+import type { HistoryEntry, UserProfile } from './types';
+import type { UserData } from './user-data';
+
+function entry(id: string, day: number, pinned = false): HistoryEntry {
+  return {
+    id,
+    calculatorSlug: 'loan-payment',
+    timestamp: new Date(Date.UTC(2025, 0, day)),
+    values: {},
+    calculatorVersion: 1,
+    outputs: {},
+    input: `Entry ${id}`,
+    result: '',
+    pinned,
+  };
+}
+
+const profile: UserProfile = { preferredCurrency: 'USD' };
+
+function data(history: HistoryEntry[], favorites: string[] = [], changes: Partial<UserProfile> = {}): UserData {
+  return { history, favorites, profile: { ...profile, ...changes } };
+}
+
+const ids = (result: UserData) => result.history.map(item => item.id);
+
+describe('mergeSyncData', () => {
+  it('uploads local data as is when the account is empty', () => {
+    const local = data([entry('1', 1)], ['apr']);
+    const { merged, base, conflicts } = mergeSyncData(local, null, null);
+    expect(merged).toBe(local);
+    expect(base).toEqual({ history: { 1: false }, favorites: ['apr'], profile });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('combines both sides on a first sync, newest first', () => {
+    const { merged } = mergeSyncData(data([entry('1', 1), entry('3', 3)], ['apr']), data([entry('2', 2)], ['mortgage']), null);
+    expect(ids(merged)).toEqual(['3', '2', '1']);
+    expect(merged.favorites).toEqual(['apr', 'mortgage']);
+  });
+
+  it('treats records missing on one side as deletions when they are in the base', () => {
+    const synced = data([entry('1', 1), entry('2', 2)], ['apr', 'mortgage']);
+    const base = toSyncBase(synced);
+    // Entry 1 and "apr" deleted here, entry 2 and "mortgage" deleted on another device
+    const local = data([entry('2', 2), entry('3', 3)], ['mortgage', 'bmi']);
+    const remote = data([entry('1', 1), entry('4', 4)], ['apr', 'tip']);
+
+    const { merged } = mergeSyncData(local, remote, base);
+    expect(ids(merged)).toEqual(['4', '3']);
+    expect(merged.favorites).toEqual(['bmi', 'tip']);
+  });
+
+  it('keeps whichever side changed the pin since the base', () => {
+    const base = toSyncBase(data([entry('1', 1), entry('2', 2, true)]));
+    const local = data([entry('1', 1, true), entry('2', 2, true)]);
+    const remote = data([entry('1', 1), entry('2', 2, false)]);
+
+    const { merged } = mergeSyncData(local, remote, base);
+    expect(merged.history.map(item => [item.id, item.pinned])).toEqual([['2', false], ['1', true]]);
+  });
+
+  it('keeps a pin from either side without a base', () => {
+    const { merged } = mergeSyncData(data([entry('1', 1)]), data([entry('1', 1, true)]), null);
+    expect(merged.history[0].pinned).toBe(true);
+  });
+
+  it('takes one-sided profile changes and reports conflicting ones', () => {
+    const base = toSyncBase(data([], [], { name: 'Sam', preferredUnits: 'metric' }));
+    const local = data([], [], { name: 'Sam', preferredUnits: 'imperial', preferredCurrency: 'EUR' });
+    const remote = data([], [], { name: 'Samuel', preferredUnits: 'metric', preferredCurrency: 'GBP' });
+
+    const { merged, conflicts } = mergeSyncData(local, remote, base);
+    expect(merged.profile).toEqual({ name: 'Samuel', preferredUnits: 'imperial', preferredCurrency: 'EUR' });
+    expect(conflicts).toEqual(['Profile preferredCurrency: kept "EUR" over "GBP".']);
+  });
+
+  it('lets the account settings win conflicts on a first sync', () => {
+    const { merged, conflicts } = mergeSyncData(data([], [], { preferredCurrency: 'EUR' }), data([], [], { preferredCurrency: 'GBP' }), null);
+    expect(merged.profile.preferredCurrency).toBe('GBP');
+    expect(conflicts).toEqual(['Profile preferredCurrency: kept "GBP" over "EUR".']);
+  });
+
+  it('applies the merged history limit, keeping pinned entries', () => {
+    const local = data([entry('pinned', 1, true), ...Array.from({ length: 30 }, (_, index) => entry(`local-${index}`, index + 2))]);
+    const remote = data([], [], { historyLimit: 25 });
+
+    const { merged } = mergeSyncData(local, remote, null);
+    expect(merged.history).toHaveLength(26);
+    expect(ids(merged)).toContain('pinned');
+    expect(ids(merged)).not.toContain('local-0');
+  });
+});
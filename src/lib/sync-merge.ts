@@ -0,0 +1,107 @@
+import { applyRetention, DEFAULT_HISTORY_LIMIT } from './history';
+import type { FavoriteCalculators, HistoryEntry, UserProfile } from './types';
+import type { UserData } from './user-data';
+
+/**
+ * Three-way merge used by account sync.
+ *
+ * Each device remembers what it and the server agreed on after its last
+ * sync (the base). A record missing on one side is a deletion if it is in
+ * the base and an addition otherwise, so edits made offline on several
+ * devices combine instead of overwriting each other.
+ */
+
+/** State both sides agreed on after the last successful sync. */
+export interface SyncBase {
+  /** Entry ids mapped to their pinned state. */
+  history: Record<string, boolean>;
+  favorites: FavoriteCalculators;
+  profile: Partial<UserProfile>;
+}
+
+export interface SyncMergeResult {
+  merged: UserData;
+  base: SyncBase;
+  /** Profile fields changed differently on both sides, with the value that was kept. */
+  conflicts: string[];
+}
+
+export function toSyncBase(data: UserData): SyncBase {
+  return {
+    history: Object.fromEntries(data.history.map(entry => [entry.id, !!entry.pinned])),
+    favorites: [...data.favorites],
+    profile: { ...data.profile },
+  };
+}
+
+function mergeHistory(local: HistoryEntry[], remote: HistoryEntry[], base: SyncBase | null): HistoryEntry[] {
+  const remoteById = new Map(remote.map(entry => [entry.id, entry]));
+  const localIds = new Set(local.map(entry => entry.id));
+  const merged: HistoryEntry[] = [];
+
+  for (const entry of local) {
+    const remoteEntry = remoteById.get(entry.id);
+    if (!remoteEntry) {
+      // Deleted elsewhere if it had been synced before
+      if (!base || !(entry.id in base.history)) merged.push(entry);
+      continue;
+    }
+    const localPinned = !!entry.pinned;
+    const remotePinned = !!remoteEntry.pinned;
+    const basePinned = base?.history[entry.id];
+    // Take whichever side changed the pin; without a base, keep a pin from either side
+    const pinned = basePinned === undefined ? localPinned || remotePinned : localPinned !== basePinned ? localPinned : remotePinned;
+    merged.push({ ...entry, pinned });
+  }
+
+  for (const entry of remote) {
+    if (localIds.has(entry.id)) continue;
+    if (!base || !(entry.id in base.history)) merged.push(entry);
+  }
+
+  return merged.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+function mergeFavorites(local: FavoriteCalculators, remote: FavoriteCalculators, base: SyncBase | null): FavoriteCalculators {
+  const baseSet = new Set(base?.favorites ?? []);
+  const kept = local.filter(slug => remote.includes(slug) || !baseSet.has(slug));
+  const added = remote.filter(slug => !local.includes(slug) && !baseSet.has(slug));
+  return [...kept, ...added];
+}
+
+function mergeProfile(local: UserProfile, remote: UserProfile, base: SyncBase | null, conflicts: string[]): UserProfile {
+  const localProfile: Record<string, unknown> = { ...local };
+  const remoteProfile: Record<string, unknown> = { ...remote };
+  const baseProfile: Record<string, unknown> = base?.profile ?? {};
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(localProfile), ...Object.keys(remoteProfile), ...Object.keys(baseProfile)]);
+
+  for (const key of keys) {
+    const localValue = localProfile[key];
+    const remoteValue = remoteProfile[key];
+    let value = localValue;
+    if (localValue === baseProfile[key]) {
+      value = remoteValue;
+    } else if (remoteValue !== baseProfile[key] && remoteValue !== localValue) {
+      // On a first sync the account's settings apply; afterwards the latest edit on this device wins
+      if (!base && remoteValue !== undefined) value = remoteValue;
+      conflicts.push(`Profile ${key}: kept ${JSON.stringify(value)} over ${JSON.stringify(value === localValue ? remoteValue : localValue)}.`);
+    }
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged as unknown as UserProfile;
+}
+
+/** Merges local and server data. `remote` is `null` when the account has nothing stored yet. */
+export function mergeSyncData(local: UserData, remote: UserData | null, base: SyncBase | null): SyncMergeResult {
+  if (!remote) {
+    return { merged: local, base: toSyncBase(local), conflicts: [] };
+  }
+
+  const conflicts: string[] = [];
+  const profile = mergeProfile(local.profile, remote.profile, base, conflicts);
+  const history = applyRetention(mergeHistory(local.history, remote.history, base), profile.historyLimit ?? DEFAULT_HISTORY_LIMIT);
+  const merged: UserData = { history, favorites: mergeFavorites(local.favorites, remote.favorites, base), profile };
+
+  return { merged, base: toSyncBase(merged), conflicts };
+}
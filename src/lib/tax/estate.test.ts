@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { computeEstateTax, type EstateTaxOptions } from './estate';
+
+const estate = (overrides: Partial<EstateTaxOptions>): EstateTaxOptions => ({
+  year: '2025',
+  grossEstate: 0,
+  debtsAndExpenses: 0,
+  maritalDeduction: 0,
+  charitableDeduction: 0,
+  adjustedTaxableGifts: 0,
+  dsue: 0,
+  state: null,
+  ...overrides,
+});
+
+describe('computeEstateTax', () => {
+  it.each([
+    // Applicable credit amounts published with each year's basic exclusion
+    ['2024', 5389800],
+    ['2025', 5541800],
+    ['2026', 5945800],
+  ])('allows the published applicable credit for %s', (year, credit) => {
+    expect(computeEstateTax(estate({ year, grossEstate: 1000000 })).applicableCredit).toBeCloseTo(credit, 2);
+  });
+
+  it('owes nothing below the exclusion', () => {
+    const result = computeEstateTax(estate({ grossEstate: 5000000 }));
+    // $345,800 on the first $1 million, then 40%
+    expect(result.tentativeTax).toBeCloseTo(345800 + 0.4 * 4000000, 2);
+    expect(result.federalTax).toBe(0);
+    expect(result.remainingExclusion).toBe(13990000);
+  });
+
+  it('owes nothing at exactly the exclusion', () => {
+    const result = computeEstateTax(estate({ grossEstate: 13990000 }));
+    expect(result.tentativeTax).toBeCloseTo(result.applicableCredit, 2);
+    expect(result.federalTax).toBeCloseTo(0, 2);
+  });
+
+  it('taxes the estate above the exclusion at 40%', () => {
+    const result = computeEstateTax(estate({ grossEstate: 20000000 }));
+    expect(result.federalTax).toBeCloseTo(0.4 * (20000000 - 13990000), 2);
+    expect(result.totalTax).toBe(result.federalTax);
+    expect(result.brackets.at(-1)).toMatchObject({ rate: 0.4, from: 1000000, taxedAmount: 19000000 });
+  });
+
+  it('takes deductions off the gross estate, never below zero', () => {
+    const result = computeEstateTax(estate({ grossEstate: 20000000, debtsAndExpenses: 500000, maritalDeduction: 4000000, charitableDeduction: 1000000 }));
+    expect(result.deductions).toBe(5500000);
+    expect(result.taxableEstate).toBe(14500000);
+    expect(result.federalTax).toBeCloseTo(0.4 * (14500000 - 13990000), 2);
+
+    const all = computeEstateTax(estate({ grossEstate: 1000000, maritalDeduction: 3000000 }));
+    expect(all.deductions).toBe(1000000);
+    expect(all.netEstate).toBe(0);
+  });
+
+  it('adds lifetime gifts to the tax base and credits gift tax paid', () => {
+    const result = computeEstateTax(estate({ grossEstate: 20000000, adjustedTaxableGifts: 2000000, giftTaxPaid: 100000 }));
+    expect(result.taxBase).toBe(22000000);
+    expect(result.remainingExclusion).toBe(11990000);
+    expect(result.federalTax).toBeCloseTo(0.4 * (22000000 - 13990000) - 100000, 2);
+  });
+
+  it('adds a deceased spouse’s unused exclusion under portability', () => {
+    const result = computeEstateTax(estate({ grossEstate: 20000000, dsue: 5000000 }));
+    expect(result.dsue).toBe(5000000);
+    expect(result.remainingExclusion).toBe(18990000);
+    expect(result.applicableCredit).toBeCloseTo(345800 + 0.4 * (18990000 - 1000000), 2);
+    expect(result.federalTax).toBeCloseTo(0.4 * (20000000 - 18990000), 2);
+  });
+
+  it('limits DSUE to the basic exclusion', () => {
+    const result = computeEstateTax(estate({ grossEstate: 30000000, dsue: 20000000 }));
+    expect(result.dsue).toBe(13990000);
+    expect(result.federalTax).toBeCloseTo(0.4 * (30000000 - 2 * 13990000), 2);
+  });
+
+  it('deducts state estate tax from the federal taxable estate', () => {
+    // Washington: 10% on the first $1 million over its $3 million exemption, 15% on the next
+    const result = computeEstateTax(estate({ grossEstate: 5000000, state: 'WA' }));
+    expect(result.stateExemption).toBe(3000000);
+    expect(result.stateTax).toBeCloseTo(250000, 2);
+    expect(result.taxableEstate).toBeCloseTo(4750000, 2);
+    expect(result.totalTax).toBeCloseTo(250000, 2);
+  });
+
+  it('rejects an unknown year and negative amounts', () => {
+    expect(() => computeEstateTax(estate({ year: '2010' }))).toThrow(RangeError);
+    expect(() => computeEstateTax(estate({ grossEstate: -1 }))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,143 @@
+import { bracketTax, computeIncomeTax, type BracketTax, type TaxTable } from './income-tax';
+import { brackets } from './tax-system';
+
+/**
+ * US federal estate tax, following Form 706: deductions off the gross
+ * estate, lifetime taxable gifts added back, the unified rate schedule on
+ * the total, then the applicable credit for the basic exclusion plus any
+ * deceased spousal unused exclusion (DSUE) from portability.
+ *
+ * State estate taxes are tables on the estate above each state's
+ * exemption, reusing `TaxTable` with the exemption as its deduction.
+ */
+
+/** IRC §2001(c), unchanged since 2013. */
+export const FEDERAL_ESTATE_TAX_SCHEDULE = brackets(
+  [0.18, 0.2, 0.22, 0.24, 0.26, 0.28, 0.3, 0.32, 0.34, 0.37, 0.39, 0.4],
+  [10000, 20000, 40000, 60000, 80000, 100000, 150000, 250000, 500000, 750000, 1000000],
+);
+
+/** Basic exclusion amount by year of death; 2026 as set by Pub. L. 119-21. */
+export const BASIC_EXCLUSION_AMOUNT: Record<string, number> = {
+  '2024': 13610000,
+  '2025': 13990000,
+  '2026': 15000000,
+};
+
+export const ESTATE_TAX_YEARS = Object.keys(BASIC_EXCLUSION_AMOUNT).sort().reverse();
+
+export interface StateEstateTax {
+  name: string;
+  /** Brackets apply to the taxable estate above `standardDeduction`, the state exemption. */
+  table: TaxTable;
+}
+
+export const STATE_ESTATE_TAX_YEAR = '2025';
+
+/**
+ * States whose tax is a schedule on the estate above the exemption, for
+ * deaths in 2025. States with cliffs or credit-table formulas (New York,
+ * Massachusetts, Minnesota, Illinois, Rhode Island, DC) are not included.
+ */
+export const US_STATE_ESTATE_TAX: Record<string, StateEstateTax> = {
+  CT: { name: 'Connecticut', table: { brackets: brackets([0.12], []), standardDeduction: 13990000 } },
+  HI: { name: 'Hawaii', table: { brackets: brackets([0.1, 0.11, 0.12, 0.13, 0.14, 0.157, 0.2], [1000000, 2000000, 3000000, 4000000, 5000000, 10000000]), standardDeduction: 5490000 } },
+  MD: { name: 'Maryland', table: { brackets: brackets([0.16], []), standardDeduction: 5000000 } },
+  ME: { name: 'Maine', table: { brackets: brackets([0.08, 0.1, 0.12], [3000000, 6000000]), standardDeduction: 7000000 } },
+  OR: { name: 'Oregon', table: { brackets: brackets([0.1, 0.1025, 0.105, 0.11, 0.115, 0.12, 0.13, 0.14, 0.15, 0.16], [500000, 1500000, 2500000, 3500000, 4500000, 5500000, 6500000, 7500000, 8500000]), standardDeduction: 1000000 } },
+  VT: { name: 'Vermont', table: { brackets: brackets([0.16], []), standardDeduction: 5000000 } },
+  // Rates for deaths from July 2025
+  WA: { name: 'Washington', table: { brackets: brackets([0.1, 0.15, 0.17, 0.19, 0.23, 0.26, 0.3, 0.35], [1000000, 2000000, 3000000, 4000000, 6000000, 7000000, 9000000]), standardDeduction: 3000000 } },
+};
+
+export interface EstateTaxOptions {
+  /** Year of death. */
+  year: string;
+  grossEstate: number;
+  /** Debts, funeral and administration expenses. */
+  debtsAndExpenses: number;
+  maritalDeduction: number;
+  charitableDeduction: number;
+  /** Lifetime gifts above the annual exclusion, made after 1976. */
+  adjustedTaxableGifts: number;
+  /** Gift tax already paid on those gifts. */
+  giftTaxPaid?: number;
+  /** Deceased spousal unused exclusion elected by the estate of a predeceased spouse. */
+  dsue: number;
+  /** Key of `US_STATE_ESTATE_TAX`, or null for none. */
+  state: string | null;
+}
+
+export interface EstateTaxResult {
+  grossEstate: number;
+  /** Debts, marital and charitable deductions, limited to the gross estate. */
+  deductions: number;
+  /** Estate after deductions, before the state death tax deduction. */
+  netEstate: number;
+  stateExemption: number;
+  stateTax: number;
+  taxableEstate: number;
+  adjustedTaxableGifts: number;
+  /** Taxable estate plus adjusted taxable gifts. */
+  taxBase: number;
+  tentativeTax: number;
+  giftTaxPaid: number;
+  basicExclusion: number;
+  /** DSUE as allowed, at most the basic exclusion. */
+  dsue: number;
+  /** Exclusion left after lifetime gifts have used their share. */
+  remainingExclusion: number;
+  applicableCredit: number;
+  federalTax: number;
+  totalTax: number;
+  /** The federal schedule applied to `taxBase`. */
+  brackets: BracketTax[];
+}
+
+function scheduleTax(amount: number): number {
+  return bracketTax(FEDERAL_ESTATE_TAX_SCHEDULE, amount).reduce((sum, bracket) => sum + bracket.tax, 0);
+}
+
+export function computeEstateTax(options: EstateTaxOptions): EstateTaxResult {
+  const basicExclusion = BASIC_EXCLUSION_AMOUNT[options.year];
+  if (basicExclusion === undefined) throw new RangeError(`No estate tax exclusion for ${options.year}.`);
+  const amounts = [options.grossEstate, options.debtsAndExpenses, options.maritalDeduction, options.charitableDeduction, options.adjustedTaxableGifts, options.giftTaxPaid ?? 0, options.dsue];
+  if (amounts.some(amount => !(amount >= 0))) throw new RangeError('Estate amounts must be zero or positive.');
+
+  const deductions = Math.min(options.grossEstate, options.debtsAndExpenses + options.maritalDeduction + options.charitableDeduction);
+  const netEstate = options.grossEstate - deductions;
+
+  const state = options.state ? US_STATE_ESTATE_TAX[options.state] : undefined;
+  const stateTax = state ? computeIncomeTax(state.table, { income: netEstate }).tax : 0;
+
+  // State estate tax paid is itself deductible (IRC §2058)
+  const taxableEstate = netEstate - stateTax;
+  const taxBase = taxableEstate + options.adjustedTaxableGifts;
+  const tentativeTax = scheduleTax(taxBase);
+
+  const dsue = Math.min(options.dsue, basicExclusion);
+  const exclusion = basicExclusion + dsue;
+  const applicableCredit = scheduleTax(exclusion);
+  const giftTaxPaid = options.giftTaxPaid ?? 0;
+  const federalTax = Math.max(0, tentativeTax - giftTaxPaid - applicableCredit);
+
+  return {
+    grossEstate: options.grossEstate,
+    deductions,
+    netEstate,
+    stateExemption: state?.table.standardDeduction ?? 0,
+    stateTax,
+    taxableEstate,
+    adjustedTaxableGifts: options.adjustedTaxableGifts,
+    taxBase,
+    tentativeTax,
+    giftTaxPaid,
+    basicExclusion,
+    dsue,
+    remainingExclusion: Math.max(0, exclusion - options.adjustedTaxableGifts),
+    applicableCredit,
+    federalTax,
+    totalTax: federalTax + stateTax,
+    brackets: bracketTax(FEDERAL_ESTATE_TAX_SCHEDULE, taxBase),
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { computeIncomeTax, marginalRate, standardDeduction } from './income-tax';
+import { UK_INCOME_TAX } from './uk';
+import { US_FEDERAL } from './us-federal';
+
+// Expected tax is the "base amount plus rate of the excess" from each year's
+// published rate schedule.
+
+const us = (year: string, status: string) => US_FEDERAL.years[year][status];
+const uk = UK_INCOME_TAX.years['2025/26'].single;
+
+describe('computeIncomeTax (US federal)', () => {
+  it.each([
+    // $5,426 plus 22% of the excess over $47,150 (Rev. Proc. 2023-34)
+    ['2024', 'single', 100000, 85400, 5426 + 0.22 * (85400 - 47150)],
+    // $10,852 plus 22% of the excess over $94,300
+    ['2024', 'married_jointly', 150000, 120800, 10852 + 0.22 * (120800 - 94300)],
+    // $5,578.50 plus 22% of the excess over $48,475 (Rev. Proc. 2024-40)
+    ['2025', 'single', 100000, 84250, 5578.5 + 0.22 * (84250 - 48475)],
+    // $11,157 plus 22% of the excess over $96,950
+    ['2025', 'married_jointly', 150000, 118500, 11157 + 0.22 * (118500 - 96950)],
+    // $5,800 plus 22% of the excess over $50,400 (Rev. Proc. 2025-32)
+    ['2026', 'single', 100000, 83900, 5800 + 0.22 * (83900 - 50400)],
+    // $11,600 plus 22% of the excess over $100,800
+    ['2026', 'married_jointly', 150000, 117800, 11600 + 0.22 * (117800 - 100800)],
+  ])('%s %s on %d', (year, status, income, taxableIncome, tax) => {
+    const result = computeIncomeTax(us(year, status), { income });
+    expect(result.taxableIncome).toBe(taxableIncome);
+    expect(result.tax).toBeCloseTo(tax, 2);
+    expect(result.marginalRate).toBe(0.22);
+  });
+
+  it('matches the top-bracket base amount for 2025 single', () => {
+    // $188,769.75 plus 37% of the excess over $626,350
+    const result = computeIncomeTax(us('2025', 'single'), { income: 1015750 });
+    expect(result.taxableIncome).toBe(1000000);
+    expect(result.tax).toBeCloseTo(188769.75 + 0.37 * (1000000 - 626350), 2);
+    expect(result.marginalRate).toBe(0.37);
+  });
+
+  it('owes nothing on income within the standard deduction', () => {
+    const result = computeIncomeTax(us('2025', 'single'), { income: 15750 });
+    expect(result.deduction).toBe(15750);
+    expect(result.deductionType).toBe('standard');
+    expect(result.taxableIncome).toBe(0);
+    expect(result.tax).toBe(0);
+    expect(result.effectiveRate).toBe(0);
+  });
+
+  it('uses itemized deductions only when larger than the standard deduction', () => {
+    const table = us('2025', 'married_jointly');
+    expect(computeIncomeTax(table, { income: 100000, itemizedDeductions: 20000 }).deduction).toBe(31500);
+    const itemized = computeIncomeTax(table, { income: 100000, itemizedDeductions: 40000 });
+    expect(itemized.deductionType).toBe('itemized');
+    expect(itemized.taxableIncome).toBe(60000);
+  });
+
+  it('takes adjustments off income before the deduction', () => {
+    const result = computeIncomeTax(us('2025', 'single'), { income: 100000, adjustments: 23500 });
+    expect(result.adjustedIncome).toBe(76500);
+    expect(result.taxableIncome).toBe(60750);
+  });
+
+  it('reports the next bracket as marginal at an exact boundary', () => {
+    // Taxable income of exactly $47,150 fills the 12% bracket
+    const result = computeIncomeTax(us('2024', 'single'), { income: 47150 + 14600 });
+    expect(result.tax).toBeCloseTo(5426, 2);
+    expect(result.marginalRate).toBe(0.22);
+    expect(result.effectiveRate).toBeCloseTo(5426 / 61750, 10);
+    expect(result.brackets[1]).toMatchObject({ rate: 0.12, from: 11600, to: 47150, taxedAmount: 35550 });
+    expect(result.brackets[2].taxedAmount).toBe(0);
+  });
+
+  it('charges the marginal rate on the next dollar', () => {
+    const table = us('2024', 'single');
+    const at = computeIncomeTax(table, { income: 61750 });
+    const above = computeIncomeTax(table, { income: 61751 });
+    expect(above.tax - at.tax).toBeCloseTo(at.marginalRate, 10);
+  });
+
+  it('rejects negative amounts', () => {
+    expect(() => computeIncomeTax(us('2025', 'single'), { income: -1 })).toThrow(RangeError);
+    expect(() => computeIncomeTax(us('2025', 'single'), { income: 1000, adjustments: -1 })).toThrow(RangeError);
+  });
+});
+
+describe('marginalRate', () => {
+  it('is the first rate with no taxable income', () => {
+    expect(marginalRate(us('2025', 'single').brackets, 0)).toBe(0.1);
+  });
+});
+
+describe('computeIncomeTax (UK)', () => {
+  it('taxes the basic rate band at 20% with the full personal allowance', () => {
+    const result = computeIncomeTax(uk, { income: 50270 });
+    expect(result.deduction).toBe(12570);
+    expect(result.tax).toBeCloseTo(7540, 2);
+    expect(result.marginalRate).toBe(0.4);
+  });
+
+  it('withdraws £1 of allowance for every £2 over £100,000', () => {
+    expect(standardDeduction(uk, 100000)).toBe(12570);
+    expect(standardDeduction(uk, 110000)).toBe(7570);
+    expect(standardDeduction(uk, 125140)).toBe(0);
+    expect(standardDeduction(uk, 200000)).toBe(0);
+
+    const result = computeIncomeTax(uk, { income: 110000 });
+    expect(result.taxableIncome).toBe(102430);
+    expect(result.tax).toBeCloseTo(7540 + 0.4 * (102430 - 37700), 2);
+  });
+
+  it('charges an effective 60% in the taper band', () => {
+    const low = computeIncomeTax(uk, { income: 110000 });
+    const high = computeIncomeTax(uk, { income: 120000 });
+    expect(high.tax - low.tax).toBeCloseTo(6000, 2);
+  });
+
+  it('has no allowance left at £125,140', () => {
+    const result = computeIncomeTax(uk, { income: 125140 });
+    expect(result.deduction).toBe(0);
+    expect(result.tax).toBeCloseTo(7540 + 0.4 * (125140 - 37700), 2);
+  });
+});
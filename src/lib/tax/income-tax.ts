@@ -0,0 +1,107 @@
+/**
+ * Progressive income tax: a deduction off income, then each slice of the
+ * remaining taxable income taxed at its bracket's rate. Tables are plain
+ * data so each jurisdiction and year is just another table.
+ */
+
+export interface TaxBracket {
+  /** Taxable income above which this rate applies. The first bracket starts at 0. */
+  over: number;
+  rate: number;
+}
+
+export interface TaxTable {
+  /** Ascending by `over`. */
+  brackets: TaxBracket[];
+  /** Deducted from income unless itemized deductions are larger (a personal allowance in the UK). */
+  standardDeduction: number;
+  /** Reduces the standard deduction by `rate` per unit of income above `threshold`, e.g. the UK personal allowance taper. */
+  deductionTaper?: { threshold: number; rate: number };
+}
+
+export interface IncomeTaxOptions {
+  /** Gross annual income. */
+  income: number;
+  /** Pre-tax deductions taken off income before anything else, e.g. 401(k) contributions. */
+  adjustments?: number;
+  /** Used instead of the standard deduction when larger. */
+  itemizedDeductions?: number;
+}
+
+export interface BracketTax {
+  rate: number;
+  /** Lower bound of the bracket. */
+  from: number;
+  /** Upper bound of the bracket; null for the top bracket. */
+  to: number | null;
+  /** Taxable income falling in this bracket. */
+  taxedAmount: number;
+  tax: number;
+}
+
+export interface IncomeTaxResult {
+  income: number;
+  /** Income after adjustments. */
+  adjustedIncome: number;
+  deduction: number;
+  deductionType: 'standard' | 'itemized';
+  taxableIncome: number;
+  tax: number;
+  /** Rate on the next unit of taxable income. */
+  marginalRate: number;
+  /** Tax as a share of `income`. */
+  effectiveRate: number;
+  /** Every bracket of the table, including those no income reached. */
+  brackets: BracketTax[];
+}
+
+/** The standard deduction after any taper for this adjusted income. */
+export function standardDeduction(table: TaxTable, adjustedIncome: number): number {
+  const taper = table.deductionTaper;
+  if (!taper) return table.standardDeduction;
+  return Math.max(0, table.standardDeduction - Math.max(0, adjustedIncome - taper.threshold) * taper.rate);
+}
+
+/** Tax on `taxableIncome` (after deductions), split by bracket. */
+export function bracketTax(brackets: TaxBracket[], taxableIncome: number): BracketTax[] {
+  return brackets.map((bracket, index) => {
+    const to = index + 1 < brackets.length ? brackets[index + 1].over : null;
+    const taxedAmount = Math.max(0, Math.min(taxableIncome, to ?? Number.POSITIVE_INFINITY) - bracket.over);
+    return { rate: bracket.rate, from: bracket.over, to, taxedAmount, tax: taxedAmount * bracket.rate };
+  });
+}
+
+/** Rate of the bracket the next unit of taxable income falls in. */
+export function marginalRate(brackets: TaxBracket[], taxableIncome: number): number {
+  let rate = brackets[0]?.rate ?? 0;
+  for (const bracket of brackets) {
+    if (taxableIncome >= bracket.over) rate = bracket.rate;
+  }
+  return rate;
+}
+
+export function computeIncomeTax(table: TaxTable, { income, adjustments = 0, itemizedDeductions = 0 }: IncomeTaxOptions): IncomeTaxResult {
+  if (!(income >= 0) || !(adjustments >= 0) || !(itemizedDeductions >= 0)) {
+    throw new RangeError('Income and deductions must be zero or positive.');
+  }
+
+  const adjustedIncome = Math.max(0, income - adjustments);
+  const standard = standardDeduction(table, adjustedIncome);
+  const deductionType = itemizedDeductions > standard ? 'itemized' : 'standard';
+  const deduction = Math.max(standard, itemizedDeductions);
+  const taxableIncome = Math.max(0, adjustedIncome - deduction);
+  const brackets = bracketTax(table.brackets, taxableIncome);
+  const tax = brackets.reduce((sum, bracket) => sum + bracket.tax, 0);
+
+  return {
+    income,
+    adjustedIncome,
+    deduction,
+    deductionType,
+    taxableIncome,
+    tax,
+    marginalRate: marginalRate(table.brackets, taxableIncome),
+    effectiveRate: income > 0 ? tax / income : 0,
+    brackets,
+  };
+}
@@ -0,0 +1,75 @@
+import type { TaxTable } from './income-tax';
+import type { TaxSystem } from './tax-system';
+import { UK_INCOME_TAX } from './uk';
+import { US_FEDERAL } from './us-federal';
+
+export {
+  bracketTax,
+  computeIncomeTax,
+  marginalRate,
+  standardDeduction,
+  type BracketTax,
+  type IncomeTaxOptions,
+  type IncomeTaxResult,
+  type TaxBracket,
+  type TaxTable,
+} from './income-tax';
+export { brackets, latestTaxYear, taxYears, type TaxSystem } from './tax-system';
+export { US_FEDERAL, US_FILING_STATUSES, type UsFilingStatus } from './us-federal';
+export { UK_INCOME_TAX } from './uk';
+export {
+  compareMarriageFiling,
+  type FilingScenario,
+  type MarriageComparison,
+  type PartnerIncome,
+  type RateComparison,
+} from './marriage';
+export {
+  VAT_CATEGORY_LABELS,
+  VAT_RATE_TABLES,
+  computeVatInvoice,
+  vatRateOptions,
+  type VatCategory,
+  type VatInvoice,
+  type VatInvoiceOptions,
+  type VatLine,
+  type VatLineResult,
+  type VatRateOption,
+  type VatRateSummary,
+  type VatRateTable,
+} from './vat';
+export { STATE_TAX_YEAR, US_STATE_INCOME_TAX, stateTaxTable, type StateIncomeTax } from './us-states';
+export {
+  BASIC_EXCLUSION_AMOUNT,
+  ESTATE_TAX_YEARS,
+  FEDERAL_ESTATE_TAX_SCHEDULE,
+  STATE_ESTATE_TAX_YEAR,
+  US_STATE_ESTATE_TAX,
+  computeEstateTax,
+  type EstateTaxOptions,
+  type EstateTaxResult,
+  type StateEstateTax,
+} from './estate';
+export {
+  PAYCHECK_LINES,
+  PAYROLL_LIMITS,
+  PAY_PERIODS_PER_YEAR,
+  runPayroll,
+  sumPaychecks,
+  yearToDate,
+  type PayFrequency,
+  type PaycheckAmounts,
+  type PayrollLimits,
+  type PayrollOptions,
+} from './payroll';
+
+/** Every income tax system the calculators can use, keyed by id. */
+export const TAX_SYSTEMS: Record<string, TaxSystem> = {
+  [US_FEDERAL.id]: US_FEDERAL,
+  [UK_INCOME_TAX.id]: UK_INCOME_TAX,
+};
+
+/** The table for a system, year and filing status, or null if there is none. */
+export function findTaxTable(systemId: string, year: string, filingStatus: string): TaxTable | null {
+  return TAX_SYSTEMS[systemId]?.years[year]?.[filingStatus] ?? null;
+}
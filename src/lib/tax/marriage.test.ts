@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { compareMarriageFiling, type PartnerIncome } from './marriage';
+import { UK_INCOME_TAX } from './uk';
+import { US_FEDERAL } from './us-federal';
+
+const partner = (income: number, itemizedDeductions = 0): PartnerIncome => ({ income, adjustments: 0, itemizedDeductions });
+
+describe('compareMarriageFiling', () => {
+  it('finds a penalty for two top-bracket earners', () => {
+    // The joint 37% bracket starts at $751,600, well short of twice the single $626,350:
+    // 2% more on the $501,100 of joint taxable income that two singles pay 35% on
+    const result = compareMarriageFiling(US_FEDERAL, '2025', [partner(700000), partner(700000)]);
+    expect(result.bestMarried).toBe('jointly');
+    expect(result.difference).toBeCloseTo(10022, 2);
+    expect(result.difference).toBeGreaterThan(0);
+  });
+
+  it('finds a bonus for a single-earner couple', () => {
+    const result = compareMarriageFiling(US_FEDERAL, '2025', [partner(100000), partner(0)]);
+    // Single: $5,578.50 plus 22% over $48,475 on $84,250; joint: $2,385 plus 12% over $23,850 on $68,500
+    expect(result.singles.tax).toBeCloseTo(5578.5 + 0.22 * (84250 - 48475), 2);
+    expect(result.jointly.tax).toBeCloseTo(2385 + 0.12 * (68500 - 23850), 2);
+    expect(result.bestMarried).toBe('jointly');
+    expect(result.difference).toBeCloseTo(-5706, 2);
+  });
+
+  it('makes both spouses itemize when one filing separately does', () => {
+    const result = compareMarriageFiling(US_FEDERAL, '2025', [partner(80000, 20000), partner(50000)]);
+    expect(result.separately.returns.map(ret => ret.deduction)).toEqual([20000, 0]);
+    expect(result.separately.returns[1].taxableIncome).toBe(50000);
+  });
+
+  it('splits each scenario’s tax by rate', () => {
+    const result = compareMarriageFiling(US_FEDERAL, '2025', [partner(250000), partner(40000)]);
+    const total = (key: 'singles' | 'jointly' | 'separately') => result.byRate.reduce((sum, row) => sum + row[key], 0);
+    expect(total('singles')).toBeCloseTo(result.singles.tax, 6);
+    expect(total('jointly')).toBeCloseTo(result.jointly.tax, 6);
+    expect(total('separately')).toBeCloseTo(result.separately.tax, 6);
+    expect(result.byRate.map(row => row.rate)).toEqual([0.1, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37]);
+  });
+
+  it('needs married filing tables', () => {
+    expect(() => compareMarriageFiling(UK_INCOME_TAX, '2025/26', [partner(50000), partner(50000)])).toThrow(RangeError);
+  });
+});
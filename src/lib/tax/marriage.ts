@@ -0,0 +1,98 @@
+import { computeIncomeTax, type IncomeTaxResult, type TaxTable } from './income-tax';
+import type { TaxSystem } from './tax-system';
+
+/**
+ * The marriage penalty or bonus: a couple's income tax filing as two single
+ * people, against one joint return and two separate married returns, all
+ * from the same year's tables.
+ */
+
+export interface PartnerIncome {
+  income: number;
+  /** Pre-tax adjustments, e.g. 401(k) contributions. */
+  adjustments: number;
+  /** Zero to take the standard deduction. */
+  itemizedDeductions: number;
+}
+
+export interface FilingScenario {
+  /** One result per return: two for singles and separate filing, one for a joint return. */
+  returns: IncomeTaxResult[];
+  tax: number;
+}
+
+/** Tax at one rate under each way of filing. */
+export interface RateComparison {
+  rate: number;
+  singles: number;
+  jointly: number;
+  separately: number;
+}
+
+export interface MarriageComparison {
+  singles: FilingScenario;
+  jointly: FilingScenario;
+  separately: FilingScenario;
+  /** The cheaper of the two married filing statuses. */
+  bestMarried: 'jointly' | 'separately';
+  /** Best married tax less tax as two singles: positive is a penalty, negative a bonus. */
+  difference: number;
+  byRate: RateComparison[];
+}
+
+function scenario(returns: IncomeTaxResult[]): FilingScenario {
+  return { returns, tax: returns.reduce((sum, result) => sum + result.tax, 0) };
+}
+
+function taxByRate(filing: FilingScenario): Map<number, number> {
+  const byRate = new Map<number, number>();
+  for (const result of filing.returns) {
+    for (const bracket of result.brackets) byRate.set(bracket.rate, (byRate.get(bracket.rate) ?? 0) + bracket.tax);
+  }
+  return byRate;
+}
+
+export function compareMarriageFiling(system: TaxSystem, year: string, partners: [PartnerIncome, PartnerIncome]): MarriageComparison {
+  const tables = system.years[year];
+  const single = tables?.single;
+  const jointly = tables?.married_jointly;
+  const separately = tables?.married_separately;
+  if (!single || !jointly || !separately) throw new RangeError(`No ${system.name} married filing tables for ${year}.`);
+
+  const singles = scenario(partners.map(partner => computeIncomeTax(single, partner)));
+  const joint = scenario([
+    computeIncomeTax(jointly, {
+      income: partners[0].income + partners[1].income,
+      adjustments: partners[0].adjustments + partners[1].adjustments,
+      itemizedDeductions: partners[0].itemizedDeductions + partners[1].itemizedDeductions,
+    }),
+  ]);
+
+  // If one spouse filing separately itemizes, the other must itemize too and loses the standard deduction
+  const separateResults = partners.map(partner => computeIncomeTax(separately, partner));
+  const anyItemizes = separateResults.some(result => result.deductionType === 'itemized');
+  const noStandard: TaxTable = { ...separately, standardDeduction: 0 };
+  const separate = scenario(anyItemizes ? partners.map(partner => computeIncomeTax(noStandard, partner)) : separateResults);
+
+  const bestMarried = separate.tax < joint.tax ? 'separately' : 'jointly';
+  const marriedTax = bestMarried === 'jointly' ? joint.tax : separate.tax;
+
+  const singlesByRate = taxByRate(singles);
+  const jointByRate = taxByRate(joint);
+  const separateByRate = taxByRate(separate);
+  const rates = [...new Set([...singlesByRate.keys(), ...jointByRate.keys(), ...separateByRate.keys()])].sort((a, b) => a - b);
+
+  return {
+    singles,
+    jointly: joint,
+    separately: separate,
+    bestMarried,
+    difference: marriedTax - singles.tax,
+    byRate: rates.map(rate => ({
+      rate,
+      singles: singlesByRate.get(rate) ?? 0,
+      jointly: jointByRate.get(rate) ?? 0,
+      separately: separateByRate.get(rate) ?? 0,
+    })),
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { PAYROLL_LIMITS, runPayroll, sumPaychecks, yearToDate, type PayrollOptions } from './payroll';
+
+const limits = PAYROLL_LIMITS['2025'];
+
+const options = (overrides: Partial<PayrollOptions>): PayrollOptions => ({
+  grossPay: 5000,
+  frequency: 'monthly',
+  taxYear: '2025',
+  filingStatus: 'single',
+  state: null,
+  retirement401k: 0,
+  hsa: 0,
+  hsaCoverage: 'self',
+  fsa: 0,
+  otherPreTax: 0,
+  postTax: 0,
+  ...overrides,
+});
+
+describe('runPayroll', () => {
+  it('runs one paycheck per pay period', () => {
+    expect(runPayroll(options({ frequency: 'weekly' }))).toHaveLength(52);
+    expect(runPayroll(options({ frequency: 'bi-weekly' }))).toHaveLength(26);
+    expect(runPayroll(options({ frequency: 'semi-monthly' }))).toHaveLength(24);
+  });
+
+  it('stops Social Security at the wage base and starts Additional Medicare mid-year', () => {
+    // $24,000 a month passes the $176,100 wage base in August and $200,000 in September
+    const paychecks = runPayroll(options({ grossPay: 24000 }));
+    const socialSecurity = paychecks.map(paycheck => paycheck.socialSecurity);
+    const additionalMedicare = paychecks.map(paycheck => paycheck.additionalMedicare);
+
+    expect(socialSecurity[6]).toBeCloseTo(24000 * 0.062, 6);
+    expect(socialSecurity[7]).toBeCloseTo((176100 - 168000) * 0.062, 6);
+    expect(socialSecurity.slice(8).every(amount => amount === 0)).toBe(true);
+
+    expect(additionalMedicare.slice(0, 8).every(amount => amount === 0)).toBe(true);
+    expect(additionalMedicare[8]).toBeCloseTo((216000 - 200000) * 0.009, 6);
+    expect(additionalMedicare[9]).toBeCloseTo(24000 * 0.009, 6);
+
+    const year = sumPaychecks(paychecks);
+    expect(year.socialSecurity).toBeCloseTo(limits.socialSecurityWageBase * 0.062, 6);
+    expect(year.medicare).toBeCloseTo(288000 * 0.0145, 6);
+    expect(year.additionalMedicare).toBeCloseTo((288000 - 200000) * 0.009, 6);
+  });
+
+  it('stops each pre-tax deduction at its annual limit', () => {
+    const paychecks = runPayroll(options({ grossPay: 10000, retirement401k: 3000, hsa: 500, fsa: 300 }));
+
+    expect(paychecks[7].retirement401k).toBe(2500);
+    expect(paychecks[8].retirement401k).toBe(0);
+    expect(paychecks[8].hsa).toBe(300);
+    expect(paychecks[9].hsa).toBe(0);
+    expect(paychecks[10].fsa).toBe(300);
+    expect(paychecks[11].fsa).toBe(0);
+
+    const year = sumPaychecks(paychecks);
+    expect(year.retirement401k).toBe(limits.retirement401k);
+    expect(year.hsa).toBe(limits.hsaSelf);
+    expect(year.fsa).toBe(limits.healthFsa);
+  });
+
+  it('uses the family HSA limit for family coverage', () => {
+    expect(sumPaychecks(runPayroll(options({ hsa: 1000, hsaCoverage: 'family' }))).hsa).toBe(limits.hsaFamily);
+  });
+
+  it('takes HSA and FSA out of FICA wages but not 401(k) deferrals', () => {
+    const [paycheck] = runPayroll(options({ retirement401k: 500, hsa: 200, fsa: 100 }));
+    expect(paycheck.socialSecurity).toBeCloseTo(4700 * 0.062, 6);
+    expect(paycheck.medicare).toBeCloseTo(4700 * 0.0145, 6);
+  });
+
+  it('withholds federal tax on annualized taxable wages', () => {
+    const [paycheck] = runPayroll(options({ retirement401k: 500 }));
+    // $54,000 a year less the $15,750 standard deduction is $38,250 taxable
+    expect(paycheck.federalIncomeTax).toBeCloseTo((1192.5 + 0.12 * (38250 - 11925)) / 12, 6);
+  });
+
+  it('adds extra withholding to federal income tax', () => {
+    const [base] = runPayroll(options({}));
+    const [extra] = runPayroll(options({ extraWithholding: 100 }));
+    expect(extra.federalIncomeTax).toBeCloseTo(base.federalIncomeTax + 100, 6);
+    expect(extra.net).toBeCloseTo(base.net - 100, 6);
+  });
+
+  it('caps extra withholding and post-tax deductions at what is left of the paycheck', () => {
+    const paychecks = runPayroll(options({ extraWithholding: 10000, postTax: 500 }));
+    for (const paycheck of paychecks) {
+      expect(paycheck.net).toBeCloseTo(0, 6);
+      expect(paycheck.postTax).toBe(0);
+      expect(paycheck.federalIncomeTax + paycheck.socialSecurity + paycheck.medicare).toBeCloseTo(5000, 6);
+    }
+  });
+
+  it('balances every paycheck', () => {
+    for (const paycheck of runPayroll(options({ grossPay: 24000, retirement401k: 3000, hsa: 500, otherPreTax: 200, postTax: 150 }))) {
+      const deducted = paycheck.retirement401k + paycheck.hsa + paycheck.fsa + paycheck.otherPreTax
+        + paycheck.federalIncomeTax + paycheck.socialSecurity + paycheck.medicare + paycheck.additionalMedicare
+        + paycheck.stateIncomeTax + paycheck.postTax;
+      expect(paycheck.net).toBeCloseTo(paycheck.gross - deducted, 6);
+    }
+  });
+
+  it('rejects an unknown year', () => {
+    expect(() => runPayroll(options({ taxYear: '1999' }))).toThrow(RangeError);
+  });
+});
+
+describe('yearToDate', () => {
+  const paychecks = runPayroll(options({ grossPay: 24000 }));
+
+  it('sums the paychecks up to and including the period', () => {
+    const ytd = yearToDate(paychecks, 8);
+    expect(ytd.gross).toBe(192000);
+    expect(ytd.socialSecurity).toBeCloseTo(limits.socialSecurityWageBase * 0.062, 6);
+    expect(ytd.net).toBeCloseTo(paychecks.slice(0, 8).reduce((sum, paycheck) => sum + paycheck.net, 0), 6);
+  });
+
+  it('is zero before the first paycheck and the year total after the last', () => {
+    expect(yearToDate(paychecks, 0).gross).toBe(0);
+    expect(yearToDate(paychecks, 12)).toEqual(sumPaychecks(paychecks));
+  });
+});
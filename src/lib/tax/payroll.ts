@@ -0,0 +1,180 @@
+import { computeIncomeTax, type TaxTable } from './income-tax';
+import { US_FEDERAL, type UsFilingStatus } from './us-federal';
+import { stateTaxTable, US_STATE_INCOME_TAX } from './us-states';
+
+/**
+ * US paycheck withholding, period by period through the year so that the
+ * Social Security wage base, the Additional Medicare threshold and the
+ * annual contribution limits take effect in the right paycheck.
+ *
+ * Income tax is withheld by annualizing each paycheck (the percentage
+ * method) against the full standard deduction; W-4 steps 2 to 4(b) are not
+ * modelled.
+ */
+
+export type PayFrequency = 'weekly' | 'bi-weekly' | 'semi-monthly' | 'monthly';
+
+export const PAY_PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+  weekly: 52,
+  'bi-weekly': 26,
+  'semi-monthly': 24,
+  monthly: 12,
+};
+
+export interface PayrollLimits {
+  socialSecurityRate: number;
+  socialSecurityWageBase: number;
+  medicareRate: number;
+  additionalMedicareRate: number;
+  /** Wages above which employers withhold Additional Medicare tax, whatever the filing status. */
+  additionalMedicareThreshold: number;
+  /** Employee 401(k) elective deferral limit, before catch-up contributions. */
+  retirement401k: number;
+  hsaSelf: number;
+  hsaFamily: number;
+  healthFsa: number;
+}
+
+const FICA = { socialSecurityRate: 0.062, medicareRate: 0.0145, additionalMedicareRate: 0.009, additionalMedicareThreshold: 200000 };
+
+/** By tax year, matching the federal bracket tables. */
+export const PAYROLL_LIMITS: Record<string, PayrollLimits> = {
+  '2024': { ...FICA, socialSecurityWageBase: 168600, retirement401k: 23000, hsaSelf: 4150, hsaFamily: 8300, healthFsa: 3200 },
+  '2025': { ...FICA, socialSecurityWageBase: 176100, retirement401k: 23500, hsaSelf: 4300, hsaFamily: 8550, healthFsa: 3300 },
+  '2026': { ...FICA, socialSecurityWageBase: 184500, retirement401k: 24500, hsaSelf: 4400, hsaFamily: 8750, healthFsa: 3400 },
+};
+
+export interface PayrollOptions {
+  /** Gross pay each period. */
+  grossPay: number;
+  frequency: PayFrequency;
+  taxYear: string;
+  filingStatus: UsFilingStatus;
+  /** Key of `US_STATE_INCOME_TAX`, or null for no state income tax. */
+  state: string | null;
+  /** Per-period deductions, each stopped once its annual limit is reached. */
+  retirement401k: number;
+  hsa: number;
+  hsaCoverage: 'self' | 'family';
+  fsa: number;
+  /** Other section 125 deductions such as health premiums: exempt from income tax and FICA. */
+  otherPreTax: number;
+  postTax: number;
+  /** Extra federal withholding per period (W-4 step 4(c)). */
+  extraWithholding?: number;
+}
+
+/** One paycheck, or the sum of several. */
+export interface PaycheckAmounts {
+  gross: number;
+  retirement401k: number;
+  hsa: number;
+  fsa: number;
+  otherPreTax: number;
+  federalIncomeTax: number;
+  socialSecurity: number;
+  medicare: number;
+  additionalMedicare: number;
+  stateIncomeTax: number;
+  postTax: number;
+  net: number;
+}
+
+export const PAYCHECK_LINES: { key: keyof PaycheckAmounts; label: string; section: 'earnings' | 'pre-tax' | 'taxes' | 'post-tax' | 'net' }[] = [
+  { key: 'gross', label: 'Gross Pay', section: 'earnings' },
+  { key: 'retirement401k', label: '401(k)', section: 'pre-tax' },
+  { key: 'hsa', label: 'HSA', section: 'pre-tax' },
+  { key: 'fsa', label: 'FSA', section: 'pre-tax' },
+  { key: 'otherPreTax', label: 'Other Pre-Tax', section: 'pre-tax' },
+  { key: 'federalIncomeTax', label: 'Federal Income Tax', section: 'taxes' },
+  { key: 'socialSecurity', label: 'Social Security', section: 'taxes' },
+  { key: 'medicare', label: 'Medicare', section: 'taxes' },
+  { key: 'additionalMedicare', label: 'Additional Medicare', section: 'taxes' },
+  { key: 'stateIncomeTax', label: 'State Income Tax', section: 'taxes' },
+  { key: 'postTax', label: 'Post-Tax Deductions', section: 'post-tax' },
+  { key: 'net', label: 'Net Pay', section: 'net' },
+];
+
+const ZERO: PaycheckAmounts = {
+  gross: 0, retirement401k: 0, hsa: 0, fsa: 0, otherPreTax: 0, federalIncomeTax: 0,
+  socialSecurity: 0, medicare: 0, additionalMedicare: 0, stateIncomeTax: 0, postTax: 0, net: 0,
+};
+
+/** Income tax withheld this period: the tax on this period's taxable wages as if earned all year. */
+function annualizedWithholding(table: TaxTable | null, taxableWages: number, periodsPerYear: number): number {
+  if (!table) return 0;
+  return computeIncomeTax(table, { income: Math.max(0, taxableWages) * periodsPerYear }).tax / periodsPerYear;
+}
+
+/** Every paycheck of the year, in order. */
+export function runPayroll(options: PayrollOptions): PaycheckAmounts[] {
+  const limits = PAYROLL_LIMITS[options.taxYear];
+  const federalTable = US_FEDERAL.years[options.taxYear]?.[options.filingStatus];
+  if (!limits || !federalTable) throw new RangeError(`No payroll tables for ${options.taxYear}.`);
+  if (!(options.grossPay >= 0)) throw new RangeError('Gross pay must be zero or positive.');
+
+  const state = options.state ? US_STATE_INCOME_TAX[options.state] : undefined;
+  const stateTable = state ? stateTaxTable(state, options.filingStatus) : null;
+  const periodsPerYear = PAY_PERIODS_PER_YEAR[options.frequency];
+  const hsaLimit = options.hsaCoverage === 'family' ? limits.hsaFamily : limits.hsaSelf;
+
+  const paychecks: PaycheckAmounts[] = [];
+  let ytd = { ...ZERO };
+
+  for (let period = 1; period <= periodsPerYear; period++) {
+    const gross = options.grossPay;
+    // Deductions in order until the paycheck runs out, each capped at what is left of its annual limit
+    let available = gross;
+    const take = (amount: number, remainingLimit = Number.POSITIVE_INFINITY) => {
+      const taken = Math.max(0, Math.min(amount, remainingLimit, available));
+      available -= taken;
+      return taken;
+    };
+    const retirement401k = take(options.retirement401k, limits.retirement401k - ytd.retirement401k);
+    const hsa = take(options.hsa, hsaLimit - ytd.hsa);
+    const fsa = take(options.fsa, limits.healthFsa - ytd.fsa);
+    const otherPreTax = take(options.otherPreTax);
+
+    const section125 = hsa + fsa + otherPreTax;
+    const incomeTaxWages = gross - retirement401k - section125;
+    const ficaWages = gross - section125;
+
+    const federalWithholding = annualizedWithholding(federalTable, incomeTaxWages, periodsPerYear);
+    const stateWages = state?.taxesRetirementDeferrals ? incomeTaxWages + retirement401k : incomeTaxWages;
+    const stateIncomeTax = annualizedWithholding(stateTable, stateWages, periodsPerYear);
+
+    const medicareWagesBefore = ytd.gross - ytd.hsa - ytd.fsa - ytd.otherPreTax;
+    const socialSecurityWages = Math.max(0, Math.min(ficaWages, limits.socialSecurityWageBase - medicareWagesBefore));
+    const socialSecurity = socialSecurityWages * limits.socialSecurityRate;
+    const medicare = ficaWages * limits.medicareRate;
+    const additionalMedicareWages = Math.max(0, medicareWagesBefore + ficaWages - Math.max(limits.additionalMedicareThreshold, medicareWagesBefore));
+    const additionalMedicare = additionalMedicareWages * limits.additionalMedicareRate;
+
+    // Extra withholding and post-tax deductions only come out of what the paycheck has left
+    const requiredTaxes = federalWithholding + socialSecurity + medicare + additionalMedicare + stateIncomeTax;
+    const extraWithholding = Math.max(0, Math.min(options.extraWithholding ?? 0, incomeTaxWages - requiredTaxes));
+    const federalIncomeTax = federalWithholding + extraWithholding;
+    const taxes = requiredTaxes + extraWithholding;
+    const postTax = Math.max(0, Math.min(options.postTax, incomeTaxWages - taxes));
+    const net = gross - retirement401k - section125 - taxes - postTax;
+
+    const paycheck = { gross, retirement401k, hsa, fsa, otherPreTax, federalIncomeTax, socialSecurity, medicare, additionalMedicare, stateIncomeTax, postTax, net };
+    paychecks.push(paycheck);
+    ytd = sumPaychecks([ytd, paycheck]);
+  }
+
+  return paychecks;
+}
+
+export function sumPaychecks(paychecks: PaycheckAmounts[]): PaycheckAmounts {
+  const total = { ...ZERO };
+  for (const paycheck of paychecks) {
+    for (const key of Object.keys(total) as (keyof PaycheckAmounts)[]) total[key] += paycheck[key];
+  }
+  return total;
+}
+
+/** Totals from the first paycheck through `period` (1-based). */
+export function yearToDate(paychecks: PaycheckAmounts[], period: number): PaycheckAmounts {
+  return sumPaychecks(paychecks.slice(0, Math.max(0, period)));
+}
@@ -0,0 +1,33 @@
+import type { TaxBracket, TaxTable } from './income-tax';
+
+/**
+ * A jurisdiction's income tax tables by tax year and filing status. Adding a
+ * country means writing one of these and listing it in `TAX_SYSTEMS`.
+ */
+export interface TaxSystem {
+  id: string;
+  name: string;
+  /** ISO 4217 code the tables are denominated in. */
+  currencyCode: string;
+  /** Filing status value to label, in display order. */
+  filingStatuses: Record<string, string>;
+  /** Tables by tax year label (e.g. `2025` or `2025/26`), then filing status. Oldest year first. */
+  years: Record<string, Record<string, TaxTable>>;
+}
+
+/** Brackets from parallel lists: `rates[i]` applies above `thresholds[i - 1]` (the first from 0). */
+export function brackets(rates: number[], thresholds: number[]): TaxBracket[] {
+  if (thresholds.length !== rates.length - 1) {
+    throw new RangeError('Expected one threshold between each pair of rates.');
+  }
+  return rates.map((rate, index) => ({ over: index === 0 ? 0 : thresholds[index - 1], rate }));
+}
+
+/** Tax year labels of a system, newest first. */
+export function taxYears(system: TaxSystem): string[] {
+  return Object.keys(system.years).reverse();
+}
+
+export function latestTaxYear(system: TaxSystem): string {
+  return taxYears(system)[0];
+}
@@ -0,0 +1,28 @@
+import { brackets, type TaxSystem } from './tax-system';
+
+/**
+ * UK income tax for England, Wales and Northern Ireland. Rates apply to
+ * income above the personal allowance, which is withdrawn at £1 for every
+ * £2 of income over £100,000.
+ */
+
+const ALLOWANCE_TAPER = { threshold: 100000, rate: 0.5 };
+
+// Thresholds frozen from 2021/22 to 2027/28
+const UK_TABLE = {
+  brackets: brackets([0.2, 0.4, 0.45], [37700, 125140]),
+  standardDeduction: 12570,
+  deductionTaper: ALLOWANCE_TAPER,
+};
+
+export const UK_INCOME_TAX: TaxSystem = {
+  id: 'uk',
+  name: 'United Kingdom (England, Wales & NI)',
+  currencyCode: 'GBP',
+  filingStatuses: { single: 'Individual' },
+  years: {
+    '2024/25': { single: UK_TABLE },
+    '2025/26': { single: UK_TABLE },
+    '2026/27': { single: UK_TABLE },
+  },
+};
@@ -0,0 +1,44 @@
+import { brackets, type TaxSystem } from './tax-system';
+
+/** US federal individual income tax, from the IRS inflation adjustments for each year. */
+
+export type UsFilingStatus = 'single' | 'married_jointly' | 'married_separately' | 'hoh';
+
+export const US_FILING_STATUSES: Record<UsFilingStatus, string> = {
+  single: 'Single',
+  married_jointly: 'Married Filing Jointly',
+  married_separately: 'Married Filing Separately',
+  hoh: 'Head of Household',
+};
+
+const US_RATES = [0.1, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+
+export const US_FEDERAL: TaxSystem = {
+  id: 'us-federal',
+  name: 'United States (Federal)',
+  currencyCode: 'USD',
+  filingStatuses: US_FILING_STATUSES,
+  years: {
+    // Rev. Proc. 2023-34
+    '2024': {
+      single: { brackets: brackets(US_RATES, [11600, 47150, 100525, 191950, 243725, 609350]), standardDeduction: 14600 },
+      married_jointly: { brackets: brackets(US_RATES, [23200, 94300, 201050, 383900, 487450, 731200]), standardDeduction: 29200 },
+      married_separately: { brackets: brackets(US_RATES, [11600, 47150, 100525, 191950, 243725, 365600]), standardDeduction: 14600 },
+      hoh: { brackets: brackets(US_RATES, [16550, 63100, 100500, 191950, 243700, 609350]), standardDeduction: 21900 },
+    },
+    // Rev. Proc. 2024-40; standard deductions as raised by Pub. L. 119-21
+    '2025': {
+      single: { brackets: brackets(US_RATES, [11925, 48475, 103350, 197300, 250525, 626350]), standardDeduction: 15750 },
+      married_jointly: { brackets: brackets(US_RATES, [23850, 96950, 206700, 394600, 501050, 751600]), standardDeduction: 31500 },
+      married_separately: { brackets: brackets(US_RATES, [11925, 48475, 103350, 197300, 250525, 375800]), standardDeduction: 15750 },
+      hoh: { brackets: brackets(US_RATES, [17000, 64850, 103350, 197300, 250500, 626350]), standardDeduction: 23625 },
+    },
+    // Rev. Proc. 2025-32
+    '2026': {
+      single: { brackets: brackets(US_RATES, [12400, 50400, 105700, 201775, 256225, 640600]), standardDeduction: 16100 },
+      married_jointly: { brackets: brackets(US_RATES, [24800, 100800, 211400, 403550, 512450, 768700]), standardDeduction: 32200 },
+      married_separately: { brackets: brackets(US_RATES, [12400, 50400, 105700, 201775, 256225, 384350]), standardDeduction: 16100 },
+      hoh: { brackets: brackets(US_RATES, [17700, 67450, 105700, 201750, 256200, 640600]), standardDeduction: 24150 },
+    },
+  },
+};
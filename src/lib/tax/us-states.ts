@@ -0,0 +1,99 @@
+import type { TaxTable } from './income-tax';
+import { brackets } from './tax-system';
+import type { UsFilingStatus } from './us-federal';
+
+/**
+ * State income tax on wages, simplified to each state's brackets and its
+ * standard deduction or personal exemption (as a deduction). Credits,
+ * local income taxes and surcharges other than those listed are ignored.
+ * Amounts are for tax year 2025 and are used for every year.
+ */
+
+export interface StateIncomeTax {
+  name: string;
+  /** By filing status; a missing status uses `single`. Null for states without a wage income tax. */
+  tables: Partial<Record<UsFilingStatus, TaxTable>> & { single: TaxTable } | null;
+  /** 401(k) deferrals are taxable wages for this state. */
+  taxesRetirementDeferrals?: boolean;
+}
+
+export const STATE_TAX_YEAR = '2025';
+
+const NO_INCOME_TAX = null;
+
+const flat = (rate: number, single: number, joint = single * 2): StateIncomeTax['tables'] => ({
+  single: { brackets: [{ over: 0, rate }], standardDeduction: single },
+  married_jointly: { brackets: [{ over: 0, rate }], standardDeduction: joint },
+});
+
+export const US_STATE_INCOME_TAX: Record<string, StateIncomeTax> = {
+  AK: { name: 'Alaska', tables: NO_INCOME_TAX },
+  CA: {
+    name: 'California',
+    tables: {
+      // Including the 1% Mental Health Services Tax above $1M
+      single: { brackets: brackets([0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133], [11079, 26264, 41452, 57542, 72724, 371479, 445771, 742953, 1000000]), standardDeduction: 5706 },
+      married_jointly: { brackets: brackets([0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133], [22158, 52528, 82904, 115084, 145448, 742958, 891542, 1000000, 1485906]), standardDeduction: 11412 },
+    },
+  },
+  CO: { name: 'Colorado', tables: flat(0.044, 15750) },
+  FL: { name: 'Florida', tables: NO_INCOME_TAX },
+  GA: { name: 'Georgia', tables: flat(0.0539, 12000) },
+  IL: { name: 'Illinois', tables: flat(0.0495, 2850) },
+  IN: { name: 'Indiana', tables: flat(0.03, 1000) },
+  KY: { name: 'Kentucky', tables: flat(0.04, 3270) },
+  MA: {
+    name: 'Massachusetts',
+    tables: {
+      // 4% surtax on income above the millionaire's threshold
+      single: { brackets: brackets([0.05, 0.09], [1083150]), standardDeduction: 4400 },
+      married_jointly: { brackets: brackets([0.05, 0.09], [1083150]), standardDeduction: 8800 },
+    },
+  },
+  MI: { name: 'Michigan', tables: flat(0.0425, 5800) },
+  NC: { name: 'North Carolina', tables: flat(0.0425, 12750) },
+  NH: { name: 'New Hampshire', tables: NO_INCOME_TAX },
+  NJ: {
+    name: 'New Jersey',
+    tables: {
+      single: { brackets: brackets([0.014, 0.0175, 0.035, 0.05525, 0.0637, 0.0897, 0.1075], [20000, 35000, 40000, 75000, 500000, 1000000]), standardDeduction: 1000 },
+      married_jointly: { brackets: brackets([0.014, 0.0175, 0.0245, 0.035, 0.05525, 0.0637, 0.0897, 0.1075], [20000, 50000, 70000, 80000, 150000, 500000, 1000000]), standardDeduction: 2000 },
+    },
+  },
+  NV: { name: 'Nevada', tables: NO_INCOME_TAX },
+  NY: {
+    name: 'New York',
+    tables: {
+      single: { brackets: brackets([0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109], [8500, 11700, 13900, 80650, 215400, 1077550, 5000000, 25000000]), standardDeduction: 8000 },
+      married_jointly: { brackets: brackets([0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109], [17150, 23600, 27900, 161550, 323200, 2155350, 5000000, 25000000]), standardDeduction: 16050 },
+      hoh: { brackets: brackets([0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109], [12800, 17650, 20900, 107650, 269300, 1616450, 5000000, 25000000]), standardDeduction: 11200 },
+    },
+  },
+  OR: {
+    name: 'Oregon',
+    tables: {
+      single: { brackets: brackets([0.0475, 0.0675, 0.0875, 0.099], [4400, 11050, 125000]), standardDeduction: 2835 },
+      married_jointly: { brackets: brackets([0.0475, 0.0675, 0.0875, 0.099], [8800, 22100, 250000]), standardDeduction: 5670 },
+    },
+  },
+  PA: { name: 'Pennsylvania', tables: flat(0.0307, 0, 0), taxesRetirementDeferrals: true },
+  SD: { name: 'South Dakota', tables: NO_INCOME_TAX },
+  TN: { name: 'Tennessee', tables: NO_INCOME_TAX },
+  TX: { name: 'Texas', tables: NO_INCOME_TAX },
+  UT: { name: 'Utah', tables: flat(0.045, 0, 0) },
+  VA: {
+    name: 'Virginia',
+    tables: {
+      single: { brackets: brackets([0.02, 0.03, 0.05, 0.0575], [3000, 5000, 17000]), standardDeduction: 8500 },
+      married_jointly: { brackets: brackets([0.02, 0.03, 0.05, 0.0575], [3000, 5000, 17000]), standardDeduction: 17000 },
+    },
+  },
+  WA: { name: 'Washington', tables: NO_INCOME_TAX },
+  WY: { name: 'Wyoming', tables: NO_INCOME_TAX },
+};
+
+/** The state's table for a filing status, falling back to single; null when the state has no wage income tax. */
+export function stateTaxTable(state: StateIncomeTax, filingStatus: UsFilingStatus): TaxTable | null {
+  if (!state.tables) return null;
+  return state.tables[filingStatus] ?? state.tables.single;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from '../csv';
+import { scheduleToCsv, vatSummaryExport } from '../schedule-export';
+import { VAT_CATEGORY_LABELS, VAT_RATE_TABLES, computeVatInvoice, vatRateOptions, type VatCategory, type VatLine } from './vat';
+
+const line = (amount: number, category: VatCategory, rate = 0): VatLine => ({ description: '', amount, category, rate });
+
+const mixed = [
+  line(100, 'standard', 0.2),
+  line(33.33, 'reduced', 0.05),
+  line(50, 'standard', 0.2),
+  line(10, 'zero'),
+  line(20, 'exempt'),
+];
+
+describe('vatRateOptions', () => {
+  it('lists the standard rate, each reduced rate, zero-rated and exempt', () => {
+    expect(vatRateOptions(VAT_RATE_TABLES.FR).map(option => option.key)).toEqual(['standard', 'reduced:10', 'reduced:5.5', 'reduced:2.1', 'zero', 'exempt']);
+  });
+});
+
+describe('computeVatInvoice', () => {
+  it('summarises lines at mixed rates by rate, standard first', () => {
+    const invoice = computeVatInvoice({ lines: mixed, pricesIncludeVat: false, reverseCharge: false });
+    expect(invoice.summary).toEqual([
+      { category: 'standard', rate: 0.2, net: 150, vat: 30, reverseChargeVat: 0, gross: 180 },
+      { category: 'reduced', rate: 0.05, net: 33.33, vat: 1.67, reverseChargeVat: 0, gross: 35 },
+      { category: 'zero', rate: 0, net: 10, vat: 0, reverseChargeVat: 0, gross: 10 },
+      { category: 'exempt', rate: 0, net: 20, vat: 0, reverseChargeVat: 0, gross: 20 },
+    ]);
+    expect(invoice.net).toBe(213.33);
+    expect(invoice.vat).toBe(31.67);
+    expect(invoice.gross).toBe(245);
+  });
+
+  it('rounds VAT per line and adds up the lines', () => {
+    // 3 × 10.03 at 20% is 3 × 2.01, not 30.09 × 20% = 6.02
+    const invoice = computeVatInvoice({ lines: [line(10.03, 'standard', 0.2), line(10.03, 'standard', 0.2), line(10.03, 'standard', 0.2)], pricesIncludeVat: false, reverseCharge: false });
+    expect(invoice.lines.map(result => result.vat)).toEqual([2.01, 2.01, 2.01]);
+    expect(invoice.vat).toBe(6.03);
+  });
+
+  it('extracts VAT from prices that include it', () => {
+    const invoice = computeVatInvoice({ lines: [line(120, 'standard', 0.2), line(10, 'reduced', 0.05)], pricesIncludeVat: true, reverseCharge: false });
+    expect(invoice.lines.map(({ net, vat, gross }) => ({ net, vat, gross }))).toEqual([
+      { net: 100, vat: 20, gross: 120 },
+      { net: 9.52, vat: 0.48, gross: 10 },
+    ]);
+    expect(invoice.gross).toBe(130);
+  });
+
+  it('charges nothing on zero-rated and exempt lines whatever rate they carry', () => {
+    const invoice = computeVatInvoice({ lines: [line(100, 'zero', 0.2), line(100, 'exempt', 0.2)], pricesIncludeVat: false, reverseCharge: false });
+    expect(invoice.lines.map(result => result.rate)).toEqual([0, 0]);
+    expect(invoice.vat).toBe(0);
+    expect(invoice.summary.map(row => row.category)).toEqual(['zero', 'exempt']);
+  });
+
+  it('charges no VAT under the reverse charge and reports what the customer accounts for', () => {
+    const invoice = computeVatInvoice({ lines: mixed, pricesIncludeVat: false, reverseCharge: true });
+    expect(invoice.vat).toBe(0);
+    expect(invoice.gross).toBe(invoice.net);
+    expect(invoice.summary.map(row => row.reverseChargeVat)).toEqual([30, 1.67, 0, 0]);
+    expect(invoice.reverseChargeVat).toBe(31.67);
+  });
+
+  it('rounds reverse-charge VAT per line like charged VAT', () => {
+    const lines = [line(10.03, 'standard', 0.2), line(10.03, 'standard', 0.2), line(10.03, 'standard', 0.2)];
+    const charged = computeVatInvoice({ lines, pricesIncludeVat: false, reverseCharge: false });
+    const reversed = computeVatInvoice({ lines, pricesIncludeVat: false, reverseCharge: true });
+    expect(reversed.lines.map(result => result.reverseChargeVat)).toEqual([2.01, 2.01, 2.01]);
+    expect(reversed.summary[0].reverseChargeVat).toBe(charged.summary[0].vat);
+    expect(reversed.reverseChargeVat).toBe(charged.vat);
+  });
+
+  it('takes amounts as net under the reverse charge even when prices include VAT', () => {
+    const invoice = computeVatInvoice({ lines: [line(120, 'standard', 0.2)], pricesIncludeVat: true, reverseCharge: true });
+    expect(invoice.net).toBe(120);
+    expect(invoice.reverseChargeVat).toBe(24);
+  });
+
+  it('rejects negative amounts and rates', () => {
+    expect(() => computeVatInvoice({ lines: [line(-1, 'standard', 0.2)], pricesIncludeVat: false, reverseCharge: false })).toThrow(RangeError);
+    expect(() => computeVatInvoice({ lines: [line(1, 'standard', -0.2)], pricesIncludeVat: false, reverseCharge: false })).toThrow(RangeError);
+  });
+});
+
+describe('vatSummaryExport', () => {
+  const currency = { code: 'GBP', name: 'British Pound', symbol: '£' };
+  const rateLabel = (category: VatCategory, rate: number) => `${VAT_CATEGORY_LABELS[category]} ${rate * 100}%`;
+
+  it('writes one CSV row per rate and then the totals', () => {
+    const invoice = computeVatInvoice({ lines: mixed, pricesIncludeVat: false, reverseCharge: false });
+    expect(parseCsv(scheduleToCsv(vatSummaryExport({ invoice, currency, taxName: 'VAT', reverseCharge: false, rateLabel })))).toEqual([
+      ['Rate', 'Net (GBP)', 'VAT (GBP)', 'Gross (GBP)'],
+      ['Standard 20%', '150.00', '30.00', '180.00'],
+      ['Reduced 5%', '33.33', '1.67', '35.00'],
+      ['Zero-Rated 0%', '10.00', '0.00', '10.00'],
+      ['Exempt 0%', '20.00', '0.00', '20.00'],
+      ['Total Net (GBP)', '213.33'],
+      ['Total VAT (GBP)', '31.67'],
+      ['Total Gross (GBP)', '245.00'],
+    ]);
+  });
+
+  it('adds a reverse-charge column and total under the reverse charge', () => {
+    const invoice = computeVatInvoice({ lines: mixed.slice(0, 2), pricesIncludeVat: false, reverseCharge: true });
+    expect(parseCsv(scheduleToCsv(vatSummaryExport({ invoice, currency, taxName: 'GST', reverseCharge: true, rateLabel })))).toEqual([
+      ['Rate', 'Net (GBP)', 'GST (GBP)', 'Reverse-Charge GST (GBP)', 'Gross (GBP)'],
+      ['Standard 20%', '100.00', '0.00', '20.00', '100.00'],
+      ['Reduced 5%', '33.33', '0.00', '1.67', '33.33'],
+      ['Total Net (GBP)', '133.33'],
+      ['Total GST (GBP)', '0.00'],
+      ['Reverse-Charge GST (customer to account) (GBP)', '21.67'],
+      ['Total Gross (GBP)', '133.33'],
+    ]);
+  });
+});
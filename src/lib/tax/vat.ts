@@ -0,0 +1,160 @@
+/**
+ * VAT / GST invoices with lines at different rates, summarised per rate the
+ * way a VAT return reports taxable amounts and tax. VAT, including VAT
+ * under the reverse charge, is rounded to the cent on each line and the
+ * summary adds up the lines.
+ */
+
+export type VatCategory = 'standard' | 'reduced' | 'zero' | 'exempt';
+
+export const VAT_CATEGORY_LABELS: Record<VatCategory, string> = {
+  standard: 'Standard',
+  reduced: 'Reduced',
+  zero: 'Zero-Rated',
+  exempt: 'Exempt',
+};
+
+export interface VatRateTable {
+  name: string;
+  /** What the tax is called on invoices. */
+  taxName: 'VAT' | 'GST';
+  standard: number;
+  /** Highest first; empty when the country has a single rate. */
+  reduced: number[];
+}
+
+/** National rates in force for 2025. */
+export const VAT_RATE_TABLES: Record<string, VatRateTable> = {
+  AU: { name: 'Australia', taxName: 'GST', standard: 0.1, reduced: [] },
+  BE: { name: 'Belgium', taxName: 'VAT', standard: 0.21, reduced: [0.12, 0.06] },
+  DE: { name: 'Germany', taxName: 'VAT', standard: 0.19, reduced: [0.07] },
+  ES: { name: 'Spain', taxName: 'VAT', standard: 0.21, reduced: [0.1, 0.04] },
+  FR: { name: 'France', taxName: 'VAT', standard: 0.2, reduced: [0.1, 0.055, 0.021] },
+  GB: { name: 'United Kingdom', taxName: 'VAT', standard: 0.2, reduced: [0.05] },
+  IE: { name: 'Ireland', taxName: 'VAT', standard: 0.23, reduced: [0.135, 0.09, 0.048] },
+  IT: { name: 'Italy', taxName: 'VAT', standard: 0.22, reduced: [0.1, 0.05, 0.04] },
+  NL: { name: 'Netherlands', taxName: 'VAT', standard: 0.21, reduced: [0.09] },
+  NZ: { name: 'New Zealand', taxName: 'GST', standard: 0.15, reduced: [] },
+  PL: { name: 'Poland', taxName: 'VAT', standard: 0.23, reduced: [0.08, 0.05] },
+  SE: { name: 'Sweden', taxName: 'VAT', standard: 0.25, reduced: [0.12, 0.06] },
+  SG: { name: 'Singapore', taxName: 'GST', standard: 0.09, reduced: [] },
+  ZA: { name: 'South Africa', taxName: 'VAT', standard: 0.15, reduced: [] },
+};
+
+/** One selectable rate of a table; `key` is stable for form values, e.g. `reduced:5.5`. */
+export interface VatRateOption {
+  key: string;
+  category: VatCategory;
+  rate: number;
+}
+
+const percentKey = (rate: number) => String(Math.round(rate * 10000) / 100);
+
+export function vatRateOptions(table: Pick<VatRateTable, 'standard' | 'reduced'>): VatRateOption[] {
+  return [
+    { key: 'standard', category: 'standard', rate: table.standard },
+    ...table.reduced.map(rate => ({ key: `reduced:${percentKey(rate)}`, category: 'reduced' as const, rate })),
+    { key: 'zero', category: 'zero', rate: 0 },
+    { key: 'exempt', category: 'exempt', rate: 0 },
+  ];
+}
+
+export interface VatLine {
+  description: string;
+  /** Net, or gross when the invoice's prices include VAT. */
+  amount: number;
+  category: VatCategory;
+  /** Zero for zero-rated and exempt lines. */
+  rate: number;
+}
+
+export interface VatInvoiceOptions {
+  lines: VatLine[];
+  pricesIncludeVat: boolean;
+  /** The customer accounts for the VAT: none is charged and amounts are taken as net. */
+  reverseCharge: boolean;
+}
+
+export interface VatLineResult extends VatLine {
+  net: number;
+  vat: number;
+  /** VAT the customer self-accounts for under the reverse charge, rounded like `vat`. */
+  reverseChargeVat: number;
+  gross: number;
+}
+
+/** One row of the per-rate summary. */
+export interface VatRateSummary {
+  category: VatCategory;
+  rate: number;
+  net: number;
+  /** VAT charged on the invoice. */
+  vat: number;
+  /** VAT the customer self-accounts for under the reverse charge. */
+  reverseChargeVat: number;
+  gross: number;
+}
+
+export interface VatInvoice {
+  lines: VatLineResult[];
+  /** Standard first, then reduced rates from highest, zero-rated and exempt. */
+  summary: VatRateSummary[];
+  net: number;
+  vat: number;
+  reverseChargeVat: number;
+  gross: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const CATEGORY_ORDER: VatCategory[] = ['standard', 'reduced', 'zero', 'exempt'];
+
+export function computeVatInvoice({ lines, pricesIncludeVat, reverseCharge }: VatInvoiceOptions): VatInvoice {
+  if (lines.some(line => !(line.amount >= 0) || !(line.rate >= 0))) {
+    throw new RangeError('Line amounts and rates must be zero or positive.');
+  }
+
+  const lineResults = lines.map((line): VatLineResult => {
+    const rate = line.category === 'zero' || line.category === 'exempt' ? 0 : line.rate;
+    if (reverseCharge || !pricesIncludeVat) {
+      const net = roundCents(line.amount);
+      const vat = roundCents(net * rate);
+      if (reverseCharge) return { ...line, rate, net, vat: 0, reverseChargeVat: vat, gross: net };
+      return { ...line, rate, net, vat, reverseChargeVat: 0, gross: net + vat };
+    }
+    const gross = roundCents(line.amount);
+    const vat = roundCents(gross * rate / (1 + rate));
+    return { ...line, rate, net: gross - vat, vat, reverseChargeVat: 0, gross };
+  });
+
+  const groups = new Map<string, VatRateSummary>();
+  for (const line of lineResults) {
+    const key = `${line.category}:${line.rate}`;
+    const group = groups.get(key) ?? { category: line.category, rate: line.rate, net: 0, vat: 0, reverseChargeVat: 0, gross: 0 };
+    group.net += line.net;
+    group.vat += line.vat;
+    group.reverseChargeVat += line.reverseChargeVat;
+    group.gross += line.gross;
+    groups.set(key, group);
+  }
+  const summary = [...groups.values()]
+    .map(group => ({
+      ...group,
+      net: roundCents(group.net),
+      vat: roundCents(group.vat),
+      reverseChargeVat: roundCents(group.reverseChargeVat),
+      gross: roundCents(group.gross),
+    }))
+    .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || b.rate - a.rate);
+
+  const total = (key: 'net' | 'vat' | 'reverseChargeVat' | 'gross') => roundCents(summary.reduce((sum, row) => sum + row[key], 0));
+
+  return {
+    lines: lineResults,
+    summary,
+    net: total('net'),
+    vat: total('vat'),
+    reverseChargeVat: total('reverseChargeVat'),
+    gross: total('gross'),
+  };
+}
@@ -15,18 +15,50 @@ export interface CalculatorInfo {
   seoKeywords?: string[]; // Optional: Keywords for meta tags
 }
 
+/** A form value as stored in history: anything react-hook-form holds that survives JSON. */
+export type HistoryFormValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | HistoryFormValue[]
+  | { [key: string]: HistoryFormValue };
+
+export type HistoryOutputValue = number | string | null;
+
 export interface HistoryEntry {
   id: string; // Unique identifier for the entry
   calculatorSlug: string; // Slug of the calculator used (e.g., 'bmi-calculator', 'loan-payment')
   timestamp: Date;
-  input: string; // User input for the calculation
-  result: string; // Result of the calculation
+  /** Form values exactly as submitted, keyed by field name. Re-opening the calculator restores them. */
+  values: Record<string, HistoryFormValue>;
+  /** Version of the calculator's form that produced `values`. 0 marks entries migrated from free text. */
+  calculatorVersion: number;
+  /** Numeric or textual results keyed by output name, before display formatting. */
+  outputs: Record<string, HistoryOutputValue>;
+  input: string; // Human-readable summary of the inputs
+  result: string; // Human-readable summary of the result
+  pinned?: boolean; // Pinned entries are never evicted by the retention limit
+}
+
+/** A named set of inputs saved for one calculator, with the results they produced. */
+export interface Scenario {
+  id: string;
+  calculatorSlug: string;
+  name: string;
+  createdAt: Date;
+  values: Record<string, HistoryFormValue>;
+  calculatorVersion: number;
+  outputs: Record<string, HistoryOutputValue>;
+  result: string; // Human-readable summary of the result
 }
 
 export interface UserProfile {
   name?: string;
   preferredUnits?: 'metric' | 'imperial';
   preferredCurrency: string; // e.g., 'USD', 'EUR'. Default will be USD.
+  historyLimit?: number; // Unpinned history entries to keep. Defaults to DEFAULT_HISTORY_LIMIT.
 }
 
 export type FavoriteCalculators = string[]; // Array of calculator slugs
@@ -0,0 +1,187 @@
+import type { CalculationContext, ContextualText, Units } from './calculator-definition';
+
+/**
+ * Unit tables and metric/imperial helpers shared by the measurement calculators.
+ *
+ * Each table maps a unit symbol to its size in the table's base unit, so any
+ * conversion is `value * table[from] / table[to]`.
+ */
+
+export type UnitTable = Record<string, number>;
+
+/** Lengths in metres. */
+export const LENGTH: UnitTable = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  km: 1000,
+  in: 0.0254,
+  ft: 0.3048,
+  yd: 0.9144,
+  mi: 1609.344,
+  nmi: 1852,
+};
+
+/** Areas in square metres. */
+export const AREA: UnitTable = {
+  'mm²': 1e-6,
+  'cm²': 1e-4,
+  'm²': 1,
+  ha: 10000,
+  'km²': 1e6,
+  'in²': 0.00064516,
+  'ft²': 0.09290304,
+  'yd²': 0.83612736,
+  ac: 4046.8564224,
+  'mi²': 2589988.110336,
+};
+
+/** Volumes in cubic metres (US customary liquid measures). */
+export const VOLUME: UnitTable = {
+  mL: 1e-6,
+  L: 0.001,
+  'm³': 1,
+  tsp: 4.92892159375e-6,
+  tbsp: 1.478676478125e-5,
+  'fl oz': 2.95735295625e-5,
+  cup: 2.365882365e-4,
+  pt: 4.73176473e-4,
+  qt: 9.46352946e-4,
+  gal: 3.785411784e-3,
+  'in³': 1.6387064e-5,
+  'ft³': 0.028316846592,
+  'yd³': 0.764554857984,
+};
+
+/** Masses in kilograms. */
+export const MASS: UnitTable = {
+  mg: 1e-6,
+  g: 0.001,
+  kg: 1,
+  t: 1000,
+  oz: 0.028349523125,
+  lb: 0.45359237,
+  st: 6.35029318,
+  ton: 907.18474,
+};
+
+/** Speeds in metres per second. */
+export const SPEED: UnitTable = {
+  'm/s': 1,
+  'km/h': 1 / 3.6,
+  mph: 0.44704,
+  'ft/s': 0.3048,
+  kn: 1852 / 3600,
+};
+
+/** Durations in seconds. */
+export const TIME: UnitTable = {
+  s: 1,
+  min: 60,
+  h: 3600,
+  d: 86400,
+  wk: 604800,
+  yr: 31557600,
+};
+
+/** Energy in joules. */
+export const ENERGY: UnitTable = {
+  J: 1,
+  kJ: 1000,
+  cal: 4.184,
+  kcal: 4184,
+  Wh: 3600,
+  kWh: 3.6e6,
+  BTU: 1055.05585262,
+};
+
+/** Power in watts. */
+export const POWER: UnitTable = {
+  W: 1,
+  kW: 1000,
+  hp: 745.69987158227022,
+  PS: 735.49875,
+  'BTU/h': 0.29307107017,
+};
+
+/** Pressure in pascals. */
+export const PRESSURE: UnitTable = {
+  Pa: 1,
+  kPa: 1000,
+  bar: 100000,
+  psi: 6894.757293168,
+  atm: 101325,
+  mmHg: 133.322387415,
+};
+
+/** Digital storage in bytes (decimal prefixes). */
+export const DATA: UnitTable = {
+  b: 0.125,
+  B: 1,
+  kB: 1e3,
+  MB: 1e6,
+  GB: 1e9,
+  TB: 1e12,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+  TiB: 1024 ** 4,
+};
+
+export function convert(value: number, from: string, to: string, table: UnitTable): number {
+  return (value * table[from]) / table[to];
+}
+
+export type TemperatureUnit = '°C' | '°F' | 'K';
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  const celsius = from === '°F' ? ((value - 32) * 5) / 9 : from === 'K' ? value - 273.15 : value;
+  return to === '°F' ? (celsius * 9) / 5 + 32 : to === 'K' ? celsius + 273.15 : celsius;
+}
+
+/**
+ * Units shown for each kind of measurement in the user's preferred system.
+ * Construction quantities use yards for bulk volume in imperial.
+ */
+export const SYSTEM_UNITS = {
+  metric: {
+    length: 'm',
+    shortLength: 'cm',
+    tinyLength: 'mm',
+    distance: 'km',
+    area: 'm²',
+    volume: 'm³',
+    fluid: 'L',
+    mass: 'kg',
+    heavyMass: 't',
+    speed: 'km/h',
+    temperature: '°C',
+    fuelEconomy: 'L/100 km',
+  },
+  imperial: {
+    length: 'ft',
+    shortLength: 'in',
+    tinyLength: 'in',
+    distance: 'mi',
+    area: 'ft²',
+    volume: 'yd³',
+    fluid: 'gal',
+    mass: 'lb',
+    heavyMass: 'ton',
+    speed: 'mph',
+    temperature: '°F',
+    fuelEconomy: 'mpg',
+  },
+} as const satisfies Record<Units, Record<string, string>>;
+
+export type Measurement = keyof (typeof SYSTEM_UNITS)['metric'];
+
+/** The unit symbol for a measurement in the given system. */
+export function systemUnit(units: Units, measurement: Measurement): string {
+  return SYSTEM_UNITS[units][measurement];
+}
+
+/** A contextual label resolving to the user's unit for a measurement, for input and output definitions. */
+export function unitLabel(measurement: Measurement): ContextualText {
+  return ({ units }: CalculationContext) => systemUnit(units, measurement);
+}
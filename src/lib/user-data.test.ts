@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { HistoryEntry, UserProfile } from './types';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  exportHistoryCsv,
+  exportUserDataJson,
+  ImportError,
+  parseUserDataFile,
+  planImport,
+  type UserData,
+} from './user-data';
+
+function entry(id: string, day: number, changes: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id,
+    calculatorSlug: 'loan-payment',
+    timestamp: new Date(Date.UTC(2025, 0, day)),
+    values: { loanAmount: '10000', interestRate: '5', loanTerm: '3', notes: ['a, "quoted"', 'b'] },
+    calculatorVersion: 1,
+    outputs: { monthlyPayment: 299.71, label: 'Monthly, "fixed"' },
+    input: 'Loan Amount: $10,000, Rate: 5%',
+    result: 'Monthly Payment: $299.71\nTotal: $10,789.56',
+    ...changes,
+  };
+}
+
+const profile: UserProfile = { preferredCurrency: 'USD', preferredUnits: 'metric' };
+const empty: UserData = { history: [], favorites: [], profile };
+
+function exportFile(body: Record<string, unknown>): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, ...body });
+}
+
+describe('parseUserDataFile', () => {
+  it('rejects files that are not exports', () => {
+    expect(() => parseUserDataFile('{not json', 'data.json')).toThrow(ImportError);
+    expect(() => parseUserDataFile(JSON.stringify({ history: [] }), 'data.json')).toThrow('is not a');
+    expect(() => parseUserDataFile(exportFile({ version: EXPORT_VERSION + 1, history: [] }), 'data.json')).toThrow(`v${EXPORT_VERSION + 1}`);
+    expect(() => parseUserDataFile(exportFile({}), 'data.json')).toThrow('no history, favorites or profile');
+    expect(() => parseUserDataFile('', 'history.csv')).toThrow('empty');
+    expect(() => parseUserDataFile('id,timestamp\n1,2025-01-01', 'history.csv')).toThrow('calculatorSlug, input, result columns');
+  });
+
+  it('skips invalid and repeated records but keeps the rest', () => {
+    const parsed = parseUserDataFile(
+      exportFile({
+        history: [entry('1', 1), { id: 2 }, entry('1', 2)],
+        favorites: ['mortgage', 'no-such-calculator', 'mortgage'],
+        profile: { preferredCurrency: 'XXX' },
+      }),
+      'data.json'
+    );
+    expect(parsed.data.history?.map(item => item.id)).toEqual(['1']);
+    expect(parsed.data.favorites).toEqual(['mortgage']);
+    expect(parsed.data.profile).toBeUndefined();
+    expect(parsed.skipped).toEqual([
+      'History entry 2 is not a valid history entry.',
+      'History entry 3 repeats history entry 1.',
+      'Favorite "no-such-calculator" is not a known calculator.',
+      'The profile is invalid (preferredCurrency) and was ignored.',
+    ]);
+  });
+
+  it('reads CSV rows without structured columns as legacy entries', () => {
+    const parsed = parseUserDataFile('id,calculatorSlug,timestamp,input,result\n1,apr,2025-01-01T00:00:00.000Z,Loan,APR: 6%', 'history.csv');
+    expect(parsed.version).toBeNull();
+    expect(parsed.data.history).toEqual([
+      { id: '1', calculatorSlug: 'apr', timestamp: new Date('2025-01-01T00:00:00.000Z'), input: 'Loan', result: 'APR: 6%', pinned: false, values: {}, calculatorVersion: 0, outputs: {} },
+    ]);
+  });
+});
+
+describe('export and import round trips', () => {
+  const history = [entry('2', 2, { pinned: true }), entry('1', 1)];
+
+  it('keeps every section through JSON', () => {
+    const data: UserData = { history, favorites: ['mortgage', 'apr'], profile: { ...profile, name: 'Sam', historyLimit: 100 } };
+    const parsed = parseUserDataFile(exportUserDataJson(data), 'export.json');
+    expect(parsed.version).toBe(EXPORT_VERSION);
+    expect(parsed.skipped).toEqual([]);
+    expect(parsed.data).toEqual(data);
+  });
+
+  it('keeps history, including quotes, commas and newlines, through CSV', () => {
+    const parsed = parseUserDataFile(exportHistoryCsv(history), 'export.csv');
+    expect(parsed.skipped).toEqual([]);
+    expect(parsed.data.history).toEqual(history.map(item => ({ ...item, pinned: !!item.pinned })));
+  });
+
+  it('reports nothing new when importing an export into the same data', () => {
+    const current: UserData = { history, favorites: ['apr'], profile };
+    const { data, report } = planImport(parseUserDataFile(exportUserDataJson(current), 'export.json'), current, 'merge');
+    expect(data).toEqual({});
+    expect(report).toMatchObject({ historyAdded: 0, historyUnchanged: 2, favoritesAdded: 0, profileUpdated: false, conflicts: [] });
+  });
+});
+
+describe('planImport', () => {
+  const local: UserData = {
+    history: [entry('2', 2), entry('1', 1)],
+    favorites: ['apr'],
+    profile: { ...profile, name: 'Local' },
+  };
+  const imported = parseUserDataFile(
+    exportUserDataJson({
+      history: [entry('3', 3), entry('1', 1, { result: 'Edited elsewhere' })],
+      favorites: ['mortgage', 'apr'],
+      profile: { preferredCurrency: 'EUR', name: 'Local', historyLimit: 25 },
+    }),
+    'export.json'
+  );
+
+  it('merges new records and keeps local ones on conflict', () => {
+    const { data, report } = planImport(imported, local, 'merge');
+    expect(data.history?.map(item => item.id)).toEqual(['3', '2', '1']);
+    expect(data.history?.find(item => item.id === '1')?.result).toBe(local.history[1].result);
+    expect(data.favorites).toEqual(['apr', 'mortgage']);
+    expect(data.profile).toEqual({ ...local.profile, historyLimit: 25 });
+    expect(report).toMatchObject({ historyAdded: 1, historyUnchanged: 0, favoritesAdded: 1, profileUpdated: true });
+    expect(report.conflicts.map(conflict => conflict.section)).toEqual(['profile', 'history']);
+    expect(report.conflicts[0].message).toBe('Profile preferredCurrency: kept "USD", imported "EUR".');
+  });
+
+  it('replaces only the chosen sections', () => {
+    const { data, report } = planImport(imported, local, 'replace', ['history', 'favorites']);
+    expect(data.history?.map(item => item.id)).toEqual(['3', '1']);
+    expect(data.history?.[1].result).toBe('Edited elsewhere');
+    expect(data.favorites).toEqual(['mortgage', 'apr']);
+    expect(data.profile).toBeUndefined();
+    expect(report.sections).toEqual(['history', 'favorites']);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it('applies the history limit, keeping pinned entries', () => {
+    const many = Array.from({ length: 30 }, (_, index) => entry(`new-${index}`, index + 1));
+    const current: UserData = { ...local, history: [entry('pinned', 1, { pinned: true })], profile: { ...profile, historyLimit: 25 } };
+    const { data, report } = planImport(parseUserDataFile(exportUserDataJson({ history: many }), 'export.json'), current, 'merge');
+    expect(data.history).toHaveLength(26);
+    expect(data.history?.some(item => item.id === 'pinned')).toBe(true);
+    expect(data.history?.some(item => item.id === 'new-0')).toBe(false);
+    expect(report.historyEvicted).toBe(5);
+  });
+
+  it('uses an imported history limit when the profile is imported too', () => {
+    const many = Array.from({ length: 30 }, (_, index) => entry(`new-${index}`, index + 1));
+    const file = parseUserDataFile(exportUserDataJson({ history: many, profile: { ...profile, historyLimit: 25 } }), 'export.json');
+    expect(planImport(file, empty, 'replace').data.history).toHaveLength(25);
+  });
+});
@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { APP_NAME, CALCULATORS, CURRENCIES } from './constants';
+import { parseCsv, toCsv } from './csv';
+import { applyRetention, DEFAULT_HISTORY_LIMIT, getCalculatorName, migrateHistoryEntry } from './history';
+import { profileSchema } from './stored-data';
+import type { FavoriteCalculators, HistoryEntry, UserProfile } from './types';
+
+/**
+ * Export and import of the data kept in localStorage: calculation history,
+ * favorites and the profile.
+ *
+ * JSON exports carry every section and are tagged with `EXPORT_FORMAT` and
+ * `EXPORT_VERSION`. CSV exports hold history only, one entry per row, for
+ * use in spreadsheets; they can be imported back as well.
+ */
+
+export const EXPORT_FORMAT = 'mathlet-user-data';
+
+/** Bump when the export layout changes, and teach `parseJsonExport` to read older versions. */
+export const EXPORT_VERSION = 1;
+
+export type UserDataSection = 'history' | 'favorites' | 'profile';
+
+export const USER_DATA_SECTIONS: UserDataSection[] = ['history', 'favorites', 'profile'];
+
+export interface UserData {
+  history: HistoryEntry[];
+  favorites: FavoriteCalculators;
+  profile: UserProfile;
+}
+
+/** Thrown when an import file cannot be read at all. */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export const HISTORY_CSV_COLUMNS = [
+  'id',
+  'calculatorSlug',
+  'calculator',
+  'timestamp',
+  'input',
+  'result',
+  'pinned',
+  'calculatorVersion',
+  'values',
+  'outputs',
+] as const;
+
+const REQUIRED_CSV_COLUMNS = ['id', 'calculatorSlug', 'timestamp', 'input', 'result'];
+
+export function exportUserDataJson(data: Partial<UserData>): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      app: APP_NAME,
+      exportedAt: new Date().toISOString(),
+      ...data,
+    },
+    null,
+    2
+  );
+}
+
+export function exportHistoryCsv(entries: HistoryEntry[]): string {
+  return toCsv([
+    [...HISTORY_CSV_COLUMNS],
+    ...entries.map(entry => [
+      entry.id,
+      entry.calculatorSlug,
+      getCalculatorName(entry.calculatorSlug),
+      new Date(entry.timestamp).toISOString(),
+      entry.input,
+      entry.result,
+      !!entry.pinned,
+      entry.calculatorVersion,
+      JSON.stringify(entry.values),
+      JSON.stringify(entry.outputs),
+    ]),
+  ]);
+}
+
+// Imports also check the currency against the supported list
+const importedProfileSchema = profileSchema.extend({
+  preferredCurrency: z.string().refine(code => CURRENCIES.some(currency => currency.code === code), { message: 'Unknown currency' }),
+});
+
+const envelopeSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  history: z.array(z.unknown()).optional(),
+  favorites: z.array(z.unknown()).optional(),
+  profile: z.unknown().optional(),
+});
+
+/** A readable import file. Records that failed validation are listed in `skipped`. */
+export interface ParsedImport {
+  /** `EXPORT_VERSION` of a JSON file; `null` for CSV, which is not versioned. */
+  version: number | null;
+  exportedAt: string | null;
+  data: Partial<UserData>;
+  skipped: string[];
+}
+
+function parseHistoryRecords(records: unknown[], skipped: string[], label: (index: number) => string): HistoryEntry[] {
+  const seen = new Set<string>();
+  return records.flatMap((record, index) => {
+    const entry = migrateHistoryEntry(record);
+    if (!entry) {
+      skipped.push(`${label(index)} is not a valid history entry.`);
+      return [];
+    }
+    if (seen.has(entry.id)) {
+      skipped.push(`${label(index)} repeats history entry ${entry.id}.`);
+      return [];
+    }
+    seen.add(entry.id);
+    return [entry];
+  });
+}
+
+function parseJsonExport(text: string): ParsedImport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON.');
+  }
+
+  const envelope = envelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new ImportError(`The file is not a ${APP_NAME} export.`);
+  }
+  const { version, exportedAt, history, favorites, profile } = envelope.data;
+  if (version > EXPORT_VERSION) {
+    throw new ImportError(`The file uses export format v${version}; this version of ${APP_NAME} reads up to v${EXPORT_VERSION}.`);
+  }
+
+  const skipped: string[] = [];
+  const data: Partial<UserData> = {};
+
+  if (history) {
+    data.history = parseHistoryRecords(history, skipped, index => `History entry ${index + 1}`);
+  }
+  if (favorites) {
+    data.favorites = [];
+    for (const slug of favorites) {
+      if (typeof slug !== 'string' || !CALCULATORS.some(calc => calc.slug === slug)) {
+        skipped.push(`Favorite ${JSON.stringify(slug)} is not a known calculator.`);
+      } else if (!data.favorites.includes(slug)) {
+        data.favorites.push(slug);
+      }
+    }
+  }
+  if (profile !== undefined) {
+    const parsedProfile = importedProfileSchema.safeParse(profile);
+    if (parsedProfile.success) {
+      data.profile = parsedProfile.data;
+    } else {
+      skipped.push(`The profile is invalid (${parsedProfile.error.issues.map(issue => issue.path.join('.') || issue.message).join(', ')}) and was ignored.`);
+    }
+  }
+
+  return { version, exportedAt: exportedAt ?? null, data, skipped };
+}
+
+function parseJsonCell(cell: string | undefined): unknown {
+  if (!cell) return {};
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseCsvExport(text: string): ParsedImport {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new ImportError('The CSV file is empty.');
+
+  const missing = REQUIRED_CSV_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new ImportError(`The CSV file is missing the ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}.`);
+  }
+
+  const records = rows.map(row => {
+    const cell = (column: string) => row[header.indexOf(column)];
+    const hasStructure = header.includes('calculatorVersion') && cell('calculatorVersion') !== '';
+    return {
+      id: cell('id'),
+      calculatorSlug: cell('calculatorSlug'),
+      timestamp: cell('timestamp'),
+      input: cell('input'),
+      result: cell('result'),
+      pinned: cell('pinned') === 'true',
+      // Rows without a calculator version are read as legacy entries
+      ...(hasStructure && {
+        calculatorVersion: Number(cell('calculatorVersion')),
+        values: parseJsonCell(cell('values')),
+        outputs: parseJsonCell(cell('outputs')),
+      }),
+    };
+  });
+
+  const skipped: string[] = [];
+  // Row numbers count the header, as spreadsheets do
+  const history = parseHistoryRecords(records, skipped, index => `Row ${index + 2}`);
+  return { version: null, exportedAt: null, data: { history }, skipped };
+}
+
+/** Reads a JSON or CSV export. Throws `ImportError` if the file is unusable. */
+export function parseUserDataFile(text: string, fileName: string): ParsedImport {
+  const isJson = fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{');
+  const parsed = isJson ? parseJsonExport(text) : parseCsvExport(text);
+
+  if (USER_DATA_SECTIONS.every(section => parsed.data[section] === undefined)) {
+    throw new ImportError('The file contains no history, favorites or profile data.');
+  }
+  return parsed;
+}
+
+/**
+ * `merge` keeps local data and adds what is new; where both sides hold a
+ * different version of the same record the local one wins and the clash is
+ * reported. `replace` overwrites each imported section.
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportConflict {
+  section: UserDataSection;
+  message: string;
+}
+
+export interface ImportReport {
+  sections: UserDataSection[];
+  historyAdded: number;
+  /** Imported entries identical to ones already stored. */
+  historyUnchanged: number;
+  /** Unpinned entries dropped by the history limit after the import. */
+  historyEvicted: number;
+  favoritesAdded: number;
+  profileUpdated: boolean;
+  conflicts: ImportConflict[];
+  skipped: string[];
+}
+
+/** An import the user confirmed, planned again against the stored data when it is written. */
+export interface ConfirmedImport {
+  parsed: ParsedImport;
+  mode: ImportMode;
+  sections: UserDataSection[];
+}
+
+export interface ImportPlan {
+  /** New values for the sections that change. */
+  data: Partial<UserData>;
+  report: ImportReport;
+}
+
+/** JSON with sorted object keys, so equal records compare equal regardless of key order. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) =>
+    inner && typeof inner === 'object' && !Array.isArray(inner)
+      ? Object.fromEntries(Object.keys(inner).sort().map(key => [key, inner[key]]))
+      : inner
+  );
+}
+
+function sameEntry(a: HistoryEntry, b: HistoryEntry): boolean {
+  return canonicalJson({ ...a, pinned: !!a.pinned }) === canonicalJson({ ...b, pinned: !!b.pinned });
+}
+
+function byNewest(a: HistoryEntry, b: HistoryEntry): number {
+  return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+}
+
+/** Works out the result of an import without writing anything. */
+export function planImport(parsed: ParsedImport, current: UserData, mode: ImportMode, sections: UserDataSection[] = USER_DATA_SECTIONS): ImportPlan {
+  const imported = parsed.data;
+  const included = sections.filter(section => imported[section] !== undefined);
+  const report: ImportReport = {
+    sections: included,
+    historyAdded: 0,
+    historyUnchanged: 0,
+    historyEvicted: 0,
+    favoritesAdded: 0,
+    profileUpdated: false,
+    conflicts: [],
+    skipped: [...parsed.skipped],
+  };
+  const data: Partial<UserData> = {};
+
+  if (included.includes('profile') && imported.profile) {
+    if (mode === 'replace') {
+      data.profile = imported.profile;
+      report.profileUpdated = JSON.stringify(imported.profile) !== JSON.stringify(current.profile);
+    } else {
+      const merged: UserProfile = { ...current.profile };
+      for (const key of Object.keys(imported.profile) as (keyof UserProfile)[]) {
+        const incoming = imported.profile[key];
+        const local = current.profile[key];
+        if (incoming === undefined || incoming === local) continue;
+        if (local === undefined) {
+          (merged as unknown as Record<string, unknown>)[key] = incoming;
+          report.profileUpdated = true;
+        } else {
+          report.conflicts.push({ section: 'profile', message: `Profile ${key}: kept "${local}", imported "${incoming}".` });
+        }
+      }
+      if (report.profileUpdated) data.profile = merged;
+    }
+  }
+
+  if (included.includes('favorites') && imported.favorites) {
+    const incoming = imported.favorites.filter(slug => !current.favorites.includes(slug));
+    report.favoritesAdded = incoming.length;
+    if (mode === 'replace') {
+      data.favorites = imported.favorites;
+    } else if (incoming.length > 0) {
+      data.favorites = [...current.favorites, ...incoming];
+    }
+  }
+
+  if (included.includes('history') && imported.history) {
+    let history: HistoryEntry[];
+    if (mode === 'replace') {
+      history = [...imported.history];
+      report.historyAdded = history.length;
+    } else {
+      const local = new Map(current.history.map(entry => [entry.id, entry]));
+      history = [...current.history];
+      for (const entry of imported.history) {
+        const existing = local.get(entry.id);
+        if (!existing) {
+          history.push(entry);
+          report.historyAdded++;
+        } else if (sameEntry(existing, entry)) {
+          report.historyUnchanged++;
+        } else {
+          report.conflicts.push({
+            section: 'history',
+            message: `${getCalculatorName(entry.calculatorSlug)} entry from ${format(new Date(entry.timestamp), 'PPp')} differs from the local copy, which was kept.`,
+          });
+        }
+      }
+    }
+
+    history.sort(byNewest);
+    const limit = (data.profile ?? current.profile).historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    const retained = applyRetention(history, limit);
+    report.historyEvicted = history.length - retained.length;
+    if (mode === 'replace' || report.historyAdded > 0) data.history = retained;
+  }
+
+  return { data, report };
+}
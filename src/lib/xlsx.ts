@@ -0,0 +1,159 @@
+import { createZip } from './zip';
+
+/**
+ * Minimal XLSX (Office Open XML) workbook writer: inline strings, numbers
+ * and a handful of number formats, enough for exported tables to open as
+ * real spreadsheets with working arithmetic.
+ */
+
+export type XlsxFormat = 'text' | 'integer' | 'number' | 'currency' | 'percent';
+
+export interface XlsxCell {
+  value: string | number | null;
+  format?: XlsxFormat;
+  bold?: boolean;
+}
+
+export interface XlsxSheet {
+  /** Shown on the sheet tab; shortened to 31 characters as Excel requires. */
+  name: string;
+  rows: (XlsxCell | string | number | null)[][];
+  /** Widths in characters, by column. */
+  columnWidths?: number[];
+  /** Rows kept in view while scrolling, e.g. 1 for a header row. */
+  frozenRows?: number;
+}
+
+export interface XlsxOptions {
+  /** Symbol used by the `currency` format. Defaults to `$`. */
+  currencySymbol?: string;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Index into cellXfs; bold variants follow at an offset of FORMATS.length
+const FORMATS: XlsxFormat[] = ['text', 'integer', 'number', 'currency', 'percent'];
+const CURRENCY_FORMAT_ID = 164;
+const NUMBER_FORMAT_IDS: Record<XlsxFormat, number> = { text: 0, integer: 3, number: 4, currency: CURRENCY_FORMAT_ID, percent: 10 };
+
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** 0 → A, 25 → Z, 26 → AA. */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetName(name: string, index: number, used: Set<string>): string {
+  let cleaned = name.replace(/[\[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+  if (used.has(cleaned.toLowerCase())) cleaned = `${cleaned.slice(0, 27)} (${index + 1})`;
+  used.add(cleaned.toLowerCase());
+  return cleaned;
+}
+
+function cellXml(raw: XlsxCell | string | number | null, reference: string): string {
+  const cell: XlsxCell = raw !== null && typeof raw === 'object' ? raw : { value: raw };
+  if (cell.value === null || cell.value === '') return '';
+  const format = cell.format ?? (typeof cell.value === 'number' ? 'number' : 'text');
+  const style = FORMATS.indexOf(format) + (cell.bold ? FORMATS.length : 0);
+  const styleAttr = style > 0 ? ` s="${style}"` : '';
+
+  if (typeof cell.value === 'number' && isFinite(cell.value)) {
+    return `<c r="${reference}"${styleAttr}><v>${cell.value}</v></c>`;
+  }
+  return `<c r="${reference}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell.value))}</t></is></c>`;
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+  const frozen = sheet.frozenRows ?? 0;
+  const views = frozen > 0
+    ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="${frozen}" topLeftCell="A${frozen + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+    : '';
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row.map((cell, columnIndex) => cellXml(cell, `${columnName(columnIndex)}${rowIndex + 1}`)).join('');
+      return cells ? `<row r="${rowIndex + 1}">${cells}</row>` : '';
+    })
+    .join('');
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">${views}${cols}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+function stylesXml(currencySymbol: string): string {
+  const symbol = escapeXml(currencySymbol.replace(/"/g, ''));
+  const currencyCode = `&quot;${symbol}&quot;#,##0.00;-&quot;${symbol}&quot;#,##0.00`;
+  const xfs = [false, true].flatMap(bold =>
+    FORMATS.map(format => {
+      const numFmtId = NUMBER_FORMAT_IDS[format];
+      return `<xf numFmtId="${numFmtId}" fontId="${bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"${numFmtId ? ' applyNumberFormat="1"' : ''}${bold ? ' applyFont="1"' : ''}/>`;
+    })
+  );
+  return (
+    `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">` +
+    `<numFmts count="1"><numFmt numFmtId="${CURRENCY_FORMAT_ID}" formatCode="${currencyCode}"/></numFmts>` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>` +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>'
+  );
+}
+
+/** Builds an .xlsx file holding `sheets`, in order. */
+export function toXlsx(sheets: XlsxSheet[], { currencySymbol = '$' }: XlsxOptions = {}): Uint8Array {
+  const used = new Set<string>();
+  const names = sheets.map((sheet, index) => sheetName(sheet.name, index, used));
+
+  const contentTypes =
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+    '</Types>';
+
+  const rootRels =
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook =
+    `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+    '</sheets></workbook>';
+
+  const workbookRels =
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: stylesXml(currencySymbol) },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: worksheetXml(sheet) })),
+  ]);
+}
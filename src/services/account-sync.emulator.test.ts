@@ -0,0 +1,157 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestContext, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, doc, getDoc, getDocs, setDoc, type Firestore } from 'firebase/firestore';
+import { getStore } from '@/lib/storage';
+import { favoritesStorage, historyStorage, profileStorage } from '@/lib/stored-data';
+import type { HistoryEntry } from '@/lib/types';
+import { MemoryStorage } from '@/test/memory-storage';
+import { clearLocalAccountData, syncAccount } from './account-sync';
+
+/**
+ * Firestore rules and account sync against the Firestore emulator. Run with
+ * `npm run test:emulators`; skipped when no emulator is configured.
+ */
+
+const firebase = vi.hoisted(() => ({ db: null as Firestore | null }));
+vi.mock('./firebase', () => ({ getFirebase: () => ({ db: firebase.db }) }));
+
+const PROJECT_ID = 'demo-mathlet';
+
+function entry(id: string, day: number): HistoryEntry {
+  return {
+    id,
+    calculatorSlug: 'loan-payment',
+    timestamp: new Date(Date.UTC(2025, 0, day)),
+    values: { loanAmount: '10000' },
+    calculatorVersion: 1,
+    outputs: { monthlyPayment: 299.71 },
+    input: `Entry ${id}`,
+    result: 'Monthly Payment: $299.71',
+  };
+}
+
+// The compat instance also works with the modular API
+const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('with the Firestore emulator', () => {
+  let testEnv: RulesTestEnvironment;
+
+  /** Makes `uid` the signed-in user that `syncAccount` talks to Firestore as. */
+  const signInAs = (uid: string) => {
+    firebase.db = firestoreOf(testEnv.authenticatedContext(uid));
+  };
+
+  const remoteHistoryIds = async (uid: string) => {
+    let ids: string[] = [];
+    await testEnv.withSecurityRulesDisabled(async context => {
+      const snapshot = await getDocs(collection(firestoreOf(context), 'users', uid, 'history'));
+      ids = snapshot.docs.map(document => document.id).sort();
+    });
+    return ids;
+  };
+
+  beforeAll(async () => {
+    vi.stubGlobal('window', { localStorage: new MemoryStorage(), addEventListener: () => {} });
+    testEnv = await initializeTestEnvironment({ projectId: PROJECT_ID, firestore: { rules: readFileSync('firestore.rules', 'utf8') } });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    clearLocalAccountData();
+  });
+
+  describe('firestore.rules', () => {
+    it('lets users read and write their own data', async () => {
+      const db = firestoreOf(testEnv.authenticatedContext('alice'));
+      await assertSucceeds(setDoc(doc(db, 'users', 'alice'), { favorites: ['apr'] }));
+      await assertSucceeds(setDoc(doc(db, 'users', 'alice', 'history', '1'), { entry: '{}', pinned: false, timestamp: '' }));
+      await assertSucceeds(getDoc(doc(db, 'users', 'alice')));
+      await assertSucceeds(getDocs(collection(db, 'users', 'alice', 'history')));
+    });
+
+    it("denies access to another user's data", async () => {
+      const db = firestoreOf(testEnv.authenticatedContext('bob'));
+      await assertFails(getDoc(doc(db, 'users', 'alice')));
+      await assertFails(getDocs(collection(db, 'users', 'alice', 'history')));
+      await assertFails(setDoc(doc(db, 'users', 'alice'), { favorites: [] }));
+      await assertFails(setDoc(doc(db, 'users', 'alice', 'history', '1'), { entry: '{}', pinned: false, timestamp: '' }));
+    });
+
+    it('denies signed-out access', async () => {
+      const db = firestoreOf(testEnv.unauthenticatedContext());
+      await assertFails(getDoc(doc(db, 'users', 'alice')));
+      await assertFails(setDoc(doc(db, 'users', 'alice'), { favorites: [] }));
+    });
+  });
+
+  describe('syncAccount', () => {
+    it('uploads local data and pulls it on another device', async () => {
+      signInAs('alice');
+      getStore(historyStorage).set([entry('1', 1)]);
+      getStore(favoritesStorage).set(['apr']);
+      const first = await syncAccount('alice');
+      await first.committed;
+      expect(first.pushed).toBe(1);
+      expect(await remoteHistoryIds('alice')).toEqual(['1']);
+
+      // A fresh browser for the same account
+      clearLocalAccountData();
+      const second = await syncAccount('alice');
+      expect(second.pulled).toBe(1);
+      expect(getStore(historyStorage).get().map(item => item.id)).toEqual(['1']);
+      expect(getStore(favoritesStorage).get()).toEqual(['apr']);
+    });
+
+    it('deletes entries removed locally since the last sync', async () => {
+      signInAs('alice');
+      getStore(historyStorage).set([entry('2', 2), entry('1', 1)]);
+      await (await syncAccount('alice')).committed;
+
+      getStore(historyStorage).set(history => history.filter(item => item.id !== '1'));
+      await (await syncAccount('alice')).committed;
+      expect(await remoteHistoryIds('alice')).toEqual(['2']);
+    });
+
+    it("does not upload the previous account's data after it signs out", async () => {
+      signInAs('alice');
+      getStore(historyStorage).set([entry('alice', 1)]);
+      await (await syncAccount('alice')).committed;
+
+      clearLocalAccountData();
+      expect(getStore(historyStorage).get()).toEqual([]);
+
+      signInAs('bob');
+      await (await syncAccount('bob')).committed;
+      expect(await remoteHistoryIds('bob')).toEqual([]);
+    });
+
+    it("does not merge another account's data left without signing out", async () => {
+      signInAs('alice');
+      getStore(historyStorage).set([entry('alice', 1)]);
+      await (await syncAccount('alice')).committed;
+
+      // Alice's session ended without a sign-out in this browser
+      signInAs('bob');
+      await (await syncAccount('bob')).committed;
+      expect(await remoteHistoryIds('bob')).toEqual([]);
+      expect(getStore(historyStorage).get()).toEqual([]);
+    });
+
+    it('ignores a remote profile and favorites in an unexpected shape', async () => {
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await setDoc(doc(firestoreOf(context), 'users', 'alice'), { profile: { preferredCurrency: 42 }, favorites: 'apr' });
+      });
+
+      signInAs('alice');
+      await (await syncAccount('alice')).committed;
+      expect(getStore(profileStorage).get()).toEqual(profileStorage.defaultValue);
+      expect(getStore(favoritesStorage).get()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { collection, doc, getDoc, getDocs, onSnapshot, serverTimestamp, writeBatch, type Firestore, type WriteBatch } from 'firebase/firestore';
+import { SYNC_STATE_STORAGE_KEY } from '@/lib/constants';
+import { migrateHistoryEntry } from '@/lib/history';
+import { getStore } from '@/lib/storage';
+import { favoritesStorage, historyStorage, profileSchema, profileStorage } from '@/lib/stored-data';
+import { mergeSyncData, type SyncBase } from '@/lib/sync-merge';
+import type { HistoryEntry } from '@/lib/types';
+import type { UserData } from '@/lib/user-data';
+import { getFirebase } from './firebase';
+
+/**
+ * Syncs history, favorites and the profile between localStorage and
+ * Firestore for a signed-in user.
+ *
+ * Layout: `users/{uid}` holds the profile and favorites, and each history
+ * entry is a document in `users/{uid}/history`. localStorage stays the
+ * source the app reads from; a sync merges both sides (see `mergeSyncData`),
+ * writes the result locally and queues the differences for the server.
+ *
+ * Synced data belongs to the account while signed in: signing out removes
+ * it from the browser, so the next account to sign in does not merge it.
+ */
+
+const USERS_COLLECTION = 'users';
+const HISTORY_COLLECTION = 'history';
+
+/** Firestore's limit on writes per batch. */
+const BATCH_LIMIT = 500;
+
+
+interface HistoryDocument {
+  /** The entry as JSON; form values may hold shapes Firestore cannot store, such as nested arrays. */
+  entry: string;
+  pinned: boolean;
+  timestamp: string;
+}
+
+const syncStateSchema = z.object({
+  uid: z.string(),
+  syncedAt: z.string(),
+  base: z.object({
+    history: z.record(z.string(), z.boolean()),
+    favorites: z.array(z.string()),
+    profile: z.record(z.string(), z.unknown()),
+  }),
+});
+
+interface SyncState {
+  uid: string;
+  syncedAt: string;
+  base: SyncBase;
+}
+
+/** The user data synced for an account. */
+export const SYNCED_STORAGE = [historyStorage, favoritesStorage, profileStorage];
+
+/** The sync state stored in this browser, for whichever account it was recorded. */
+function readStoredSyncState(): SyncState | null {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(window.localStorage.getItem(SYNC_STATE_STORAGE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+  const parsed = syncStateSchema.safeParse(stored);
+  return parsed.success ? (parsed.data as SyncState) : null;
+}
+
+function readSyncState(uid: string): SyncState | null {
+  const state = readStoredSyncState();
+  // A base recorded for another account says nothing about this one
+  return state?.uid === uid ? state : null;
+}
+
+/**
+ * Removes the synced data and the sync base from this browser, e.g. on
+ * sign-out. The account keeps its copy on the server.
+ */
+export function clearLocalAccountData(): void {
+  window.localStorage.removeItem(SYNC_STATE_STORAGE_KEY);
+  for (const definition of SYNCED_STORAGE) getStore<unknown>(definition).set(definition.defaultValue);
+}
+
+export function getLastSyncedAt(uid: string): Date | null {
+  const state = readSyncState(uid);
+  return state ? new Date(state.syncedAt) : null;
+}
+
+function readLocalData(): UserData {
+  return {
+    history: getStore(historyStorage).get(),
+    favorites: getStore(favoritesStorage).get(),
+    profile: getStore(profileStorage).get(),
+  };
+}
+
+function userDoc(db: Firestore, uid: string) {
+  return doc(db, USERS_COLLECTION, uid);
+}
+
+function historyCollection(db: Firestore, uid: string) {
+  return collection(db, USERS_COLLECTION, uid, HISTORY_COLLECTION);
+}
+
+const remoteFavoritesSchema = z.array(z.string());
+
+async function readRemoteData(db: Firestore, uid: string): Promise<UserData | null> {
+  const [userSnapshot, historySnapshot] = await Promise.all([getDoc(userDoc(db, uid)), getDocs(historyCollection(db, uid))]);
+  if (!userSnapshot.exists() && historySnapshot.empty) return null;
+
+  const user = userSnapshot.data() ?? {};
+  const history = historySnapshot.docs.flatMap(snapshot => {
+    try {
+      const entry = migrateHistoryEntry(JSON.parse((snapshot.data() as HistoryDocument).entry));
+      return entry ? [entry] : [];
+    } catch {
+      console.error(`Ignoring unreadable synced history entry ${snapshot.id}`);
+      return [];
+    }
+  });
+
+  // Fields another client wrote in an unexpected shape are replaced by the next sync
+  const favorites = remoteFavoritesSchema.safeParse(user.favorites ?? []);
+  if (!favorites.success) console.error('Ignoring invalid synced favorites:', favorites.error.issues);
+  const profile = profileSchema.safeParse(user.profile ?? profileStorage.defaultValue);
+  if (!profile.success) console.error('Ignoring invalid synced profile:', profile.error.issues);
+  return {
+    history,
+    favorites: favorites.success ? favorites.data : [],
+    profile: profile.success ? profile.data : profileStorage.defaultValue,
+  };
+}
+
+function toHistoryDocument(entry: HistoryEntry): HistoryDocument {
+  return { entry: JSON.stringify(entry), pinned: !!entry.pinned, timestamp: new Date(entry.timestamp).toISOString() };
+}
+
+export interface SyncResult {
+  syncedAt: Date;
+  conflicts: string[];
+  /** History entries that arrived from the server. */
+  pulled: number;
+  /** History entries sent to the server. */
+  pushed: number;
+  /**
+   * Settles once the server has acknowledged the writes. While offline they
+   * stay queued in Firestore's local cache, so callers should not wait on it.
+   */
+  committed: Promise<void>;
+}
+
+export async function syncAccount(uid: string): Promise<SyncResult> {
+  const { db } = getFirebase();
+  // Data synced for another account that never signed out here, e.g. after its session expired
+  const previous = readStoredSyncState();
+  if (previous && previous.uid !== uid) clearLocalAccountData();
+  const local = readLocalData();
+  const remote = await readRemoteData(db, uid);
+  const state = readSyncState(uid);
+  const { merged, base, conflicts } = mergeSyncData(local, remote, state?.base ?? null);
+
+  // Queue the server-side differences
+  const remoteHistory = new Map((remote?.history ?? []).map(entry => [entry.id, entry]));
+  const mergedIds = new Set(merged.history.map(entry => entry.id));
+  const toWrite = merged.history.filter(entry => {
+    const remoteEntry = remoteHistory.get(entry.id);
+    return !remoteEntry || !!remoteEntry.pinned !== !!entry.pinned;
+  });
+  const toDelete = Array.from(remoteHistory.keys()).filter(id => !mergedIds.has(id));
+  const userChanged =
+    !remote ||
+    JSON.stringify(remote.favorites) !== JSON.stringify(merged.favorites) ||
+    JSON.stringify(remote.profile) !== JSON.stringify(merged.profile);
+
+  const operations: ((batch: WriteBatch) => void)[] = [
+    ...toWrite.map(entry => (batch: WriteBatch) => batch.set(doc(historyCollection(db, uid), entry.id), toHistoryDocument(entry))),
+    ...toDelete.map(id => (batch: WriteBatch) => batch.delete(doc(historyCollection(db, uid), id))),
+  ];
+  if (userChanged) {
+    operations.push(batch => batch.set(userDoc(db, uid), { profile: merged.profile, favorites: merged.favorites, updatedAt: serverTimestamp() }));
+  }
+
+  const commits: Promise<void>[] = [];
+  for (let i = 0; i < operations.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + BATCH_LIMIT).forEach(operation => operation(batch));
+    commits.push(batch.commit());
+  }
+
+  // Apply the merge locally; unchanged values are not rewritten
+  if (JSON.stringify(merged.history) !== JSON.stringify(local.history)) getStore(historyStorage).set(merged.history);
+  if (JSON.stringify(merged.favorites) !== JSON.stringify(local.favorites)) getStore(favoritesStorage).set(merged.favorites);
+  if (JSON.stringify(merged.profile) !== JSON.stringify(local.profile)) getStore(profileStorage).set(merged.profile);
+
+  const syncedAt = new Date();
+  const syncState: SyncState = { uid, syncedAt: syncedAt.toISOString(), base };
+  window.localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(syncState));
+
+  const localIds = new Set(local.history.map(entry => entry.id));
+  return {
+    syncedAt,
+    conflicts,
+    pulled: merged.history.filter(entry => !localIds.has(entry.id)).length,
+    pushed: toWrite.length,
+    committed: Promise.all(commits).then(() => undefined),
+  };
+}
+
+/** Calls `onChange` when another device changes the account's data. */
+export function watchAccount(uid: string, onChange: () => void, onError: (error: Error) => void): () => void {
+  const { db } = getFirebase();
+  // Snapshots with pending writes echo this device's own changes
+  const unsubscribeUser = onSnapshot(userDoc(db, uid), snapshot => !snapshot.metadata.hasPendingWrites && onChange(), onError);
+  const unsubscribeHistory = onSnapshot(historyCollection(db, uid), snapshot => !snapshot.metadata.hasPendingWrites && onChange(), onError);
+  return () => {
+    unsubscribeUser();
+    unsubscribeHistory();
+  };
+}
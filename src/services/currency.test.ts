@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '@/test/memory-storage';
+import {
+  configureRateService,
+  createHttpHistoryProvider,
+  createHttpRateProvider,
+  getExchangeRates,
+  getRateHistory,
+  RateUnavailableError,
+  shiftDay,
+} from './currency';
+import { MOCK_RATES, startMockRateServer, type MockRateServer } from './mock-rate-server';
+import { readCachedRates, readRateHistory } from './rate-cache';
+
+const storage = new MemoryStorage();
+const BUNDLED_RATES = { ...MOCK_RATES, rates: { ...MOCK_RATES.rates, EUR: 0.5 }, source: 'Bundled reference rates' };
+
+let live: MockRateServer;
+let bundled: MockRateServer;
+
+beforeAll(async () => {
+  vi.stubGlobal('window', { localStorage: storage });
+  [live, bundled] = await Promise.all([startMockRateServer(), startMockRateServer({ rates: BUNDLED_RATES })]);
+});
+
+afterAll(async () => {
+  configureRateService();
+  vi.unstubAllGlobals();
+  await Promise.all([live.close(), bundled.close()]);
+});
+
+beforeEach(() => {
+  storage.clear();
+  live.failWith(null);
+  live.hang(false);
+  bundled.failWith(null);
+  configureRateService({
+    providers: [createHttpRateProvider({ name: 'Live', url: `${live.url}/latest/{base}` })],
+    fallbackProviders: [createHttpRateProvider({ name: 'Bundled', url: `${bundled.url}/latest/{base}` })],
+    historyProviders: [createHttpHistoryProvider({ name: 'History', url: `${live.url}/history/{base}?start={start}&end={end}` })],
+    // Every call goes to the providers unless they fail
+    maxAgeMs: 0,
+    requestTimeoutMs: 200,
+  });
+});
+
+describe('getExchangeRates', () => {
+  it('caches and records rates from a live provider', async () => {
+    const table = await getExchangeRates();
+    expect(table.rates.EUR).toBe(0.9);
+    expect(table.fromCache).toBe(false);
+    expect(readCachedRates()?.source).toBe(MOCK_RATES.source);
+    expect(readRateHistory()?.days['2024-01-01']?.EUR).toBe(0.9);
+  });
+
+  it('serves fresh cached rates without a request', async () => {
+    configureRateService({ maxAgeMs: 60 * 60 * 1000 });
+    await getExchangeRates();
+    const requests = live.requestCount;
+    const table = await getExchangeRates();
+    expect(table.fromCache).toBe(true);
+    expect(live.requestCount).toBe(requests);
+  });
+
+  it('prefers cached rates over the fallback when the live provider fails', async () => {
+    await getExchangeRates();
+    live.failWith(503);
+    const requests = bundled.requestCount;
+
+    const table = await getExchangeRates();
+    expect(table.fromCache).toBe(true);
+    expect(table.rates.EUR).toBe(0.9);
+    expect(bundled.requestCount).toBe(requests);
+  });
+
+  it('uses the fallback without caching or recording it when nothing is cached', async () => {
+    live.failWith(503);
+    const table = await getExchangeRates();
+    expect(table.source).toBe('Bundled reference rates');
+    expect(table.rates.EUR).toBe(0.5);
+    expect(table.stale).toBe(true);
+    expect(readCachedRates()).toBeNull();
+    expect(readRateHistory()).toBeNull();
+
+    // The live provider is tried again on the next call
+    live.failWith(null);
+    expect((await getExchangeRates()).source).toBe(MOCK_RATES.source);
+  });
+
+  it('reports every failure when nothing responds and nothing is cached', async () => {
+    live.failWith(503);
+    bundled.failWith(404);
+    const error = await getExchangeRates().catch(caught => caught);
+    expect(error).toBeInstanceOf(RateUnavailableError);
+    expect(error.failures).toEqual(['Live: Request failed with status 503.', 'Bundled: Request failed with status 404.']);
+  });
+});
+
+describe('provider timeouts', () => {
+  it('falls back to cached rates when the live provider never answers', async () => {
+    await getExchangeRates();
+    live.hang(true);
+
+    const table = await getExchangeRates();
+    expect(table.fromCache).toBe(true);
+    expect(table.rates.EUR).toBe(0.9);
+  });
+
+  it('falls back to the bundled rates when the live provider never answers and nothing is cached', async () => {
+    live.hang(true);
+    expect((await getExchangeRates()).source).toBe('Bundled reference rates');
+  });
+
+  it('gives up on a history provider that never answers', async () => {
+    live.hang(true);
+    const error = await getRateHistory('2024-01-01', '2024-01-05').catch(caught => caught);
+    expect(error).toBeInstanceOf(RateUnavailableError);
+    expect(error.failures).toEqual(['History: Request timed out.']);
+  });
+});
+
+describe('shiftDay', () => {
+  it('counts whole UTC days across month and year ends', () => {
+    expect(shiftDay('2024-03-01', -1)).toBe('2024-02-29');
+    expect(shiftDay('2024-12-31', 1)).toBe('2025-01-01');
+    expect(shiftDay('2024-03-31', -30)).toBe('2024-03-01');
+  });
+});
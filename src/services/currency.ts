@@ -1,3 +1,40 @@
+import { CURRENCIES } from '@/lib/constants';
+import {
+  readCachedRates,
+  readRateHistory,
+  writeCachedRates,
+  writeRateHistory,
+  type CachedRates,
+  type FetchedRange,
+  type StoredRateHistory,
+} from './rate-cache';
+import {
+  createHttpHistoryProvider,
+  createHttpRateProvider,
+  createStaticRateProvider,
+  DEFAULT_HISTORY_URL,
+  DEFAULT_RATES_URL,
+  rebaseRates,
+  type ExchangeRates,
+  type HistoryProvider,
+  type RateHistory,
+  type RateProvider,
+} from './rate-providers';
+
+export {
+  createHttpHistoryProvider,
+  createHttpRateProvider,
+  createStaticRateProvider,
+  parseHistoryResponse,
+  parseRatesResponse,
+  rebaseRates,
+  RateProviderError,
+  type ExchangeRates,
+  type HistoryProvider,
+  type RateHistory,
+  type RateProvider,
+} from './rate-providers';
+
 /**
  * Represents currency information.
  */
@@ -16,6 +53,319 @@ export interface Currency {
   symbol: string;
 }
 
+/** Rates are fetched and cached against this currency; other pairs are cross rates. */
+export const BASE_CURRENCY = 'USD';
+
+export interface RateServiceConfig {
+  /** Tried in order until one succeeds. Their rates are cached and recorded in the stored series. */
+  providers: RateProvider[];
+  /**
+   * Tried in order only when every provider fails and nothing is cached,
+   * e.g. the bundled rates file. Their rates are neither cached nor recorded.
+   */
+  fallbackProviders: RateProvider[];
+  /** Time-series sources for historical rates, tried in order. */
+  historyProviders: HistoryProvider[];
+  /** Cached rates younger than this are used without a network request. */
+  maxAgeMs: number;
+  /** Rates published longer ago than this are flagged as stale. */
+  staleAfterMs: number;
+  /** Most recent days of rates kept in the stored series. */
+  maxHistoryDays: number;
+  /** A provider that has not answered within this long counts as failed. */
+  requestTimeoutMs: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function defaultConfig(): RateServiceConfig {
+  return {
+    providers: [
+      createHttpRateProvider({ name: 'Live exchange rates', url: process.env.NEXT_PUBLIC_EXCHANGE_RATES_URL || DEFAULT_RATES_URL }),
+    ],
+    fallbackProviders: [createStaticRateProvider()],
+    historyProviders: [
+      createHttpHistoryProvider({ name: 'Historical exchange rates', url: process.env.NEXT_PUBLIC_EXCHANGE_RATE_HISTORY_URL || DEFAULT_HISTORY_URL }),
+    ],
+    maxAgeMs: 12 * HOUR,
+    staleAfterMs: 72 * HOUR,
+    maxHistoryDays: 400,
+    requestTimeoutMs: 10000,
+  };
+}
+
+let config = defaultConfig();
+let inFlight: Promise<RateTable> | null = null;
+
+/**
+ * Replaces parts of the service configuration, e.g. to point at a mock
+ * server in tests. Call with no argument to restore the defaults.
+ */
+export function configureRateService(overrides?: Partial<RateServiceConfig>): void {
+  config = overrides ? { ...config, ...overrides } : defaultConfig();
+  inFlight = null;
+}
+
+export interface RateTable extends ExchangeRates {
+  /** When this browser fetched the rates (ISO 8601). */
+  fetchedAt: string;
+  /** True when the rates were published longer ago than `staleAfterMs`. */
+  stale: boolean;
+  /** True when served from the local cache rather than a provider. */
+  fromCache: boolean;
+}
+
+/** Thrown when no provider or fallback responds and nothing is cached. */
+export class RateUnavailableError extends Error {
+  failures: string[];
+
+  constructor(failures: string[]) {
+    super(`Exchange rates are unavailable. ${failures.join(' ')}`);
+    this.name = 'RateUnavailableError';
+    this.failures = failures;
+  }
+}
+
+function toTable(rates: CachedRates, fromCache: boolean): RateTable {
+  const stale = Date.now() - new Date(rates.timestamp).getTime() > config.staleAfterMs;
+  return { ...rates, stale, fromCache };
+}
+
+/** Rates from the first provider that responds, or `null` with each failure added to `failures`. */
+async function fetchFromProviders(providers: RateProvider[], failures: string[]): Promise<ExchangeRates | null> {
+  for (const provider of providers) {
+    try {
+      return await provider.fetchRates(BASE_CURRENCY, AbortSignal.timeout(config.requestTimeoutMs));
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return null;
+}
+
+async function loadRates(cached: CachedRates | null): Promise<RateTable> {
+  const failures: string[] = [];
+  const fetched = await fetchFromProviders(config.providers, failures);
+  if (fetched) {
+    const rates = writeCachedRates(fetched);
+    recordSnapshot(rates);
+    return toTable(rates, false);
+  }
+  if (cached) return toTable(cached, true);
+
+  // Caching fallback rates would pass them off as fresh and skip the live providers
+  const fallback = await fetchFromProviders(config.fallbackProviders, failures);
+  if (fallback) return toTable({ ...fallback, fetchedAt: new Date().toISOString() }, false);
+  throw new RateUnavailableError(failures);
+}
+
+/**
+ * Returns the current rate table against `BASE_CURRENCY`.
+ *
+ * Fresh cached rates are returned immediately. Otherwise each provider is
+ * tried in order; if all fail, older cached rates are returned (flagged by
+ * `fromCache` and usually `stale`), then the fallback providers are tried
+ * before giving up.
+ *
+ * @param options.forceRefresh Skip the cache freshness check.
+ * @throws RateUnavailableError when no provider or fallback responds and nothing is cached.
+ */
+export async function getExchangeRates(options: { forceRefresh?: boolean } = {}): Promise<RateTable> {
+  const cached = readCachedRates();
+  if (cached && !options.forceRefresh && Date.now() - new Date(cached.fetchedAt).getTime() < config.maxAgeMs) {
+    return toTable(cached, true);
+  }
+
+  // Concurrent callers share one request
+  inFlight ??= loadRates(cached).then(table => {
+    inFlight = null;
+    return table;
+  }, error => {
+    inFlight = null;
+    throw error;
+  });
+  return inFlight;
+}
+
+export interface RateQuote {
+  from: string;
+  to: string;
+  /** Units of `to` per one unit of `from`. */
+  rate: number;
+  timestamp: string;
+  source: string;
+  stale: boolean;
+}
+
+/**
+ * Looks up the cross rate between two currencies in a rate table.
+ *
+ * @throws RangeError if either currency is missing from the table.
+ */
+export function quoteFromTable(table: RateTable, from: string, to: string): RateQuote {
+  const rebased = rebaseRates(table, from);
+  const rate = rebased.rates[to];
+  if (!rate) throw new RangeError(`No rate for ${to}.`);
+  return { from, to, rate, timestamp: table.timestamp, source: table.source, stale: table.stale };
+}
+
+/**
+ * Asynchronously retrieves the exchange rate between two currencies.
+ */
+export async function getRate(fromCurrency: string, toCurrency: string): Promise<RateQuote> {
+  return quoteFromTable(await getExchangeRates(), fromCurrency, toCurrency);
+}
+
+/** UTC day key (YYYY-MM-DD), the format used by the rate history. */
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Moves a day key by whole UTC days, e.g. `shiftDay('2024-03-01', -1)` is "2024-02-29". */
+export function shiftDay(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDayKey(date);
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Merges new days into the stored series, keeping the newest `maxHistoryDays`. */
+function mergeHistory(stored: StoredRateHistory | null, history: RateHistory, range?: FetchedRange): StoredRateHistory {
+  const previous = stored?.base === history.base ? stored : null;
+  const days = { ...previous?.days };
+  for (const [day, rates] of Object.entries(history.days)) {
+    days[day] = { ...days[day], ...rates };
+  }
+
+  const kept = Object.keys(days).sort().slice(-config.maxHistoryDays);
+  const oldest = kept[0] ?? '';
+  const ranges = (previous?.ranges ?? []).filter(existing => existing.start >= oldest);
+  return {
+    base: history.base,
+    days: Object.fromEntries(kept.map(day => [day, days[day]])),
+    source: history.source,
+    ranges: range && range.start >= oldest ? [...ranges, range] : ranges,
+  };
+}
+
+/** Adds a freshly fetched rate table to the stored series under its publication day. */
+function recordSnapshot(rates: ExchangeRates): void {
+  const day = rates.timestamp.slice(0, 10);
+  if (!DAY_PATTERN.test(day)) return;
+  writeRateHistory(mergeHistory(readRateHistory(), { base: rates.base, days: { [day]: rates.rates }, source: rates.source }));
+}
+
+function isCovered(history: StoredRateHistory, start: string, end: string): boolean {
+  const today = toDayKey(new Date());
+  return history.ranges.some(range =>
+    range.start <= start &&
+    range.end >= end &&
+    // Today's rates may not have been published when the range was fetched
+    (range.end < today || Date.now() - new Date(range.fetchedAt).getTime() < config.maxAgeMs)
+  );
+}
+
+function daysBetween(history: RateHistory, start: string, end: string): RateHistory['days'] {
+  return Object.fromEntries(Object.entries(history.days).filter(([day]) => day >= start && day <= end));
+}
+
+export interface RateHistoryTable extends RateHistory {
+  /** True when served from the stored series rather than a provider. */
+  fromCache: boolean;
+}
+
+/**
+ * Returns daily rates against `BASE_CURRENCY` from `start` to `end`
+ * (YYYY-MM-DD, inclusive; `end` is capped at today).
+ *
+ * Ranges already fetched are served from the stored series. Otherwise each
+ * history provider is tried in order and the result is stored; if all fail,
+ * whatever stored days fall in the range are returned.
+ *
+ * @throws RangeError for malformed or reversed dates.
+ * @throws RateUnavailableError when no provider responds and nothing is stored for the range.
+ */
+export async function getRateHistory(start: string, end: string, options: { forceRefresh?: boolean } = {}): Promise<RateHistoryTable> {
+  if (!DAY_PATTERN.test(start) || !DAY_PATTERN.test(end)) throw new RangeError('Dates must be in YYYY-MM-DD format.');
+  const today = toDayKey(new Date());
+  const last = end > today ? today : end;
+  if (start > last) throw new RangeError('The start date must be on or before the end date.');
+
+  const stored = readRateHistory();
+  if (stored && !options.forceRefresh && isCovered(stored, start, last)) {
+    return { base: stored.base, days: daysBetween(stored, start, last), source: stored.source, fromCache: true };
+  }
+
+  const failures: string[] = [];
+  for (const provider of config.historyProviders) {
+    try {
+      const history = await provider.fetchHistory(BASE_CURRENCY, start, last, AbortSignal.timeout(config.requestTimeoutMs));
+      writeRateHistory(mergeHistory(readRateHistory(), history, { start, end: last, fetchedAt: new Date().toISOString() }));
+      return { ...history, days: daysBetween(history, start, last), fromCache: false };
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const days = stored?.base === BASE_CURRENCY ? daysBetween(stored, start, last) : {};
+  if (stored && Object.keys(days).length > 0) return { base: stored.base, days, source: stored.source, fromCache: true };
+  throw new RateUnavailableError(failures);
+}
+
+export interface RatePoint {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Units of `to` per one unit of `from` on that day. */
+  rate: number;
+}
+
+export interface PairHistory {
+  from: string;
+  to: string;
+  /** Oldest first. Days missing either currency are skipped. */
+  points: RatePoint[];
+  source: string;
+  fromCache: boolean;
+}
+
+/** Daily cross rates for one currency pair, e.g. for a history chart. */
+export async function getPairHistory(from: string, to: string, start: string, end: string, options: { forceRefresh?: boolean } = {}): Promise<PairHistory> {
+  const history = await getRateHistory(start, end, options);
+  const points = Object.keys(history.days).sort().flatMap(date => {
+    const rates = history.days[date];
+    return rates[from] && rates[to] ? [{ date, rate: rates[to] / rates[from] }] : [];
+  });
+  return { from, to, points, source: history.source, fromCache: history.fromCache };
+}
+
+/** Days searched backwards for the last published rates (weekends and holidays have none). */
+const LOOKBACK_DAYS = 10;
+
+/**
+ * Returns the rate table in effect on `day` (YYYY-MM-DD): the latest rates
+ * published on or before it. Today or later returns the current rates.
+ *
+ * @throws RateUnavailableError when no rates are available for that day.
+ */
+export async function getRatesOn(day: string, options: { forceRefresh?: boolean } = {}): Promise<RateTable> {
+  if (!DAY_PATTERN.test(day)) throw new RangeError('Dates must be in YYYY-MM-DD format.');
+  if (day >= toDayKey(new Date())) return getExchangeRates(options);
+
+  const history = await getRateHistory(shiftDay(day, -LOOKBACK_DAYS), day, options);
+  const published = Object.keys(history.days).sort().pop();
+  if (!published) throw new RateUnavailableError([`No rates were published on or before ${day}.`]);
+  return {
+    base: history.base,
+    rates: history.days[published],
+    timestamp: `${published}T00:00:00.000Z`,
+    source: history.source,
+    fetchedAt: new Date().toISOString(),
+    stale: false,
+    fromCache: history.fromCache,
+  };
+}
+
 /**
  * Asynchronously retrieves currency information for a given currency code.
  *
@@ -23,12 +373,11 @@ export interface Currency {
  * @returns A promise that resolves to a Currency object containing currency details.
  */
 export async function getCurrency(currencyCode: string): Promise<Currency> {
-  // TODO: Implement this by calling an API.
-
+  const { rate } = await getRate(BASE_CURRENCY, currencyCode);
   return {
     code: currencyCode,
-    exchangeRate: 1.0,
-    symbol: '$'
+    exchangeRate: rate,
+    symbol: CURRENCIES.find(currency => currency.code === currencyCode)?.symbol ?? currencyCode,
   };
 }
 
@@ -41,7 +390,6 @@ export async function getCurrency(currencyCode: string): Promise<Currency> {
 * @returns A promise that resolves to the converted amount.
 */
 export async function convertCurrency(fromCurrency: string, toCurrency: string, amount: number): Promise<number> {
-    // TODO: Implement this by calling an API.
-
-    return amount;
+    const { rate } = await getRate(fromCurrency, toCurrency);
+    return amount * rate;
 }
@@ -0,0 +1,71 @@
+import { getApp, getApps, initializeApp, type FirebaseApp, type FirebaseOptions } from 'firebase/app';
+import { connectAuthEmulator, getAuth, type Auth } from 'firebase/auth';
+import {
+  connectFirestoreEmulator,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from 'firebase/firestore';
+
+/**
+ * Firebase is optional. Account sync is enabled only when the web app config
+ * is provided through `NEXT_PUBLIC_FIREBASE_*` variables; set
+ * `NEXT_PUBLIC_FIREBASE_EMULATOR_HOST` (e.g. `localhost`) to use the local
+ * Auth and Firestore emulators instead of a real project.
+ */
+
+const firebaseConfig: FirebaseOptions = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+
+/** Default ports from `firebase.json`. */
+const AUTH_EMULATOR_PORT = Number(process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_PORT || 9099);
+const FIRESTORE_EMULATOR_PORT = Number(process.env.NEXT_PUBLIC_FIREBASE_FIRESTORE_EMULATOR_PORT || 8080);
+
+export function isFirebaseConfigured(): boolean {
+  // The emulators accept any API key, so a project id is enough for local development
+  return Boolean(firebaseConfig.projectId && (firebaseConfig.apiKey || emulatorHost));
+}
+
+export interface FirebaseServices {
+  app: FirebaseApp;
+  auth: Auth;
+  db: Firestore;
+}
+
+let services: FirebaseServices | null = null;
+
+/**
+ * Lazily initializes Firebase in the browser. Firestore keeps a persistent
+ * local cache shared between tabs, so reads work and writes queue while offline.
+ */
+export function getFirebase(): FirebaseServices {
+  if (services) return services;
+  if (typeof window === 'undefined') {
+    throw new Error('Firebase is only available in the browser.');
+  }
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured.');
+  }
+
+  const app = getApps().length > 0 ? getApp() : initializeApp({ ...firebaseConfig, apiKey: firebaseConfig.apiKey || 'emulator' });
+  const auth = getAuth(app);
+  const db = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    ignoreUndefinedProperties: true,
+  });
+
+  if (emulatorHost) {
+    connectAuthEmulator(auth, `http://${emulatorHost}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true });
+    connectFirestoreEmulator(db, emulatorHost, FIRESTORE_EMULATOR_PORT);
+  }
+
+  services = { app, auth, db };
+  return services;
+}
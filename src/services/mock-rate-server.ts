@@ -0,0 +1,124 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { rebaseRates, type ExchangeRates, type RateHistory } from './rate-providers';
+
+/**
+ * Local HTTP server that serves exchange rates for tests and offline
+ * development. Node-only: the app never imports this module.
+ *
+ * ```ts
+ * const server = await startMockRateServer();
+ * configureRateService({
+ *   providers: [createHttpRateProvider({ name: 'Mock', url: `${server.url}/latest/{base}` })],
+ *   historyProviders: [createHttpHistoryProvider({ name: 'Mock', url: `${server.url}/history/{base}?start={start}&end={end}` })],
+ * });
+ * // ...
+ * await server.close();
+ * ```
+ */
+
+export interface MockRateServerOptions {
+  /** Rate table to serve. Defaults to a small USD table. */
+  rates?: ExchangeRates;
+  /** Port to listen on; 0 (the default) picks a free port. */
+  port?: number;
+}
+
+export interface MockRateServer {
+  /** Base URL without a trailing slash, e.g. "http://127.0.0.1:54321". */
+  url: string;
+  /** Number of rate requests served so far, for asserting cache behaviour. */
+  readonly requestCount: number;
+  /** Replaces the served rates. */
+  setRates(rates: ExchangeRates): void;
+  /** Makes every following request fail with this HTTP status; `null` restores normal responses. */
+  failWith(status: number | null): void;
+  /** Leaves every following request unanswered, like a provider that has gone quiet; `false` restores normal responses. */
+  hang(hung: boolean): void;
+  close(): Promise<void>;
+}
+
+export const MOCK_RATES: ExchangeRates = {
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.9, GBP: 0.8, JPY: 150, CAD: 1.25 },
+  timestamp: '2024-01-01T00:00:00.000Z',
+  source: 'Mock rate server',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Serves the same rates for every day of the range, like a flat market. */
+function flatHistory(rates: ExchangeRates, start: string, end: string): RateHistory | null {
+  const first = Date.parse(`${start}T00:00:00Z`);
+  const last = Date.parse(`${end}T00:00:00Z`);
+  if (isNaN(first) || isNaN(last) || last < first || last - first > 3660 * DAY_MS) return null;
+  const days: RateHistory['days'] = {};
+  for (let time = first; time <= last; time += DAY_MS) {
+    days[new Date(time).toISOString().slice(0, 10)] = rates.rates;
+  }
+  return { base: rates.base, days, source: rates.source };
+}
+
+/**
+ * Starts the server. `GET /latest/:base` returns the rates rebased to `base`
+ * and `GET /history/:base?start=YYYY-MM-DD&end=YYYY-MM-DD` returns them for
+ * every day of the range (404 for unknown currencies, 400 for bad ranges);
+ * any other path returns 404.
+ */
+export function startMockRateServer({ rates = MOCK_RATES, port = 0 }: MockRateServerOptions = {}): Promise<MockRateServer> {
+  let current = rates;
+  let failure: number | null = null;
+  let hung = false;
+  let requestCount = 0;
+
+  const server: Server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const match = /^\/(latest|history)\/([A-Za-z]{3})$/.exec(url.pathname);
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (!match) return send(404, { error: 'Not found' });
+    requestCount++;
+    if (hung) return;
+    if (failure !== null) return send(failure, { error: 'Simulated failure' });
+    let rebased: ExchangeRates;
+    try {
+      rebased = rebaseRates(current, match[2].toUpperCase());
+    } catch {
+      return send(404, { error: `Unknown currency ${match[2]}` });
+    }
+    if (match[1] === 'latest') return send(200, rebased);
+
+    const history = flatHistory(rebased, url.searchParams.get('start') ?? '', url.searchParams.get('end') ?? '');
+    send(history ? 200 : 400, history ? { base: history.base, rates: history.days, source: history.source } : { error: 'Invalid date range' });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: actualPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}`,
+        get requestCount() {
+          return requestCount;
+        },
+        setRates(next) {
+          current = next;
+        },
+        failWith(status) {
+          failure = status;
+        },
+        hang(value) {
+          hung = value;
+        },
+        close: () => new Promise<void>((done, fail) => {
+          server.close(error => (error ? fail(error) : done()));
+          // Unanswered requests would otherwise keep the server open
+          server.closeAllConnections();
+        }),
+      });
+    });
+  });
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { EXCHANGE_RATE_HISTORY_STORAGE_KEY, EXCHANGE_RATES_STORAGE_KEY } from '@/lib/constants';
+import type { ExchangeRates, RateHistory } from './rate-providers';
+
+/**
+ * localStorage cache of the most recently fetched rate table, and of the
+ * daily rate series used for historical conversions.
+ */
+
+export interface CachedRates extends ExchangeRates {
+  /** When this browser fetched the rates (ISO 8601), used for cache freshness. */
+  fetchedAt: string;
+}
+
+const ratesSchema = z.record(z.string(), z.number().positive());
+
+const cachedRatesSchema = z.object({
+  base: z.string(),
+  rates: ratesSchema,
+  timestamp: z.string(),
+  source: z.string(),
+  fetchedAt: z.string(),
+});
+
+export function readCachedRates(): CachedRates | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const item = window.localStorage.getItem(EXCHANGE_RATES_STORAGE_KEY);
+    if (!item) return null;
+    const parsed = cachedRatesSchema.safeParse(JSON.parse(item));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    console.error('Error reading cached exchange rates:', error);
+    return null;
+  }
+}
+
+export function writeCachedRates(rates: ExchangeRates): CachedRates {
+  const cached: CachedRates = { ...rates, fetchedAt: new Date().toISOString() };
+  if (typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify(cached));
+    } catch (error) {
+      // A full or disabled storage only costs us the cache
+      console.error('Error caching exchange rates:', error);
+    }
+  }
+  return cached;
+}
+
+export interface FetchedRange {
+  start: string;
+  end: string;
+  /** When the range was fetched (ISO 8601); ranges reaching today go stale. */
+  fetchedAt: string;
+}
+
+export interface StoredRateHistory extends RateHistory {
+  /** Date ranges already fetched in full from a history provider. */
+  ranges: FetchedRange[];
+}
+
+const storedHistorySchema = z.object({
+  base: z.string(),
+  days: z.record(z.string(), ratesSchema),
+  source: z.string(),
+  ranges: z.array(z.object({ start: z.string(), end: z.string(), fetchedAt: z.string() })),
+});
+
+export function readRateHistory(): StoredRateHistory | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const item = window.localStorage.getItem(EXCHANGE_RATE_HISTORY_STORAGE_KEY);
+    if (!item) return null;
+    const parsed = storedHistorySchema.safeParse(JSON.parse(item));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    console.error('Error reading stored exchange rate history:', error);
+    return null;
+  }
+}
+
+export function writeRateHistory(history: StoredRateHistory): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(EXCHANGE_RATE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Error storing exchange rate history:', error);
+  }
+}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+
+/**
+ * Exchange-rate providers used by the currency service. A provider returns
+ * rates as "units of each currency per one unit of `base`".
+ */
+
+export interface ExchangeRates {
+  /** Currency the rates are quoted against, e.g. "USD". */
+  base: string;
+  rates: Record<string, number>;
+  /** When the provider published the rates (ISO 8601). */
+  timestamp: string;
+  /** Human-readable name of where the rates came from. */
+  source: string;
+}
+
+export interface RateProvider {
+  name: string;
+  fetchRates(base: string, signal?: AbortSignal): Promise<ExchangeRates>;
+}
+
+/** Thrown when a provider cannot be reached or returns an unusable response. */
+export class RateProviderError extends Error {
+  provider: string;
+
+  constructor(provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'RateProviderError';
+    this.provider = provider;
+  }
+}
+
+const ratesSchema = z.record(z.string(), z.number().positive());
+
+/**
+ * Response shapes of common free rate APIs:
+ * our own `ExchangeRates` JSON, exchangerate-api / open.er-api
+ * (`base_code`, `time_last_update_unix`) and Frankfurter / ECB style (`base`, `date`).
+ */
+const responseSchema = z.union([
+  z.object({ base: z.string(), rates: ratesSchema, timestamp: z.string(), source: z.string().optional() }),
+  z.object({ base_code: z.string(), rates: ratesSchema.optional(), conversion_rates: ratesSchema.optional(), time_last_update_unix: z.number() }),
+  z.object({ base: z.string(), rates: ratesSchema, date: z.string() }),
+]);
+
+/**
+ * Normalizes a provider response into `ExchangeRates`, adding the base
+ * currency itself at rate 1.
+ *
+ * @returns The rates, or `null` if the body is not a recognized shape.
+ */
+export function parseRatesResponse(body: unknown, source: string): ExchangeRates | null {
+  const parsed = responseSchema.safeParse(body);
+  if (!parsed.success) return null;
+  const data = parsed.data;
+
+  let result: ExchangeRates;
+  if ('base_code' in data) {
+    const rates = data.rates ?? data.conversion_rates;
+    if (!rates) return null;
+    result = { base: data.base_code, rates, timestamp: new Date(data.time_last_update_unix * 1000).toISOString(), source };
+  } else if ('date' in data) {
+    result = { base: data.base, rates: data.rates, timestamp: new Date(`${data.date}T00:00:00Z`).toISOString(), source };
+  } else {
+    result = { base: data.base, rates: data.rates, timestamp: data.timestamp, source: data.source ?? source };
+  }
+  return { ...result, rates: { ...result.rates, [result.base]: 1 } };
+}
+
+/**
+ * Re-expresses rates against another currency in the table.
+ *
+ * @throws RangeError if `base` is not in the table.
+ */
+export function rebaseRates(rates: ExchangeRates, base: string): ExchangeRates {
+  if (rates.base === base) return rates;
+  const divisor = rates.rates[base];
+  if (!divisor) throw new RangeError(`No rate for ${base}.`);
+  const rebased = Object.fromEntries(Object.entries(rates.rates).map(([code, rate]) => [code, rate / divisor]));
+  return { ...rates, base, rates: rebased };
+}
+
+export interface HttpRateProviderOptions {
+  name: string;
+  /** Endpoint URL; `{base}` is replaced with the requested base currency. */
+  url: string;
+  /** Custom response parser for APIs `parseRatesResponse` does not understand. */
+  parse?: (body: unknown, source: string) => ExchangeRates | null;
+  /** Injected for tests and server-side use. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+function requestFailure(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') return 'Request timed out.';
+  return error instanceof Error ? error.message : 'Network request failed.';
+}
+
+async function fetchJson(name: string, url: string, fetchImpl: typeof fetch | undefined, signal?: AbortSignal): Promise<unknown> {
+  const doFetch = fetchImpl ?? fetch;
+  let response: Response;
+  try {
+    response = await doFetch(url, { signal });
+  } catch (error) {
+    throw new RateProviderError(name, requestFailure(error));
+  }
+  if (!response.ok) throw new RateProviderError(name, `Request failed with status ${response.status}.`);
+  return response.json().catch(error => {
+    if (signal?.aborted) throw new RateProviderError(name, requestFailure(error));
+    return null;
+  });
+}
+
+/**
+ * Fetches rates from a JSON HTTP API. If the API ignores the requested base
+ * (as static files and some free tiers do), the rates are rebased locally.
+ */
+export function createHttpRateProvider({ name, url, parse = parseRatesResponse, fetch: fetchImpl }: HttpRateProviderOptions): RateProvider {
+  return {
+    name,
+    async fetchRates(base, signal) {
+      const body = await fetchJson(name, url.replace('{base}', encodeURIComponent(base)), fetchImpl, signal);
+      const rates = parse(body, name);
+      if (!rates) throw new RateProviderError(name, 'Unrecognized response format.');
+      try {
+        return rebaseRates(rates, base);
+      } catch {
+        throw new RateProviderError(name, `No rates available for ${base}.`);
+      }
+    },
+  };
+}
+
+/** Public rates API used when `NEXT_PUBLIC_EXCHANGE_RATES_URL` is not set. */
+export const DEFAULT_RATES_URL = 'https://open.er-api.com/v6/latest/{base}';
+
+/** Path of the bundled rates file in `public/`. */
+export const STATIC_RATES_PATH = '/exchange-rates.json';
+
+/**
+ * Serves the bundled `public/exchange-rates.json`, so conversions keep
+ * working offline or when the live API is unavailable.
+ */
+export function createStaticRateProvider(path = STATIC_RATES_PATH, fetchImpl?: typeof fetch): RateProvider {
+  return createHttpRateProvider({ name: 'Bundled reference rates', url: path, fetch: fetchImpl });
+}
+
+/** Daily rates over a date range, as "units of each currency per one unit of `base`". */
+export interface RateHistory {
+  base: string;
+  /** Rate tables keyed by day (YYYY-MM-DD). Days without published rates are absent. */
+  days: Record<string, Record<string, number>>;
+  source: string;
+}
+
+export interface HistoryProvider {
+  name: string;
+  /** Rates for every published day from `start` to `end` inclusive (both YYYY-MM-DD). */
+  fetchHistory(base: string, start: string, end: string, signal?: AbortSignal): Promise<RateHistory>;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Frankfurter's time-series shape, which our own history JSON shares. */
+const historyResponseSchema = z.object({
+  base: z.string(),
+  rates: z.record(z.string(), ratesSchema),
+  source: z.string().optional(),
+});
+
+/**
+ * Normalizes a time-series response into `RateHistory`, adding the base
+ * currency at rate 1 to each day.
+ *
+ * @returns The history, or `null` if the body is not a recognized shape.
+ */
+export function parseHistoryResponse(body: unknown, source: string): RateHistory | null {
+  const parsed = historyResponseSchema.safeParse(body);
+  if (!parsed.success) return null;
+  const { base, rates } = parsed.data;
+  const days = Object.fromEntries(
+    Object.entries(rates)
+      .filter(([day]) => DAY_PATTERN.test(day))
+      .map(([day, dayRates]) => [day, { ...dayRates, [base]: 1 }])
+  );
+  return { base, days, source: parsed.data.source ?? source };
+}
+
+export interface HttpHistoryProviderOptions {
+  name: string;
+  /** Endpoint URL; `{base}`, `{start}` and `{end}` are replaced with the request. */
+  url: string;
+  /** Custom response parser for APIs `parseHistoryResponse` does not understand. */
+  parse?: (body: unknown, source: string) => RateHistory | null;
+  /** Injected for tests and server-side use. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Fetches a daily time series from a JSON HTTP API. Days quoted against
+ * another base are rebased locally; days missing `base` are dropped.
+ */
+export function createHttpHistoryProvider({ name, url, parse = parseHistoryResponse, fetch: fetchImpl }: HttpHistoryProviderOptions): HistoryProvider {
+  return {
+    name,
+    async fetchHistory(base, start, end, signal) {
+      const requestUrl = url
+        .replace('{base}', encodeURIComponent(base))
+        .replace('{start}', encodeURIComponent(start))
+        .replace('{end}', encodeURIComponent(end));
+      const history = parse(await fetchJson(name, requestUrl, fetchImpl, signal), name);
+      if (!history) throw new RateProviderError(name, 'Unrecognized response format.');
+      if (history.base === base) return history;
+
+      const days: RateHistory['days'] = {};
+      for (const [day, rates] of Object.entries(history.days)) {
+        const divisor = rates[base];
+        if (divisor) days[day] = Object.fromEntries(Object.entries(rates).map(([code, rate]) => [code, rate / divisor]));
+      }
+      return { ...history, base, days };
+    },
+  };
+}
+
+/** Public time-series API used when `NEXT_PUBLIC_EXCHANGE_RATE_HISTORY_URL` is not set. */
+export const DEFAULT_HISTORY_URL = 'https://api.frankfurter.app/{start}..{end}?from={base}';